@@ -0,0 +1,43 @@
+// app/(protected)/activities/[id]/edit/page.tsx
+import { notFound, redirect } from "next/navigation";
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { activityRepository } from "@features/activities/models/activities.repository";
+import { canManageActivity } from "@features/activities/models/activities.types";
+import { ActivityForm } from "@features/activities/components/ActivityForm";
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function EditActivityPage({ params }: Props) {
+  const { id } = await params;
+  const user = await requireUser({
+    next: `${siteConfig.routes.activities}/${id}/edit`,
+  });
+
+  const [result, members, { t }] = await Promise.all([
+    activityRepository.getById(id),
+    activityRepository.listTeamMembers(),
+    getI18n(),
+  ]);
+  if (!result.success) {
+    notFound();
+  }
+
+  if (!canManageActivity(user, result.data)) {
+    redirect(`${siteConfig.routes.activities}/${id}`);
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <h1 className="text-2xl font-bold">{t("activities.editTitle")}</h1>
+      <ActivityForm
+        members={members.success ? members.data : []}
+        currentUserId={user.id}
+        activity={result.data}
+      />
+    </div>
+  );
+}
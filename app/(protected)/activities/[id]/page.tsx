@@ -0,0 +1,99 @@
+// app/(protected)/activities/[id]/page.tsx
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { formatDateTime } from "@shared/utils/formatters";
+import { profileRepository } from "@features/profile/models/profile.repository";
+import { activityRepository } from "@features/activities/models/activities.repository";
+import {
+  RSVP_LABELS,
+  canManageActivity,
+} from "@features/activities/models/activities.types";
+import { RsvpButtons } from "@features/activities/components/RsvpButtons";
+import { CancelActivityButton } from "@features/activities/components/CancelActivityButton";
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function ActivityPage({ params }: Props) {
+  const { id } = await params;
+  const user = await requireUser({
+    next: `${siteConfig.routes.activities}/${id}`,
+  });
+
+  const [result, timezone, { locale, t }] = await Promise.all([
+    activityRepository.getById(id),
+    profileRepository.getTimezone(user.id),
+    getI18n(),
+  ]);
+  if (!result.success) {
+    notFound();
+  }
+
+  const activity = result.data;
+  const me = activity.members.find((member) => member.id === user.id);
+  const isCancelled = activity.status === "cancelled";
+  const canManage = canManageActivity(user, activity);
+
+  return (
+    <article className="flex flex-col gap-6">
+      <Link href={siteConfig.routes.activities} className="text-sm underline">
+        {t("activities.back")}
+      </Link>
+
+      <header className="flex flex-col gap-1">
+        <h1 className="text-3xl font-bold">{activity.title}</h1>
+        <p className="text-slate-600">
+          {formatDateTime(activity.startsAt, timezone, locale)}
+          {activity.endsAt &&
+            ` — ${formatDateTime(activity.endsAt, timezone, locale)}`}
+        </p>
+        {activity.location && (
+          <p className="text-slate-600">📍 {activity.location}</p>
+        )}
+        {isCancelled && (
+          <p className="font-semibold text-red-600">
+            {t("activities.cancelled")}
+          </p>
+        )}
+      </header>
+
+      {activity.description && (
+        <p className="whitespace-pre-line">{activity.description}</p>
+      )}
+
+      {me && !isCancelled && (
+        <RsvpButtons activityId={activity.id} current={me.rsvp} />
+      )}
+
+      <section>
+        <h2 className="text-lg font-semibold">{t("activities.members")}</h2>
+        <ul className="mt-2 flex flex-col gap-1 text-sm">
+          {activity.members.map((member) => (
+            <li key={member.id} className="flex justify-between gap-4">
+              <span>{member.fullName ?? member.email}</span>
+              <span className="text-slate-600">
+                {t(RSVP_LABELS[member.rsvp])}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {canManage && !isCancelled && (
+        <div className="flex flex-wrap items-start gap-3">
+          <Link
+            href={`${siteConfig.routes.activities}/${activity.id}/edit`}
+            className="rounded-md border px-4 py-2 text-sm"
+          >
+            {t("activities.edit")}
+          </Link>
+          <CancelActivityButton activityId={activity.id} />
+        </div>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,26 @@
+// app/(protected)/activities/new/page.tsx
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { activityRepository } from "@features/activities/models/activities.repository";
+import { ActivityForm } from "@features/activities/components/ActivityForm";
+
+export default async function NewActivityPage() {
+  const user = await requireUser({
+    next: `${siteConfig.routes.activities}/new`,
+  });
+  const [members, { t }] = await Promise.all([
+    activityRepository.listTeamMembers(),
+    getI18n(),
+  ]);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <h1 className="text-2xl font-bold">{t("activities.new")}</h1>
+      <ActivityForm
+        members={members.success ? members.data : []}
+        currentUserId={user.id}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+// app/(protected)/activities/page.tsx
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { getRangeFromNow } from "@shared/utils/dates";
+import { profileRepository } from "@features/profile/models/profile.repository";
+import { activityRepository } from "@features/activities/models/activities.repository";
+import { getActivityErrorMessageKey } from "@features/activities/models/activities.types";
+import { ActivityAgenda } from "@features/activities/components/ActivityAgenda";
+
+export default async function ActivitiesPage() {
+  const user = await requireUser({ next: siteConfig.routes.activities });
+
+  const [upcoming, past, timezone, { t }] = await Promise.all([
+    activityRepository.listForUser(user.id, getRangeFromNow(0, 90)),
+    activityRepository.listForUser(user.id, getRangeFromNow(-30, 0)),
+    profileRepository.getTimezone(user.id),
+    getI18n(),
+  ]);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <h1 className="text-2xl font-bold">{t("activities.title")}</h1>
+
+      {upcoming.success ? (
+        <ActivityAgenda
+          activities={upcoming.data}
+          userId={user.id}
+          timeZone={timezone}
+        />
+      ) : (
+        <p className="text-red-600" role="alert">
+          {t(getActivityErrorMessageKey(upcoming.error.type))}
+        </p>
+      )}
+
+      {past.success && past.data.length > 0 && (
+        <ActivityAgenda
+          activities={[...past.data].reverse()}
+          userId={user.id}
+          timeZone={timezone}
+          title={t("activities.lastDays")}
+        />
+      )}
+    </div>
+  );
+}
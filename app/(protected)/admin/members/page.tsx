@@ -0,0 +1,47 @@
+// app/(protected)/admin/members/page.tsx
+import { requirePermission } from "@lib/auth/guards";
+import { hasPermission } from "@lib/auth/permissions";
+import { isAdminClientConfigured } from "@lib/supabase/admin";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { memberAdminRepository } from "@features/admin/models/admin.repository";
+import {
+  AdminErrorType,
+  getAdminErrorMessageKey,
+} from "@features/admin/models/admin.types";
+import { MemberRoleTable } from "@features/admin/components/MemberRoleTable";
+
+export default async function AdminMembersPage() {
+  const user = await requirePermission("members:view", {
+    next: siteConfig.routes.adminMembers,
+  });
+  const { t } = await getI18n();
+
+  if (!isAdminClientConfigured()) {
+    return (
+      <p className="text-slate-600">
+        {t(getAdminErrorMessageKey(AdminErrorType.NOT_CONFIGURED))}
+      </p>
+    );
+  }
+
+  const result = await memberAdminRepository.listMembers();
+
+  return (
+    <div className="flex flex-col gap-6">
+      <h1 className="text-2xl font-bold">{t("admin.members.title")}</h1>
+
+      {result.success ? (
+        <MemberRoleTable
+          members={result.data}
+          currentUserId={user.id}
+          canManageRoles={hasPermission(user, "members:manage_roles")}
+        />
+      ) : (
+        <p className="text-red-600" role="alert">
+          {t(getAdminErrorMessageKey(result.error.type))}
+        </p>
+      )}
+    </div>
+  );
+}
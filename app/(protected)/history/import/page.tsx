@@ -0,0 +1,24 @@
+// app/(protected)/history/import/page.tsx
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { profileRepository } from "@features/profile/models/profile.repository";
+import { ImportWizard } from "@features/import/components/ImportWizard";
+
+export default async function ImportPage() {
+  const user = await requireUser({ next: siteConfig.routes.importData });
+  const timezone = await profileRepository.getTimezone(user.id);
+  const { t } = await getI18n();
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div>
+        <h1 className="text-2xl font-bold">{t("import.title")}</h1>
+        <p className="mt-1 text-sm text-slate-600">
+          {t("import.description", { timezone })}
+        </p>
+      </div>
+      <ImportWizard timezone={timezone} />
+    </div>
+  );
+}
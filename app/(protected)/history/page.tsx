@@ -0,0 +1,87 @@
+// app/(protected)/history/page.tsx
+import Link from "next/link";
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { addDaysToDateKey, getLocalDateKey } from "@shared/utils/dates";
+import { profileRepository } from "@features/profile/models/profile.repository";
+import { emotionTagRepository } from "@features/home/models/emotions.repository";
+import { getMoodErrorMessageKey } from "@features/home/models/home.types";
+import { historyService } from "@features/history/controllers/history.service";
+import {
+  buildHistoryHref,
+  historyParamsSchema,
+} from "@features/history/models/history.schema";
+import { MoodCalendar } from "@features/history/components/MoodCalendar";
+import { MoodTrendChart } from "@features/history/components/MoodTrendChart";
+import { EmotionTagBreakdown } from "@features/history/components/EmotionTagBreakdown";
+import { DayDetailDrawer } from "@features/history/components/DayDetailDrawer";
+import { ExportForm } from "@features/export/components/ExportForm";
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function HistoryPage({ searchParams }: Props) {
+  const user = await requireUser({ next: siteConfig.routes.history });
+  const timezone = await profileRepository.getTimezone(user.id);
+  const { t } = await getI18n();
+  const today = getLocalDateKey(new Date(), timezone);
+
+  // historyParamsSchema nunca falla: valores inválidos caen a su default
+  const params = historyParamsSchema.parse(await searchParams);
+  const month = params.month ?? today.slice(0, 7);
+
+  const [monthHistory, trend, dayDetail, tags] = await Promise.all([
+    historyService.getMonthHistory(user.id, month, timezone),
+    historyService.getTrend(user.id, params.trend, timezone, today),
+    params.day
+      ? historyService.getDayDetail(user.id, params.day, timezone)
+      : null,
+    emotionTagRepository.listForUser(user.id),
+  ]);
+  const emotionTags = tags.success ? tags.data : [];
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-2xl font-bold">{t("history.title")}</h1>
+        <Link href={siteConfig.routes.importData} className="text-sm underline">
+          {t("history.importLink")}
+        </Link>
+      </div>
+
+      {monthHistory.success ? (
+        <div className="grid gap-6 md:grid-cols-2">
+          <MoodCalendar
+            history={monthHistory.data}
+            params={{ ...params, month }}
+          />
+          <EmotionTagBreakdown
+            frequencies={monthHistory.data.tagFrequencies}
+            emotionTags={emotionTags}
+          />
+        </div>
+      ) : (
+        <p className="text-red-600" role="alert">
+          {t(getMoodErrorMessageKey(monthHistory.error.type))}
+        </p>
+      )}
+
+      {trend.success && <MoodTrendChart points={trend.data} params={params} />}
+
+      <ExportForm
+        defaultFrom={addDaysToDateKey(today, -29)}
+        defaultTo={today}
+      />
+
+      {dayDetail?.success && (
+        <DayDetailDrawer
+          detail={dayDetail.data}
+          closeHref={buildHistoryHref(params, { day: undefined })}
+          emotionTags={emotionTags}
+        />
+      )}
+    </div>
+  );
+}
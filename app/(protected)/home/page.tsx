@@ -0,0 +1,60 @@
+// app/(protected)/home/page.tsx
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getLocalDateKey, getRangeFromNow } from "@shared/utils/dates";
+import { MoodQuickEntry } from "@features/home/components/MoodQuickEntry";
+import { WelcomeCard } from "@features/home/components/WelcomeCard";
+import { emotionTagRepository } from "@features/home/models/emotions.repository";
+import { activityRepository } from "@features/activities/models/activities.repository";
+import { ActivityAgenda } from "@features/activities/components/ActivityAgenda";
+import { AuthStatusBanner } from "@features/auth/components/AuthStatusBanner";
+import { profileRepository } from "@features/profile/models/profile.repository";
+import { insightsService } from "@features/insights/controllers/insights.service";
+import { InsightCards } from "@features/insights/components/InsightCards";
+
+/**
+ * Días hacia adelante que muestra la agenda de /home
+ */
+const AGENDA_DAYS = 14;
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function HomePage({ searchParams }: Props) {
+  const user = await requireUser({ next: siteConfig.routes.home });
+
+  const timezone = await profileRepository.getTimezone(user.id);
+  const [agenda, profile, emotionTags, insights] = await Promise.all([
+    activityRepository.listForUser(user.id, getRangeFromNow(0, AGENDA_DAYS)),
+    profileRepository.getById(user.id),
+    emotionTagRepository.listForUser(user.id),
+    insightsService.getInsights(
+      user.id,
+      timezone,
+      getLocalDateKey(new Date(), timezone)
+    ),
+  ]);
+
+  const params = await searchParams;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <AuthStatusBanner searchParams={params} />
+      <div className="grid gap-6 md:grid-cols-2">
+        <WelcomeCard fullName={user.fullName} />
+        {insights.success && <InsightCards insights={insights.data} />}
+      </div>
+      <MoodQuickEntry
+        userId={user.id}
+        scale={profile.success ? profile.data.moodScale : undefined}
+        emotionTags={emotionTags.success ? emotionTags.data : []}
+      />
+      <ActivityAgenda
+        activities={agenda.success ? agenda.data : []}
+        userId={user.id}
+        timeZone={timezone}
+      />
+    </div>
+  );
+}
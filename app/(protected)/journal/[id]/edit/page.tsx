@@ -0,0 +1,53 @@
+// app/(protected)/journal/[id]/edit/page.tsx
+import { notFound } from "next/navigation";
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { journalKeyRepository } from "@features/journal/models/encryption.repository";
+import { journalRepository } from "@features/journal/models/journal.repository";
+import { EncryptedJournalEditor } from "@features/journal/components/EncryptedJournalEditor";
+import { JournalEditor } from "@features/journal/components/JournalEditor";
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function EditJournalEntryPage({ params }: Props) {
+  const { id } = await params;
+  const user = await requireUser({
+    next: `${siteConfig.routes.journal}/${id}/edit`,
+  });
+  const { t } = await getI18n();
+
+  const [result, keys] = await Promise.all([
+    journalRepository.getById(user.id, id),
+    journalKeyRepository.get(user.id),
+  ]);
+  if (!result.success) {
+    notFound();
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <h1 className="text-2xl font-bold">{t("journal.editEntry")}</h1>
+      {keys.success && keys.data ? (
+        <EncryptedJournalEditor
+          userId={user.id}
+          keyMaterial={keys.data}
+          entry={result.data}
+          defaultDate={result.data.entryDate}
+        />
+      ) : result.data.encrypted ? (
+        <p className="text-sm text-red-600" role="alert">
+          {t("journal.keysUnavailable")}
+        </p>
+      ) : (
+        <JournalEditor
+          userId={user.id}
+          entry={result.data}
+          defaultDate={result.data.entryDate}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+// app/(protected)/journal/[id]/page.tsx
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { moodRepository } from "@features/home/models/mood.repository";
+import { MOOD_LEVEL_LABELS } from "@features/home/models/home.types";
+import { journalKeyRepository } from "@features/journal/models/encryption.repository";
+import { journalRepository } from "@features/journal/models/journal.repository";
+import { EncryptedJournalBody } from "@features/journal/components/EncryptedJournalBody";
+import { MarkdownContent } from "@features/journal/components/MarkdownContent";
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function JournalEntryPage({ params }: Props) {
+  const { id } = await params;
+  const user = await requireUser({
+    next: `${siteConfig.routes.journal}/${id}`,
+  });
+  const { t } = await getI18n();
+
+  const result = await journalRepository.getById(user.id, id);
+  if (!result.success) {
+    notFound();
+  }
+
+  const entry = result.data;
+  const [mood, keys] = await Promise.all([
+    entry.moodEntryId
+      ? moodRepository.getById(user.id, entry.moodEntryId)
+      : null,
+    entry.encrypted ? journalKeyRepository.get(user.id) : null,
+  ]);
+
+  return (
+    <article className="flex flex-col gap-4">
+      <Link href={siteConfig.routes.journal} className="text-sm underline">
+        {t("journal.back")}
+      </Link>
+
+      <header className="flex flex-col gap-1">
+        <h1 className="text-3xl font-bold">
+          {entry.title || t("journal.untitled")}
+        </h1>
+        <p className="text-sm text-slate-600">
+          {entry.entryDate}
+          {entry.status === "draft" && ` · ${t("journal.draft")}`}
+          {mood?.success &&
+            ` · ${MOOD_LEVEL_LABELS[mood.data.moodLevel].emoji} ${t(
+              MOOD_LEVEL_LABELS[mood.data.moodLevel].label
+            )}`}
+        </p>
+        {entry.tags.length > 0 && (
+          <p className="text-xs text-slate-500">
+            {entry.tags.map((tag) => `#${tag}`).join(" ")}
+          </p>
+        )}
+      </header>
+
+      {!entry.bodyCiphertext ? (
+        <MarkdownContent body={entry.body} />
+      ) : keys?.success && keys.data ? (
+        <EncryptedJournalBody
+          userId={user.id}
+          keyMaterial={keys.data}
+          ciphertext={entry.bodyCiphertext}
+        />
+      ) : (
+        <p className="text-sm text-red-600" role="alert">
+          {t("journal.keysUnavailable")}
+        </p>
+      )}
+
+      <Link
+        href={`${siteConfig.routes.journal}/${entry.id}/edit`}
+        className="self-start rounded-md border px-4 py-2 text-sm"
+      >
+        {t("journal.edit")}
+      </Link>
+    </article>
+  );
+}
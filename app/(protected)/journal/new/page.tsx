@@ -0,0 +1,30 @@
+// app/(protected)/journal/new/page.tsx
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { getLocalDateKey } from "@shared/utils/dates";
+import { journalKeyRepository } from "@features/journal/models/encryption.repository";
+import { EncryptedJournalEditor } from "@features/journal/components/EncryptedJournalEditor";
+import { JournalEditor } from "@features/journal/components/JournalEditor";
+
+export default async function NewJournalEntryPage() {
+  const user = await requireUser({ next: `${siteConfig.routes.journal}/new` });
+  const keys = await journalKeyRepository.get(user.id);
+  const { t } = await getI18n();
+  const defaultDate = getLocalDateKey(new Date(), siteConfig.timezone);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <h1 className="text-2xl font-bold">{t("journal.newEntry")}</h1>
+      {keys.success && keys.data ? (
+        <EncryptedJournalEditor
+          userId={user.id}
+          keyMaterial={keys.data}
+          defaultDate={defaultDate}
+        />
+      ) : (
+        <JournalEditor userId={user.id} defaultDate={defaultDate} />
+      )}
+    </div>
+  );
+}
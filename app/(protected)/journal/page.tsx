@@ -0,0 +1,64 @@
+// app/(protected)/journal/page.tsx
+import Link from "next/link";
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { journalKeyRepository } from "@features/journal/models/encryption.repository";
+import { journalRepository } from "@features/journal/models/journal.repository";
+import { getJournalErrorMessageKey } from "@features/journal/models/journal.types";
+import { journalFiltersSchema } from "@features/journal/models/journal.schema";
+import { JournalEntryList } from "@features/journal/components/JournalEntryList";
+import { JournalSearchForm } from "@features/journal/components/JournalSearchForm";
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function JournalPage({ searchParams }: Props) {
+  const user = await requireUser({ next: siteConfig.routes.journal });
+  const params = await searchParams;
+  const { t } = await getI18n();
+
+  // Parámetros inválidos se ignoran en lugar de romper la página
+  const parsed = journalFiltersSchema.safeParse({
+    query: typeof params.q === "string" && params.q ? params.q : undefined,
+    tag: typeof params.tag === "string" && params.tag ? params.tag : undefined,
+    status:
+      typeof params.status === "string" && params.status
+        ? params.status
+        : undefined,
+  });
+  const filters = parsed.success ? parsed.data : {};
+
+  const [result, keys] = await Promise.all([
+    journalRepository.list(user.id, filters),
+    journalKeyRepository.get(user.id),
+  ]);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">{t("journal.title")}</h1>
+        <Link
+          href={`${siteConfig.routes.journal}/new`}
+          className="rounded-md bg-slate-900 px-4 py-2 text-sm text-white"
+        >
+          {t("journal.newEntry")}
+        </Link>
+      </div>
+
+      <JournalSearchForm
+        filters={filters}
+        encrypted={keys.success && Boolean(keys.data)}
+      />
+
+      {result.success ? (
+        <JournalEntryList entries={result.data} />
+      ) : (
+        <p className="text-red-600" role="alert">
+          {t(getJournalErrorMessageKey(result.error.type))}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+// app/(protected)/layout.tsx
+import type { ReactNode } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { siteConfig } from "@/lib/config/site";
+import { requireUser } from "@/lib/auth/guards";
+import { getI18n } from "@/lib/i18n/server";
+import { hasPermission } from "@/lib/auth/permissions";
+import { signOutAction } from "@/features/auth/controllers/auth.actions";
+import { OfflineIndicator } from "@/features/offline/components/OfflineIndicator";
+import { supportRepository } from "@/features/support/models/support.repository";
+import { findSupportRule } from "@/features/support/models/support.rules";
+import { SupportPromptBanner } from "@/features/support/components/SupportPromptBanner";
+
+type Props = {
+  children: ReactNode;
+};
+
+export default async function ProtectedLayout({ children }: Props) {
+  // El middleware ya redirige sin sesión; esto es defensa en profundidad
+  const user = await requireUser();
+  const { t } = await getI18n();
+  const pendingSignals = await supportRepository.listPending(user.id);
+  const signals = pendingSignals.success ? pendingSignals.data : [];
+
+  return (
+    <div className="min-h-screen flex flex-col bg-white text-slate-900">
+      <header className="w-full border-b bg-white">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link
+              href={siteConfig.routes.home}
+              className="inline-flex items-center gap-2"
+            >
+              <img
+                src="/images/logo.png"
+                alt={t("layout.logoAlt", { name: siteConfig.name })}
+                className="w-10 h-10 object-contain"
+              />
+              <span className="font-bold text-lg">{siteConfig.name}</span>
+            </Link>
+          </div>
+
+          <nav className="flex items-center gap-4">
+            <Link href={siteConfig.routes.home} className="text-sm">
+              {t("layout.nav.home")}
+            </Link>
+            <Link href={siteConfig.routes.history} className="text-sm">
+              {t("layout.nav.history")}
+            </Link>
+            <Link href={siteConfig.routes.journal} className="text-sm">
+              {t("layout.nav.journal")}
+            </Link>
+            <Link href={siteConfig.routes.activities} className="text-sm">
+              {t("layout.nav.activities")}
+            </Link>
+            <Link href={siteConfig.routes.settings} className="text-sm">
+              {t("layout.nav.settings")}
+            </Link>
+            {hasPermission(user, "team:view_wellbeing") && (
+              <Link href={siteConfig.routes.teamWellbeing} className="text-sm">
+                {t("layout.nav.team")}
+              </Link>
+            )}
+            {hasPermission(user, "members:view") && (
+              <Link href={siteConfig.routes.adminMembers} className="text-sm">
+                {t("layout.nav.members")}
+              </Link>
+            )}
+            <Link
+              href={siteConfig.routes.settings}
+              className="inline-flex items-center gap-2 text-sm text-slate-600"
+            >
+              {user.avatarUrl && (
+                <Image
+                  src={user.avatarUrl}
+                  alt=""
+                  width={28}
+                  height={28}
+                  unoptimized
+                  className="h-7 w-7 rounded-full object-cover"
+                />
+              )}
+              {user.fullName ?? user.email}
+            </Link>
+            <form action={signOutAction}>
+              <button type="submit" className="text-sm underline-offset-4">
+                {t("layout.signOut")}
+              </button>
+            </form>
+          </nav>
+        </div>
+      </header>
+
+      {signals.length > 0 && (
+        <SupportPromptBanner
+          urgent={signals.some(
+            (signal) => findSupportRule(signal.ruleId)?.severity === "urgent"
+          )}
+        />
+      )}
+
+      <OfflineIndicator userId={user.id} />
+
+      <main className="flex-1">
+        <div className="max-w-6xl mx-auto px-4 py-10">{children}</div>
+      </main>
+    </div>
+  );
+}
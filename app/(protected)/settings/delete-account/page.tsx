@@ -0,0 +1,64 @@
+// app/(protected)/settings/delete-account/page.tsx
+import Link from "next/link";
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { getLocalDateKey } from "@shared/utils/dates";
+import { formatDateKey } from "@shared/utils/formatters";
+import { accountRepository } from "@features/account/models/account.repository";
+import { getAccountErrorMessageKey } from "@features/account/models/account.types";
+import { DeleteAccountForm } from "@features/account/components/DeleteAccountForm";
+import { PendingDeletionNotice } from "@features/account/components/PendingDeletionNotice";
+import { profileRepository } from "@features/profile/models/profile.repository";
+
+export default async function DeleteAccountPage() {
+  const user = await requireUser({ next: siteConfig.routes.deleteAccount });
+  const [request, timezone, { locale, t }] = await Promise.all([
+    accountRepository.getDeletionRequest(user.id),
+    profileRepository.getTimezone(user.id),
+    getI18n(),
+  ]);
+
+  return (
+    <div className="flex max-w-2xl flex-col gap-6">
+      <div className="flex flex-col gap-1">
+        <Link
+          href={siteConfig.routes.settings}
+          className="text-sm text-slate-600 underline"
+        >
+          {t("account.back")}
+        </Link>
+        <h1 className="text-2xl font-bold">{t("account.title")}</h1>
+      </div>
+
+      {!request.success ? (
+        <p className="text-sm text-red-600" role="alert">
+          {t(getAccountErrorMessageKey(request.error.type))}
+        </p>
+      ) : request.data ? (
+        <PendingDeletionNotice
+          scheduledFor={formatDateKey(
+            getLocalDateKey(request.data.scheduledFor, timezone),
+            locale
+          )}
+        />
+      ) : (
+        <section className="flex flex-col gap-4 rounded-lg border bg-white p-6">
+          <p className="text-sm text-slate-700">
+            {t("account.gracePeriod", {
+              days: siteConfig.accountDeletion.gracePeriodDays,
+            })}
+          </p>
+          <p className="text-sm text-slate-700">
+            {t("account.exportFirst")}{" "}
+            <Link href={siteConfig.routes.exportData} className="underline">
+              {t("account.exportLink")}
+            </Link>
+            .
+          </p>
+          <DeleteAccountForm />
+        </section>
+      )}
+    </div>
+  );
+}
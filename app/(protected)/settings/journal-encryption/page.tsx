@@ -0,0 +1,61 @@
+// app/(protected)/settings/journal-encryption/page.tsx
+import Link from "next/link";
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { journalKeyRepository } from "@features/journal/models/encryption.repository";
+import { journalRepository } from "@features/journal/models/journal.repository";
+import { getJournalErrorMessageKey } from "@features/journal/models/journal.types";
+import { JournalEncryptionPanel } from "@features/journal/components/JournalEncryptionPanel";
+
+export default async function JournalEncryptionPage() {
+  const user = await requireUser({
+    next: siteConfig.routes.journalEncryption,
+  });
+  const [keys, pending] = await Promise.all([
+    journalKeyRepository.get(user.id),
+    journalRepository.countPlaintext(user.id),
+  ]);
+  const { t } = await getI18n();
+
+  return (
+    <div className="flex max-w-2xl flex-col gap-6">
+      <div className="flex flex-col gap-1">
+        <Link
+          href={siteConfig.routes.settings}
+          className="text-sm text-slate-600 underline"
+        >
+          {t("journal.encryption.back")}
+        </Link>
+        <h1 className="text-2xl font-bold">{t("journal.encryption.title")}</h1>
+      </div>
+
+      <section className="flex flex-col gap-3 rounded-lg border bg-white p-6 text-sm text-slate-700">
+        <p>{t("journal.encryption.intro")}</p>
+        <ul className="flex list-disc flex-col gap-1 pl-5">
+          <li>{t("journal.encryption.unlockEachTab")}</li>
+          <li>{t("journal.encryption.plaintextFields")}</li>
+          <li>{t("journal.encryption.recoveryKey")}</li>
+          <li className="font-medium text-slate-900">
+            {t("journal.encryption.warning")}
+          </li>
+          <li>{t("journal.encryption.permanent")}</li>
+        </ul>
+      </section>
+
+      <section className="flex flex-col gap-3 rounded-lg border bg-white p-6">
+        {keys.success ? (
+          <JournalEncryptionPanel
+            userId={user.id}
+            keyMaterial={keys.data}
+            pending={pending.success ? pending.data : 0}
+          />
+        ) : (
+          <p className="text-sm text-red-600" role="alert">
+            {t(getJournalErrorMessageKey(keys.error.type))}
+          </p>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+// app/(protected)/settings/page.tsx
+import Link from "next/link";
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { profileRepository } from "@features/profile/models/profile.repository";
+import { getProfileErrorMessageKey } from "@features/profile/models/profile.types";
+import { AvatarUploader } from "@features/profile/components/AvatarUploader";
+import { NotificationPreferencesToggle } from "@features/profile/components/NotificationPreferencesToggle";
+import { ProfileSettingsForm } from "@features/profile/components/ProfileSettingsForm";
+import { TeamAggregationToggle } from "@features/profile/components/TeamAggregationToggle";
+import { AuthStatusBanner } from "@features/auth/components/AuthStatusBanner";
+import { ChangeEmailForm } from "@features/auth/components/ChangeEmailForm";
+import { ChangePasswordForm } from "@features/auth/components/ChangePasswordForm";
+import { accountRepository } from "@features/account/models/account.repository";
+import { emotionTagRepository } from "@features/home/models/emotions.repository";
+import { EmotionTagManager } from "@features/home/components/EmotionTagManager";
+import { journalKeyRepository } from "@features/journal/models/encryption.repository";
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function SettingsPage({ searchParams }: Props) {
+  const user = await requireUser({ next: siteConfig.routes.settings });
+  const [profile, deletion, emotionTags, journalKeys, { t }] =
+    await Promise.all([
+      profileRepository.getById(user.id),
+      accountRepository.getDeletionRequest(user.id),
+      emotionTagRepository.listForUser(user.id),
+      journalKeyRepository.get(user.id),
+      getI18n(),
+    ]);
+  const params = await searchParams;
+
+  if (!profile.success) {
+    return (
+      <div className="flex flex-col gap-6">
+        <h1 className="text-2xl font-bold">{t("profile.settings.title")}</h1>
+        <p className="text-sm text-red-600" role="alert">
+          {t(getProfileErrorMessageKey(profile.error.type))}
+        </p>
+      </div>
+    );
+  }
+
+  const timezones = Intl.supportedValuesOf("timeZone");
+  if (!timezones.includes(profile.data.timezone)) {
+    timezones.unshift(profile.data.timezone);
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <h1 className="text-2xl font-bold">{t("profile.settings.title")}</h1>
+      <AuthStatusBanner searchParams={params} />
+
+      <section className="flex flex-col gap-4 rounded-lg border bg-white p-6">
+        <h2 className="text-lg font-semibold">
+          {t("profile.settings.profile")}
+        </h2>
+        <AvatarUploader
+          avatarUrl={profile.data.avatarUrl}
+          fullName={profile.data.fullName}
+        />
+        <ProfileSettingsForm profile={profile.data} timezones={timezones} />
+      </section>
+
+      <section className="flex flex-col gap-3 rounded-lg border bg-white p-6">
+        <h2 className="text-lg font-semibold">
+          {t("profile.settings.emotions")}
+        </h2>
+        <p className="text-sm text-slate-600">
+          {t("profile.settings.emotionsDescription")}
+        </p>
+        <EmotionTagManager
+          emotionTags={emotionTags.success ? emotionTags.data : []}
+        />
+      </section>
+
+      <section className="flex flex-col gap-6 rounded-lg border bg-white p-6">
+        <h2 className="text-lg font-semibold">
+          {t("profile.settings.account")}
+        </h2>
+        <div className="flex flex-col gap-2">
+          <h3 className="text-sm font-medium">{t("profile.settings.email")}</h3>
+          <ChangeEmailForm currentEmail={user.email} />
+        </div>
+        <div className="flex flex-col gap-2">
+          <h3 className="text-sm font-medium">
+            {t("profile.settings.password")}
+          </h3>
+          <ChangePasswordForm />
+        </div>
+      </section>
+
+      <section className="flex flex-col gap-3 rounded-lg border bg-white p-6">
+        <h2 className="text-lg font-semibold">
+          {t("profile.settings.privacy")}
+        </h2>
+        <TeamAggregationToggle optOut={profile.data.teamAggregationOptOut} />
+        <Link
+          href={siteConfig.routes.journalEncryption}
+          className="text-sm underline"
+        >
+          {journalKeys.success && journalKeys.data
+            ? t("profile.settings.manageEncryption")
+            : t("profile.settings.encrypt")}
+        </Link>
+      </section>
+
+      <section className="flex flex-col gap-3 rounded-lg border bg-white p-6">
+        <h2 className="text-lg font-semibold">
+          {t("profile.settings.notifications")}
+        </h2>
+        <NotificationPreferencesToggle
+          activityEmails={profile.data.activityEmails}
+        />
+        <Link
+          href={siteConfig.routes.reminderSettings}
+          className="text-sm underline"
+        >
+          {t("profile.settings.reminders")}
+        </Link>
+      </section>
+
+      <section className="flex flex-col gap-2 rounded-lg border bg-white p-6">
+        <h2 className="text-lg font-semibold">
+          {t("profile.settings.support")}
+        </h2>
+        <p className="text-sm text-slate-600">
+          {t("profile.settings.supportDescription")}
+        </p>
+        <Link href={siteConfig.routes.support} className="text-sm underline">
+          {t("profile.settings.supportLink")}
+        </Link>
+      </section>
+
+      <section className="flex flex-col gap-2 rounded-lg border border-red-200 bg-white p-6">
+        <h2 className="text-lg font-semibold">
+          {t("profile.settings.deleteAccount")}
+        </h2>
+        <p className="text-sm text-slate-600">
+          {t("profile.settings.deleteAccountDescription", {
+            days: siteConfig.accountDeletion.gracePeriodDays,
+          })}
+        </p>
+        <Link
+          href={siteConfig.routes.deleteAccount}
+          className="text-sm text-red-700 underline"
+        >
+          {deletion.success && deletion.data
+            ? t("profile.settings.deletionScheduled")
+            : t("profile.settings.deleteAccountLink")}
+        </Link>
+      </section>
+    </div>
+  );
+}
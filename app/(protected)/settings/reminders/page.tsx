@@ -0,0 +1,51 @@
+// app/(protected)/settings/reminders/page.tsx
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { env } from "@lib/config/env";
+import { getI18n } from "@lib/i18n/server";
+import { isPushConfigured } from "@lib/push/sender";
+import { profileRepository } from "@features/profile/models/profile.repository";
+import { reminderRepository } from "@features/reminders/models/reminders.repository";
+import {
+  getDefaultReminderPreferences,
+  getReminderErrorMessageKey,
+} from "@features/reminders/models/reminders.types";
+import { ReminderSettingsForm } from "@features/reminders/components/ReminderSettingsForm";
+
+export default async function ReminderSettingsPage() {
+  const user = await requireUser({ next: siteConfig.routes.reminderSettings });
+
+  const [saved, timezone, { t }] = await Promise.all([
+    reminderRepository.getPreferences(user.id),
+    profileRepository.getTimezone(user.id),
+    getI18n(),
+  ]);
+
+  const preferences =
+    (saved.success && saved.data) ||
+    getDefaultReminderPreferences(user.id, timezone);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div>
+        <h1 className="text-2xl font-bold">{t("reminders.title")}</h1>
+        <p className="mt-1 text-sm text-slate-600">
+          {t("reminders.description")}
+        </p>
+      </div>
+
+      {!saved.success && (
+        <p className="text-sm text-red-600" role="alert">
+          {t(getReminderErrorMessageKey(saved.error.type))}
+        </p>
+      )}
+
+      <ReminderSettingsForm
+        preferences={preferences}
+        vapidPublicKey={
+          isPushConfigured() ? env.NEXT_PUBLIC_VAPID_PUBLIC_KEY : undefined
+        }
+      />
+    </div>
+  );
+}
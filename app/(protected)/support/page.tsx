@@ -0,0 +1,67 @@
+// app/(protected)/support/page.tsx
+import { requireUser } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { supportRepository } from "@features/support/models/support.repository";
+import { SUPPORT_RESOURCES } from "@features/support/models/support.resources";
+import { findSupportRule } from "@features/support/models/support.rules";
+import { getSupportErrorMessageKey } from "@features/support/models/support.types";
+import { AcknowledgeSupportButton } from "@features/support/components/AcknowledgeSupportButton";
+import { SupportResourceList } from "@features/support/components/SupportResourceList";
+import { TrustedContactPanel } from "@features/support/components/TrustedContactPanel";
+
+export default async function SupportPage() {
+  const user = await requireUser({ next: siteConfig.routes.support });
+  const [pending, contact, { t }] = await Promise.all([
+    supportRepository.listPending(user.id),
+    supportRepository.getTrustedContact(user.id),
+    getI18n(),
+  ]);
+
+  const signals = pending.success ? pending.data : [];
+  const urgent = signals.some(
+    (signal) => findSupportRule(signal.ruleId)?.severity === "urgent"
+  );
+
+  return (
+    <div className="flex max-w-2xl flex-col gap-6">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-bold">{t("support.title")}</h1>
+        <p className="text-slate-700">
+          {signals.length > 0
+            ? t("support.introWithSignals")
+            : t("support.intro")}
+        </p>
+        {urgent && (
+          <p className="font-medium text-slate-900">{t("support.urgent")}</p>
+        )}
+      </div>
+
+      <section className="flex flex-col gap-3 rounded-lg border bg-white p-6">
+        <h2 className="text-lg font-semibold">{t("support.resourcesTitle")}</h2>
+        <SupportResourceList
+          resources={SUPPORT_RESOURCES}
+          urgentFirst={urgent}
+        />
+      </section>
+
+      <section className="flex flex-col gap-3 rounded-lg border bg-white p-6">
+        <h2 className="text-lg font-semibold">
+          {t("support.trustedContactTitle")}
+        </h2>
+        <p className="text-sm text-slate-600">
+          {t("support.trustedContactDescription")}
+        </p>
+        {contact.success ? (
+          <TrustedContactPanel contact={contact.data} />
+        ) : (
+          <p className="text-sm text-red-600" role="alert">
+            {t(getSupportErrorMessageKey(contact.error.type))}
+          </p>
+        )}
+      </section>
+
+      {signals.length > 0 && <AcknowledgeSupportButton />}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+// app/(protected)/team/page.tsx
+import Link from "next/link";
+import { requirePermission } from "@lib/auth/guards";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import {
+  TEAM_WEEK_OPTIONS,
+  buildTeamHref,
+  teamWellbeingParamsSchema,
+} from "@features/team/models/team.schema";
+import {
+  LOW_MOOD_THRESHOLD,
+  TEAM_MIN_CONTRIBUTORS,
+  getTeamErrorMessageKey,
+} from "@features/team/models/team.types";
+import { teamService } from "@features/team/controllers/team.service";
+import { TeamWellbeingChart } from "@features/team/components/TeamWellbeingChart";
+import { TeamWeekTable } from "@features/team/components/TeamWeekTable";
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function TeamWellbeingPage({ searchParams }: Props) {
+  await requirePermission("team:view_wellbeing", {
+    next: siteConfig.routes.teamWellbeing,
+  });
+
+  const params = teamWellbeingParamsSchema.parse(await searchParams);
+  const [result, { t }] = await Promise.all([
+    teamService.getWellbeing(params.weeks),
+    getI18n(),
+  ]);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{t("team.title")}</h1>
+          <p className="mt-1 max-w-2xl text-sm text-slate-600">
+            {t("team.description", {
+              min: TEAM_MIN_CONTRIBUTORS,
+              threshold: LOW_MOOD_THRESHOLD,
+            })}
+          </p>
+        </div>
+        <div className="flex gap-2 text-sm">
+          {TEAM_WEEK_OPTIONS.map((weeks) => (
+            <Link
+              key={weeks}
+              href={buildTeamHref(weeks)}
+              aria-current={params.weeks === weeks ? "page" : undefined}
+              className={`rounded-md border px-3 py-1 ${
+                params.weeks === weeks ? "bg-slate-900 text-white" : ""
+              }`}
+            >
+              {t("team.weeksOption", { count: weeks })}
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      {result.success ? (
+        <>
+          <TeamWellbeingChart
+            weeks={result.data.weeks}
+            currentWeekStart={result.data.currentWeekStart}
+          />
+          <TeamWeekTable
+            weeks={result.data.weeks}
+            currentWeekStart={result.data.currentWeekStart}
+          />
+        </>
+      ) : (
+        <p className="text-red-600" role="alert">
+          {t(getTeamErrorMessageKey(result.error.type))}
+        </p>
+      )}
+    </div>
+  );
+}
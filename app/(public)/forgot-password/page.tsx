@@ -0,0 +1,32 @@
+// app/(public)/forgot-password/page.tsx
+import Link from "next/link";
+import { siteConfig } from "@/lib/config/site";
+import { getI18n } from "@/lib/i18n/server";
+import { ForgotPasswordForm } from "@/features/auth/components/ForgotPasswordForm";
+import { AuthStatusBanner } from "@/features/auth/components/AuthStatusBanner";
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function ForgotPasswordPage({ searchParams }: Props) {
+  const params = await searchParams;
+  const { t } = await getI18n();
+
+  return (
+    <div className="max-w-md mx-auto flex flex-col gap-6">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-bold">{t("auth.forms.forgot.title")}</h1>
+        <p className="text-sm text-slate-600">
+          {t("auth.forms.forgot.description")}
+        </p>
+      </div>
+      {/* /auth/callback vuelve aquí con ?auth_error= si el enlace no sirve */}
+      <AuthStatusBanner searchParams={params} />
+      <ForgotPasswordForm />
+      <Link href={siteConfig.routes.login} className="text-sm underline">
+        {t("auth.forms.forgot.backToLogin")}
+      </Link>
+    </div>
+  );
+}
@@ -2,14 +2,18 @@
 import type { ReactNode } from "react";
 import Link from "next/link";
 import { siteConfig } from "@/lib/config/site";
+import { getI18n } from "@/lib/i18n/server";
+import { OfflineIndicator } from "@/features/offline/components/OfflineIndicator";
 
 type Props = {
   children: ReactNode;
 };
 
-export default function PublicLayout({ children }: Props) {
+export default async function PublicLayout({ children }: Props) {
+  const { locale, t } = await getI18n();
+
   return (
-    <html lang="es">
+    <html lang={locale}>
       <body className="min-h-screen bg-white text-slate-900 antialiased">
         <div className="min-h-screen flex flex-col">
           {/* Header simplificado — sin lógica */}
@@ -19,7 +23,7 @@ export default function PublicLayout({ children }: Props) {
                 <Link href="/" className="inline-flex items-center gap-2">
                   <img
                     src="/images/logo.png"
-                    alt={`${siteConfig.name} logo`}
+                    alt={t("layout.logoAlt", { name: siteConfig.name })}
                     className="w-10 h-10 object-contain"
                   />
                   <span className="font-bold text-lg">{siteConfig.name}</span>
@@ -28,15 +32,17 @@ export default function PublicLayout({ children }: Props) {
 
               <nav className="flex items-center gap-4">
                 <Link href="/login" className="text-sm underline-offset-4">
-                  Iniciar sesión
+                  {t("layout.signIn")}
                 </Link>
                 <Link href="/register" className="text-sm">
-                  Registrarse
+                  {t("layout.register")}
                 </Link>
               </nav>
             </div>
           </header>
 
+          <OfflineIndicator />
+
           {/* Contenido */}
           <main className="flex-1">
             <div className="max-w-6xl mx-auto px-4 py-10">{children}</div>
@@ -0,0 +1,47 @@
+// app/(public)/login/page.tsx
+import Link from "next/link";
+import { siteConfig } from "@/lib/config/site";
+import { getI18n } from "@/lib/i18n/server";
+import { LoginForm } from "@/features/auth/components/LoginForm";
+import { PasswordlessSignInForm } from "@/features/auth/components/PasswordlessSignInForm";
+import { AuthStatusBanner } from "@/features/auth/components/AuthStatusBanner";
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function LoginPage({ searchParams }: Props) {
+  const params = await searchParams;
+  const next = typeof params.next === "string" ? params.next : undefined;
+  const { t } = await getI18n();
+
+  return (
+    <div className="max-w-md mx-auto flex flex-col gap-6">
+      <h1 className="text-2xl font-bold">{t("auth.forms.login.title")}</h1>
+      <AuthStatusBanner searchParams={params} />
+
+      <section className="flex flex-col gap-3">
+        <h2 className="text-sm font-medium text-slate-700">
+          {t("auth.forms.login.withPassword")}
+        </h2>
+        <LoginForm next={next} />
+      </section>
+
+      <section className="flex flex-col gap-3">
+        <h2 className="text-sm font-medium text-slate-700">
+          {t("auth.forms.login.passwordless")}
+        </h2>
+        <PasswordlessSignInForm next={next} />
+      </section>
+
+      <div className="flex justify-between text-sm">
+        <Link href={siteConfig.routes.forgotPassword} className="underline">
+          {t("auth.forms.login.forgotPassword")}
+        </Link>
+        <Link href={siteConfig.routes.register} className="underline">
+          {t("auth.forms.login.register")}
+        </Link>
+      </div>
+    </div>
+  );
+}
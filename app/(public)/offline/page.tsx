@@ -0,0 +1,27 @@
+// app/(public)/offline/page.tsx
+import Link from "next/link";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+
+/**
+ * Página que muestra el service worker cuando no hay conexión
+ *
+ * No usa la sesión ni datos personales para poder guardarla en caché
+ * al instalar la aplicación (queda en el idioma que tenía entonces).
+ */
+export default async function OfflinePage() {
+  const { t } = await getI18n();
+
+  return (
+    <div className="mx-auto flex max-w-md flex-col gap-4 text-center">
+      <h1 className="text-2xl font-bold">{t("offline.title")}</h1>
+      <p className="text-slate-600">{t("offline.description")}</p>
+      <Link
+        href={siteConfig.routes.home}
+        className="self-center rounded-md bg-slate-900 px-4 py-2 text-sm text-white"
+      >
+        {t("offline.retry")}
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+// app/(public)/register/page.tsx
+import Link from "next/link";
+import { siteConfig } from "@/lib/config/site";
+import { getI18n } from "@/lib/i18n/server";
+import { RegisterForm } from "@/features/auth/components/RegisterForm";
+
+export default async function RegisterPage() {
+  const { t } = await getI18n();
+
+  return (
+    <div className="max-w-md mx-auto flex flex-col gap-6">
+      <h1 className="text-2xl font-bold">{t("auth.forms.register.title")}</h1>
+      <RegisterForm />
+      <Link href={siteConfig.routes.login} className="text-sm underline">
+        {t("auth.forms.register.haveAccount")}
+      </Link>
+    </div>
+  );
+}
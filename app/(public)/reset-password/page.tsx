@@ -0,0 +1,44 @@
+// app/(public)/reset-password/page.tsx
+import Link from "next/link";
+import { siteConfig } from "@/lib/config/site";
+import { getCurrentUser } from "@/lib/auth/session";
+import { getI18n } from "@/lib/i18n/server";
+import { ResetPassword } from "@/features/auth/components/ResetPassword";
+import { AuthStatusBanner } from "@/features/auth/components/AuthStatusBanner";
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+/**
+ * Llega aquí desde /auth/callback con la sesión de recuperación.
+ * Sin sesión el enlace ya no sirve: se ofrece pedir otro.
+ */
+export default async function ResetPasswordPage({ searchParams }: Props) {
+  const params = await searchParams;
+  const [user, { t }] = await Promise.all([getCurrentUser(), getI18n()]);
+
+  return (
+    <div className="max-w-md mx-auto flex flex-col gap-6">
+      <h1 className="text-2xl font-bold">{t("auth.forms.reset.title")}</h1>
+      {user ? (
+        <>
+          <AuthStatusBanner searchParams={params} />
+          <ResetPassword />
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-slate-600">
+            {t("auth.forms.reset.expired")}
+          </p>
+          <Link
+            href={siteConfig.routes.forgotPassword}
+            className="text-sm underline"
+          >
+            {t("auth.forms.reset.requestNew")}
+          </Link>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+// app/(public)/verify/page.tsx
+import Link from "next/link";
+import { siteConfig } from "@/lib/config/site";
+import { getCurrentUser } from "@/lib/auth/session";
+import { getI18n } from "@/lib/i18n/server";
+import { signInLinkSchema } from "@/features/auth/models/auth.schema";
+import { VerifyCodeForm } from "@/features/auth/components/VerifyCodeForm";
+import { VerifyLinkConfirm } from "@/features/auth/components/VerifyLinkConfirm";
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+/**
+ * /verify atiende tres casos:
+ * - Enlace del correo (`?token_hash=...&type=...`): lo confirma
+ * - Código pedido desde /login (`?email=...`): pide el código de 6 dígitos
+ * - Cuenta sin confirmar (redirigida por el middleware): explica qué hacer
+ *   y permite confirmar con el código del correo de registro
+ */
+export default async function VerifyPage({ searchParams }: Props) {
+  const params = await searchParams;
+  const read = (key: string) =>
+    typeof params[key] === "string" ? params[key] : undefined;
+  const next = read("next");
+  const { t } = await getI18n();
+
+  const link = signInLinkSchema.safeParse({
+    tokenHash: read("token_hash"),
+    type: read("type"),
+  });
+
+  if (link.success) {
+    return (
+      <div className="max-w-md mx-auto text-center">
+        <h1 className="text-2xl font-bold">
+          {t("auth.forms.verify.linkTitle")}
+        </h1>
+        <div className="mt-4">
+          <VerifyLinkConfirm {...link.data} next={next} />
+        </div>
+      </div>
+    );
+  }
+
+  const user = await getCurrentUser();
+  const email = read("email") ?? user?.email;
+
+  return (
+    <div className="max-w-md mx-auto text-center">
+      <h1 className="text-2xl font-bold">{t("auth.forms.verify.title")}</h1>
+      <p className="mt-4 text-slate-600">
+        {email ? (
+          <>
+            {t("auth.forms.verify.sentTo")} <strong>{email}</strong>.{" "}
+            {t("auth.forms.verify.sentToHint")}
+          </>
+        ) : (
+          t("auth.forms.verify.noEmail")
+        )}
+      </p>
+
+      <div className="mt-6">
+        <VerifyCodeForm email={email} next={next} />
+      </div>
+
+      <Link
+        href={siteConfig.routes.login}
+        className="mt-6 inline-block text-sm underline"
+      >
+        {t("auth.forms.forgot.backToLogin")}
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+// app/api/cron/account-deletions/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { env } from "@lib/config/env";
+import { isAdminClientConfigured } from "@lib/supabase/admin";
+import { accountService } from "@features/account/controllers/account.service";
+import {
+  AccountErrorType,
+  createAccountError,
+} from "@features/account/models/account.types";
+
+/**
+ * Borrado definitivo de cuentas
+ *
+ * Un cron externo lo llama una vez al día con el encabezado
+ * `Authorization: Bearer <CRON_SECRET>`; elimina las cuentas cuyo
+ * periodo de gracia ya terminó.
+ *
+ * Ejemplo:
+ * ```bash
+ * curl -H "Authorization: Bearer $CRON_SECRET" https://.../api/cron/account-deletions
+ * ```
+ */
+export async function GET(request: NextRequest) {
+  if (!env.CRON_SECRET || !isAdminClientConfigured()) {
+    return NextResponse.json(
+      { error: createAccountError(AccountErrorType.NOT_CONFIGURED) },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`) {
+    return NextResponse.json(
+      { error: createAccountError(AccountErrorType.UNAUTHORIZED) },
+      { status: 401 }
+    );
+  }
+
+  const result = await accountService.runDueDeletions();
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  return NextResponse.json(result.data);
+}
@@ -0,0 +1,43 @@
+// app/api/cron/reminders/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { env } from "@lib/config/env";
+import { isAdminClientConfigured } from "@lib/supabase/admin";
+import { reminderService } from "@features/reminders/controllers/reminders.service";
+import {
+  ReminderErrorType,
+  createReminderError,
+} from "@features/reminders/models/reminders.types";
+
+/**
+ * Programador de recordatorios diarios
+ *
+ * Un cron externo lo llama cada 15 minutos con el encabezado
+ * `Authorization: Bearer <CRON_SECRET>` (así lo hace Vercel Cron).
+ *
+ * Ejemplo:
+ * ```bash
+ * curl -H "Authorization: Bearer $CRON_SECRET" https://.../api/cron/reminders
+ * ```
+ */
+export async function GET(request: NextRequest) {
+  if (!env.CRON_SECRET || !isAdminClientConfigured()) {
+    return NextResponse.json(
+      { error: createReminderError(ReminderErrorType.NOT_CONFIGURED) },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`) {
+    return NextResponse.json(
+      { error: createReminderError(ReminderErrorType.UNAUTHORIZED) },
+      { status: 401 }
+    );
+  }
+
+  const result = await reminderService.runDueReminders();
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  return NextResponse.json(result.data);
+}
@@ -0,0 +1,83 @@
+// app/api/export/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { getI18n } from "@lib/i18n/server";
+import { createClient } from "@lib/supabase/server";
+import { mapSupabaseUser } from "@features/auth/models/auth.types";
+import { profileRepository } from "@features/profile/models/profile.repository";
+import { exportParamsSchema } from "@features/export/models/export.schema";
+import {
+  ExportErrorType,
+  createExportError,
+  getExportErrorMessageKey,
+  getExportErrorText,
+  type ExportError,
+} from "@features/export/models/export.types";
+import { exportService } from "@features/export/controllers/export.service";
+
+/**
+ * Respuesta de error con el mensaje en el idioma del usuario
+ */
+function errorResponse(error: ExportError, status: number, message: string) {
+  return NextResponse.json({ error: { ...error, message } }, { status });
+}
+
+/**
+ * Descarga de los datos del usuario
+ *
+ * GET /api/export?format=csv|json|pdf&from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Las rutas /api/ no pasan por la redirección del middleware, así que
+ * la sesión se verifica aquí con el cliente de servidor.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const i18n = await getI18n();
+  const {
+    data: { user: supabaseUser },
+  } = await supabase.auth.getUser();
+
+  if (!supabaseUser) {
+    const error = createExportError(ExportErrorType.UNAUTHORIZED);
+    return errorResponse(error, 401, getExportErrorText(error, i18n));
+  }
+
+  const parsed = exportParamsSchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+
+  if (!parsed.success) {
+    const error = createExportError(
+      ExportErrorType.VALIDATION_ERROR,
+      parsed.error.issues[0]?.message
+    );
+    return errorResponse(error, 400, getExportErrorText(error, i18n));
+  }
+
+  const user = mapSupabaseUser(supabaseUser);
+  const timezone = await profileRepository.getTimezone(user.id);
+  const result = await exportService.loadData(
+    { id: user.id, email: user.email, fullName: user.fullName },
+    parsed.data,
+    timezone,
+    i18n.locale
+  );
+
+  if (!result.success) {
+    // `details` trae el error de la base: se muestra el mensaje genérico
+    return errorResponse(
+      result.error,
+      500,
+      i18n.t(getExportErrorMessageKey(result.error.type))
+    );
+  }
+
+  const file = exportService.createFile(result.data, parsed.data.format);
+
+  return new Response(file.stream, {
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.filename}"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
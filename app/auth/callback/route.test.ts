@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { siteConfig } from "@lib/config/site";
+import { resolveAuthCallback } from "@features/auth/controllers/auth.callback";
+import { GET } from "./route";
+
+vi.mock("@features/auth/controllers/auth.callback", () => ({
+  resolveAuthCallback: vi.fn(),
+}));
+
+const resolve = vi.mocked(resolveAuthCallback);
+
+function callback(url: string) {
+  return GET(new NextRequest(url));
+}
+
+beforeEach(() => {
+  resolve.mockReset();
+});
+
+describe("GET /auth/callback", () => {
+  it("redirige a la ruta que resuelve el callback, en el mismo origen", async () => {
+    resolve.mockResolvedValue("/reset-password?auth=password_recovery");
+
+    const response = await callback(
+      "https://preview.example.com/auth/callback?flow=recovery&code=abc"
+    );
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get("location")).toBe(
+      "https://preview.example.com/reset-password?auth=password_recovery"
+    );
+    expect(resolve.mock.calls[0][0].get("code")).toBe("abc");
+    expect(resolve.mock.calls[0][0].get("flow")).toBe("recovery");
+  });
+
+  it.each(["https://evil.com/home", "//evil.com/home"])(
+    "si el destino sale del origen (%s) lleva a /home",
+    async (destination) => {
+      resolve.mockResolvedValue(destination);
+
+      const response = await callback(
+        "https://app.example.com/auth/callback?flow=signup&code=abc"
+      );
+
+      expect(response.headers.get("location")).toBe(
+        `https://app.example.com${siteConfig.routes.home}`
+      );
+    }
+  );
+});
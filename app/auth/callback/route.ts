@@ -0,0 +1,30 @@
+// app/auth/callback/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { siteConfig } from "@lib/config/site";
+import { resolveAuthCallback } from "@features/auth/controllers/auth.callback";
+
+/**
+ * Regreso de los enlaces que envía Supabase por correo (PKCE)
+ *
+ * Supabase redirige aquí con `?code=...` después de confirmar el
+ * registro, una recuperación de contraseña, un cambio de correo o un
+ * acceso sin contraseña. El canje escribe las cookies de sesión con el
+ * cliente de servidor y luego redirige según `flow`.
+ *
+ * Ejemplo: `/auth/callback?flow=recovery&code=...` → `/reset-password?auth=password_recovery`
+ */
+export async function GET(request: NextRequest) {
+  const { origin } = request.nextUrl;
+  const destination = new URL(
+    await resolveAuthCallback(request.nextUrl.searchParams),
+    origin
+  );
+
+  // resolveAuthCallback ya devuelve rutas internas; esto es defensa en
+  // profundidad justo después de crear la sesión
+  return NextResponse.redirect(
+    destination.origin === origin
+      ? destination
+      : new URL(siteConfig.routes.home, origin)
+  );
+}
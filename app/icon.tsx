@@ -0,0 +1,44 @@
+// app/icon.tsx
+import { ImageResponse } from "next/og";
+import { siteConfig } from "@lib/config/site";
+
+/**
+ * Tamaños de ícono que pide la instalación como PWA
+ * (el logo del semillero no es cuadrado, así que se dibuja uno)
+ */
+export function generateImageMetadata() {
+  return [192, 512].map((size) => ({
+    id: String(size),
+    size: { width: size, height: size },
+    contentType: "image/png",
+  }));
+}
+
+type Props = {
+  id: Promise<string>;
+};
+
+export default async function Icon({ id }: Props) {
+  const size = Number(await id);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          background: "#0f172a",
+          color: "#ffffff",
+          fontSize: size * 0.36,
+          fontWeight: 700,
+        }}
+      >
+        {siteConfig.shortName.split("-")[0]}
+      </div>
+    ),
+    { width: size, height: size }
+  );
+}
@@ -0,0 +1,26 @@
+// app/manifest.ts
+import type { MetadataRoute } from "next";
+import { siteConfig } from "@lib/config/site";
+
+/**
+ * Web App Manifest: permite instalar la aplicación (PWA)
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: siteConfig.name,
+    short_name: siteConfig.shortName,
+    description: siteConfig.description,
+    lang: siteConfig.locale,
+    start_url: siteConfig.routes.home,
+    scope: "/",
+    display: "standalone",
+    background_color: "#ffffff",
+    theme_color: "#0f172a",
+    icons: [192, 512].map((size) => ({
+      src: `/icon/${size}`,
+      type: "image/png",
+      sizes: `${size}x${size}`,
+      purpose: "any",
+    })),
+  };
+}
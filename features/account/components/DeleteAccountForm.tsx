@@ -0,0 +1,82 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { siteConfig } from "@lib/config/site";
+import { useI18n } from "@lib/i18n/client";
+import { requestAccountDeletionAction } from "../controllers/account.actions";
+import { getAccountErrorText } from "../models/account.types";
+
+/**
+ * Formulario para programar la eliminación de la cuenta
+ *
+ * Pide la contraseña y una confirmación explícita. Si sale bien, la
+ * acción cierra la sesión y redirige al login.
+ */
+export function DeleteAccountForm() {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [password, setPassword] = useState("");
+  const [acknowledge, setAcknowledge] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      const result = await requestAccountDeletionAction({
+        password,
+        acknowledge,
+      });
+
+      if (!result.success) {
+        setError(getAccountErrorText(result.error, i18n));
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+      <label className="flex flex-col text-sm">
+        {t("account.form.password")}
+        <input
+          type="password"
+          name="password"
+          autoComplete="current-password"
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="mt-1 rounded-md border px-3 py-2"
+        />
+      </label>
+
+      <label className="flex items-start gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={acknowledge}
+          onChange={(e) => setAcknowledge(e.target.checked)}
+          className="mt-1"
+        />
+        <span>
+          {t("account.form.acknowledge", {
+            days: siteConfig.accountDeletion.gracePeriodDays,
+          })}
+        </span>
+      </label>
+
+      <button
+        type="submit"
+        disabled={isPending || !acknowledge}
+        className="self-start rounded-md bg-red-700 px-4 py-2 text-sm text-white disabled:opacity-50"
+      >
+        {isPending ? t("account.form.pending") : t("account.form.submit")}
+      </button>
+
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
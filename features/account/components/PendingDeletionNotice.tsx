@@ -0,0 +1,58 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useI18n } from "@lib/i18n/client";
+import { cancelAccountDeletionAction } from "../controllers/account.actions";
+import { getAccountErrorText } from "../models/account.types";
+
+type Props = {
+  // Fecha ya formateada en que se borrará la cuenta
+  scheduledFor: string;
+};
+
+/**
+ * Aviso de eliminación programada con el botón para cancelarla
+ */
+export function PendingDeletionNotice({ scheduledFor }: Props) {
+  const router = useRouter();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleCancel = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await cancelAccountDeletionAction();
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(getAccountErrorText(result.error, i18n));
+      }
+    });
+  };
+
+  return (
+    <div
+      className="flex flex-col gap-3 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800"
+      role="alert"
+    >
+      <p>
+        {t("account.pending.scheduled")}{" "}
+        <span className="font-semibold">{scheduledFor}</span>.
+      </p>
+      <button
+        type="button"
+        onClick={handleCancel}
+        disabled={isPending}
+        className="self-start rounded-md border border-red-300 bg-white px-4 py-2 text-red-800 disabled:opacity-50"
+      >
+        {isPending
+          ? t("account.pending.cancelling")
+          : t("account.pending.cancel")}
+      </button>
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+}
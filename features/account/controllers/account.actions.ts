@@ -0,0 +1,83 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { getCurrentUser } from "@lib/auth/session";
+import { siteConfig } from "@lib/config/site";
+import { authRepository } from "@features/auth/models/auth.repository";
+import { accountRepository } from "../models/account.repository";
+import {
+  deleteAccountSchema,
+  type DeleteAccountInput,
+} from "../models/account.schema";
+import {
+  AccountErrorType,
+  createAccountError,
+  type AccountResult,
+} from "../models/account.types";
+import { accountService } from "./account.service";
+
+/**
+ * Server Actions de la cuenta
+ *
+ * Mismo flujo que las demás acciones:
+ * sesión → validación con zod → accountService / accountRepository.
+ */
+
+/**
+ * Programar la eliminación de la cuenta
+ *
+ * Si sale bien, cierra la sesión y lleva al login con el aviso.
+ * Solo devuelve algo si hubo un error.
+ */
+export async function requestAccountDeletionAction(
+  input: DeleteAccountInput
+): Promise<AccountResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createAccountError(AccountErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = deleteAccountSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createAccountError(
+        AccountErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await accountService.requestDeletion(
+    user,
+    parsed.data.password
+  );
+  if (!result.success) return result;
+
+  await authRepository.signOut();
+  redirect(`${siteConfig.routes.login}?auth=account_deletion_scheduled`);
+}
+
+/**
+ * Cancelar la eliminación programada
+ */
+export async function cancelAccountDeletionAction(): Promise<AccountResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createAccountError(AccountErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const result = await accountRepository.cancelDeletion(user.id);
+  if (result.success) {
+    revalidatePath(siteConfig.routes.settings, "layout");
+  }
+
+  return result;
+}
@@ -0,0 +1,168 @@
+import { siteConfig } from "@lib/config/site";
+import { sendEmail } from "@lib/email/sender";
+import { accountDeletedEmail } from "@lib/email/templates/account-deleted";
+import { accountDeletionScheduledEmail } from "@lib/email/templates/account-deletion-scheduled";
+import { getI18n, getLocale } from "@lib/i18n/server";
+import { getLocalDateKey } from "@shared/utils/dates";
+import { formatDateKey } from "@shared/utils/formatters";
+import { authService } from "@features/auth/controllers/auth.service";
+import { getAuthErrorText, type User } from "@features/auth/models/auth.types";
+import { profileRepository } from "@features/profile/models/profile.repository";
+import {
+  accountDeletionRepository,
+  accountRepository,
+} from "../models/account.repository";
+import {
+  AccountErrorType,
+  createAccountError,
+  type AccountDeletionRequest,
+  type AccountDeletionRunSummary,
+  type AccountResult,
+} from "../models/account.types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Servicio de la Cuenta
+ *
+ * Reglas:
+ * - Programar la eliminación exige la contraseña actual (cuenta para
+ *   el bloqueo progresivo, como un inicio de sesión)
+ * - La cuenta se borra `gracePeriodDays` después de pedirlo; hasta
+ *   entonces se puede cancelar
+ * - Los correos de aviso son de mejor esfuerzo: si fallan se registra
+ *   en el log, pero la eliminación sigue su curso
+ */
+export const accountService = {
+  /**
+   * Programar la eliminación de la cuenta del usuario con sesión
+   *
+   * @param user - Usuario con sesión
+   * @param password - Contraseña actual, para confirmar
+   * @returns AccountResult con la solicitud vigente
+   */
+  async requestDeletion(
+    user: User,
+    password: string
+  ): Promise<AccountResult<AccountDeletionRequest>> {
+    const confirmed = await authService.confirmPassword(user, password);
+    if (!confirmed.success) {
+      return {
+        success: false,
+        error: createAccountError(
+          AccountErrorType.PASSWORD_REJECTED,
+          getAuthErrorText(confirmed.error, await getI18n())
+        ),
+      };
+    }
+
+    const scheduledFor = new Date(
+      Date.now() + siteConfig.accountDeletion.gracePeriodDays * DAY_MS
+    ).toISOString();
+    const result = await accountRepository.scheduleDeletion(
+      user.id,
+      scheduledFor
+    );
+    if (!result.success) return result;
+
+    const [timezone, locale] = await Promise.all([
+      profileRepository.getTimezone(user.id),
+      getLocale(),
+    ]);
+    const sent = await sendEmail(
+      user.email,
+      accountDeletionScheduledEmail({
+        fullName: user.fullName,
+        scheduledFor: formatDateKey(
+          getLocalDateKey(result.data.scheduledFor, timezone),
+          locale
+        ),
+        cancelUrl: `${siteConfig.url}${siteConfig.routes.deleteAccount}`,
+        locale,
+      })
+    );
+    if (!sent.success) {
+      console.error(
+        "No se pudo enviar el aviso de eliminación:",
+        sent.error.details ?? sent.error.message
+      );
+    }
+
+    return result;
+  },
+
+  /**
+   * Borrar definitivamente las cuentas cuyo periodo de gracia terminó
+   *
+   * Pensado para un cron diario. Si algo falla con una cuenta, su
+   * solicitud queda y se reintenta en la siguiente corrida.
+   *
+   * @param now - Instante de la corrida
+   * @returns AccountResult con el conteo de la corrida
+   */
+  async runDueDeletions(
+    now: Date = new Date()
+  ): Promise<AccountResult<AccountDeletionRunSummary>> {
+    const due = await accountDeletionRepository.listDue(now);
+    if (!due.success) return due;
+
+    const summary: AccountDeletionRunSummary = {
+      due: due.data.length,
+      deleted: 0,
+      failed: 0,
+    };
+
+    for (const request of due.data) {
+      // El correo se lee antes: después de borrar ya no existe
+      const contact = await accountDeletionRepository.getContact(
+        request.userId
+      );
+      const purged = await accountDeletionRepository.purgeUserData(
+        request.userId
+      );
+      if (!purged.success) {
+        summary.failed++;
+        continue;
+      }
+
+      const deleted = await accountDeletionRepository.deleteUser(
+        request.userId
+      );
+      if (!deleted.success) {
+        summary.failed++;
+        continue;
+      }
+
+      summary.deleted++;
+
+      const audited = await accountDeletionRepository.writeAudit(
+        purged.data,
+        siteConfig.accountDeletion.gracePeriodDays
+      );
+      if (!audited.success) {
+        console.error(
+          "No se pudo registrar la eliminación en la auditoría:",
+          audited.error.details ?? audited.error.message
+        );
+      }
+
+      if (contact.success && contact.data.email) {
+        const sent = await sendEmail(
+          contact.data.email,
+          accountDeletedEmail({
+            fullName: contact.data.fullName,
+            locale: contact.data.locale,
+          })
+        );
+        if (!sent.success) {
+          console.error(
+            "No se pudo enviar la confirmación de eliminación:",
+            sent.error.details ?? sent.error.message
+          );
+        }
+      }
+    }
+
+    return { success: true, data: summary };
+  },
+};
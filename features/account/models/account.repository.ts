@@ -0,0 +1,445 @@
+import { createClient } from "@lib/supabase/server";
+import { createAdminClient } from "@lib/supabase/admin";
+import type { Locale } from "@lib/i18n/config";
+import {
+  AccountResult,
+  AccountErrorType,
+  USER_STORAGE_BUCKETS,
+  createAccountError,
+  mapAccountDeletionRequestRow,
+  type AccountDeletionRequest,
+  type AccountDeletionRequestRow,
+  type AccountPurgeSummary,
+} from "./account.types";
+
+const DELETION_REQUESTS_TABLE = "account_deletion_requests";
+const DELETION_AUDIT_TABLE = "account_deletion_audit";
+const MOOD_ENTRIES_TABLE = "mood_entries";
+const JOURNAL_ENTRIES_TABLE = "journal_entries";
+const ACTIVITY_MEMBERS_TABLE = "activity_members";
+const PROFILES_TABLE = "profiles";
+
+/**
+ * Archivos por página al listar un bucket (el máximo de Storage es 100)
+ */
+const STORAGE_PAGE_SIZE = 100;
+
+/**
+ * Repositorio de la Cuenta
+ *
+ * Solicitudes de eliminación del usuario con sesión (respeta RLS).
+ */
+export const accountRepository = {
+  /**
+   * Obtener la eliminación programada del usuario, si hay una
+   *
+   * @param userId - Id del usuario
+   * @returns AccountResult con la solicitud o null
+   */
+  async getDeletionRequest(
+    userId: string
+  ): Promise<AccountResult<AccountDeletionRequest | null>> {
+    try {
+      const supabase = await createClient();
+      const { data: row, error } = await supabase
+        .from(DELETION_REQUESTS_TABLE)
+        .select()
+        .eq("user_id", userId)
+        .maybeSingle<AccountDeletionRequestRow>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createAccountError(
+            AccountErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return {
+        success: true,
+        data: row ? mapAccountDeletionRequestRow(row) : null,
+      };
+    } catch (error) {
+      console.error("Error en accountRepository.getDeletionRequest:", error);
+      return {
+        success: false,
+        error: createAccountError(AccountErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Programar la eliminación de la cuenta
+   *
+   * Si ya había una programada, se conserva la fecha original.
+   *
+   * @param userId - Id del usuario
+   * @param scheduledFor - Momento (ISO 8601) en que se borrará
+   * @returns AccountResult con la solicitud vigente
+   */
+  async scheduleDeletion(
+    userId: string,
+    scheduledFor: string
+  ): Promise<AccountResult<AccountDeletionRequest>> {
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase
+        .from(DELETION_REQUESTS_TABLE)
+        .upsert(
+          { user_id: userId, scheduled_for: scheduledFor },
+          { onConflict: "user_id", ignoreDuplicates: true }
+        );
+
+      if (error) {
+        return {
+          success: false,
+          error: createAccountError(
+            AccountErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      const current = await accountRepository.getDeletionRequest(userId);
+      if (!current.success) return current;
+      if (!current.data) {
+        return {
+          success: false,
+          error: createAccountError(AccountErrorType.UNKNOWN_ERROR),
+        };
+      }
+
+      return { success: true, data: current.data };
+    } catch (error) {
+      console.error("Error en accountRepository.scheduleDeletion:", error);
+      return {
+        success: false,
+        error: createAccountError(AccountErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Cancelar la eliminación programada
+   *
+   * @param userId - Id del usuario
+   * @returns AccountResult indicando éxito o NOT_FOUND
+   */
+  async cancelDeletion(userId: string): Promise<AccountResult> {
+    try {
+      const supabase = await createClient();
+      const { data: rows, error } = await supabase
+        .from(DELETION_REQUESTS_TABLE)
+        .delete()
+        .eq("user_id", userId)
+        .select("user_id");
+
+      if (error) {
+        return {
+          success: false,
+          error: createAccountError(
+            AccountErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      if (!rows || rows.length === 0) {
+        return {
+          success: false,
+          error: createAccountError(AccountErrorType.NOT_FOUND),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en accountRepository.cancelDeletion:", error);
+      return {
+        success: false,
+        error: createAccountError(AccountErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+};
+
+/**
+ * Contacto de una cuenta a punto de borrarse (para el correo final)
+ */
+export interface AccountContact {
+  email?: string;
+  fullName?: string;
+  locale?: Locale;
+}
+
+/**
+ * Repositorio del borrado definitivo
+ *
+ * Usa el cliente con Service Role Key: borra datos de otros usuarios y
+ * el usuario de auth. Solo lo debe llamar el route handler protegido
+ * con CRON_SECRET.
+ */
+export const accountDeletionRepository = {
+  /**
+   * Listar las eliminaciones cuyo periodo de gracia ya terminó
+   *
+   * @param now - Instante de la corrida
+   */
+  async listDue(now: Date): Promise<AccountResult<AccountDeletionRequest[]>> {
+    try {
+      const supabase = createAdminClient();
+      const { data: rows, error } = await supabase
+        .from(DELETION_REQUESTS_TABLE)
+        .select()
+        .lte("scheduled_for", now.toISOString())
+        .order("scheduled_for", { ascending: true })
+        .overrideTypes<AccountDeletionRequestRow[], { merge: false }>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createAccountError(
+            AccountErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return {
+        success: true,
+        data: (rows ?? []).map(mapAccountDeletionRequestRow),
+      };
+    } catch (error) {
+      console.error("Error en accountDeletionRepository.listDue:", error);
+      return {
+        success: false,
+        error: createAccountError(AccountErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Correo, nombre e idioma de la cuenta, leídos antes de borrarla
+   *
+   * @param userId - Id del usuario
+   */
+  async getContact(userId: string): Promise<AccountResult<AccountContact>> {
+    try {
+      const supabase = createAdminClient();
+      const [{ data, error }, { data: profile }] = await Promise.all([
+        supabase.auth.admin.getUserById(userId),
+        supabase
+          .from(PROFILES_TABLE)
+          .select("locale")
+          .eq("id", userId)
+          .maybeSingle<{ locale: Locale }>(),
+      ]);
+
+      if (error) {
+        return {
+          success: false,
+          error: createAccountError(
+            AccountErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          email: data.user.email,
+          fullName: data.user.user_metadata?.full_name,
+          locale: profile?.locale,
+        },
+      };
+    } catch (error) {
+      console.error("Error en accountDeletionRepository.getContact:", error);
+      return {
+        success: false,
+        error: createAccountError(AccountErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Borrar ánimos, bitácora, respuestas a actividades y archivos
+   *
+   * Se borran explícitamente (y no solo por la cascada al eliminar el
+   * usuario) para contar lo borrado y para que un fallo a mitad de
+   * camino se pueda reintentar en la siguiente corrida.
+   *
+   * Lo borrado en cada intento se suma en la solicitud (incluso si el
+   * intento falla), así el conteo final cubre todos los intentos.
+   *
+   * @param userId - Id del usuario
+   * @returns AccountResult con cuántos registros se borraron en total
+   */
+  async purgeUserData(
+    userId: string
+  ): Promise<AccountResult<AccountPurgeSummary>> {
+    try {
+      const supabase = createAdminClient();
+      const purged: AccountPurgeSummary = {
+        moodEntries: 0,
+        journalEntries: 0,
+        activityRsvps: 0,
+        storageObjects: 0,
+      };
+      let failure: unknown = null;
+
+      const deleteRows = async (table: string) => {
+        const { count, error } = await supabase
+          .from(table)
+          .delete({ count: "exact" })
+          .eq("user_id", userId);
+        if (error) throw new Error(`${table}: ${error.message}`);
+        return count ?? 0;
+      };
+
+      try {
+        purged.moodEntries = await deleteRows(MOOD_ENTRIES_TABLE);
+        purged.journalEntries = await deleteRows(JOURNAL_ENTRIES_TABLE);
+        purged.activityRsvps = await deleteRows(ACTIVITY_MEMBERS_TABLE);
+
+        for (const bucket of USER_STORAGE_BUCKETS) {
+          // Cada página se borra antes de pedir la siguiente, así que
+          // siempre se lista desde el principio
+          for (;;) {
+            const { data: files, error } = await supabase.storage
+              .from(bucket)
+              .list(userId, { limit: STORAGE_PAGE_SIZE });
+            if (error) throw new Error(`${bucket}: ${error.message}`);
+            if (!files || files.length === 0) break;
+
+            const { data: removed, error: removeError } = await supabase.storage
+              .from(bucket)
+              .remove(files.map((file) => `${userId}/${file.name}`));
+            if (removeError) {
+              throw new Error(`${bucket}: ${removeError.message}`);
+            }
+
+            const removedCount = removed?.length ?? 0;
+            purged.storageObjects += removedCount;
+            if (files.length < STORAGE_PAGE_SIZE || removedCount === 0) break;
+          }
+        }
+      } catch (error) {
+        failure = error;
+      }
+
+      const { data: totals, error: recordError } = await supabase
+        .rpc("record_account_purge", {
+          p_user_id: userId,
+          p_mood_entries: purged.moodEntries,
+          p_journal_entries: purged.journalEntries,
+          p_activity_rsvps: purged.activityRsvps,
+          p_storage_objects: purged.storageObjects,
+        })
+        .single<{
+          mood_entries: number;
+          journal_entries: number;
+          activity_rsvps: number;
+          storage_objects: number;
+        }>();
+
+      if (failure) throw failure;
+      if (recordError) {
+        throw new Error(`record_account_purge: ${recordError.message}`);
+      }
+
+      return {
+        success: true,
+        data: {
+          moodEntries: totals.mood_entries,
+          journalEntries: totals.journal_entries,
+          activityRsvps: totals.activity_rsvps,
+          storageObjects: totals.storage_objects,
+        },
+      };
+    } catch (error) {
+      console.error("Error en accountDeletionRepository.purgeUserData:", error);
+      return {
+        success: false,
+        error: createAccountError(
+          AccountErrorType.UNKNOWN_ERROR,
+          error instanceof Error ? error.message : undefined
+        ),
+      };
+    }
+  },
+
+  /**
+   * Eliminar el usuario de auth
+   *
+   * La cascada borra su perfil, preferencias, suscripciones y la
+   * propia solicitud de eliminación.
+   *
+   * @param userId - Id del usuario
+   */
+  async deleteUser(userId: string): Promise<AccountResult> {
+    try {
+      const supabase = createAdminClient();
+      const { error } = await supabase.auth.admin.deleteUser(userId);
+
+      if (error) {
+        return {
+          success: false,
+          error: createAccountError(
+            AccountErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en accountDeletionRepository.deleteUser:", error);
+      return {
+        success: false,
+        error: createAccountError(AccountErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Registrar una eliminación sin datos personales
+   *
+   * @param summary - Cuántos registros se borraron
+   * @param gracePeriodDays - Periodo de gracia vigente
+   */
+  async writeAudit(
+    summary: AccountPurgeSummary,
+    gracePeriodDays: number
+  ): Promise<AccountResult> {
+    try {
+      const supabase = createAdminClient();
+      const { error } = await supabase.from(DELETION_AUDIT_TABLE).insert({
+        grace_period_days: gracePeriodDays,
+        mood_entries: summary.moodEntries,
+        journal_entries: summary.journalEntries,
+        activity_rsvps: summary.activityRsvps,
+        storage_objects: summary.storageObjects,
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: createAccountError(
+            AccountErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en accountDeletionRepository.writeAudit:", error);
+      return {
+        success: false,
+        error: createAccountError(AccountErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+};
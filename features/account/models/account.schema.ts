@@ -0,0 +1,34 @@
+import { z } from "zod";
+import type { MessageKey } from "@lib/i18n/translator";
+
+/**
+ * Claves de los mensajes de validación (ver lib/i18n/messages)
+ *
+ * Llegan a la interfaz como `details` del error y se traducen
+ * con getAccountErrorText.
+ */
+const VALIDATION_MESSAGES = {
+  password: {
+    required: "account.validation.password.required",
+  },
+  acknowledge: {
+    required: "account.validation.acknowledge.required",
+  },
+} satisfies Record<string, Record<string, MessageKey>>;
+
+/**
+ * Schema para programar la eliminación de la cuenta
+ *
+ * Pide la contraseña (aunque haya sesión) y una confirmación explícita.
+ */
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, VALIDATION_MESSAGES.password.required),
+  acknowledge: z
+    .boolean()
+    .refine((value) => value, VALIDATION_MESSAGES.acknowledge.required),
+});
+
+/**
+ * Tipos TypeScript inferidos de los schemas
+ */
+export type DeleteAccountInput = z.infer<typeof deleteAccountSchema>;
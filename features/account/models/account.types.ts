@@ -0,0 +1,136 @@
+import { DEFAULT_LOCALE } from "@lib/i18n/config";
+import {
+  createTranslator,
+  translateText,
+  type I18n,
+  type MessageKey,
+} from "@lib/i18n/translator";
+
+/**
+ * Solicitud de eliminación de cuenta
+ *
+ * La cuenta se borra definitivamente en `scheduledFor`; antes de esa
+ * fecha el usuario puede cancelarla desde /settings.
+ */
+export interface AccountDeletionRequest {
+  userId: string;
+  requestedAt: string;
+  scheduledFor: string;
+}
+
+/**
+ * Fila de la tabla `account_deletion_requests` tal como la devuelve Supabase
+ */
+export interface AccountDeletionRequestRow {
+  user_id: string;
+  requested_at: string;
+  scheduled_for: string;
+}
+
+/**
+ * Buckets de Storage con carpetas por usuario (`<user_id>/...`)
+ * que se vacían al eliminar la cuenta
+ */
+export const USER_STORAGE_BUCKETS = ["avatars"] as const;
+
+/**
+ * Cuántos registros se borraron de una cuenta
+ *
+ * Es lo único que se guarda en `account_deletion_audit`.
+ */
+export interface AccountPurgeSummary {
+  moodEntries: number;
+  journalEntries: number;
+  activityRsvps: number;
+  storageObjects: number;
+}
+
+/**
+ * Resumen de una corrida del cron de eliminaciones
+ */
+export interface AccountDeletionRunSummary {
+  due: number;
+  deleted: number;
+  failed: number;
+}
+
+/**
+ * Resultado de operaciones de la cuenta
+ *
+ * Mismo patrón Result que AuthResult
+ */
+export type AccountResult<T = void> =
+  | { success: true; data: T }
+  | { success: false; error: AccountError };
+
+/**
+ * Tipos de errores de la cuenta
+ */
+export enum AccountErrorType {
+  UNAUTHORIZED = "UNAUTHORIZED",
+  VALIDATION_ERROR = "VALIDATION_ERROR",
+  PASSWORD_REJECTED = "PASSWORD_REJECTED",
+  NOT_FOUND = "NOT_FOUND",
+  NOT_CONFIGURED = "NOT_CONFIGURED",
+  NETWORK_ERROR = "NETWORK_ERROR",
+  UNKNOWN_ERROR = "UNKNOWN_ERROR",
+}
+
+/**
+ * Error de la cuenta estructurado
+ */
+export interface AccountError {
+  type: AccountErrorType;
+  message: string;
+  details?: string;
+}
+
+/**
+ * Convierte una fila de `account_deletion_requests` a nuestro tipo
+ */
+export function mapAccountDeletionRequestRow(
+  row: AccountDeletionRequestRow
+): AccountDeletionRequest {
+  return {
+    userId: row.user_id,
+    requestedAt: row.requested_at,
+    scheduledFor: row.scheduled_for,
+  };
+}
+
+/**
+ * Clave del mensaje de cada tipo de error (ver lib/i18n/messages)
+ */
+export function getAccountErrorMessageKey(type: AccountErrorType): MessageKey {
+  return `account.errors.${type}`;
+}
+
+const defaultT = createTranslator(DEFAULT_LOCALE);
+
+/**
+ * Helper para crear errores de la cuenta
+ *
+ * `message` queda en el idioma por defecto (para logs); la interfaz
+ * muestra el error con getAccountErrorText en el idioma del usuario.
+ */
+export function createAccountError(
+  type: AccountErrorType,
+  details?: string
+): AccountError {
+  return {
+    type,
+    message: defaultT(getAccountErrorMessageKey(type)),
+    details,
+  };
+}
+
+/**
+ * Texto a mostrar para un error de la cuenta
+ *
+ * Usa `details` si lo hay (p. ej. la clave del mensaje de validación).
+ */
+export function getAccountErrorText(error: AccountError, { t }: I18n): string {
+  return error.details
+    ? translateText(t, error.details)
+    : t(getAccountErrorMessageKey(error.type));
+}
@@ -0,0 +1,86 @@
+import Link from "next/link";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { formatDateTime } from "@shared/utils/formatters";
+import { RSVP_LABELS, type Activity } from "../models/activities.types";
+
+type Props = {
+  activities: Activity[];
+  userId: string;
+  // Zona horaria del perfil del usuario
+  timeZone: string;
+  title?: string;
+};
+
+/**
+ * Agenda de actividades próximas
+ *
+ * Muestra la fecha (en la zona horaria e idioma del usuario), el
+ * lugar y la respuesta del usuario actual.
+ */
+export async function ActivityAgenda({
+  activities,
+  userId,
+  timeZone,
+  title,
+}: Props) {
+  const { locale, t } = await getI18n();
+
+  return (
+    <section className="rounded-lg border bg-white p-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">
+          {title ?? t("activities.agenda.title")}
+        </h2>
+        <Link
+          href={`${siteConfig.routes.activities}/new`}
+          className="text-sm underline"
+        >
+          {t("activities.new")}
+        </Link>
+      </div>
+
+      {activities.length === 0 ? (
+        <p className="mt-4 text-sm text-slate-600">
+          {t("activities.agenda.empty")}
+        </p>
+      ) : (
+        <ul className="mt-4 flex flex-col divide-y">
+          {activities.map((activity) => {
+            const me = activity.members.find((m) => m.id === userId);
+            const isCancelled = activity.status === "cancelled";
+
+            return (
+              <li key={activity.id} className="py-3">
+                <Link
+                  href={`${siteConfig.routes.activities}/${activity.id}`}
+                  className="flex flex-col gap-1 hover:underline"
+                >
+                  <span
+                    className={`font-medium ${
+                      isCancelled ? "line-through text-slate-500" : ""
+                    }`}
+                  >
+                    {activity.title}
+                  </span>
+                  <span className="text-sm text-slate-600">
+                    {formatDateTime(activity.startsAt, timeZone, locale)}
+                    {activity.location && ` · ${activity.location}`}
+                  </span>
+                  <span className="text-xs text-slate-500">
+                    {isCancelled
+                      ? t("activities.agenda.cancelled")
+                      : me &&
+                        t("activities.agenda.myRsvp", {
+                          rsvp: t(RSVP_LABELS[me.rsvp]),
+                        })}
+                  </span>
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
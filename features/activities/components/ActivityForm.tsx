@@ -0,0 +1,179 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { siteConfig } from "@lib/config/site";
+import { useI18n } from "@lib/i18n/client";
+import {
+  createActivityAction,
+  updateActivityAction,
+} from "../controllers/activities.actions";
+import {
+  getActivityErrorText,
+  type Activity,
+  type TeamMember,
+} from "../models/activities.types";
+
+type Props = {
+  members: TeamMember[];
+  currentUserId: string;
+  activity?: Activity;
+};
+
+/**
+ * Convierte un ISO a valor de <input type="datetime-local"> en hora local
+ */
+function toDateTimeLocal(iso: string | undefined): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+/**
+ * Convierte un valor de datetime-local (hora local) a ISO en UTC
+ */
+function fromDateTimeLocal(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+/**
+ * Formulario para crear o editar una actividad
+ */
+export function ActivityForm({ members, currentUserId, activity }: Props) {
+  const router = useRouter();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(
+    () => new Set(activity?.members.map((member) => member.id) ?? [])
+  );
+
+  const toggleMember = (id: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+
+    const form = new FormData(event.currentTarget);
+    const input = {
+      title: String(form.get("title") ?? ""),
+      description: String(form.get("description") ?? ""),
+      location: String(form.get("location") ?? ""),
+      startsAt: fromDateTimeLocal(String(form.get("startsAt") ?? "")) ?? "",
+      endsAt: fromDateTimeLocal(String(form.get("endsAt") ?? "")),
+      memberIds: Array.from(selectedIds),
+    };
+
+    startTransition(async () => {
+      const result = activity
+        ? await updateActivityAction({ ...input, id: activity.id })
+        : await createActivityAction(input);
+
+      if (result.success) {
+        router.push(`${siteConfig.routes.activities}/${result.data.id}`);
+      } else {
+        setError(getActivityErrorText(result.error, i18n));
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+      <label className="flex flex-col text-sm">
+        {t("activities.form.title")}
+        <input
+          name="title"
+          required
+          maxLength={120}
+          defaultValue={activity?.title}
+          className="mt-1 rounded-md border px-3 py-2"
+        />
+      </label>
+
+      <div className="flex flex-wrap gap-4">
+        <label className="flex flex-col text-sm">
+          {t("activities.form.startsAt")}
+          <input
+            type="datetime-local"
+            name="startsAt"
+            required
+            defaultValue={toDateTimeLocal(activity?.startsAt)}
+            className="mt-1 rounded-md border px-3 py-2"
+          />
+        </label>
+        <label className="flex flex-col text-sm">
+          {t("activities.form.endsAt")}
+          <input
+            type="datetime-local"
+            name="endsAt"
+            defaultValue={toDateTimeLocal(activity?.endsAt)}
+            className="mt-1 rounded-md border px-3 py-2"
+          />
+        </label>
+      </div>
+
+      <label className="flex flex-col text-sm">
+        {t("activities.form.location")}
+        <input
+          name="location"
+          maxLength={200}
+          defaultValue={activity?.location}
+          className="mt-1 rounded-md border px-3 py-2"
+        />
+      </label>
+
+      <label className="flex flex-col text-sm">
+        {t("activities.form.description")}
+        <textarea
+          name="description"
+          rows={4}
+          maxLength={2000}
+          defaultValue={activity?.description}
+          className="mt-1 rounded-md border px-3 py-2"
+        />
+      </label>
+
+      <fieldset className="flex flex-col gap-2 text-sm">
+        <legend className="mb-1">{t("activities.form.members")}</legend>
+        {members
+          .filter((member) => member.id !== currentUserId)
+          .map((member) => (
+            <label key={member.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={selectedIds.has(member.id)}
+                onChange={() => toggleMember(member.id)}
+              />
+              {member.fullName ?? member.email}
+            </label>
+          ))}
+      </fieldset>
+
+      <button
+        type="submit"
+        disabled={isPending}
+        className="self-start rounded-md bg-slate-900 px-4 py-2 text-sm text-white disabled:opacity-50"
+      >
+        {activity ? t("activities.form.save") : t("activities.form.create")}
+      </button>
+
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useI18n } from "@lib/i18n/client";
+import { Button } from "@shared/ui/Button";
+import { Modal } from "@shared/ui/Modal";
+import { cancelActivityAction } from "../controllers/activities.actions";
+import { getActivityErrorMessageKey } from "../models/activities.types";
+
+type Props = {
+  activityId: string;
+};
+
+/**
+ * Botón para cancelar una actividad (con confirmación)
+ */
+export function CancelActivityButton({ activityId }: Props) {
+  const { t } = useI18n();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState(false);
+
+  const handleCancel = () => {
+    setConfirming(false);
+    setError(null);
+    startTransition(async () => {
+      const result = await cancelActivityAction({ id: activityId });
+      if (!result.success) {
+        setError(t(getActivityErrorMessageKey(result.error.type)));
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <button
+        type="button"
+        onClick={() => setConfirming(true)}
+        disabled={isPending}
+        className="self-start rounded-md border px-4 py-2 text-sm text-red-600 disabled:opacity-50"
+      >
+        {t("activities.cancel.button")}
+      </button>
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+
+      <Modal
+        open={confirming}
+        onClose={() => setConfirming(false)}
+        title={t("activities.cancel.confirmTitle")}
+        description={t("activities.cancel.confirmDescription")}
+      >
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={() => setConfirming(false)}>
+            {t("activities.cancel.back")}
+          </Button>
+          <Button variant="danger" onClick={handleCancel}>
+            {t("activities.cancel.button")}
+          </Button>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useI18n } from "@lib/i18n/client";
+import { respondToActivityAction } from "../controllers/activities.actions";
+import {
+  RSVP_LABELS,
+  getActivityErrorMessageKey,
+  type RsvpStatus,
+} from "../models/activities.types";
+
+type Props = {
+  activityId: string;
+  current: RsvpStatus;
+};
+
+const OPTIONS: Exclude<RsvpStatus, "pending">[] = [
+  "going",
+  "maybe",
+  "declined",
+];
+
+/**
+ * Botones para responder a una actividad (asistiré / tal vez / no asistiré)
+ */
+export function RsvpButtons({ activityId, current }: Props) {
+  const { t } = useI18n();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRespond = (rsvp: Exclude<RsvpStatus, "pending">) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await respondToActivityAction({ id: activityId, rsvp });
+      if (!result.success) {
+        setError(t(getActivityErrorMessageKey(result.error.type)));
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div
+        className="flex flex-wrap gap-2"
+        role="group"
+        aria-label={t("activities.rsvpGroup")}
+      >
+        {OPTIONS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => handleRespond(option)}
+            disabled={isPending}
+            aria-pressed={current === option}
+            className={`rounded-md border px-3 py-1 text-sm disabled:opacity-50 ${
+              current === option ? "bg-slate-900 text-white" : ""
+            }`}
+          >
+            {t(RSVP_LABELS[option])}
+          </button>
+        ))}
+      </div>
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
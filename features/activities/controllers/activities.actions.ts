@@ -0,0 +1,232 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getCurrentUser } from "@lib/auth/session";
+import { siteConfig } from "@lib/config/site";
+import { activityRepository } from "../models/activities.repository";
+import {
+  cancelActivitySchema,
+  createActivitySchema,
+  respondToActivitySchema,
+  updateActivitySchema,
+  type CancelActivityInput,
+  type CreateActivityInput,
+  type RespondToActivityInput,
+  type UpdateActivityInput,
+} from "../models/activities.schema";
+import {
+  ActivityErrorType,
+  canManageActivity,
+  createActivityError,
+  type Activity,
+  type ActivityResult,
+} from "../models/activities.types";
+import { notifyInvitedMembers } from "./activities.notifications";
+
+/**
+ * Server Actions de actividades del semillero
+ *
+ * Flujo: sesión → validación con zod → permisos → activityRepository.
+ * Los permisos se verifican aquí además de en las políticas RLS.
+ */
+
+/**
+ * Revalida las vistas que muestran actividades
+ */
+function revalidateActivityViews() {
+  revalidatePath(siteConfig.routes.activities, "layout");
+  revalidatePath(siteConfig.routes.home);
+}
+
+/**
+ * Crear una actividad
+ */
+export async function createActivityAction(
+  input: CreateActivityInput
+): Promise<ActivityResult<Activity>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createActivityError(ActivityErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = createActivitySchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createActivityError(
+        ActivityErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await activityRepository.create(user.id, parsed.data);
+  if (result.success) {
+    revalidateActivityViews();
+    await notifyInvitedMembers(result.data, parsed.data.memberIds, user);
+  }
+
+  return result;
+}
+
+/**
+ * Editar una actividad (solo quien la creó o un coordinador)
+ */
+export async function updateActivityAction(
+  input: UpdateActivityInput
+): Promise<ActivityResult<Activity>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createActivityError(ActivityErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = updateActivitySchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createActivityError(
+        ActivityErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const existing = await activityRepository.getById(parsed.data.id);
+  if (!existing.success) {
+    return existing;
+  }
+
+  if (!canManageActivity(user, existing.data)) {
+    return {
+      success: false,
+      error: createActivityError(ActivityErrorType.FORBIDDEN),
+    };
+  }
+
+  if (existing.data.status === "cancelled") {
+    return {
+      success: false,
+      error: createActivityError(ActivityErrorType.ALREADY_CANCELLED),
+    };
+  }
+
+  const result = await activityRepository.update(existing.data, parsed.data);
+  if (result.success) {
+    revalidateActivityViews();
+    const previousIds = existing.data.members.map((member) => member.id);
+    await notifyInvitedMembers(
+      result.data,
+      parsed.data.memberIds.filter((id) => !previousIds.includes(id)),
+      user
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Cancelar una actividad (solo quien la creó o un coordinador)
+ */
+export async function cancelActivityAction(
+  input: CancelActivityInput
+): Promise<ActivityResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createActivityError(ActivityErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = cancelActivitySchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createActivityError(
+        ActivityErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const existing = await activityRepository.getById(parsed.data.id);
+  if (!existing.success) {
+    return existing;
+  }
+
+  if (!canManageActivity(user, existing.data)) {
+    return {
+      success: false,
+      error: createActivityError(ActivityErrorType.FORBIDDEN),
+    };
+  }
+
+  if (existing.data.status === "cancelled") {
+    return {
+      success: false,
+      error: createActivityError(ActivityErrorType.ALREADY_CANCELLED),
+    };
+  }
+
+  const result = await activityRepository.cancel(parsed.data.id);
+  if (result.success) {
+    revalidateActivityViews();
+  }
+
+  return result;
+}
+
+/**
+ * Responder (RSVP) a una actividad en la que el usuario está asignado
+ */
+export async function respondToActivityAction(
+  input: RespondToActivityInput
+): Promise<ActivityResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createActivityError(ActivityErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = respondToActivitySchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createActivityError(
+        ActivityErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const existing = await activityRepository.getById(parsed.data.id);
+  if (!existing.success) {
+    return existing;
+  }
+
+  if (existing.data.status === "cancelled") {
+    return {
+      success: false,
+      error: createActivityError(ActivityErrorType.ALREADY_CANCELLED),
+    };
+  }
+
+  const result = await activityRepository.setRsvp(
+    parsed.data.id,
+    user.id,
+    parsed.data.rsvp
+  );
+  if (result.success) {
+    revalidateActivityViews();
+  }
+
+  return result;
+}
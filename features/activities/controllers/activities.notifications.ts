@@ -0,0 +1,70 @@
+import { siteConfig } from "@lib/config/site";
+import { sendEmail } from "@lib/email/sender";
+import { activityInvitationEmail } from "@lib/email/templates/activity-invitation";
+import type { User } from "@features/auth/models/auth.types";
+import { profileRepository } from "@features/profile/models/profile.repository";
+import type { Activity } from "../models/activities.types";
+
+/**
+ * Envía la invitación por correo a los miembros recién asignados
+ *
+ * Es de mejor esfuerzo: si un correo falla se registra en el log,
+ * pero la actividad ya quedó guardada y el miembro la ve en su agenda.
+ * No se escribe a quien desactivó estos correos en /settings; a los
+ * demás se les muestra la fecha en su zona horaria e idioma.
+ *
+ * @param activity - Actividad ya guardada (con sus miembros)
+ * @param memberIds - Ids de los miembros a invitar
+ * @param inviter - Usuario que creó o editó la actividad
+ */
+export async function notifyInvitedMembers(
+  activity: Activity,
+  memberIds: string[],
+  inviter: User
+): Promise<void> {
+  const candidates = memberIds.filter((id) => id !== inviter.id);
+  const recipients = await profileRepository.listActivityEmailRecipients(
+    candidates
+  );
+  if (!recipients.success) {
+    console.error(
+      "No se pudieron leer las preferencias de correo:",
+      recipients.error.details ?? recipients.error.message
+    );
+    return;
+  }
+
+  const preferences = new Map(
+    recipients.data.map((recipient) => [recipient.id, recipient])
+  );
+  const invited = activity.members.filter((member) =>
+    preferences.has(member.id)
+  );
+  const activityUrl = `${siteConfig.url}${siteConfig.routes.activities}/${activity.id}`;
+
+  const results = await Promise.all(
+    invited.map((member) =>
+      sendEmail(
+        member.email,
+        activityInvitationEmail({
+          fullName: member.fullName,
+          inviterName: inviter.fullName ?? inviter.email,
+          activity,
+          timezone: preferences.get(member.id)?.timezone,
+          locale: preferences.get(member.id)?.locale,
+          activityUrl,
+        }),
+        inviter.email
+      )
+    )
+  );
+
+  results.forEach((result, index) => {
+    if (!result.success) {
+      console.error(
+        `No se pudo invitar a ${invited[index].email}:`,
+        result.error.details ?? result.error.message
+      );
+    }
+  });
+}
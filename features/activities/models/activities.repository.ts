@@ -0,0 +1,491 @@
+import { createClient } from "@lib/supabase/server";
+import {
+  ActivityResult,
+  ActivityErrorType,
+  createActivityError,
+  mapActivityRow,
+  mapProfileRow,
+  type Activity,
+  type ActivityRow,
+  type ProfileRow,
+  type RsvpStatus,
+  type TeamMember,
+} from "./activities.types";
+import type {
+  CreateActivityData,
+  UpdateActivityData,
+} from "./activities.schema";
+
+const ACTIVITIES_TABLE = "activities";
+const ACTIVITY_MEMBERS_TABLE = "activity_members";
+const PROFILES_TABLE = "profiles";
+
+/**
+ * Columnas de una actividad con sus miembros y el perfil de cada uno
+ */
+const ACTIVITY_SELECT = `
+  *,
+  activity_members (
+    user_id,
+    rsvp_status,
+    responded_at,
+    profiles ( id, email, full_name )
+  )
+`;
+
+/**
+ * Repositorio de Actividades
+ *
+ * Capa de acceso a datos para `activities` y `activity_members`.
+ * Sigue el mismo patrón que los demás repositorios.
+ *
+ * Responsabilidades:
+ * - Leer y escribir actividades, asignaciones y respuestas
+ * - Mapear filas de la base de datos a nuestros tipos
+ * - Manejar errores de forma consistente
+ * - NO decide quién puede modificar qué (eso va en controllers)
+ */
+export const activityRepository = {
+  /**
+   * Listar actividades de un usuario en un rango de fechas
+   *
+   * Incluye las que creó y aquellas en las que está asignado.
+   *
+   * @param userId - Id del usuario
+   * @param range - Rango [from, to) en ISO 8601 sobre la fecha de inicio
+   * @returns ActivityResult con las actividades ordenadas por fecha
+   */
+  async listForUser(
+    userId: string,
+    range: { from: string; to: string }
+  ): Promise<ActivityResult<Activity[]>> {
+    try {
+      const supabase = await createClient();
+
+      const { data: memberships, error: membershipError } = await supabase
+        .from(ACTIVITY_MEMBERS_TABLE)
+        .select("activity_id")
+        .eq("user_id", userId)
+        .overrideTypes<{ activity_id: string }[], { merge: false }>();
+
+      if (membershipError) {
+        return {
+          success: false,
+          error: createActivityError(
+            ActivityErrorType.UNKNOWN_ERROR,
+            membershipError.message
+          ),
+        };
+      }
+
+      const ids = (memberships ?? []).map((m) => m.activity_id);
+      const ownership =
+        ids.length > 0
+          ? `created_by.eq.${userId},id.in.(${ids.join(",")})`
+          : `created_by.eq.${userId}`;
+
+      const { data: rows, error } = await supabase
+        .from(ACTIVITIES_TABLE)
+        .select(ACTIVITY_SELECT)
+        .or(ownership)
+        .gte("starts_at", range.from)
+        .lt("starts_at", range.to)
+        .order("starts_at", { ascending: true })
+        .overrideTypes<ActivityRow[], { merge: false }>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createActivityError(
+            ActivityErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: (rows ?? []).map(mapActivityRow) };
+    } catch (error) {
+      console.error("Error en activityRepository.listForUser:", error);
+      return {
+        success: false,
+        error: createActivityError(ActivityErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Listar las actividades programadas (no canceladas) de un rango
+   *
+   * Con RLS, un coordinador ve todas las del semillero; cualquier otro
+   * usuario solo las que creó o en las que está asignado.
+   *
+   * @param range - Rango [from, to) en ISO 8601 sobre la fecha de inicio
+   * @returns ActivityResult con las actividades ordenadas por fecha
+   */
+  async listScheduled(range: {
+    from: string;
+    to: string;
+  }): Promise<ActivityResult<Activity[]>> {
+    try {
+      const supabase = await createClient();
+      const { data: rows, error } = await supabase
+        .from(ACTIVITIES_TABLE)
+        .select(ACTIVITY_SELECT)
+        .eq("status", "scheduled")
+        .gte("starts_at", range.from)
+        .lt("starts_at", range.to)
+        .order("starts_at", { ascending: true })
+        .overrideTypes<ActivityRow[], { merge: false }>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createActivityError(
+            ActivityErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: (rows ?? []).map(mapActivityRow) };
+    } catch (error) {
+      console.error("Error en activityRepository.listScheduled:", error);
+      return {
+        success: false,
+        error: createActivityError(ActivityErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Obtener una actividad por id con sus miembros
+   *
+   * @param id - Id de la actividad
+   * @returns ActivityResult con la actividad o NOT_FOUND
+   */
+  async getById(id: string): Promise<ActivityResult<Activity>> {
+    try {
+      const supabase = await createClient();
+      const { data: row, error } = await supabase
+        .from(ACTIVITIES_TABLE)
+        .select(ACTIVITY_SELECT)
+        .eq("id", id)
+        .maybeSingle<ActivityRow>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createActivityError(
+            ActivityErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      if (!row) {
+        return {
+          success: false,
+          error: createActivityError(ActivityErrorType.NOT_FOUND),
+        };
+      }
+
+      return { success: true, data: mapActivityRow(row) };
+    } catch (error) {
+      console.error("Error en activityRepository.getById:", error);
+      return {
+        success: false,
+        error: createActivityError(ActivityErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Crear una actividad y asignar a sus miembros
+   *
+   * Quien la crea queda asignado automáticamente con respuesta "going".
+   * Si falla la asignación se elimina la actividad para no dejarla a medias.
+   *
+   * @param userId - Id de quien crea la actividad
+   * @param data - Datos ya validados con createActivitySchema
+   * @returns ActivityResult con la actividad creada
+   */
+  async create(
+    userId: string,
+    data: CreateActivityData
+  ): Promise<ActivityResult<Activity>> {
+    try {
+      const supabase = await createClient();
+      const { data: created, error } = await supabase
+        .from(ACTIVITIES_TABLE)
+        .insert({
+          title: data.title,
+          description: data.description || null,
+          location: data.location || null,
+          starts_at: data.startsAt,
+          ends_at: data.endsAt ?? null,
+          created_by: userId,
+        })
+        .select("id")
+        .single<{ id: string }>();
+
+      if (error || !created) {
+        return {
+          success: false,
+          error: createActivityError(
+            ActivityErrorType.UNKNOWN_ERROR,
+            error?.message
+          ),
+        };
+      }
+
+      const now = new Date().toISOString();
+      const memberIds = data.memberIds.filter((id) => id !== userId);
+      const { error: membersError } = await supabase
+        .from(ACTIVITY_MEMBERS_TABLE)
+        .insert([
+          {
+            activity_id: created.id,
+            user_id: userId,
+            rsvp_status: "going",
+            responded_at: now,
+          },
+          ...memberIds.map((memberId) => ({
+            activity_id: created.id,
+            user_id: memberId,
+            rsvp_status: "pending",
+            responded_at: null,
+          })),
+        ]);
+
+      if (membersError) {
+        await supabase.from(ACTIVITIES_TABLE).delete().eq("id", created.id);
+        return {
+          success: false,
+          error: createActivityError(
+            ActivityErrorType.UNKNOWN_ERROR,
+            membersError.message
+          ),
+        };
+      }
+
+      return activityRepository.getById(created.id);
+    } catch (error) {
+      console.error("Error en activityRepository.create:", error);
+      return {
+        success: false,
+        error: createActivityError(ActivityErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Actualizar una actividad y sincronizar sus miembros
+   *
+   * Los miembros que siguen asignados conservan su respuesta.
+   *
+   * @param activity - Actividad actual (para calcular cambios en miembros)
+   * @param data - Datos ya validados con updateActivitySchema
+   * @returns ActivityResult con la actividad actualizada
+   */
+  async update(
+    activity: Activity,
+    data: UpdateActivityData
+  ): Promise<ActivityResult<Activity>> {
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase
+        .from(ACTIVITIES_TABLE)
+        .update({
+          title: data.title,
+          description: data.description || null,
+          location: data.location || null,
+          starts_at: data.startsAt,
+          ends_at: data.endsAt ?? null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", activity.id);
+
+      if (error) {
+        return {
+          success: false,
+          error: createActivityError(
+            ActivityErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      // Quien creó la actividad nunca se desasigna
+      const desired = new Set(data.memberIds);
+      if (activity.createdBy) desired.add(activity.createdBy);
+      const current = new Set(activity.members.map((member) => member.id));
+      const toRemove = [...current].filter((id) => !desired.has(id));
+      const toAdd = [...desired].filter((id) => !current.has(id));
+
+      if (toRemove.length > 0) {
+        const { error: removeError } = await supabase
+          .from(ACTIVITY_MEMBERS_TABLE)
+          .delete()
+          .eq("activity_id", activity.id)
+          .in("user_id", toRemove);
+
+        if (removeError) {
+          return {
+            success: false,
+            error: createActivityError(
+              ActivityErrorType.UNKNOWN_ERROR,
+              removeError.message
+            ),
+          };
+        }
+      }
+
+      if (toAdd.length > 0) {
+        const { error: addError } = await supabase
+          .from(ACTIVITY_MEMBERS_TABLE)
+          .insert(
+            toAdd.map((memberId) => ({
+              activity_id: activity.id,
+              user_id: memberId,
+              rsvp_status: "pending",
+            }))
+          );
+
+        if (addError) {
+          return {
+            success: false,
+            error: createActivityError(
+              ActivityErrorType.UNKNOWN_ERROR,
+              addError.message
+            ),
+          };
+        }
+      }
+
+      return activityRepository.getById(activity.id);
+    } catch (error) {
+      console.error("Error en activityRepository.update:", error);
+      return {
+        success: false,
+        error: createActivityError(ActivityErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Cancelar una actividad (se conserva para el historial)
+   *
+   * @param id - Id de la actividad
+   * @returns ActivityResult indicando éxito o error
+   */
+  async cancel(id: string): Promise<ActivityResult> {
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase
+        .from(ACTIVITIES_TABLE)
+        .update({ status: "cancelled", updated_at: new Date().toISOString() })
+        .eq("id", id);
+
+      if (error) {
+        return {
+          success: false,
+          error: createActivityError(
+            ActivityErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en activityRepository.cancel:", error);
+      return {
+        success: false,
+        error: createActivityError(ActivityErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Guardar la respuesta (RSVP) de un miembro
+   *
+   * @param activityId - Id de la actividad
+   * @param userId - Id del miembro que responde
+   * @param rsvp - Respuesta
+   * @returns ActivityResult indicando éxito o error
+   */
+  async setRsvp(
+    activityId: string,
+    userId: string,
+    rsvp: Exclude<RsvpStatus, "pending">
+  ): Promise<ActivityResult> {
+    try {
+      const supabase = await createClient();
+      const { data: rows, error } = await supabase
+        .from(ACTIVITY_MEMBERS_TABLE)
+        .update({ rsvp_status: rsvp, responded_at: new Date().toISOString() })
+        .eq("activity_id", activityId)
+        .eq("user_id", userId)
+        .select("user_id");
+
+      if (error) {
+        return {
+          success: false,
+          error: createActivityError(
+            ActivityErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      if (!rows || rows.length === 0) {
+        return {
+          success: false,
+          error: createActivityError(ActivityErrorType.NOT_A_MEMBER),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en activityRepository.setRsvp:", error);
+      return {
+        success: false,
+        error: createActivityError(ActivityErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Listar los integrantes del semillero que se pueden asignar
+   *
+   * @returns ActivityResult con los integrantes ordenados por nombre
+   */
+  async listTeamMembers(): Promise<ActivityResult<TeamMember[]>> {
+    try {
+      const supabase = await createClient();
+      const { data: rows, error } = await supabase
+        .from(PROFILES_TABLE)
+        .select("id, email, full_name")
+        .order("full_name", { ascending: true })
+        .overrideTypes<ProfileRow[], { merge: false }>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createActivityError(
+            ActivityErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: (rows ?? []).map(mapProfileRow) };
+    } catch (error) {
+      console.error("Error en activityRepository.listTeamMembers:", error);
+      return {
+        success: false,
+        error: createActivityError(ActivityErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+};
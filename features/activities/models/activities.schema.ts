@@ -0,0 +1,118 @@
+import { z } from "zod";
+import type { MessageKey } from "@lib/i18n/translator";
+
+/**
+ * Claves de los mensajes de validación (ver lib/i18n/messages)
+ *
+ * Llegan a la interfaz como `details` del error y se traducen
+ * con getActivityErrorText.
+ */
+const VALIDATION_MESSAGES = {
+  id: {
+    invalid: "activities.validation.id.invalid",
+  },
+  title: {
+    required: "activities.validation.title.required",
+    maxLength: "activities.validation.title.maxLength",
+  },
+  description: {
+    maxLength: "activities.validation.description.maxLength",
+  },
+  location: {
+    maxLength: "activities.validation.location.maxLength",
+  },
+  startsAt: {
+    invalid: "activities.validation.startsAt.invalid",
+  },
+  endsAt: {
+    invalid: "activities.validation.endsAt.invalid",
+    beforeStart: "activities.validation.endsAt.beforeStart",
+  },
+  memberIds: {
+    invalid: "activities.validation.memberIds.invalid",
+    tooMany: "activities.validation.memberIds.tooMany",
+  },
+  rsvp: {
+    invalid: "activities.validation.rsvp.invalid",
+  },
+} satisfies Record<string, Record<string, MessageKey>>;
+
+const dateTimeSchema = (message: MessageKey) =>
+  z.iso.datetime({ offset: true, message });
+
+/**
+ * Campos comunes de crear y editar
+ */
+const activityFieldsSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, VALIDATION_MESSAGES.title.required)
+    .max(120, VALIDATION_MESSAGES.title.maxLength),
+  description: z
+    .string()
+    .trim()
+    .max(2000, VALIDATION_MESSAGES.description.maxLength)
+    .optional(),
+  location: z
+    .string()
+    .trim()
+    .max(200, VALIDATION_MESSAGES.location.maxLength)
+    .optional(),
+  startsAt: dateTimeSchema(VALIDATION_MESSAGES.startsAt.invalid),
+  endsAt: dateTimeSchema(VALIDATION_MESSAGES.endsAt.invalid).optional(),
+  memberIds: z
+    .array(z.uuid(VALIDATION_MESSAGES.memberIds.invalid))
+    .max(50, VALIDATION_MESSAGES.memberIds.tooMany)
+    .transform((ids) => Array.from(new Set(ids)))
+    .default([]),
+});
+
+const endsAfterStart = (data: { startsAt: string; endsAt?: string }) =>
+  !data.endsAt || new Date(data.endsAt) > new Date(data.startsAt);
+
+/**
+ * Schema para crear una actividad
+ */
+export const createActivitySchema = activityFieldsSchema.refine(
+  endsAfterStart,
+  { message: VALIDATION_MESSAGES.endsAt.beforeStart, path: ["endsAt"] }
+);
+
+/**
+ * Schema para editar una actividad
+ */
+export const updateActivitySchema = activityFieldsSchema
+  .extend({ id: z.uuid(VALIDATION_MESSAGES.id.invalid) })
+  .refine(endsAfterStart, {
+    message: VALIDATION_MESSAGES.endsAt.beforeStart,
+    path: ["endsAt"],
+  });
+
+/**
+ * Schema para cancelar una actividad
+ */
+export const cancelActivitySchema = z.object({
+  id: z.uuid(VALIDATION_MESSAGES.id.invalid),
+});
+
+/**
+ * Schema para responder (RSVP) a una actividad
+ */
+export const respondToActivitySchema = z.object({
+  id: z.uuid(VALIDATION_MESSAGES.id.invalid),
+  rsvp: z.enum(
+    ["going", "maybe", "declined"],
+    VALIDATION_MESSAGES.rsvp.invalid
+  ),
+});
+
+/**
+ * Tipos TypeScript inferidos de los schemas
+ */
+export type CreateActivityInput = z.input<typeof createActivitySchema>;
+export type CreateActivityData = z.output<typeof createActivitySchema>;
+export type UpdateActivityInput = z.input<typeof updateActivitySchema>;
+export type UpdateActivityData = z.output<typeof updateActivitySchema>;
+export type CancelActivityInput = z.infer<typeof cancelActivitySchema>;
+export type RespondToActivityInput = z.infer<typeof respondToActivitySchema>;
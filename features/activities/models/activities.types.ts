@@ -0,0 +1,226 @@
+import { hasPermission } from "@lib/auth/permissions";
+import { DEFAULT_LOCALE } from "@lib/i18n/config";
+import {
+  createTranslator,
+  translateText,
+  type I18n,
+  type MessageKey,
+} from "@lib/i18n/translator";
+import type { User } from "@features/auth/models/auth.types";
+
+/**
+ * Respuesta de un miembro a una actividad
+ *
+ * - pending: todavía no ha respondido
+ * - going / maybe / declined: asistirá, tal vez, no asistirá
+ */
+export type RsvpStatus = "pending" | "going" | "maybe" | "declined";
+
+export const RSVP_LABELS: Record<RsvpStatus, MessageKey> = {
+  pending: "activities.rsvp.pending",
+  going: "activities.rsvp.going",
+  maybe: "activities.rsvp.maybe",
+  declined: "activities.rsvp.declined",
+};
+
+/**
+ * Estado de una actividad
+ */
+export type ActivityStatus = "scheduled" | "cancelled";
+
+/**
+ * Integrante del semillero (para asignar a actividades)
+ */
+export interface TeamMember {
+  id: string;
+  email: string;
+  fullName?: string;
+}
+
+/**
+ * Miembro asignado a una actividad con su respuesta
+ */
+export interface ActivityMember extends TeamMember {
+  rsvp: RsvpStatus;
+  respondedAt?: string;
+}
+
+/**
+ * Actividad del semillero
+ */
+export interface Activity {
+  id: string;
+  title: string;
+  description?: string;
+  location?: string;
+  startsAt: string;
+  endsAt?: string;
+  status: ActivityStatus;
+  // Sin valor si quien la creó eliminó su cuenta
+  createdBy?: string;
+  members: ActivityMember[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Fila de la tabla `profiles` (datos públicos dentro del semillero)
+ */
+export interface ProfileRow {
+  id: string;
+  email: string;
+  full_name: string | null;
+}
+
+/**
+ * Fila de `activity_members` con el perfil embebido
+ */
+export interface ActivityMemberRow {
+  user_id: string;
+  rsvp_status: RsvpStatus;
+  responded_at: string | null;
+  profiles: ProfileRow | null;
+}
+
+/**
+ * Fila de la tabla `activities` con sus miembros embebidos
+ */
+export interface ActivityRow {
+  id: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  starts_at: string;
+  ends_at: string | null;
+  status: ActivityStatus;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  activity_members: ActivityMemberRow[] | null;
+}
+
+/**
+ * Resultado de operaciones sobre actividades
+ *
+ * Mismo patrón Result que AuthResult
+ */
+export type ActivityResult<T = void> =
+  | { success: true; data: T }
+  | { success: false; error: ActivityError };
+
+/**
+ * Tipos de errores de actividades
+ */
+export enum ActivityErrorType {
+  UNAUTHORIZED = "UNAUTHORIZED",
+  FORBIDDEN = "FORBIDDEN",
+  VALIDATION_ERROR = "VALIDATION_ERROR",
+  NOT_FOUND = "NOT_FOUND",
+  NOT_A_MEMBER = "NOT_A_MEMBER",
+  ALREADY_CANCELLED = "ALREADY_CANCELLED",
+  NETWORK_ERROR = "NETWORK_ERROR",
+  UNKNOWN_ERROR = "UNKNOWN_ERROR",
+}
+
+/**
+ * Error de actividades estructurado
+ */
+export interface ActivityError {
+  type: ActivityErrorType;
+  message: string;
+  details?: string;
+}
+
+/**
+ * Convierte una fila de `profiles` a TeamMember
+ */
+export function mapProfileRow(row: ProfileRow): TeamMember {
+  return {
+    id: row.id,
+    email: row.email,
+    fullName: row.full_name ?? undefined,
+  };
+}
+
+/**
+ * Convierte una fila de `activities` a nuestro tipo Activity
+ */
+export function mapActivityRow(row: ActivityRow): Activity {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description ?? undefined,
+    location: row.location ?? undefined,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at ?? undefined,
+    status: row.status,
+    createdBy: row.created_by ?? undefined,
+    members: (row.activity_members ?? []).map((member) => ({
+      id: member.user_id,
+      email: member.profiles?.email ?? "",
+      fullName: member.profiles?.full_name ?? undefined,
+      rsvp: member.rsvp_status,
+      respondedAt: member.responded_at ?? undefined,
+    })),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Verifica si un usuario puede editar o cancelar una actividad
+ *
+ * Puede quien la creó o quien tenga el permiso `activities:manage_any`
+ * (coordinadores y administradores).
+ */
+export function canManageActivity(
+  user: Pick<User, "id" | "role">,
+  activity: Activity
+): boolean {
+  return (
+    activity.createdBy === user.id ||
+    hasPermission(user, "activities:manage_any")
+  );
+}
+
+/**
+ * Clave del mensaje de cada tipo de error (ver lib/i18n/messages)
+ */
+export function getActivityErrorMessageKey(
+  type: ActivityErrorType
+): MessageKey {
+  return `activities.errors.${type}`;
+}
+
+const defaultT = createTranslator(DEFAULT_LOCALE);
+
+/**
+ * Helper para crear errores de actividades
+ *
+ * `message` queda en el idioma por defecto (para logs); la interfaz
+ * muestra el error con getActivityErrorText en el idioma del usuario.
+ */
+export function createActivityError(
+  type: ActivityErrorType,
+  details?: string
+): ActivityError {
+  return {
+    type,
+    message: defaultT(getActivityErrorMessageKey(type)),
+    details,
+  };
+}
+
+/**
+ * Texto a mostrar para un error de actividades
+ *
+ * Usa `details` si lo hay (p. ej. la clave del mensaje de validación).
+ */
+export function getActivityErrorText(
+  error: ActivityError,
+  { t }: I18n
+): string {
+  return error.details
+    ? translateText(t, error.details)
+    : t(getActivityErrorMessageKey(error.type));
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useI18n } from "@lib/i18n/client";
+import {
+  USER_ROLES,
+  getUserRoleMessageKey,
+  type UserRole,
+} from "@features/auth/models/auth.types";
+import { updateMemberRoleAction } from "../controllers/admin.actions";
+import { getAdminErrorText, type ManagedMember } from "../models/admin.types";
+
+type Props = {
+  members: ManagedMember[];
+  currentUserId: string;
+  canManageRoles: boolean;
+};
+
+/**
+ * Tabla de integrantes con selector de rol
+ *
+ * El selector solo aparece si el usuario puede gestionar roles,
+ * y nunca en su propia fila.
+ */
+export function MemberRoleTable({
+  members,
+  currentUserId,
+  canManageRoles,
+}: Props) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [isPending, startTransition] = useTransition();
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleChange = (member: ManagedMember, role: UserRole) => {
+    setMessage(null);
+    startTransition(async () => {
+      const result = await updateMemberRoleAction({
+        userId: member.id,
+        role,
+      });
+
+      setMessage(
+        result.success
+          ? t("admin.members.roleChanged", {
+              name: member.fullName ?? member.email,
+              role: t(getUserRoleMessageKey(role)).toLowerCase(),
+            })
+          : getAdminErrorText(result.error, i18n)
+      );
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <table className="w-full text-left text-sm">
+        <thead className="border-b">
+          <tr>
+            <th className="py-2">{t("admin.members.name")}</th>
+            <th className="py-2">{t("admin.members.email")}</th>
+            <th className="py-2">{t("admin.members.role")}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {members.map((member) => (
+            <tr key={member.id}>
+              <td className="py-2">{member.fullName ?? "—"}</td>
+              <td className="py-2">{member.email}</td>
+              <td className="py-2">
+                {canManageRoles && member.id !== currentUserId ? (
+                  <select
+                    aria-label={t("admin.members.roleOf", {
+                      name: member.fullName ?? member.email,
+                    })}
+                    defaultValue={member.role}
+                    disabled={isPending}
+                    onChange={(e) =>
+                      handleChange(member, e.target.value as UserRole)
+                    }
+                    className="rounded-md border px-2 py-1"
+                  >
+                    {USER_ROLES.map((role) => (
+                      <option key={role} value={role}>
+                        {t(getUserRoleMessageKey(role))}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  t(getUserRoleMessageKey(member.role))
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-sm" role="status" aria-live="polite">
+        {message}
+      </p>
+    </div>
+  );
+}
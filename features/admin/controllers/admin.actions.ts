@@ -0,0 +1,82 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getCurrentUser } from "@lib/auth/session";
+import { hasPermission } from "@lib/auth/permissions";
+import { isAdminClientConfigured } from "@lib/supabase/admin";
+import { siteConfig } from "@lib/config/site";
+import { memberAdminRepository } from "../models/admin.repository";
+import {
+  updateMemberRoleSchema,
+  type UpdateMemberRoleInput,
+} from "../models/admin.schema";
+import {
+  AdminErrorType,
+  createAdminError,
+  type AdminResult,
+  type ManagedMember,
+} from "../models/admin.types";
+
+/**
+ * Server Actions de administración de integrantes
+ */
+
+/**
+ * Promover o degradar a un integrante
+ *
+ * Requiere el permiso `members:manage_roles`. Un administrador no puede
+ * cambiar su propio rol, para no quedarse sin acceso por accidente.
+ */
+export async function updateMemberRoleAction(
+  input: UpdateMemberRoleInput
+): Promise<AdminResult<ManagedMember>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createAdminError(AdminErrorType.UNAUTHORIZED),
+    };
+  }
+
+  if (!hasPermission(user, "members:manage_roles")) {
+    return {
+      success: false,
+      error: createAdminError(AdminErrorType.FORBIDDEN),
+    };
+  }
+
+  if (!isAdminClientConfigured()) {
+    return {
+      success: false,
+      error: createAdminError(AdminErrorType.NOT_CONFIGURED),
+    };
+  }
+
+  const parsed = updateMemberRoleSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createAdminError(
+        AdminErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  if (parsed.data.userId === user.id) {
+    return {
+      success: false,
+      error: createAdminError(AdminErrorType.CANNOT_CHANGE_OWN_ROLE),
+    };
+  }
+
+  const result = await memberAdminRepository.setRole(
+    parsed.data.userId,
+    parsed.data.role
+  );
+  if (result.success) {
+    revalidatePath(siteConfig.routes.adminMembers);
+  }
+
+  return result;
+}
@@ -0,0 +1,124 @@
+import type { User as SupabaseUser } from "@supabase/supabase-js";
+import { createAdminClient } from "@lib/supabase/admin";
+import { parseUserRole, type UserRole } from "@features/auth/models/auth.types";
+import {
+  AdminResult,
+  AdminErrorType,
+  createAdminError,
+  type ManagedMember,
+} from "./admin.types";
+
+/**
+ * Tamaño de página al listar usuarios con la API de administración
+ */
+const USERS_PER_PAGE = 1000;
+
+/**
+ * Convierte un User de Supabase a ManagedMember
+ */
+function mapManagedMember(user: SupabaseUser): ManagedMember {
+  return {
+    id: user.id,
+    email: user.email ?? "",
+    fullName: user.user_metadata?.full_name,
+    role: parseUserRole(user.app_metadata?.role),
+    createdAt: user.created_at,
+    lastSignInAt: user.last_sign_in_at,
+  };
+}
+
+/**
+ * Repositorio de Administración de Integrantes
+ *
+ * Usa el cliente con Service Role Key (lib/supabase/admin.ts), así que
+ * ignora RLS: los controllers DEBEN verificar permisos antes de llamarlo.
+ */
+export const memberAdminRepository = {
+  /**
+   * Listar todos los integrantes registrados
+   *
+   * @returns AdminResult con los integrantes ordenados por nombre
+   */
+  async listMembers(): Promise<AdminResult<ManagedMember[]>> {
+    try {
+      const supabase = createAdminClient();
+      const members: ManagedMember[] = [];
+
+      for (let page = 1; ; page++) {
+        const { data, error } = await supabase.auth.admin.listUsers({
+          page,
+          perPage: USERS_PER_PAGE,
+        });
+
+        if (error) {
+          return {
+            success: false,
+            error: createAdminError(
+              AdminErrorType.UNKNOWN_ERROR,
+              error.message
+            ),
+          };
+        }
+
+        members.push(...data.users.map(mapManagedMember));
+        if (data.users.length < USERS_PER_PAGE) break;
+      }
+
+      members.sort((a, b) =>
+        (a.fullName ?? a.email).localeCompare(b.fullName ?? b.email)
+      );
+
+      return { success: true, data: members };
+    } catch (error) {
+      console.error("Error en memberAdminRepository.listMembers:", error);
+      return {
+        success: false,
+        error: createAdminError(AdminErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Cambiar el rol de un integrante
+   *
+   * El rol se guarda en app_metadata, así que llega al JWT del usuario
+   * la próxima vez que se refresque su sesión.
+   *
+   * @param userId - Id del integrante
+   * @param role - Nuevo rol
+   * @returns AdminResult con el integrante actualizado
+   */
+  async setRole(
+    userId: string,
+    role: UserRole
+  ): Promise<AdminResult<ManagedMember>> {
+    try {
+      const supabase = createAdminClient();
+      const { data, error } = await supabase.auth.admin.updateUserById(userId, {
+        app_metadata: { role },
+      });
+
+      if (error) {
+        if (error.status === 404) {
+          return {
+            success: false,
+            error: createAdminError(AdminErrorType.NOT_FOUND),
+          };
+        }
+
+        return {
+          success: false,
+          error: createAdminError(AdminErrorType.UNKNOWN_ERROR, error.message),
+        };
+      }
+
+      return { success: true, data: mapManagedMember(data.user) };
+    } catch (error) {
+      console.error("Error en memberAdminRepository.setRole:", error);
+      return {
+        success: false,
+        error: createAdminError(AdminErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+};
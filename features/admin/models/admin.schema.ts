@@ -0,0 +1,31 @@
+import { z } from "zod";
+import type { MessageKey } from "@lib/i18n/translator";
+import { USER_ROLES } from "@features/auth/models/auth.types";
+
+/**
+ * Claves de los mensajes de validación (ver lib/i18n/messages)
+ *
+ * Llegan a la interfaz como `details` del error y se traducen
+ * con getAdminErrorText.
+ */
+const VALIDATION_MESSAGES = {
+  userId: {
+    invalid: "admin.validation.userId.invalid",
+  },
+  role: {
+    invalid: "admin.validation.role.invalid",
+  },
+} satisfies Record<string, Record<string, MessageKey>>;
+
+/**
+ * Schema para cambiar el rol de un integrante
+ */
+export const updateMemberRoleSchema = z.object({
+  userId: z.uuid(VALIDATION_MESSAGES.userId.invalid),
+  role: z.enum(USER_ROLES, VALIDATION_MESSAGES.role.invalid),
+});
+
+/**
+ * Tipos TypeScript inferidos de los schemas
+ */
+export type UpdateMemberRoleInput = z.infer<typeof updateMemberRoleSchema>;
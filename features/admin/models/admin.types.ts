@@ -0,0 +1,89 @@
+import { DEFAULT_LOCALE } from "@lib/i18n/config";
+import {
+  createTranslator,
+  translateText,
+  type I18n,
+  type MessageKey,
+} from "@lib/i18n/translator";
+import type { UserRole } from "@features/auth/models/auth.types";
+
+/**
+ * Integrante tal como lo ve la administración
+ */
+export interface ManagedMember {
+  id: string;
+  email: string;
+  fullName?: string;
+  role: UserRole;
+  createdAt: string;
+  lastSignInAt?: string;
+}
+
+/**
+ * Resultado de operaciones de administración
+ *
+ * Mismo patrón Result que AuthResult
+ */
+export type AdminResult<T = void> =
+  | { success: true; data: T }
+  | { success: false; error: AdminError };
+
+/**
+ * Tipos de errores de administración
+ */
+export enum AdminErrorType {
+  UNAUTHORIZED = "UNAUTHORIZED",
+  FORBIDDEN = "FORBIDDEN",
+  NOT_CONFIGURED = "NOT_CONFIGURED",
+  VALIDATION_ERROR = "VALIDATION_ERROR",
+  CANNOT_CHANGE_OWN_ROLE = "CANNOT_CHANGE_OWN_ROLE",
+  NOT_FOUND = "NOT_FOUND",
+  NETWORK_ERROR = "NETWORK_ERROR",
+  UNKNOWN_ERROR = "UNKNOWN_ERROR",
+}
+
+/**
+ * Error de administración estructurado
+ */
+export interface AdminError {
+  type: AdminErrorType;
+  message: string;
+  details?: string;
+}
+
+/**
+ * Clave del mensaje de cada tipo de error (ver lib/i18n/messages)
+ */
+export function getAdminErrorMessageKey(type: AdminErrorType): MessageKey {
+  return `admin.errors.${type}`;
+}
+
+const defaultT = createTranslator(DEFAULT_LOCALE);
+
+/**
+ * Helper para crear errores de administración
+ *
+ * `message` queda en el idioma por defecto (para logs); la interfaz
+ * muestra el error con getAdminErrorText en el idioma del usuario.
+ */
+export function createAdminError(
+  type: AdminErrorType,
+  details?: string
+): AdminError {
+  return {
+    type,
+    message: defaultT(getAdminErrorMessageKey(type)),
+    details,
+  };
+}
+
+/**
+ * Texto a mostrar para un error de administración
+ *
+ * Usa `details` si lo hay (p. ej. la clave del mensaje de validación).
+ */
+export function getAdminErrorText(error: AdminError, { t }: I18n): string {
+  return error.details
+    ? translateText(t, error.details)
+    : t(getAdminErrorMessageKey(error.type));
+}
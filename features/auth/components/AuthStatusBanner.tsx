@@ -0,0 +1,33 @@
+import { getI18n } from "@lib/i18n/server";
+import { readAuthStatus } from "../controllers/auth.callback";
+
+type Props = {
+  searchParams: Record<string, string | string[] | undefined>;
+};
+
+/**
+ * Aviso que deja /auth/callback al redirigir (`?auth=` / `?auth_error=`)
+ *
+ * No renderiza nada si la URL no trae ninguno de los dos.
+ */
+export async function AuthStatusBanner({ searchParams }: Props) {
+  const { t } = await getI18n();
+  const status = readAuthStatus(searchParams, t);
+  if (!status) return null;
+
+  return status.kind === "error" ? (
+    <p
+      className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700"
+      role="alert"
+    >
+      {status.message}
+    </p>
+  ) : (
+    <p
+      className="rounded-lg border border-emerald-200 bg-emerald-50 p-3 text-sm text-emerald-800"
+      role="status"
+    >
+      {status.message}
+    </p>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { siteConfig } from "@lib/config/site";
+import { useI18n } from "@lib/i18n/client";
+import { changeEmailAction } from "../controllers/auth.actions";
+import { getAuthErrorText } from "../models/auth.types";
+
+type Props = {
+  currentEmail: string;
+};
+
+/**
+ * Cambio de correo con verificación
+ *
+ * El correo no cambia hasta que se abre el enlace que llega a la
+ * dirección nueva.
+ */
+export function ChangeEmailForm({ currentEmail }: Props) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [email, setEmail] = useState("");
+  const [status, setStatus] = useState<{
+    kind: "sent" | "error";
+    message: string;
+  } | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setStatus(null);
+    startTransition(async () => {
+      const result = await changeEmailAction({ email });
+
+      if (result.success) {
+        setEmail("");
+        setStatus({
+          kind: "sent",
+          message: t("auth.forms.changeEmail.sent", {
+            email: result.data.email,
+          }),
+        });
+      } else {
+        setStatus({
+          kind: "error",
+          message: getAuthErrorText(result.error, i18n),
+        });
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+      <p className="text-sm text-slate-600">
+        {t("auth.forms.changeEmail.current")}{" "}
+        <span className="font-medium">{currentEmail}</span>
+      </p>
+      <label className="flex flex-col text-sm">
+        {t("auth.forms.changeEmail.newEmail")}
+        <input
+          type="email"
+          name="email"
+          autoComplete="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder={t("auth.forms.emailPlaceholder", {
+            domain: siteConfig.emailDomain,
+          })}
+          className="mt-1 rounded-md border px-3 py-2"
+        />
+      </label>
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={isPending}
+          className="rounded-md border px-4 py-2 text-sm disabled:opacity-50"
+        >
+          {isPending
+            ? t("auth.forms.changeEmail.pending")
+            : t("auth.forms.changeEmail.submit")}
+        </button>
+      </div>
+      {status && (
+        <p
+          className={`text-sm ${
+            status.kind === "error" ? "text-red-600" : "text-slate-600"
+          }`}
+          role={status.kind === "error" ? "alert" : "status"}
+        >
+          {status.message}
+        </p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useI18n } from "@lib/i18n/client";
+import { changePasswordAction } from "../controllers/auth.actions";
+import { getAuthErrorText } from "../models/auth.types";
+
+const EMPTY_FORM = { currentPassword: "", password: "", confirmPassword: "" };
+
+/**
+ * Cambio de contraseña confirmando la actual
+ */
+export function ChangePasswordForm() {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [values, setValues] = useState(EMPTY_FORM);
+  const [status, setStatus] = useState<{
+    kind: "saved" | "error";
+    message: string;
+  } | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setValues({ ...values, [event.target.name]: event.target.value });
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setStatus(null);
+    startTransition(async () => {
+      const result = await changePasswordAction(values);
+
+      if (result.success) {
+        setValues(EMPTY_FORM);
+        setStatus({
+          kind: "saved",
+          message: t("auth.forms.changePassword.saved"),
+        });
+      } else {
+        setStatus({
+          kind: "error",
+          message: getAuthErrorText(result.error, i18n),
+        });
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+      <label className="flex flex-col text-sm">
+        {t("auth.forms.currentPassword")}
+        <input
+          type="password"
+          name="currentPassword"
+          autoComplete="current-password"
+          required
+          value={values.currentPassword}
+          onChange={handleChange}
+          className="mt-1 rounded-md border px-3 py-2"
+        />
+      </label>
+      <label className="flex flex-col text-sm">
+        {t("auth.forms.newPassword")}
+        <input
+          type="password"
+          name="password"
+          autoComplete="new-password"
+          required
+          minLength={8}
+          value={values.password}
+          onChange={handleChange}
+          className="mt-1 rounded-md border px-3 py-2"
+        />
+      </label>
+      <label className="flex flex-col text-sm">
+        {t("auth.forms.confirmNewPassword")}
+        <input
+          type="password"
+          name="confirmPassword"
+          autoComplete="new-password"
+          required
+          value={values.confirmPassword}
+          onChange={handleChange}
+          className="mt-1 rounded-md border px-3 py-2"
+        />
+      </label>
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={isPending}
+          className="rounded-md border px-4 py-2 text-sm disabled:opacity-50"
+        >
+          {isPending
+            ? t("auth.forms.changePassword.pending")
+            : t("auth.forms.changePassword.submit")}
+        </button>
+      </div>
+      {status && (
+        <p
+          className={`text-sm ${
+            status.kind === "error" ? "text-red-600" : "text-slate-600"
+          }`}
+          role={status.kind === "error" ? "alert" : "status"}
+        >
+          {status.message}
+        </p>
+      )}
+    </form>
+  );
+}
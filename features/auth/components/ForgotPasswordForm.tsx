@@ -0,0 +1,94 @@
+"use client";
+
+import { useActionState, useState } from "react";
+import { siteConfig } from "@lib/config/site";
+import { useI18n } from "@lib/i18n/client";
+import { zodErrorMap } from "@lib/i18n/zod";
+import { Button } from "@shared/ui/Button";
+import { FormField, getFieldErrors, type FieldErrors } from "@shared/ui/Form";
+import { Input } from "@shared/ui/Input";
+import { readFormValues } from "@shared/utils/validators";
+import { requestPasswordResetAction } from "../controllers/auth.actions";
+import {
+  forgotPasswordSchema,
+  type ForgotPasswordInput,
+} from "../models/auth.schema";
+import { createAuthFormState, getAuthErrorText } from "../models/auth.types";
+
+/**
+ * Pedir el enlace para restablecer la contraseña
+ */
+export function ForgotPasswordForm() {
+  const i18n = useI18n();
+  const { t, locale } = i18n;
+  const [state, formAction, isPending] = useActionState(
+    requestPasswordResetAction,
+    createAuthFormState<ForgotPasswordInput>()
+  );
+  const [clientErrors, setClientErrors] =
+    useState<FieldErrors<ForgotPasswordInput> | null>(null);
+  const errors = clientErrors ?? state.fieldErrors;
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    const parsed = forgotPasswordSchema.safeParse(
+      readFormValues(
+        new FormData(event.currentTarget),
+        forgotPasswordSchema.shape
+      ),
+      { error: zodErrorMap(locale) }
+    );
+    if (parsed.success) {
+      setClientErrors(null);
+      return;
+    }
+    event.preventDefault();
+    setClientErrors(getFieldErrors(parsed.error, t));
+  };
+
+  return (
+    <form
+      action={formAction}
+      onSubmit={handleSubmit}
+      noValidate
+      className="flex flex-col gap-4"
+    >
+      <FormField
+        label={t("auth.forms.email")}
+        name="email"
+        error={errors.email}
+        required
+      >
+        {(field) => (
+          <Input
+            {...field}
+            type="email"
+            autoComplete="email"
+            defaultValue={state.values.email}
+            placeholder={t("auth.forms.emailPlaceholder", {
+              domain: siteConfig.emailDomain,
+            })}
+          />
+        )}
+      </FormField>
+
+      {state.error && (
+        <p className="text-sm text-red-700 dark:text-red-400" role="alert">
+          {getAuthErrorText(state.error, i18n)}
+        </p>
+      )}
+      {state.notice && (
+        <p className="text-sm text-slate-700 dark:text-slate-200" role="status">
+          {state.notice}
+        </p>
+      )}
+
+      <Button
+        type="submit"
+        loading={isPending}
+        loadingText={t("auth.forms.forgot.pending")}
+      >
+        {t("auth.forms.forgot.submit")}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useActionState, useState } from "react";
+import { siteConfig } from "@lib/config/site";
+import { useI18n } from "@lib/i18n/client";
+import { zodErrorMap } from "@lib/i18n/zod";
+import { Button } from "@shared/ui/Button";
+import { FormField, getFieldErrors, type FieldErrors } from "@shared/ui/Form";
+import { Input } from "@shared/ui/Input";
+import { readFormValues } from "@shared/utils/validators";
+import { signInAction } from "../controllers/auth.actions";
+import { loginSchema, type LoginInput } from "../models/auth.schema";
+import { createAuthFormState, getAuthErrorText } from "../models/auth.types";
+
+type Props = {
+  // Ruta a la que volver después de iniciar sesión
+  next?: string;
+};
+
+/**
+ * Inicio de sesión con correo y contraseña
+ *
+ * Con JavaScript valida con loginSchema antes de enviar; sin él, el
+ * formulario se envía igual y signInAction devuelve los mismos
+ * errores por campo.
+ */
+export function LoginForm({ next }: Props) {
+  const i18n = useI18n();
+  const { t, locale } = i18n;
+  const [state, formAction, isPending] = useActionState(
+    signInAction,
+    createAuthFormState<LoginInput>()
+  );
+  const [clientErrors, setClientErrors] =
+    useState<FieldErrors<LoginInput> | null>(null);
+  const errors = clientErrors ?? state.fieldErrors;
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    const parsed = loginSchema.safeParse(
+      readFormValues(new FormData(event.currentTarget), loginSchema.shape),
+      { error: zodErrorMap(locale) }
+    );
+    if (parsed.success) {
+      setClientErrors(null);
+      return;
+    }
+    event.preventDefault();
+    setClientErrors(getFieldErrors(parsed.error, t));
+  };
+
+  return (
+    <form
+      action={formAction}
+      onSubmit={handleSubmit}
+      noValidate
+      className="flex flex-col gap-4"
+    >
+      {next && <input type="hidden" name="next" value={next} />}
+
+      <FormField
+        label={t("auth.forms.email")}
+        name="email"
+        error={errors.email}
+        required
+      >
+        {(field) => (
+          <Input
+            {...field}
+            type="email"
+            autoComplete="email"
+            defaultValue={state.values.email}
+            placeholder={t("auth.forms.emailPlaceholder", {
+              domain: siteConfig.emailDomain,
+            })}
+          />
+        )}
+      </FormField>
+
+      <FormField
+        label={t("auth.forms.password")}
+        name="password"
+        error={errors.password}
+        required
+      >
+        {(field) => (
+          <Input {...field} type="password" autoComplete="current-password" />
+        )}
+      </FormField>
+
+      {state.error && (
+        <p className="text-sm text-red-700 dark:text-red-400" role="alert">
+          {getAuthErrorText(state.error, i18n)}
+        </p>
+      )}
+
+      <Button
+        type="submit"
+        loading={isPending}
+        loadingText={t("auth.forms.login.pending")}
+      >
+        {t("auth.forms.login.submit")}
+      </Button>
+    </form>
+  );
+}
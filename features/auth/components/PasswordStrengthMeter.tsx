@@ -0,0 +1,81 @@
+"use client";
+
+import { useI18n } from "@lib/i18n/client";
+import { PASSWORD_REQUIREMENTS } from "../models/auth.schema";
+
+type Props = {
+  password: string;
+};
+
+/**
+ * Largo a partir del cual una contraseña válida se considera fuerte
+ */
+const STRONG_LENGTH = 12;
+
+/**
+ * Medidor de seguridad de la contraseña
+ *
+ * Muestra los mismos requisitos que exige passwordSchema: solo una
+ * contraseña que los cumple todos pasa de "Débil". Con
+ * STRONG_LENGTH caracteres o más llega a "Fuerte".
+ */
+export function PasswordStrengthMeter({ password }: Props) {
+  const { t } = useI18n();
+  const met = PASSWORD_REQUIREMENTS.map(({ test }) => test(password));
+  const metCount = met.filter(Boolean).length;
+  const isValid = metCount === PASSWORD_REQUIREMENTS.length;
+  const isLong = password.length >= STRONG_LENGTH;
+
+  const level = !password
+    ? "empty"
+    : !isValid
+    ? "weak"
+    : isLong
+    ? "strong"
+    : "fair";
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-3">
+        <meter
+          min={0}
+          max={PASSWORD_REQUIREMENTS.length + 1}
+          low={PASSWORD_REQUIREMENTS.length}
+          high={PASSWORD_REQUIREMENTS.length + 0.5}
+          optimum={PASSWORD_REQUIREMENTS.length + 1}
+          value={metCount + (isValid && isLong ? 1 : 0)}
+          aria-label={t("auth.forms.strength.label")}
+          className="h-2 flex-1"
+        />
+        <span aria-live="polite" className="min-w-20 text-right">
+          {t(`auth.forms.strength.levels.${level}`)}
+        </span>
+      </div>
+      <ul className="grid grid-cols-2 gap-1">
+        {PASSWORD_REQUIREMENTS.map(({ id, label }, index) => (
+          <li
+            key={id}
+            className={
+              met[index]
+                ? "text-emerald-800 dark:text-emerald-300"
+                : "text-slate-600 dark:text-slate-300"
+            }
+          >
+            <span aria-hidden="true">{met[index] ? "✓" : "○"} </span>
+            {t(label)}
+            <span className="sr-only">
+              {" "}
+              (
+              {t(
+                met[index]
+                  ? "auth.forms.strength.met"
+                  : "auth.forms.strength.unmet"
+              )}
+              )
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { siteConfig } from "@lib/config/site";
+import { useI18n } from "@lib/i18n/client";
+import { requestSignInCodeAction } from "../controllers/auth.actions";
+import { AuthErrorType, getAuthErrorText } from "../models/auth.types";
+
+type Props = {
+  next?: string;
+};
+
+/**
+ * Construye el enlace a /verify para ingresar el código
+ */
+function buildVerifyHref(email: string, next?: string) {
+  const params = new URLSearchParams({ email });
+  if (next) params.set("next", next);
+  return `${siteConfig.routes.verify}?${params}`;
+}
+
+/**
+ * Acceso sin contraseña
+ *
+ * Envía al correo un enlace y un código de 6 dígitos, y lleva a
+ * /verify para escribir el código (o esperar a abrir el enlace).
+ */
+export function PasswordlessSignInForm({ next }: Props) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      const result = await requestSignInCodeAction({ email });
+
+      if (result.success) {
+        router.push(buildVerifyHref(result.data.email, next));
+      } else if (result.error.type === AuthErrorType.OTP_RESEND_THROTTLED) {
+        // Ya hay un código en camino: se puede usar ese
+        router.push(buildVerifyHref(email.trim().toLowerCase(), next));
+      } else {
+        setError(getAuthErrorText(result.error, i18n));
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+      <label className="flex flex-col text-sm">
+        {t("auth.forms.email")}
+        <input
+          type="email"
+          name="email"
+          autoComplete="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder={t("auth.forms.emailPlaceholder", {
+            domain: siteConfig.emailDomain,
+          })}
+          className="mt-1 rounded-md border px-3 py-2"
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={isPending}
+        className="rounded-md border px-4 py-2 text-sm disabled:opacity-50"
+      >
+        {isPending
+          ? t("auth.forms.passwordless.pending")
+          : t("auth.forms.passwordless.submit")}
+      </button>
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
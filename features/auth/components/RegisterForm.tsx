@@ -0,0 +1,140 @@
+"use client";
+
+import { useActionState, useState } from "react";
+import { siteConfig } from "@lib/config/site";
+import { useI18n } from "@lib/i18n/client";
+import { zodErrorMap } from "@lib/i18n/zod";
+import { Button } from "@shared/ui/Button";
+import { FormField, getFieldErrors, type FieldErrors } from "@shared/ui/Form";
+import { Input } from "@shared/ui/Input";
+import { readFormValues } from "@shared/utils/validators";
+import { signUpAction } from "../controllers/auth.actions";
+import { registerSchema, type RegisterInput } from "../models/auth.schema";
+import { createAuthFormState, getAuthErrorText } from "../models/auth.types";
+import { PasswordStrengthMeter } from "./PasswordStrengthMeter";
+
+/**
+ * Registro con correo institucional
+ *
+ * Valida con registerSchema en el navegador y en signUpAction. Las
+ * contraseñas no vuelven del servidor: con JavaScript se conservan
+ * en el estado del formulario; sin él hay que escribirlas de nuevo.
+ */
+export function RegisterForm() {
+  const i18n = useI18n();
+  const { t, locale } = i18n;
+  const [state, formAction, isPending] = useActionState(
+    signUpAction,
+    createAuthFormState<RegisterInput>()
+  );
+  const [clientErrors, setClientErrors] =
+    useState<FieldErrors<RegisterInput> | null>(null);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const errors = clientErrors ?? state.fieldErrors;
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    const parsed = registerSchema.safeParse(
+      readFormValues(new FormData(event.currentTarget), registerSchema.shape),
+      { error: zodErrorMap(locale) }
+    );
+    if (parsed.success) {
+      setClientErrors(null);
+      return;
+    }
+    event.preventDefault();
+    setClientErrors(getFieldErrors(parsed.error, t));
+  };
+
+  return (
+    <form
+      action={formAction}
+      onSubmit={handleSubmit}
+      noValidate
+      className="flex flex-col gap-4"
+    >
+      <FormField
+        label={t("auth.forms.fullName")}
+        name="fullName"
+        error={errors.fullName}
+        required
+      >
+        {(field) => (
+          <Input
+            {...field}
+            autoComplete="name"
+            defaultValue={state.values.fullName}
+          />
+        )}
+      </FormField>
+
+      <FormField
+        label={t("auth.forms.email")}
+        name="email"
+        error={errors.email}
+        required
+      >
+        {(field) => (
+          <Input
+            {...field}
+            type="email"
+            autoComplete="email"
+            defaultValue={state.values.email}
+            placeholder={t("auth.forms.emailPlaceholder", {
+              domain: siteConfig.emailDomain,
+            })}
+          />
+        )}
+      </FormField>
+
+      <FormField
+        label={t("auth.forms.password")}
+        name="password"
+        error={errors.password}
+        hint={<PasswordStrengthMeter password={password} />}
+        required
+      >
+        {(field) => (
+          <Input
+            {...field}
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        )}
+      </FormField>
+
+      <FormField
+        label={t("auth.forms.confirmPassword")}
+        name="confirmPassword"
+        error={errors.confirmPassword}
+        required
+      >
+        {(field) => (
+          <Input
+            {...field}
+            type="password"
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+          />
+        )}
+      </FormField>
+
+      {state.error && (
+        <p className="text-sm text-red-700 dark:text-red-400" role="alert">
+          {getAuthErrorText(state.error, i18n)}
+        </p>
+      )}
+
+      <Button
+        type="submit"
+        loading={isPending}
+        loadingText={t("auth.forms.register.pending")}
+      >
+        {t("auth.forms.register.submit")}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useActionState, useState } from "react";
+import { useI18n } from "@lib/i18n/client";
+import { zodErrorMap } from "@lib/i18n/zod";
+import { Button } from "@shared/ui/Button";
+import { FormField, getFieldErrors, type FieldErrors } from "@shared/ui/Form";
+import { Input } from "@shared/ui/Input";
+import { readFormValues } from "@shared/utils/validators";
+import { resetPasswordAction } from "../controllers/auth.actions";
+import {
+  resetPasswordSchema,
+  type ResetPasswordInput,
+} from "../models/auth.schema";
+import { createAuthFormState, getAuthErrorText } from "../models/auth.types";
+import { PasswordStrengthMeter } from "./PasswordStrengthMeter";
+
+/**
+ * Crear la contraseña nueva después de abrir el enlace de recuperación
+ *
+ * Valida con resetPasswordSchema en el navegador y en
+ * resetPasswordAction, que al terminar redirige a /home.
+ */
+export function ResetPassword() {
+  const i18n = useI18n();
+  const { t, locale } = i18n;
+  const [state, formAction, isPending] = useActionState(
+    resetPasswordAction,
+    createAuthFormState<ResetPasswordInput>()
+  );
+  const [clientErrors, setClientErrors] =
+    useState<FieldErrors<ResetPasswordInput> | null>(null);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const errors = clientErrors ?? state.fieldErrors;
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    const parsed = resetPasswordSchema.safeParse(
+      readFormValues(
+        new FormData(event.currentTarget),
+        resetPasswordSchema.shape
+      ),
+      { error: zodErrorMap(locale) }
+    );
+    if (parsed.success) {
+      setClientErrors(null);
+      return;
+    }
+    event.preventDefault();
+    setClientErrors(getFieldErrors(parsed.error, t));
+  };
+
+  return (
+    <form
+      action={formAction}
+      onSubmit={handleSubmit}
+      noValidate
+      className="flex flex-col gap-4"
+    >
+      <FormField
+        label={t("auth.forms.newPassword")}
+        name="password"
+        error={errors.password}
+        hint={<PasswordStrengthMeter password={password} />}
+        required
+      >
+        {(field) => (
+          <Input
+            {...field}
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        )}
+      </FormField>
+
+      <FormField
+        label={t("auth.forms.confirmPassword")}
+        name="confirmPassword"
+        error={errors.confirmPassword}
+        required
+      >
+        {(field) => (
+          <Input
+            {...field}
+            type="password"
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+          />
+        )}
+      </FormField>
+
+      {state.error && (
+        <p className="text-sm text-red-700 dark:text-red-400" role="alert">
+          {getAuthErrorText(state.error, i18n)}
+        </p>
+      )}
+
+      <Button
+        type="submit"
+        loading={isPending}
+        loadingText={t("auth.forms.reset.pending")}
+      >
+        {t("auth.forms.reset.submit")}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { siteConfig } from "@lib/config/site";
+import { useI18n } from "@lib/i18n/client";
+import {
+  requestSignInCodeAction,
+  verifySignInCodeAction,
+} from "../controllers/auth.actions";
+import { getAuthErrorText } from "../models/auth.types";
+
+type Props = {
+  email?: string;
+  next?: string;
+};
+
+/**
+ * Ingreso manual del código de 6 dígitos
+ *
+ * Permite reenviar el código, con una espera entre envíos que
+ * también aplica el servidor.
+ */
+export function VerifyCodeForm({ email: initialEmail, next }: Props) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const router = useRouter();
+  const [email, setEmail] = useState(initialEmail ?? "");
+  const [token, setToken] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Si llega con correo, el código se acaba de enviar
+  const [resendIn, setResendIn] = useState(
+    initialEmail ? siteConfig.auth.otpResendCooldownSeconds : 0
+  );
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timeout = setTimeout(() => setResendIn((value) => value - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [resendIn]);
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setNotice(null);
+    startTransition(async () => {
+      const result = await verifySignInCodeAction({ email, token, next });
+
+      if (result.success) {
+        router.replace(result.data.redirectTo);
+        router.refresh();
+      } else {
+        setError(getAuthErrorText(result.error, i18n));
+      }
+    });
+  };
+
+  const handleResend = () => {
+    setError(null);
+    setNotice(null);
+    startTransition(async () => {
+      const result = await requestSignInCodeAction({ email });
+
+      if (result.success) {
+        setToken("");
+        setResendIn(result.data.resendAfterSeconds);
+        setNotice(t("auth.forms.verifyCode.resent"));
+      } else {
+        setResendIn(result.error.retryAfterSeconds ?? 0);
+        setError(getAuthErrorText(result.error, i18n));
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3 text-left">
+      {!initialEmail && (
+        <label className="flex flex-col text-sm">
+          {t("auth.forms.email")}
+          <input
+            type="email"
+            name="email"
+            autoComplete="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="mt-1 rounded-md border px-3 py-2"
+          />
+        </label>
+      )}
+      <label className="flex flex-col text-sm">
+        {t("auth.forms.verifyCode.code")}
+        <input
+          type="text"
+          name="token"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          pattern="\d{6}"
+          maxLength={6}
+          required
+          value={token}
+          onChange={(e) => setToken(e.target.value.replace(/\D/g, ""))}
+          className="mt-1 rounded-md border px-3 py-2 text-center font-mono text-lg tracking-[0.5em]"
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={isPending || token.length !== 6}
+        className="rounded-md bg-slate-900 px-4 py-2 text-sm text-white disabled:opacity-50"
+      >
+        {t("auth.forms.verifyCode.submit")}
+      </button>
+      <button
+        type="button"
+        onClick={handleResend}
+        disabled={isPending || resendIn > 0 || !email}
+        className="text-sm underline disabled:no-underline disabled:opacity-50"
+      >
+        {resendIn > 0
+          ? t("auth.forms.verifyCode.resendIn", { seconds: resendIn })
+          : t("auth.forms.verifyCode.resend")}
+      </button>
+      <p className="min-h-5 text-sm" role="status" aria-live="polite">
+        {notice}
+      </p>
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useEffect, useRef, useState, useTransition } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { siteConfig } from "@lib/config/site";
+import { useI18n } from "@lib/i18n/client";
+import { verifySignInLinkAction } from "../controllers/auth.actions";
+import type { SignInLinkInput } from "../models/auth.schema";
+import { getAuthErrorMessageKey } from "../models/auth.types";
+
+type Props = SignInLinkInput & {
+  next?: string;
+};
+
+/**
+ * Confirma el enlace recibido por correo al abrir /verify
+ *
+ * La verificación corre desde el navegador (no al renderizar la página)
+ * para que los escáneres de enlaces del correo no la consuman.
+ */
+export function VerifyLinkConfirm({ tokenHash, type, next }: Props) {
+  const { t } = useI18n();
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    // Un enlace solo se puede usar una vez
+    if (startedRef.current) return;
+    startedRef.current = true;
+
+    startTransition(async () => {
+      const result = await verifySignInLinkAction({ tokenHash, type, next });
+
+      if (result.success) {
+        router.replace(result.data.redirectTo);
+        router.refresh();
+      } else {
+        setError(t(getAuthErrorMessageKey(result.error.type)));
+      }
+    });
+  }, [tokenHash, type, next, router, t]);
+
+  if (error) {
+    return (
+      <div className="flex flex-col gap-4">
+        <p className="text-red-600" role="alert">
+          {error}
+        </p>
+        <Link href={siteConfig.routes.login} className="text-sm underline">
+          {t("auth.forms.reset.requestNew")}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <p className="text-slate-600" role="status" aria-live="polite">
+      {isPending
+        ? t("auth.forms.verify.linkPending")
+        : t("auth.forms.verify.linkDone")}
+    </p>
+  );
+}
@@ -0,0 +1,449 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { siteConfig } from "@lib/config/site";
+import { getSafeRedirectPath } from "@lib/auth/utils";
+import { getCurrentUser } from "@lib/auth/session";
+import { getI18n } from "@lib/i18n/server";
+import { getZodErrorText, zodErrorMap } from "@lib/i18n/zod";
+import { getFieldErrors } from "@shared/ui/Form/form-errors";
+import { readFormValues } from "@shared/utils/validators";
+import { authRepository } from "../models/auth.repository";
+import {
+  changeEmailSchema,
+  changePasswordSchema,
+  forgotPasswordSchema,
+  loginSchema,
+  registerSchema,
+  resetPasswordSchema,
+  signInCodeRequestSchema,
+  signInCodeSchema,
+  signInLinkSchema,
+  type ChangeEmailInput,
+  type ChangePasswordInput,
+  type ForgotPasswordInput,
+  type LoginInput,
+  type RegisterInput,
+  type ResetPasswordInput,
+  type SignInCodeInput,
+  type SignInCodeRequestInput,
+  type SignInLinkInput,
+} from "../models/auth.schema";
+import {
+  AuthErrorType,
+  createAuthError,
+  type AuthFormState,
+  type AuthResult,
+} from "../models/auth.types";
+import { authService } from "./auth.service";
+
+/**
+ * Server Actions de autenticación
+ */
+
+/**
+ * Cookie con el momento y el correo del último código pedido
+ * en este navegador (formato `<ms>|<email>`)
+ *
+ * Sirve para limitar los reenvíos y para distinguir un código
+ * vencido de uno ya usado o mal escrito.
+ */
+const OTP_COOKIE = "hi_mt_otp_requested";
+
+async function readOtpRequest(): Promise<{
+  requestedAt: number;
+  email: string;
+} | null> {
+  const value = (await cookies()).get(OTP_COOKIE)?.value;
+  const [requestedAt, email] = value?.split("|") ?? [];
+  return requestedAt && email
+    ? { requestedAt: Number(requestedAt), email }
+    : null;
+}
+
+/**
+ * Campos que nunca se devuelven en AuthFormState.values
+ */
+const SECRET_FIELDS: readonly string[] = [
+  "password",
+  "confirmPassword",
+  "currentPassword",
+];
+
+function withoutSecrets<T extends Record<string, string>>(
+  values: T
+): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([field]) => !SECRET_FIELDS.includes(field))
+  ) as Partial<T>;
+}
+
+function verifyPath(email: string): string {
+  return `${siteConfig.routes.verify}?email=${encodeURIComponent(email)}`;
+}
+
+/**
+ * Cerrar sesión y volver al login
+ *
+ * Pensada para usarse directamente como `action` de un <form>
+ */
+export async function signOutAction(): Promise<void> {
+  await authRepository.signOut();
+  redirect(siteConfig.routes.login);
+}
+
+/**
+ * Pedir un enlace y código de acceso por correo
+ *
+ * Entre dos envíos desde el mismo navegador deben pasar al menos
+ * `otpResendCooldownSeconds` (Supabase además limita por correo).
+ */
+export async function requestSignInCodeAction(
+  input: SignInCodeRequestInput
+): Promise<AuthResult<{ email: string; resendAfterSeconds: number }>> {
+  const i18n = await getI18n();
+  const parsed = signInCodeRequestSchema.safeParse(input, {
+    error: zodErrorMap(i18n.locale),
+  });
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createAuthError(
+        AuthErrorType.UNKNOWN_ERROR,
+        getZodErrorText(parsed.error, i18n)
+      ),
+    };
+  }
+
+  const cooldown = siteConfig.auth.otpResendCooldownSeconds;
+  const previous = await readOtpRequest();
+  if (previous) {
+    const elapsed = Math.floor((Date.now() - previous.requestedAt) / 1000);
+    if (elapsed < cooldown) {
+      return {
+        success: false,
+        error: createAuthError(
+          AuthErrorType.OTP_RESEND_THROTTLED,
+          undefined,
+          cooldown - elapsed
+        ),
+      };
+    }
+  }
+
+  const email = parsed.data.email.toLowerCase();
+  const result = await authService.requestSignInCode(email);
+  if (!result.success) return result;
+
+  (await cookies()).set(OTP_COOKIE, `${Date.now()}|${email}`, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: siteConfig.auth.otpExpiresInMinutes * 60,
+  });
+
+  return { success: true, data: { email, resendAfterSeconds: cooldown } };
+}
+
+/**
+ * Iniciar sesión con el código de 6 dígitos
+ *
+ * @returns La ruta a la que ir después (respeta `next` si es segura)
+ */
+export async function verifySignInCodeAction(
+  input: SignInCodeInput & { next?: string }
+): Promise<AuthResult<{ redirectTo: string }>> {
+  const i18n = await getI18n();
+  const parsed = signInCodeSchema.safeParse(input, {
+    error: zodErrorMap(i18n.locale),
+  });
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createAuthError(
+        AuthErrorType.OTP_INVALID,
+        getZodErrorText(parsed.error, i18n)
+      ),
+    };
+  }
+
+  const email = parsed.data.email.toLowerCase();
+  const previous = await readOtpRequest();
+  const result = await authService.verifySignInCode(
+    email,
+    parsed.data.token,
+    previous?.email === email ? previous.requestedAt : undefined
+  );
+  if (!result.success) return result;
+
+  (await cookies()).delete(OTP_COOKIE);
+  return {
+    success: true,
+    data: { redirectTo: getSafeRedirectPath(input.next) },
+  };
+}
+
+/**
+ * Iniciar sesión (o confirmar el correo) con el enlace del correo
+ *
+ * /verify la llama desde el navegador en lugar de verificar al cargar
+ * la página: así los antivirus de correo que abren los enlaces por
+ * adelantado no gastan el enlace antes que el usuario.
+ */
+export async function verifySignInLinkAction(
+  input: SignInLinkInput & { next?: string }
+): Promise<AuthResult<{ redirectTo: string }>> {
+  const parsed = signInLinkSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createAuthError(AuthErrorType.INVALID_TOKEN),
+    };
+  }
+
+  const previous = await readOtpRequest();
+  const result = await authService.verifySignInLink(
+    parsed.data.tokenHash,
+    parsed.data.type,
+    previous?.requestedAt
+  );
+  if (!result.success) return result;
+
+  (await cookies()).delete(OTP_COOKIE);
+  return {
+    success: true,
+    data: { redirectTo: getSafeRedirectPath(input.next) },
+  };
+}
+
+/**
+ * Pedir el cambio de correo desde /settings
+ *
+ * Supabase envía un enlace de confirmación; al abrirlo, /auth/callback
+ * vuelve a /settings con el aviso del cambio.
+ */
+export async function changeEmailAction(
+  input: ChangeEmailInput
+): Promise<AuthResult<{ email: string }>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createAuthError(AuthErrorType.SESSION_EXPIRED),
+    };
+  }
+
+  const i18n = await getI18n();
+  const parsed = changeEmailSchema.safeParse(input, {
+    error: zodErrorMap(i18n.locale),
+  });
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createAuthError(
+        AuthErrorType.UNKNOWN_ERROR,
+        getZodErrorText(parsed.error, i18n)
+      ),
+    };
+  }
+
+  const email = parsed.data.email.toLowerCase();
+  const result = await authService.changeEmail(user, email);
+  if (!result.success) return result;
+
+  return { success: true, data: { email } };
+}
+
+/**
+ * Cambiar la contraseña desde /settings (pide la actual)
+ */
+export async function changePasswordAction(
+  input: ChangePasswordInput
+): Promise<AuthResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createAuthError(AuthErrorType.SESSION_EXPIRED),
+    };
+  }
+
+  const i18n = await getI18n();
+  const parsed = changePasswordSchema.safeParse(input, {
+    error: zodErrorMap(i18n.locale),
+  });
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createAuthError(
+        AuthErrorType.UNKNOWN_ERROR,
+        getZodErrorText(parsed.error, i18n)
+      ),
+    };
+  }
+
+  return authService.changePassword(
+    user,
+    parsed.data.currentPassword,
+    parsed.data.password
+  );
+}
+
+/**
+ * Acciones de los formularios de login, registro y recuperación
+ *
+ * Reciben el FormData del <form> (funcionan sin JavaScript con
+ * useActionState) y validan con los mismos schemas que el
+ * formulario usa en el navegador. Si algo falla devuelven los
+ * errores por campo y los valores escritos, sin las contraseñas.
+ */
+
+/**
+ * Iniciar sesión con correo y contraseña
+ *
+ * Redirige a `next` (si es seguro) o a /verify si falta confirmar
+ * el correo.
+ */
+export async function signInAction(
+  _state: AuthFormState<LoginInput>,
+  formData: FormData
+): Promise<AuthFormState<LoginInput>> {
+  const i18n = await getI18n();
+  const values = readFormValues(formData, loginSchema.shape);
+  const parsed = loginSchema.safeParse(values, {
+    error: zodErrorMap(i18n.locale),
+  });
+  if (!parsed.success) {
+    return {
+      values: withoutSecrets(values),
+      fieldErrors: getFieldErrors(parsed.error, i18n.t),
+    };
+  }
+
+  const email = parsed.data.email.toLowerCase();
+  const result = await authService.signInWithPassword(
+    email,
+    parsed.data.password
+  );
+  if (!result.success) {
+    if (result.error.type === AuthErrorType.EMAIL_NOT_VERIFIED) {
+      redirect(verifyPath(email));
+    }
+    return {
+      values: withoutSecrets(values),
+      fieldErrors: {},
+      error: result.error,
+    };
+  }
+
+  const next = formData.get("next");
+  redirect(getSafeRedirectPath(typeof next === "string" ? next : undefined));
+}
+
+/**
+ * Crear una cuenta
+ *
+ * Si Supabase pide confirmar el correo, redirige a /verify; si ya
+ * abrió sesión, a /home.
+ */
+export async function signUpAction(
+  _state: AuthFormState<RegisterInput>,
+  formData: FormData
+): Promise<AuthFormState<RegisterInput>> {
+  const i18n = await getI18n();
+  const values = readFormValues(formData, registerSchema.shape);
+  const parsed = registerSchema.safeParse(values, {
+    error: zodErrorMap(i18n.locale),
+  });
+  if (!parsed.success) {
+    return {
+      values: withoutSecrets(values),
+      fieldErrors: getFieldErrors(parsed.error, i18n.t),
+    };
+  }
+
+  const email = parsed.data.email.toLowerCase();
+  const result = await authService.signUp(
+    email,
+    parsed.data.password,
+    parsed.data.fullName
+  );
+  if (!result.success) {
+    return {
+      values: withoutSecrets(values),
+      fieldErrors: {},
+      error: result.error,
+    };
+  }
+
+  redirect(result.data ? siteConfig.routes.home : verifyPath(email));
+}
+
+/**
+ * Pedir el enlace para restablecer la contraseña
+ *
+ * El aviso es el mismo exista o no la cuenta, para no revelar
+ * qué correos están registrados.
+ */
+export async function requestPasswordResetAction(
+  _state: AuthFormState<ForgotPasswordInput>,
+  formData: FormData
+): Promise<AuthFormState<ForgotPasswordInput>> {
+  const i18n = await getI18n();
+  const values = readFormValues(formData, forgotPasswordSchema.shape);
+  const parsed = forgotPasswordSchema.safeParse(values, {
+    error: zodErrorMap(i18n.locale),
+  });
+  if (!parsed.success) {
+    return {
+      values,
+      fieldErrors: getFieldErrors(parsed.error, i18n.t),
+    };
+  }
+
+  const email = parsed.data.email.toLowerCase();
+  const result = await authService.resetPasswordRequest(email);
+  if (!result.success) {
+    return { values, fieldErrors: {}, error: result.error };
+  }
+
+  return {
+    values: {},
+    fieldErrors: {},
+    notice: i18n.t("auth.forms.forgot.sent", { email }),
+  };
+}
+
+/**
+ * Guardar la contraseña nueva (enlace de recuperación)
+ *
+ * Necesita la sesión de recuperación que abre /auth/callback.
+ */
+export async function resetPasswordAction(
+  _state: AuthFormState<ResetPasswordInput>,
+  formData: FormData
+): Promise<AuthFormState<ResetPasswordInput>> {
+  const i18n = await getI18n();
+  const values = readFormValues(formData, resetPasswordSchema.shape);
+  const parsed = resetPasswordSchema.safeParse(values, {
+    error: zodErrorMap(i18n.locale),
+  });
+  if (!parsed.success) {
+    return {
+      values: {},
+      fieldErrors: getFieldErrors(parsed.error, i18n.t),
+    };
+  }
+
+  const result = await authService.resetPassword(
+    await getCurrentUser(),
+    parsed.data.password
+  );
+  if (!result.success) {
+    return { values: {}, fieldErrors: {}, error: result.error };
+  }
+
+  redirect(`${siteConfig.routes.home}?auth=password_updated`);
+}
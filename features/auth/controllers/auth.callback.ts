@@ -0,0 +1,141 @@
+import { getSafeRedirectPath } from "@lib/auth/utils";
+import { siteConfig } from "@lib/config/site";
+import type { Translator } from "@lib/i18n/translator";
+import { authRepository } from "../models/auth.repository";
+import {
+  authCallbackParamsSchema,
+  authStatusParamsSchema,
+  type AuthCallbackParams,
+} from "../models/auth.schema";
+import {
+  AuthErrorType,
+  getAuthErrorMessageKey,
+  getAuthNoticeMessageKey,
+  type AuthCallbackFlow,
+  type AuthNotice,
+} from "../models/auth.types";
+
+/**
+ * Destino de cada flujo de /auth/callback
+ *
+ * - success: a dónde ir con la sesión ya creada (si no hay `next`)
+ * - failure: a dónde ir si el enlace no sirve
+ * - notice: aviso que se muestra al llegar
+ * - allowNext: si se respeta el `next` del enlace
+ */
+type AuthCallbackTarget = {
+  success: string;
+  failure: string;
+  notice: AuthNotice;
+  allowNext: boolean;
+};
+
+const AUTH_CALLBACK_TARGETS: Record<AuthCallbackFlow, AuthCallbackTarget> = {
+  signup: {
+    success: siteConfig.routes.home,
+    failure: siteConfig.routes.login,
+    notice: "email_confirmed",
+    allowNext: true,
+  },
+  // La sesión de recuperación solo sirve para cambiar la contraseña
+  recovery: {
+    success: siteConfig.routes.resetPassword,
+    failure: siteConfig.routes.forgotPassword,
+    notice: "password_recovery",
+    allowNext: false,
+  },
+  email_change: {
+    success: siteConfig.routes.settings,
+    failure: siteConfig.routes.settings,
+    notice: "email_changed",
+    allowNext: false,
+  },
+  magiclink: {
+    success: siteConfig.routes.home,
+    failure: siteConfig.routes.login,
+    notice: "signed_in",
+    allowNext: true,
+  },
+};
+
+/**
+ * Errores de Supabase (`error_code`) que tienen un tipo propio
+ */
+const CALLBACK_ERROR_CODES: Record<string, AuthErrorType> = {
+  otp_expired: AuthErrorType.OTP_EXPIRED,
+  access_denied: AuthErrorType.INVALID_TOKEN,
+};
+
+/**
+ * Agrega un parámetro a la query de una ruta (antes del hash, si hay)
+ */
+function withParam(path: string, key: string, value: string): string {
+  const hashIndex = path.indexOf("#");
+  const [base, hash] =
+    hashIndex === -1
+      ? [path, ""]
+      : [path.slice(0, hashIndex), path.slice(hashIndex)];
+  const separator = base.includes("?") ? "&" : "?";
+  return `${base}${separator}${key}=${encodeURIComponent(value)}${hash}`;
+}
+
+/**
+ * Canjea el código de un enlace de correo y decide a dónde redirigir
+ *
+ * Devuelve siempre una ruta interna: con `?auth=<aviso>` si se creó
+ * la sesión o con `?auth_error=<AuthErrorType>` si no.
+ *
+ * @param searchParams - Parámetros de la URL del callback
+ * @returns Ruta interna de destino
+ */
+export async function resolveAuthCallback(
+  searchParams: URLSearchParams
+): Promise<string> {
+  const params: AuthCallbackParams = authCallbackParamsSchema.parse(
+    Object.fromEntries(searchParams)
+  );
+  const target = AUTH_CALLBACK_TARGETS[params.flow];
+
+  if (!params.code) {
+    const errorType =
+      (params.error_code && CALLBACK_ERROR_CODES[params.error_code]) ||
+      AuthErrorType.INVALID_TOKEN;
+    return withParam(target.failure, "auth_error", errorType);
+  }
+
+  const result = await authRepository.exchangeCodeForSession(params.code);
+  if (!result.success) {
+    return withParam(target.failure, "auth_error", result.error.type);
+  }
+
+  const destination =
+    target.allowNext && params.next
+      ? getSafeRedirectPath(params.next)
+      : target.success;
+
+  return withParam(destination, "auth", target.notice);
+}
+
+/**
+ * Mensaje a mostrar según los parámetros `auth` / `auth_error`
+ *
+ * @param searchParams - searchParams de la página
+ * @param t - Traductor del idioma del usuario
+ * @returns Aviso tipado o null si no hay nada que mostrar
+ */
+export function readAuthStatus(
+  searchParams: Record<string, string | string[] | undefined>,
+  t: Translator
+): { kind: "success" | "error"; message: string } | null {
+  const { auth, auth_error } = authStatusParamsSchema.parse(searchParams);
+
+  if (auth_error) {
+    return { kind: "error", message: t(getAuthErrorMessageKey(auth_error)) };
+  }
+
+  if (auth) {
+    return { kind: "success", message: t(getAuthNoticeMessageKey(auth)) };
+  }
+
+  return null;
+}
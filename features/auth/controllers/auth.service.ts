@@ -0,0 +1,349 @@
+import type { EmailOtpType } from "@supabase/supabase-js";
+import { isAllowedEmail } from "@lib/auth/utils";
+import { siteConfig } from "@lib/config/site";
+import {
+  checkLockout,
+  clearFailures,
+  consumeRateLimits,
+  getClientIp,
+  recordFailure,
+} from "@lib/rate-limit/limiter";
+import type { RateLimitDecision } from "@lib/rate-limit/types";
+import { authRepository } from "../models/auth.repository";
+import { VALIDATION_MESSAGES } from "../models/auth.schema";
+import {
+  AuthErrorType,
+  createAuthError,
+  type AuthResult,
+  type AuthSession,
+  type User,
+} from "../models/auth.types";
+
+type RateLimitedAction = keyof typeof siteConfig.auth.rateLimits;
+
+/**
+ * Afina un OTP_EXPIRED de Supabase con la hora en que se pidió el código
+ *
+ * @param result - Resultado de la verificación
+ * @param requestedAt - Momento (ms) en que este navegador pidió el código
+ * @param stillValidType - Tipo a usar si el código aún no podía vencer
+ */
+function refineOtpError<T>(
+  result: AuthResult<T>,
+  requestedAt: number | undefined,
+  stillValidType: AuthErrorType
+): AuthResult<T> {
+  if (
+    result.success ||
+    result.error.type !== AuthErrorType.OTP_EXPIRED ||
+    requestedAt === undefined
+  ) {
+    return result;
+  }
+
+  const expiresAt = requestedAt + siteConfig.auth.otpExpiresInMinutes * 60_000;
+  return Date.now() < expiresAt
+    ? { success: false, error: createAuthError(stillValidType) }
+    : result;
+}
+
+/**
+ * Convierte una decisión negativa del limitador en RATE_LIMITED
+ */
+function toRateLimitedResult(
+  decision: RateLimitDecision
+): AuthResult<never> | null {
+  return decision.allowed
+    ? null
+    : {
+        success: false,
+        error: createAuthError(
+          AuthErrorType.RATE_LIMITED,
+          undefined,
+          decision.retryAfterSeconds
+        ),
+      };
+}
+
+/**
+ * Cuenta un intento de `action` por IP y por correo
+ *
+ * @returns Error RATE_LIMITED si se pasó algún límite, o null
+ */
+async function limitAttempt(
+  action: RateLimitedAction,
+  email: string
+): Promise<AuthResult<never> | null> {
+  const { perIp, perEmail } = siteConfig.auth.rateLimits[action];
+  const ip = await getClientIp();
+  return toRateLimitedResult(
+    await consumeRateLimits([
+      [`${action}:ip:${ip}`, perIp],
+      [`${action}:email:${email.toLowerCase()}`, perEmail],
+    ])
+  );
+}
+
+/**
+ * Llave del bloqueo progresivo (compartida por contraseña y código)
+ */
+function lockoutKey(email: string): string {
+  return `signin:${email.toLowerCase()}`;
+}
+
+/**
+ * Registra el resultado de un intento de inicio de sesión
+ *
+ * Solo cuentan como fallo los errores de `failureTypes` (credenciales
+ * incorrectas), no los de red ni los de correo sin verificar.
+ */
+async function trackSignInAttempt<T>(
+  email: string,
+  result: AuthResult<T>,
+  failureTypes: AuthErrorType[]
+): Promise<AuthResult<T>> {
+  if (result.success) {
+    await clearFailures(lockoutKey(email));
+  } else if (failureTypes.includes(result.error.type)) {
+    await recordFailure(lockoutKey(email), siteConfig.auth.lockout);
+  }
+  return result;
+}
+
+/**
+ * Servicio de Autenticación
+ *
+ * Contiene las reglas de negocio que se aplican antes de llamar
+ * a authRepository. Las Server Actions deben usar este servicio
+ * y no el repositorio directamente, para que las reglas se apliquen
+ * aunque alguien se salte la validación del formulario.
+ *
+ * Reglas actuales:
+ * - Solo correos de dominios permitidos (o excepciones) pueden
+ *   registrarse, iniciar sesión o pedir recuperación de contraseña
+ * - Un código vencido según Supabase, pero pedido hace menos de
+ *   `otpExpiresInMinutes`, no venció: se reporta como usado o incorrecto
+ * - Cada acción tiene un límite de intentos por IP y por correo
+ *   (siteConfig.auth.rateLimits)
+ * - Las contraseñas o códigos incorrectos bloquean el correo por un
+ *   tiempo que crece con cada fallo (siteConfig.auth.lockout)
+ */
+export const authService = {
+  /**
+   * Iniciar sesión con email y contraseña
+   */
+  async signInWithPassword(
+    email: string,
+    password: string
+  ): Promise<AuthResult<AuthSession>> {
+    if (!isAllowedEmail(email)) {
+      return {
+        success: false,
+        error: createAuthError(AuthErrorType.EMAIL_DOMAIN_NOT_ALLOWED),
+      };
+    }
+
+    const limited =
+      (await limitAttempt("signIn", email)) ??
+      toRateLimitedResult(await checkLockout(lockoutKey(email)));
+    if (limited) return limited;
+
+    return trackSignInAttempt(
+      email,
+      await authRepository.signInWithPassword(email, password),
+      [AuthErrorType.INVALID_CREDENTIALS]
+    );
+  },
+
+  /**
+   * Registrar nuevo usuario
+   *
+   * @returns La sesión, o null si primero hay que confirmar el correo
+   */
+  async signUp(
+    email: string,
+    password: string,
+    fullName: string
+  ): Promise<AuthResult<AuthSession | null>> {
+    if (!isAllowedEmail(email)) {
+      return {
+        success: false,
+        error: createAuthError(AuthErrorType.EMAIL_DOMAIN_NOT_ALLOWED),
+      };
+    }
+
+    const limited = await limitAttempt("signUp", email);
+    if (limited) return limited;
+
+    return authRepository.signUp(email, password, fullName);
+  },
+
+  /**
+   * Solicitar recuperación de contraseña
+   */
+  async resetPasswordRequest(email: string): Promise<AuthResult> {
+    if (!isAllowedEmail(email)) {
+      return {
+        success: false,
+        error: createAuthError(AuthErrorType.EMAIL_DOMAIN_NOT_ALLOWED),
+      };
+    }
+
+    const limited = await limitAttempt("passwordReset", email);
+    if (limited) return limited;
+
+    return authRepository.resetPasswordRequest(email);
+  },
+
+  /**
+   * Enviar enlace y código de acceso sin contraseña
+   */
+  async requestSignInCode(email: string): Promise<AuthResult> {
+    if (!isAllowedEmail(email)) {
+      return {
+        success: false,
+        error: createAuthError(AuthErrorType.EMAIL_DOMAIN_NOT_ALLOWED),
+      };
+    }
+
+    const limited = await limitAttempt("signInCode", email);
+    if (limited) return limited;
+
+    return authRepository.signInWithOtp(email);
+  },
+
+  /**
+   * Iniciar sesión con el código de 6 dígitos
+   *
+   * @param requestedAt - Momento (ms) en que se pidió el código, si se sabe
+   */
+  async verifySignInCode(
+    email: string,
+    token: string,
+    requestedAt?: number
+  ): Promise<AuthResult<AuthSession>> {
+    if (!isAllowedEmail(email)) {
+      return {
+        success: false,
+        error: createAuthError(AuthErrorType.EMAIL_DOMAIN_NOT_ALLOWED),
+      };
+    }
+
+    const limited =
+      (await limitAttempt("signIn", email)) ??
+      toRateLimitedResult(await checkLockout(lockoutKey(email)));
+    if (limited) return limited;
+
+    const result = await authRepository.verifyOtp(email, token);
+    // Pedido hace poco: lo más probable es un código mal escrito
+    return trackSignInAttempt(
+      email,
+      refineOtpError(result, requestedAt, AuthErrorType.OTP_INVALID),
+      [AuthErrorType.OTP_INVALID]
+    );
+  },
+
+  /**
+   * Iniciar sesión (o confirmar el correo) con el enlace recibido
+   *
+   * @param requestedAt - Momento (ms) en que se pidió el enlace, si se sabe
+   */
+  async verifySignInLink(
+    tokenHash: string,
+    type: EmailOtpType,
+    requestedAt?: number
+  ): Promise<AuthResult<AuthSession>> {
+    const result = await authRepository.verifyTokenHash(tokenHash, type);
+    // Un enlace no se escribe a mano: si no venció, ya se usó
+    return refineOtpError(result, requestedAt, AuthErrorType.OTP_ALREADY_USED);
+  },
+
+  /**
+   * Pedir el cambio de correo del usuario con sesión
+   *
+   * El correo no cambia hasta abrir el enlace de confirmación.
+   */
+  async changeEmail(user: User, newEmail: string): Promise<AuthResult> {
+    if (!isAllowedEmail(newEmail)) {
+      return {
+        success: false,
+        error: createAuthError(AuthErrorType.EMAIL_DOMAIN_NOT_ALLOWED),
+      };
+    }
+
+    if (newEmail.toLowerCase() === user.email.toLowerCase()) {
+      return {
+        success: false,
+        error: createAuthError(
+          AuthErrorType.USER_ALREADY_EXISTS,
+          VALIDATION_MESSAGES.email.sameAsCurrent
+        ),
+      };
+    }
+
+    return authRepository.updateEmail(newEmail);
+  },
+
+  /**
+   * Confirmar la contraseña actual del usuario con sesión
+   *
+   * Cuenta para el bloqueo progresivo igual que un inicio de sesión:
+   * una sesión abierta no sirve para adivinar la contraseña.
+   */
+  async confirmPassword(user: User, password: string): Promise<AuthResult> {
+    const limited =
+      (await limitAttempt("signIn", user.email)) ??
+      toRateLimitedResult(await checkLockout(lockoutKey(user.email)));
+    if (limited) return limited;
+
+    return trackSignInAttempt(
+      user.email,
+      await authRepository.verifyPassword(user.email, password),
+      [AuthErrorType.INVALID_CREDENTIALS]
+    );
+  },
+
+  /**
+   * Cambiar la contraseña confirmando la actual
+   */
+  async changePassword(
+    user: User,
+    currentPassword: string,
+    newPassword: string
+  ): Promise<AuthResult> {
+    const confirmed = await authService.confirmPassword(user, currentPassword);
+    if (!confirmed.success) {
+      return confirmed.error.type === AuthErrorType.INVALID_CREDENTIALS
+        ? {
+            success: false,
+            error: createAuthError(
+              AuthErrorType.INVALID_CREDENTIALS,
+              VALIDATION_MESSAGES.currentPassword.incorrect
+            ),
+          }
+        : confirmed;
+    }
+
+    return authRepository.updatePassword(newPassword);
+  },
+
+  /**
+   * Crear la contraseña nueva con la sesión de recuperación
+   *
+   * /auth/callback abre esa sesión al seguir el enlace del correo; sin
+   * ella no hay a quién cambiarle la contraseña.
+   */
+  async resetPassword(
+    user: User | null,
+    newPassword: string
+  ): Promise<AuthResult> {
+    if (!user) {
+      return {
+        success: false,
+        error: createAuthError(AuthErrorType.INVALID_TOKEN),
+      };
+    }
+
+    return authRepository.updatePassword(newPassword);
+  },
+};
@@ -1,4 +1,12 @@
+import {
+  createClient as createSupabaseClient,
+  type AuthError as SupabaseAuthError,
+  type EmailOtpType,
+} from "@supabase/supabase-js";
 import { createClient } from "@lib/supabase/server";
+import { env } from "@lib/config/env";
+import { siteConfig } from "@lib/config/site";
+import { buildAuthCallbackUrl } from "@lib/auth/utils";
 import {
   AuthResult,
   AuthSession,
@@ -9,6 +17,32 @@ import {
   type User,
 } from "./auth.types";
 
+/**
+ * Convierte errores de Supabase al pedir o verificar códigos de acceso
+ *
+ * Supabase responde igual (`otp_expired`) a un código vencido, ya usado
+ * o incorrecto; authService afina el tipo cuando sabe cuándo se pidió.
+ */
+function mapOtpError(error: SupabaseAuthError) {
+  if (error.code === "otp_expired") {
+    return createAuthError(AuthErrorType.OTP_EXPIRED);
+  }
+
+  if (error.code === "over_email_send_rate_limit" || error.status === 429) {
+    // "...you can only request this after 42 seconds."
+    const seconds = Number(error.message.match(/(\d+) seconds?/)?.[1]);
+    return createAuthError(
+      AuthErrorType.OTP_RESEND_THROTTLED,
+      error.message,
+      Number.isFinite(seconds)
+        ? seconds
+        : siteConfig.auth.otpResendCooldownSeconds
+    );
+  }
+
+  return createAuthError(AuthErrorType.UNKNOWN_ERROR, error.message);
+}
+
 /**
  * Repositorio de Autenticación
  *
@@ -130,19 +164,146 @@ export const authRepository = {
     }
   },
 
+  /**
+   * Enviar un enlace y código de acceso (sin contraseña)
+   *
+   * El mismo correo trae el enlace mágico y el código de 6 dígitos
+   * (la plantilla de Supabase debe incluir `{{ .Token }}`). El enlace
+   * puede apuntar a `{{ .ConfirmationURL }}`, que vuelve por
+   * /auth/callback, o a `{{ .SiteURL }}/verify?token_hash={{ .TokenHash }}&type=email`.
+   *
+   * No crea cuentas: si el correo no está registrado responde como si
+   * lo hubiera enviado, para no revelar qué correos tienen cuenta.
+   *
+   * @param email - Correo del usuario
+   * @returns AuthResult indicando éxito o error
+   */
+  async signInWithOtp(email: string): Promise<AuthResult> {
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: {
+          shouldCreateUser: false,
+          emailRedirectTo: buildAuthCallbackUrl("magiclink"),
+        },
+      });
+
+      if (error) {
+        if (
+          error.code === "otp_disabled" ||
+          error.code === "signup_disabled" ||
+          error.code === "user_not_found"
+        ) {
+          return { success: true, data: undefined };
+        }
+
+        return { success: false, error: mapOtpError(error) };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en signInWithOtp:", error);
+      return {
+        success: false,
+        error: createAuthError(AuthErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Iniciar sesión con el código de 6 dígitos recibido por correo
+   *
+   * @param email - Correo al que se envió el código
+   * @param token - Código de 6 dígitos
+   * @returns AuthResult con la sesión o error
+   */
+  async verifyOtp(
+    email: string,
+    token: string
+  ): Promise<AuthResult<AuthSession>> {
+    try {
+      const supabase = await createClient();
+      const { data, error } = await supabase.auth.verifyOtp({
+        email,
+        token,
+        type: "email",
+      });
+
+      if (error) {
+        return { success: false, error: mapOtpError(error) };
+      }
+
+      if (!data.session) {
+        return {
+          success: false,
+          error: createAuthError(AuthErrorType.UNKNOWN_ERROR),
+        };
+      }
+
+      return { success: true, data: mapSupabaseSession(data.session) };
+    } catch (error) {
+      console.error("Error en verifyOtp:", error);
+      return {
+        success: false,
+        error: createAuthError(AuthErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Iniciar sesión (o confirmar el correo) con el enlace recibido
+   *
+   * @param tokenHash - Parámetro `token_hash` del enlace
+   * @param type - Tipo de enlace (acceso o confirmación de registro)
+   * @returns AuthResult con la sesión o error
+   */
+  async verifyTokenHash(
+    tokenHash: string,
+    type: EmailOtpType
+  ): Promise<AuthResult<AuthSession>> {
+    try {
+      const supabase = await createClient();
+      const { data, error } = await supabase.auth.verifyOtp({
+        token_hash: tokenHash,
+        type,
+      });
+
+      if (error) {
+        return { success: false, error: mapOtpError(error) };
+      }
+
+      if (!data.session) {
+        return {
+          success: false,
+          error: createAuthError(AuthErrorType.UNKNOWN_ERROR),
+        };
+      }
+
+      return { success: true, data: mapSupabaseSession(data.session) };
+    } catch (error) {
+      console.error("Error en verifyTokenHash:", error);
+      return {
+        success: false,
+        error: createAuthError(AuthErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
   /**
    * Registrar nuevo usuario
    *
    * @param email - Correo del usuario
    * @param password - Contraseña
    * @param fullName - Nombre completo
-   * @returns AuthResult con la sesión o error
+   * @returns AuthResult con la sesión, o null si falta confirmar el
+   *   correo (Supabase no abre sesión hasta la confirmación)
    */
   async signUp(
     email: string,
     password: string,
     fullName: string
-  ): Promise<AuthResult<AuthSession>> {
+  ): Promise<AuthResult<AuthSession | null>> {
     try {
       const supabase = await createClient();
       const { data, error } = await supabase.auth.signUp({
@@ -152,6 +313,7 @@ export const authRepository = {
           data: {
             full_name: fullName,
           },
+          emailRedirectTo: buildAuthCallbackUrl("signup"),
         },
       });
 
@@ -177,19 +339,175 @@ export const authRepository = {
         };
       }
 
-      if (!data.session) {
+      return {
+        success: true,
+        data: data.session ? mapSupabaseSession(data.session) : null,
+      };
+    } catch (error) {
+      console.error("Error en signUp:", error);
+      return {
+        success: false,
+        error: createAuthError(AuthErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Canjear el código de un enlace de correo por una sesión (PKCE)
+   *
+   * Supabase guarda el "code verifier" en una cookie del navegador que
+   * pidió el correo: si el enlace se abre en otro navegador, falla.
+   * Las cookies de sesión las escribe el cliente de servidor.
+   *
+   * @param code - Parámetro `code` que Supabase agrega al enlace
+   * @returns AuthResult con la sesión o error
+   */
+  async exchangeCodeForSession(code: string): Promise<AuthResult<AuthSession>> {
+    try {
+      const supabase = await createClient();
+      const { data, error } = await supabase.auth.exchangeCodeForSession(code);
+
+      if (error) {
+        if (error.code === "otp_expired") {
+          return {
+            success: false,
+            error: createAuthError(AuthErrorType.OTP_EXPIRED),
+          };
+        }
+
         return {
           success: false,
-          error: createAuthError(AuthErrorType.UNKNOWN_ERROR),
+          error: createAuthError(AuthErrorType.INVALID_TOKEN, error.message),
         };
       }
 
+      return { success: true, data: mapSupabaseSession(data.session) };
+    } catch (error) {
+      console.error("Error en exchangeCodeForSession:", error);
       return {
-        success: true,
-        data: mapSupabaseSession(data.session),
+        success: false,
+        error: createAuthError(AuthErrorType.NETWORK_ERROR),
       };
+    }
+  },
+
+  /**
+   * Actualizar nombre y foto guardados en `user_metadata`
+   *
+   * Son los que lee mapSupabaseUser; la tabla `profiles` se actualiza
+   * aparte con profileRepository.
+   *
+   * @param data - Campos a cambiar (null en avatarUrl quita la foto)
+   */
+  async updateUserMetadata(data: {
+    fullName?: string;
+    avatarUrl?: string | null;
+  }): Promise<AuthResult<User>> {
+    try {
+      const supabase = await createClient();
+      const { data: updated, error } = await supabase.auth.updateUser({
+        data: {
+          ...(data.fullName !== undefined && { full_name: data.fullName }),
+          ...(data.avatarUrl !== undefined && { avatar_url: data.avatarUrl }),
+        },
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: createAuthError(AuthErrorType.UNKNOWN_ERROR, error.message),
+        };
+      }
+
+      return { success: true, data: mapSupabaseUser(updated.user) };
     } catch (error) {
-      console.error("Error en signUp:", error);
+      console.error("Error en updateUserMetadata:", error);
+      return {
+        success: false,
+        error: createAuthError(AuthErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Pedir el cambio de correo
+   *
+   * Supabase no cambia el correo hasta que se confirme con el enlace
+   * enviado (a la dirección nueva, y también a la actual si "Secure
+   * email change" está activo). El enlace vuelve por /auth/callback.
+   *
+   * @param newEmail - Correo nuevo
+   */
+  async updateEmail(newEmail: string): Promise<AuthResult> {
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase.auth.updateUser(
+        { email: newEmail },
+        { emailRedirectTo: buildAuthCallbackUrl("email_change") }
+      );
+
+      if (error) {
+        if (error.code === "email_exists") {
+          return {
+            success: false,
+            error: createAuthError(AuthErrorType.USER_ALREADY_EXISTS),
+          };
+        }
+
+        return {
+          success: false,
+          error: createAuthError(AuthErrorType.UNKNOWN_ERROR, error.message),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en updateEmail:", error);
+      return {
+        success: false,
+        error: createAuthError(AuthErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Comprobar la contraseña actual sin tocar la sesión del navegador
+   *
+   * Inicia sesión con un cliente sin cookies y cierra de inmediato esa
+   * sesión temporal (solo esa: scope "local").
+   *
+   * @returns AuthResult exitoso si la contraseña es correcta
+   */
+  async verifyPassword(email: string, password: string): Promise<AuthResult> {
+    try {
+      const supabase = createSupabaseClient(
+        env.NEXT_PUBLIC_SUPABASE_URL,
+        env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+        { auth: { autoRefreshToken: false, persistSession: false } }
+      );
+      const { error } = await supabase.auth.signInWithPassword({
+        email,
+        password,
+      });
+
+      if (error) {
+        if (error.message.includes("Invalid login credentials")) {
+          return {
+            success: false,
+            error: createAuthError(AuthErrorType.INVALID_CREDENTIALS),
+          };
+        }
+
+        return {
+          success: false,
+          error: createAuthError(AuthErrorType.UNKNOWN_ERROR, error.message),
+        };
+      }
+
+      await supabase.auth.signOut({ scope: "local" });
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en verifyPassword:", error);
       return {
         success: false,
         error: createAuthError(AuthErrorType.NETWORK_ERROR),
@@ -234,7 +552,7 @@ export const authRepository = {
     try {
       const supabase = await createClient();
       const { error } = await supabase.auth.resetPasswordForEmail(email, {
-        redirectTo: `${process.env.NEXT_PUBLIC_APP_URL}/reset-password`,
+        redirectTo: buildAuthCallbackUrl("recovery"),
       });
 
       if (error) {
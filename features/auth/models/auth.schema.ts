@@ -1,29 +1,47 @@
 import { z } from "zod";
+import { isAllowedEmail } from "@lib/auth/utils";
+import type { MessageKey } from "@lib/i18n/translator";
+import { AUTH_CALLBACK_FLOWS, AUTH_NOTICES, AuthErrorType } from "./auth.types";
 
 /**
- * Mensajes de error personalizados en español
- * Estos se mostrarán en los formularios cuando la validación falle
+ * Claves de los mensajes de validación (ver lib/i18n/messages)
+ *
+ * Los schemas guardan la clave y no el texto: las acciones la
+ * traducen al idioma del usuario con getZodErrorText. authService
+ * también las usa como `details` de los errores que detecta él.
  */
-const VALIDATION_MESSAGES = {
+export const VALIDATION_MESSAGES = {
   email: {
-    required: "El correo electrónico es requerido",
-    invalid: "El correo electrónico no es válido",
+    required: "auth.validation.email.required",
+    invalid: "auth.validation.email.invalid",
+    domain: "auth.validation.email.domain",
+    sameAsCurrent: "auth.validation.email.sameAsCurrent",
   },
   password: {
-    required: "La contraseña es requerida",
-    minLength: "La contraseña debe tener al menos 8 caracteres",
-    pattern:
-      "La contraseña debe contener al menos una mayúscula, una minúscula y un número",
+    required: "auth.validation.password.required",
+    minLength: "auth.validation.password.minLength",
+    pattern: "auth.validation.password.pattern",
   },
   fullName: {
-    required: "El nombre completo es requerido",
-    minLength: "El nombre debe tener al menos 3 caracteres",
+    required: "auth.validation.fullName.required",
+    minLength: "auth.validation.fullName.minLength",
   },
   confirmPassword: {
-    required: "Debes confirmar la contraseña",
-    noMatch: "Las contraseñas no coinciden",
+    required: "auth.validation.confirmPassword.required",
+    noMatch: "auth.validation.confirmPassword.noMatch",
+  },
+  currentPassword: {
+    required: "auth.validation.currentPassword.required",
+    sameAsNew: "auth.validation.currentPassword.sameAsNew",
+    incorrect: "auth.validation.currentPassword.incorrect",
+  },
+  otp: {
+    invalid: "auth.validation.otp.invalid",
   },
-};
+  tokenHash: {
+    invalid: "auth.validation.tokenHash.invalid",
+  },
+} satisfies Record<string, Record<string, MessageKey>>;
 
 /**
  * Schema para validar emails
@@ -34,10 +52,59 @@ const emailSchema = z
   .min(1, VALIDATION_MESSAGES.email.required)
   .email(VALIDATION_MESSAGES.email.invalid);
 
+/**
+ * Schema para emails institucionales
+ *
+ * Igual que emailSchema pero además exige un dominio permitido
+ * (o una excepción por correo). Ver `isAllowedEmail` en lib/auth/utils.ts
+ */
+const institutionalEmailSchema = emailSchema.refine(
+  isAllowedEmail,
+  VALIDATION_MESSAGES.email.domain
+);
+
+/**
+ * Largo mínimo de una contraseña
+ */
+export const PASSWORD_MIN_LENGTH = 8;
+
+/**
+ * Requisitos de una contraseña, en el orden en que se muestran
+ *
+ * passwordSchema exige todos; el medidor de seguridad del registro
+ * (PasswordStrengthMeter) usa esta misma lista.
+ */
+export const PASSWORD_REQUIREMENTS = [
+  {
+    id: "minLength",
+    label: "auth.forms.strength.requirements.minLength",
+    test: (value: string) => value.length >= PASSWORD_MIN_LENGTH,
+  },
+  {
+    id: "uppercase",
+    label: "auth.forms.strength.requirements.uppercase",
+    test: (value: string) => /[A-Z]/.test(value),
+  },
+  {
+    id: "lowercase",
+    label: "auth.forms.strength.requirements.lowercase",
+    test: (value: string) => /[a-z]/.test(value),
+  },
+  {
+    id: "number",
+    label: "auth.forms.strength.requirements.number",
+    test: (value: string) => /\d/.test(value),
+  },
+] as const satisfies readonly {
+  id: string;
+  label: MessageKey;
+  test: (value: string) => boolean;
+}[];
+
 /**
  * Schema para validar contraseñas
  *
- * Requisitos:
+ * Requisitos (PASSWORD_REQUIREMENTS):
  * - Mínimo 8 caracteres
  * - Al menos una mayúscula
  * - Al menos una minúscula
@@ -45,9 +112,12 @@ const emailSchema = z
  */
 const passwordSchema = z
   .string()
-  .min(8, VALIDATION_MESSAGES.password.minLength)
-  .regex(
-    /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+  .min(PASSWORD_MIN_LENGTH, VALIDATION_MESSAGES.password.minLength)
+  .refine(
+    (value) =>
+      PASSWORD_REQUIREMENTS.filter(({ id }) => id !== "minLength").every(
+        ({ test }) => test(value)
+      ),
     VALIDATION_MESSAGES.password.pattern
   );
 
@@ -77,12 +147,13 @@ export const loginSchema = z.object({
  * Campos: fullName, email, password, confirmPassword
  *
  * Validación adicional:
+ * - email debe pertenecer a un dominio permitido
  * - confirmPassword debe coincidir con password
  */
 export const registerSchema = z
   .object({
     fullName: z.string().min(3, VALIDATION_MESSAGES.fullName.minLength).trim(),
-    email: emailSchema,
+    email: institutionalEmailSchema,
     password: passwordSchema,
     confirmPassword: z
       .string()
@@ -96,10 +167,11 @@ export const registerSchema = z
 /**
  * Schema de Forgot Password
  *
- * Solo necesita el email para enviar el link de recuperación
+ * Solo necesita el email para enviar el link de recuperación.
+ * Exige correo institucional para no enviar correos a terceros.
  */
 export const forgotPasswordSchema = z.object({
-  email: emailSchema,
+  email: institutionalEmailSchema,
 });
 
 /**
@@ -122,6 +194,101 @@ export const resetPasswordSchema = z
     path: ["confirmPassword"],
   });
 
+/**
+ * Schema de Change Email (/settings)
+ *
+ * El correo nuevo también debe ser institucional.
+ */
+export const changeEmailSchema = z.object({
+  email: institutionalEmailSchema,
+});
+
+/**
+ * Schema de Change Password (/settings)
+ *
+ * Campos: currentPassword, password, confirmPassword
+ *
+ * A diferencia de resetPasswordSchema, exige la contraseña actual:
+ * una sesión abierta en un equipo compartido no basta para cambiarla.
+ */
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z
+      .string()
+      .min(1, VALIDATION_MESSAGES.currentPassword.required),
+    password: passwordSchema,
+    confirmPassword: z
+      .string()
+      .min(1, VALIDATION_MESSAGES.confirmPassword.required),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: VALIDATION_MESSAGES.confirmPassword.noMatch,
+    path: ["confirmPassword"],
+  })
+  .refine((data) => data.password !== data.currentPassword, {
+    message: VALIDATION_MESSAGES.currentPassword.sameAsNew,
+    path: ["password"],
+  });
+
+/**
+ * Schema para pedir un enlace / código de acceso sin contraseña
+ *
+ * Exige correo institucional: solo se envían correos a cuentas
+ * que podrían existir en la aplicación.
+ */
+export const signInCodeRequestSchema = z.object({
+  email: institutionalEmailSchema,
+});
+
+/**
+ * Schema para ingresar manualmente el código de 6 dígitos
+ */
+export const signInCodeSchema = z.object({
+  email: institutionalEmailSchema,
+  token: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, VALIDATION_MESSAGES.otp.invalid),
+});
+
+/**
+ * Tipos de enlace que /verify puede confirmar
+ *
+ * - email / magiclink: acceso sin contraseña
+ * - signup: confirmación del correo al registrarse
+ */
+export const EMAIL_LINK_TYPES = ["email", "magiclink", "signup"] as const;
+
+/**
+ * Schema del enlace recibido por correo (`/verify?token_hash=...&type=...`)
+ */
+export const signInLinkSchema = z.object({
+  tokenHash: z.string().min(1, VALIDATION_MESSAGES.tokenHash.invalid),
+  type: z.enum(EMAIL_LINK_TYPES, VALIDATION_MESSAGES.tokenHash.invalid),
+});
+
+/**
+ * Schema de los parámetros que Supabase agrega a /auth/callback
+ *
+ * Si el enlace ya no sirve, Supabase no manda `code` sino
+ * `error`, `error_code` y `error_description`.
+ */
+export const authCallbackParamsSchema = z.object({
+  code: z.string().min(1).optional().catch(undefined),
+  flow: z.enum(AUTH_CALLBACK_FLOWS).catch("magiclink"),
+  next: z.string().optional().catch(undefined),
+  error_code: z.string().optional().catch(undefined),
+});
+
+/**
+ * Schema del aviso que /auth/callback deja en la página de destino
+ * (`?auth=...` si salió bien, `?auth_error=...` si no)
+ */
+export const authStatusParamsSchema = z.object({
+  auth: z.enum(AUTH_NOTICES).optional().catch(undefined),
+  auth_error: z.enum(AuthErrorType).optional().catch(undefined),
+});
+
 /**
  * Tipos TypeScript inferidos de los schemas
  *
@@ -139,3 +306,10 @@ export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
 export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type ChangeEmailInput = z.infer<typeof changeEmailSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type SignInCodeRequestInput = z.infer<typeof signInCodeRequestSchema>;
+export type SignInCodeInput = z.infer<typeof signInCodeSchema>;
+export type SignInLinkInput = z.infer<typeof signInLinkSchema>;
+export type AuthCallbackParams = z.infer<typeof authCallbackParamsSchema>;
+export type AuthStatusParams = z.infer<typeof authStatusParamsSchema>;
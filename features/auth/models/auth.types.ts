@@ -2,6 +2,31 @@ import {
   User as SupabaseUser,
   Session as SupabaseSession,
 } from "@supabase/supabase-js";
+import { DEFAULT_LOCALE } from "@lib/i18n/config";
+import {
+  createTranslator,
+  translateText,
+  type I18n,
+  type MessageKey,
+} from "@lib/i18n/translator";
+import { formatRetryAfter } from "@shared/utils/formatters";
+
+/**
+ * Roles dentro del semillero
+ *
+ * - member: integrante (por defecto)
+ * - coordinator: ve el bienestar agregado del equipo y gestiona actividades
+ * - admin: además puede promover y degradar integrantes
+ */
+export const USER_ROLES = ["member", "coordinator", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+/**
+ * Clave del nombre de un rol (ver lib/i18n/messages)
+ */
+export function getUserRoleMessageKey(role: UserRole): MessageKey {
+  return `auth.roles.${role}`;
+}
 
 /**
  * Usuario de la aplicación
@@ -13,6 +38,8 @@ export interface User {
   id: string;
   email: string;
   fullName?: string;
+  avatarUrl?: string;
+  role: UserRole;
   createdAt: string;
   emailVerified: boolean;
 }
@@ -50,21 +77,81 @@ export enum AuthErrorType {
   UNKNOWN_ERROR = "UNKNOWN_ERROR",
   SESSION_EXPIRED = "SESSION_EXPIRED",
   INVALID_TOKEN = "INVALID_TOKEN",
+  EMAIL_DOMAIN_NOT_ALLOWED = "EMAIL_DOMAIN_NOT_ALLOWED",
+  OTP_INVALID = "OTP_INVALID",
+  OTP_EXPIRED = "OTP_EXPIRED",
+  OTP_ALREADY_USED = "OTP_ALREADY_USED",
+  OTP_RESEND_THROTTLED = "OTP_RESEND_THROTTLED",
+  RATE_LIMITED = "RATE_LIMITED",
 }
 
 /**
  * Error de autenticación estructurado
+ *
+ * `retryAfterSeconds` indica cuánto esperar antes de reintentar
+ * (por ejemplo, antes de pedir otro código)
  */
 export interface AuthError {
   type: AuthErrorType;
   message: string;
   details?: string;
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Flujos que terminan en /auth/callback (enlaces de correo con PKCE)
+ *
+ * - signup: confirmación del correo al registrarse
+ * - recovery: recuperación de contraseña
+ * - email_change: confirmación de un cambio de correo
+ * - magiclink: acceso sin contraseña
+ */
+export const AUTH_CALLBACK_FLOWS = [
+  "signup",
+  "recovery",
+  "email_change",
+  "magiclink",
+] as const;
+export type AuthCallbackFlow = (typeof AUTH_CALLBACK_FLOWS)[number];
+
+/**
+ * Avisos de éxito que /auth/callback (o una acción que redirige)
+ * deja en la URL (`?auth=...`)
+ */
+export const AUTH_NOTICES = [
+  "email_confirmed",
+  "password_recovery",
+  "email_changed",
+  "signed_in",
+  "account_deletion_scheduled",
+  "password_updated",
+] as const;
+export type AuthNotice = (typeof AUTH_NOTICES)[number];
+
+/**
+ * Clave del mensaje de un aviso (ver lib/i18n/messages)
+ */
+export function getAuthNoticeMessageKey(notice: AuthNotice): MessageKey {
+  return `auth.notices.${notice}`;
 }
 
 /**
  * Helpers para convertir tipos de Supabase a nuestros tipos
  */
 
+/**
+ * Lee el rol desde app_metadata
+ *
+ * Se usa app_metadata (y no user_metadata) porque solo la service role
+ * puede modificarlo: un usuario no puede asignarse un rol a sí mismo.
+ * Valores desconocidos o ausentes se tratan como "member".
+ */
+export function parseUserRole(value: unknown): UserRole {
+  return USER_ROLES.includes(value as UserRole)
+    ? (value as UserRole)
+    : "member";
+}
+
 /**
  * Convierte un User de Supabase a nuestro tipo User
  */
@@ -73,8 +160,10 @@ export function mapSupabaseUser(supabaseUser: SupabaseUser): User {
     id: supabaseUser.id,
     email: supabaseUser.email!,
     fullName: supabaseUser.user_metadata?.full_name,
+    avatarUrl: supabaseUser.user_metadata?.avatar_url,
+    role: parseUserRole(supabaseUser.app_metadata?.role),
     createdAt: supabaseUser.created_at,
-    emailVerified: supabaseUser.email_confirmed_at !== null,
+    emailVerified: Boolean(supabaseUser.email_confirmed_at),
   };
 }
 
@@ -93,32 +182,74 @@ export function mapSupabaseSession(
 }
 
 /**
- * Mensajes de error en español para cada tipo
+ * Clave del mensaje de cada tipo de error (ver lib/i18n/messages)
  */
-export const AUTH_ERROR_MESSAGES: Record<AuthErrorType, string> = {
-  [AuthErrorType.INVALID_CREDENTIALS]: "Correo o contraseña incorrectos",
-  [AuthErrorType.USER_ALREADY_EXISTS]: "Ya existe una cuenta con este correo",
-  [AuthErrorType.EMAIL_NOT_VERIFIED]:
-    "Por favor verifica tu correo electrónico",
-  [AuthErrorType.WEAK_PASSWORD]: "La contraseña es demasiado débil",
-  [AuthErrorType.NETWORK_ERROR]: "Error de conexión. Verifica tu internet",
-  [AuthErrorType.UNKNOWN_ERROR]: "Ocurrió un error inesperado",
-  [AuthErrorType.SESSION_EXPIRED]:
-    "Tu sesión ha expirado. Inicia sesión nuevamente",
-  [AuthErrorType.INVALID_TOKEN]:
-    "El enlace de recuperación es inválido o ha expirado",
-};
+export function getAuthErrorMessageKey(type: AuthErrorType): MessageKey {
+  return `auth.errors.${type}`;
+}
+
+const defaultT = createTranslator(DEFAULT_LOCALE);
 
 /**
  * Helper para crear errores de autenticación
+ *
+ * `message` queda en el idioma por defecto (para logs); la interfaz
+ * muestra el error con getAuthErrorText en el idioma del usuario.
  */
 export function createAuthError(
   type: AuthErrorType,
-  details?: string
+  details?: string,
+  retryAfterSeconds?: number
 ): AuthError {
   return {
     type,
-    message: AUTH_ERROR_MESSAGES[type],
+    message: defaultT(getAuthErrorMessageKey(type)),
     details,
+    ...(retryAfterSeconds !== undefined && { retryAfterSeconds }),
   };
 }
+
+/**
+ * Texto a mostrar en un formulario para un error de autenticación
+ *
+ * Si el error trae `retryAfterSeconds`, agrega cuándo se puede reintentar.
+ */
+export function getAuthErrorText(
+  error: AuthError,
+  { t, locale }: I18n
+): string {
+  const text = error.details
+    ? translateText(t, error.details)
+    : t(getAuthErrorMessageKey(error.type));
+  return error.retryAfterSeconds
+    ? t("auth.retryAfter", {
+        message: text,
+        when: formatRetryAfter(error.retryAfterSeconds, locale),
+      })
+    : text;
+}
+
+/**
+ * Estado de un formulario de autenticación (useActionState)
+ *
+ * - values: lo que escribió el usuario, para volver a llenar el
+ *   formulario si algo falla. Nunca incluye contraseñas
+ * - fieldErrors: primer error de validación de cada campo
+ * - error: error de la operación (mostrar con getAuthErrorText)
+ * - notice: mensaje de éxito cuando la acción no redirige
+ */
+export interface AuthFormState<TValues> {
+  values: Partial<Record<keyof TValues & string, string>>;
+  fieldErrors: Partial<Record<keyof TValues & string, string>>;
+  error?: AuthError;
+  notice?: string;
+}
+
+/**
+ * Estado inicial de un formulario de autenticación
+ */
+export function createAuthFormState<TValues>(
+  values: AuthFormState<TValues>["values"] = {}
+): AuthFormState<TValues> {
+  return { values, fieldErrors: {} };
+}
@@ -0,0 +1,76 @@
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import { EXPORT_FORMATS, EXPORT_FORMAT_LABELS } from "../models/export.types";
+
+type Props = {
+  defaultFrom: string;
+  defaultTo: string;
+};
+
+/**
+ * Formulario para descargar los datos propios
+ *
+ * Es un <form method="get"> que apunta al route handler de exportación:
+ * el navegador descarga el archivo directamente, sin JavaScript.
+ */
+export async function ExportForm({ defaultFrom, defaultTo }: Props) {
+  const { t } = await getI18n();
+  return (
+    <section className="rounded-lg border bg-white p-6">
+      <h2 className="text-lg font-semibold">{t("export.form.title")}</h2>
+      <p className="mt-1 text-sm text-slate-600">
+        {t("export.form.description")}
+      </p>
+
+      <form
+        method="get"
+        action={siteConfig.routes.exportData}
+        className="mt-4 flex flex-wrap items-end gap-3"
+      >
+        <label className="flex flex-col text-sm">
+          {t("export.form.from")}
+          <input
+            type="date"
+            name="from"
+            defaultValue={defaultFrom}
+            required
+            className="mt-1 rounded-md border px-3 py-2"
+          />
+        </label>
+
+        <label className="flex flex-col text-sm">
+          {t("export.form.to")}
+          <input
+            type="date"
+            name="to"
+            defaultValue={defaultTo}
+            required
+            className="mt-1 rounded-md border px-3 py-2"
+          />
+        </label>
+
+        <label className="flex flex-col text-sm">
+          {t("export.form.format")}
+          <select
+            name="format"
+            defaultValue="pdf"
+            className="mt-1 rounded-md border px-3 py-2"
+          >
+            {EXPORT_FORMATS.map((format) => (
+              <option key={format} value={format}>
+                {t(EXPORT_FORMAT_LABELS[format])}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          type="submit"
+          className="rounded-md bg-slate-900 px-4 py-2 text-sm text-white"
+        >
+          {t("export.form.submit")}
+        </button>
+      </form>
+    </section>
+  );
+}
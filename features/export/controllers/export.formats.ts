@@ -0,0 +1,321 @@
+import { siteConfig } from "@lib/config/site";
+import { createTranslator, type MessageKey } from "@lib/i18n/translator";
+import { getLocalClock, getLocalDateKey } from "@shared/utils/dates";
+import { formatDateKey, formatDateTime } from "@shared/utils/formatters";
+import { toCsvRow } from "@shared/utils/csv";
+import type { PdfBlock } from "@shared/utils/pdf";
+import {
+  MOOD_LEVELS,
+  MOOD_LEVEL_LABELS,
+} from "@features/home/models/home.types";
+import { moodScoreToFivePoint } from "@features/home/models/mood.scales";
+import { countTagFrequencies } from "@features/history/controllers/history.service";
+import { EXPORT_SCHEMA_VERSION, type ExportData } from "../models/export.types";
+
+/**
+ * Codificadores de cada formato de exportación
+ *
+ * CSV y JSON se generan como iterables de fragmentos de texto para
+ * poder enviarlos en streaming sin armar el archivo completo en memoria.
+ */
+
+/**
+ * Columnas del CSV, en el idioma del usuario porque es lo que verá
+ * quien abra la hoja
+ */
+const CSV_COLUMNS: MessageKey[] = [
+  "export.csv.columns.type",
+  "export.csv.columns.date",
+  "export.csv.columns.time",
+  "export.csv.columns.moodLevel",
+  "export.csv.columns.mood",
+  "export.csv.columns.emotions",
+  "export.csv.columns.title",
+  "export.csv.columns.text",
+  "export.csv.columns.status",
+];
+
+/**
+ * Texto en lugar del cuerpo de las entradas cifradas, que el servidor
+ * no puede leer (en JSON va el texto cifrado)
+ */
+const ENCRYPTED_BODY_PLACEHOLDER: MessageKey = "export.pdf.encryptedBody";
+
+/**
+ * Byte order mark para que Excel detecte UTF-8 (tildes y eñes)
+ */
+const UTF8_BOM = "\uFEFF";
+
+/**
+ * Registros de ánimo y entradas de bitácora en orden cronológico
+ *
+ * Los registros de ánimo se ubican en el día local de la zona horaria
+ * del usuario; las entradas de bitácora ya guardan su día local.
+ */
+function toTimeline(data: ExportData) {
+  const moods = data.moods.map((mood) => ({
+    date: getLocalDateKey(mood.recordedAt, data.timezone),
+    time: getLocalClock(mood.recordedAt, data.timezone),
+    mood,
+    journal: undefined,
+  }));
+  const journal = data.journal.map((entry) => ({
+    date: entry.entryDate,
+    time: "",
+    mood: undefined,
+    journal: entry,
+  }));
+
+  return [...moods, ...journal].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time)
+  );
+}
+
+/**
+ * CSV con una fila por registro de ánimo o entrada de bitácora
+ */
+export function* encodeCsv(data: ExportData): Generator<string> {
+  const t = createTranslator(data.locale);
+  yield UTF8_BOM + toCsvRow(CSV_COLUMNS.map((column) => t(column)));
+
+  for (const item of toTimeline(data)) {
+    if (item.mood) {
+      yield toCsvRow([
+        t("export.csv.mood"),
+        item.date,
+        item.time,
+        item.mood.moodLevel,
+        t(MOOD_LEVEL_LABELS[item.mood.moodLevel].label),
+        item.mood.emotionTags.join("; "),
+        "",
+        item.mood.note ?? "",
+        "",
+      ]);
+    } else if (item.journal) {
+      yield toCsvRow([
+        t("export.csv.journal"),
+        item.date,
+        "",
+        "",
+        "",
+        item.journal.tags.join("; "),
+        item.journal.title,
+        item.journal.encrypted
+          ? t(ENCRYPTED_BODY_PLACEHOLDER)
+          : item.journal.body,
+        t(
+          item.journal.status === "draft"
+            ? "export.csv.draft"
+            : "export.csv.published"
+        ),
+      ]);
+    }
+  }
+}
+
+/**
+ * Documento JSON versionado (ver EXPORT_SCHEMA_VERSION)
+ *
+ * Se emite un fragmento por registro para mantener el streaming;
+ * el resultado completo es JSON válido.
+ */
+export function* encodeJson(data: ExportData): Generator<string> {
+  const header = {
+    version: EXPORT_SCHEMA_VERSION,
+    app: siteConfig.name,
+    generatedAt: data.generatedAt,
+    timezone: data.timezone,
+    range: { from: data.from, to: data.to },
+    user: {
+      id: data.user.id,
+      email: data.user.email,
+      fullName: data.user.fullName ?? null,
+    },
+  };
+
+  yield `${JSON.stringify(header).slice(0, -1)},"moods":[`;
+
+  for (const [index, mood] of data.moods.entries()) {
+    const item = {
+      id: mood.id,
+      moodLevel: mood.moodLevel,
+      moodScore: mood.moodScore,
+      scale: mood.scale,
+      scaleValue: mood.scaleValue,
+      energyScore: mood.energyScore ?? null,
+      anxietyScore: mood.anxietyScore ?? null,
+      emotionTags: mood.emotionTags,
+      note: mood.note ?? null,
+      recordedAt: mood.recordedAt,
+      timezone: mood.timezone,
+      createdAt: mood.createdAt,
+      updatedAt: mood.updatedAt,
+    };
+    yield `${index > 0 ? "," : ""}${JSON.stringify(item)}`;
+  }
+
+  yield `],"journal":[`;
+
+  for (const [index, entry] of data.journal.entries()) {
+    const item = {
+      id: entry.id,
+      entryDate: entry.entryDate,
+      title: entry.title,
+      body: entry.body,
+      encrypted: entry.encrypted,
+      bodyCiphertext: entry.bodyCiphertext ?? null,
+      tags: entry.tags,
+      status: entry.status,
+      moodEntryId: entry.moodEntryId ?? null,
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt,
+    };
+    yield `${index > 0 ? "," : ""}${JSON.stringify(item)}`;
+  }
+
+  yield "]}";
+}
+
+/**
+ * Bloques del resumen imprimible en PDF
+ *
+ * Incluye estadísticas del periodo, los registros de ánimo y las
+ * entradas publicadas de la bitácora (los borradores no se imprimen).
+ */
+export function buildPdfSummary(data: ExportData): PdfBlock[] {
+  const t = createTranslator(data.locale);
+  const blocks: PdfBlock[] = [
+    {
+      text: t("export.pdf.title", { app: siteConfig.name }),
+      size: 18,
+      bold: true,
+    },
+    {
+      text: data.user.fullName
+        ? `${data.user.fullName} (${data.user.email})`
+        : data.user.email,
+      spaceBefore: 8,
+    },
+    {
+      text: t("export.pdf.period", {
+        from: formatDateKey(data.from, data.locale),
+        to: formatDateKey(data.to, data.locale),
+      }),
+    },
+    {
+      text: t("export.pdf.generated", {
+        timezone: data.timezone,
+        date: formatDateTime(data.generatedAt, data.timezone, data.locale),
+      }),
+    },
+    { text: t("export.pdf.moods"), size: 14, bold: true, spaceBefore: 16 },
+  ];
+
+  if (data.moods.length === 0) {
+    blocks.push({ text: t("export.pdf.noMoods") });
+  } else {
+    const total = data.moods.length;
+    const sum = data.moods.reduce(
+      (acc, mood) => acc + moodScoreToFivePoint(mood.moodScore),
+      0
+    );
+    const days = new Set(
+      data.moods.map((mood) => getLocalDateKey(mood.recordedAt, data.timezone))
+    );
+
+    blocks.push(
+      { text: t("export.pdf.moodCount", { count: total, days: days.size }) },
+      {
+        text: t("export.pdf.moodAverage", {
+          average: (sum / total).toFixed(2),
+        }),
+      },
+      { text: t("export.pdf.distribution"), bold: true, spaceBefore: 8 }
+    );
+
+    for (const level of [...MOOD_LEVELS].reverse()) {
+      const count = data.moods.filter(
+        (mood) => mood.moodLevel === level
+      ).length;
+      blocks.push({
+        text: `${t(MOOD_LEVEL_LABELS[level].label)}: ${count} (${Math.round(
+          (count / total) * 100
+        )}%)`,
+        indent: 12,
+      });
+    }
+
+    const tags = countTagFrequencies(data.moods).slice(0, 5);
+    if (tags.length > 0) {
+      blocks.push({
+        text: t("export.pdf.topEmotions"),
+        bold: true,
+        spaceBefore: 8,
+      });
+      for (const tag of tags) {
+        blocks.push({
+          text: t("export.pdf.emotion", {
+            tag: tag.tag,
+            count: tag.count,
+            average: tag.averageMood.toFixed(1),
+          }),
+          indent: 12,
+        });
+      }
+    }
+
+    blocks.push({ text: t("export.pdf.entries"), bold: true, spaceBefore: 8 });
+    for (const item of toTimeline({ ...data, journal: [] })) {
+      if (!item.mood) continue;
+      const tagsText =
+        item.mood.emotionTags.length > 0
+          ? ` · ${item.mood.emotionTags.join(", ")}`
+          : "";
+      blocks.push({
+        text: `${item.date} ${item.time} — ${t(
+          MOOD_LEVEL_LABELS[item.mood.moodLevel].label
+        )}${tagsText}`,
+        indent: 12,
+      });
+      if (item.mood.note) {
+        blocks.push({ text: item.mood.note, indent: 24, size: 9 });
+      }
+    }
+  }
+
+  const published = data.journal
+    .filter((entry) => entry.status === "published")
+    .sort((a, b) => a.entryDate.localeCompare(b.entryDate));
+
+  blocks.push({
+    text: t("export.pdf.journal"),
+    size: 14,
+    bold: true,
+    spaceBefore: 16,
+  });
+
+  if (published.length === 0) {
+    blocks.push({ text: t("export.pdf.noJournal") });
+  }
+
+  for (const entry of published) {
+    blocks.push({
+      text: `${formatDateKey(entry.entryDate, data.locale)} — ${entry.title}`,
+      bold: true,
+      spaceBefore: 8,
+    });
+    if (entry.tags.length > 0) {
+      blocks.push({
+        text: t("export.pdf.tags", { tags: entry.tags.join(", ") }),
+        size: 9,
+      });
+    }
+    blocks.push({
+      text: entry.encrypted ? t(ENCRYPTED_BODY_PLACEHOLDER) : entry.body,
+      size: 9,
+      spaceBefore: 4,
+    });
+  }
+
+  return blocks;
+}
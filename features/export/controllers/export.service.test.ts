@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createClient } from "@lib/supabase/server";
+import { createFakeSupabaseClient } from "@lib/supabase/testing";
+import type { MoodEntryRow } from "@features/home/models/home.types";
+import type { JournalEntryRow } from "@features/journal/models/journal.types";
+import { exportService } from "./export.service";
+
+vi.mock("@lib/supabase/server", () => ({ createClient: vi.fn() }));
+
+const USER = { id: "user-1", email: "ana@example.edu.co" };
+const START = Date.parse("2025-01-01T12:00:00.000Z");
+const HOUR_MS = 60 * 60 * 1000;
+
+function moodRow(index: number): MoodEntryRow {
+  const recordedAt = new Date(START + index * 5 * HOUR_MS).toISOString();
+  return {
+    id: `mood-${index}`,
+    user_id: USER.id,
+    client_id: null,
+    mood_level: 3,
+    mood_score: 0.5,
+    scale_id: "faces",
+    scale_value: 3,
+    energy_score: null,
+    anxiety_score: null,
+    emotion_tags: [],
+    note: null,
+    recorded_at: recordedAt,
+    timezone: "America/Bogota",
+    created_at: recordedAt,
+    updated_at: recordedAt,
+  };
+}
+
+function journalRow(index: number): JournalEntryRow {
+  const updatedAt = new Date(START + index * HOUR_MS).toISOString();
+  return {
+    id: `journal-${index}`,
+    user_id: USER.id,
+    entry_date: updatedAt.slice(0, 10),
+    title: `Entrada ${index}`,
+    body: "",
+    encrypted: false,
+    body_ciphertext: null,
+    tags: [],
+    mood_entry_id: null,
+    status: "published",
+    created_at: updatedAt,
+    updated_at: updatedAt,
+  };
+}
+
+/**
+ * `count` filas, de la más reciente a la más antigua (como las ordena
+ * el repositorio)
+ */
+function newestFirst<T>(count: number, build: (index: number) => T): T[] {
+  return Array.from({ length: count }, (_, i) => build(count - 1 - i));
+}
+
+describe("exportService.loadData", () => {
+  let fake: ReturnType<typeof createFakeSupabaseClient>;
+
+  beforeEach(() => {
+    fake = createFakeSupabaseClient({
+      mood_entries: newestFirst(1750, moodRow),
+      journal_entries: newestFirst(1200, journalRow),
+    });
+    vi.mocked(createClient).mockResolvedValue(fake.client as never);
+  });
+
+  it("exporta un año completo aunque pase el límite de filas por consulta", async () => {
+    const result = await exportService.loadData(
+      USER,
+      { format: "json", from: "2025-01-01", to: "2025-12-31" },
+      "America/Bogota",
+      "es-CO"
+    );
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.data.moods).toHaveLength(1750);
+    expect(result.data.journal).toHaveLength(1200);
+    // Orden cronológico, sin huecos ni repetidos
+    expect(result.data.moods[0].id).toBe("mood-0");
+    expect(result.data.moods.at(-1)?.id).toBe("mood-1749");
+    expect(new Set(result.data.moods.map((mood) => mood.id)).size).toBe(1750);
+    expect(result.data.journal[0].id).toBe("journal-0");
+
+    const moodPages = fake.queries.filter((q) => q.table === "mood_entries");
+    expect(moodPages.map((q) => q.from)).toEqual([0, 1000]);
+  });
+});
@@ -0,0 +1,176 @@
+import { siteConfig } from "@lib/config/site";
+import type { Locale } from "@lib/i18n/config";
+import { createTranslator } from "@lib/i18n/translator";
+import { getZonedDateRange } from "@shared/utils/dates";
+import { createPdfDocument } from "@shared/utils/pdf";
+import { moodRepository } from "@features/home/models/mood.repository";
+import { journalRepository } from "@features/journal/models/journal.repository";
+import {
+  ExportErrorType,
+  createExportError,
+  type ExportData,
+  type ExportFile,
+  type ExportFormat,
+  type ExportResult,
+} from "../models/export.types";
+import type { ExportParams } from "../models/export.schema";
+import { buildPdfSummary, encodeCsv, encodeJson } from "./export.formats";
+
+/**
+ * Tamaño de los fragmentos en que se envía el PDF
+ */
+const PDF_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Convierte un iterable de fragmentos en un ReadableStream
+ *
+ * Usa `pull` para generar el siguiente fragmento solo cuando el
+ * cliente consumió el anterior.
+ */
+function toReadableStream(
+  chunks: Iterable<string | Uint8Array>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = chunks[Symbol.iterator]();
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const next = iterator.next();
+      if (next.done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(
+        typeof next.value === "string" ? encoder.encode(next.value) : next.value
+      );
+    },
+    cancel() {
+      iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Parte un arreglo de bytes en fragmentos de tamaño fijo
+ */
+function* splitBytes(bytes: Uint8Array, size: number): Generator<Uint8Array> {
+  for (let offset = 0; offset < bytes.length; offset += size) {
+    yield bytes.subarray(offset, offset + size);
+  }
+}
+
+/**
+ * Servicio de exportación
+ *
+ * Reúne los datos del usuario en el rango pedido y los codifica
+ * en el formato elegido. No verifica la sesión (eso lo hace el
+ * route handler que lo usa).
+ */
+export const exportService = {
+  /**
+   * Cargar registros de ánimo y entradas de bitácora de un rango
+   *
+   * @param user - Usuario dueño de los datos
+   * @param params - Parámetros ya validados con exportParamsSchema
+   * @param timezone - Zona horaria del usuario para interpretar los días
+   * @param locale - Idioma del usuario para las fechas del resumen
+   * @returns ExportResult con los datos a exportar
+   */
+  async loadData(
+    user: ExportData["user"],
+    params: ExportParams,
+    timezone: string,
+    locale: Locale
+  ): Promise<ExportResult<ExportData>> {
+    const [moods, journal] = await Promise.all([
+      moodRepository.listByRange(
+        user.id,
+        getZonedDateRange(params.from, params.to, timezone)
+      ),
+      journalRepository.list(user.id, {
+        fromDate: params.from,
+        toDate: params.to,
+      }),
+    ]);
+
+    if (!moods.success) {
+      return {
+        success: false,
+        error: createExportError(
+          ExportErrorType.UNKNOWN_ERROR,
+          moods.error.details ?? moods.error.message
+        ),
+      };
+    }
+
+    if (!journal.success) {
+      return {
+        success: false,
+        error: createExportError(
+          ExportErrorType.UNKNOWN_ERROR,
+          journal.error.details ?? journal.error.message
+        ),
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        user,
+        timezone,
+        locale,
+        from: params.from,
+        to: params.to,
+        generatedAt: new Date().toISOString(),
+        // Los repositorios devuelven lo más reciente primero
+        moods: [...moods.data].reverse(),
+        journal: [...journal.data].reverse(),
+      },
+    };
+  },
+
+  /**
+   * Generar el archivo a descargar en el formato pedido
+   *
+   * @param data - Datos cargados con loadData
+   * @param format - Formato de salida
+   * @returns Archivo con nombre, tipo MIME y contenido en streaming
+   */
+  createFile(data: ExportData, format: ExportFormat): ExportFile {
+    const t = createTranslator(data.locale);
+    const filename = `${t("export.filename", {
+      app: siteConfig.shortName,
+      from: data.from,
+      to: data.to,
+    })}.${format}`
+      .toLowerCase()
+      .replace(/\s+/g, "-");
+
+    switch (format) {
+      case "csv":
+        return {
+          filename,
+          contentType: "text/csv; charset=utf-8",
+          stream: toReadableStream(encodeCsv(data)),
+        };
+      case "json":
+        return {
+          filename,
+          contentType: "application/json; charset=utf-8",
+          stream: toReadableStream(encodeJson(data)),
+        };
+      case "pdf": {
+        const bytes = createPdfDocument(buildPdfSummary(data), {
+          title: t("export.pdf.title", { app: siteConfig.name }),
+          footer: (page, total) =>
+            t("export.pdf.footer", { app: siteConfig.name, page, total }),
+        });
+        return {
+          filename,
+          contentType: "application/pdf",
+          stream: toReadableStream(splitBytes(bytes, PDF_CHUNK_SIZE)),
+        };
+      }
+    }
+  },
+};
@@ -0,0 +1,59 @@
+import { z } from "zod";
+import type { MessageKey } from "@lib/i18n/translator";
+import { isDateKey } from "@shared/utils/dates";
+import { EXPORT_FORMATS } from "./export.types";
+
+/**
+ * Días máximos que puede abarcar una exportación
+ */
+export const MAX_EXPORT_DAYS = 366;
+
+/**
+ * Claves de los mensajes de validación (ver lib/i18n/messages)
+ *
+ * Llegan como `details` del error y se traducen con getExportErrorText.
+ */
+const VALIDATION_MESSAGES = {
+  format: {
+    invalid: "export.validation.format.invalid",
+  },
+  date: {
+    invalid: "export.validation.date.invalid",
+  },
+  range: {
+    invalid: "export.validation.range.invalid",
+    tooLong: "export.validation.range.tooLong",
+  },
+} satisfies Record<string, Record<string, MessageKey>>;
+
+const dateKeySchema = z
+  .string(VALIDATION_MESSAGES.date.invalid)
+  .refine(isDateKey, VALIDATION_MESSAGES.date.invalid);
+
+/**
+ * Días entre dos claves YYYY-MM-DD (ambas inclusivas)
+ */
+function countDays(from: string, to: string): number {
+  return (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000) + 1;
+}
+
+/**
+ * Schema de los parámetros de exportación (query string de /api/export)
+ */
+export const exportParamsSchema = z
+  .object({
+    format: z.enum(EXPORT_FORMATS, VALIDATION_MESSAGES.format.invalid),
+    from: dateKeySchema,
+    to: dateKeySchema,
+  })
+  .refine((data) => data.from <= data.to, {
+    message: VALIDATION_MESSAGES.range.invalid,
+    path: ["to"],
+  })
+  .refine((data) => countDays(data.from, data.to) <= MAX_EXPORT_DAYS, {
+    message: VALIDATION_MESSAGES.range.tooLong,
+    path: ["to"],
+  });
+
+export type ExportParamsInput = z.input<typeof exportParamsSchema>;
+export type ExportParams = z.output<typeof exportParamsSchema>;
@@ -0,0 +1,128 @@
+import { DEFAULT_LOCALE, type Locale } from "@lib/i18n/config";
+import {
+  createTranslator,
+  translateText,
+  type I18n,
+  type MessageKey,
+} from "@lib/i18n/translator";
+import type { MoodEntry } from "@features/home/models/home.types";
+import type { JournalEntry } from "@features/journal/models/journal.types";
+
+/**
+ * Formatos de exportación disponibles
+ *
+ * - csv: una fila por registro, para hojas de cálculo
+ * - json: documento versionado con todos los datos
+ * - pdf: resumen imprimible (p. ej. para bienestar universitario)
+ */
+export const EXPORT_FORMATS = ["csv", "json", "pdf"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, MessageKey> = {
+  csv: "export.formats.csv",
+  json: "export.formats.json",
+  pdf: "export.formats.pdf",
+};
+
+/**
+ * Versión del documento JSON exportado
+ *
+ * Se incrementa cuando cambia la forma del documento, para que
+ * una futura importación sepa cómo leer archivos antiguos.
+ * v2: cada registro incluye su escala y los valores normalizados.
+ * v3: las entradas de bitácora indican si están cifradas y traen el
+ * cuerpo cifrado.
+ */
+export const EXPORT_SCHEMA_VERSION = 3;
+
+/**
+ * Datos de un usuario en un rango de fechas listos para exportar
+ *
+ * `from` y `to` son días locales YYYY-MM-DD en la zona horaria del usuario;
+ * `locale` es el idioma en que se escriben las fechas y textos del PDF.
+ */
+export interface ExportData {
+  user: { id: string; email: string; fullName?: string };
+  timezone: string;
+  locale: Locale;
+  from: string;
+  to: string;
+  generatedAt: string;
+  moods: MoodEntry[];
+  journal: JournalEntry[];
+}
+
+/**
+ * Archivo exportado: contenido en streaming y metadatos para la respuesta
+ */
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  stream: ReadableStream<Uint8Array>;
+}
+
+/**
+ * Resultado de operaciones de exportación
+ *
+ * Mismo patrón Result que AuthResult
+ */
+export type ExportResult<T = void> =
+  | { success: true; data: T }
+  | { success: false; error: ExportError };
+
+/**
+ * Tipos de errores de la exportación
+ */
+export enum ExportErrorType {
+  UNAUTHORIZED = "UNAUTHORIZED",
+  VALIDATION_ERROR = "VALIDATION_ERROR",
+  NETWORK_ERROR = "NETWORK_ERROR",
+  UNKNOWN_ERROR = "UNKNOWN_ERROR",
+}
+
+/**
+ * Error de exportación estructurado
+ */
+export interface ExportError {
+  type: ExportErrorType;
+  message: string;
+  details?: string;
+}
+
+/**
+ * Clave del mensaje de cada tipo de error (ver lib/i18n/messages)
+ */
+export function getExportErrorMessageKey(type: ExportErrorType): MessageKey {
+  return `export.errors.${type}`;
+}
+
+const defaultT = createTranslator(DEFAULT_LOCALE);
+
+/**
+ * Helper para crear errores de exportación
+ *
+ * `message` queda en el idioma por defecto (para logs); la respuesta
+ * lleva el texto de getExportErrorText en el idioma del usuario.
+ */
+export function createExportError(
+  type: ExportErrorType,
+  details?: string
+): ExportError {
+  return {
+    type,
+    message: defaultT(getExportErrorMessageKey(type)),
+    details,
+  };
+}
+
+/**
+ * Texto a mostrar para un error de exportación
+ *
+ * Usa `details` si lo hay (p. ej. la clave del mensaje de validación).
+ */
+export function getExportErrorText(error: ExportError, { t }: I18n): string {
+  return error.details
+    ? translateText(t, error.details)
+    : t(getExportErrorMessageKey(error.type));
+}
@@ -0,0 +1,133 @@
+import Link from "next/link";
+import { getI18n } from "@lib/i18n/server";
+import { translateText, type Translator } from "@lib/i18n/translator";
+import { formatDateKey, formatTime } from "@shared/utils/formatters";
+import {
+  MOOD_LEVEL_LABELS,
+  type EmotionTag,
+  type MoodEntry,
+} from "@features/home/models/home.types";
+import {
+  MOOD_DIMENSION_SCALES,
+  MOOD_SCALES,
+  denormalizeScore,
+  findScalePoint,
+  getScaleRange,
+} from "@features/home/models/mood.scales";
+import type { DayDetail } from "../models/history.types";
+
+type Props = {
+  detail: DayDetail;
+  closeHref: string;
+  // Emociones personalizadas, para mostrar su color e ícono
+  emotionTags?: EmotionTag[];
+};
+
+/**
+ * Texto del valor en la escala original ("7 de 10") y de las
+ * dimensiones registradas, o null si era una escala de cinco puntos
+ */
+function describeReading(entry: MoodEntry, t: Translator): string | null {
+  const scale = MOOD_SCALES[entry.scale];
+  const parts: string[] = [];
+  if (scale.points.length !== 5) {
+    parts.push(
+      t("history.day.scaleValue", {
+        value: entry.scaleValue,
+        max: getScaleRange(scale.points).max,
+      })
+    );
+  }
+  const dimensions = [
+    ["energy", entry.energyScore],
+    ["anxiety", entry.anxietyScore],
+  ] as const;
+  for (const [dimension, score] of dimensions) {
+    if (score === undefined) continue;
+    const { name, points } = MOOD_DIMENSION_SCALES[dimension];
+    parts.push(`${t(name)}: ${denormalizeScore(points, score)}`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+/**
+ * Panel lateral con los registros de un día
+ *
+ * Se abre con el parámetro `day` y se cierra con un enlace,
+ * así funciona sin JavaScript y se puede compartir la URL.
+ */
+export async function DayDetailDrawer({
+  detail,
+  closeHref,
+  emotionTags = [],
+}: Props) {
+  const { locale, t } = await getI18n();
+  const tagsByName = new Map(emotionTags.map((tag) => [tag.name, tag]));
+
+  return (
+    <aside
+      role="dialog"
+      aria-labelledby="day-detail-title"
+      className="fixed inset-y-0 right-0 z-10 flex w-full max-w-sm flex-col gap-4 overflow-y-auto border-l bg-white p-6 shadow-xl"
+    >
+      <div className="flex items-start justify-between gap-4">
+        <h2 id="day-detail-title" className="text-lg font-semibold capitalize">
+          {formatDateKey(detail.date, locale)}
+        </h2>
+        <Link href={closeHref} className="text-sm underline" scroll={false}>
+          {t("history.day.close")}
+        </Link>
+      </div>
+
+      {detail.entries.length === 0 ? (
+        <p className="text-sm text-slate-600">{t("history.day.empty")}</p>
+      ) : (
+        <ol className="flex flex-col gap-3">
+          {detail.entries.map((entry) => {
+            const point = findScalePoint(entry.scale, entry.scaleValue);
+            const { emoji, label } = MOOD_LEVEL_LABELS[entry.moodLevel];
+            const reading = describeReading(entry, t);
+            return (
+              <li key={entry.id} className="rounded-md border p-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-2xl" aria-hidden="true">
+                    {emoji}
+                  </span>
+                  <span className="font-medium">
+                    {translateText(t, point?.label ?? label)}
+                  </span>
+                  <span className="ml-auto text-xs text-slate-500">
+                    {formatTime(entry.recordedAt, detail.timezone, locale)}
+                  </span>
+                </div>
+                {reading && (
+                  <p className="mt-1 text-xs text-slate-500">{reading}</p>
+                )}
+                {entry.emotionTags.length > 0 && (
+                  <ul className="mt-2 flex flex-wrap gap-1 text-xs">
+                    {entry.emotionTags.map((name) => {
+                      const tag = tagsByName.get(name);
+                      return (
+                        <li
+                          key={name}
+                          className="rounded-full border px-2 py-0.5 text-slate-600"
+                          style={{ borderColor: tag?.color }}
+                        >
+                          {tag?.icon && (
+                            <span aria-hidden="true">{tag.icon} </span>
+                          )}
+                          {name}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+                {entry.note && <p className="mt-2 text-sm">{entry.note}</p>}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,67 @@
+import { getI18n } from "@lib/i18n/server";
+import type { EmotionTag } from "@features/home/models/home.types";
+import type { TagFrequency } from "../models/history.types";
+import { getMoodHeatClass } from "./moodColors";
+
+type Props = {
+  frequencies: TagFrequency[];
+  // Emociones personalizadas, para mostrar su color e ícono
+  emotionTags?: EmotionTag[];
+};
+
+/**
+ * Cuántas veces aparece cada emoción en el mes y con qué ánimo promedio
+ */
+export async function EmotionTagBreakdown({
+  frequencies,
+  emotionTags = [],
+}: Props) {
+  const { t } = await getI18n();
+  const max = frequencies[0]?.count ?? 0;
+  const tagsByName = new Map(emotionTags.map((tag) => [tag.name, tag]));
+
+  return (
+    <section className="rounded-lg border bg-white p-6">
+      <h2 className="text-lg font-semibold">{t("history.emotions.title")}</h2>
+
+      {frequencies.length === 0 ? (
+        <p className="mt-4 text-sm text-slate-600">
+          {t("history.emotions.empty")}
+        </p>
+      ) : (
+        <ul className="mt-4 flex flex-col gap-2">
+          {frequencies.map((frequency) => {
+            const tag = tagsByName.get(frequency.tag);
+            return (
+              <li
+                key={frequency.tag}
+                className="flex items-center gap-3 text-sm"
+              >
+                <span className="flex w-28 items-center gap-1 truncate">
+                  <span
+                    className="h-2 w-2 shrink-0 rounded-full bg-slate-300"
+                    style={{ backgroundColor: tag?.color }}
+                    aria-hidden="true"
+                  />
+                  {tag?.icon && <span aria-hidden="true">{tag.icon}</span>}
+                  {frequency.tag}
+                </span>
+                <span className="h-3 flex-1 rounded bg-slate-100">
+                  <span
+                    className={`block h-3 rounded ${getMoodHeatClass(
+                      frequency.averageMood
+                    )}`}
+                    style={{ width: `${(frequency.count / max) * 100}%` }}
+                  />
+                </span>
+                <span className="w-24 text-right text-slate-600">
+                  {frequency.count} · {frequency.averageMood.toFixed(1)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
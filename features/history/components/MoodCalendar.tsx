@@ -0,0 +1,128 @@
+import Link from "next/link";
+import {
+  addDaysToDateKey,
+  addMonthsToMonthKey,
+  getDayOfWeek,
+  getMonthBounds,
+} from "@shared/utils/dates";
+import { getI18n } from "@lib/i18n/server";
+import { buildHistoryHref, type HistoryParams } from "../models/history.schema";
+import type { MonthHistory } from "../models/history.types";
+import { getMoodHeatClass } from "./moodColors";
+
+type Props = {
+  history: MonthHistory;
+  params: HistoryParams;
+};
+
+/**
+ * Calendario mensual tipo mapa de calor
+ *
+ * Cada día se colorea según su ánimo promedio; al hacer clic
+ * se abre el panel de detalle del día (parámetro `day`).
+ */
+export async function MoodCalendar({ history, params }: Props) {
+  const { locale, t } = await getI18n();
+  const { first, last } = getMonthBounds(history.month);
+  const byDate = new Map(history.days.map((day) => [day.date, day]));
+
+  // Celdas vacías antes del día 1 (semana empieza en lunes)
+  const leading = (getDayOfWeek(first) + 6) % 7;
+  const dates: string[] = [];
+  for (let date = first; date <= last; date = addDaysToDateKey(date, 1)) {
+    dates.push(date);
+  }
+
+  const [year, month] = history.month.split("-").map(Number);
+  const monthLabel = new Intl.DateTimeFormat(locale, {
+    timeZone: "UTC",
+    month: "long",
+    year: "numeric",
+  }).format(new Date(Date.UTC(year, month - 1, 1)));
+
+  // Iniciales de lunes a domingo (el 1 de enero de 2024 fue lunes)
+  const weekdayFormat = new Intl.DateTimeFormat(locale, {
+    timeZone: "UTC",
+    weekday: "narrow",
+  });
+  const weekdays = Array.from({ length: 7 }, (_, index) =>
+    weekdayFormat.format(new Date(Date.UTC(2024, 0, 1 + index)))
+  );
+
+  return (
+    <section className="rounded-lg border bg-white p-6">
+      <div className="flex items-center justify-between">
+        <Link
+          href={buildHistoryHref(params, {
+            month: addMonthsToMonthKey(history.month, -1),
+            day: undefined,
+          })}
+          className="text-sm underline"
+          aria-label={t("history.calendar.previousMonth")}
+        >
+          ←
+        </Link>
+        <h2 className="text-lg font-semibold capitalize">{monthLabel}</h2>
+        <Link
+          href={buildHistoryHref(params, {
+            month: addMonthsToMonthKey(history.month, 1),
+            day: undefined,
+          })}
+          className="text-sm underline"
+          aria-label={t("history.calendar.nextMonth")}
+        >
+          →
+        </Link>
+      </div>
+
+      <div className="mt-4 grid grid-cols-7 gap-1 text-center text-xs">
+        {weekdays.map((weekday, index) => (
+          <span key={index} className="font-semibold text-slate-500">
+            {weekday}
+          </span>
+        ))}
+        {Array.from({ length: leading }, (_, index) => (
+          <span key={`empty-${index}`} />
+        ))}
+        {dates.map((date) => {
+          const summary = byDate.get(date);
+          const dayNumber = Number(date.slice(8));
+          return (
+            <Link
+              key={date}
+              href={buildHistoryHref(params, { day: date })}
+              aria-label={
+                summary
+                  ? t("history.calendar.dayWithEntries", {
+                      date,
+                      average: summary.averageMood,
+                      count: summary.entryCount,
+                    })
+                  : t("history.calendar.dayWithoutEntries", { date })
+              }
+              className={`flex aspect-square items-center justify-center rounded-md text-sm ${
+                summary
+                  ? getMoodHeatClass(summary.averageMood)
+                  : "bg-slate-100 text-slate-400"
+              } ${params.day === date ? "ring-2 ring-slate-900" : ""}`}
+            >
+              {dayNumber}
+            </Link>
+          );
+        })}
+      </div>
+
+      <p className="mt-4 text-sm text-slate-600">
+        {history.entryCount === 1
+          ? t("history.calendar.monthSummaryOne")
+          : t("history.calendar.monthSummaryOther", {
+              count: history.entryCount,
+            })}
+        {history.averageMood !== null &&
+          t("history.calendar.monthAverage", {
+            average: history.averageMood.toFixed(1),
+          })}
+      </p>
+    </section>
+  );
+}
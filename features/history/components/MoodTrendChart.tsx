@@ -0,0 +1,171 @@
+import Link from "next/link";
+import type { Locale } from "@lib/i18n/config";
+import { getI18n } from "@lib/i18n/server";
+import type { MessageKey } from "@lib/i18n/translator";
+import { buildHistoryHref, type HistoryParams } from "../models/history.schema";
+import type { TrendGranularity, TrendPoint } from "../models/history.types";
+
+type Props = {
+  points: TrendPoint[];
+  params: HistoryParams;
+};
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 32 };
+const MIN_MOOD = 1;
+const MAX_MOOD = 5;
+
+const GRANULARITY_LABELS: Record<TrendGranularity, MessageKey> = {
+  week: "history.trend.week",
+  month: "history.trend.month",
+};
+
+/**
+ * Etiqueta corta del eje X para un periodo
+ */
+function formatPeriod(
+  periodStart: string,
+  granularity: TrendGranularity,
+  locale: Locale
+) {
+  const [year, month, day = 1] = periodStart.split("-").map(Number);
+  return new Intl.DateTimeFormat(locale, {
+    timeZone: "UTC",
+    ...(granularity === "week"
+      ? { day: "numeric", month: "short" }
+      : { month: "short" }),
+  }).format(new Date(Date.UTC(year, month - 1, day)));
+}
+
+/**
+ * Gráfica de línea del ánimo promedio (SVG renderizado en el servidor)
+ *
+ * Los periodos sin registros cortan la línea en lugar de unir
+ * puntos lejanos, para no inventar una tendencia.
+ */
+export async function MoodTrendChart({ points, params }: Props) {
+  const { locale, t } = await getI18n();
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const step = points.length > 1 ? plotWidth / (points.length - 1) : 0;
+
+  const x = (index: number) => PADDING.left + index * step;
+  const y = (mood: number) =>
+    PADDING.top +
+    plotHeight -
+    ((mood - MIN_MOOD) / (MAX_MOOD - MIN_MOOD)) * plotHeight;
+
+  // Segmentos continuos (se cortan donde no hay datos)
+  const segments: string[] = [];
+  let current: string[] = [];
+  points.forEach((point, index) => {
+    if (point.averageMood === null) {
+      if (current.length > 0) segments.push(current.join(" "));
+      current = [];
+      return;
+    }
+    current.push(`${x(index)},${y(point.averageMood)}`);
+  });
+  if (current.length > 0) segments.push(current.join(" "));
+
+  const hasData = points.some((point) => point.averageMood !== null);
+
+  return (
+    <section className="rounded-lg border bg-white p-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">{t("history.trend.title")}</h2>
+        <div className="flex gap-2 text-sm">
+          {(["week", "month"] as const).map((granularity) => (
+            <Link
+              key={granularity}
+              href={buildHistoryHref(params, { trend: granularity })}
+              aria-current={params.trend === granularity ? "page" : undefined}
+              className={`rounded-md border px-3 py-1 ${
+                params.trend === granularity ? "bg-slate-900 text-white" : ""
+              }`}
+            >
+              {t(GRANULARITY_LABELS[granularity])}
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      {hasData ? (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="mt-4 w-full"
+          role="img"
+          aria-label={t("history.trend.chartLabel")}
+        >
+          {[1, 2, 3, 4, 5].map((mood) => (
+            <g key={mood}>
+              <line
+                x1={PADDING.left}
+                x2={WIDTH - PADDING.right}
+                y1={y(mood)}
+                y2={y(mood)}
+                className="stroke-slate-200"
+              />
+              <text
+                x={PADDING.left - 8}
+                y={y(mood) + 4}
+                textAnchor="end"
+                className="fill-slate-500 text-[10px]"
+              >
+                {mood}
+              </text>
+            </g>
+          ))}
+
+          {segments.map((segment) => (
+            <polyline
+              key={segment}
+              points={segment}
+              fill="none"
+              className="stroke-slate-900"
+              strokeWidth={2}
+            />
+          ))}
+
+          {points.map((point, index) => (
+            <g key={point.periodStart}>
+              {point.averageMood !== null && (
+                <circle
+                  cx={x(index)}
+                  cy={y(point.averageMood)}
+                  r={4}
+                  className="fill-slate-900"
+                >
+                  <title>
+                    {t("history.trend.point", {
+                      period: formatPeriod(
+                        point.periodStart,
+                        params.trend,
+                        locale
+                      ),
+                      average: point.averageMood,
+                      count: point.entryCount,
+                    })}
+                  </title>
+                </circle>
+              )}
+              <text
+                x={x(index)}
+                y={HEIGHT - 8}
+                textAnchor="middle"
+                className="fill-slate-500 text-[10px]"
+              >
+                {formatPeriod(point.periodStart, params.trend, locale)}
+              </text>
+            </g>
+          ))}
+        </svg>
+      ) : (
+        <p className="mt-4 text-sm text-slate-600">
+          {t("history.trend.empty")}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,18 @@
+/**
+ * Colores del mapa de calor según el ánimo promedio (1-5)
+ */
+const MOOD_HEAT_CLASSES = [
+  "bg-red-400 text-white",
+  "bg-orange-300",
+  "bg-yellow-200",
+  "bg-lime-300",
+  "bg-green-500 text-white",
+] as const;
+
+/**
+ * Clase de Tailwind para un ánimo promedio (se redondea al nivel más cercano)
+ */
+export function getMoodHeatClass(averageMood: number): string {
+  const index = Math.min(4, Math.max(0, Math.round(averageMood) - 1));
+  return MOOD_HEAT_CLASSES[index];
+}
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createClient } from "@lib/supabase/server";
+import { createFakeSupabaseClient } from "@lib/supabase/testing";
+import type { MoodEntryRow } from "@features/home/models/home.types";
+import { historyService } from "./history.service";
+
+vi.mock("@lib/supabase/server", () => ({ createClient: vi.fn() }));
+
+const USER_ID = "user-1";
+const TIMEZONE = "America/Bogota";
+const TODAY = "2025-12-15";
+const ENTRIES_PER_DAY = 6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Seis registros diarios (8 a 13 h en Bogotá) desde el 1 de enero hasta
+ * hoy, del más reciente al más antiguo. Enero es "Muy mal" (1) y el
+ * resto del año "Muy bien" (5).
+ */
+function yearOfMoods(): MoodEntryRow[] {
+  const rows: MoodEntryRow[] = [];
+  for (
+    let day = Date.parse("2025-01-01T00:00:00.000Z");
+    day <= Date.parse(`${TODAY}T00:00:00.000Z`);
+    day += DAY_MS
+  ) {
+    for (let hour = 0; hour < ENTRIES_PER_DAY; hour++) {
+      const recordedAt = new Date(day + (13 + hour) * 3600 * 1000);
+      const iso = recordedAt.toISOString();
+      const score = iso.startsWith("2025-01") ? 0 : 1;
+      rows.push({
+        id: `mood-${rows.length}`,
+        user_id: USER_ID,
+        client_id: null,
+        mood_level: score === 0 ? 1 : 5,
+        mood_score: score,
+        scale_id: "faces",
+        scale_value: score === 0 ? 1 : 5,
+        energy_score: null,
+        anxiety_score: null,
+        emotion_tags: [],
+        note: null,
+        recorded_at: iso,
+        timezone: TIMEZONE,
+        created_at: iso,
+        updated_at: iso,
+      });
+    }
+  }
+  return rows.reverse();
+}
+
+describe("historyService.getTrend", () => {
+  beforeEach(() => {
+    vi.mocked(createClient).mockResolvedValue(
+      createFakeSupabaseClient({ mood_entries: yearOfMoods() }).client as never
+    );
+  });
+
+  it("promedia los meses más antiguos aunque el año pase de 1000 registros", async () => {
+    const result = await historyService.getTrend(
+      USER_ID,
+      "month",
+      TIMEZONE,
+      TODAY
+    );
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const points = result.data;
+    expect(points).toHaveLength(12);
+    expect(points[0]).toEqual({
+      periodStart: "2025-01",
+      averageMood: 1,
+      entryCount: 31 * ENTRIES_PER_DAY,
+    });
+    expect(points[1]).toMatchObject({ periodStart: "2025-02", averageMood: 5 });
+    expect(points.reduce((total, p) => total + p.entryCount, 0)).toBe(
+      349 * ENTRIES_PER_DAY
+    );
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  addDaysToDateKey,
+  addMonthsToMonthKey,
+  getLocalDateKey,
+  getMonthBounds,
+  getWeekStart,
+  getZonedDateRange,
+  type DateKey,
+} from "@shared/utils/dates";
+import { moodRepository } from "@features/home/models/mood.repository";
+import type { MoodEntry, MoodResult } from "@features/home/models/home.types";
+import { moodScoreToFivePoint } from "@features/home/models/mood.scales";
+import type {
+  DayDetail,
+  DaySummary,
+  MonthHistory,
+  TagFrequency,
+  TrendGranularity,
+  TrendPoint,
+} from "../models/history.types";
+
+/**
+ * Cantidad de periodos que muestra la gráfica de tendencia
+ */
+const TREND_PERIODS = 12;
+
+/**
+ * Promedio redondeado a 2 decimales
+ */
+function average(values: number[]): number {
+  const sum = values.reduce((total, value) => total + value, 0);
+  return Math.round((sum / values.length) * 100) / 100;
+}
+
+/**
+ * Ánimo de un registro en 1-5 (con decimales), comparable entre escalas
+ */
+function comparableMood(entry: MoodEntry): number {
+  return moodScoreToFivePoint(entry.moodScore);
+}
+
+/**
+ * Agrupa valores por clave conservando el orden de inserción
+ */
+function groupBy<T>(items: T[], getKey: (item: T) => string) {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = getKey(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Promedio de ánimo por día local
+ *
+ * @param entries - Registros a agrupar
+ * @param timeZone - Zona horaria del usuario
+ * @returns Un resumen por día con registros, ordenados por fecha
+ */
+export function summarizeByDay(
+  entries: MoodEntry[],
+  timeZone: string
+): DaySummary[] {
+  const byDay = groupBy(entries, (entry) =>
+    getLocalDateKey(entry.recordedAt, timeZone)
+  );
+
+  return Array.from(byDay, ([date, dayEntries]) => ({
+    date,
+    averageMood: average(dayEntries.map(comparableMood)),
+    entryCount: dayEntries.length,
+  })).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Promedio de ánimo por semana (desde el lunes) o por mes
+ *
+ * Incluye todos los periodos entre `from` y `to`, con averageMood null
+ * en los periodos sin registros, para que la gráfica muestre los huecos.
+ */
+export function summarizeTrend(
+  entries: MoodEntry[],
+  timeZone: string,
+  granularity: TrendGranularity,
+  from: DateKey,
+  to: DateKey
+): TrendPoint[] {
+  const getPeriod = (dateKey: DateKey) =>
+    granularity === "week" ? getWeekStart(dateKey) : dateKey.slice(0, 7);
+
+  const byPeriod = groupBy(entries, (entry) =>
+    getPeriod(getLocalDateKey(entry.recordedAt, timeZone))
+  );
+
+  const points: TrendPoint[] = [];
+  let period = getPeriod(from);
+  const lastPeriod = getPeriod(to);
+
+  while (period <= lastPeriod) {
+    const periodEntries = byPeriod.get(period) ?? [];
+    points.push({
+      periodStart: period,
+      averageMood:
+        periodEntries.length > 0
+          ? average(periodEntries.map(comparableMood))
+          : null,
+      entryCount: periodEntries.length,
+    });
+    period =
+      granularity === "week"
+        ? addDaysToDateKey(period, 7)
+        : addMonthsToMonthKey(period, 1);
+  }
+
+  return points;
+}
+
+/**
+ * Frecuencia de cada etiqueta de emoción y el ánimo promedio con el que aparece
+ *
+ * @returns Etiquetas ordenadas de más a menos frecuente
+ */
+export function countTagFrequencies(entries: MoodEntry[]): TagFrequency[] {
+  const byTag = new Map<string, number[]>();
+  for (const entry of entries) {
+    for (const tag of entry.emotionTags) {
+      const moods = byTag.get(tag) ?? [];
+      moods.push(comparableMood(entry));
+      byTag.set(tag, moods);
+    }
+  }
+
+  return Array.from(byTag, ([tag, moods]) => ({
+    tag,
+    count: moods.length,
+    averageMood: average(moods),
+  })).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Servicio de Historial de Ánimo
+ *
+ * Toda la agregación ocurre en el servidor: consulta los registros del
+ * rango con moodRepository y los agrupa por día local del usuario.
+ */
+export const historyService = {
+  /**
+   * Resumen de un mes para el calendario y el desglose de emociones
+   *
+   * @param userId - Id del usuario
+   * @param month - Mes YYYY-MM
+   * @param timeZone - Zona horaria del perfil del usuario
+   */
+  async getMonthHistory(
+    userId: string,
+    month: string,
+    timeZone: string
+  ): Promise<MoodResult<MonthHistory>> {
+    const { first, last } = getMonthBounds(month);
+    const result = await moodRepository.listByRange(
+      userId,
+      getZonedDateRange(first, last, timeZone)
+    );
+
+    if (!result.success) {
+      return result;
+    }
+
+    const entries = result.data;
+    return {
+      success: true,
+      data: {
+        month,
+        timezone: timeZone,
+        days: summarizeByDay(entries, timeZone),
+        tagFrequencies: countTagFrequencies(entries),
+        entryCount: entries.length,
+        averageMood:
+          entries.length > 0 ? average(entries.map(comparableMood)) : null,
+      },
+    };
+  },
+
+  /**
+   * Tendencia de las últimas 12 semanas o los últimos 12 meses
+   *
+   * @param userId - Id del usuario
+   * @param granularity - "week" o "month"
+   * @param timeZone - Zona horaria del perfil del usuario
+   * @param today - Día local actual (YYYY-MM-DD)
+   */
+  async getTrend(
+    userId: string,
+    granularity: TrendGranularity,
+    timeZone: string,
+    today: DateKey
+  ): Promise<MoodResult<TrendPoint[]>> {
+    const from =
+      granularity === "week"
+        ? addDaysToDateKey(getWeekStart(today), -7 * (TREND_PERIODS - 1))
+        : `${addMonthsToMonthKey(today.slice(0, 7), -(TREND_PERIODS - 1))}-01`;
+
+    const result = await moodRepository.listByRange(
+      userId,
+      getZonedDateRange(from, today, timeZone)
+    );
+
+    if (!result.success) {
+      return result;
+    }
+
+    return {
+      success: true,
+      data: summarizeTrend(result.data, timeZone, granularity, from, today),
+    };
+  },
+
+  /**
+   * Registros de un día para el panel de detalle
+   *
+   * @param userId - Id del usuario
+   * @param date - Día local YYYY-MM-DD
+   * @param timeZone - Zona horaria del perfil del usuario
+   */
+  async getDayDetail(
+    userId: string,
+    date: DateKey,
+    timeZone: string
+  ): Promise<MoodResult<DayDetail>> {
+    const result = await moodRepository.listByRange(
+      userId,
+      getZonedDateRange(date, date, timeZone)
+    );
+
+    if (!result.success) {
+      return result;
+    }
+
+    return {
+      success: true,
+      data: {
+        date,
+        timezone: timeZone,
+        // Orden cronológico dentro del día
+        entries: [...result.data].reverse(),
+      },
+    };
+  },
+};
@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { siteConfig } from "@lib/config/site";
+import { isDateKey } from "@shared/utils/dates";
+
+/**
+ * Schema de los parámetros de /history (vienen de searchParams)
+ *
+ * - month: mes del calendario (YYYY-MM)
+ * - trend: granularidad de la gráfica
+ * - day: día abierto en el panel de detalle (YYYY-MM-DD)
+ */
+export const historyParamsSchema = z.object({
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/)
+    .optional()
+    .catch(undefined),
+  trend: z.enum(["week", "month"]).catch("week"),
+  day: z.string().refine(isDateKey).optional().catch(undefined),
+});
+
+export type HistoryParams = z.infer<typeof historyParamsSchema>;
+
+/**
+ * Construye un enlace a /history conservando los parámetros actuales
+ *
+ * Pasar `day: undefined` cierra el panel de detalle.
+ */
+export function buildHistoryHref(
+  current: HistoryParams,
+  changes: Partial<HistoryParams>
+): string {
+  const next = { ...current, ...changes };
+  const params = new URLSearchParams();
+  if (next.month) params.set("month", next.month);
+  if (next.trend !== "week") params.set("trend", next.trend);
+  if (next.day) params.set("day", next.day);
+
+  const query = params.toString();
+  return query
+    ? `${siteConfig.routes.history}?${query}`
+    : siteConfig.routes.history;
+}
@@ -0,0 +1,58 @@
+import type { MoodEntry } from "@features/home/models/home.types";
+
+/**
+ * Granularidad de la gráfica de tendencia
+ */
+export type TrendGranularity = "week" | "month";
+
+/**
+ * Resumen de un día local
+ */
+export interface DaySummary {
+  date: string;
+  averageMood: number;
+  entryCount: number;
+}
+
+/**
+ * Punto de la gráfica de tendencia
+ *
+ * `periodStart` es el lunes de la semana (YYYY-MM-DD)
+ * o el mes (YYYY-MM) según la granularidad.
+ * `averageMood` es null en periodos sin registros.
+ */
+export interface TrendPoint {
+  periodStart: string;
+  averageMood: number | null;
+  entryCount: number;
+}
+
+/**
+ * Frecuencia de una etiqueta de emoción
+ */
+export interface TagFrequency {
+  tag: string;
+  count: number;
+  averageMood: number;
+}
+
+/**
+ * Datos de un mes para el calendario y los desgloses
+ */
+export interface MonthHistory {
+  month: string;
+  timezone: string;
+  days: DaySummary[];
+  tagFrequencies: TagFrequency[];
+  entryCount: number;
+  averageMood: number | null;
+}
+
+/**
+ * Registros de un día para el panel de detalle
+ */
+export interface DayDetail {
+  date: string;
+  timezone: string;
+  entries: MoodEntry[];
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useI18n } from "@lib/i18n/client";
+import {
+  createEmotionTagAction,
+  deleteEmotionTagAction,
+  updateEmotionTagAction,
+} from "../controllers/home.actions";
+import {
+  EMOTION_TAG_COLORS,
+  MAX_EMOTION_TAGS,
+  getMoodErrorMessageKey,
+  getMoodErrorText,
+  type EmotionTag,
+} from "../models/home.types";
+
+type Props = {
+  emotionTags: EmotionTag[];
+};
+
+const EMPTY_FORM = { name: "", color: EMOTION_TAG_COLORS[0], icon: "" };
+
+/**
+ * Emociones personalizadas: crear, editar y eliminar
+ *
+ * Las emociones aparecen en el registro rápido de /home. Eliminar una
+ * no cambia los registros que ya la tienen.
+ */
+export function EmotionTagManager({ emotionTags }: Props) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [tags, setTags] = useState(emotionTags);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [values, setValues] = useState<{
+    name: string;
+    color: string;
+    icon: string;
+  }>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const resetForm = () => {
+    setEditingId(null);
+    setValues(EMPTY_FORM);
+  };
+
+  const handleEdit = (tag: EmotionTag) => {
+    setError(null);
+    setEditingId(tag.id);
+    setValues({ name: tag.name, color: tag.color, icon: tag.icon ?? "" });
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      const result = editingId
+        ? await updateEmotionTagAction({ id: editingId, ...values })
+        : await createEmotionTagAction(values);
+
+      if (!result.success) {
+        setError(getMoodErrorText(result.error, i18n));
+        return;
+      }
+
+      const saved = result.data;
+      setTags((current) =>
+        [...current.filter((tag) => tag.id !== saved.id), saved].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      resetForm();
+    });
+  };
+
+  const handleDelete = (tag: EmotionTag) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await deleteEmotionTagAction({ id: tag.id });
+      if (result.success) {
+        setTags((current) => current.filter((item) => item.id !== tag.id));
+        if (editingId === tag.id) resetForm();
+      } else {
+        setError(t(getMoodErrorMessageKey(result.error.type)));
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {tags.length === 0 ? (
+        <p className="text-sm text-slate-600">{t("home.emotionTags.empty")}</p>
+      ) : (
+        <ul className="flex flex-wrap gap-2">
+          {tags.map((tag) => (
+            <li
+              key={tag.id}
+              className="flex items-center gap-2 rounded-full border-2 px-3 py-1 text-sm"
+              style={{ borderColor: tag.color }}
+            >
+              {tag.icon && <span aria-hidden="true">{tag.icon}</span>}
+              {tag.name}
+              <button
+                type="button"
+                onClick={() => handleEdit(tag)}
+                disabled={isPending}
+                className="text-xs underline disabled:opacity-50"
+              >
+                {t("home.emotionTags.edit")}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(tag)}
+                disabled={isPending}
+                aria-label={t("home.emotionTags.delete", { name: tag.name })}
+                className="text-xs text-red-700 disabled:opacity-50"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+        <div className="flex flex-wrap gap-3">
+          <label className="flex flex-col text-sm">
+            {t("home.emotionTags.name")}
+            <input
+              type="text"
+              required
+              maxLength={30}
+              value={values.name}
+              onChange={(e) => setValues({ ...values, name: e.target.value })}
+              className="mt-1 rounded-md border px-3 py-2"
+            />
+          </label>
+          <label className="flex flex-col text-sm">
+            {t("home.emotionTags.icon")}
+            <input
+              type="text"
+              maxLength={8}
+              value={values.icon}
+              onChange={(e) => setValues({ ...values, icon: e.target.value })}
+              placeholder="🌱"
+              className="mt-1 w-20 rounded-md border px-3 py-2"
+            />
+          </label>
+        </div>
+
+        <fieldset className="flex flex-col gap-1">
+          <legend className="text-sm">{t("home.emotionTags.color")}</legend>
+          <div className="flex flex-wrap gap-2">
+            {EMOTION_TAG_COLORS.map((color) => (
+              <label key={color} className="cursor-pointer">
+                <input
+                  type="radio"
+                  name="color"
+                  value={color}
+                  checked={values.color === color}
+                  onChange={() => setValues({ ...values, color })}
+                  className="sr-only"
+                />
+                <span
+                  className={`block h-6 w-6 rounded-full ${
+                    values.color === color
+                      ? "ring-2 ring-slate-900 ring-offset-2"
+                      : ""
+                  }`}
+                  style={{ backgroundColor: color }}
+                  title={color}
+                />
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className="flex items-center gap-3">
+          <button
+            type="submit"
+            disabled={
+              isPending || (!editingId && tags.length >= MAX_EMOTION_TAGS)
+            }
+            className="rounded-md border px-4 py-2 text-sm disabled:opacity-50"
+          >
+            {editingId ? t("home.emotionTags.save") : t("home.emotionTags.add")}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="text-sm underline"
+            >
+              {t("home.emotionTags.cancel")}
+            </button>
+          )}
+        </div>
+        {error && (
+          <p className="text-sm text-red-600" role="alert">
+            {error}
+          </p>
+        )}
+      </form>
+    </div>
+  );
+}
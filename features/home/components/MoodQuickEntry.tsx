@@ -0,0 +1,227 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useI18n } from "@lib/i18n/client";
+import { Button } from "@shared/ui/Button";
+import { Card } from "@shared/ui/Card";
+import { MoodPicker } from "@shared/ui/MoodPicker";
+import { useToast } from "@shared/ui/Toast";
+import { offlineStore } from "@features/offline/models/offline.store";
+import {
+  isConnectionError,
+  notifyOfflineQueueChange,
+} from "@features/offline/models/offline.types";
+import { createMoodEntryAction } from "../controllers/home.actions";
+import {
+  MoodErrorType,
+  getMoodErrorMessageKey,
+  getMoodErrorText,
+  type EmotionTag,
+} from "../models/home.types";
+import {
+  DEFAULT_MOOD_SCALE,
+  MOOD_DIMENSION_SCALES,
+  MOOD_SCALES,
+  translateScalePoints,
+  type MoodDimension,
+  type MoodScaleId,
+} from "../models/mood.scales";
+
+type Props = {
+  userId: string;
+  // Escala elegida en el perfil
+  scale?: MoodScaleId;
+  // Emociones personalizadas del usuario
+  emotionTags?: EmotionTag[];
+};
+
+/**
+ * Registro rápido de ánimo
+ *
+ * Muestra los puntos de la escala del usuario en un MoodPicker; al
+ * guardar se registra con la hora y zona horaria del dispositivo.
+ * Además se pueden marcar emociones y, si la escala las tiene,
+ * energía y ansiedad. El resultado se avisa con un toast.
+ * Sin conexión, el registro queda en la cola offline y se envía
+ * cuando vuelve la red.
+ */
+export function MoodQuickEntry({
+  userId,
+  scale: scaleId = DEFAULT_MOOD_SCALE,
+  emotionTags = [],
+}: Props) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const scale = MOOD_SCALES[scaleId];
+  const points = translateScalePoints(scale.points, t);
+  const { showToast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [value, setValue] = useState<number | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [dimensions, setDimensions] = useState<
+    Partial<Record<MoodDimension, number>>
+  >({});
+
+  const toggleTag = (name: string) => {
+    setSelectedTags((current) =>
+      current.includes(name)
+        ? current.filter((tag) => tag !== name)
+        : [...current, name]
+    );
+  };
+
+  const handleSave = () => {
+    const point = points.find((p) => p.value === value);
+    if (!point) return;
+    const { label } = point;
+
+    startTransition(async () => {
+      const input = {
+        clientId: crypto.randomUUID(),
+        scale: scale.id,
+        value: point.value,
+        energy: dimensions.energy,
+        anxiety: dimensions.anxiety,
+        emotionTags: selectedTags,
+        recordedAt: new Date().toISOString(),
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      };
+
+      const queue = async () => {
+        await offlineStore.queueMoodEntry({
+          clientId: input.clientId,
+          userId,
+          input,
+          queuedAt: input.recordedAt,
+        });
+        notifyOfflineQueueChange({ kind: "queued" });
+        showToast(t("home.quickEntry.queued", { label }));
+        resetSelection();
+      };
+
+      if (!navigator.onLine) {
+        await queue();
+        return;
+      }
+
+      try {
+        const result = await createMoodEntryAction(input);
+
+        if (result.success) {
+          showToast(t("home.quickEntry.saved", { label }), {
+            kind: "success",
+          });
+          resetSelection();
+        } else if (result.error.type === MoodErrorType.NETWORK_ERROR) {
+          await queue();
+        } else {
+          showToast(getMoodErrorText(result.error, i18n), { kind: "error" });
+        }
+      } catch (error) {
+        if (isConnectionError(error)) {
+          await queue();
+        } else {
+          showToast(t(getMoodErrorMessageKey(MoodErrorType.UNKNOWN_ERROR)), {
+            kind: "error",
+          });
+        }
+      }
+    });
+  };
+
+  const resetSelection = () => {
+    setValue(null);
+    setSelectedTags([]);
+    setDimensions({});
+  };
+
+  return (
+    <Card title={t("home.quickEntry.title")} titleId="mood-quick-entry-title">
+      <MoodPicker
+        legend={t("home.quickEntry.legend")}
+        options={points}
+        value={value}
+        onChange={setValue}
+        name="mood"
+        disabled={isPending}
+      />
+
+      {emotionTags.length > 0 && (
+        <fieldset className="mt-4">
+          <legend className="text-sm text-slate-600">
+            {t("home.quickEntry.emotions")}
+          </legend>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {emotionTags.map((tag) => {
+              const selected = selectedTags.includes(tag.name);
+              return (
+                <button
+                  key={tag.id}
+                  type="button"
+                  onClick={() => toggleTag(tag.name)}
+                  aria-pressed={selected}
+                  disabled={isPending}
+                  className="rounded-full border-2 px-3 py-1 text-sm disabled:opacity-50"
+                  style={{
+                    borderColor: tag.color,
+                    backgroundColor: selected ? tag.color : undefined,
+                    color: selected ? "white" : undefined,
+                  }}
+                >
+                  {tag.icon && <span aria-hidden="true">{tag.icon} </span>}
+                  {tag.name}
+                </button>
+              );
+            })}
+          </div>
+        </fieldset>
+      )}
+
+      {scale.dimensions.length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-4">
+          {scale.dimensions.map((dimension) => {
+            const { name, points: dimensionPoints } =
+              MOOD_DIMENSION_SCALES[dimension];
+            return (
+              <label key={dimension} className="flex flex-col text-sm">
+                {t("home.quickEntry.optional", { name: t(name) })}
+                <select
+                  value={dimensions[dimension] ?? ""}
+                  onChange={(e) =>
+                    setDimensions({
+                      ...dimensions,
+                      [dimension]: e.target.value
+                        ? Number(e.target.value)
+                        : undefined,
+                    })
+                  }
+                  disabled={isPending}
+                  className="mt-1 rounded-md border px-2 py-1"
+                >
+                  <option value="">{t("home.quickEntry.notRecorded")}</option>
+                  {translateScalePoints(dimensionPoints, t).map((point) => (
+                    <option key={point.value} value={point.value}>
+                      {point.label === point.symbol
+                        ? point.symbol
+                        : `${point.symbol} · ${point.label}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      <Button
+        onClick={handleSave}
+        disabled={value === null}
+        loading={isPending}
+        loadingText={t("home.quickEntry.saving")}
+        className="mt-4"
+      >
+        {t("home.quickEntry.save")}
+      </Button>
+    </Card>
+  );
+}
@@ -0,0 +1,24 @@
+import { getI18n } from "@lib/i18n/server";
+
+type Props = {
+  fullName?: string;
+};
+
+/**
+ * Tarjeta de bienvenida de /home
+ */
+export async function WelcomeCard({ fullName }: Props) {
+  const { t } = await getI18n();
+  const firstName = fullName?.split(" ")[0];
+
+  return (
+    <section className="rounded-lg border bg-white p-6">
+      <h1 className="text-2xl font-bold">
+        {firstName
+          ? t("home.welcome.titleNamed", { name: firstName })
+          : t("home.welcome.title")}
+      </h1>
+      <p className="mt-2 text-slate-600">{t("home.welcome.description")}</p>
+    </section>
+  );
+}
@@ -0,0 +1,287 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getCurrentUser } from "@lib/auth/session";
+import { siteConfig } from "@lib/config/site";
+import { supportService } from "@features/support/controllers/support.service";
+import { emotionTagRepository } from "../models/emotions.repository";
+import { moodRepository } from "../models/mood.repository";
+import {
+  createMoodEntrySchema,
+  deleteEmotionTagSchema,
+  deleteMoodEntrySchema,
+  emotionTagSchema,
+  moodDateRangeSchema,
+  updateEmotionTagSchema,
+  updateMoodEntrySchema,
+  type CreateMoodEntryInput,
+  type DeleteEmotionTagInput,
+  type DeleteMoodEntryInput,
+  type EmotionTagInput,
+  type MoodDateRangeInput,
+  type UpdateEmotionTagInput,
+  type UpdateMoodEntryInput,
+} from "../models/home.schema";
+import {
+  MoodErrorType,
+  createMoodError,
+  type EmotionTag,
+  type MoodEntry,
+  type MoodResult,
+} from "../models/home.types";
+
+/**
+ * Server Actions de registros de ánimo
+ *
+ * Cada acción:
+ * 1. Verifica que haya un usuario autenticado
+ * 2. Valida la entrada con los schemas de zod
+ * 3. Delega el acceso a datos en moodRepository
+ *
+ * Todas devuelven MoodResult para que los componentes
+ * manejen los errores sin try/catch.
+ */
+
+/**
+ * Crear un registro de ánimo
+ *
+ * Usado por MoodQuickEntry para registrar el ánimo con un solo toque
+ */
+export async function createMoodEntryAction(
+  input: CreateMoodEntryInput
+): Promise<MoodResult<MoodEntry>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createMoodError(MoodErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = createMoodEntrySchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createMoodError(
+        MoodErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await moodRepository.create(user.id, parsed.data);
+  if (result.success) {
+    // Un error al evaluar las señales de apoyo no afecta el registro
+    const support = await supportService.checkMoodEntry(user, result.data);
+    if (!support.success) {
+      console.error(
+        "No se pudieron evaluar las señales de apoyo:",
+        support.error.details ?? support.error.message
+      );
+    }
+    revalidatePath(siteConfig.routes.home);
+  }
+
+  return result;
+}
+
+/**
+ * Actualizar un registro de ánimo existente
+ */
+export async function updateMoodEntryAction(
+  input: UpdateMoodEntryInput
+): Promise<MoodResult<MoodEntry>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createMoodError(MoodErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = updateMoodEntrySchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createMoodError(
+        MoodErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await moodRepository.update(user.id, parsed.data);
+  if (result.success) {
+    revalidatePath(siteConfig.routes.home);
+  }
+
+  return result;
+}
+
+/**
+ * Eliminar un registro de ánimo
+ */
+export async function deleteMoodEntryAction(
+  input: DeleteMoodEntryInput
+): Promise<MoodResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createMoodError(MoodErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = deleteMoodEntrySchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createMoodError(
+        MoodErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await moodRepository.delete(user.id, parsed.data.id);
+  if (result.success) {
+    revalidatePath(siteConfig.routes.home);
+  }
+
+  return result;
+}
+
+/**
+ * Listar los registros de ánimo del usuario en un rango de fechas
+ */
+export async function listMoodEntriesAction(
+  input: MoodDateRangeInput
+): Promise<MoodResult<MoodEntry[]>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createMoodError(MoodErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = moodDateRangeSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createMoodError(
+        MoodErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  return moodRepository.listByRange(user.id, parsed.data);
+}
+
+/**
+ * Revalida las páginas que muestran las emociones personalizadas
+ */
+function revalidateEmotionTags() {
+  revalidatePath(siteConfig.routes.home);
+  revalidatePath(siteConfig.routes.settings);
+}
+
+/**
+ * Crear una emoción personalizada
+ */
+export async function createEmotionTagAction(
+  input: EmotionTagInput
+): Promise<MoodResult<EmotionTag>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createMoodError(MoodErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = emotionTagSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createMoodError(
+        MoodErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await emotionTagRepository.create(user.id, parsed.data);
+  if (result.success) {
+    revalidateEmotionTags();
+  }
+
+  return result;
+}
+
+/**
+ * Cambiar nombre, color o ícono de una emoción personalizada
+ */
+export async function updateEmotionTagAction(
+  input: UpdateEmotionTagInput
+): Promise<MoodResult<EmotionTag>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createMoodError(MoodErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = updateEmotionTagSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createMoodError(
+        MoodErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await emotionTagRepository.update(user.id, parsed.data);
+  if (result.success) {
+    revalidateEmotionTags();
+  }
+
+  return result;
+}
+
+/**
+ * Eliminar una emoción personalizada
+ */
+export async function deleteEmotionTagAction(
+  input: DeleteEmotionTagInput
+): Promise<MoodResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createMoodError(MoodErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = deleteEmotionTagSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createMoodError(
+        MoodErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await emotionTagRepository.delete(user.id, parsed.data.id);
+  if (result.success) {
+    revalidateEmotionTags();
+  }
+
+  return result;
+}
@@ -0,0 +1,220 @@
+import { createClient } from "@lib/supabase/server";
+import {
+  MAX_EMOTION_TAGS,
+  MoodResult,
+  MoodErrorType,
+  createMoodError,
+  mapEmotionTagRow,
+  type EmotionTag,
+  type EmotionTagRow,
+} from "./home.types";
+import type { EmotionTagData, UpdateEmotionTagData } from "./home.schema";
+
+const EMOTION_TAGS_TABLE = "emotion_tags";
+
+/**
+ * Código de Postgres para "valor duplicado" (nombre repetido)
+ */
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Repositorio de Emociones personalizadas
+ *
+ * Capa de acceso a datos para la tabla `emotion_tags`. Cambiar el
+ * nombre de una emoción no reescribe los registros que ya la usan.
+ */
+export const emotionTagRepository = {
+  /**
+   * Listar las emociones del usuario en orden alfabético
+   *
+   * @param userId - Id del usuario
+   */
+  async listForUser(userId: string): Promise<MoodResult<EmotionTag[]>> {
+    try {
+      const supabase = await createClient();
+      const { data: rows, error } = await supabase
+        .from(EMOTION_TAGS_TABLE)
+        .select()
+        .eq("user_id", userId)
+        .order("name", { ascending: true })
+        .overrideTypes<EmotionTagRow[], { merge: false }>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createMoodError(MoodErrorType.UNKNOWN_ERROR, error.message),
+        };
+      }
+
+      return { success: true, data: (rows ?? []).map(mapEmotionTagRow) };
+    } catch (error) {
+      console.error("Error en emotionTagRepository.listForUser:", error);
+      return {
+        success: false,
+        error: createMoodError(MoodErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Crear una emoción
+   *
+   * @param userId - Id del usuario
+   * @param data - Datos ya validados con emotionTagSchema
+   * @returns MoodResult con la emoción, DUPLICATE_TAG o TOO_MANY_TAGS
+   */
+  async create(
+    userId: string,
+    data: EmotionTagData
+  ): Promise<MoodResult<EmotionTag>> {
+    try {
+      const supabase = await createClient();
+      const { count, error: countError } = await supabase
+        .from(EMOTION_TAGS_TABLE)
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId);
+
+      if (countError) {
+        return {
+          success: false,
+          error: createMoodError(
+            MoodErrorType.UNKNOWN_ERROR,
+            countError.message
+          ),
+        };
+      }
+
+      if ((count ?? 0) >= MAX_EMOTION_TAGS) {
+        return {
+          success: false,
+          error: createMoodError(MoodErrorType.TOO_MANY_TAGS),
+        };
+      }
+
+      const { data: row, error } = await supabase
+        .from(EMOTION_TAGS_TABLE)
+        .insert({
+          user_id: userId,
+          name: data.name,
+          color: data.color,
+          icon: data.icon ?? null,
+        })
+        .select()
+        .single<EmotionTagRow>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createMoodError(
+            error.code === UNIQUE_VIOLATION
+              ? MoodErrorType.DUPLICATE_TAG
+              : MoodErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: mapEmotionTagRow(row) };
+    } catch (error) {
+      console.error("Error en emotionTagRepository.create:", error);
+      return {
+        success: false,
+        error: createMoodError(MoodErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Cambiar nombre, color o ícono de una emoción
+   *
+   * @param userId - Id del usuario
+   * @param data - Datos ya validados con updateEmotionTagSchema
+   * @returns MoodResult con la emoción, TAG_NOT_FOUND o DUPLICATE_TAG
+   */
+  async update(
+    userId: string,
+    data: UpdateEmotionTagData
+  ): Promise<MoodResult<EmotionTag>> {
+    try {
+      const supabase = await createClient();
+      const { data: row, error } = await supabase
+        .from(EMOTION_TAGS_TABLE)
+        .update({
+          name: data.name,
+          color: data.color,
+          icon: data.icon ?? null,
+        })
+        .eq("id", data.id)
+        .eq("user_id", userId)
+        .select()
+        .maybeSingle<EmotionTagRow>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createMoodError(
+            error.code === UNIQUE_VIOLATION
+              ? MoodErrorType.DUPLICATE_TAG
+              : MoodErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      if (!row) {
+        return {
+          success: false,
+          error: createMoodError(MoodErrorType.TAG_NOT_FOUND),
+        };
+      }
+
+      return { success: true, data: mapEmotionTagRow(row) };
+    } catch (error) {
+      console.error("Error en emotionTagRepository.update:", error);
+      return {
+        success: false,
+        error: createMoodError(MoodErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Eliminar una emoción (los registros conservan el nombre)
+   *
+   * @param userId - Id del usuario
+   * @param id - Id de la emoción
+   */
+  async delete(userId: string, id: string): Promise<MoodResult> {
+    try {
+      const supabase = await createClient();
+      const { data: rows, error } = await supabase
+        .from(EMOTION_TAGS_TABLE)
+        .delete()
+        .eq("id", id)
+        .eq("user_id", userId)
+        .select("id");
+
+      if (error) {
+        return {
+          success: false,
+          error: createMoodError(MoodErrorType.UNKNOWN_ERROR, error.message),
+        };
+      }
+
+      if (!rows || rows.length === 0) {
+        return {
+          success: false,
+          error: createMoodError(MoodErrorType.TAG_NOT_FOUND),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en emotionTagRepository.delete:", error);
+      return {
+        success: false,
+        error: createMoodError(MoodErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+};
@@ -0,0 +1,376 @@
+import { z } from "zod";
+import { siteConfig } from "@lib/config/site";
+import type { MessageKey } from "@lib/i18n/translator";
+import type { MoodLevel } from "./home.types";
+import {
+  DEFAULT_MOOD_SCALE,
+  MOOD_DIMENSION_SCALES,
+  MOOD_SCALES,
+  MOOD_SCALE_IDS,
+  getScaleRange,
+  moodScoreToLevel,
+  normalizeScaleValue,
+  type MoodDimension,
+  type MoodScaleId,
+  type MoodScalePoint,
+} from "./mood.scales";
+
+/**
+ * Claves de los mensajes de validación (ver lib/i18n/messages)
+ *
+ * Llegan a la interfaz como `details` del error y se traducen
+ * con getMoodErrorText.
+ */
+const VALIDATION_MESSAGES = {
+  moodLevel: {
+    invalid: "home.validation.moodLevel.invalid",
+    missing: "home.validation.moodLevel.missing",
+    fivePointOnly: "home.validation.moodLevel.fivePointOnly",
+  },
+  scale: {
+    invalid: "home.validation.scale.invalid",
+    integer: "home.validation.scale.integer",
+    outOfRange: "home.validation.scale.outOfRange",
+  },
+  dimension: {
+    energy: "home.validation.scale.noEnergy",
+    anxiety: "home.validation.scale.noAnxiety",
+  },
+  emotionTags: {
+    tooMany: "home.validation.emotionTags.tooMany",
+    tooLong: "home.validation.emotionTags.tooLong",
+  },
+  note: {
+    maxLength: "home.validation.note.maxLength",
+  },
+  recordedAt: {
+    invalid: "home.validation.recordedAt.invalid",
+  },
+  timezone: {
+    invalid: "home.validation.timezone.invalid",
+  },
+  id: {
+    invalid: "home.validation.id.invalid",
+  },
+  clientId: {
+    invalid: "home.validation.clientId.invalid",
+  },
+  range: {
+    invalid: "home.validation.range.invalid",
+  },
+  tagName: {
+    required: "home.validation.tagName.required",
+    maxLength: "home.validation.tagName.maxLength",
+  },
+  tagColor: {
+    invalid: "home.validation.tagColor.invalid",
+  },
+  tagIcon: {
+    maxLength: "home.validation.tagIcon.maxLength",
+  },
+} satisfies Record<string, Record<string, MessageKey>>;
+
+/**
+ * Verifica que una zona horaria IANA sea reconocida por el runtime
+ */
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("es-CO", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Schema para el nivel de ánimo (1-5)
+ */
+const moodLevelSchema = z
+  .number(VALIDATION_MESSAGES.moodLevel.invalid)
+  .int(VALIDATION_MESSAGES.moodLevel.invalid)
+  .min(1, VALIDATION_MESSAGES.moodLevel.invalid)
+  .max(5, VALIDATION_MESSAGES.moodLevel.invalid);
+
+/**
+ * Valor entero de una escala (el rango se valida contra la escala)
+ */
+const scaleValueSchema = z
+  .number(VALIDATION_MESSAGES.scale.integer)
+  .int(VALIDATION_MESSAGES.scale.integer);
+
+/**
+ * Campos de una lectura de ánimo en cualquier escala del catálogo
+ *
+ * `value` es el valor en la escala elegida. `moodLevel` es la forma
+ * anterior (1-5) y se sigue aceptando para los registros que quedaron
+ * en la cola offline y para las importaciones.
+ */
+const moodReadingFields = {
+  scale: z.enum(MOOD_SCALE_IDS, VALIDATION_MESSAGES.scale.invalid).optional(),
+  value: scaleValueSchema.optional(),
+  moodLevel: moodLevelSchema.optional(),
+  energy: scaleValueSchema.optional(),
+  anxiety: scaleValueSchema.optional(),
+};
+
+type MoodReadingFields = {
+  scale?: MoodScaleId;
+  value?: number;
+  moodLevel?: number;
+  energy?: number;
+  anxiety?: number;
+};
+
+/**
+ * Lectura de ánimo ya normalizada, lista para guardar
+ */
+export interface NormalizedMoodReading {
+  scale: MoodScaleId;
+  scaleValue: number;
+  moodScore: number;
+  moodLevel: MoodLevel;
+  energyScore: number | null;
+  anxietyScore: number | null;
+}
+
+/**
+ * Valida una lectura contra su escala y la normaliza
+ *
+ * Devuelve el resto de los campos sin tocar más la lectura normalizada.
+ * Si algo no cuadra con la escala agrega los errores y devuelve z.NEVER.
+ */
+function normalizeMoodReading<T extends MoodReadingFields>(
+  data: T,
+  ctx: z.RefinementCtx
+): Omit<T, keyof MoodReadingFields> & NormalizedMoodReading {
+  const { scale: scaleId, value, moodLevel, energy, anxiety, ...rest } = data;
+  const scale = MOOD_SCALES[scaleId ?? DEFAULT_MOOD_SCALE];
+  const scaleValue = value ?? moodLevel;
+  let valid = true;
+
+  const addIssue = (message: string, path: string) => {
+    ctx.addIssue({ code: "custom", message, path: [path] });
+    valid = false;
+  };
+
+  const normalize = (
+    points: readonly MoodScalePoint[],
+    input: number,
+    path: string
+  ) => {
+    const { min, max } = getScaleRange(points);
+    if (input < min || input > max) {
+      addIssue(VALIDATION_MESSAGES.scale.outOfRange, path);
+      return null;
+    }
+    return normalizeScaleValue(points, input);
+  };
+
+  const normalizeDimension = (
+    dimension: MoodDimension,
+    input: number | undefined
+  ) => {
+    if (input === undefined) return null;
+    if (!scale.dimensions.includes(dimension)) {
+      addIssue(VALIDATION_MESSAGES.dimension[dimension], dimension);
+      return null;
+    }
+    return normalize(MOOD_DIMENSION_SCALES[dimension].points, input, dimension);
+  };
+
+  if (scaleValue === undefined) {
+    addIssue(VALIDATION_MESSAGES.moodLevel.missing, "value");
+    return z.NEVER;
+  }
+  if (value === undefined && scale.points.length !== 5) {
+    addIssue(VALIDATION_MESSAGES.moodLevel.fivePointOnly, "moodLevel");
+    return z.NEVER;
+  }
+
+  const moodScore = normalize(scale.points, scaleValue, "value");
+  const energyScore = normalizeDimension("energy", energy);
+  const anxietyScore = normalizeDimension("anxiety", anxiety);
+
+  if (!valid || moodScore === null) return z.NEVER;
+
+  return {
+    ...rest,
+    scale: scale.id,
+    scaleValue,
+    moodScore,
+    moodLevel: moodScoreToLevel(moodScore),
+    energyScore,
+    anxietyScore,
+  };
+}
+
+/**
+ * Como normalizeMoodReading, pero la lectura es opcional (ediciones)
+ */
+function normalizeOptionalMoodReading<T extends MoodReadingFields>(
+  data: T,
+  ctx: z.RefinementCtx
+): Omit<T, keyof MoodReadingFields> & Partial<NormalizedMoodReading> {
+  const { scale, value, moodLevel, energy, anxiety, ...rest } = data;
+  const hasReading = [scale, value, moodLevel, energy, anxiety].some(
+    (field) => field !== undefined
+  );
+  return hasReading ? normalizeMoodReading(data, ctx) : rest;
+}
+
+/**
+ * Schema para las etiquetas de emoción
+ * Se normalizan a minúsculas y sin duplicados
+ */
+const emotionTagsSchema = z
+  .array(
+    z.string().trim().min(1).max(30, VALIDATION_MESSAGES.emotionTags.tooLong)
+  )
+  .max(10, VALIDATION_MESSAGES.emotionTags.tooMany)
+  .transform((tags) => Array.from(new Set(tags.map((t) => t.toLowerCase()))));
+
+/**
+ * Schema para una zona horaria IANA (también lo usan otros módulos)
+ */
+export const timezoneSchema = z
+  .string()
+  .refine(isValidTimezone, VALIDATION_MESSAGES.timezone.invalid);
+
+const recordedAtSchema = z.iso.datetime({
+  offset: true,
+  message: VALIDATION_MESSAGES.recordedAt.invalid,
+});
+
+/**
+ * Campos de un registro de ánimo nuevo, antes de normalizar la lectura
+ *
+ * Las importaciones parten de aquí para exigir `recordedAt` y luego
+ * normalizan con withNormalizedMood.
+ */
+export const moodEntryFieldsSchema = z.object({
+  clientId: z.uuid(VALIDATION_MESSAGES.clientId.invalid).optional(),
+  ...moodReadingFields,
+  emotionTags: emotionTagsSchema.default([]),
+  note: z
+    .string()
+    .trim()
+    .max(500, VALIDATION_MESSAGES.note.maxLength)
+    .optional(),
+  recordedAt: recordedAtSchema.optional(),
+  timezone: timezoneSchema.default(siteConfig.timezone),
+});
+
+/**
+ * Agrega la validación y normalización de la lectura a un schema de campos
+ */
+export function withNormalizedMood<
+  T extends z.ZodType<MoodReadingFields & Record<string, unknown>>
+>(schema: T) {
+  return schema.transform((data, ctx) => normalizeMoodReading(data, ctx));
+}
+
+/**
+ * Schema para crear un registro de ánimo
+ *
+ * Solo el valor de ánimo es obligatorio: así el registro rápido
+ * desde /home se puede hacer con un solo toque.
+ * `clientId` lo genera el dispositivo para que reintentar el envío
+ * (por ejemplo desde la cola offline) no duplique el registro.
+ */
+export const createMoodEntrySchema = withNormalizedMood(moodEntryFieldsSchema);
+
+/**
+ * Schema para actualizar un registro de ánimo
+ *
+ * Todos los campos son opcionales excepto el id. Si cambia el ánimo
+ * se vuelve a normalizar con la escala indicada.
+ */
+export const updateMoodEntrySchema = z
+  .object({
+    id: z.uuid(VALIDATION_MESSAGES.id.invalid),
+    ...moodReadingFields,
+    emotionTags: emotionTagsSchema.optional(),
+    note: z
+      .string()
+      .trim()
+      .max(500, VALIDATION_MESSAGES.note.maxLength)
+      .optional(),
+    recordedAt: recordedAtSchema.optional(),
+    timezone: timezoneSchema.optional(),
+  })
+  .transform((data, ctx) => normalizeOptionalMoodReading(data, ctx));
+
+/**
+ * Schema para eliminar un registro de ánimo
+ */
+export const deleteMoodEntrySchema = z.object({
+  id: z.uuid(VALIDATION_MESSAGES.id.invalid),
+});
+
+/**
+ * Schema para listar registros en un rango de fechas
+ *
+ * `from` es inclusivo y `to` exclusivo
+ */
+export const moodDateRangeSchema = z
+  .object({
+    from: recordedAtSchema,
+    to: recordedAtSchema,
+  })
+  .refine((data) => new Date(data.from) < new Date(data.to), {
+    message: VALIDATION_MESSAGES.range.invalid,
+    path: ["to"],
+  });
+
+/**
+ * Schema para crear una emoción personalizada
+ *
+ * El nombre se guarda en minúsculas, igual que en los registros.
+ */
+export const emotionTagSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, VALIDATION_MESSAGES.tagName.required)
+    .max(30, VALIDATION_MESSAGES.tagName.maxLength)
+    .transform((name) => name.toLowerCase()),
+  color: z
+    .string()
+    .regex(/^#[0-9a-f]{6}$/i, VALIDATION_MESSAGES.tagColor.invalid)
+    .transform((color) => color.toLowerCase()),
+  icon: z
+    .string()
+    .trim()
+    .max(8, VALIDATION_MESSAGES.tagIcon.maxLength)
+    .optional()
+    .transform((icon) => icon || undefined),
+});
+
+/**
+ * Schema para editar una emoción personalizada
+ */
+export const updateEmotionTagSchema = emotionTagSchema.extend({
+  id: z.uuid(VALIDATION_MESSAGES.id.invalid),
+});
+
+/**
+ * Schema para eliminar una emoción personalizada
+ */
+export const deleteEmotionTagSchema = z.object({
+  id: z.uuid(VALIDATION_MESSAGES.id.invalid),
+});
+
+/**
+ * Tipos TypeScript inferidos de los schemas
+ */
+export type CreateMoodEntryInput = z.input<typeof createMoodEntrySchema>;
+export type CreateMoodEntryData = z.output<typeof createMoodEntrySchema>;
+export type UpdateMoodEntryInput = z.input<typeof updateMoodEntrySchema>;
+export type UpdateMoodEntryData = z.output<typeof updateMoodEntrySchema>;
+export type DeleteMoodEntryInput = z.infer<typeof deleteMoodEntrySchema>;
+export type MoodDateRangeInput = z.infer<typeof moodDateRangeSchema>;
+export type EmotionTagInput = z.input<typeof emotionTagSchema>;
+export type EmotionTagData = z.output<typeof emotionTagSchema>;
+export type UpdateEmotionTagInput = z.input<typeof updateEmotionTagSchema>;
+export type UpdateEmotionTagData = z.output<typeof updateEmotionTagSchema>;
+export type DeleteEmotionTagInput = z.infer<typeof deleteEmotionTagSchema>;
@@ -0,0 +1,248 @@
+import { DEFAULT_LOCALE } from "@lib/i18n/config";
+import {
+  createTranslator,
+  translateText,
+  type I18n,
+  type MessageKey,
+} from "@lib/i18n/translator";
+import type { MoodScaleId } from "./mood.scales";
+
+/**
+ * Nivel de ánimo en escala 1-5
+ *
+ * 1 = Muy mal, 5 = Muy bien
+ */
+export type MoodLevel = 1 | 2 | 3 | 4 | 5;
+
+export const MOOD_LEVELS: readonly MoodLevel[] = [1, 2, 3, 4, 5] as const;
+
+/**
+ * Etiquetas (claves del catálogo) y emojis de cada nivel de ánimo
+ * Usados por el historial, la bitácora y las exportaciones
+ */
+export const MOOD_LEVEL_LABELS: Record<
+  MoodLevel,
+  { label: MessageKey; emoji: string }
+> = {
+  1: { label: "home.levels.veryBad", emoji: "😞" },
+  2: { label: "home.levels.bad", emoji: "🙁" },
+  3: { label: "home.levels.neutral", emoji: "😐" },
+  4: { label: "home.levels.good", emoji: "🙂" },
+  5: { label: "home.levels.veryGood", emoji: "😄" },
+};
+
+/**
+ * Registro de estado de ánimo
+ *
+ * Cada registro pertenece a un usuario y guarda el momento exacto
+ * (recordedAt, en UTC) junto con la zona horaria desde la que se registró,
+ * para poder agrupar por día local más adelante.
+ *
+ * `scale` y `scaleValue` son lo que eligió el usuario; `moodScore`
+ * (0-1) y `moodLevel` (1-5) son ese mismo valor normalizado.
+ * `energyScore` y `anxietyScore` (0-1) solo existen si la escala
+ * tenía esas dimensiones.
+ */
+export interface MoodEntry {
+  id: string;
+  userId: string;
+  clientId?: string;
+  moodLevel: MoodLevel;
+  moodScore: number;
+  scale: MoodScaleId;
+  scaleValue: number;
+  energyScore?: number;
+  anxietyScore?: number;
+  emotionTags: string[];
+  note?: string;
+  recordedAt: string;
+  timezone: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Fila de la tabla `mood_entries` tal como la devuelve Supabase
+ */
+export interface MoodEntryRow {
+  id: string;
+  user_id: string;
+  client_id: string | null;
+  mood_level: number;
+  // numeric: PostgREST puede devolverlo como texto
+  mood_score: number | string;
+  scale_id: MoodScaleId;
+  scale_value: number;
+  energy_score: number | string | null;
+  anxiety_score: number | string | null;
+  emotion_tags: string[] | null;
+  note: string | null;
+  recorded_at: string;
+  timezone: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Emoción personalizada del usuario
+ *
+ * Los registros guardan el nombre de la emoción (en minúsculas); el color
+ * y el ícono solo cambian cómo se muestra.
+ */
+export interface EmotionTag {
+  id: string;
+  userId: string;
+  name: string;
+  color: string;
+  icon?: string;
+  createdAt: string;
+}
+
+/**
+ * Fila de la tabla `emotion_tags` tal como la devuelve Supabase
+ */
+export interface EmotionTagRow {
+  id: string;
+  user_id: string;
+  name: string;
+  color: string;
+  icon: string | null;
+  created_at: string;
+}
+
+/**
+ * Colores que se ofrecen al crear una emoción
+ */
+export const EMOTION_TAG_COLORS = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+  "#64748b",
+] as const;
+
+/**
+ * Cantidad máxima de emociones personalizadas por usuario
+ */
+export const MAX_EMOTION_TAGS = 30;
+
+/**
+ * Rango de fechas (ISO 8601) para consultar registros
+ * `from` es inclusivo, `to` es exclusivo
+ */
+export interface MoodDateRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * Resultado de operaciones sobre registros de ánimo
+ *
+ * Mismo patrón Result que AuthResult
+ */
+export type MoodResult<T = void> =
+  | { success: true; data: T }
+  | { success: false; error: MoodError };
+
+/**
+ * Tipos de errores de registros de ánimo
+ */
+export enum MoodErrorType {
+  UNAUTHORIZED = "UNAUTHORIZED",
+  VALIDATION_ERROR = "VALIDATION_ERROR",
+  NOT_FOUND = "NOT_FOUND",
+  TAG_NOT_FOUND = "TAG_NOT_FOUND",
+  DUPLICATE_TAG = "DUPLICATE_TAG",
+  TOO_MANY_TAGS = "TOO_MANY_TAGS",
+  NETWORK_ERROR = "NETWORK_ERROR",
+  UNKNOWN_ERROR = "UNKNOWN_ERROR",
+}
+
+/**
+ * Error de registros de ánimo estructurado
+ */
+export interface MoodError {
+  type: MoodErrorType;
+  message: string;
+  details?: string;
+}
+
+/**
+ * Convierte una fila de `mood_entries` a nuestro tipo MoodEntry
+ */
+export function mapMoodEntryRow(row: MoodEntryRow): MoodEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    clientId: row.client_id ?? undefined,
+    moodLevel: row.mood_level as MoodLevel,
+    moodScore: Number(row.mood_score),
+    scale: row.scale_id,
+    scaleValue: row.scale_value,
+    energyScore:
+      row.energy_score === null ? undefined : Number(row.energy_score),
+    anxietyScore:
+      row.anxiety_score === null ? undefined : Number(row.anxiety_score),
+    emotionTags: row.emotion_tags ?? [],
+    note: row.note ?? undefined,
+    recordedAt: row.recorded_at,
+    timezone: row.timezone,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Convierte una fila de `emotion_tags` a nuestro tipo EmotionTag
+ */
+export function mapEmotionTagRow(row: EmotionTagRow): EmotionTag {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    color: row.color,
+    icon: row.icon ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Clave del mensaje de cada tipo de error (ver lib/i18n/messages)
+ */
+export function getMoodErrorMessageKey(type: MoodErrorType): MessageKey {
+  return `home.errors.${type}`;
+}
+
+const defaultT = createTranslator(DEFAULT_LOCALE);
+
+/**
+ * Helper para crear errores de registros de ánimo
+ *
+ * `message` queda en el idioma por defecto (para logs); la interfaz
+ * muestra el error con getMoodErrorText en el idioma del usuario.
+ */
+export function createMoodError(
+  type: MoodErrorType,
+  details?: string
+): MoodError {
+  return {
+    type,
+    message: defaultT(getMoodErrorMessageKey(type)),
+    details,
+  };
+}
+
+/**
+ * Texto a mostrar para un error de registros de ánimo
+ *
+ * Usa `details` si lo hay (p. ej. la clave del mensaje de validación).
+ */
+export function getMoodErrorText(error: MoodError, { t }: I18n): string {
+  return error.details
+    ? translateText(t, error.details)
+    : t(getMoodErrorMessageKey(error.type));
+}
@@ -0,0 +1,350 @@
+import { fetchAllPages } from "@lib/supabase/pagination";
+import { createClient } from "@lib/supabase/server";
+import {
+  MoodResult,
+  MoodErrorType,
+  createMoodError,
+  mapMoodEntryRow,
+  type MoodDateRange,
+  type MoodEntry,
+  type MoodEntryRow,
+} from "./home.types";
+import type { CreateMoodEntryData, UpdateMoodEntryData } from "./home.schema";
+
+const MOOD_ENTRIES_TABLE = "mood_entries";
+
+/**
+ * Repositorio de Registros de Ánimo
+ *
+ * Capa de acceso a datos para la tabla `mood_entries`.
+ * Sigue el mismo patrón que authRepository: encapsula Supabase
+ * y devuelve resultados tipados (MoodResult).
+ *
+ * Responsabilidades:
+ * - Leer y escribir registros de ánimo en Supabase
+ * - Mapear filas de la base de datos a nuestros tipos
+ * - Manejar errores de forma consistente
+ * - NO valida datos ni verifica sesión (eso va en controllers)
+ *
+ * Todas las consultas filtran por userId además de las políticas RLS,
+ * para no depender únicamente de la configuración de la base de datos.
+ */
+export const moodRepository = {
+  /**
+   * Crear un registro de ánimo
+   *
+   * Si trae `clientId` y ya existe un registro con ese id (un reintento
+   * desde la cola offline), devuelve el existente en lugar de duplicarlo.
+   *
+   * @param userId - Id del usuario dueño del registro
+   * @param data - Datos ya validados con createMoodEntrySchema
+   * @returns MoodResult con el registro creado o error
+   */
+  async create(
+    userId: string,
+    data: CreateMoodEntryData
+  ): Promise<MoodResult<MoodEntry>> {
+    try {
+      const supabase = await createClient();
+      const { data: row, error } = await supabase
+        .from(MOOD_ENTRIES_TABLE)
+        .upsert(
+          {
+            user_id: userId,
+            client_id: data.clientId ?? null,
+            mood_level: data.moodLevel,
+            mood_score: data.moodScore,
+            scale_id: data.scale,
+            scale_value: data.scaleValue,
+            energy_score: data.energyScore,
+            anxiety_score: data.anxietyScore,
+            emotion_tags: data.emotionTags,
+            note: data.note ?? null,
+            recorded_at: data.recordedAt ?? new Date().toISOString(),
+            timezone: data.timezone,
+          },
+          { onConflict: "user_id,client_id", ignoreDuplicates: true }
+        )
+        .select()
+        .maybeSingle<MoodEntryRow>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createMoodError(MoodErrorType.UNKNOWN_ERROR, error.message),
+        };
+      }
+
+      if (row) {
+        return { success: true, data: mapMoodEntryRow(row) };
+      }
+
+      // Sin fila: el clientId ya estaba registrado
+      const { data: existing, error: existingError } = await supabase
+        .from(MOOD_ENTRIES_TABLE)
+        .select()
+        .eq("user_id", userId)
+        .eq("client_id", data.clientId ?? "")
+        .maybeSingle<MoodEntryRow>();
+
+      if (existingError || !existing) {
+        return {
+          success: false,
+          error: createMoodError(
+            MoodErrorType.UNKNOWN_ERROR,
+            existingError?.message
+          ),
+        };
+      }
+
+      return { success: true, data: mapMoodEntryRow(existing) };
+    } catch (error) {
+      console.error("Error en moodRepository.create:", error);
+      return {
+        success: false,
+        error: createMoodError(MoodErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Actualizar un registro de ánimo
+   *
+   * @param userId - Id del usuario dueño del registro
+   * @param data - Datos ya validados con updateMoodEntrySchema
+   * @returns MoodResult con el registro actualizado o error
+   */
+  async update(
+    userId: string,
+    data: UpdateMoodEntryData
+  ): Promise<MoodResult<MoodEntry>> {
+    try {
+      const supabase = await createClient();
+      const { data: row, error } = await supabase
+        .from(MOOD_ENTRIES_TABLE)
+        .update({
+          ...(data.moodScore !== undefined && {
+            mood_level: data.moodLevel,
+            mood_score: data.moodScore,
+            scale_id: data.scale,
+            scale_value: data.scaleValue,
+            energy_score: data.energyScore,
+            anxiety_score: data.anxietyScore,
+          }),
+          ...(data.emotionTags !== undefined && {
+            emotion_tags: data.emotionTags,
+          }),
+          ...(data.note !== undefined && { note: data.note || null }),
+          ...(data.recordedAt !== undefined && {
+            recorded_at: data.recordedAt,
+          }),
+          ...(data.timezone !== undefined && { timezone: data.timezone }),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", data.id)
+        .eq("user_id", userId)
+        .select()
+        .maybeSingle<MoodEntryRow>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createMoodError(MoodErrorType.UNKNOWN_ERROR, error.message),
+        };
+      }
+
+      if (!row) {
+        return {
+          success: false,
+          error: createMoodError(MoodErrorType.NOT_FOUND),
+        };
+      }
+
+      return { success: true, data: mapMoodEntryRow(row) };
+    } catch (error) {
+      console.error("Error en moodRepository.update:", error);
+      return {
+        success: false,
+        error: createMoodError(MoodErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Eliminar un registro de ánimo
+   *
+   * @param userId - Id del usuario dueño del registro
+   * @param id - Id del registro
+   * @returns MoodResult indicando éxito o error
+   */
+  async delete(userId: string, id: string): Promise<MoodResult> {
+    try {
+      const supabase = await createClient();
+      const { data: rows, error } = await supabase
+        .from(MOOD_ENTRIES_TABLE)
+        .delete()
+        .eq("id", id)
+        .eq("user_id", userId)
+        .select("id");
+
+      if (error) {
+        return {
+          success: false,
+          error: createMoodError(MoodErrorType.UNKNOWN_ERROR, error.message),
+        };
+      }
+
+      if (!rows || rows.length === 0) {
+        return {
+          success: false,
+          error: createMoodError(MoodErrorType.NOT_FOUND),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en moodRepository.delete:", error);
+      return {
+        success: false,
+        error: createMoodError(MoodErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Obtener un registro de ánimo por id
+   *
+   * @param userId - Id del usuario dueño del registro
+   * @param id - Id del registro
+   * @returns MoodResult con el registro o NOT_FOUND
+   */
+  async getById(userId: string, id: string): Promise<MoodResult<MoodEntry>> {
+    try {
+      const supabase = await createClient();
+      const { data: row, error } = await supabase
+        .from(MOOD_ENTRIES_TABLE)
+        .select()
+        .eq("id", id)
+        .eq("user_id", userId)
+        .maybeSingle<MoodEntryRow>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createMoodError(MoodErrorType.UNKNOWN_ERROR, error.message),
+        };
+      }
+
+      if (!row) {
+        return {
+          success: false,
+          error: createMoodError(MoodErrorType.NOT_FOUND),
+        };
+      }
+
+      return { success: true, data: mapMoodEntryRow(row) };
+    } catch (error) {
+      console.error("Error en moodRepository.getById:", error);
+      return {
+        success: false,
+        error: createMoodError(MoodErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Listar registros de ánimo dentro de un rango de fechas
+   *
+   * Lee por páginas: un año de registros supera el límite de filas
+   * que PostgREST devuelve en una sola consulta.
+   *
+   * @param userId - Id del usuario
+   * @param range - Rango [from, to) en ISO 8601
+   * @returns MoodResult con los registros ordenados del más reciente al más antiguo
+   */
+  async listByRange(
+    userId: string,
+    range: MoodDateRange
+  ): Promise<MoodResult<MoodEntry[]>> {
+    try {
+      const supabase = await createClient();
+      const { data: rows, error } = await fetchAllPages((from, to) =>
+        supabase
+          .from(MOOD_ENTRIES_TABLE)
+          .select()
+          .eq("user_id", userId)
+          .gte("recorded_at", range.from)
+          .lt("recorded_at", range.to)
+          .order("recorded_at", { ascending: false })
+          .order("id", { ascending: false })
+          .range(from, to)
+          .overrideTypes<MoodEntryRow[], { merge: false }>()
+      );
+
+      if (error) {
+        return {
+          success: false,
+          error: createMoodError(MoodErrorType.UNKNOWN_ERROR, error.message),
+        };
+      }
+
+      return { success: true, data: (rows ?? []).map(mapMoodEntryRow) };
+    } catch (error) {
+      console.error("Error en moodRepository.listByRange:", error);
+      return {
+        success: false,
+        error: createMoodError(MoodErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+  /**
+   * Insertar varios registros en una sola transacción (importaciones)
+   *
+   * Usa la función `import_mood_entries`, que además omite los registros
+   * que ya existen (mismo minuto y mismo nivel). Si una fila falla no se
+   * inserta ninguna.
+   *
+   * @param userId - Id del usuario dueño de los registros
+   * @param entries - Registros ya validados, con fecha y hora
+   * @returns MoodResult con la cantidad de registros insertados
+   */
+  async importMany(
+    userId: string,
+    entries: (CreateMoodEntryData & { recordedAt: string })[]
+  ): Promise<MoodResult<number>> {
+    try {
+      const supabase = await createClient();
+      const { data: inserted, error } = await supabase.rpc(
+        "import_mood_entries",
+        {
+          p_user_id: userId,
+          p_entries: entries.map((entry) => ({
+            mood_level: entry.moodLevel,
+            mood_score: entry.moodScore,
+            scale_id: entry.scale,
+            scale_value: entry.scaleValue,
+            emotion_tags: entry.emotionTags,
+            note: entry.note ?? null,
+            recorded_at: entry.recordedAt,
+            timezone: entry.timezone,
+          })),
+        }
+      );
+
+      if (error) {
+        return {
+          success: false,
+          error: createMoodError(MoodErrorType.UNKNOWN_ERROR, error.message),
+        };
+      }
+
+      return { success: true, data: Number(inserted ?? 0) };
+    } catch (error) {
+      console.error("Error en moodRepository.importMany:", error);
+      return {
+        success: false,
+        error: createMoodError(MoodErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+};
@@ -0,0 +1,251 @@
+import {
+  translateText,
+  type MessageKey,
+  type Translator,
+} from "@lib/i18n/translator";
+import type { MoodLevel } from "./home.types";
+
+/**
+ * Catálogo de escalas de ánimo
+ *
+ * Cada usuario elige una escala en /settings (`profiles.mood_scale`).
+ * Sin importar la escala, cada registro guarda:
+ * - `scale_value`: el valor tal como se eligió (por ejemplo 7 de 10)
+ * - `mood_score`: el valor normalizado entre 0 y 1
+ * - `mood_level`: el nivel 1-5 más cercano, para etiquetas y colores
+ *
+ * Gráficas y agregados del equipo usan `mood_score`, así un 7/10 y un
+ * 4/5 se pueden comparar.
+ */
+export const MOOD_SCALE_IDS = [
+  "faces",
+  "words",
+  "numbers",
+  "emoji",
+  "ten_point",
+] as const;
+export type MoodScaleId = (typeof MOOD_SCALE_IDS)[number];
+
+/**
+ * Escala de los registros antiguos y de las importaciones (1-5)
+ */
+export const DEFAULT_MOOD_SCALE: MoodScaleId = "faces";
+
+/**
+ * Dimensiones que se pueden registrar además del ánimo
+ */
+export const MOOD_DIMENSIONS = ["energy", "anxiety"] as const;
+export type MoodDimension = (typeof MOOD_DIMENSIONS)[number];
+
+/**
+ * Un punto de una escala: valor guardado y cómo se muestra
+ *
+ * `label` (y `symbol` en la escala de palabras) es una clave del
+ * catálogo, salvo en los puntos intermedios de las escalas numéricas,
+ * que llevan el número. Se muestran con translateScalePoints.
+ */
+export interface MoodScalePoint {
+  value: number;
+  label: string;
+  symbol: string;
+}
+
+/**
+ * Definición de una escala del catálogo
+ *
+ * Los puntos van de peor a mejor y sus valores son enteros
+ * consecutivos; el primero y el último definen el rango.
+ */
+export interface MoodScaleDefinition {
+  id: MoodScaleId;
+  name: MessageKey;
+  description: MessageKey;
+  points: readonly MoodScalePoint[];
+  dimensions: readonly MoodDimension[];
+}
+
+const FIVE_POINT_LABELS: MessageKey[] = [
+  "home.levels.veryBad",
+  "home.levels.bad",
+  "home.levels.neutral",
+  "home.levels.good",
+  "home.levels.veryGood",
+];
+
+/**
+ * Escala numérica de `min` a `max` con etiquetas solo en los extremos
+ */
+function numericPoints(
+  min: number,
+  max: number,
+  lowLabel: MessageKey,
+  highLabel: MessageKey
+): MoodScalePoint[] {
+  return Array.from({ length: max - min + 1 }, (_, index) => {
+    const value = min + index;
+    return {
+      value,
+      symbol: String(value),
+      label:
+        value === min ? lowLabel : value === max ? highLabel : String(value),
+    };
+  });
+}
+
+export const MOOD_SCALES: Record<MoodScaleId, MoodScaleDefinition> = {
+  faces: {
+    id: "faces",
+    name: "home.scales.faces.name",
+    description: "home.scales.faces.description",
+    points: ["😞", "🙁", "😐", "🙂", "😄"].map((symbol, index) => ({
+      value: index + 1,
+      label: FIVE_POINT_LABELS[index],
+      symbol,
+    })),
+    dimensions: [],
+  },
+  words: {
+    id: "words",
+    name: "home.scales.words.name",
+    description: "home.scales.words.description",
+    points: FIVE_POINT_LABELS.map((label, index) => ({
+      value: index + 1,
+      label,
+      symbol: label,
+    })),
+    dimensions: [],
+  },
+  numbers: {
+    id: "numbers",
+    name: "home.scales.numbers.name",
+    description: "home.scales.numbers.description",
+    points: numericPoints(1, 5, "home.levels.veryBad", "home.levels.veryGood"),
+    dimensions: [],
+  },
+  emoji: {
+    id: "emoji",
+    name: "home.scales.emoji.name",
+    description: "home.scales.emoji.description",
+    points: [
+      { value: 1, label: "home.levels.awful", symbol: "😭" },
+      { value: 2, label: "home.levels.veryBad", symbol: "😞" },
+      { value: 3, label: "home.levels.bad", symbol: "🙁" },
+      { value: 4, label: "home.levels.neutral", symbol: "😐" },
+      { value: 5, label: "home.levels.good", symbol: "🙂" },
+      { value: 6, label: "home.levels.veryGood", symbol: "😊" },
+      { value: 7, label: "home.levels.great", symbol: "🤩" },
+    ],
+    dimensions: [],
+  },
+  ten_point: {
+    id: "ten_point",
+    name: "home.scales.ten_point.name",
+    description: "home.scales.ten_point.description",
+    points: numericPoints(1, 10, "home.levels.veryBad", "home.levels.veryGood"),
+    dimensions: ["energy", "anxiety"],
+  },
+};
+
+/**
+ * Rango y etiquetas de las dimensiones adicionales (siempre 1-10)
+ */
+export const MOOD_DIMENSION_SCALES: Record<
+  MoodDimension,
+  { name: MessageKey; points: readonly MoodScalePoint[] }
+> = {
+  energy: {
+    name: "home.dimensions.energy.name",
+    points: numericPoints(
+      1,
+      10,
+      "home.dimensions.energy.low",
+      "home.dimensions.energy.high"
+    ),
+  },
+  anxiety: {
+    name: "home.dimensions.anxiety.name",
+    points: numericPoints(
+      1,
+      10,
+      "home.dimensions.anxiety.low",
+      "home.dimensions.anxiety.high"
+    ),
+  },
+};
+
+/**
+ * Puntos de una escala con la etiqueta y el símbolo ya traducidos
+ */
+export function translateScalePoints(
+  points: readonly MoodScalePoint[],
+  t: Translator
+): MoodScalePoint[] {
+  return points.map((point) => ({
+    ...point,
+    label: translateText(t, point.label),
+    symbol: translateText(t, point.symbol),
+  }));
+}
+
+/**
+ * Rango de valores de una lista de puntos
+ */
+export function getScaleRange(points: readonly MoodScalePoint[]) {
+  return { min: points[0].value, max: points[points.length - 1].value };
+}
+
+/**
+ * Lleva un valor de una escala al rango 0-1 (con 3 decimales)
+ *
+ * @param points - Puntos de la escala
+ * @param value - Valor elegido, dentro del rango de la escala
+ */
+export function normalizeScaleValue(
+  points: readonly MoodScalePoint[],
+  value: number
+): number {
+  const { min, max } = getScaleRange(points);
+  return Math.round(((value - min) / (max - min)) * 1000) / 1000;
+}
+
+/**
+ * Valor de una escala que corresponde a un valor normalizado
+ *
+ * Inverso de normalizeScaleValue (redondeado al punto más cercano).
+ */
+export function denormalizeScore(
+  points: readonly MoodScalePoint[],
+  score: number
+): number {
+  const { min, max } = getScaleRange(points);
+  return Math.round(min + score * (max - min));
+}
+
+/**
+ * Nivel 1-5 más cercano a un valor normalizado
+ *
+ * Coincide con la restricción de `mood_entries` en la base de datos.
+ */
+export function moodScoreToLevel(score: number): MoodLevel {
+  return (1 + Math.round(score * 4)) as MoodLevel;
+}
+
+/**
+ * Valor normalizado expresado en la escala 1-5 (con decimales)
+ *
+ * Es la unidad de los promedios en gráficas, para que sigan leyéndose
+ * igual que antes de existir otras escalas.
+ */
+export function moodScoreToFivePoint(score: number): number {
+  return 1 + score * 4;
+}
+
+/**
+ * Punto de una escala para un valor guardado, si existe
+ */
+export function findScalePoint(
+  scale: MoodScaleId,
+  value: number
+): MoodScalePoint | undefined {
+  return MOOD_SCALES[scale].points.find((point) => point.value === value);
+}
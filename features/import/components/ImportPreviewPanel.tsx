@@ -0,0 +1,165 @@
+import { useI18n } from "@lib/i18n/client";
+import { translateText, type MessageKey } from "@lib/i18n/translator";
+import { formatDateTime } from "@shared/utils/formatters";
+import {
+  MOOD_LEVELS,
+  MOOD_LEVEL_LABELS,
+  type MoodLevel,
+} from "@features/home/models/home.types";
+import type { ImportPreview } from "../models/import.types";
+
+type Props = {
+  preview: ImportPreview;
+  timezone: string;
+  moodMapping: Record<string, number>;
+  tagMapping: Record<string, string>;
+  onMoodMappingChange: (value: string, level: MoodLevel | null) => void;
+  onTagMappingChange: (value: string, tag: string) => void;
+};
+
+/**
+ * Resultado del análisis: conteos, mapeos editables y errores por fila
+ */
+export function ImportPreviewPanel({
+  preview,
+  timezone,
+  moodMapping,
+  tagMapping,
+  onMoodMappingChange,
+  onTagMappingChange,
+}: Props) {
+  const { locale, t } = useI18n();
+
+  return (
+    <div className="flex flex-col gap-6">
+      <dl className="grid grid-cols-2 gap-3 text-sm sm:grid-cols-4">
+        {(
+          [
+            ["import.preview.totalRows", preview.totalRows],
+            ["import.preview.valid", preview.validCount],
+            ["import.preview.duplicates", preview.duplicateCount],
+            ["import.preview.invalid", preview.invalidCount],
+          ] satisfies [MessageKey, number][]
+        ).map(([label, value]) => (
+          <div key={label} className="rounded-md border p-3">
+            <dt className="text-slate-600">{t(label)}</dt>
+            <dd className="text-xl font-semibold">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <section>
+        <h3 className="font-semibold">{t("import.preview.moodsTitle")}</h3>
+        <p className="text-sm text-slate-600">
+          {t("import.preview.moodsDescription")}
+        </p>
+        <ul className="mt-2 flex flex-col gap-2">
+          {preview.foreignMoods.map((mood) => (
+            <li key={mood.value} className="flex items-center gap-3 text-sm">
+              <span className="w-40 truncate">
+                {mood.value}{" "}
+                <span className="text-slate-500">({mood.count})</span>
+              </span>
+              <select
+                aria-label={t("import.preview.moodFor", { value: mood.value })}
+                value={moodMapping[mood.value] ?? mood.mappedTo ?? ""}
+                onChange={(e) =>
+                  onMoodMappingChange(
+                    mood.value,
+                    e.target.value
+                      ? (Number(e.target.value) as MoodLevel)
+                      : null
+                  )
+                }
+                className="rounded-md border px-2 py-1"
+              >
+                <option value="">{t("import.preview.unassigned")}</option>
+                {MOOD_LEVELS.map((level) => (
+                  <option key={level} value={level}>
+                    {MOOD_LEVEL_LABELS[level].emoji}{" "}
+                    {t(MOOD_LEVEL_LABELS[level].label)}
+                  </option>
+                ))}
+              </select>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {preview.foreignTags.length > 0 && (
+        <section>
+          <h3 className="font-semibold">{t("import.preview.tagsTitle")}</h3>
+          <p className="text-sm text-slate-600">
+            {t("import.preview.tagsDescription")}
+          </p>
+          <ul className="mt-2 grid gap-2 sm:grid-cols-2">
+            {preview.foreignTags.map((tag) => (
+              <li key={tag.value} className="flex items-center gap-3 text-sm">
+                <span className="w-32 truncate">
+                  {tag.value}{" "}
+                  <span className="text-slate-500">({tag.count})</span>
+                </span>
+                <input
+                  type="text"
+                  aria-label={t("import.preview.tagFor", { value: tag.value })}
+                  value={tagMapping[tag.value] ?? tag.mappedTo ?? ""}
+                  onChange={(e) =>
+                    onTagMappingChange(tag.value, e.target.value)
+                  }
+                  maxLength={30}
+                  className="flex-1 rounded-md border px-2 py-1"
+                />
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {preview.invalidRows.length > 0 && (
+        <section>
+          <h3 className="font-semibold">{t("import.preview.invalidTitle")}</h3>
+          <p className="text-sm text-slate-600">
+            {t("import.preview.invalidDescription")}
+          </p>
+          <ul className="mt-2 flex max-h-64 flex-col gap-1 overflow-y-auto text-sm">
+            {preview.invalidRows.map((row) => (
+              <li key={row.rowNumber}>
+                <span className="font-medium">
+                  {t("import.preview.row", { row: row.rowNumber })}
+                </span>{" "}
+                <span className="text-red-600">
+                  {row.errors
+                    .map((error) =>
+                      translateText(t, error.message, error.params)
+                    )
+                    .join(" · ")}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {preview.sampleRows.length > 0 && (
+        <section>
+          <h3 className="font-semibold">{t("import.preview.sampleTitle")}</h3>
+          <ul className="mt-2 flex flex-col gap-1 text-sm">
+            {preview.sampleRows.map((row) => (
+              <li key={row.rowNumber}>
+                {row.recordedAt &&
+                  formatDateTime(row.recordedAt, timezone, locale)}{" "}
+                — {row.moodLevel && t(MOOD_LEVEL_LABELS[row.moodLevel].label)}
+                {row.emotionTags && row.emotionTags.length > 0 && (
+                  <span className="text-slate-500">
+                    {" "}
+                    · {row.emotionTags.join(", ")}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
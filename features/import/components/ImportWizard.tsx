@@ -0,0 +1,381 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { siteConfig } from "@lib/config/site";
+import { useI18n } from "@lib/i18n/client";
+import type { MessageKey } from "@lib/i18n/translator";
+import { parseCsv } from "@shared/utils/csv";
+import { formatDateTime } from "@shared/utils/formatters";
+import type { MoodLevel } from "@features/home/models/home.types";
+import {
+  commitImportAction,
+  previewImportAction,
+} from "../controllers/import.actions";
+import type { ImportColumns } from "../models/import.schema";
+import {
+  IMPORT_DATE_FORMATS,
+  IMPORT_SOURCES,
+  IMPORT_SOURCE_LABELS,
+  getImportErrorText,
+  type ImportPreview,
+  type ImportSource,
+  type ImportSummary,
+} from "../models/import.types";
+import { ImportPreviewPanel } from "./ImportPreviewPanel";
+
+type Props = {
+  timezone: string;
+};
+
+const EMPTY_COLUMNS: ImportColumns = {
+  date: "",
+  time: "",
+  mood: "",
+  tags: "",
+  note: "",
+  dateFormat: "YYYY-MM-DD",
+  tagSeparator: ";",
+};
+
+const COLUMN_LABELS: Record<
+  "date" | "time" | "mood" | "tags" | "note",
+  MessageKey
+> = {
+  date: "import.wizard.columns.date",
+  time: "import.wizard.columns.time",
+  mood: "import.wizard.columns.mood",
+  tags: "import.wizard.columns.tags",
+  note: "import.wizard.columns.note",
+};
+
+/**
+ * Asistente de importación desde otras apps
+ *
+ * 1. Elegir origen y archivo (y columnas si es un CSV genérico)
+ * 2. Previsualizar: conteos, errores por fila y mapeo de ánimos/actividades
+ * 3. Importar y mostrar el reporte
+ *
+ * Cambiar cualquier opción obliga a previsualizar de nuevo antes de
+ * importar, para que el reporte coincida con lo que se vio.
+ */
+export function ImportWizard({ timezone }: Props) {
+  const i18n = useI18n();
+  const { locale, t } = i18n;
+  const [source, setSource] = useState<ImportSource>("daylio");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [content, setContent] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [columns, setColumns] = useState<ImportColumns>(EMPTY_COLUMNS);
+  const [useScale, setUseScale] = useState(false);
+  const [scale, setScale] = useState({ min: 1, max: 10 });
+  const [moodMapping, setMoodMapping] = useState<Record<string, number>>({});
+  const [tagMapping, setTagMapping] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isStale, setIsStale] = useState(true);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const markStale = () => setIsStale(true);
+
+  const buildInput = () => ({
+    source,
+    content,
+    timezone,
+    columns:
+      source === "generic"
+        ? {
+            ...columns,
+            time: columns.time || undefined,
+            tags: columns.tags || undefined,
+            note: columns.note || undefined,
+          }
+        : undefined,
+    moodScale: source === "generic" && useScale ? scale : undefined,
+    moodMapping,
+    tagMapping,
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    setPreview(null);
+    setSummary(null);
+    setError(null);
+    markStale();
+
+    if (!file) {
+      setFileName(null);
+      setContent("");
+      setHeaders([]);
+      return;
+    }
+
+    const text = await file.text();
+    setFileName(file.name);
+    setContent(text);
+    setHeaders(parseCsv(text.split(/\r?\n/, 1)[0] ?? "")[0] ?? []);
+    setColumns(EMPTY_COLUMNS);
+  };
+
+  const handlePreview = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await previewImportAction(buildInput());
+      if (result.success) {
+        setPreview(result.data);
+        setIsStale(false);
+      } else {
+        setError(getImportErrorText(result.error, i18n));
+      }
+    });
+  };
+
+  const handleCommit = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await commitImportAction(buildInput());
+      if (result.success) {
+        setSummary(result.data);
+      } else {
+        setError(getImportErrorText(result.error, i18n));
+      }
+    });
+  };
+
+  const handleMoodMappingChange = (value: string, level: MoodLevel | null) => {
+    setMoodMapping((current) => {
+      const next = { ...current };
+      if (level === null) delete next[value];
+      else next[value] = level;
+      return next;
+    });
+    markStale();
+  };
+
+  const handleTagMappingChange = (value: string, tag: string) => {
+    setTagMapping((current) => ({ ...current, [value]: tag }));
+    markStale();
+  };
+
+  if (summary) {
+    return (
+      <section className="rounded-lg border bg-white p-6" aria-live="polite">
+        <h2 className="text-lg font-semibold">{t("import.summary.title")}</h2>
+        <ul className="mt-4 flex flex-col gap-1 text-sm">
+          <li>{t("import.summary.totalRows", { count: summary.totalRows })}</li>
+          <li>{t("import.summary.imported", { count: summary.imported })}</li>
+          <li>
+            {t("import.summary.duplicates", { count: summary.duplicates })}
+          </li>
+          <li>{t("import.summary.invalid", { count: summary.invalid })}</li>
+          {summary.from && summary.to && (
+            <li>
+              {t("import.summary.range", {
+                from: formatDateTime(summary.from, timezone, locale),
+                to: formatDateTime(summary.to, timezone, locale),
+              })}
+            </li>
+          )}
+        </ul>
+        <Link
+          href={siteConfig.routes.history}
+          className="mt-4 inline-block text-sm underline"
+        >
+          {t("import.summary.historyLink")}
+        </Link>
+      </section>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <section className="flex flex-col gap-4 rounded-lg border bg-white p-6">
+        <div className="flex flex-wrap gap-4">
+          <label className="flex flex-col text-sm">
+            {t("import.wizard.source")}
+            <select
+              value={source}
+              onChange={(e) => {
+                setSource(e.target.value as ImportSource);
+                markStale();
+              }}
+              className="mt-1 rounded-md border px-3 py-2"
+            >
+              {IMPORT_SOURCES.map((option) => (
+                <option key={option} value={option}>
+                  {t(IMPORT_SOURCE_LABELS[option])}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col text-sm">
+            {t("import.wizard.file")}
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="mt-1 text-sm"
+            />
+          </label>
+        </div>
+
+        {source === "generic" && headers.length > 0 && (
+          <fieldset className="flex flex-col gap-3">
+            <legend className="text-sm font-medium">
+              {t("import.wizard.columnsLegend")}
+            </legend>
+            <div className="flex flex-wrap gap-4">
+              {(
+                Object.keys(COLUMN_LABELS) as (keyof typeof COLUMN_LABELS)[]
+              ).map((name) => (
+                <label key={name} className="flex flex-col text-sm">
+                  {t(COLUMN_LABELS[name])}
+                  <select
+                    value={columns[name] ?? ""}
+                    onChange={(e) => {
+                      setColumns({ ...columns, [name]: e.target.value });
+                      markStale();
+                    }}
+                    className="mt-1 rounded-md border px-3 py-2"
+                  >
+                    <option value="">—</option>
+                    {headers.map((header) => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+
+              <label className="flex flex-col text-sm">
+                {t("import.wizard.dateFormat")}
+                <select
+                  value={columns.dateFormat}
+                  onChange={(e) => {
+                    setColumns({
+                      ...columns,
+                      dateFormat: e.target.value as ImportColumns["dateFormat"],
+                    });
+                    markStale();
+                  }}
+                  className="mt-1 rounded-md border px-3 py-2"
+                >
+                  {IMPORT_DATE_FORMATS.map((format) => (
+                    <option key={format} value={format}>
+                      {format}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex flex-col text-sm">
+                {t("import.wizard.tagSeparator")}
+                <input
+                  type="text"
+                  value={columns.tagSeparator}
+                  onChange={(e) => {
+                    setColumns({ ...columns, tagSeparator: e.target.value });
+                    markStale();
+                  }}
+                  maxLength={3}
+                  className="mt-1 w-20 rounded-md border px-3 py-2"
+                />
+              </label>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={useScale}
+                onChange={(e) => {
+                  setUseScale(e.target.checked);
+                  markStale();
+                }}
+              />
+              {t("import.wizard.useScale")}
+            </label>
+            {useScale && (
+              <div className="flex gap-4">
+                {(["min", "max"] as const).map((bound) => (
+                  <label key={bound} className="flex flex-col text-sm">
+                    {t(
+                      bound === "min"
+                        ? "import.wizard.scaleMin"
+                        : "import.wizard.scaleMax"
+                    )}
+                    <input
+                      type="number"
+                      value={scale[bound]}
+                      onChange={(e) => {
+                        setScale({ ...scale, [bound]: Number(e.target.value) });
+                        markStale();
+                      }}
+                      className="mt-1 w-24 rounded-md border px-3 py-2"
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+          </fieldset>
+        )}
+
+        <div>
+          <button
+            type="button"
+            onClick={handlePreview}
+            disabled={!content || isPending}
+            className="rounded-md border px-4 py-2 text-sm disabled:opacity-50"
+          >
+            {isPending
+              ? t("import.wizard.previewing")
+              : t("import.wizard.preview")}
+          </button>
+          {fileName && (
+            <span className="ml-3 text-xs text-slate-500">{fileName}</span>
+          )}
+        </div>
+      </section>
+
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+
+      {preview && (
+        <section className="flex flex-col gap-4 rounded-lg border bg-white p-6">
+          <ImportPreviewPanel
+            preview={preview}
+            timezone={timezone}
+            moodMapping={moodMapping}
+            tagMapping={tagMapping}
+            onMoodMappingChange={handleMoodMappingChange}
+            onTagMappingChange={handleTagMappingChange}
+          />
+
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={handleCommit}
+              disabled={isStale || preview.validCount === 0 || isPending}
+              className="rounded-md bg-slate-900 px-4 py-2 text-sm text-white disabled:opacity-50"
+            >
+              {preview.validCount === 1
+                ? t("import.wizard.commitOne")
+                : t("import.wizard.commitOther", {
+                    count: preview.validCount,
+                  })}
+            </button>
+            {isStale && (
+              <span className="text-xs text-slate-500">
+                {t("import.wizard.stale")}
+              </span>
+            )}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
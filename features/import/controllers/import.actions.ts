@@ -0,0 +1,86 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getCurrentUser } from "@lib/auth/session";
+import { siteConfig } from "@lib/config/site";
+import {
+  importRequestSchema,
+  type ImportRequestInput,
+} from "../models/import.schema";
+import {
+  ImportErrorType,
+  createImportError,
+  type ImportPreview,
+  type ImportResult,
+  type ImportSummary,
+} from "../models/import.types";
+import { importService } from "./import.service";
+
+/**
+ * Server Actions de importación
+ *
+ * Ambas reciben el archivo completo y las opciones de mapeo;
+ * el análisis siempre se hace en el servidor (ver importService).
+ */
+
+/**
+ * Previsualizar una importación sin guardar nada
+ */
+export async function previewImportAction(
+  input: ImportRequestInput
+): Promise<ImportResult<ImportPreview>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createImportError(ImportErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = importRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createImportError(
+        ImportErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  return importService.preview(user.id, parsed.data);
+}
+
+/**
+ * Importar los registros válidos y devolver el reporte
+ */
+export async function commitImportAction(
+  input: ImportRequestInput
+): Promise<ImportResult<ImportSummary>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createImportError(ImportErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = importRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createImportError(
+        ImportErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await importService.commit(user.id, parsed.data);
+  if (result.success) {
+    revalidatePath(siteConfig.routes.home);
+    revalidatePath(siteConfig.routes.history);
+  }
+
+  return result;
+}
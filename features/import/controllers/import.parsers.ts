@@ -0,0 +1,372 @@
+import { z } from "zod";
+import { parseCsv } from "@shared/utils/csv";
+import { getZonedDateTime, isDateKey, type DateKey } from "@shared/utils/dates";
+import {
+  moodEntryFieldsSchema,
+  withNormalizedMood,
+} from "@features/home/models/home.schema";
+import type { MoodLevel } from "@features/home/models/home.types";
+import {
+  MAX_IMPORT_ROWS,
+  type ImportRequestData,
+} from "../models/import.schema";
+import {
+  ImportErrorType,
+  createImportError,
+  type ImportDateFormat,
+  type ImportResult,
+  type RawImportRow,
+} from "../models/import.types";
+
+/**
+ * Lectura y validación de archivos de otras apps
+ *
+ * Primero cada archivo se convierte a filas crudas (RawImportRow) con
+ * el mismo formato sin importar el origen; después cada fila se valida
+ * con el schema de fila, que la lleva a nuestra escala y etiquetas.
+ */
+
+/**
+ * Ánimos predeterminados de Daylio (en inglés y en español)
+ *
+ * Daylio permite renombrarlos; los nombres personalizados se asignan
+ * desde la previsualización con moodMapping.
+ */
+export const DAYLIO_MOOD_LEVELS: Record<string, MoodLevel> = {
+  rad: 5,
+  good: 4,
+  meh: 3,
+  bad: 2,
+  awful: 1,
+  genial: 5,
+  bien: 4,
+  normal: 3,
+  regular: 3,
+  mal: 2,
+  fatal: 1,
+  horrible: 1,
+};
+
+/**
+ * Columnas de la exportación CSV de Daylio
+ */
+const DAYLIO_COLUMNS = {
+  date: "full_date",
+  time: "time",
+  mood: "mood",
+  activities: "activities",
+  noteTitle: "note_title",
+  note: "note",
+};
+
+const DAYLIO_ACTIVITY_SEPARATOR = "|";
+
+/**
+ * Hora por defecto cuando el archivo no trae hora
+ */
+const DEFAULT_TIME = { hour: 12, minute: 0 };
+
+/**
+ * Clave con la que se comparan valores del archivo con los mapeos
+ */
+export function normalizeForeignValue(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Nivel 1-5 que corresponde a un valor de ánimo del archivo
+ *
+ * Orden de prioridad: mapeo elegido por el usuario, escala numérica
+ * de origen, números que ya están en 1-5 y ánimos de Daylio.
+ */
+export function mapMoodValue(
+  value: string,
+  data: ImportRequestData
+): MoodLevel | null {
+  const key = normalizeForeignValue(value);
+  if (!key) return null;
+
+  if (key in data.moodMapping) {
+    return data.moodMapping[key] as MoodLevel;
+  }
+
+  const numeric = Number(key.replace(",", "."));
+  if (Number.isFinite(numeric)) {
+    if (data.moodScale) {
+      const { min, max } = data.moodScale;
+      if (numeric < min || numeric > max) return null;
+      return Math.round(1 + ((numeric - min) * 4) / (max - min)) as MoodLevel;
+    }
+    return Number.isInteger(numeric) && numeric >= 1 && numeric <= 5
+      ? (numeric as MoodLevel)
+      : null;
+  }
+
+  return DAYLIO_MOOD_LEVELS[key] ?? null;
+}
+
+/**
+ * Etiqueta de emoción que corresponde a una actividad del archivo
+ *
+ * Devuelve null si el usuario decidió descartarla (mapeo vacío).
+ */
+export function mapTagValue(
+  value: string,
+  data: ImportRequestData
+): string | null {
+  const key = normalizeForeignValue(value);
+  if (key in data.tagMapping) {
+    return normalizeForeignValue(data.tagMapping[key]) || null;
+  }
+  return key || null;
+}
+
+/**
+ * Convierte una fecha del archivo a clave YYYY-MM-DD
+ */
+export function parseDateValue(
+  value: string,
+  format: ImportDateFormat
+): DateKey | null {
+  const text = value.trim();
+  let key: string | null = null;
+
+  if (format === "YYYY-MM-DD") {
+    key = /^\d{4}-\d{2}-\d{2}/.exec(text)?.[0] ?? null;
+  } else {
+    const match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/.exec(text);
+    if (match) {
+      const [, first, second, year] = match;
+      const [day, month] =
+        format === "DD/MM/YYYY" ? [first, second] : [second, first];
+      key = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+    }
+  }
+
+  return key && isDateKey(key) ? key : null;
+}
+
+/**
+ * Convierte una hora del archivo (24 h o con a. m./p. m.) a hora y minuto
+ */
+export function parseTimeValue(
+  value: string
+): { hour: number; minute: number } | null {
+  // Algunas apps separan "p. m." con espacios no separables
+  const text = value.replace(/[\u00A0\u202F]/g, " ").trim();
+  if (!text) return DEFAULT_TIME;
+
+  const match = /^(\d{1,2}):(\d{2})(?::\d{2})?\s*(?:([ap])\.?\s*m\.?)?$/i.exec(
+    text
+  );
+  if (!match) return null;
+
+  let hour = Number(match[1]);
+  const minute = Number(match[2]);
+  const meridiem = match[3]?.toLowerCase();
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === "p" ? 12 : 0);
+  }
+
+  return hour <= 23 && minute <= 59 ? { hour, minute } : null;
+}
+
+/**
+ * Quita el HTML básico con el que Daylio guarda las notas
+ */
+function stripHtml(text: string): string {
+  return text
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .trim();
+}
+
+/**
+ * Lee el archivo y lo convierte en filas crudas
+ *
+ * @param data - Importación ya validada con importRequestSchema
+ * @returns ImportResult con el encabezado y las filas, o INVALID_FILE
+ */
+export function readImportFile(
+  data: ImportRequestData
+): ImportResult<{ headers: string[]; rows: RawImportRow[] }> {
+  const [headerRow, ...dataRows] = parseCsv(data.content);
+
+  if (!headerRow || dataRows.length === 0) {
+    return {
+      success: false,
+      error: createImportError(
+        ImportErrorType.INVALID_FILE,
+        "import.file.empty"
+      ),
+    };
+  }
+
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    return {
+      success: false,
+      error: createImportError(
+        ImportErrorType.INVALID_FILE,
+        "import.file.tooManyRows"
+      ),
+    };
+  }
+
+  const headers = headerRow.map((header) => header.trim());
+  const findColumn = (name: string | undefined, caseInsensitive: boolean) =>
+    name
+      ? headers.findIndex((header) =>
+          caseInsensitive
+            ? normalizeForeignValue(header) === normalizeForeignValue(name)
+            : header === name.trim()
+        )
+      : -1;
+
+  const columns =
+    data.source === "daylio"
+      ? {
+          date: findColumn(DAYLIO_COLUMNS.date, true),
+          time: findColumn(DAYLIO_COLUMNS.time, true),
+          mood: findColumn(DAYLIO_COLUMNS.mood, true),
+          tags: findColumn(DAYLIO_COLUMNS.activities, true),
+          noteTitle: findColumn(DAYLIO_COLUMNS.noteTitle, true),
+          note: findColumn(DAYLIO_COLUMNS.note, true),
+        }
+      : {
+          date: findColumn(data.columns?.date, false),
+          time: findColumn(data.columns?.time, false),
+          mood: findColumn(data.columns?.mood, false),
+          tags: findColumn(data.columns?.tags, false),
+          noteTitle: -1,
+          note: findColumn(data.columns?.note, false),
+        };
+
+  if (columns.date === -1 || columns.mood === -1) {
+    return {
+      success: false,
+      error: createImportError(
+        ImportErrorType.INVALID_FILE,
+        data.source === "daylio"
+          ? "import.file.notDaylio"
+          : "import.file.missingColumns"
+      ),
+    };
+  }
+
+  const separator =
+    data.source === "daylio"
+      ? DAYLIO_ACTIVITY_SEPARATOR
+      : data.columns?.tagSeparator ?? ";";
+  const cell = (row: string[], index: number) =>
+    index === -1 ? "" : (row[index] ?? "").trim();
+
+  const rows = dataRows.map((row, index) => {
+    const note = [cell(row, columns.noteTitle), cell(row, columns.note)]
+      .filter(Boolean)
+      .join("\n");
+
+    return {
+      // +2: el encabezado es la fila 1 y las filas se cuentan desde 1
+      rowNumber: index + 2,
+      date: cell(row, columns.date),
+      time: cell(row, columns.time),
+      mood: cell(row, columns.mood),
+      tags: cell(row, columns.tags)
+        .split(separator)
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      note: data.source === "daylio" ? stripHtml(note) : note,
+    };
+  });
+
+  return { success: true, data: { headers, rows } };
+}
+
+/**
+ * Un registro importado siempre trae su fecha y hora
+ */
+const importedMoodEntrySchema = withNormalizedMood(
+  moodEntryFieldsSchema.required({ recordedAt: true })
+);
+
+/**
+ * Schema de una fila cruda para una importación concreta
+ *
+ * Convierte fecha, hora, ánimo y actividades con los mapeos elegidos
+ * y termina validando con createMoodEntrySchema, así una fila
+ * importada cumple las mismas reglas que un registro hecho en la app.
+ */
+export function createImportRowSchema(data: ImportRequestData) {
+  const dateFormat = data.columns?.dateFormat ?? "YYYY-MM-DD";
+
+  return z
+    .object({
+      date: z.string().transform((value, ctx) => {
+        const key = parseDateValue(value, dateFormat);
+        if (!key) {
+          ctx.addIssue({
+            code: "custom",
+            message: "import.row.invalidDate",
+            params: { value, format: dateFormat },
+          });
+          return z.NEVER;
+        }
+        return key;
+      }),
+      time: z.string().transform((value, ctx) => {
+        const time = parseTimeValue(value);
+        if (!time) {
+          ctx.addIssue({
+            code: "custom",
+            message: "import.row.invalidTime",
+            params: { value },
+          });
+          return z.NEVER;
+        }
+        return time;
+      }),
+      mood: z.string().transform((value, ctx) => {
+        const level = mapMoodValue(value, data);
+        if (!level) {
+          ctx.addIssue({
+            code: "custom",
+            message: value
+              ? "import.row.unknownMood"
+              : "import.row.missingMood",
+            params: { value },
+          });
+          return z.NEVER;
+        }
+        return level;
+      }),
+      tags: z
+        .array(z.string())
+        .transform((tags) =>
+          tags
+            .map((tag) => mapTagValue(tag, data))
+            .filter((tag): tag is string => tag !== null)
+        ),
+      note: z.string(),
+    })
+    .transform(
+      (row): z.input<typeof importedMoodEntrySchema> => ({
+        moodLevel: row.mood,
+        emotionTags: row.tags,
+        note: row.note || undefined,
+        recordedAt: getZonedDateTime(
+          row.date,
+          row.time.hour,
+          row.time.minute,
+          data.timezone
+        ).toISOString(),
+        timezone: data.timezone,
+      })
+    )
+    .pipe(importedMoodEntrySchema);
+}
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createClient } from "@lib/supabase/server";
+import { createFakeSupabaseClient } from "@lib/supabase/testing";
+import type { MoodEntryRow } from "@features/home/models/home.types";
+import { importRequestSchema } from "../models/import.schema";
+import { importService } from "./import.service";
+
+vi.mock("@lib/supabase/server", () => ({ createClient: vi.fn() }));
+
+const USER_ID = "user-1";
+const TIMEZONE = "America/Bogota";
+// Bogotá está en UTC-5 todo el año
+const OFFSET_MS = -5 * 60 * 60 * 1000;
+const START = Date.parse("2025-01-01T13:00:00.000Z");
+const HOUR_MS = 60 * 60 * 1000;
+
+const EXISTING = 1500;
+const NEW = 20;
+
+const recordedAt = (index: number) =>
+  new Date(START + index * 3 * HOUR_MS).toISOString();
+
+function moodRow(index: number): MoodEntryRow {
+  return {
+    id: `mood-${index}`,
+    user_id: USER_ID,
+    client_id: null,
+    mood_level: 4,
+    mood_score: 0.75,
+    scale_id: "faces",
+    scale_value: 4,
+    energy_score: null,
+    anxiety_score: null,
+    emotion_tags: [],
+    note: null,
+    recorded_at: recordedAt(index),
+    timezone: TIMEZONE,
+    created_at: recordedAt(index),
+    updated_at: recordedAt(index),
+  };
+}
+
+/**
+ * CSV genérico con una fila por registro, en hora local de Bogotá
+ */
+function csvFor(indexes: number[]): string {
+  const lines = indexes.map((index) => {
+    const local = new Date(Date.parse(recordedAt(index)) + OFFSET_MS)
+      .toISOString()
+      .slice(0, 16);
+    return `${local.slice(0, 10)},${local.slice(11)},4`;
+  });
+  return ["fecha,hora,animo", ...lines].join("\n");
+}
+
+describe("importService.preview", () => {
+  beforeEach(() => {
+    // Los registros existentes, del más reciente al más antiguo
+    const rows = Array.from({ length: EXISTING }, (_, i) =>
+      moodRow(EXISTING - 1 - i)
+    );
+    vi.mocked(createClient).mockResolvedValue(
+      createFakeSupabaseClient({ mood_entries: rows }).client as never
+    );
+  });
+
+  it("detecta duplicados más allá de las primeras 1000 filas existentes", async () => {
+    const indexes = Array.from({ length: EXISTING + NEW }, (_, i) => i);
+    const data = importRequestSchema.parse({
+      source: "generic",
+      content: csvFor(indexes),
+      timezone: TIMEZONE,
+      columns: { date: "fecha", time: "hora", mood: "animo" },
+    });
+
+    const result = await importService.preview(USER_ID, data);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.totalRows).toBe(EXISTING + NEW);
+    expect(result.data.duplicateCount).toBe(EXISTING);
+    expect(result.data.validCount).toBe(NEW);
+  });
+});
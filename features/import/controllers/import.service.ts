@@ -0,0 +1,259 @@
+import { moodRepository } from "@features/home/models/mood.repository";
+import type { CreateMoodEntryData } from "@features/home/models/home.schema";
+import type { MoodLevel } from "@features/home/models/home.types";
+import type { ImportRequestData } from "../models/import.schema";
+import {
+  ImportErrorType,
+  createImportError,
+  type ForeignMoodValue,
+  type ForeignTagValue,
+  type ImportPreview,
+  type ImportResult,
+  type ImportRowResult,
+  type ImportSummary,
+} from "../models/import.types";
+import {
+  createImportRowSchema,
+  mapMoodValue,
+  mapTagValue,
+  normalizeForeignValue,
+  readImportFile,
+} from "./import.parsers";
+
+/**
+ * Filas válidas que se muestran como muestra en la previsualización
+ */
+const PREVIEW_SAMPLE_SIZE = 20;
+
+const MINUTE_MS = 60 * 1000;
+
+type ImportedEntry = CreateMoodEntryData & { recordedAt: string };
+
+/**
+ * Clave para detectar duplicados: mismo minuto y mismo nivel
+ * (la misma regla que aplica la función import_mood_entries)
+ */
+function getDuplicateKey(recordedAt: string, moodLevel: number): string {
+  return `${new Date(recordedAt).toISOString().slice(0, 16)}|${moodLevel}`;
+}
+
+/**
+ * Cuenta valores normalizados ordenados de más a menos frecuente
+ */
+function countValues(values: string[]): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const key = normalizeForeignValue(value);
+    if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+/**
+ * Lee el archivo, valida cada fila y marca duplicados
+ *
+ * Los duplicados se buscan contra los registros existentes en el rango
+ * del archivo y contra las filas anteriores del mismo archivo.
+ */
+async function analyze(
+  userId: string,
+  data: ImportRequestData
+): Promise<
+  ImportResult<{
+    headers: string[];
+    results: ImportRowResult[];
+    entries: ImportedEntry[];
+  }>
+> {
+  const file = readImportFile(data);
+  if (!file.success) return file;
+
+  const rowSchema = createImportRowSchema(data);
+  const parsed = file.data.rows.map((raw) => ({
+    raw,
+    result: rowSchema.safeParse(raw),
+  }));
+
+  const recordedTimes = parsed
+    .filter((row) => row.result.success)
+    .map((row) => (row.result.data as ImportedEntry).recordedAt)
+    .sort();
+
+  const existingKeys = new Set<string>();
+  if (recordedTimes.length > 0) {
+    const existing = await moodRepository.listByRange(userId, {
+      from: recordedTimes[0],
+      to: new Date(
+        Date.parse(recordedTimes[recordedTimes.length - 1]) + MINUTE_MS
+      ).toISOString(),
+    });
+
+    if (!existing.success) {
+      return {
+        success: false,
+        error: createImportError(
+          ImportErrorType.UNKNOWN_ERROR,
+          existing.error.details ?? existing.error.message
+        ),
+      };
+    }
+
+    for (const entry of existing.data) {
+      existingKeys.add(getDuplicateKey(entry.recordedAt, entry.moodLevel));
+    }
+  }
+
+  const results: ImportRowResult[] = [];
+  const entries: ImportedEntry[] = [];
+
+  for (const { raw, result } of parsed) {
+    if (!result.success) {
+      results.push({
+        rowNumber: raw.rowNumber,
+        status: "invalid",
+        raw,
+        errors: result.error.issues.map((issue) => ({
+          message: issue.message,
+          params: issue.code === "custom" ? issue.params : undefined,
+        })),
+      });
+      continue;
+    }
+
+    const entry = result.data;
+    const key = getDuplicateKey(entry.recordedAt, entry.moodLevel);
+    const isDuplicate = existingKeys.has(key);
+    existingKeys.add(key);
+
+    results.push({
+      rowNumber: raw.rowNumber,
+      status: isDuplicate ? "duplicate" : "valid",
+      raw,
+      moodLevel: entry.moodLevel as MoodLevel,
+      emotionTags: entry.emotionTags,
+      recordedAt: entry.recordedAt,
+      errors: [],
+    });
+
+    if (!isDuplicate) entries.push(entry);
+  }
+
+  return {
+    success: true,
+    data: { headers: file.data.headers, results, entries },
+  };
+}
+
+/**
+ * Servicio de importación
+ *
+ * La previsualización y la confirmación repiten el mismo análisis:
+ * lo que se importa nunca depende de datos calculados en el navegador.
+ */
+export const importService = {
+  /**
+   * Analizar un archivo sin guardar nada
+   *
+   * @param userId - Id del usuario que importa
+   * @param data - Importación ya validada con importRequestSchema
+   * @returns ImportResult con conteos, errores por fila y valores a mapear
+   */
+  async preview(
+    userId: string,
+    data: ImportRequestData
+  ): Promise<ImportResult<ImportPreview>> {
+    const analysis = await analyze(userId, data);
+    if (!analysis.success) return analysis;
+
+    const { headers, results } = analysis.data;
+    const rows = results.map((result) => result.raw);
+
+    const foreignMoods: ForeignMoodValue[] = countValues(
+      rows.map((row) => row.mood)
+    ).map(([value, count]) => ({
+      value,
+      count,
+      mappedTo: mapMoodValue(value, data),
+    }));
+
+    const foreignTags: ForeignTagValue[] = countValues(
+      rows.flatMap((row) => row.tags)
+    ).map(([value, count]) => ({
+      value,
+      count,
+      mappedTo: mapTagValue(value, data),
+    }));
+
+    const countByStatus = (status: ImportRowResult["status"]) =>
+      results.filter((result) => result.status === status).length;
+
+    return {
+      success: true,
+      data: {
+        headers,
+        totalRows: results.length,
+        validCount: countByStatus("valid"),
+        invalidCount: countByStatus("invalid"),
+        duplicateCount: countByStatus("duplicate"),
+        invalidRows: results.filter((result) => result.status === "invalid"),
+        sampleRows: results
+          .filter((result) => result.status === "valid")
+          .slice(0, PREVIEW_SAMPLE_SIZE),
+        foreignMoods,
+        foreignTags,
+      },
+    };
+  },
+
+  /**
+   * Importar las filas válidas que no estén duplicadas
+   *
+   * Las filas con errores se omiten y se cuentan en el reporte.
+   *
+   * @param userId - Id del usuario que importa
+   * @param data - Importación ya validada con importRequestSchema
+   * @returns ImportResult con el reporte de la importación
+   */
+  async commit(
+    userId: string,
+    data: ImportRequestData
+  ): Promise<ImportResult<ImportSummary>> {
+    const analysis = await analyze(userId, data);
+    if (!analysis.success) return analysis;
+
+    const { results, entries } = analysis.data;
+    if (entries.length === 0) {
+      return {
+        success: false,
+        error: createImportError(ImportErrorType.NOTHING_TO_IMPORT),
+      };
+    }
+
+    const inserted = await moodRepository.importMany(userId, entries);
+    if (!inserted.success) {
+      return {
+        success: false,
+        error: createImportError(
+          ImportErrorType.UNKNOWN_ERROR,
+          inserted.error.details ?? inserted.error.message
+        ),
+      };
+    }
+
+    const invalid = results.filter((r) => r.status === "invalid").length;
+    const times = entries.map((entry) => entry.recordedAt).sort();
+
+    return {
+      success: true,
+      data: {
+        totalRows: results.length,
+        imported: inserted.data,
+        // Incluye los que la base de datos descartó al insertar
+        duplicates: results.length - invalid - inserted.data,
+        invalid,
+        from: times[0],
+        to: times[times.length - 1],
+      },
+    };
+  },
+};
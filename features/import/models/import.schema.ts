@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { siteConfig } from "@lib/config/site";
+import type { MessageKey } from "@lib/i18n/translator";
+import { timezoneSchema } from "@features/home/models/home.schema";
+import { IMPORT_DATE_FORMATS, IMPORT_SOURCES } from "./import.types";
+
+/**
+ * Tamaño máximo del archivo (en caracteres) y de filas por importación
+ *
+ * next.config.ts sube el límite de las Server Actions para que quepa.
+ */
+export const MAX_IMPORT_FILE_CHARS = 3_000_000;
+export const MAX_IMPORT_ROWS = 10_000;
+
+/**
+ * Claves de los mensajes de validación (ver lib/i18n/messages)
+ *
+ * Llegan a la interfaz como `details` del error y se traducen
+ * con getImportErrorText.
+ */
+const VALIDATION_MESSAGES = {
+  source: {
+    invalid: "import.validation.source.invalid",
+  },
+  content: {
+    required: "import.validation.content.required",
+    tooLarge: "import.validation.content.tooLarge",
+  },
+  columns: {
+    required: "import.validation.columns.required",
+    column: "import.validation.columns.column",
+  },
+  moodScale: {
+    invalid: "import.validation.moodScale.invalid",
+  },
+  moodMapping: {
+    invalid: "import.validation.moodMapping.invalid",
+  },
+  tagMapping: {
+    tooLong: "import.validation.tagMapping.tooLong",
+  },
+} satisfies Record<string, Record<string, MessageKey>>;
+
+/**
+ * Columnas de un CSV genérico (nombres tal como aparecen en el encabezado)
+ *
+ * Solo la fecha y el ánimo son obligatorios. Sin columna de hora los
+ * registros quedan al mediodía, para no cambiar de día con la zona horaria.
+ */
+export const importColumnsSchema = z.object({
+  date: z.string().min(1, VALIDATION_MESSAGES.columns.column),
+  time: z.string().optional(),
+  mood: z.string().min(1, VALIDATION_MESSAGES.columns.column),
+  tags: z.string().optional(),
+  note: z.string().optional(),
+  dateFormat: z.enum(IMPORT_DATE_FORMATS).default("YYYY-MM-DD"),
+  tagSeparator: z.string().min(1).max(3).default(";"),
+});
+
+/**
+ * Escala numérica de origen (p. ej. 1 a 10) para convertirla a 1-5
+ */
+export const importMoodScaleSchema = z
+  .object({
+    min: z.number(),
+    max: z.number(),
+  })
+  .refine(
+    (scale) => scale.min < scale.max,
+    VALIDATION_MESSAGES.moodScale.invalid
+  );
+
+/**
+ * Schema de una importación (previsualizar y confirmar usan el mismo)
+ *
+ * - moodMapping: valor de ánimo del archivo → nivel 1-5
+ * - tagMapping: actividad del archivo → emoción ("" la descarta)
+ *
+ * Las claves de ambos mapeos van en minúsculas y sin espacios extremos.
+ */
+export const importRequestSchema = z
+  .object({
+    source: z.enum(IMPORT_SOURCES, VALIDATION_MESSAGES.source.invalid),
+    content: z
+      .string()
+      .min(1, VALIDATION_MESSAGES.content.required)
+      .max(MAX_IMPORT_FILE_CHARS, VALIDATION_MESSAGES.content.tooLarge),
+    timezone: timezoneSchema.default(siteConfig.timezone),
+    columns: importColumnsSchema.optional(),
+    moodScale: importMoodScaleSchema.optional(),
+    moodMapping: z
+      .record(
+        z.string(),
+        z
+          .number(VALIDATION_MESSAGES.moodMapping.invalid)
+          .int(VALIDATION_MESSAGES.moodMapping.invalid)
+          .min(1, VALIDATION_MESSAGES.moodMapping.invalid)
+          .max(5, VALIDATION_MESSAGES.moodMapping.invalid)
+      )
+      .default({}),
+    tagMapping: z
+      .record(
+        z.string(),
+        z.string().trim().max(30, VALIDATION_MESSAGES.tagMapping.tooLong)
+      )
+      .default({}),
+  })
+  .refine((data) => data.source !== "generic" || data.columns, {
+    message: VALIDATION_MESSAGES.columns.required,
+    path: ["columns"],
+  });
+
+/**
+ * Tipos TypeScript inferidos de los schemas
+ */
+export type ImportColumns = z.output<typeof importColumnsSchema>;
+export type ImportRequestInput = z.input<typeof importRequestSchema>;
+export type ImportRequestData = z.output<typeof importRequestSchema>;
@@ -0,0 +1,198 @@
+import { DEFAULT_LOCALE } from "@lib/i18n/config";
+import {
+  createTranslator,
+  translateText,
+  type I18n,
+  type MessageKey,
+  type MessageParams,
+} from "@lib/i18n/translator";
+import type { MoodLevel } from "@features/home/models/home.types";
+
+/**
+ * Origen del archivo a importar
+ *
+ * - daylio: exportación CSV de Daylio (columnas fijas)
+ * - generic: cualquier CSV, indicando qué columna es cada dato
+ */
+export const IMPORT_SOURCES = ["daylio", "generic"] as const;
+
+export type ImportSource = (typeof IMPORT_SOURCES)[number];
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, MessageKey> = {
+  daylio: "import.sources.daylio",
+  generic: "import.sources.generic",
+};
+
+/**
+ * Formatos de fecha aceptados en un CSV genérico
+ */
+export const IMPORT_DATE_FORMATS = [
+  "YYYY-MM-DD",
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+] as const;
+
+export type ImportDateFormat = (typeof IMPORT_DATE_FORMATS)[number];
+
+/**
+ * Fila del archivo ya separada en campos, antes de validar
+ *
+ * `rowNumber` es la línea del archivo (la 1 es el encabezado),
+ * para que los errores se puedan ubicar en la hoja de cálculo.
+ */
+export interface RawImportRow {
+  rowNumber: number;
+  date: string;
+  time: string;
+  mood: string;
+  tags: string[];
+  note: string;
+}
+
+/**
+ * Estado de una fila en la previsualización
+ *
+ * - valid: se importará
+ * - invalid: tiene errores de validación
+ * - duplicate: ya existe un registro igual (o se repite en el archivo)
+ */
+export type ImportRowStatus = "valid" | "invalid" | "duplicate";
+
+/**
+ * Error de validación de una fila
+ *
+ * `message` es la clave del mensaje (ver lib/i18n/messages) y
+ * `params` los valores de la fila que menciona.
+ */
+export interface ImportRowError {
+  message: string;
+  params?: MessageParams;
+}
+
+/**
+ * Resultado de validar una fila del archivo
+ */
+export interface ImportRowResult {
+  rowNumber: number;
+  status: ImportRowStatus;
+  raw: RawImportRow;
+  moodLevel?: MoodLevel;
+  emotionTags?: string[];
+  recordedAt?: string;
+  errors: ImportRowError[];
+}
+
+/**
+ * Valor de ánimo o actividad encontrado en el archivo
+ *
+ * `mappedTo` es el nivel o la etiqueta que se usará con el
+ * mapeo actual (null si no hay correspondencia).
+ */
+export interface ForeignMoodValue {
+  value: string;
+  count: number;
+  mappedTo: MoodLevel | null;
+}
+
+export interface ForeignTagValue {
+  value: string;
+  count: number;
+  mappedTo: string | null;
+}
+
+/**
+ * Previsualización de una importación
+ *
+ * Incluye todas las filas con error y una muestra de las válidas,
+ * para no enviar miles de filas al navegador.
+ */
+export interface ImportPreview {
+  headers: string[];
+  totalRows: number;
+  validCount: number;
+  invalidCount: number;
+  duplicateCount: number;
+  invalidRows: ImportRowResult[];
+  sampleRows: ImportRowResult[];
+  foreignMoods: ForeignMoodValue[];
+  foreignTags: ForeignTagValue[];
+}
+
+/**
+ * Reporte final de una importación
+ */
+export interface ImportSummary {
+  totalRows: number;
+  imported: number;
+  duplicates: number;
+  invalid: number;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Resultado de operaciones de importación
+ *
+ * Mismo patrón Result que AuthResult
+ */
+export type ImportResult<T = void> =
+  | { success: true; data: T }
+  | { success: false; error: ImportError };
+
+/**
+ * Tipos de errores de la importación
+ */
+export enum ImportErrorType {
+  UNAUTHORIZED = "UNAUTHORIZED",
+  VALIDATION_ERROR = "VALIDATION_ERROR",
+  INVALID_FILE = "INVALID_FILE",
+  NOTHING_TO_IMPORT = "NOTHING_TO_IMPORT",
+  NETWORK_ERROR = "NETWORK_ERROR",
+  UNKNOWN_ERROR = "UNKNOWN_ERROR",
+}
+
+/**
+ * Error de importación estructurado
+ */
+export interface ImportError {
+  type: ImportErrorType;
+  message: string;
+  details?: string;
+}
+
+/**
+ * Clave del mensaje de cada tipo de error (ver lib/i18n/messages)
+ */
+export function getImportErrorMessageKey(type: ImportErrorType): MessageKey {
+  return `import.errors.${type}`;
+}
+
+const defaultT = createTranslator(DEFAULT_LOCALE);
+
+/**
+ * Helper para crear errores de importación
+ *
+ * `message` queda en el idioma por defecto (para logs); la interfaz
+ * muestra el error con getImportErrorText en el idioma del usuario.
+ */
+export function createImportError(
+  type: ImportErrorType,
+  details?: string
+): ImportError {
+  return {
+    type,
+    message: defaultT(getImportErrorMessageKey(type)),
+    details,
+  };
+}
+
+/**
+ * Texto a mostrar para un error de importación
+ *
+ * Usa `details` si lo hay (p. ej. la clave del mensaje de validación).
+ */
+export function getImportErrorText(error: ImportError, { t }: I18n): string {
+  return error.details
+    ? translateText(t, error.details)
+    : t(getImportErrorMessageKey(error.type));
+}
@@ -0,0 +1,153 @@
+import Link from "next/link";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import type { MessageKey, Translator } from "@lib/i18n/translator";
+import {
+  INSIGHTS_WINDOW_DAYS,
+  TIME_OF_DAY_SLOTS,
+  WEEKDAY_NAMES,
+  type Insight,
+  type MoodInsights,
+  type TimeOfDaySlot,
+  type VolatilityLevel,
+} from "../models/insights.types";
+
+type Props = {
+  insights: MoodInsights;
+};
+
+const VOLATILITY_TEXT: Record<VolatilityLevel, MessageKey> = {
+  stable: "insights.volatility.stable",
+  moderate: "insights.volatility.moderate",
+  high: "insights.volatility.high",
+};
+
+function slotLabel(slot: TimeOfDaySlot, t: Translator): string {
+  const label = TIME_OF_DAY_SLOTS.find(({ id }) => id === slot)?.label;
+  return label ? t(label) : slot;
+}
+
+/**
+ * Título y detalle de cada hallazgo
+ */
+function describeInsight(
+  insight: Insight,
+  t: Translator
+): { title: string; detail: string } {
+  switch (insight.kind) {
+    case "streak":
+      return insight.current > 1
+        ? {
+            title: t("insights.streak.currentTitle", {
+              current: insight.current,
+            }),
+            detail: t("insights.streak.currentDetail", {
+              longest: insight.longest,
+            }),
+          }
+        : {
+            title: t("insights.streak.longestTitle", {
+              longest: insight.longest,
+            }),
+            detail:
+              insight.current === 0
+                ? t("insights.streak.startNew")
+                : t("insights.streak.keepGoing"),
+          };
+    case "tag_correlation": {
+      const higher = insight.withTag.average > insight.withoutTag.average;
+      return {
+        title: t(
+          higher
+            ? "insights.tagCorrelation.higherTitle"
+            : "insights.tagCorrelation.lowerTitle",
+          { tag: insight.tag }
+        ),
+        detail: t("insights.tagCorrelation.detail", {
+          withTag: insight.withTag.average.toFixed(1),
+          count: insight.withTag.count,
+          withoutTag: insight.withoutTag.average.toFixed(1),
+        }),
+      };
+    }
+    case "day_of_week":
+      return {
+        title: t("insights.dayOfWeek.title", {
+          weekday: t(WEEKDAY_NAMES[insight.lowest.weekday]),
+        }),
+        detail: t("insights.dayOfWeek.detail", {
+          lowest: insight.lowest.average.toFixed(1),
+          weekday: t(WEEKDAY_NAMES[insight.highest.weekday]),
+          highest: insight.highest.average.toFixed(1),
+        }),
+      };
+    case "time_of_day":
+      return {
+        title: t("insights.timeOfDay.title", {
+          highest: slotLabel(insight.highest.slot, t),
+          lowest: slotLabel(insight.lowest.slot, t),
+        }),
+        detail: t("insights.timeOfDay.detail", {
+          highest: insight.highest.average.toFixed(1),
+          lowest: insight.lowest.average.toFixed(1),
+        }),
+      };
+    case "volatility":
+      return {
+        title: t(VOLATILITY_TEXT[insight.level]),
+        detail: t("insights.volatility.detail", {
+          deviation: insight.standardDeviation.toFixed(2),
+          days: insight.days,
+        }),
+      };
+  }
+}
+
+/**
+ * Hallazgos sobre el ánimo de los últimos días, para /home
+ *
+ * Los promedios están en la escala 1-5 sin importar la escala
+ * con la que registra el usuario.
+ */
+export async function InsightCards({ insights }: Props) {
+  const { t } = await getI18n();
+
+  return (
+    <section className="rounded-lg border bg-white p-6">
+      <h2 className="text-lg font-semibold">{t("insights.title")}</h2>
+      <p className="text-sm text-slate-600">
+        {t("insights.window", { days: INSIGHTS_WINDOW_DAYS })}
+      </p>
+
+      {insights.insights.length === 0 ? (
+        <p className="mt-4 text-sm text-slate-600">
+          {insights.entryCount === 0
+            ? t("insights.noEntries")
+            : t("insights.notEnough")}
+        </p>
+      ) : (
+        <ul className="mt-4 flex flex-col gap-3">
+          {insights.insights.map((insight, index) => {
+            const { title, detail } = describeInsight(insight, t);
+            return (
+              <li
+                key={`${insight.kind}-${index}`}
+                className="rounded-md border p-3"
+              >
+                <p className="font-medium">{title}</p>
+                <p className="text-sm text-slate-600">{detail}</p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Link
+        href={siteConfig.routes.history}
+        className="mt-4 inline-block text-sm underline"
+      >
+        {t("insights.historyLink")}
+      </Link>
+    </section>
+  );
+}
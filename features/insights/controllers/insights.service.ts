@@ -0,0 +1,349 @@
+import {
+  addDaysToDateKey,
+  getDayOfWeek,
+  getLocalDateKey,
+  getLocalHour,
+  getZonedDateRange,
+  type DateKey,
+} from "@shared/utils/dates";
+import { moodRepository } from "@features/home/models/mood.repository";
+import type { MoodEntry, MoodResult } from "@features/home/models/home.types";
+import { moodScoreToFivePoint } from "@features/home/models/mood.scales";
+import {
+  INSIGHTS_MIN_DIFFERENCE,
+  INSIGHTS_MIN_SAMPLES,
+  INSIGHTS_WINDOW_DAYS,
+  TIME_OF_DAY_SLOTS,
+  type Insight,
+  type MoodInsights,
+  type MoodSample,
+  type TimeOfDaySlot,
+  type VolatilityLevel,
+} from "../models/insights.types";
+
+/**
+ * Cantidad máxima de correlaciones con emociones que se muestran
+ */
+const MAX_TAG_INSIGHTS = 3;
+
+/**
+ * Redondea a 2 decimales
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function average(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+/**
+ * Desviación estándar poblacional
+ */
+function standardDeviation(values: number[]): number {
+  const mean = average(values);
+  return Math.sqrt(average(values.map((value) => (value - mean) ** 2)));
+}
+
+function toSample(values: number[]): MoodSample {
+  return { average: round(average(values)), count: values.length };
+}
+
+/**
+ * Un día local con su ánimo promedio (1-5) y las emociones marcadas
+ */
+export interface InsightDay {
+  date: DateKey;
+  average: number;
+  tags: Set<string>;
+}
+
+/**
+ * Agrupa los registros por día local
+ *
+ * @returns Días ordenados por fecha
+ */
+export function groupInsightDays(
+  entries: MoodEntry[],
+  timeZone: string
+): InsightDay[] {
+  const byDay = new Map<DateKey, { moods: number[]; tags: Set<string> }>();
+  for (const entry of entries) {
+    const date = getLocalDateKey(entry.recordedAt, timeZone);
+    const day = byDay.get(date) ?? { moods: [], tags: new Set<string>() };
+    day.moods.push(moodScoreToFivePoint(entry.moodScore));
+    entry.emotionTags.forEach((tag) => day.tags.add(tag));
+    byDay.set(date, day);
+  }
+
+  return Array.from(byDay, ([date, { moods, tags }]) => ({
+    date,
+    average: average(moods),
+    tags,
+  })).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Emociones cuyos días tienen un ánimo claramente distinto al resto
+ *
+ * Compara el promedio de los días con la emoción contra los días sin
+ * ella y calcula la correlación punto-biserial.
+ *
+ * @returns Hasta MAX_TAG_INSIGHTS hallazgos, los de mayor diferencia primero
+ */
+export function findTagCorrelations(days: InsightDay[]): Insight[] {
+  const allAverages = days.map((day) => day.average);
+  const spread = days.length > 0 ? standardDeviation(allAverages) : 0;
+  if (spread === 0) return [];
+
+  const tags = new Set(days.flatMap((day) => Array.from(day.tags)));
+  const insights: (Insight & { kind: "tag_correlation" })[] = [];
+
+  for (const tag of tags) {
+    const withTag = days.filter((day) => day.tags.has(tag));
+    const withoutTag = days.filter((day) => !day.tags.has(tag));
+    if (
+      withTag.length < INSIGHTS_MIN_SAMPLES.tagDays ||
+      withoutTag.length < INSIGHTS_MIN_SAMPLES.tagDays
+    ) {
+      continue;
+    }
+
+    const withAverage = average(withTag.map((day) => day.average));
+    const withoutAverage = average(withoutTag.map((day) => day.average));
+    const difference = withAverage - withoutAverage;
+    if (Math.abs(difference) < INSIGHTS_MIN_DIFFERENCE) continue;
+
+    const share = withTag.length / days.length;
+    insights.push({
+      kind: "tag_correlation",
+      tag,
+      withTag: toSample(withTag.map((day) => day.average)),
+      withoutTag: toSample(withoutTag.map((day) => day.average)),
+      correlation: round(
+        (difference / spread) * Math.sqrt(share * (1 - share))
+      ),
+    });
+  }
+
+  return insights
+    .sort(
+      (a, b) =>
+        Math.abs(b.withTag.average - b.withoutTag.average) -
+        Math.abs(a.withTag.average - a.withoutTag.average)
+    )
+    .slice(0, MAX_TAG_INSIGHTS);
+}
+
+/**
+ * Compara grupos de valores y devuelve el más bajo y el más alto si
+ * ambos tienen muestra suficiente y la diferencia es notable
+ */
+function compareGroups<K>(
+  groups: Map<K, number[]>,
+  minCount: number
+): {
+  lowest: MoodSample & { key: K };
+  highest: MoodSample & { key: K };
+} | null {
+  const samples = Array.from(groups, ([key, values]) => ({
+    key,
+    ...toSample(values),
+  })).filter((sample) => sample.count >= minCount);
+  if (samples.length < 2) return null;
+
+  samples.sort((a, b) => a.average - b.average);
+  const lowest = samples[0];
+  const highest = samples[samples.length - 1];
+  if (highest.average - lowest.average < INSIGHTS_MIN_DIFFERENCE) return null;
+
+  return { lowest, highest };
+}
+
+/**
+ * Día de la semana con el ánimo más bajo y el más alto
+ */
+export function findDayOfWeekPattern(days: InsightDay[]): Insight | null {
+  const byWeekday = new Map<number, number[]>();
+  for (const day of days) {
+    const weekday = getDayOfWeek(day.date);
+    byWeekday.set(weekday, [...(byWeekday.get(weekday) ?? []), day.average]);
+  }
+
+  const result = compareGroups(byWeekday, INSIGHTS_MIN_SAMPLES.weekdayDays);
+  if (!result) return null;
+
+  const { key: lowestDay, ...lowest } = result.lowest;
+  const { key: highestDay, ...highest } = result.highest;
+  return {
+    kind: "day_of_week",
+    lowest: { ...lowest, weekday: lowestDay },
+    highest: { ...highest, weekday: highestDay },
+  };
+}
+
+/**
+ * Franja del día con el ánimo más bajo y el más alto
+ *
+ * Aquí cuenta cada registro y no el promedio del día: la misma
+ * persona puede sentirse distinto en la mañana y en la noche.
+ */
+export function findTimeOfDayPattern(
+  entries: MoodEntry[],
+  timeZone: string
+): Insight | null {
+  const bySlot = new Map<TimeOfDaySlot, number[]>();
+  for (const entry of entries) {
+    const hour = getLocalHour(entry.recordedAt, timeZone);
+    const slot = TIME_OF_DAY_SLOTS.find(
+      ({ from, to }) => hour >= from && hour < to
+    );
+    if (!slot) continue;
+    bySlot.set(slot.id, [
+      ...(bySlot.get(slot.id) ?? []),
+      moodScoreToFivePoint(entry.moodScore),
+    ]);
+  }
+
+  const result = compareGroups(bySlot, INSIGHTS_MIN_SAMPLES.timeOfDayEntries);
+  if (!result) return null;
+
+  const { key: lowestSlot, ...lowest } = result.lowest;
+  const { key: highestSlot, ...highest } = result.highest;
+  return {
+    kind: "time_of_day",
+    lowest: { ...lowest, slot: lowestSlot },
+    highest: { ...highest, slot: highestSlot },
+  };
+}
+
+/**
+ * Racha actual y racha más larga de días seguidos con registros
+ *
+ * La racha actual sigue viva si hoy todavía no hay registro pero
+ * ayer sí.
+ *
+ * @param dates - Días con registros
+ * @param today - Día local actual
+ */
+export function computeStreaks(
+  dates: DateKey[],
+  today: DateKey
+): { current: number; longest: number } {
+  const logged = new Set(dates);
+
+  let current = 0;
+  let cursor = logged.has(today) ? today : addDaysToDateKey(today, -1);
+  while (logged.has(cursor)) {
+    current++;
+    cursor = addDaysToDateKey(cursor, -1);
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: DateKey | null = null;
+  for (const date of [...logged].sort()) {
+    run = previous && addDaysToDateKey(previous, 1) === date ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  }
+
+  return { current, longest };
+}
+
+/**
+ * Qué tanto cambia el ánimo de un día a otro
+ */
+export function measureVolatility(days: InsightDay[]): Insight | null {
+  if (days.length < INSIGHTS_MIN_SAMPLES.volatilityDays) return null;
+
+  const deviation = round(standardDeviation(days.map((day) => day.average)));
+  const level: VolatilityLevel =
+    deviation < 0.5 ? "stable" : deviation < 1 ? "moderate" : "high";
+
+  return {
+    kind: "volatility",
+    level,
+    standardDeviation: deviation,
+    days: days.length,
+  };
+}
+
+/**
+ * Todos los hallazgos de un conjunto de registros
+ *
+ * @param entries - Registros de la ventana analizada
+ * @param timeZone - Zona horaria del usuario
+ * @param today - Día local actual
+ */
+export function buildInsights(
+  entries: MoodEntry[],
+  timeZone: string,
+  today: DateKey
+): Insight[] {
+  const days = groupInsightDays(entries, timeZone);
+  const insights: Insight[] = [];
+
+  const streaks = computeStreaks(
+    days.map((day) => day.date),
+    today
+  );
+  if (streaks.longest >= INSIGHTS_MIN_SAMPLES.streakDays) {
+    insights.push({ kind: "streak", ...streaks });
+  }
+
+  insights.push(...findTagCorrelations(days));
+
+  const dayOfWeek = findDayOfWeekPattern(days);
+  if (dayOfWeek) insights.push(dayOfWeek);
+
+  const timeOfDay = findTimeOfDayPattern(entries, timeZone);
+  if (timeOfDay) insights.push(timeOfDay);
+
+  const volatility = measureVolatility(days);
+  if (volatility) insights.push(volatility);
+
+  return insights;
+}
+
+/**
+ * Servicio de Hallazgos
+ *
+ * Calcula en el servidor patrones del ánimo sobre una ventana móvil
+ * de INSIGHTS_WINDOW_DAYS días. Cada hallazgo exige una muestra
+ * mínima; si no la hay, no se muestra.
+ */
+export const insightsService = {
+  /**
+   * Hallazgos de los últimos INSIGHTS_WINDOW_DAYS días
+   *
+   * @param userId - Id del usuario
+   * @param timeZone - Zona horaria del perfil del usuario
+   * @param today - Día local actual (YYYY-MM-DD)
+   */
+  async getInsights(
+    userId: string,
+    timeZone: string,
+    today: DateKey
+  ): Promise<MoodResult<MoodInsights>> {
+    const from = addDaysToDateKey(today, -(INSIGHTS_WINDOW_DAYS - 1));
+    const result = await moodRepository.listByRange(
+      userId,
+      getZonedDateRange(from, today, timeZone)
+    );
+
+    if (!result.success) {
+      return result;
+    }
+
+    return {
+      success: true,
+      data: {
+        from,
+        to: today,
+        entryCount: result.data.length,
+        insights: buildInsights(result.data, timeZone, today),
+      },
+    };
+  },
+};
@@ -0,0 +1,117 @@
+import type { MessageKey } from "@lib/i18n/translator";
+
+/**
+ * Días hacia atrás (contando hoy) que se analizan para los hallazgos
+ */
+export const INSIGHTS_WINDOW_DAYS = 30;
+
+/**
+ * Mínimos de muestra para mostrar cada hallazgo
+ *
+ * Con menos datos las diferencias son casi siempre ruido, así que
+ * el hallazgo simplemente no aparece.
+ */
+export const INSIGHTS_MIN_SAMPLES = {
+  // Días con la emoción y días sin ella
+  tagDays: 4,
+  // Días registrados de cada día de la semana comparado
+  weekdayDays: 3,
+  // Registros de cada franja del día comparada
+  timeOfDayEntries: 5,
+  // Días con registros para medir la variabilidad
+  volatilityDays: 7,
+  // Días seguidos para mencionar la racha
+  streakDays: 3,
+} as const;
+
+/**
+ * Diferencia mínima de ánimo promedio (en la escala 1-5) para que
+ * una comparación se considere un hallazgo
+ */
+export const INSIGHTS_MIN_DIFFERENCE = 0.4;
+
+/**
+ * Franjas del día según la hora local
+ */
+export const TIME_OF_DAY_SLOTS = [
+  { id: "madrugada", label: "insights.slots.madrugada", from: 0, to: 6 },
+  { id: "manana", label: "insights.slots.manana", from: 6, to: 12 },
+  { id: "tarde", label: "insights.slots.tarde", from: 12, to: 18 },
+  { id: "noche", label: "insights.slots.noche", from: 18, to: 24 },
+] as const;
+export type TimeOfDaySlot = (typeof TIME_OF_DAY_SLOTS)[number]["id"];
+
+/**
+ * Días de la semana en plural, para "los lunes..." (0 = domingo)
+ */
+export const WEEKDAY_NAMES: readonly MessageKey[] = [
+  "insights.weekdays.sunday",
+  "insights.weekdays.monday",
+  "insights.weekdays.tuesday",
+  "insights.weekdays.wednesday",
+  "insights.weekdays.thursday",
+  "insights.weekdays.friday",
+  "insights.weekdays.saturday",
+];
+
+/**
+ * Qué tan variable fue el ánimo diario según su desviación estándar
+ */
+export type VolatilityLevel = "stable" | "moderate" | "high";
+
+/**
+ * Promedio de ánimo (1-5) de un grupo y cuántas muestras lo forman
+ */
+export interface MoodSample {
+  average: number;
+  count: number;
+}
+
+/**
+ * Un hallazgo sobre el ánimo del usuario
+ *
+ * Todos los promedios están en la escala 1-5 normalizada, así que
+ * no dependen de la escala con la que se hizo cada registro.
+ */
+export type Insight =
+  | {
+      kind: "tag_correlation";
+      tag: string;
+      withTag: MoodSample;
+      withoutTag: MoodSample;
+      // Correlación punto-biserial entre tener la emoción y el ánimo del día
+      correlation: number;
+    }
+  | {
+      kind: "day_of_week";
+      lowest: MoodSample & { weekday: number };
+      highest: MoodSample & { weekday: number };
+    }
+  | {
+      kind: "time_of_day";
+      lowest: MoodSample & { slot: TimeOfDaySlot };
+      highest: MoodSample & { slot: TimeOfDaySlot };
+    }
+  | {
+      kind: "streak";
+      current: number;
+      longest: number;
+    }
+  | {
+      kind: "volatility";
+      level: VolatilityLevel;
+      standardDeviation: number;
+      days: number;
+    };
+
+export type InsightKind = Insight["kind"];
+
+/**
+ * Hallazgos de la ventana móvil que termina hoy
+ */
+export interface MoodInsights {
+  from: string;
+  to: string;
+  entryCount: number;
+  insights: Insight[];
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useI18n } from "@lib/i18n/client";
+import {
+  encryptJournalEntriesAction,
+  listPlaintextJournalEntriesAction,
+} from "../controllers/journal.actions";
+import { encryptJournalBody } from "../models/journal.crypto";
+import {
+  getJournalErrorMessageKey,
+  getJournalErrorText,
+} from "../models/journal.types";
+
+type Props = {
+  encryptionKey: CryptoKey;
+  // Entradas sin cifrar al cargar la página
+  pending: number;
+  // Empieza sin esperar el botón (justo después de activar el cifrado)
+  autoStart?: boolean;
+};
+
+/**
+ * Cifra en el navegador las entradas que se escribieron antes de
+ * activar el cifrado, por tandas
+ *
+ * Si una entrada cambió mientras tanto se salta y queda para después.
+ */
+export function EncryptExistingEntries({
+  encryptionKey,
+  pending,
+  autoStart = false,
+}: Props) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [status, setStatus] = useState<"idle" | "running" | "done">(
+    pending === 0 ? "done" : "idle"
+  );
+  const [encrypted, setEncrypted] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const startedRef = useRef(false);
+
+  const run = async () => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+    setError(null);
+    setStatus("running");
+
+    let total = 0;
+    for (;;) {
+      const batch = await listPlaintextJournalEntriesAction();
+      if (!batch.success) {
+        setError(t(getJournalErrorMessageKey(batch.error.type)));
+        break;
+      }
+      if (batch.data.length === 0) break;
+
+      const entries = await Promise.all(
+        batch.data.map(async (entry) => ({
+          id: entry.id,
+          bodyCiphertext: await encryptJournalBody(encryptionKey, entry.body),
+          baseUpdatedAt: entry.updatedAt,
+        }))
+      );
+      const result = await encryptJournalEntriesAction({ entries });
+      if (!result.success) {
+        setError(getJournalErrorText(result.error, i18n));
+        break;
+      }
+      // Las que quedan cambiaron mientras tanto: se reintentan después
+      if (result.data === 0) break;
+
+      total += result.data;
+      setEncrypted(total);
+    }
+
+    startedRef.current = false;
+    setStatus("done");
+  };
+
+  useEffect(() => {
+    if (autoStart && pending > 0) run();
+    // Solo al montar el componente
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  if (pending === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      {status === "idle" && (
+        <>
+          <p>
+            {pending === 1
+              ? t("journal.encryptExisting.pendingOne")
+              : t("journal.encryptExisting.pendingOther", { count: pending })}
+          </p>
+          <button
+            type="button"
+            onClick={run}
+            className="self-start rounded-md border px-4 py-2"
+          >
+            {t("journal.encryptExisting.start")}
+          </button>
+        </>
+      )}
+      {status === "running" && (
+        <p aria-live="polite">
+          {t("journal.encryptExisting.running", { encrypted, pending })}
+        </p>
+      )}
+      {status === "done" && !error && (
+        <p className="text-green-700" role="status">
+          {encrypted === 1
+            ? t("journal.encryptExisting.doneOne")
+            : t("journal.encryptExisting.doneOther", { count: encrypted })}
+        </p>
+      )}
+      {error && (
+        <p className="text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useI18n } from "@lib/i18n/client";
+import { decryptJournalBody } from "../models/journal.crypto";
+import { useJournalKey } from "../models/journal.keystore";
+import type { JournalKeyMaterial } from "../models/journal.types";
+import { JournalUnlockForm } from "./JournalUnlockForm";
+import { MarkdownContent } from "./MarkdownContent";
+
+type Props = {
+  userId: string;
+  keyMaterial: JournalKeyMaterial;
+  ciphertext: string;
+};
+
+/**
+ * Cuerpo de una entrada cifrada: se descifra en el navegador
+ */
+export function EncryptedJournalBody({
+  userId,
+  keyMaterial,
+  ciphertext,
+}: Props) {
+  const { t } = useI18n();
+  const key = useJournalKey(userId);
+  const [body, setBody] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!key) return;
+
+    let cancelled = false;
+    decryptJournalBody(key, ciphertext).then((plaintext) => {
+      if (cancelled) return;
+      if (plaintext === null) {
+        setError(t("journal.decryptFailed"));
+      } else {
+        setBody(plaintext);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, ciphertext, t]);
+
+  if (!key) {
+    return <JournalUnlockForm userId={userId} keyMaterial={keyMaterial} />;
+  }
+
+  if (error) {
+    return (
+      <p className="text-sm text-red-600" role="alert">
+        {error}
+      </p>
+    );
+  }
+
+  if (body === null) {
+    return <p className="text-sm text-slate-500">{t("journal.decrypting")}</p>;
+  }
+
+  return <MarkdownContent body={body} />;
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useI18n } from "@lib/i18n/client";
+import { decryptJournalBody } from "../models/journal.crypto";
+import { useJournalKey } from "../models/journal.keystore";
+import type { JournalEntry, JournalKeyMaterial } from "../models/journal.types";
+import { JournalEditor } from "./JournalEditor";
+import { JournalUnlockForm } from "./JournalUnlockForm";
+
+type Props = {
+  userId: string;
+  keyMaterial: JournalKeyMaterial;
+  entry?: JournalEntry;
+  defaultDate: string;
+};
+
+/**
+ * Editor para la bitácora cifrada
+ *
+ * Pide desbloquear la bitácora, descifra la entrada y abre el editor
+ * con la llave: todo lo que se guarde (también sin conexión) sale
+ * cifrado del navegador.
+ */
+export function EncryptedJournalEditor({
+  userId,
+  keyMaterial,
+  entry,
+  defaultDate,
+}: Props) {
+  const { t } = useI18n();
+  const key = useJournalKey(userId);
+  const [plainEntry, setPlainEntry] = useState<JournalEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!key || !entry?.bodyCiphertext) return;
+
+    let cancelled = false;
+    decryptJournalBody(key, entry.bodyCiphertext).then((body) => {
+      if (cancelled) return;
+      if (body === null) {
+        setError(t("journal.decryptFailed"));
+      } else {
+        setPlainEntry({ ...entry, body });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, entry, t]);
+
+  if (!key) {
+    return <JournalUnlockForm userId={userId} keyMaterial={keyMaterial} />;
+  }
+
+  if (error) {
+    return (
+      <p className="text-sm text-red-600" role="alert">
+        {error}
+      </p>
+    );
+  }
+
+  // Entradas nuevas o que todavía no estaban cifradas se abren tal cual
+  const editable = entry?.bodyCiphertext ? plainEntry : entry;
+  if (entry?.bodyCiphertext && !editable) {
+    return <p className="text-sm text-slate-500">{t("journal.decrypting")}</p>;
+  }
+
+  return (
+    <JournalEditor
+      userId={userId}
+      entry={editable ?? undefined}
+      defaultDate={defaultDate}
+      encryptionKey={key}
+    />
+  );
+}
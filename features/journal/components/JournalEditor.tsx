@@ -0,0 +1,612 @@
+"use client";
+
+import { useEffect, useRef, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { siteConfig } from "@lib/config/site";
+import { useI18n } from "@lib/i18n/client";
+import { Button } from "@shared/ui/Button";
+import { Modal } from "@shared/ui/Modal";
+import { getZonedDateRange, isDateKey } from "@shared/utils/dates";
+import { listMoodEntriesAction } from "@features/home/controllers/home.actions";
+import {
+  MOOD_LEVEL_LABELS,
+  type MoodEntry,
+} from "@features/home/models/home.types";
+import {
+  deleteJournalEntryAction,
+  publishJournalEntryAction,
+  saveJournalDraftAction,
+} from "../controllers/journal.actions";
+import { reportJournalSupportSignalsAction } from "@features/support/controllers/support.actions";
+import { evaluateSupportRules } from "@features/support/controllers/support.engine";
+import { SUPPORT_RULES } from "@features/support/models/support.rules";
+import { offlineStore } from "@features/offline/models/offline.store";
+import {
+  LOCAL_DRAFT_PREFIX,
+  OFFLINE_QUEUE_EVENT,
+  isConnectionError,
+  notifyOfflineQueueChange,
+  type OfflineQueueEventDetail,
+  type QueuedJournalDraft,
+} from "@features/offline/models/offline.types";
+import {
+  decryptJournalBody,
+  encryptJournalBody,
+} from "../models/journal.crypto";
+import {
+  JournalErrorType,
+  getJournalErrorMessageKey,
+  getJournalErrorText,
+  type JournalEntry,
+} from "../models/journal.types";
+import { MarkdownContent } from "./MarkdownContent";
+
+/**
+ * Tiempo sin escribir antes de autoguardar el borrador
+ */
+const AUTOSAVE_DELAY_MS = 2000;
+
+const JOURNAL_SUPPORT_RULES = SUPPORT_RULES.filter(
+  (rule) => rule.kind === "journal_phrase"
+);
+
+type Props = {
+  userId: string;
+  entry?: JournalEntry;
+  defaultDate: string;
+  // Con la bitácora cifrada, el cuerpo se cifra antes de salir del editor
+  encryptionKey?: CryptoKey;
+};
+
+type Fields = {
+  entryDate: string;
+  title: string;
+  body: string;
+  tags: string;
+  moodEntryId: string;
+};
+
+function toFields(entry: JournalEntry | undefined, defaultDate: string) {
+  return {
+    entryDate: entry?.entryDate ?? defaultDate,
+    title: entry?.title ?? "",
+    body: entry?.body ?? "",
+    tags: entry?.tags.join(", ") ?? "",
+    moodEntryId: entry?.moodEntryId ?? "",
+  };
+}
+
+function toContent(fields: Fields) {
+  return {
+    entryDate: fields.entryDate,
+    title: fields.title,
+    body: fields.body,
+    tags: fields.tags
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean),
+    moodEntryId: fields.moodEntryId || null,
+  };
+}
+
+function fromContent(content: QueuedJournalDraft["input"]): Fields {
+  return {
+    entryDate: content.entryDate,
+    title: content.title,
+    body: content.body,
+    tags: (content.tags ?? []).join(", "),
+    moodEntryId: content.moodEntryId ?? "",
+  };
+}
+
+/**
+ * Editor de entradas de la bitácora
+ *
+ * - Cuerpo en Markdown con vista previa
+ * - Autoguardado de borradores mientras se escribe
+ * - Vínculo opcional con un registro de ánimo del mismo día
+ * - Sin conexión, los cambios quedan en la cola offline del dispositivo;
+ *   si la entrada cambió en otro dispositivo, el usuario elige qué
+ *   versión conservar
+ * - Con `encryptionKey`, el cuerpo se cifra antes de enviarlo o de
+ *   guardarlo en el dispositivo, y las reglas de apoyo se evalúan aquí
+ */
+export function JournalEditor({
+  userId,
+  entry,
+  defaultDate,
+  encryptionKey,
+}: Props) {
+  const i18n = useI18n();
+  const { locale, t } = i18n;
+  const router = useRouter();
+  const [fields, setFields] = useState<Fields>(() =>
+    toFields(entry, defaultDate)
+  );
+  const [showPreview, setShowPreview] = useState(false);
+  const [moodOptions, setMoodOptions] = useState<MoodEntry[]>([]);
+  const [autosaveStatus, setAutosaveStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [hasConflict, setHasConflict] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  // El id se guarda en un ref para que los autoguardados concurrentes
+  // actualicen el mismo borrador en lugar de crear varios
+  const entryIdRef = useRef<string | undefined>(entry?.id);
+  const [savedEntryId, setSavedEntryId] = useState(entry?.id);
+  // Versión del servidor sobre la que se está editando
+  const baseUpdatedAtRef = useRef<string | undefined>(entry?.updatedAt);
+  // Clave de los cambios en la cola offline (el id o una clave local)
+  const [initialDraftKey] = useState(
+    () => entry?.id ?? `${LOCAL_DRAFT_PREFIX}${crypto.randomUUID()}`
+  );
+  const draftKeyRef = useRef(initialDraftKey);
+  const isDirtyRef = useRef(false);
+  // Reglas de apoyo ya informadas, para no repetirlas en cada autoguardado
+  const reportedRulesRef = useRef(new Set<string>());
+  const isDraft = !entry || entry.status === "draft";
+
+  const updateField = (name: keyof Fields, value: string) => {
+    isDirtyRef.current = true;
+    setFields((current) => ({
+      ...current,
+      [name]: value,
+      // Cambiar la fecha invalida el registro de ánimo vinculado
+      ...(name === "entryDate" && { moodEntryId: "" }),
+    }));
+  };
+
+  // Contenido listo para salir del editor (cifrado si corresponde)
+  const prepareContent = async (current: Fields) => {
+    const content = toContent(current);
+    if (!encryptionKey) return content;
+    return {
+      ...content,
+      body: "",
+      bodyCiphertext: await encryptJournalBody(encryptionKey, content.body),
+    };
+  };
+
+  const toInput = async (current: Fields) => ({
+    ...(await prepareContent(current)),
+    id: entryIdRef.current,
+    baseUpdatedAt: baseUpdatedAtRef.current,
+  });
+
+  // Con la bitácora cifrada el servidor no puede leer el cuerpo: las
+  // reglas de apoyo se evalúan aquí y solo se envían sus ids
+  const reportSupportSignals = async (current: Fields) => {
+    if (!encryptionKey) return;
+
+    const ruleIds = evaluateSupportRules(JOURNAL_SUPPORT_RULES, {
+      now: new Date(),
+      recentMoods: [],
+      journalText: current.body,
+    })
+      .map((signal) => signal.ruleId)
+      .filter((ruleId) => !reportedRulesRef.current.has(ruleId));
+    if (ruleIds.length === 0) return;
+
+    const result = await reportJournalSupportSignalsAction({ ruleIds });
+    if (result.success) {
+      ruleIds.forEach((ruleId) => reportedRulesRef.current.add(ruleId));
+    }
+  };
+
+  // Actualiza las referencias después de guardar en el servidor
+  const markSaved = async (saved: JournalEntry) => {
+    await offlineStore.removeJournalDraft(draftKeyRef.current);
+    entryIdRef.current = saved.id;
+    baseUpdatedAtRef.current = saved.updatedAt;
+    draftKeyRef.current = saved.id;
+    setSavedEntryId(saved.id);
+    notifyOfflineQueueChange({ kind: "queued" });
+  };
+
+  // Guarda los cambios en la cola offline del dispositivo
+  const saveLocally = async (
+    current: Fields,
+    options: { publish: boolean; conflict: boolean }
+  ) => {
+    await offlineStore.saveJournalDraft({
+      key: draftKeyRef.current,
+      userId,
+      input: await prepareContent(current),
+      entryId: entryIdRef.current,
+      baseUpdatedAt: baseUpdatedAtRef.current,
+      queuedAt: new Date().toISOString(),
+      ...options,
+    });
+    notifyOfflineQueueChange({ kind: "queued" });
+  };
+
+  // Cambios que quedaron en este dispositivo (por ejemplo, sin conexión)
+  useEffect(() => {
+    if (!entry) return;
+
+    let cancelled = false;
+    offlineStore
+      .getJournalDraft(userId, entry.id)
+      .then(async (draft) => {
+        if (cancelled || !draft) return;
+
+        let { input } = draft;
+        if (input.bodyCiphertext) {
+          const body = encryptionKey
+            ? await decryptJournalBody(encryptionKey, input.bodyCiphertext)
+            : null;
+          if (body === null || cancelled) return;
+          input = { ...input, body };
+        }
+
+        baseUpdatedAtRef.current = draft.baseUpdatedAt;
+        setFields(fromContent(input));
+        setHasConflict(draft.conflict);
+        setAutosaveStatus(t("journal.editor.recovered"));
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entry, userId, encryptionKey, t]);
+
+  // Resultado de la sincronización de la cola offline
+  useEffect(() => {
+    const handleQueueChange = (event: Event) => {
+      const { detail } = event as CustomEvent<OfflineQueueEventDetail>;
+      if (detail.kind === "journal" && detail.key === draftKeyRef.current) {
+        entryIdRef.current = detail.entry.id;
+        baseUpdatedAtRef.current = detail.entry.updatedAt;
+        draftKeyRef.current = detail.entry.id;
+        setSavedEntryId(detail.entry.id);
+        setAutosaveStatus(t("journal.editor.synced"));
+      }
+      if (
+        detail.kind === "journal-conflict" &&
+        detail.key === draftKeyRef.current
+      ) {
+        setHasConflict(true);
+      }
+    };
+
+    window.addEventListener(OFFLINE_QUEUE_EVENT, handleQueueChange);
+    return () =>
+      window.removeEventListener(OFFLINE_QUEUE_EVENT, handleQueueChange);
+  }, [t]);
+
+  // Registros de ánimo del día elegido, para vincular uno
+  useEffect(() => {
+    if (!isDateKey(fields.entryDate)) return;
+
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    let cancelled = false;
+
+    listMoodEntriesAction(
+      getZonedDateRange(fields.entryDate, fields.entryDate, timezone)
+    )
+      .then((result) => {
+        if (!cancelled) {
+          setMoodOptions(result.success ? result.data : []);
+        }
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fields.entryDate]);
+
+  // Autoguardado de borradores
+  useEffect(() => {
+    if (!isDraft || hasConflict || !isDirtyRef.current) return;
+
+    const timeout = setTimeout(async () => {
+      // Se pudo haber publicado mientras corría el temporizador
+      if (!isDirtyRef.current) return;
+
+      const saveOffline = async () => {
+        await saveLocally(fields, { publish: false, conflict: false });
+        isDirtyRef.current = false;
+        setAutosaveStatus(t("journal.editor.savedOffline"));
+      };
+
+      if (!navigator.onLine) {
+        await saveOffline();
+        return;
+      }
+
+      setAutosaveStatus(t("journal.editor.saving"));
+      try {
+        const result = await saveJournalDraftAction(await toInput(fields));
+
+        if (result.success) {
+          await markSaved(result.data);
+          isDirtyRef.current = false;
+          await reportSupportSignals(fields);
+          setAutosaveStatus(
+            t("journal.editor.savedAt", {
+              time: new Date(result.data.updatedAt).toLocaleTimeString(locale),
+            })
+          );
+        } else if (result.error.type === JournalErrorType.CONFLICT) {
+          await saveLocally(fields, { publish: false, conflict: true });
+          setHasConflict(true);
+          setAutosaveStatus(null);
+        } else if (result.error.type === JournalErrorType.NETWORK_ERROR) {
+          await saveOffline();
+        } else {
+          setAutosaveStatus(getJournalErrorText(result.error, i18n));
+        }
+      } catch (error) {
+        // El temporizador no tiene a quién propagar el error: se muestra
+        if (isConnectionError(error)) {
+          await saveOffline();
+        } else {
+          setAutosaveStatus(
+            t(getJournalErrorMessageKey(JournalErrorType.UNKNOWN_ERROR))
+          );
+        }
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+    // toInput, saveLocally, markSaved y reportSupportSignals solo leen
+    // refs y props estables
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fields, isDraft, hasConflict]);
+
+  const handlePublish = () => {
+    setError(null);
+    // Evita que un autoguardado pendiente vuelva la entrada a borrador
+    isDirtyRef.current = false;
+
+    startTransition(async () => {
+      const saveOffline = async () => {
+        await saveLocally(fields, { publish: true, conflict: false });
+        setError(t("journal.editor.publishOffline"));
+      };
+
+      if (!navigator.onLine) {
+        await saveOffline();
+        return;
+      }
+
+      try {
+        const result = await publishJournalEntryAction(await toInput(fields));
+
+        if (result.success) {
+          await markSaved(result.data);
+          await reportSupportSignals(fields);
+          setHasConflict(false);
+          router.push(`${siteConfig.routes.journal}/${result.data.id}`);
+        } else if (result.error.type === JournalErrorType.CONFLICT) {
+          await saveLocally(fields, { publish: true, conflict: true });
+          setHasConflict(true);
+        } else if (result.error.type === JournalErrorType.NETWORK_ERROR) {
+          await saveOffline();
+        } else {
+          isDirtyRef.current = true;
+          setError(getJournalErrorText(result.error, i18n));
+        }
+      } catch (error) {
+        if (isConnectionError(error)) {
+          await saveOffline();
+        } else {
+          isDirtyRef.current = true;
+          setError(
+            t(getJournalErrorMessageKey(JournalErrorType.UNKNOWN_ERROR))
+          );
+        }
+      }
+    });
+  };
+
+  // Sobrescribe la versión del otro dispositivo con la de este
+  const handleKeepLocalVersion = () => {
+    baseUpdatedAtRef.current = undefined;
+    if (isDraft) {
+      // El autoguardado la envía sin comprobar la versión
+      isDirtyRef.current = true;
+      setHasConflict(false);
+    } else {
+      handlePublish();
+    }
+  };
+
+  // Descarta los cambios de este dispositivo y carga la otra versión
+  const handleUseOtherVersion = () => {
+    startTransition(async () => {
+      await offlineStore.removeJournalDraft(draftKeyRef.current);
+      notifyOfflineQueueChange({ kind: "queued" });
+      window.location.reload();
+    });
+  };
+
+  const handleDelete = () => {
+    const id = savedEntryId;
+    if (!id) return;
+    setConfirmDelete(false);
+
+    startTransition(async () => {
+      const result = await deleteJournalEntryAction({ id });
+
+      if (result.success) {
+        await offlineStore.removeJournalDraft(draftKeyRef.current);
+        router.push(siteConfig.routes.journal);
+      } else {
+        setError(t(getJournalErrorMessageKey(result.error.type)));
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {hasConflict && (
+        <div
+          className="flex flex-col gap-3 rounded-md border border-amber-300 bg-amber-50 p-4 text-sm"
+          role="alert"
+        >
+          <p>{t("journal.editor.conflict")}</p>
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={handleKeepLocalVersion}
+              disabled={isPending}
+              className="rounded-md bg-slate-900 px-3 py-2 text-white disabled:opacity-50"
+            >
+              {t("journal.editor.keepLocal")}
+            </button>
+            <button
+              type="button"
+              onClick={handleUseOtherVersion}
+              disabled={isPending}
+              className="rounded-md border px-3 py-2 disabled:opacity-50"
+            >
+              {t("journal.editor.useOther")}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-4">
+        <label className="flex flex-col text-sm">
+          {t("journal.editor.date")}
+          <input
+            type="date"
+            value={fields.entryDate}
+            onChange={(e) => updateField("entryDate", e.target.value)}
+            className="mt-1 rounded-md border px-3 py-2"
+          />
+        </label>
+
+        <label className="flex flex-col text-sm">
+          {t("journal.editor.mood")}
+          <select
+            value={fields.moodEntryId}
+            onChange={(e) => updateField("moodEntryId", e.target.value)}
+            className="mt-1 rounded-md border px-3 py-2"
+          >
+            <option value="">{t("journal.editor.noMood")}</option>
+            {moodOptions.map((mood) => (
+              <option key={mood.id} value={mood.id}>
+                {MOOD_LEVEL_LABELS[mood.moodLevel].emoji}{" "}
+                {new Date(mood.recordedAt).toLocaleTimeString(locale, {
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}{" "}
+                — {t(MOOD_LEVEL_LABELS[mood.moodLevel].label)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="flex flex-col text-sm">
+        {t("journal.editor.entryTitle")}
+        <input
+          type="text"
+          value={fields.title}
+          onChange={(e) => updateField("title", e.target.value)}
+          maxLength={120}
+          className="mt-1 rounded-md border px-3 py-2"
+        />
+      </label>
+
+      <div className="flex flex-col text-sm">
+        <div className="flex items-center justify-between">
+          <label htmlFor="journal-body">
+            {encryptionKey
+              ? t("journal.editor.bodyEncrypted")
+              : t("journal.editor.body")}
+          </label>
+          <button
+            type="button"
+            onClick={() => setShowPreview((value) => !value)}
+            className="text-xs underline"
+          >
+            {showPreview
+              ? t("journal.editor.edit")
+              : t("journal.editor.preview")}
+          </button>
+        </div>
+        {showPreview ? (
+          <div className="mt-1 min-h-64 rounded-md border px-3 py-2">
+            <MarkdownContent body={fields.body} />
+          </div>
+        ) : (
+          <textarea
+            id="journal-body"
+            value={fields.body}
+            onChange={(e) => updateField("body", e.target.value)}
+            rows={14}
+            className="mt-1 rounded-md border px-3 py-2 font-mono"
+          />
+        )}
+      </div>
+
+      {encryptionKey && (
+        <p className="text-xs text-slate-500">
+          {t("journal.editor.encryptedHint")}
+        </p>
+      )}
+
+      <label className="flex flex-col text-sm">
+        {t("journal.editor.tags")}
+        <input
+          type="text"
+          value={fields.tags}
+          onChange={(e) => updateField("tags", e.target.value)}
+          className="mt-1 rounded-md border px-3 py-2"
+        />
+      </label>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handlePublish}
+          disabled={isPending}
+          className="rounded-md bg-slate-900 px-4 py-2 text-sm text-white disabled:opacity-50"
+        >
+          {isDraft ? t("journal.editor.publish") : t("journal.editor.save")}
+        </button>
+        {savedEntryId && (
+          <button
+            type="button"
+            onClick={() => setConfirmDelete(true)}
+            disabled={isPending}
+            className="rounded-md border px-4 py-2 text-sm text-red-600 disabled:opacity-50"
+          >
+            {t("journal.editor.delete")}
+          </button>
+        )}
+        <span className="text-xs text-slate-500" aria-live="polite">
+          {autosaveStatus}
+        </span>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+
+      <Modal
+        open={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        title={t("journal.editor.deleteTitle")}
+        description={t("journal.editor.deleteDescription")}
+      >
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={() => setConfirmDelete(false)}>
+            {t("journal.editor.cancel")}
+          </Button>
+          <Button variant="danger" onClick={handleDelete}>
+            {t("journal.editor.delete")}
+          </Button>
+        </div>
+      </Modal>
+    </div>
+  );
+}
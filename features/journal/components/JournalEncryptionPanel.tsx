@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useI18n } from "@lib/i18n/client";
+import { updateJournalPassphraseAction } from "../controllers/journal.actions";
+import { wrapWithPassphrase } from "../models/journal.crypto";
+import { journalKeyStore, useJournalKey } from "../models/journal.keystore";
+import {
+  JOURNAL_PASSPHRASE_MIN_LENGTH,
+  getJournalErrorText,
+  type JournalKeyMaterial,
+} from "../models/journal.types";
+import { EncryptExistingEntries } from "./EncryptExistingEntries";
+import { JournalEncryptionSetup } from "./JournalEncryptionSetup";
+import { JournalUnlockForm } from "./JournalUnlockForm";
+
+type Props = {
+  userId: string;
+  keyMaterial: JournalKeyMaterial | null;
+  // Entradas con el contenido todavía sin cifrar
+  pending: number;
+};
+
+/**
+ * Cifrado de la bitácora en la configuración
+ *
+ * Sin llaves muestra la activación; con llaves, cifrar entradas
+ * anteriores, cambiar la frase secreta y bloquear la bitácora.
+ */
+export function JournalEncryptionPanel({
+  userId,
+  keyMaterial,
+  pending,
+}: Props) {
+  const { t } = useI18n();
+  // Se decide al montar: al activar el cifrado la página se vuelve a
+  // renderizar con llaves, y la activación todavía debe mostrar la
+  // clave de recuperación
+  const [startedEnabled] = useState(keyMaterial !== null);
+  const key = useJournalKey(userId);
+
+  if (!startedEnabled || !keyMaterial) {
+    return <JournalEncryptionSetup userId={userId} pending={pending} />;
+  }
+
+  if (!key) {
+    return <JournalUnlockForm userId={userId} keyMaterial={keyMaterial} />;
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <p className="text-green-700">{t("journal.encryption.unlocked")}</p>
+        <button
+          type="button"
+          onClick={() => journalKeyStore.clear()}
+          className="underline"
+        >
+          {t("journal.encryption.lock")}
+        </button>
+      </div>
+
+      <EncryptExistingEntries encryptionKey={key} pending={pending} />
+
+      <div className="flex flex-col gap-2">
+        <h3 className="text-sm font-medium">
+          {t("journal.encryption.changePassphrase")}
+        </h3>
+        <ChangePassphraseForm encryptionKey={key} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Envuelve la llave con una frase nueva (la clave de recuperación
+ * sigue sirviendo)
+ */
+function ChangePassphraseForm({ encryptionKey }: { encryptionKey: CryptoKey }) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setSaved(false);
+
+    if (passphrase.length < JOURNAL_PASSPHRASE_MIN_LENGTH) {
+      setError(
+        t("journal.encryption.passphraseTooShort", {
+          min: JOURNAL_PASSPHRASE_MIN_LENGTH,
+        })
+      );
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError(t("journal.encryption.passphraseMismatch"));
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await updateJournalPassphraseAction(
+        await wrapWithPassphrase(encryptionKey, passphrase)
+      );
+      if (!result.success) {
+        setError(getJournalErrorText(result.error, i18n));
+        return;
+      }
+      setPassphrase("");
+      setConfirmation("");
+      setSaved(true);
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3 text-sm">
+      <label className="flex flex-col">
+        {t("journal.encryption.newPassphrase")}
+        <input
+          type="password"
+          required
+          autoComplete="new-password"
+          minLength={JOURNAL_PASSPHRASE_MIN_LENGTH}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className="mt-1 max-w-md rounded-md border px-3 py-2"
+        />
+      </label>
+      <label className="flex flex-col">
+        {t("journal.encryption.repeatNewPassphrase")}
+        <input
+          type="password"
+          required
+          autoComplete="new-password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          className="mt-1 max-w-md rounded-md border px-3 py-2"
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={isPending}
+        className="self-start rounded-md border px-4 py-2 disabled:opacity-50"
+      >
+        {t("journal.encryption.submitChange")}
+      </button>
+      {saved && (
+        <p className="text-green-700" role="status">
+          {t("journal.encryption.passphraseSaved")}
+        </p>
+      )}
+      {error && (
+        <p className="text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
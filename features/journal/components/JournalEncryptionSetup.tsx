@@ -0,0 +1,196 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useI18n } from "@lib/i18n/client";
+import { setupJournalEncryptionAction } from "../controllers/journal.actions";
+import { createJournalKeys } from "../models/journal.crypto";
+import { journalKeyStore } from "../models/journal.keystore";
+import {
+  JOURNAL_PASSPHRASE_MIN_LENGTH,
+  getJournalErrorText,
+} from "../models/journal.types";
+import { EncryptExistingEntries } from "./EncryptExistingEntries";
+
+type Props = {
+  userId: string;
+  // Entradas que ya existen y quedarán por cifrar
+  pending: number;
+};
+
+/**
+ * Activar el cifrado de la bitácora
+ *
+ * 1. El usuario elige su frase secreta y confirma que entiende qué se
+ *    pierde si la olvida
+ * 2. Se muestra la clave de recuperación una sola vez
+ * 3. Se cifran las entradas que ya existían
+ */
+export function JournalEncryptionSetup({ userId, pending }: Props) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [understood, setUnderstood] = useState(false);
+  const [created, setCreated] = useState<{
+    key: CryptoKey;
+    recoveryKey: string;
+  } | null>(null);
+  const [savedRecoveryKey, setSavedRecoveryKey] = useState(false);
+  const [finished, setFinished] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+
+    if (passphrase.length < JOURNAL_PASSPHRASE_MIN_LENGTH) {
+      setError(
+        t("journal.encryption.passphraseTooShort", {
+          min: JOURNAL_PASSPHRASE_MIN_LENGTH,
+        })
+      );
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError(t("journal.encryption.passphraseMismatch"));
+      return;
+    }
+
+    startTransition(async () => {
+      const { key, recoveryKey, material } = await createJournalKeys(
+        passphrase
+      );
+      const result = await setupJournalEncryptionAction(material);
+      if (!result.success) {
+        setError(getJournalErrorText(result.error, i18n));
+        return;
+      }
+
+      setPassphrase("");
+      setConfirmation("");
+      journalKeyStore.set(userId, key);
+      setCreated({ key, recoveryKey });
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.recoveryKey);
+    setCopied(true);
+  };
+
+  if (created && finished) {
+    return (
+      <div className="flex flex-col gap-3">
+        <p className="text-sm text-green-700" role="status">
+          {t("journal.encryption.enabled")}
+        </p>
+        <EncryptExistingEntries
+          encryptionKey={created.key}
+          pending={pending}
+          autoStart
+        />
+      </div>
+    );
+  }
+
+  if (created) {
+    return (
+      <div className="flex flex-col gap-4 text-sm">
+        <p className="font-medium">
+          {t("journal.encryption.recoveryKeyTitle")}
+        </p>
+        <p className="text-slate-600">
+          {t("journal.encryption.recoveryKeyDescription")}
+        </p>
+        <p className="select-all rounded-md border bg-slate-50 px-4 py-3 text-center font-mono text-lg tracking-wider">
+          {created.recoveryKey}
+        </p>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="self-start underline"
+        >
+          {copied
+            ? t("journal.encryption.copied")
+            : t("journal.encryption.copy")}
+        </button>
+        <label className="flex items-start gap-2">
+          <input
+            type="checkbox"
+            checked={savedRecoveryKey}
+            onChange={(e) => setSavedRecoveryKey(e.target.checked)}
+            className="mt-1"
+          />
+          {t("journal.encryption.savedRecoveryKey")}
+        </label>
+        <button
+          type="button"
+          onClick={() => setFinished(true)}
+          disabled={!savedRecoveryKey}
+          className="self-start rounded-md bg-slate-900 px-4 py-2 text-white disabled:opacity-50"
+        >
+          {t("journal.encryption.continue")}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3 text-sm">
+      <label className="flex flex-col">
+        {t("journal.encryption.passphrase")}
+        <input
+          type="password"
+          required
+          autoComplete="new-password"
+          minLength={JOURNAL_PASSPHRASE_MIN_LENGTH}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className="mt-1 max-w-md rounded-md border px-3 py-2"
+        />
+        <span className="mt-1 text-xs text-slate-500">
+          {t("journal.encryption.passphraseHint", {
+            min: JOURNAL_PASSPHRASE_MIN_LENGTH,
+          })}
+        </span>
+      </label>
+      <label className="flex flex-col">
+        {t("journal.encryption.repeatPassphrase")}
+        <input
+          type="password"
+          required
+          autoComplete="new-password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          className="mt-1 max-w-md rounded-md border px-3 py-2"
+        />
+      </label>
+      <label className="flex items-start gap-2">
+        <input
+          type="checkbox"
+          checked={understood}
+          onChange={(e) => setUnderstood(e.target.checked)}
+          className="mt-1"
+        />
+        {t("journal.encryption.understood")}
+      </label>
+      <button
+        type="submit"
+        disabled={!understood || isPending}
+        className="self-start rounded-md bg-slate-900 px-4 py-2 text-white disabled:opacity-50"
+      >
+        {isPending
+          ? t("journal.encryption.enabling")
+          : t("journal.encryption.enable")}
+      </button>
+      {error && (
+        <p className="text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,56 @@
+import Link from "next/link";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+import type { JournalEntry } from "../models/journal.types";
+
+type Props = {
+  entries: JournalEntry[];
+};
+
+/**
+ * Lista de entradas de la bitácora
+ */
+export async function JournalEntryList({ entries }: Props) {
+  const { t } = await getI18n();
+  if (entries.length === 0) {
+    return <p className="text-slate-600">{t("journal.list.empty")}</p>;
+  }
+
+  return (
+    <ul className="flex flex-col divide-y rounded-lg border">
+      {entries.map((entry) => (
+        <li key={entry.id}>
+          <Link
+            href={`${siteConfig.routes.journal}/${entry.id}`}
+            className="flex flex-col gap-1 p-4 hover:bg-slate-50"
+          >
+            <div className="flex items-center gap-2">
+              <span className="font-semibold">
+                {entry.title || t("journal.untitled")}
+              </span>
+              {entry.encrypted && (
+                <span
+                  className="text-xs text-slate-500"
+                  title={t("journal.encrypted")}
+                >
+                  🔒
+                </span>
+              )}
+              {entry.status === "draft" && (
+                <span className="rounded bg-amber-100 px-2 text-xs text-amber-800">
+                  {t("journal.draft")}
+                </span>
+              )}
+            </div>
+            <span className="text-sm text-slate-600">{entry.entryDate}</span>
+            {entry.tags.length > 0 && (
+              <span className="text-xs text-slate-500">
+                {entry.tags.map((tag) => `#${tag}`).join(" ")}
+              </span>
+            )}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,66 @@
+import { getI18n } from "@lib/i18n/server";
+import type { JournalListFilters } from "../models/journal.types";
+
+type Props = {
+  filters: JournalListFilters;
+  // Con la bitácora cifrada el contenido no se puede buscar
+  encrypted?: boolean;
+};
+
+/**
+ * Formulario de búsqueda de la bitácora
+ *
+ * Es un <form method="get"> simple: los filtros viajan en la URL
+ * y la página los lee de searchParams, sin JavaScript en el cliente.
+ */
+export async function JournalSearchForm({ filters, encrypted = false }: Props) {
+  const { t } = await getI18n();
+  return (
+    <form method="get" className="flex flex-wrap items-end gap-3">
+      <label className="flex flex-col text-sm">
+        {t("journal.search.query")}
+        <input
+          type="search"
+          name="q"
+          defaultValue={filters.query}
+          placeholder={
+            encrypted
+              ? t("journal.search.queryPlaceholderEncrypted")
+              : t("journal.search.queryPlaceholder")
+          }
+          className="mt-1 rounded-md border px-3 py-2"
+        />
+      </label>
+
+      <label className="flex flex-col text-sm">
+        {t("journal.search.tag")}
+        <input
+          type="text"
+          name="tag"
+          defaultValue={filters.tag}
+          className="mt-1 rounded-md border px-3 py-2"
+        />
+      </label>
+
+      <label className="flex flex-col text-sm">
+        {t("journal.search.status")}
+        <select
+          name="status"
+          defaultValue={filters.status ?? ""}
+          className="mt-1 rounded-md border px-3 py-2"
+        >
+          <option value="">{t("journal.search.all")}</option>
+          <option value="published">{t("journal.search.published")}</option>
+          <option value="draft">{t("journal.search.drafts")}</option>
+        </select>
+      </label>
+
+      <button
+        type="submit"
+        className="rounded-md bg-slate-900 px-4 py-2 text-sm text-white"
+      >
+        {t("journal.search.submit")}
+      </button>
+    </form>
+  );
+}
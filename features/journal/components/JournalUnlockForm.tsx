@@ -0,0 +1,110 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { siteConfig } from "@lib/config/site";
+import { useI18n } from "@lib/i18n/client";
+import { unlockJournalKey } from "../models/journal.crypto";
+import { journalKeyStore } from "../models/journal.keystore";
+import type { JournalKeyMaterial } from "../models/journal.types";
+
+type Props = {
+  userId: string;
+  keyMaterial: JournalKeyMaterial;
+};
+
+/**
+ * Desbloquear la bitácora cifrada con la frase secreta o con la
+ * clave de recuperación
+ *
+ * La llave queda solo en la memoria de esta pestaña.
+ */
+export function JournalUnlockForm({ userId, keyMaterial }: Props) {
+  const { t } = useI18n();
+  const [method, setMethod] = useState<"passphrase" | "recovery">("passphrase");
+  const [secret, setSecret] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      const key = await unlockJournalKey(keyMaterial, secret, method);
+      if (!key) {
+        setError(
+          method === "passphrase"
+            ? t("journal.unlock.wrongPassphrase")
+            : t("journal.unlock.wrongRecoveryKey")
+        );
+        return;
+      }
+      setSecret("");
+      journalKeyStore.set(userId, key);
+    });
+  };
+
+  const toggleMethod = () => {
+    setError(null);
+    setSecret("");
+    setMethod((current) =>
+      current === "passphrase" ? "recovery" : "passphrase"
+    );
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex max-w-md flex-col gap-3 rounded-lg border bg-white p-6 text-sm"
+    >
+      <p className="font-medium">{t("journal.unlock.title")}</p>
+      <p className="text-slate-600">
+        {method === "passphrase"
+          ? t("journal.unlock.passphraseHint")
+          : t("journal.unlock.recoveryHint")}
+      </p>
+      <label className="flex flex-col">
+        {method === "passphrase"
+          ? t("journal.unlock.passphrase")
+          : t("journal.unlock.recoveryKey")}
+        <input
+          type={method === "passphrase" ? "password" : "text"}
+          required
+          autoComplete="off"
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          className="mt-1 rounded-md border px-3 py-2 font-mono"
+        />
+      </label>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="submit"
+          disabled={isPending}
+          className="rounded-md bg-slate-900 px-4 py-2 text-white disabled:opacity-50"
+        >
+          {isPending
+            ? t("journal.unlock.submitting")
+            : t("journal.unlock.submit")}
+        </button>
+        <button type="button" onClick={toggleMethod} className="underline">
+          {method === "passphrase"
+            ? t("journal.unlock.forgotPassphrase")
+            : t("journal.unlock.usePassphrase")}
+        </button>
+      </div>
+      {method === "recovery" && (
+        <Link
+          href={siteConfig.routes.journalEncryption}
+          className="text-slate-600 underline"
+        >
+          {t("journal.unlock.lostRecoveryKey")}
+        </Link>
+      )}
+      {error && (
+        <p className="text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
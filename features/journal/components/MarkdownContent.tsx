@@ -0,0 +1,49 @@
+import ReactMarkdown, { type Components } from "react-markdown";
+
+type Props = {
+  body: string;
+};
+
+/**
+ * Estilos por elemento: el proyecto no usa el plugin de tipografía
+ * de Tailwind, así que se asignan clases a cada etiqueta
+ */
+const components: Components = {
+  h1: (props) => <h2 className="mt-6 text-2xl font-bold" {...props} />,
+  h2: (props) => <h3 className="mt-6 text-xl font-semibold" {...props} />,
+  h3: (props) => <h4 className="mt-4 text-lg font-semibold" {...props} />,
+  p: (props) => <p className="mt-3 leading-7" {...props} />,
+  ul: (props) => <ul className="mt-3 list-disc pl-6" {...props} />,
+  ol: (props) => <ol className="mt-3 list-decimal pl-6" {...props} />,
+  blockquote: (props) => (
+    <blockquote
+      className="mt-3 border-l-4 pl-4 italic text-slate-600"
+      {...props}
+    />
+  ),
+  a: (props) => (
+    <a
+      className="underline"
+      target="_blank"
+      rel="noopener noreferrer"
+      {...props}
+    />
+  ),
+  code: (props) => (
+    <code className="rounded bg-slate-100 px-1 font-mono text-sm" {...props} />
+  ),
+};
+
+/**
+ * Renderiza el cuerpo Markdown de una entrada de la bitácora
+ *
+ * react-markdown no interpreta HTML crudo por defecto,
+ * así que el contenido del usuario no puede inyectar etiquetas.
+ */
+export function MarkdownContent({ body }: Props) {
+  return (
+    <div className="text-slate-800">
+      <ReactMarkdown components={components}>{body}</ReactMarkdown>
+    </div>
+  );
+}
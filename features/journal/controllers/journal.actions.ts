@@ -0,0 +1,350 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getCurrentUser } from "@lib/auth/session";
+import { siteConfig } from "@lib/config/site";
+import type { User } from "@features/auth/models/auth.types";
+import { supportService } from "@features/support/controllers/support.service";
+import { journalKeyRepository } from "../models/encryption.repository";
+import { journalRepository } from "../models/journal.repository";
+import {
+  deleteJournalEntrySchema,
+  encryptJournalEntriesSchema,
+  journalPassphraseKeySchema,
+  saveJournalDraftSchema,
+  saveJournalEntrySchema,
+  setupJournalEncryptionSchema,
+  type DeleteJournalEntryInput,
+  type EncryptJournalEntriesInput,
+  type JournalPassphraseKeyInput,
+  type SaveJournalDraftInput,
+  type SaveJournalEntryInput,
+  type SetupJournalEncryptionInput,
+} from "../models/journal.schema";
+import {
+  JournalErrorType,
+  createJournalError,
+  type JournalEntry,
+  type JournalKeyMaterial,
+  type JournalResult,
+  type PlaintextJournalEntry,
+} from "../models/journal.types";
+
+/**
+ * Cantidad de entradas que se cifran por tanda al activar el cifrado
+ */
+const ENCRYPTION_BATCH_SIZE = 20;
+
+/**
+ * Server Actions de la bitácora
+ *
+ * Mismo flujo que las acciones de registros de ánimo:
+ * sesión → validación con zod → journalRepository.
+ */
+
+/**
+ * Con el cifrado activo el cuerpo debe llegar cifrado, y sin él no
+ * se acepta contenido cifrado
+ *
+ * @returns El error a devolver, o null si la entrada cumple
+ */
+async function checkEncryption(
+  userId: string,
+  data: { body: string; bodyCiphertext: string | null }
+): Promise<JournalResult<never> | null> {
+  const keys = await journalKeyRepository.get(userId);
+  if (!keys.success) return keys;
+
+  if (keys.data && data.body !== "") {
+    return {
+      success: false,
+      error: createJournalError(JournalErrorType.ENCRYPTION_REQUIRED),
+    };
+  }
+
+  if (!keys.data && data.bodyCiphertext) {
+    return {
+      success: false,
+      error: createJournalError(JournalErrorType.ENCRYPTION_NOT_ENABLED),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Evalúa las reglas de apoyo sobre el texto guardado
+ *
+ * Si la entrada está cifrada solo se evalúa el título: el editor
+ * evalúa el cuerpo en el navegador. Un error aquí no afecta el
+ * guardado de la entrada.
+ */
+async function checkSupportSignals(
+  user: User,
+  entry: { title: string; body: string }
+): Promise<void> {
+  const result = await supportService.checkJournalText(
+    user,
+    `${entry.title}\n${entry.body}`
+  );
+  if (!result.success) {
+    console.error(
+      "No se pudieron evaluar las señales de apoyo:",
+      result.error.details ?? result.error.message
+    );
+  }
+}
+
+/**
+ * Autoguardar un borrador
+ *
+ * El editor la llama con debounce mientras el usuario escribe.
+ * La primera llamada crea el borrador y devuelve su id; las siguientes
+ * lo actualizan. No revalida rutas para no interrumpir la escritura.
+ */
+export async function saveJournalDraftAction(
+  input: SaveJournalDraftInput
+): Promise<JournalResult<JournalEntry>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createJournalError(JournalErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = saveJournalDraftSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createJournalError(
+        JournalErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const rejected = await checkEncryption(user.id, parsed.data);
+  if (rejected) return rejected;
+
+  const result = await journalRepository.save(user.id, parsed.data, "draft");
+  if (result.success) {
+    await checkSupportSignals(user, parsed.data);
+  }
+
+  return result;
+}
+
+/**
+ * Publicar una entrada (nueva, borrador o ya publicada)
+ */
+export async function publishJournalEntryAction(
+  input: SaveJournalEntryInput
+): Promise<JournalResult<JournalEntry>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createJournalError(JournalErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = saveJournalEntrySchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createJournalError(
+        JournalErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const rejected = await checkEncryption(user.id, parsed.data);
+  if (rejected) return rejected;
+
+  const result = await journalRepository.save(
+    user.id,
+    parsed.data,
+    "published"
+  );
+  if (result.success) {
+    await checkSupportSignals(user, parsed.data);
+    revalidatePath(siteConfig.routes.journal, "layout");
+  }
+
+  return result;
+}
+
+/**
+ * Eliminar una entrada
+ */
+export async function deleteJournalEntryAction(
+  input: DeleteJournalEntryInput
+): Promise<JournalResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createJournalError(JournalErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = deleteJournalEntrySchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createJournalError(
+        JournalErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await journalRepository.delete(user.id, parsed.data.id);
+  if (result.success) {
+    revalidatePath(siteConfig.routes.journal, "layout");
+  }
+
+  return result;
+}
+
+/**
+ * Activar el cifrado de la bitácora
+ *
+ * Las llaves se crean y envuelven en el navegador; aquí solo se
+ * guardan. Después hay que cifrar las entradas existentes con
+ * encryptJournalEntriesAction.
+ */
+export async function setupJournalEncryptionAction(
+  input: SetupJournalEncryptionInput
+): Promise<JournalResult<JournalKeyMaterial>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createJournalError(JournalErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = setupJournalEncryptionSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createJournalError(
+        JournalErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await journalKeyRepository.create(user.id, parsed.data);
+  if (result.success) {
+    revalidatePath(siteConfig.routes.journal, "layout");
+  }
+
+  return result;
+}
+
+/**
+ * Cambiar la frase secreta de la bitácora
+ *
+ * La llave de la bitácora no cambia: solo se envuelve con la frase nueva.
+ */
+export async function updateJournalPassphraseAction(
+  input: JournalPassphraseKeyInput
+): Promise<JournalResult<JournalKeyMaterial>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createJournalError(JournalErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = journalPassphraseKeySchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createJournalError(
+        JournalErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await journalKeyRepository.updatePassphrase(
+    user.id,
+    parsed.data
+  );
+  if (result.success) {
+    revalidatePath(siteConfig.routes.journal, "layout");
+    revalidatePath(siteConfig.routes.journalEncryption);
+  }
+
+  return result;
+}
+
+/**
+ * Siguiente tanda de entradas sin cifrar, para cifrarlas en el navegador
+ */
+export async function listPlaintextJournalEntriesAction(): Promise<
+  JournalResult<PlaintextJournalEntry[]>
+> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createJournalError(JournalErrorType.UNAUTHORIZED),
+    };
+  }
+
+  return journalRepository.listPlaintext(user.id, ENCRYPTION_BATCH_SIZE);
+}
+
+/**
+ * Guardar una tanda de entradas cifradas en el navegador
+ *
+ * @returns JournalResult con la cantidad de entradas cifradas
+ */
+export async function encryptJournalEntriesAction(
+  input: EncryptJournalEntriesInput
+): Promise<JournalResult<number>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createJournalError(JournalErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = encryptJournalEntriesSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createJournalError(
+        JournalErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const keys = await journalKeyRepository.get(user.id);
+  if (!keys.success) return keys;
+  if (!keys.data) {
+    return {
+      success: false,
+      error: createJournalError(JournalErrorType.ENCRYPTION_NOT_ENABLED),
+    };
+  }
+
+  const result = await journalRepository.replaceWithCiphertext(
+    user.id,
+    parsed.data.entries
+  );
+  if (result.success) {
+    revalidatePath(siteConfig.routes.journal, "layout");
+  }
+
+  return result;
+}
@@ -0,0 +1,165 @@
+import { createClient } from "@lib/supabase/server";
+import {
+  JournalResult,
+  JournalErrorType,
+  createJournalError,
+  mapJournalKeyRow,
+  type JournalKeyMaterial,
+  type JournalKeyRow,
+} from "./journal.types";
+import type {
+  JournalPassphraseKeyInput,
+  SetupJournalEncryptionInput,
+} from "./journal.schema";
+
+const JOURNAL_KEYS_TABLE = "journal_keys";
+
+/**
+ * Código de Postgres para "valor duplicado" (ya hay llaves)
+ */
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Repositorio de las llaves de la bitácora
+ *
+ * Capa de acceso a datos para la tabla `journal_keys`. Solo guarda
+ * llaves envueltas: nada de lo que hay aquí sirve para leer la
+ * bitácora sin la frase secreta o la clave de recuperación.
+ */
+export const journalKeyRepository = {
+  /**
+   * Llaves del usuario, o null si no activó el cifrado
+   *
+   * @param userId - Id del usuario
+   */
+  async get(userId: string): Promise<JournalResult<JournalKeyMaterial | null>> {
+    try {
+      const supabase = await createClient();
+      const { data: row, error } = await supabase
+        .from(JOURNAL_KEYS_TABLE)
+        .select()
+        .eq("user_id", userId)
+        .maybeSingle<JournalKeyRow>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createJournalError(
+            JournalErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: row ? mapJournalKeyRow(row) : null };
+    } catch (error) {
+      console.error("Error en journalKeyRepository.get:", error);
+      return {
+        success: false,
+        error: createJournalError(JournalErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Guardar las llaves al activar el cifrado
+   *
+   * @param userId - Id del usuario
+   * @param data - Llaves ya envueltas en el navegador
+   * @returns JournalResult con las llaves o ENCRYPTION_ALREADY_ENABLED
+   */
+  async create(
+    userId: string,
+    data: SetupJournalEncryptionInput
+  ): Promise<JournalResult<JournalKeyMaterial>> {
+    try {
+      const supabase = await createClient();
+      const { data: row, error } = await supabase
+        .from(JOURNAL_KEYS_TABLE)
+        .insert({
+          user_id: userId,
+          kdf_salt: data.kdfSalt,
+          kdf_iterations: data.kdfIterations,
+          passphrase_wrapped_key: data.passphraseWrappedKey,
+          recovery_salt: data.recoverySalt,
+          recovery_wrapped_key: data.recoveryWrappedKey,
+        })
+        .select()
+        .single<JournalKeyRow>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createJournalError(
+            error.code === UNIQUE_VIOLATION
+              ? JournalErrorType.ENCRYPTION_ALREADY_ENABLED
+              : JournalErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: mapJournalKeyRow(row) };
+    } catch (error) {
+      console.error("Error en journalKeyRepository.create:", error);
+      return {
+        success: false,
+        error: createJournalError(JournalErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Reemplazar la llave envuelta con la frase secreta (cambio de frase)
+   *
+   * La clave de recuperación sigue sirviendo.
+   *
+   * @param userId - Id del usuario
+   * @param data - Llave envuelta con la frase nueva
+   * @returns JournalResult con las llaves o ENCRYPTION_NOT_ENABLED
+   */
+  async updatePassphrase(
+    userId: string,
+    data: JournalPassphraseKeyInput
+  ): Promise<JournalResult<JournalKeyMaterial>> {
+    try {
+      const supabase = await createClient();
+      const { data: row, error } = await supabase
+        .from(JOURNAL_KEYS_TABLE)
+        .update({
+          kdf_salt: data.kdfSalt,
+          kdf_iterations: data.kdfIterations,
+          passphrase_wrapped_key: data.passphraseWrappedKey,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("user_id", userId)
+        .select()
+        .maybeSingle<JournalKeyRow>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createJournalError(
+            JournalErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      if (!row) {
+        return {
+          success: false,
+          error: createJournalError(JournalErrorType.ENCRYPTION_NOT_ENABLED),
+        };
+      }
+
+      return { success: true, data: mapJournalKeyRow(row) };
+    } catch (error) {
+      console.error("Error en journalKeyRepository.updatePassphrase:", error);
+      return {
+        success: false,
+        error: createJournalError(JournalErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+};
@@ -0,0 +1,287 @@
+import type { JournalKeyMaterial } from "./journal.types";
+
+/**
+ * Cifrado de la bitácora en el navegador (Web Crypto API)
+ *
+ * - La llave de la bitácora es AES-GCM de 256 bits, generada al azar
+ * - Se guarda envuelta con llaves derivadas (PBKDF2-SHA256) de la
+ *   frase secreta y de la clave de recuperación
+ * - Cada cuerpo se cifra con un vector de inicialización nuevo
+ *
+ * Las funciones usan `crypto.subtle` solo al llamarse, así que los
+ * patrones de formato se pueden importar también desde el servidor
+ * para validar lo que llega.
+ */
+
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const RECOVERY_KEY_BYTES = 20;
+const CIPHERTEXT_VERSION = "v1";
+
+// Base32 de Crockford: sin I, L, O ni U para evitar confusiones al copiar
+const RECOVERY_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+const BASE64 = "[A-Za-z0-9+/]+={0,2}";
+
+/**
+ * Formato de un valor en base64
+ */
+export const BASE64_PATTERN = new RegExp(`^${BASE64}$`);
+
+/**
+ * Formato de una llave envuelta: `<iv>.<llave cifrada>`
+ */
+export const WRAPPED_KEY_PATTERN = new RegExp(`^${BASE64}\\.${BASE64}$`);
+
+/**
+ * Formato de un cuerpo cifrado: `v1.<iv>.<texto cifrado>`
+ */
+export const ENCRYPTED_BODY_PATTERN = new RegExp(
+  `^${CIPHERTEXT_VERSION}\\.${BASE64}\\.${BASE64}$`
+);
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  let binary = "";
+  new Uint8Array(bytes).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * Deja la clave de recuperación solo con caracteres del alfabeto
+ * (mayúsculas, sin guiones ni espacios; O → 0, I y L → 1)
+ */
+function normalizeRecoveryKey(recoveryKey: string): string {
+  return recoveryKey
+    .toUpperCase()
+    .replace(/[\s-]/g, "")
+    .replace(/O/g, "0")
+    .replace(/[IL]/g, "1");
+}
+
+/**
+ * Llave AES-GCM derivada de una frase o de la clave de recuperación
+ */
+async function deriveWrappingKey(
+  secret: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+}
+
+async function wrapKey(key: CryptoKey, wrappingKey: CryptoKey) {
+  const iv = randomBytes(IV_BYTES);
+  const wrapped = await crypto.subtle.wrapKey("raw", key, wrappingKey, {
+    name: "AES-GCM",
+    iv,
+  });
+  return `${toBase64(iv)}.${toBase64(wrapped)}`;
+}
+
+/**
+ * Desenvuelve la llave de la bitácora
+ *
+ * @returns La llave, o null si el secreto no era el correcto
+ */
+async function unwrapKey(
+  wrappedKey: string,
+  wrappingKey: CryptoKey
+): Promise<CryptoKey | null> {
+  const [iv, wrapped] = wrappedKey.split(".");
+  try {
+    return await crypto.subtle.unwrapKey(
+      "raw",
+      fromBase64(wrapped),
+      wrappingKey,
+      { name: "AES-GCM", iv: fromBase64(iv) },
+      { name: "AES-GCM" },
+      // Exportable para poder envolverla de nuevo al cambiar la frase
+      true,
+      ["encrypt", "decrypt"]
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Genera una clave de recuperación legible, en grupos de 4
+ *
+ * @example "7K2M-Q9XD-..."
+ */
+export function generateRecoveryKey(): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of randomBytes(RECOVERY_KEY_BYTES)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += RECOVERY_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  return output.match(/.{1,4}/g)!.join("-");
+}
+
+/**
+ * Envuelve la llave de la bitácora con una frase secreta nueva
+ *
+ * @returns Los campos de JournalKeyMaterial que dependen de la frase
+ */
+export async function wrapWithPassphrase(
+  key: CryptoKey,
+  passphrase: string
+): Promise<
+  Pick<JournalKeyMaterial, "kdfSalt" | "kdfIterations" | "passphraseWrappedKey">
+> {
+  const salt = randomBytes(SALT_BYTES);
+  const wrappingKey = await deriveWrappingKey(
+    passphrase,
+    salt,
+    PBKDF2_ITERATIONS
+  );
+
+  return {
+    kdfSalt: toBase64(salt),
+    kdfIterations: PBKDF2_ITERATIONS,
+    passphraseWrappedKey: await wrapKey(key, wrappingKey),
+  };
+}
+
+/**
+ * Crea la llave de la bitácora y la clave de recuperación
+ *
+ * La clave de recuperación no se guarda en ningún lado: hay que
+ * mostrársela al usuario una sola vez.
+ *
+ * @param passphrase - Frase secreta elegida por el usuario
+ */
+export async function createJournalKeys(passphrase: string): Promise<{
+  key: CryptoKey;
+  recoveryKey: string;
+  material: Omit<JournalKeyMaterial, "updatedAt">;
+}> {
+  const key = await crypto.subtle.generateKey(
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"]
+  );
+  const recoveryKey = generateRecoveryKey();
+  const recoverySalt = randomBytes(SALT_BYTES);
+  const recoveryWrappingKey = await deriveWrappingKey(
+    normalizeRecoveryKey(recoveryKey),
+    recoverySalt,
+    PBKDF2_ITERATIONS
+  );
+
+  return {
+    key,
+    recoveryKey,
+    material: {
+      ...(await wrapWithPassphrase(key, passphrase)),
+      recoverySalt: toBase64(recoverySalt),
+      recoveryWrappedKey: await wrapKey(key, recoveryWrappingKey),
+    },
+  };
+}
+
+/**
+ * Abre la llave de la bitácora con la frase o con la clave de recuperación
+ *
+ * @returns La llave, o null si el secreto no es correcto
+ */
+export async function unlockJournalKey(
+  material: JournalKeyMaterial,
+  secret: string,
+  method: "passphrase" | "recovery"
+): Promise<CryptoKey | null> {
+  if (method === "recovery") {
+    const wrappingKey = await deriveWrappingKey(
+      normalizeRecoveryKey(secret),
+      fromBase64(material.recoverySalt),
+      material.kdfIterations
+    );
+    return unwrapKey(material.recoveryWrappedKey, wrappingKey);
+  }
+
+  const wrappingKey = await deriveWrappingKey(
+    secret,
+    fromBase64(material.kdfSalt),
+    material.kdfIterations
+  );
+  return unwrapKey(material.passphraseWrappedKey, wrappingKey);
+}
+
+/**
+ * Cifra el cuerpo (Markdown) de una entrada
+ *
+ * @returns Texto `v1.<iv>.<texto cifrado>` listo para guardar
+ */
+export async function encryptJournalBody(
+  key: CryptoKey,
+  body: string
+): Promise<string> {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(body)
+  );
+  return `${CIPHERTEXT_VERSION}.${toBase64(iv)}.${toBase64(ciphertext)}`;
+}
+
+/**
+ * Descifra el cuerpo de una entrada
+ *
+ * @returns El Markdown, o null si la llave no corresponde o el texto
+ *   está dañado
+ */
+export async function decryptJournalBody(
+  key: CryptoKey,
+  payload: string
+): Promise<string | null> {
+  if (!ENCRYPTED_BODY_PATTERN.test(payload)) return null;
+
+  const [, iv, ciphertext] = payload.split(".");
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(iv) },
+      key,
+      fromBase64(ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,60 @@
+import { useSyncExternalStore } from "react";
+
+/**
+ * Llave de la bitácora desbloqueada en esta pestaña
+ *
+ * Solo vive en memoria: al recargar la página o cerrar la pestaña hay
+ * que volver a escribir la frase secreta. Nunca se guarda en
+ * localStorage, IndexedDB ni cookies.
+ */
+
+let unlocked: { userId: string; key: CryptoKey } | null = null;
+const listeners = new Set<() => void>();
+
+function emit() {
+  listeners.forEach((listener) => listener());
+}
+
+export const journalKeyStore = {
+  /**
+   * Llave del usuario, si la desbloqueó en esta pestaña
+   */
+  get(userId: string): CryptoKey | null {
+    return unlocked?.userId === userId ? unlocked.key : null;
+  },
+
+  set(userId: string, key: CryptoKey): void {
+    unlocked = { userId, key };
+    emit();
+  },
+
+  /**
+   * Olvida la llave (bloquear la bitácora)
+   */
+  clear(): void {
+    unlocked = null;
+    emit();
+  },
+
+  /**
+   * Para useSyncExternalStore
+   */
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+/**
+ * Llave desbloqueada del usuario en esta pestaña (o null), y se
+ * actualiza al desbloquear o bloquear
+ */
+export function useJournalKey(userId: string): CryptoKey | null {
+  return useSyncExternalStore(
+    journalKeyStore.subscribe,
+    () => journalKeyStore.get(userId),
+    () => null
+  );
+}
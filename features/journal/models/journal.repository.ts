@@ -0,0 +1,437 @@
+import { fetchAllPages } from "@lib/supabase/pagination";
+import { createClient } from "@lib/supabase/server";
+import {
+  JournalResult,
+  JournalErrorType,
+  createJournalError,
+  mapJournalEntryRow,
+  type JournalEntry,
+  type JournalEntryRow,
+  type JournalEntryStatus,
+  type JournalListFilters,
+  type PlaintextJournalEntry,
+} from "./journal.types";
+import type {
+  EncryptJournalEntriesInput,
+  SaveJournalEntryData,
+} from "./journal.schema";
+
+const JOURNAL_ENTRIES_TABLE = "journal_entries";
+
+/**
+ * Limpia el texto de búsqueda para usarlo dentro de un filtro `or()`
+ * de PostgREST (las comas, paréntesis y comodines tienen significado)
+ */
+function sanitizeSearchQuery(query: string): string {
+  return query.replace(/[,()%*\\"{}]/g, " ").trim();
+}
+
+/**
+ * Repositorio de la Bitácora
+ *
+ * Capa de acceso a datos para la tabla `journal_entries`.
+ * Sigue el mismo patrón que authRepository y moodRepository.
+ *
+ * Responsabilidades:
+ * - Leer y escribir entradas en Supabase
+ * - Mapear filas de la base de datos a nuestros tipos
+ * - Manejar errores de forma consistente
+ * - NO valida datos ni verifica sesión (eso va en controllers)
+ */
+export const journalRepository = {
+  /**
+   * Crear o actualizar una entrada
+   *
+   * @param userId - Id del usuario dueño de la entrada
+   * @param data - Datos ya validados (si trae id se actualiza; con
+   *   baseUpdatedAt, solo si la entrada sigue en esa versión)
+   * @param status - Estado con el que se guarda la entrada
+   * @returns JournalResult con la entrada guardada o error
+   */
+  async save(
+    userId: string,
+    data: SaveJournalEntryData,
+    status: JournalEntryStatus
+  ): Promise<JournalResult<JournalEntry>> {
+    try {
+      const supabase = await createClient();
+      const values = {
+        entry_date: data.entryDate,
+        title: data.title,
+        body: data.body,
+        encrypted: Boolean(data.bodyCiphertext),
+        body_ciphertext: data.bodyCiphertext,
+        tags: data.tags,
+        mood_entry_id: data.moodEntryId,
+        status,
+        updated_at: new Date().toISOString(),
+      };
+
+      let query;
+      if (data.id) {
+        query = supabase
+          .from(JOURNAL_ENTRIES_TABLE)
+          .update(values)
+          .eq("id", data.id)
+          .eq("user_id", userId);
+        // Solo actualiza si nadie la modificó desde la versión editada
+        if (data.baseUpdatedAt) {
+          query = query.eq("updated_at", data.baseUpdatedAt);
+        }
+      } else {
+        query = supabase
+          .from(JOURNAL_ENTRIES_TABLE)
+          .insert({ ...values, user_id: userId });
+      }
+
+      const { data: row, error } = await query
+        .select()
+        .maybeSingle<JournalEntryRow>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createJournalError(
+            JournalErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      if (!row) {
+        // La entrada existe pero con otra versión → conflicto
+        if (data.id && data.baseUpdatedAt) {
+          const current = await journalRepository.getById(userId, data.id);
+          if (current.success) {
+            return {
+              success: false,
+              error: createJournalError(JournalErrorType.CONFLICT),
+            };
+          }
+        }
+
+        return {
+          success: false,
+          error: createJournalError(JournalErrorType.NOT_FOUND),
+        };
+      }
+
+      return { success: true, data: mapJournalEntryRow(row) };
+    } catch (error) {
+      console.error("Error en journalRepository.save:", error);
+      return {
+        success: false,
+        error: createJournalError(JournalErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Obtener una entrada por id
+   *
+   * @param userId - Id del usuario dueño de la entrada
+   * @param id - Id de la entrada
+   * @returns JournalResult con la entrada o NOT_FOUND
+   */
+  async getById(
+    userId: string,
+    id: string
+  ): Promise<JournalResult<JournalEntry>> {
+    try {
+      const supabase = await createClient();
+      const { data: row, error } = await supabase
+        .from(JOURNAL_ENTRIES_TABLE)
+        .select()
+        .eq("id", id)
+        .eq("user_id", userId)
+        .maybeSingle<JournalEntryRow>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createJournalError(
+            JournalErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      if (!row) {
+        return {
+          success: false,
+          error: createJournalError(JournalErrorType.NOT_FOUND),
+        };
+      }
+
+      return { success: true, data: mapJournalEntryRow(row) };
+    } catch (error) {
+      console.error("Error en journalRepository.getById:", error);
+      return {
+        success: false,
+        error: createJournalError(JournalErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Listar entradas con búsqueda y filtros opcionales
+   *
+   * La búsqueda de texto compara contra título y cuerpo (sin distinguir
+   * mayúsculas) y contra las etiquetas. El cuerpo de las entradas
+   * cifradas no se puede buscar: de ellas solo cuentan título y
+   * etiquetas. Las entradas se ordenan por fecha, más recientes primero.
+   *
+   * @param userId - Id del usuario
+   * @param filters - Texto, etiqueta y estado a filtrar
+   * @returns JournalResult con las entradas encontradas
+   */
+  async list(
+    userId: string,
+    filters: JournalListFilters = {}
+  ): Promise<JournalResult<JournalEntry[]>> {
+    try {
+      const supabase = await createClient();
+      const search = filters.query ? sanitizeSearchQuery(filters.query) : "";
+
+      // Por páginas: las exportaciones de un año pasan el límite de
+      // filas de PostgREST
+      const { data: rows, error } = await fetchAllPages((from, to) => {
+        let query = supabase
+          .from(JOURNAL_ENTRIES_TABLE)
+          .select()
+          .eq("user_id", userId);
+
+        if (filters.status) {
+          query = query.eq("status", filters.status);
+        }
+
+        if (filters.tag) {
+          query = query.contains("tags", [filters.tag]);
+        }
+
+        if (filters.fromDate) {
+          query = query.gte("entry_date", filters.fromDate);
+        }
+
+        if (filters.toDate) {
+          query = query.lte("entry_date", filters.toDate);
+        }
+
+        if (search) {
+          query = query.or(
+            `title.ilike.%${search}%,body.ilike.%${search}%,tags.cs.{"${search.toLowerCase()}"}`
+          );
+        }
+
+        return query
+          .order("entry_date", { ascending: false })
+          .order("updated_at", { ascending: false })
+          .order("id", { ascending: false })
+          .range(from, to)
+          .overrideTypes<JournalEntryRow[], { merge: false }>();
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: createJournalError(
+            JournalErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: (rows ?? []).map(mapJournalEntryRow) };
+    } catch (error) {
+      console.error("Error en journalRepository.list:", error);
+      return {
+        success: false,
+        error: createJournalError(JournalErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Entradas que todavía guardan el cuerpo sin cifrar
+   *
+   * @param userId - Id del usuario
+   * @param limit - Cantidad máxima (se cifran por tandas)
+   * @returns JournalResult con las entradas, las más antiguas primero
+   */
+  async listPlaintext(
+    userId: string,
+    limit: number
+  ): Promise<JournalResult<PlaintextJournalEntry[]>> {
+    try {
+      const supabase = await createClient();
+      const { data: rows, error } = await supabase
+        .from(JOURNAL_ENTRIES_TABLE)
+        .select("id, body, updated_at")
+        .eq("user_id", userId)
+        .eq("encrypted", false)
+        .order("created_at", { ascending: true })
+        .limit(limit)
+        .overrideTypes<
+          Pick<JournalEntryRow, "id" | "body" | "updated_at">[],
+          { merge: false }
+        >();
+
+      if (error) {
+        return {
+          success: false,
+          error: createJournalError(
+            JournalErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return {
+        success: true,
+        data: (rows ?? []).map((row) => ({
+          id: row.id,
+          body: row.body,
+          updatedAt: row.updated_at,
+        })),
+      };
+    } catch (error) {
+      console.error("Error en journalRepository.listPlaintext:", error);
+      return {
+        success: false,
+        error: createJournalError(JournalErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Cuántas entradas guardan todavía el cuerpo sin cifrar
+   *
+   * @param userId - Id del usuario
+   */
+  async countPlaintext(userId: string): Promise<JournalResult<number>> {
+    try {
+      const supabase = await createClient();
+      const { count, error } = await supabase
+        .from(JOURNAL_ENTRIES_TABLE)
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .eq("encrypted", false);
+
+      if (error) {
+        return {
+          success: false,
+          error: createJournalError(
+            JournalErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: count ?? 0 };
+    } catch (error) {
+      console.error("Error en journalRepository.countPlaintext:", error);
+      return {
+        success: false,
+        error: createJournalError(JournalErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Reemplazar el cuerpo de entradas existentes por su versión cifrada
+   *
+   * No cambia `updated_at`: la entrada no se editó. Las que cambiaron
+   * desde `baseUpdatedAt` se omiten y quedan para la siguiente tanda.
+   *
+   * @param userId - Id del usuario
+   * @param entries - Cuerpos cifrados en el navegador
+   * @returns JournalResult con la cantidad de entradas cifradas
+   */
+  async replaceWithCiphertext(
+    userId: string,
+    entries: EncryptJournalEntriesInput["entries"]
+  ): Promise<JournalResult<number>> {
+    try {
+      const supabase = await createClient();
+      let encrypted = 0;
+
+      for (const entry of entries) {
+        const { data: rows, error } = await supabase
+          .from(JOURNAL_ENTRIES_TABLE)
+          .update({
+            body: "",
+            encrypted: true,
+            body_ciphertext: entry.bodyCiphertext,
+          })
+          .eq("id", entry.id)
+          .eq("user_id", userId)
+          .eq("updated_at", entry.baseUpdatedAt)
+          .select("id");
+
+        if (error) {
+          return {
+            success: false,
+            error: createJournalError(
+              JournalErrorType.UNKNOWN_ERROR,
+              error.message
+            ),
+          };
+        }
+
+        encrypted += rows?.length ?? 0;
+      }
+
+      return { success: true, data: encrypted };
+    } catch (error) {
+      console.error("Error en journalRepository.replaceWithCiphertext:", error);
+      return {
+        success: false,
+        error: createJournalError(JournalErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Eliminar una entrada
+   *
+   * @param userId - Id del usuario dueño de la entrada
+   * @param id - Id de la entrada
+   * @returns JournalResult indicando éxito o error
+   */
+  async delete(userId: string, id: string): Promise<JournalResult> {
+    try {
+      const supabase = await createClient();
+      const { data: rows, error } = await supabase
+        .from(JOURNAL_ENTRIES_TABLE)
+        .delete()
+        .eq("id", id)
+        .eq("user_id", userId)
+        .select("id");
+
+      if (error) {
+        return {
+          success: false,
+          error: createJournalError(
+            JournalErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      if (!rows || rows.length === 0) {
+        return {
+          success: false,
+          error: createJournalError(JournalErrorType.NOT_FOUND),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en journalRepository.delete:", error);
+      return {
+        success: false,
+        error: createJournalError(JournalErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+};
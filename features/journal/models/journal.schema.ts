@@ -0,0 +1,231 @@
+import { z } from "zod";
+import type { MessageKey } from "@lib/i18n/translator";
+import { isDateKey } from "@shared/utils/dates";
+import {
+  BASE64_PATTERN,
+  ENCRYPTED_BODY_PATTERN,
+  WRAPPED_KEY_PATTERN,
+} from "./journal.crypto";
+import { JOURNAL_CIPHERTEXT_MAX_LENGTH } from "./journal.types";
+
+/**
+ * Claves de los mensajes de validación (ver lib/i18n/messages)
+ *
+ * Llegan a la interfaz como `details` del error y se traducen
+ * con getJournalErrorText.
+ */
+const VALIDATION_MESSAGES = {
+  id: {
+    invalid: "journal.validation.id.invalid",
+  },
+  entryDate: {
+    invalid: "journal.validation.entryDate.invalid",
+  },
+  title: {
+    required: "journal.validation.title.required",
+    maxLength: "journal.validation.title.maxLength",
+  },
+  body: {
+    maxLength: "journal.validation.body.maxLength",
+    plaintextWithCiphertext: "journal.validation.body.plaintextWithCiphertext",
+  },
+  bodyCiphertext: {
+    invalid: "journal.validation.bodyCiphertext.invalid",
+  },
+  keys: {
+    invalid: "journal.validation.keys.invalid",
+  },
+  tags: {
+    tooMany: "journal.validation.tags.tooMany",
+    tooLong: "journal.validation.tags.tooLong",
+  },
+  moodEntryId: {
+    invalid: "journal.validation.moodEntryId.invalid",
+  },
+  baseUpdatedAt: {
+    invalid: "journal.validation.baseUpdatedAt.invalid",
+  },
+  query: {
+    maxLength: "journal.validation.query.maxLength",
+  },
+} satisfies Record<string, Record<string, MessageKey>>;
+
+const entryDateSchema = z
+  .string()
+  .refine(isDateKey, VALIDATION_MESSAGES.entryDate.invalid);
+
+/**
+ * Etiquetas normalizadas a minúsculas y sin duplicados
+ */
+const tagsSchema = z
+  .array(z.string().trim().min(1).max(30, VALIDATION_MESSAGES.tags.tooLong))
+  .max(10, VALIDATION_MESSAGES.tags.tooMany)
+  .transform((tags) => Array.from(new Set(tags.map((t) => t.toLowerCase()))));
+
+const bodySchema = z.string().max(20000, VALIDATION_MESSAGES.body.maxLength);
+
+const bodyCiphertextSchema = z
+  .string()
+  .max(JOURNAL_CIPHERTEXT_MAX_LENGTH, VALIDATION_MESSAGES.body.maxLength)
+  .regex(ENCRYPTED_BODY_PATTERN, VALIDATION_MESSAGES.bodyCiphertext.invalid);
+
+const moodEntryIdSchema = z
+  .uuid(VALIDATION_MESSAGES.moodEntryId.invalid)
+  .nullable();
+
+const journalEntryFieldsSchema = z.object({
+  id: z.uuid(VALIDATION_MESSAGES.id.invalid).optional(),
+  baseUpdatedAt: z.iso
+    .datetime({
+      offset: true,
+      message: VALIDATION_MESSAGES.baseUpdatedAt.invalid,
+    })
+    .optional(),
+  entryDate: entryDateSchema,
+  title: z
+    .string()
+    .trim()
+    .min(1, VALIDATION_MESSAGES.title.required)
+    .max(120, VALIDATION_MESSAGES.title.maxLength),
+  body: bodySchema,
+  bodyCiphertext: bodyCiphertextSchema.nullable().default(null),
+  tags: tagsSchema.default([]),
+  moodEntryId: moodEntryIdSchema.default(null),
+});
+
+/**
+ * Una entrada cifrada lleva el cuerpo vacío
+ */
+function hasSingleBody(data: {
+  body: string;
+  bodyCiphertext: string | null;
+}): boolean {
+  return !data.bodyCiphertext || data.body === "";
+}
+
+const singleBodyCheck = {
+  message: VALIDATION_MESSAGES.body.plaintextWithCiphertext,
+  path: ["body"],
+};
+
+/**
+ * Schema para publicar (guardar definitivamente) una entrada
+ *
+ * Si trae id se actualiza esa entrada (por ejemplo un borrador),
+ * si no, se crea una nueva. `baseUpdatedAt` es la versión que el
+ * dispositivo editó: si la entrada cambió después (en otro dispositivo)
+ * el guardado se rechaza como conflicto. Sin él se sobrescribe.
+ *
+ * Con la bitácora cifrada el cuerpo llega en `bodyCiphertext` y
+ * `body` va vacío.
+ */
+export const saveJournalEntrySchema = journalEntryFieldsSchema.refine(
+  hasSingleBody,
+  singleBodyCheck
+);
+
+/**
+ * Schema para autoguardar un borrador
+ *
+ * Más permisivo que saveJournalEntrySchema: el título puede estar vacío
+ * mientras el usuario todavía está escribiendo.
+ */
+export const saveJournalDraftSchema = journalEntryFieldsSchema
+  .extend({
+    title: z.string().trim().max(120, VALIDATION_MESSAGES.title.maxLength),
+  })
+  .refine(hasSingleBody, singleBodyCheck);
+
+/**
+ * Schema para eliminar una entrada
+ */
+export const deleteJournalEntrySchema = z.object({
+  id: z.uuid(VALIDATION_MESSAGES.id.invalid),
+});
+
+/**
+ * Schema de los filtros de búsqueda (vienen de searchParams)
+ */
+export const journalFiltersSchema = z.object({
+  query: z
+    .string()
+    .trim()
+    .max(100, VALIDATION_MESSAGES.query.maxLength)
+    .optional(),
+  tag: z.string().trim().toLowerCase().max(30).optional(),
+  status: z.enum(["draft", "published"]).optional(),
+});
+
+const wrappedKeySchema = z
+  .string()
+  .max(200, VALIDATION_MESSAGES.keys.invalid)
+  .regex(WRAPPED_KEY_PATTERN, VALIDATION_MESSAGES.keys.invalid);
+
+const saltSchema = z
+  .string()
+  .max(64, VALIDATION_MESSAGES.keys.invalid)
+  .regex(BASE64_PATTERN, VALIDATION_MESSAGES.keys.invalid);
+
+/**
+ * Schema de la llave envuelta con la frase secreta
+ *
+ * El servidor nunca recibe la frase ni la llave: solo la llave ya
+ * envuelta y los parámetros para derivar la llave que la envuelve.
+ */
+export const journalPassphraseKeySchema = z.object({
+  kdfSalt: saltSchema,
+  kdfIterations: z
+    .number()
+    .int(VALIDATION_MESSAGES.keys.invalid)
+    .min(100000, VALIDATION_MESSAGES.keys.invalid)
+    .max(10000000, VALIDATION_MESSAGES.keys.invalid),
+  passphraseWrappedKey: wrappedKeySchema,
+});
+
+/**
+ * Schema para activar el cifrado: llave envuelta con la frase y con
+ * la clave de recuperación
+ */
+export const setupJournalEncryptionSchema = journalPassphraseKeySchema.extend({
+  recoverySalt: saltSchema,
+  recoveryWrappedKey: wrappedKeySchema,
+});
+
+/**
+ * Schema para guardar entradas existentes ya cifradas en el navegador
+ *
+ * `baseUpdatedAt` evita pisar una versión editada mientras tanto.
+ */
+export const encryptJournalEntriesSchema = z.object({
+  entries: z
+    .array(
+      z.object({
+        id: z.uuid(VALIDATION_MESSAGES.id.invalid),
+        bodyCiphertext: bodyCiphertextSchema,
+        baseUpdatedAt: z.iso.datetime({
+          offset: true,
+          message: VALIDATION_MESSAGES.baseUpdatedAt.invalid,
+        }),
+      })
+    )
+    .min(1)
+    .max(20),
+});
+
+/**
+ * Tipos TypeScript inferidos de los schemas
+ */
+export type SaveJournalEntryInput = z.input<typeof saveJournalEntrySchema>;
+export type SaveJournalEntryData = z.output<typeof saveJournalEntrySchema>;
+export type SaveJournalDraftInput = z.input<typeof saveJournalDraftSchema>;
+export type DeleteJournalEntryInput = z.infer<typeof deleteJournalEntrySchema>;
+export type JournalFiltersInput = z.input<typeof journalFiltersSchema>;
+export type JournalPassphraseKeyInput = z.infer<
+  typeof journalPassphraseKeySchema
+>;
+export type SetupJournalEncryptionInput = z.infer<
+  typeof setupJournalEncryptionSchema
+>;
+export type EncryptJournalEntriesInput = z.infer<
+  typeof encryptJournalEntriesSchema
+>;
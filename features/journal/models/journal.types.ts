@@ -0,0 +1,230 @@
+import { DEFAULT_LOCALE } from "@lib/i18n/config";
+import {
+  createTranslator,
+  translateText,
+  type I18n,
+  type MessageKey,
+} from "@lib/i18n/translator";
+
+/**
+ * Estado de una entrada de bitácora
+ *
+ * - draft: borrador con autoguardado, solo visible en "Borradores"
+ * - published: entrada guardada definitivamente
+ */
+export type JournalEntryStatus = "draft" | "published";
+
+/**
+ * Entrada de la bitácora personal
+ *
+ * `entryDate` es el día local (YYYY-MM-DD) al que pertenece la entrada,
+ * que puede ser distinto del día en que se escribió.
+ * `body` se guarda en Markdown. Si la entrada está cifrada, `body` va
+ * vacío y el Markdown cifrado viaja en `bodyCiphertext`: solo el
+ * navegador del usuario puede leerlo (ver journal.crypto.ts).
+ */
+export interface JournalEntry {
+  id: string;
+  userId: string;
+  entryDate: string;
+  title: string;
+  body: string;
+  encrypted: boolean;
+  bodyCiphertext?: string;
+  tags: string[];
+  moodEntryId?: string;
+  status: JournalEntryStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Fila de la tabla `journal_entries` tal como la devuelve Supabase
+ */
+export interface JournalEntryRow {
+  id: string;
+  user_id: string;
+  entry_date: string;
+  title: string;
+  body: string;
+  encrypted: boolean;
+  body_ciphertext: string | null;
+  tags: string[] | null;
+  mood_entry_id: string | null;
+  status: JournalEntryStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Llaves cifradas de la bitácora de un usuario
+ *
+ * La llave de la bitácora se genera en el navegador y se guarda dos
+ * veces, envuelta (cifrada) con:
+ * - una llave derivada de la frase secreta del usuario (PBKDF2)
+ * - una llave derivada de la clave de recuperación, que se muestra
+ *   una sola vez
+ *
+ * El servidor solo guarda estos valores: sin la frase o la clave de
+ * recuperación no puede abrir las entradas. Si el usuario olvida
+ * ambas, sus entradas cifradas se pierden.
+ */
+export interface JournalKeyMaterial {
+  kdfSalt: string;
+  kdfIterations: number;
+  passphraseWrappedKey: string;
+  recoverySalt: string;
+  recoveryWrappedKey: string;
+  updatedAt: string;
+}
+
+/**
+ * Fila de la tabla `journal_keys` tal como la devuelve Supabase
+ */
+export interface JournalKeyRow {
+  user_id: string;
+  kdf_salt: string;
+  kdf_iterations: number;
+  passphrase_wrapped_key: string;
+  recovery_salt: string;
+  recovery_wrapped_key: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Entrada todavía sin cifrar, para cifrarla desde el navegador
+ */
+export interface PlaintextJournalEntry {
+  id: string;
+  body: string;
+  updatedAt: string;
+}
+
+/**
+ * Largo mínimo de la frase secreta de la bitácora
+ */
+export const JOURNAL_PASSPHRASE_MIN_LENGTH = 10;
+
+/**
+ * Largo máximo del cuerpo cifrado (20.000 caracteres en UTF-8, más
+ * el vector de inicialización, en base64)
+ */
+export const JOURNAL_CIPHERTEXT_MAX_LENGTH = 100000;
+
+/**
+ * Filtros para listar y buscar entradas
+ *
+ * `fromDate` y `toDate` son días locales YYYY-MM-DD (ambos inclusivos).
+ */
+export interface JournalListFilters {
+  query?: string;
+  tag?: string;
+  status?: JournalEntryStatus;
+  fromDate?: string;
+  toDate?: string;
+}
+
+/**
+ * Resultado de operaciones sobre la bitácora
+ *
+ * Mismo patrón Result que AuthResult
+ */
+export type JournalResult<T = void> =
+  | { success: true; data: T }
+  | { success: false; error: JournalError };
+
+/**
+ * Tipos de errores de la bitácora
+ */
+export enum JournalErrorType {
+  UNAUTHORIZED = "UNAUTHORIZED",
+  VALIDATION_ERROR = "VALIDATION_ERROR",
+  NOT_FOUND = "NOT_FOUND",
+  CONFLICT = "CONFLICT",
+  ENCRYPTION_REQUIRED = "ENCRYPTION_REQUIRED",
+  ENCRYPTION_ALREADY_ENABLED = "ENCRYPTION_ALREADY_ENABLED",
+  ENCRYPTION_NOT_ENABLED = "ENCRYPTION_NOT_ENABLED",
+  NETWORK_ERROR = "NETWORK_ERROR",
+  UNKNOWN_ERROR = "UNKNOWN_ERROR",
+}
+
+/**
+ * Error de la bitácora estructurado
+ */
+export interface JournalError {
+  type: JournalErrorType;
+  message: string;
+  details?: string;
+}
+
+/**
+ * Convierte una fila de `journal_entries` a nuestro tipo JournalEntry
+ */
+export function mapJournalEntryRow(row: JournalEntryRow): JournalEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    entryDate: row.entry_date,
+    title: row.title,
+    body: row.body,
+    encrypted: row.encrypted,
+    bodyCiphertext: row.body_ciphertext ?? undefined,
+    tags: row.tags ?? [],
+    moodEntryId: row.mood_entry_id ?? undefined,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Convierte una fila de `journal_keys` a nuestro tipo JournalKeyMaterial
+ */
+export function mapJournalKeyRow(row: JournalKeyRow): JournalKeyMaterial {
+  return {
+    kdfSalt: row.kdf_salt,
+    kdfIterations: row.kdf_iterations,
+    passphraseWrappedKey: row.passphrase_wrapped_key,
+    recoverySalt: row.recovery_salt,
+    recoveryWrappedKey: row.recovery_wrapped_key,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Clave del mensaje de cada tipo de error (ver lib/i18n/messages)
+ */
+export function getJournalErrorMessageKey(type: JournalErrorType): MessageKey {
+  return `journal.errors.${type}`;
+}
+
+const defaultT = createTranslator(DEFAULT_LOCALE);
+
+/**
+ * Helper para crear errores de la bitácora
+ *
+ * `message` queda en el idioma por defecto (para logs); la interfaz
+ * muestra el error con getJournalErrorText en el idioma del usuario.
+ */
+export function createJournalError(
+  type: JournalErrorType,
+  details?: string
+): JournalError {
+  return {
+    type,
+    message: defaultT(getJournalErrorMessageKey(type)),
+    details,
+  };
+}
+
+/**
+ * Texto a mostrar para un error de la bitácora
+ *
+ * Usa `details` si lo hay (p. ej. la clave del mensaje de validación).
+ */
+export function getJournalErrorText(error: JournalError, { t }: I18n): string {
+  return error.details
+    ? translateText(t, error.details)
+    : t(getJournalErrorMessageKey(error.type));
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import { useRouter } from "next/navigation";
+import { useI18n } from "@lib/i18n/client";
+import {
+  countOfflineQueue,
+  syncOfflineQueue,
+} from "../controllers/offline.sync";
+import { OFFLINE_QUEUE_EVENT } from "../models/offline.types";
+
+type Props = {
+  /**
+   * Usuario con sesión. Si se indica, el indicador también sincroniza
+   * su cola offline al cargar y al recuperar la conexión.
+   */
+  userId?: string;
+};
+
+function subscribeToConnection(callback: () => void) {
+  window.addEventListener("online", callback);
+  window.addEventListener("offline", callback);
+  return () => {
+    window.removeEventListener("online", callback);
+    window.removeEventListener("offline", callback);
+  };
+}
+
+/**
+ * Aviso de "sin conexión" y de registros pendientes de sincronizar
+ */
+export function OfflineIndicator({ userId }: Props) {
+  const { t } = useI18n();
+  const router = useRouter();
+  const isOnline = useSyncExternalStore(
+    subscribeToConnection,
+    () => navigator.onLine,
+    () => true
+  );
+  const [queue, setQueue] = useState({ pending: 0, conflicts: 0 });
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const refreshCount = useCallback(() => {
+    if (!userId) return;
+    countOfflineQueue(userId)
+      .then(setQueue)
+      .catch(() => setQueue({ pending: 0, conflicts: 0 }));
+  }, [userId]);
+
+  // Sincroniza al cargar y cada vez que vuelve la conexión
+  useEffect(() => {
+    if (!userId || !isOnline) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      setIsSyncing(true);
+      syncOfflineQueue(userId)
+        .then((summary) => {
+          if (cancelled) return;
+          setQueue({ pending: summary.pending, conflicts: summary.conflicts });
+          if (summary.synced > 0) router.refresh();
+        })
+        .catch((error) => console.error("Error al sincronizar:", error))
+        .finally(() => {
+          if (!cancelled) setIsSyncing(false);
+        });
+    }, 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [userId, isOnline, router]);
+
+  // Recalcula los pendientes cuando algo entra o sale de la cola
+  useEffect(() => {
+    refreshCount();
+    window.addEventListener(OFFLINE_QUEUE_EVENT, refreshCount);
+    return () => window.removeEventListener(OFFLINE_QUEUE_EVENT, refreshCount);
+  }, [refreshCount]);
+
+  if (isOnline && queue.pending === 0 && queue.conflicts === 0) return null;
+
+  const { pending, conflicts } = queue;
+  const messages = [
+    !isOnline && t("offline.indicator.offline"),
+    pending > 0 &&
+      (isOnline && isSyncing
+        ? pending === 1
+          ? t("offline.indicator.syncingOne")
+          : t("offline.indicator.syncingOther", { count: pending })
+        : pending === 1
+        ? t("offline.indicator.pendingOne")
+        : t("offline.indicator.pendingOther", { count: pending })),
+    pending === 0 && !isOnline && t("offline.indicator.savedLocally"),
+    conflicts > 0 &&
+      (conflicts === 1
+        ? t("offline.indicator.conflictsOne")
+        : t("offline.indicator.conflictsOther", { count: conflicts })),
+  ];
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={`w-full px-4 py-2 text-center text-sm ${
+        isOnline ? "bg-slate-100 text-slate-700" : "bg-amber-100 text-amber-900"
+      }`}
+    >
+      {messages.filter(Boolean).join(" ")}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import { useEffect } from "react";
+
+/**
+ * Registra el service worker (public/sw.js)
+ *
+ * Solo en producción: en desarrollo la caché de /_next/static
+ * interferiría con la recarga en caliente.
+ */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production") return;
+    if (!("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((error) =>
+        console.error("Error al registrar el service worker:", error)
+      );
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,182 @@
+import { createMoodEntryAction } from "@features/home/controllers/home.actions";
+import { MoodErrorType } from "@features/home/models/home.types";
+import {
+  publishJournalEntryAction,
+  saveJournalDraftAction,
+} from "@features/journal/controllers/journal.actions";
+import { JournalErrorType } from "@features/journal/models/journal.types";
+import { offlineStore } from "../models/offline.store";
+import {
+  isConnectionError,
+  notifyOfflineQueueChange,
+  type OfflineSyncSummary,
+  type QueuedJournalDraft,
+} from "../models/offline.types";
+
+/**
+ * Resultado de enviar un elemento de la cola
+ *
+ * - done: se envió (o ya no tiene sentido reintentarlo) y sale de la cola
+ * - conflict: queda en la cola esperando que el usuario decida
+ * - retry: falló por algo pasajero, se reintenta en la próxima sincronización
+ * - stop: sin conexión o sin sesión, no vale la pena seguir intentando
+ */
+type SendOutcome = "done" | "conflict" | "retry" | "stop";
+
+/**
+ * Enviar un borrador de la bitácora guardado en el dispositivo
+ *
+ * Si el usuario había pedido publicarlo pero todavía no es publicable
+ * (por ejemplo, sin título) se guarda como borrador para no perderlo.
+ */
+async function sendJournalDraft(
+  draft: QueuedJournalDraft
+): Promise<SendOutcome> {
+  const save = (id?: string, baseUpdatedAt?: string) => {
+    const input = { ...draft.input, id, baseUpdatedAt };
+    return draft.publish
+      ? publishJournalEntryAction(input).then((result) =>
+          !result.success &&
+          result.error.type === JournalErrorType.VALIDATION_ERROR
+            ? saveJournalDraftAction(input)
+            : result
+        )
+      : saveJournalDraftAction(input);
+  };
+
+  let result = await save(draft.entryId, draft.baseUpdatedAt);
+
+  // La entrada se eliminó en otro dispositivo: se conserva como entrada nueva
+  if (!result.success && result.error.type === JournalErrorType.NOT_FOUND) {
+    result = await save();
+  }
+
+  if (result.success) {
+    await offlineStore.removeJournalDraft(draft.key);
+    notifyOfflineQueueChange({
+      kind: "journal",
+      key: draft.key,
+      entry: result.data,
+    });
+    return "done";
+  }
+
+  switch (result.error.type) {
+    case JournalErrorType.CONFLICT:
+      await offlineStore.saveJournalDraft({ ...draft, conflict: true });
+      notifyOfflineQueueChange({ kind: "journal-conflict", key: draft.key });
+      return "conflict";
+    case JournalErrorType.UNAUTHORIZED:
+      return "stop";
+    // Borrador sin cifrar de antes de activar el cifrado: se queda en el
+    // dispositivo hasta que el usuario lo abra con la bitácora desbloqueada
+    case JournalErrorType.ENCRYPTION_REQUIRED:
+      return "retry";
+    case JournalErrorType.VALIDATION_ERROR:
+      console.warn("Borrador offline descartado:", result.error.details);
+      await offlineStore.removeJournalDraft(draft.key);
+      return "done";
+    default:
+      return "retry";
+  }
+}
+
+/**
+ * Envía al servidor todo lo que quedó en la cola offline del usuario
+ *
+ * Primero los registros de ánimo (en el orden en que se hicieron) y luego
+ * los borradores de la bitácora. Usa las mismas Server Actions que los
+ * formularios, así que pasan por la misma validación y RLS.
+ */
+async function runSync(userId: string): Promise<OfflineSyncSummary> {
+  const summary: OfflineSyncSummary = { synced: 0, conflicts: 0, pending: 0 };
+  const moods = await offlineStore.listMoodEntries(userId);
+  const drafts = await offlineStore.listJournalDrafts(userId);
+  let stopped = false;
+
+  for (const mood of moods) {
+    if (stopped) {
+      summary.pending++;
+      continue;
+    }
+
+    try {
+      const result = await createMoodEntryAction(mood.input);
+      if (
+        result.success ||
+        result.error.type === MoodErrorType.VALIDATION_ERROR
+      ) {
+        if (!result.success) {
+          console.warn("Registro offline descartado:", result.error.details);
+        }
+        await offlineStore.removeMoodEntry(mood.clientId);
+        summary.synced++;
+      } else {
+        stopped = result.error.type === MoodErrorType.UNAUTHORIZED;
+        summary.pending++;
+      }
+    } catch (error) {
+      if (!isConnectionError(error)) throw error;
+      stopped = true;
+      summary.pending++;
+    }
+  }
+
+  if (summary.synced > 0) notifyOfflineQueueChange({ kind: "mood" });
+
+  for (const draft of drafts) {
+    if (draft.conflict) {
+      summary.conflicts++;
+      continue;
+    }
+    if (stopped) {
+      summary.pending++;
+      continue;
+    }
+
+    try {
+      const outcome = await sendJournalDraft(draft);
+      if (outcome === "done") summary.synced++;
+      else if (outcome === "conflict") summary.conflicts++;
+      else summary.pending++;
+      stopped = outcome === "stop";
+    } catch (error) {
+      if (!isConnectionError(error)) throw error;
+      stopped = true;
+      summary.pending++;
+    }
+  }
+
+  return summary;
+}
+
+let inFlight: Promise<OfflineSyncSummary> | null = null;
+
+/**
+ * Sincronizar la cola offline (una sola sincronización a la vez)
+ *
+ * @param userId - Usuario con sesión; solo se envían sus elementos
+ */
+export function syncOfflineQueue(userId: string): Promise<OfflineSyncSummary> {
+  if (!inFlight) {
+    inFlight = runSync(userId).finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+/**
+ * Cantidad de elementos del usuario que siguen en la cola
+ */
+export async function countOfflineQueue(userId: string): Promise<{
+  pending: number;
+  conflicts: number;
+}> {
+  const [moods, drafts] = await Promise.all([
+    offlineStore.listMoodEntries(userId),
+    offlineStore.listJournalDrafts(userId),
+  ]);
+  const conflicts = drafts.filter((draft) => draft.conflict).length;
+  return { pending: moods.length + drafts.length - conflicts, conflicts };
+}
@@ -0,0 +1,140 @@
+import type { QueuedJournalDraft, QueuedMoodEntry } from "./offline.types";
+
+const DATABASE_NAME = "hi-mt-offline";
+const DATABASE_VERSION = 1;
+const MOOD_ENTRIES_STORE = "moodEntries";
+const JOURNAL_DRAFTS_STORE = "journalDrafts";
+
+type StoreName = typeof MOOD_ENTRIES_STORE | typeof JOURNAL_DRAFTS_STORE;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Abre (y crea la primera vez) la base de datos IndexedDB
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MOOD_ENTRIES_STORE)) {
+          db.createObjectStore(MOOD_ENTRIES_STORE, { keyPath: "clientId" });
+        }
+        if (!db.objectStoreNames.contains(JOURNAL_DRAFTS_STORE)) {
+          db.createObjectStore(JOURNAL_DRAFTS_STORE, { keyPath: "key" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return databasePromise;
+}
+
+/**
+ * Ejecuta una operación sobre un object store y espera su resultado
+ */
+async function run<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Cola offline en IndexedDB
+ *
+ * Guarda en el dispositivo los registros de ánimo y borradores de la
+ * bitácora que no se pudieron enviar. Solo funciona en el navegador.
+ * Cada elemento guarda el usuario que lo creó: si otra persona inicia
+ * sesión en el mismo dispositivo, no se envía con su cuenta.
+ */
+export const offlineStore = {
+  /**
+   * Agregar un registro de ánimo a la cola
+   */
+  async queueMoodEntry(entry: QueuedMoodEntry): Promise<void> {
+    await run(MOOD_ENTRIES_STORE, "readwrite", (store) => store.put(entry));
+  },
+
+  /**
+   * Registros de ánimo pendientes de un usuario, del más antiguo al más nuevo
+   */
+  async listMoodEntries(userId: string): Promise<QueuedMoodEntry[]> {
+    const entries = await run<QueuedMoodEntry[]>(
+      MOOD_ENTRIES_STORE,
+      "readonly",
+      (store) => store.getAll()
+    );
+    return entries
+      .filter((entry) => entry.userId === userId)
+      .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  },
+
+  /**
+   * Quitar de la cola un registro ya enviado
+   */
+  async removeMoodEntry(clientId: string): Promise<void> {
+    await run(MOOD_ENTRIES_STORE, "readwrite", (store) =>
+      store.delete(clientId)
+    );
+  },
+
+  /**
+   * Guardar (o reemplazar) el borrador local de una entrada
+   */
+  async saveJournalDraft(draft: QueuedJournalDraft): Promise<void> {
+    await run(JOURNAL_DRAFTS_STORE, "readwrite", (store) => store.put(draft));
+  },
+
+  /**
+   * Borrador local de una entrada, si existe
+   */
+  async getJournalDraft(
+    userId: string,
+    key: string
+  ): Promise<QueuedJournalDraft | null> {
+    const draft = await run<QueuedJournalDraft | undefined>(
+      JOURNAL_DRAFTS_STORE,
+      "readonly",
+      (store) => store.get(key)
+    );
+    return draft && draft.userId === userId ? draft : null;
+  },
+
+  /**
+   * Borradores locales pendientes de un usuario
+   */
+  async listJournalDrafts(userId: string): Promise<QueuedJournalDraft[]> {
+    const drafts = await run<QueuedJournalDraft[]>(
+      JOURNAL_DRAFTS_STORE,
+      "readonly",
+      (store) => store.getAll()
+    );
+    return drafts
+      .filter((draft) => draft.userId === userId)
+      .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  },
+
+  /**
+   * Quitar un borrador local (enviado o descartado)
+   */
+  async removeJournalDraft(key: string): Promise<void> {
+    await run(JOURNAL_DRAFTS_STORE, "readwrite", (store) => store.delete(key));
+  },
+};
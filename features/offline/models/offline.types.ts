@@ -0,0 +1,83 @@
+import type { CreateMoodEntryInput } from "@features/home/models/home.schema";
+import type { SaveJournalDraftInput } from "@features/journal/models/journal.schema";
+import type { JournalEntry } from "@features/journal/models/journal.types";
+
+/**
+ * Registro de ánimo hecho sin conexión, pendiente de enviar
+ *
+ * `clientId` viaja al servidor para que reintentar el envío no lo duplique.
+ */
+export interface QueuedMoodEntry {
+  clientId: string;
+  userId: string;
+  input: CreateMoodEntryInput & { clientId: string };
+  queuedAt: string;
+}
+
+/**
+ * Borrador de bitácora guardado en el dispositivo, pendiente de enviar
+ *
+ * - key: id de la entrada, o `local:<uuid>` si todavía no existe
+ * - baseUpdatedAt: versión del servidor sobre la que se editó; si la
+ *   entrada cambió después en otro dispositivo, el envío es un conflicto
+ * - publish: el usuario pidió publicarla (si no, se envía como borrador)
+ * - conflict: el último intento de sincronizar fue rechazado por conflicto
+ *   y espera que el usuario elija qué versión conservar
+ */
+export interface QueuedJournalDraft {
+  key: string;
+  userId: string;
+  input: Omit<SaveJournalDraftInput, "id" | "baseUpdatedAt">;
+  entryId?: string;
+  baseUpdatedAt?: string;
+  publish: boolean;
+  queuedAt: string;
+  conflict: boolean;
+}
+
+/**
+ * Resultado de una sincronización de la cola offline
+ */
+export interface OfflineSyncSummary {
+  synced: number;
+  conflicts: number;
+  pending: number;
+}
+
+/**
+ * Evento (en window) que avisa cambios en la cola offline
+ *
+ * Lo escuchan el indicador de conexión y el editor de la bitácora,
+ * que necesita saber qué id recibió un borrador creado sin conexión.
+ */
+export const OFFLINE_QUEUE_EVENT = "offline-queue-change";
+
+export type OfflineQueueEventDetail =
+  | { kind: "mood" }
+  | { kind: "journal"; key: string; entry: JournalEntry }
+  | { kind: "journal-conflict"; key: string }
+  | { kind: "queued" };
+
+/**
+ * Prefijo de las claves de borradores que aún no existen en el servidor
+ */
+export const LOCAL_DRAFT_PREFIX = "local:";
+
+/**
+ * Emite OFFLINE_QUEUE_EVENT
+ */
+export function notifyOfflineQueueChange(detail: OfflineQueueEventDetail) {
+  window.dispatchEvent(
+    new CustomEvent<OfflineQueueEventDetail>(OFFLINE_QUEUE_EVENT, { detail })
+  );
+}
+
+/**
+ * Indica si un error al llamar una Server Action se debe a la conexión
+ *
+ * Sin red, la llamada rechaza la promesa (normalmente con TypeError
+ * "Failed to fetch") en lugar de devolver un Result.
+ */
+export function isConnectionError(error: unknown): boolean {
+  return !navigator.onLine || error instanceof TypeError;
+}
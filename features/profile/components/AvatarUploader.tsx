@@ -0,0 +1,160 @@
+"use client";
+
+import { useRef, useState, useTransition } from "react";
+import Image from "next/image";
+import { useI18n } from "@lib/i18n/client";
+import {
+  removeAvatarAction,
+  uploadAvatarAction,
+} from "../controllers/profile.actions";
+import { AVATAR_SIZE, getProfileErrorText } from "../models/profile.types";
+
+type Props = {
+  avatarUrl?: string;
+  fullName?: string;
+};
+
+/**
+ * Recorta la imagen al cuadrado central y la reduce a AVATAR_SIZE
+ *
+ * Devuelve WebP si el navegador sabe generarlo; si no, JPEG.
+ */
+async function resizeAvatar(file: File): Promise<File> {
+  const bitmap = await createImageBitmap(file);
+  const side = Math.min(bitmap.width, bitmap.height);
+  const canvas = document.createElement("canvas");
+  canvas.width = AVATAR_SIZE;
+  canvas.height = AVATAR_SIZE;
+  canvas
+    .getContext("2d")
+    ?.drawImage(
+      bitmap,
+      (bitmap.width - side) / 2,
+      (bitmap.height - side) / 2,
+      side,
+      side,
+      0,
+      0,
+      AVATAR_SIZE,
+      AVATAR_SIZE
+    );
+  bitmap.close();
+
+  const toBlob = (type: string) =>
+    new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.85));
+
+  // Safari antiguo ignora "image/webp" y devuelve PNG
+  let blob = await toBlob("image/webp");
+  if (!blob || blob.type !== "image/webp") blob = await toBlob("image/jpeg");
+  if (!blob) throw new Error("No se pudo procesar la imagen");
+
+  const extension = blob.type.split("/")[1];
+  return new File([blob], `avatar.${extension}`, { type: blob.type });
+}
+
+/**
+ * Foto de perfil: vista previa, subir una nueva o quitarla
+ */
+export function AvatarUploader({ avatarUrl, fullName }: Props) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [currentUrl, setCurrentUrl] = useState(avatarUrl);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    startTransition(async () => {
+      let resized: File;
+      try {
+        resized = await resizeAvatar(file);
+      } catch {
+        setError(t("profile.avatar.unreadable"));
+        return;
+      }
+
+      const formData = new FormData();
+      formData.append("avatar", resized);
+      const result = await uploadAvatarAction(formData);
+
+      if (result.success) {
+        setCurrentUrl(result.data.avatarUrl);
+      } else {
+        setError(getProfileErrorText(result.error, i18n));
+      }
+      if (inputRef.current) inputRef.current.value = "";
+    });
+  };
+
+  const handleRemove = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await removeAvatarAction();
+      if (result.success) {
+        setCurrentUrl(undefined);
+      } else {
+        setError(getProfileErrorText(result.error, i18n));
+      }
+    });
+  };
+
+  const initial = (fullName ?? "?").trim().charAt(0).toUpperCase();
+
+  return (
+    <div className="flex flex-wrap items-center gap-4">
+      {currentUrl ? (
+        <Image
+          src={currentUrl}
+          alt={t("profile.avatar.alt")}
+          width={80}
+          height={80}
+          unoptimized
+          className="h-20 w-20 rounded-full object-cover"
+        />
+      ) : (
+        <span
+          className="flex h-20 w-20 items-center justify-center rounded-full bg-slate-200 text-2xl font-semibold text-slate-700"
+          aria-hidden="true"
+        >
+          {initial}
+        </span>
+      )}
+
+      <div className="flex flex-col gap-2 text-sm">
+        <label className="flex flex-col">
+          {t("profile.avatar.change")}
+          <input
+            ref={inputRef}
+            type="file"
+            accept="image/*"
+            disabled={isPending}
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="mt-1 text-sm"
+          />
+        </label>
+        {currentUrl && (
+          <button
+            type="button"
+            onClick={handleRemove}
+            disabled={isPending}
+            className="self-start underline disabled:opacity-50"
+          >
+            {t("profile.avatar.remove")}
+          </button>
+        )}
+        {isPending && (
+          <span className="text-slate-600" role="status">
+            {t("profile.avatar.saving")}
+          </span>
+        )}
+        {error && (
+          <p className="text-red-600" role="alert">
+            {error}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
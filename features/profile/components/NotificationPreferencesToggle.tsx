@@ -0,0 +1,62 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useI18n } from "@lib/i18n/client";
+import { setNotificationPreferencesAction } from "../controllers/profile.actions";
+import { getProfileErrorMessageKey } from "../models/profile.types";
+
+type Props = {
+  activityEmails: boolean;
+};
+
+/**
+ * Casilla para recibir (o no) las invitaciones a actividades por correo
+ *
+ * Se guarda al cambiarla; si falla, vuelve al valor anterior.
+ */
+export function NotificationPreferencesToggle({ activityEmails }: Props) {
+  const { t } = useI18n();
+  const [enabled, setEnabled] = useState(activityEmails);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleChange = (checked: boolean) => {
+    setError(null);
+    setEnabled(checked);
+    startTransition(async () => {
+      const result = await setNotificationPreferencesAction({
+        activityEmails: checked,
+      });
+
+      if (!result.success) {
+        setEnabled(!checked);
+        setError(t(getProfileErrorMessageKey(result.error.type)));
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <label className="flex items-start gap-2">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => handleChange(e.target.checked)}
+          disabled={isPending}
+          className="mt-1"
+        />
+        <span>
+          {t("profile.activityEmails.label")}
+          <span className="block text-slate-600">
+            {t("profile.activityEmails.hint")}
+          </span>
+        </span>
+      </label>
+      {error && (
+        <p className="text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useI18n } from "@lib/i18n/client";
+import { translateText } from "@lib/i18n/translator";
+import {
+  MOOD_SCALES,
+  MOOD_SCALE_IDS,
+  type MoodScaleId,
+} from "@features/home/models/mood.scales";
+import { updateProfileSettingsAction } from "../controllers/profile.actions";
+import {
+  PROFILE_LOCALES,
+  PROFILE_LOCALE_LABELS,
+  getProfileErrorText,
+  type Profile,
+  type ProfileLocale,
+} from "../models/profile.types";
+
+type Props = {
+  profile: Profile;
+  // Zonas horarias IANA (las calcula el servidor para no variar al hidratar)
+  timezones: string[];
+};
+
+/**
+ * Datos generales del perfil: nombre, zona horaria, idioma y escala
+ */
+export function ProfileSettingsForm({ profile, timezones }: Props) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [fullName, setFullName] = useState(profile.fullName ?? "");
+  const [timezone, setTimezone] = useState(profile.timezone);
+  const [locale, setLocale] = useState<ProfileLocale>(profile.locale);
+  const [moodScale, setMoodScale] = useState<MoodScaleId>(profile.moodScale);
+  const [status, setStatus] = useState<{
+    kind: "saved" | "error";
+    message: string;
+  } | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setStatus(null);
+    startTransition(async () => {
+      const result = await updateProfileSettingsAction({
+        fullName,
+        timezone,
+        locale,
+        moodScale,
+      });
+
+      setStatus(
+        result.success
+          ? { kind: "saved", message: t("profile.form.saved") }
+          : {
+              kind: "error",
+              message: getProfileErrorText(result.error, i18n),
+            }
+      );
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+      <label className="flex flex-col text-sm">
+        {t("auth.forms.fullName")}
+        <input
+          type="text"
+          name="fullName"
+          autoComplete="name"
+          required
+          value={fullName}
+          onChange={(e) => setFullName(e.target.value)}
+          className="mt-1 rounded-md border px-3 py-2"
+        />
+      </label>
+
+      <div className="flex flex-wrap gap-4">
+        <label className="flex flex-col text-sm">
+          {t("profile.form.timezone")}
+          <select
+            name="timezone"
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            className="mt-1 rounded-md border px-3 py-2"
+          >
+            {timezones.map((zone) => (
+              <option key={zone} value={zone}>
+                {zone}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col text-sm">
+          {t("profile.form.locale")}
+          <select
+            name="locale"
+            value={locale}
+            onChange={(e) => setLocale(e.target.value as ProfileLocale)}
+            className="mt-1 rounded-md border px-3 py-2"
+          >
+            {PROFILE_LOCALES.map((option) => (
+              <option key={option} value={option}>
+                {PROFILE_LOCALE_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <fieldset className="flex flex-col gap-2">
+        <legend className="text-sm font-medium">
+          {t("profile.form.moodScale")}
+        </legend>
+        <p className="text-xs text-slate-600">
+          {t("profile.form.moodScaleHint")}
+        </p>
+        <div className="flex flex-col gap-2">
+          {MOOD_SCALE_IDS.map((id) => {
+            const scale = MOOD_SCALES[id];
+            return (
+              <label
+                key={id}
+                className="flex items-start gap-2 rounded-md border px-3 py-2 text-sm"
+              >
+                <input
+                  type="radio"
+                  name="moodScale"
+                  value={id}
+                  checked={moodScale === id}
+                  onChange={() => setMoodScale(id)}
+                  className="mt-1"
+                />
+                <span className="flex flex-col">
+                  <span className="font-medium">{t(scale.name)}</span>
+                  <span className="text-slate-600">{t(scale.description)}</span>
+                  <span aria-hidden="true">
+                    {scale.points
+                      .map((point) => translateText(t, point.symbol))
+                      .join(" ")}
+                  </span>
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      </fieldset>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={isPending}
+          className="rounded-md bg-slate-900 px-4 py-2 text-sm text-white disabled:opacity-50"
+        >
+          {t("profile.form.save")}
+        </button>
+        {status && (
+          <span
+            className={`text-sm ${
+              status.kind === "error" ? "text-red-600" : "text-slate-600"
+            }`}
+            role={status.kind === "error" ? "alert" : "status"}
+          >
+            {status.message}
+          </span>
+        )}
+      </div>
+    </form>
+  );
+}
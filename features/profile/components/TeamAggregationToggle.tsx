@@ -0,0 +1,62 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useI18n } from "@lib/i18n/client";
+import { setTeamAggregationOptOutAction } from "../controllers/profile.actions";
+import { getProfileErrorMessageKey } from "../models/profile.types";
+
+type Props = {
+  optOut: boolean;
+};
+
+/**
+ * Casilla para participar (o no) en el tablero de bienestar del equipo
+ *
+ * Se guarda al cambiarla; si falla, vuelve al valor anterior.
+ */
+export function TeamAggregationToggle({ optOut }: Props) {
+  const { t } = useI18n();
+  const [included, setIncluded] = useState(!optOut);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleChange = (checked: boolean) => {
+    setError(null);
+    setIncluded(checked);
+    startTransition(async () => {
+      const result = await setTeamAggregationOptOutAction({
+        optOut: !checked,
+      });
+
+      if (!result.success) {
+        setIncluded(!checked);
+        setError(t(getProfileErrorMessageKey(result.error.type)));
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <label className="flex items-start gap-2">
+        <input
+          type="checkbox"
+          checked={included}
+          onChange={(e) => handleChange(e.target.checked)}
+          disabled={isPending}
+          className="mt-1"
+        />
+        <span>
+          {t("profile.teamAggregation.label")}
+          <span className="block text-slate-600">
+            {t("profile.teamAggregation.hint")}
+          </span>
+        </span>
+      </label>
+      {error && (
+        <p className="text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { cookies } from "next/headers";
+import { getCurrentUser } from "@lib/auth/session";
+import { siteConfig } from "@lib/config/site";
+import { LOCALE_COOKIE, LOCALE_COOKIE_MAX_AGE } from "@lib/i18n/config";
+import { authRepository } from "@features/auth/models/auth.repository";
+import { profileRepository } from "../models/profile.repository";
+import {
+  avatarFileSchema,
+  notificationPreferencesSchema,
+  profileSettingsSchema,
+  teamAggregationSchema,
+  type NotificationPreferencesInput,
+  type ProfileSettingsInput,
+  type TeamAggregationInput,
+} from "../models/profile.schema";
+import {
+  ProfileErrorType,
+  createProfileError,
+  type Profile,
+  type ProfileResult,
+} from "../models/profile.types";
+
+/**
+ * Server Actions del perfil
+ *
+ * Mismo flujo que las demás acciones:
+ * sesión → validación con zod → profileRepository.
+ *
+ * El nombre y la foto también viven en `user_metadata` (es lo que lee
+ * getCurrentUser), así que se copian con authRepository.
+ */
+
+/**
+ * Participar o no en el tablero de bienestar del equipo
+ *
+ * Aplica desde la siguiente consulta del tablero, también a las
+ * semanas pasadas.
+ */
+export async function setTeamAggregationOptOutAction(
+  input: TeamAggregationInput
+): Promise<ProfileResult<Profile>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createProfileError(ProfileErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = teamAggregationSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createProfileError(
+        ProfileErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await profileRepository.setTeamAggregationOptOut(
+    user.id,
+    parsed.data.optOut
+  );
+  if (result.success) {
+    revalidatePath(siteConfig.routes.settings);
+  }
+
+  return result;
+}
+
+/**
+ * Guardar nombre, zona horaria, idioma y escala de ánimo
+ */
+export async function updateProfileSettingsAction(
+  input: ProfileSettingsInput
+): Promise<ProfileResult<Profile>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createProfileError(ProfileErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = profileSettingsSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createProfileError(
+        ProfileErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await profileRepository.updateSettings(user.id, parsed.data);
+  if (!result.success) return result;
+
+  if (parsed.data.fullName !== user.fullName) {
+    const synced = await authRepository.updateUserMetadata({
+      fullName: parsed.data.fullName,
+    });
+    if (!synced.success) {
+      console.error(
+        "No se pudo copiar el nombre a user_metadata:",
+        synced.error.details ?? synced.error.message
+      );
+    }
+  }
+
+  // El middleware ya negoció el idioma de este request con el perfil
+  // anterior: se actualiza la cookie para que el nuevo se vea de una vez
+  (await cookies()).set(LOCALE_COOKIE, parsed.data.locale, {
+    path: "/",
+    sameSite: "lax",
+    maxAge: LOCALE_COOKIE_MAX_AGE,
+  });
+
+  revalidatePath("/", "layout");
+  return result;
+}
+
+/**
+ * Recibir o no por correo las invitaciones a actividades
+ */
+export async function setNotificationPreferencesAction(
+  input: NotificationPreferencesInput
+): Promise<ProfileResult<Profile>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createProfileError(ProfileErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = notificationPreferencesSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createProfileError(
+        ProfileErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await profileRepository.setActivityEmails(
+    user.id,
+    parsed.data.activityEmails
+  );
+  if (result.success) {
+    revalidatePath(siteConfig.routes.settings);
+  }
+
+  return result;
+}
+
+/**
+ * Subir la foto de perfil
+ *
+ * Recibe FormData con el campo `avatar`, ya recortado y reducido
+ * por AvatarUploader en el navegador.
+ */
+export async function uploadAvatarAction(
+  formData: FormData
+): Promise<ProfileResult<Profile>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createProfileError(ProfileErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = avatarFileSchema.safeParse(formData.get("avatar"));
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createProfileError(
+        ProfileErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await profileRepository.uploadAvatar(user.id, parsed.data);
+  if (!result.success) return result;
+
+  await syncAvatarUrl(result.data.avatarUrl ?? null);
+  revalidatePath("/", "layout");
+  return result;
+}
+
+/**
+ * Quitar la foto de perfil
+ */
+export async function removeAvatarAction(): Promise<ProfileResult<Profile>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createProfileError(ProfileErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const result = await profileRepository.removeAvatar(user.id);
+  if (!result.success) return result;
+
+  await syncAvatarUrl(null);
+  revalidatePath("/", "layout");
+  return result;
+}
+
+/**
+ * Copia la URL de la foto a `user_metadata` (de mejor esfuerzo)
+ */
+async function syncAvatarUrl(avatarUrl: string | null): Promise<void> {
+  const synced = await authRepository.updateUserMetadata({ avatarUrl });
+  if (!synced.success) {
+    console.error(
+      "No se pudo copiar la foto a user_metadata:",
+      synced.error.details ?? synced.error.message
+    );
+  }
+}
@@ -0,0 +1,331 @@
+import { createClient } from "@lib/supabase/server";
+import { siteConfig } from "@lib/config/site";
+import {
+  AVATAR_BUCKET,
+  AVATAR_MIME_TYPES,
+  ProfileResult,
+  ProfileErrorType,
+  createProfileError,
+  mapProfileRow,
+  type ActivityEmailRecipient,
+  type Profile,
+  type ProfileRow,
+} from "./profile.types";
+import type { ProfileSettingsData } from "./profile.schema";
+
+const PROFILES_TABLE = "profiles";
+
+/**
+ * Repositorio de Perfiles
+ *
+ * Capa de acceso a datos para la tabla `profiles`.
+ * Sigue el mismo patrón que los demás repositorios.
+ */
+export const profileRepository = {
+  /**
+   * Obtener el perfil de un usuario
+   *
+   * @param userId - Id del usuario
+   * @returns ProfileResult con el perfil o NOT_FOUND
+   */
+  async getById(userId: string): Promise<ProfileResult<Profile>> {
+    try {
+      const supabase = await createClient();
+      const { data: row, error } = await supabase
+        .from(PROFILES_TABLE)
+        .select()
+        .eq("id", userId)
+        .maybeSingle<ProfileRow>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createProfileError(
+            ProfileErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      if (!row) {
+        return {
+          success: false,
+          error: createProfileError(ProfileErrorType.NOT_FOUND),
+        };
+      }
+
+      return { success: true, data: mapProfileRow(row) };
+    } catch (error) {
+      console.error("Error en profileRepository.getById:", error);
+      return {
+        success: false,
+        error: createProfileError(ProfileErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Obtener la zona horaria del usuario
+   *
+   * Nunca falla: si el perfil no se puede leer devuelve
+   * la zona horaria por defecto de la aplicación.
+   *
+   * @param userId - Id del usuario
+   * @returns Zona horaria IANA
+   */
+  async getTimezone(userId: string): Promise<string> {
+    const result = await profileRepository.getById(userId);
+    return result.success ? result.data.timezone : siteConfig.timezone;
+  },
+
+  /**
+   * Incluir o excluir los registros del usuario del agregado del equipo
+   *
+   * @param userId - Id del usuario
+   * @param optOut - true para no participar en el tablero del equipo
+   * @returns ProfileResult con el perfil actualizado
+   */
+  async setTeamAggregationOptOut(
+    userId: string,
+    optOut: boolean
+  ): Promise<ProfileResult<Profile>> {
+    return updateProfileRow(
+      userId,
+      { team_aggregation_opt_out: optOut },
+      "setTeamAggregationOptOut"
+    );
+  },
+
+  /**
+   * Guardar nombre, zona horaria, idioma y escala de ánimo
+   *
+   * @param userId - Id del usuario
+   * @param data - Datos ya validados con profileSettingsSchema
+   * @returns ProfileResult con el perfil actualizado
+   */
+  async updateSettings(
+    userId: string,
+    data: ProfileSettingsData
+  ): Promise<ProfileResult<Profile>> {
+    return updateProfileRow(
+      userId,
+      {
+        full_name: data.fullName,
+        timezone: data.timezone,
+        locale: data.locale,
+        mood_scale: data.moodScale,
+      },
+      "updateSettings"
+    );
+  },
+
+  /**
+   * Recibir o no por correo las invitaciones a actividades
+   *
+   * @param userId - Id del usuario
+   * @param enabled - true para recibirlas
+   * @returns ProfileResult con el perfil actualizado
+   */
+  async setActivityEmails(
+    userId: string,
+    enabled: boolean
+  ): Promise<ProfileResult<Profile>> {
+    return updateProfileRow(
+      userId,
+      { activity_emails: enabled },
+      "setActivityEmails"
+    );
+  },
+
+  /**
+   * Subir la foto de perfil y guardar su URL pública
+   *
+   * Siempre se guarda en `<userId>/avatar.webp` (o la extensión que
+   * corresponda), reemplazando la anterior. La URL lleva `?v=` con la
+   * hora de subida para que el navegador no muestre la foto vieja.
+   *
+   * @param userId - Id del usuario
+   * @param file - Imagen ya validada con avatarFileSchema
+   * @returns ProfileResult con el perfil actualizado
+   */
+  async uploadAvatar(
+    userId: string,
+    file: File
+  ): Promise<ProfileResult<Profile>> {
+    try {
+      const supabase = await createClient();
+      const extension = file.type.split("/")[1];
+      const path = `${userId}/avatar.${extension}`;
+
+      const { error } = await supabase.storage
+        .from(AVATAR_BUCKET)
+        .upload(path, file, {
+          upsert: true,
+          contentType: file.type,
+          cacheControl: "3600",
+        });
+
+      if (error) {
+        return {
+          success: false,
+          error: createProfileError(
+            ProfileErrorType.UPLOAD_FAILED,
+            error.message
+          ),
+        };
+      }
+
+      // Si antes tenía una foto con otra extensión, ya no se usa
+      const stale = AVATAR_MIME_TYPES.filter((type) => type !== file.type).map(
+        (type) => `${userId}/avatar.${type.split("/")[1]}`
+      );
+      await supabase.storage.from(AVATAR_BUCKET).remove(stale);
+
+      const {
+        data: { publicUrl },
+      } = supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path);
+
+      return updateProfileRow(
+        userId,
+        { avatar_url: `${publicUrl}?v=${Date.now()}` },
+        "uploadAvatar"
+      );
+    } catch (error) {
+      console.error("Error en profileRepository.uploadAvatar:", error);
+      return {
+        success: false,
+        error: createProfileError(ProfileErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Quitar la foto de perfil
+   *
+   * @param userId - Id del usuario
+   * @returns ProfileResult con el perfil actualizado
+   */
+  async removeAvatar(userId: string): Promise<ProfileResult<Profile>> {
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase.storage
+        .from(AVATAR_BUCKET)
+        .remove(
+          AVATAR_MIME_TYPES.map(
+            (type) => `${userId}/avatar.${type.split("/")[1]}`
+          )
+        );
+
+      if (error) {
+        return {
+          success: false,
+          error: createProfileError(
+            ProfileErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return updateProfileRow(userId, { avatar_url: null }, "removeAvatar");
+    } catch (error) {
+      console.error("Error en profileRepository.removeAvatar:", error);
+      return {
+        success: false,
+        error: createProfileError(ProfileErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * De una lista de usuarios, los que aceptan invitaciones por correo
+   *
+   * @param userIds - Ids de los usuarios a consultar
+   * @returns ProfileResult con los que las aceptan, con su zona horaria
+   *   e idioma
+   */
+  async listActivityEmailRecipients(
+    userIds: string[]
+  ): Promise<ProfileResult<ActivityEmailRecipient[]>> {
+    if (userIds.length === 0) return { success: true, data: [] };
+
+    try {
+      const supabase = await createClient();
+      const { data: rows, error } = await supabase
+        .from(PROFILES_TABLE)
+        .select("id, timezone, locale")
+        .in("id", userIds)
+        .eq("activity_emails", true)
+        .overrideTypes<
+          Pick<ProfileRow, "id" | "timezone" | "locale">[],
+          { merge: false }
+        >();
+
+      if (error) {
+        return {
+          success: false,
+          error: createProfileError(
+            ProfileErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: rows ?? [] };
+    } catch (error) {
+      console.error(
+        "Error en profileRepository.listActivityEmailRecipients:",
+        error
+      );
+      return {
+        success: false,
+        error: createProfileError(ProfileErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+};
+
+/**
+ * Actualiza columnas del perfil y devuelve el perfil resultante
+ *
+ * @param method - Nombre del método que la llama (para el log)
+ */
+async function updateProfileRow(
+  userId: string,
+  changes: Partial<Omit<ProfileRow, "id" | "email" | "created_at">>,
+  method: string
+): Promise<ProfileResult<Profile>> {
+  try {
+    const supabase = await createClient();
+    const { data: row, error } = await supabase
+      .from(PROFILES_TABLE)
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", userId)
+      .select()
+      .maybeSingle<ProfileRow>();
+
+    if (error) {
+      return {
+        success: false,
+        error: createProfileError(
+          ProfileErrorType.UNKNOWN_ERROR,
+          error.message
+        ),
+      };
+    }
+
+    if (!row) {
+      return {
+        success: false,
+        error: createProfileError(ProfileErrorType.NOT_FOUND),
+      };
+    }
+
+    return { success: true, data: mapProfileRow(row) };
+  } catch (error) {
+    console.error(`Error en profileRepository.${method}:`, error);
+    return {
+      success: false,
+      error: createProfileError(ProfileErrorType.NETWORK_ERROR),
+    };
+  }
+}
@@ -0,0 +1,88 @@
+import { z } from "zod";
+import type { MessageKey } from "@lib/i18n/translator";
+import { MOOD_SCALE_IDS } from "@features/home/models/mood.scales";
+import { timezoneSchema } from "@features/home/models/home.schema";
+import {
+  AVATAR_MAX_BYTES,
+  AVATAR_MIME_TYPES,
+  PROFILE_LOCALES,
+} from "./profile.types";
+
+/**
+ * Claves de los mensajes de validación (ver lib/i18n/messages)
+ *
+ * Llegan a la interfaz como `details` del error y se traducen
+ * con getProfileErrorText.
+ */
+const VALIDATION_MESSAGES = {
+  optOut: {
+    invalid: "profile.validation.optOut.invalid",
+  },
+  fullName: {
+    minLength: "profile.validation.fullName.minLength",
+    maxLength: "profile.validation.fullName.maxLength",
+  },
+  locale: {
+    invalid: "profile.validation.locale.invalid",
+  },
+  moodScale: {
+    invalid: "profile.validation.moodScale.invalid",
+  },
+  activityEmails: {
+    invalid: "profile.validation.activityEmails.invalid",
+  },
+  avatar: {
+    type: "profile.validation.avatar.type",
+    size: "profile.validation.avatar.size",
+  },
+} satisfies Record<string, Record<string, MessageKey>>;
+
+/**
+ * Schema para participar o no en el tablero de bienestar del equipo
+ */
+export const teamAggregationSchema = z.object({
+  optOut: z.boolean(VALIDATION_MESSAGES.optOut.invalid),
+});
+
+/**
+ * Schema de los datos generales del perfil en /settings
+ *
+ * El nombre también se copia a `user_metadata.full_name` de Supabase Auth.
+ */
+export const profileSettingsSchema = z.object({
+  fullName: z
+    .string()
+    .trim()
+    .min(3, VALIDATION_MESSAGES.fullName.minLength)
+    .max(80, VALIDATION_MESSAGES.fullName.maxLength),
+  timezone: timezoneSchema,
+  locale: z.enum(PROFILE_LOCALES, VALIDATION_MESSAGES.locale.invalid),
+  moodScale: z.enum(MOOD_SCALE_IDS, VALIDATION_MESSAGES.moodScale.invalid),
+});
+
+/**
+ * Schema de las preferencias de notificación guardadas en el perfil
+ *
+ * Los recordatorios diarios tienen su propia página (/settings/reminders).
+ */
+export const notificationPreferencesSchema = z.object({
+  activityEmails: z.boolean(VALIDATION_MESSAGES.activityEmails.invalid),
+});
+
+/**
+ * Schema de la foto de perfil ya redimensionada por el navegador
+ */
+export const avatarFileSchema = z
+  .file(VALIDATION_MESSAGES.avatar.type)
+  .mime([...AVATAR_MIME_TYPES], VALIDATION_MESSAGES.avatar.type)
+  .max(AVATAR_MAX_BYTES, VALIDATION_MESSAGES.avatar.size);
+
+/**
+ * Tipos TypeScript inferidos de los schemas
+ */
+export type TeamAggregationInput = z.infer<typeof teamAggregationSchema>;
+export type ProfileSettingsInput = z.input<typeof profileSettingsSchema>;
+export type ProfileSettingsData = z.output<typeof profileSettingsSchema>;
+export type NotificationPreferencesInput = z.infer<
+  typeof notificationPreferencesSchema
+>;
@@ -0,0 +1,176 @@
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  LOCALE_LABELS,
+  type Locale,
+} from "@lib/i18n/config";
+import {
+  createTranslator,
+  translateText,
+  type I18n,
+  type MessageKey,
+} from "@lib/i18n/translator";
+import type { MoodScaleId } from "@features/home/models/mood.scales";
+
+/**
+ * Idiomas de la interfaz que puede elegir el usuario
+ *
+ * Son los mismos de lib/i18n: con sesión, el middleware guarda el del
+ * perfil en la cookie de idioma y ese manda sobre el del navegador.
+ */
+export const PROFILE_LOCALES = LOCALES;
+export type ProfileLocale = Locale;
+
+export const PROFILE_LOCALE_LABELS = LOCALE_LABELS;
+
+/**
+ * Foto de perfil
+ *
+ * El navegador la recorta y reduce a AVATAR_SIZE × AVATAR_SIZE antes
+ * de subirla; el servidor igual rechaza archivos grandes o de otro tipo.
+ */
+export const AVATAR_BUCKET = "avatars";
+export const AVATAR_SIZE = 256;
+export const AVATAR_MAX_BYTES = 1024 * 1024;
+export const AVATAR_MIME_TYPES = [
+  "image/webp",
+  "image/jpeg",
+  "image/png",
+] as const;
+
+/**
+ * Perfil del usuario
+ *
+ * Datos propios de la aplicación que no viven en Supabase Auth
+ * (tabla `profiles`, creada automáticamente al registrarse)
+ *
+ * - `teamAggregationOptOut` excluye sus registros del tablero de
+ *   bienestar del equipo
+ * - `activityEmails` indica si recibe por correo las invitaciones
+ *   a actividades
+ */
+export interface Profile {
+  id: string;
+  email: string;
+  fullName?: string;
+  avatarUrl?: string;
+  timezone: string;
+  locale: ProfileLocale;
+  moodScale: MoodScaleId;
+  activityEmails: boolean;
+  teamAggregationOptOut: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Fila de la tabla `profiles` tal como la devuelve Supabase
+ */
+export interface ProfileRow {
+  id: string;
+  email: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  timezone: string;
+  locale: ProfileLocale;
+  mood_scale: MoodScaleId;
+  activity_emails: boolean;
+  team_aggregation_opt_out: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Destinatario de las invitaciones por correo, con la zona horaria
+ * y el idioma en que se le muestran las fechas
+ */
+export type ActivityEmailRecipient = Pick<
+  Profile,
+  "id" | "timezone" | "locale"
+>;
+
+/**
+ * Resultado de operaciones sobre el perfil
+ *
+ * Mismo patrón Result que AuthResult
+ */
+export type ProfileResult<T = void> =
+  | { success: true; data: T }
+  | { success: false; error: ProfileError };
+
+/**
+ * Tipos de errores del perfil
+ */
+export enum ProfileErrorType {
+  UNAUTHORIZED = "UNAUTHORIZED",
+  VALIDATION_ERROR = "VALIDATION_ERROR",
+  NOT_FOUND = "NOT_FOUND",
+  UPLOAD_FAILED = "UPLOAD_FAILED",
+  NETWORK_ERROR = "NETWORK_ERROR",
+  UNKNOWN_ERROR = "UNKNOWN_ERROR",
+}
+
+/**
+ * Error del perfil estructurado
+ */
+export interface ProfileError {
+  type: ProfileErrorType;
+  message: string;
+  details?: string;
+}
+
+/**
+ * Convierte una fila de `profiles` a nuestro tipo Profile
+ */
+export function mapProfileRow(row: ProfileRow): Profile {
+  return {
+    id: row.id,
+    email: row.email,
+    fullName: row.full_name ?? undefined,
+    avatarUrl: row.avatar_url ?? undefined,
+    timezone: row.timezone,
+    locale: row.locale,
+    moodScale: row.mood_scale,
+    activityEmails: row.activity_emails,
+    teamAggregationOptOut: row.team_aggregation_opt_out,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Clave del mensaje de cada tipo de error (ver lib/i18n/messages)
+ */
+export function getProfileErrorMessageKey(type: ProfileErrorType): MessageKey {
+  return `profile.errors.${type}`;
+}
+
+const defaultT = createTranslator(DEFAULT_LOCALE);
+
+/**
+ * Helper para crear errores del perfil
+ *
+ * `message` queda en el idioma por defecto (para logs); la interfaz
+ * muestra el error con getProfileErrorText en el idioma del usuario.
+ */
+export function createProfileError(
+  type: ProfileErrorType,
+  details?: string
+): ProfileError {
+  return {
+    type,
+    message: defaultT(getProfileErrorMessageKey(type)),
+    details,
+  };
+}
+
+/**
+ * Texto a mostrar para un error del perfil
+ *
+ * Usa `details` si lo hay (p. ej. la clave del mensaje de validación).
+ */
+export function getProfileErrorText(error: ProfileError, { t }: I18n): string {
+  return error.details
+    ? translateText(t, error.details)
+    : t(getProfileErrorMessageKey(error.type));
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { useI18n } from "@lib/i18n/client";
+import {
+  subscribePushAction,
+  unsubscribePushAction,
+} from "../controllers/reminders.actions";
+import { getReminderErrorText } from "../models/reminders.types";
+
+type Props = {
+  vapidPublicKey: string;
+};
+
+type PushState = "unsupported" | "denied" | "subscribed" | "unsubscribed";
+
+/**
+ * Convierte la llave VAPID (base64url) al formato que pide pushManager
+ */
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const padded = (value + "=".repeat((4 - (value.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  const binary = window.atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Estado actual de las notificaciones push en este navegador
+ */
+async function readPushState(): Promise<PushState> {
+  if (!("serviceWorker" in navigator) || !("PushManager" in window)) {
+    return "unsupported";
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.register("/sw.js");
+    const subscription = await registration.pushManager.getSubscription();
+    if (subscription) return "subscribed";
+    return Notification.permission === "denied" ? "denied" : "unsubscribed";
+  } catch {
+    return "unsupported";
+  }
+}
+
+/**
+ * Activa o desactiva las notificaciones push en este navegador
+ *
+ * Cada dispositivo tiene su propia suscripción; el recordatorio
+ * llega a todos los dispositivos suscritos.
+ */
+export function PushSubscriptionToggle({ vapidPublicKey }: Props) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [state, setState] = useState<PushState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    readPushState().then(setState);
+  }, []);
+
+  const handleSubscribe = () => {
+    setError(null);
+    startTransition(async () => {
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
+        setState("denied");
+        return;
+      }
+
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: decodeBase64Url(vapidPublicKey),
+      });
+
+      const json = subscription.toJSON();
+      const result = await subscribePushAction({
+        endpoint: json.endpoint ?? "",
+        keys: { p256dh: json.keys?.p256dh ?? "", auth: json.keys?.auth ?? "" },
+      });
+
+      if (result.success) {
+        setState("subscribed");
+      } else {
+        await subscription.unsubscribe();
+        setError(getReminderErrorText(result.error, i18n));
+      }
+    });
+  };
+
+  const handleUnsubscribe = () => {
+    setError(null);
+    startTransition(async () => {
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription();
+      if (subscription) {
+        await unsubscribePushAction({ endpoint: subscription.endpoint });
+        await subscription.unsubscribe();
+      }
+      setState("unsubscribed");
+    });
+  };
+
+  if (state === null) return null;
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      {state === "unsupported" && (
+        <p className="text-slate-600">{t("reminders.push.unsupported")}</p>
+      )}
+      {state === "denied" && (
+        <p className="text-slate-600">{t("reminders.push.denied")}</p>
+      )}
+      {state === "unsubscribed" && (
+        <button
+          type="button"
+          onClick={handleSubscribe}
+          disabled={isPending}
+          className="self-start rounded-md border px-3 py-2 disabled:opacity-50"
+        >
+          {t("reminders.push.subscribe")}
+        </button>
+      )}
+      {state === "subscribed" && (
+        <div className="flex items-center gap-3">
+          <span>{t("reminders.push.subscribed")}</span>
+          <button
+            type="button"
+            onClick={handleUnsubscribe}
+            disabled={isPending}
+            className="text-xs underline disabled:opacity-50"
+          >
+            {t("reminders.push.unsubscribe")}
+          </button>
+        </div>
+      )}
+      {error && (
+        <p className="text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
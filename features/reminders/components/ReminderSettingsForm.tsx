@@ -0,0 +1,220 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useI18n } from "@lib/i18n/client";
+import { saveReminderPreferencesAction } from "../controllers/reminders.actions";
+import {
+  REMINDER_CHANNELS,
+  REMINDER_CHANNEL_LABELS,
+  REMINDER_WEEK_DAYS,
+  WEEK_DAY_LABELS,
+  getReminderErrorText,
+  type ReminderChannel,
+  type ReminderPreferences,
+} from "../models/reminders.types";
+import { PushSubscriptionToggle } from "./PushSubscriptionToggle";
+
+type Props = {
+  preferences: ReminderPreferences;
+  vapidPublicKey?: string;
+};
+
+/**
+ * Alterna un valor dentro de una lista
+ */
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value)
+    ? list.filter((item) => item !== value)
+    : [...list, value];
+}
+
+/**
+ * Formulario de preferencias de recordatorio
+ */
+export function ReminderSettingsForm({ preferences, vapidPublicKey }: Props) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [enabled, setEnabled] = useState(preferences.enabled);
+  const [days, setDays] = useState(preferences.days);
+  const [time, setTime] = useState(preferences.time);
+  const [timezone, setTimezone] = useState(preferences.timezone);
+  const [channels, setChannels] = useState<ReminderChannel[]>(
+    preferences.channels
+  );
+  const [useQuietHours, setUseQuietHours] = useState(
+    Boolean(preferences.quietStart)
+  );
+  const [quietStart, setQuietStart] = useState(
+    preferences.quietStart ?? "22:00"
+  );
+  const [quietEnd, setQuietEnd] = useState(preferences.quietEnd ?? "07:00");
+  const [status, setStatus] = useState<{
+    kind: "saved" | "error";
+    message: string;
+  } | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const availableChannels = REMINDER_CHANNELS.filter(
+    (channel) => channel !== "push" || vapidPublicKey
+  );
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setStatus(null);
+    startTransition(async () => {
+      const result = await saveReminderPreferencesAction({
+        enabled,
+        days,
+        time,
+        timezone,
+        channels,
+        quietStart: useQuietHours ? quietStart : undefined,
+        quietEnd: useQuietHours ? quietEnd : undefined,
+      });
+
+      setStatus(
+        result.success
+          ? { kind: "saved", message: t("reminders.form.saved") }
+          : {
+              kind: "error",
+              message: getReminderErrorText(result.error, i18n),
+            }
+      );
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex flex-col gap-5 rounded-lg border bg-white p-6"
+    >
+      <label className="flex items-center gap-2 text-sm font-medium">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+        />
+        {t("reminders.form.enabled")}
+      </label>
+
+      <fieldset className="flex flex-col gap-2" disabled={!enabled}>
+        <legend className="text-sm font-medium">
+          {t("reminders.form.days")}
+        </legend>
+        <div className="flex flex-wrap gap-2">
+          {REMINDER_WEEK_DAYS.map((day) => (
+            <label
+              key={day}
+              className="flex items-center gap-1 rounded-md border px-2 py-1 text-sm"
+            >
+              <input
+                type="checkbox"
+                checked={days.includes(day)}
+                onChange={() => setDays(toggle(days, day))}
+              />
+              {t(WEEK_DAY_LABELS[day])}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="flex flex-wrap gap-4">
+        <label className="flex flex-col text-sm">
+          {t("reminders.form.time")}
+          <input
+            type="time"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            disabled={!enabled}
+            className="mt-1 rounded-md border px-3 py-2"
+          />
+        </label>
+        <label className="flex flex-col text-sm">
+          {t("reminders.form.timezone")}
+          <input
+            type="text"
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            disabled={!enabled}
+            className="mt-1 rounded-md border px-3 py-2"
+          />
+        </label>
+      </div>
+
+      <fieldset className="flex flex-col gap-2" disabled={!enabled}>
+        <legend className="text-sm font-medium">
+          {t("reminders.form.channels")}
+        </legend>
+        {availableChannels.map((channel) => (
+          <label key={channel} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={channels.includes(channel)}
+              onChange={() => setChannels(toggle(channels, channel))}
+            />
+            {t(REMINDER_CHANNEL_LABELS[channel])}
+          </label>
+        ))}
+        {vapidPublicKey && channels.includes("push") && (
+          <PushSubscriptionToggle vapidPublicKey={vapidPublicKey} />
+        )}
+      </fieldset>
+
+      <fieldset className="flex flex-col gap-2" disabled={!enabled}>
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            checked={useQuietHours}
+            onChange={(e) => setUseQuietHours(e.target.checked)}
+          />
+          {t("reminders.form.quietHours")}
+        </label>
+        {useQuietHours && (
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="flex flex-col text-sm">
+              {t("reminders.form.quietStart")}
+              <input
+                type="time"
+                value={quietStart}
+                onChange={(e) => setQuietStart(e.target.value)}
+                className="mt-1 rounded-md border px-3 py-2"
+              />
+            </label>
+            <label className="flex flex-col text-sm">
+              {t("reminders.form.quietEnd")}
+              <input
+                type="time"
+                value={quietEnd}
+                onChange={(e) => setQuietEnd(e.target.value)}
+                className="mt-1 rounded-md border px-3 py-2"
+              />
+            </label>
+            <p className="text-xs text-slate-500">
+              {t("reminders.form.quietHoursHint")}
+            </p>
+          </div>
+        )}
+      </fieldset>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={isPending}
+          className="rounded-md bg-slate-900 px-4 py-2 text-sm text-white disabled:opacity-50"
+        >
+          {t("reminders.form.save")}
+        </button>
+        {status && (
+          <span
+            className={`text-sm ${
+              status.kind === "error" ? "text-red-600" : "text-slate-600"
+            }`}
+            role={status.kind === "error" ? "alert" : "status"}
+          >
+            {status.message}
+          </span>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,133 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getCurrentUser } from "@lib/auth/session";
+import { siteConfig } from "@lib/config/site";
+import { isPushConfigured } from "@lib/push/sender";
+import { reminderRepository } from "../models/reminders.repository";
+import {
+  pushSubscriptionSchema,
+  removePushSubscriptionSchema,
+  saveReminderPreferencesSchema,
+  type PushSubscriptionInput,
+  type RemovePushSubscriptionInput,
+  type SaveReminderPreferencesInput,
+} from "../models/reminders.schema";
+import {
+  ReminderErrorType,
+  createReminderError,
+  type ReminderPreferences,
+  type ReminderResult,
+} from "../models/reminders.types";
+
+/**
+ * Server Actions de recordatorios
+ *
+ * Flujo: sesión → validación con zod → reminderRepository.
+ */
+
+/**
+ * Guardar las preferencias de recordatorio
+ */
+export async function saveReminderPreferencesAction(
+  input: SaveReminderPreferencesInput
+): Promise<ReminderResult<ReminderPreferences>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createReminderError(ReminderErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = saveReminderPreferencesSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createReminderError(
+        ReminderErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  if (parsed.data.channels.includes("push") && !isPushConfigured()) {
+    return {
+      success: false,
+      error: createReminderError(ReminderErrorType.PUSH_NOT_CONFIGURED),
+    };
+  }
+
+  const result = await reminderRepository.savePreferences(user.id, parsed.data);
+  if (result.success) {
+    revalidatePath(siteConfig.routes.reminderSettings);
+  }
+
+  return result;
+}
+
+/**
+ * Guardar la suscripción push de este navegador
+ */
+export async function subscribePushAction(
+  input: PushSubscriptionInput
+): Promise<ReminderResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createReminderError(ReminderErrorType.UNAUTHORIZED),
+    };
+  }
+
+  if (!isPushConfigured()) {
+    return {
+      success: false,
+      error: createReminderError(ReminderErrorType.PUSH_NOT_CONFIGURED),
+    };
+  }
+
+  const parsed = pushSubscriptionSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createReminderError(
+        ReminderErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  return reminderRepository.savePushSubscription(user.id, parsed.data);
+}
+
+/**
+ * Quitar la suscripción push de este navegador
+ */
+export async function unsubscribePushAction(
+  input: RemovePushSubscriptionInput
+): Promise<ReminderResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createReminderError(ReminderErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = removePushSubscriptionSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createReminderError(
+        ReminderErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  return reminderRepository.removePushSubscription(
+    user.id,
+    parsed.data.endpoint
+  );
+}
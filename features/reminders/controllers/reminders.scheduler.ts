@@ -0,0 +1,75 @@
+import {
+  getDayOfWeek,
+  getLocalClock,
+  getLocalDateKey,
+} from "@shared/utils/dates";
+import type { ReminderPreferences } from "../models/reminders.types";
+
+/**
+ * Reglas para decidir si a un usuario le toca recordatorio
+ *
+ * Funciones puras: reciben el instante actual para que el cron
+ * (y cualquier prueba) controle el reloj.
+ */
+
+/**
+ * Estado del recordatorio de un usuario en un instante
+ *
+ * - not_today: hoy no es uno de sus días
+ * - too_early: aún no llega la hora elegida
+ * - already_processed: hoy ya se envió u omitió
+ * - quiet_hours: ya es hora, pero está en horas de silencio
+ *   (se intentará de nuevo cuando terminen, si sigue siendo el mismo día)
+ * - due: se debe enviar (si no ha registrado su ánimo)
+ */
+export type ReminderStatus =
+  | "not_today"
+  | "too_early"
+  | "already_processed"
+  | "quiet_hours"
+  | "due";
+
+/**
+ * Indica si una hora HH:mm cae dentro de las horas de silencio
+ *
+ * Soporta rangos que cruzan la medianoche (22:00–07:00).
+ */
+export function isWithinQuietHours(
+  clock: string,
+  quietStart?: string,
+  quietEnd?: string
+): boolean {
+  if (!quietStart || !quietEnd) return false;
+  return quietStart < quietEnd
+    ? clock >= quietStart && clock < quietEnd
+    : clock >= quietStart || clock < quietEnd;
+}
+
+/**
+ * Calcula el estado del recordatorio de un usuario
+ *
+ * @param preferences - Preferencias del usuario
+ * @param now - Instante actual
+ * @returns Estado y día local del usuario en ese instante
+ */
+export function getReminderStatus(
+  preferences: ReminderPreferences,
+  now: Date
+): { status: ReminderStatus; today: string } {
+  const today = getLocalDateKey(now, preferences.timezone);
+  const clock = getLocalClock(now, preferences.timezone);
+
+  if (!preferences.days.includes(getDayOfWeek(today))) {
+    return { status: "not_today", today };
+  }
+  if (preferences.lastRunOn === today) {
+    return { status: "already_processed", today };
+  }
+  if (clock < preferences.time) {
+    return { status: "too_early", today };
+  }
+  if (isWithinQuietHours(clock, preferences.quietStart, preferences.quietEnd)) {
+    return { status: "quiet_hours", today };
+  }
+  return { status: "due", today };
+}
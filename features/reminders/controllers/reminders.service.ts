@@ -0,0 +1,163 @@
+import { siteConfig } from "@lib/config/site";
+import { DEFAULT_LOCALE } from "@lib/i18n/config";
+import { createTranslator } from "@lib/i18n/translator";
+import { sendEmail } from "@lib/email/sender";
+import { checkInReminderEmail } from "@lib/email/templates/check-in-reminder";
+import { PushErrorType, sendPush } from "@lib/push/sender";
+import { getZonedDateRange } from "@shared/utils/dates";
+import {
+  reminderSchedulerRepository,
+  type ReminderRecipient,
+} from "../models/reminders.repository";
+import type {
+  ReminderResult,
+  ReminderRunSummary,
+} from "../models/reminders.types";
+import { getReminderStatus } from "./reminders.scheduler";
+
+/**
+ * Resultado de enviar un recordatorio
+ *
+ * - sent: llegó por al menos un canal
+ * - no_channel: no había por dónde enviarlo (sin correo ni
+ *   suscripciones push vigentes); reintentar no cambiaría nada
+ * - failed: algún envío falló y vale la pena reintentar
+ */
+type DeliveryOutcome = "sent" | "no_channel" | "failed";
+
+/**
+ * Envía el recordatorio por los canales elegidos
+ */
+async function deliver(recipient: ReminderRecipient): Promise<DeliveryOutcome> {
+  const { preferences, locale = DEFAULT_LOCALE } = recipient;
+  const checkInUrl = `${siteConfig.url}${siteConfig.routes.home}`;
+  let delivered = false;
+  let attempted = false;
+
+  if (preferences.channels.includes("email") && recipient.email) {
+    attempted = true;
+    const result = await sendEmail(
+      recipient.email,
+      checkInReminderEmail({
+        fullName: recipient.fullName,
+        checkInUrl,
+        settingsUrl: `${siteConfig.url}${siteConfig.routes.reminderSettings}`,
+        locale,
+      })
+    );
+    if (result.success) {
+      delivered = true;
+    } else {
+      console.error(
+        `Recordatorio por correo fallido (${preferences.userId}):`,
+        result.error.details ?? result.error.message
+      );
+    }
+  }
+
+  if (preferences.channels.includes("push")) {
+    const t = createTranslator(locale);
+    const subscriptions =
+      await reminderSchedulerRepository.listPushSubscriptions(
+        preferences.userId
+      );
+    if (!subscriptions.success) attempted = true;
+
+    for (const subscription of subscriptions.success
+      ? subscriptions.data
+      : []) {
+      const result = await sendPush(subscription, {
+        title: t("reminders.push.title"),
+        body: t("reminders.push.body"),
+        url: siteConfig.routes.home,
+        tag: "check-in-reminder",
+      });
+
+      if (result.success) {
+        delivered = true;
+      } else if (result.error.type === PushErrorType.SUBSCRIPTION_EXPIRED) {
+        // Ya no es un canal: no cuenta como intento fallido
+        await reminderSchedulerRepository.deletePushSubscription(
+          subscription.endpoint
+        );
+      } else {
+        attempted = true;
+      }
+    }
+  }
+
+  if (delivered) return "sent";
+  return attempted ? "failed" : "no_channel";
+}
+
+/**
+ * Servicio de recordatorios
+ */
+export const reminderService = {
+  /**
+   * Enviar los recordatorios que tocan en este momento
+   *
+   * Pensado para un cron que corra cada 15 minutos: cada usuario recibe
+   * como máximo un recordatorio por día local, apenas pase su hora y
+   * fuera de sus horas de silencio. Si ya registró su ánimo ese día,
+   * se omite.
+   *
+   * @param now - Instante de la corrida
+   * @returns ReminderResult con el conteo de la corrida
+   */
+  async runDueReminders(
+    now: Date = new Date()
+  ): Promise<ReminderResult<ReminderRunSummary>> {
+    const recipients = await reminderSchedulerRepository.listEnabled();
+    if (!recipients.success) return recipients;
+
+    const summary: ReminderRunSummary = {
+      checked: recipients.data.length,
+      sent: 0,
+      skippedCheckedIn: 0,
+      skippedQuietHours: 0,
+      skippedNoChannel: 0,
+      failed: 0,
+    };
+
+    for (const recipient of recipients.data) {
+      const { preferences } = recipient;
+      const { status, today } = getReminderStatus(preferences, now);
+
+      if (status === "quiet_hours") {
+        summary.skippedQuietHours++;
+        continue;
+      }
+      if (status !== "due") continue;
+
+      const checkedIn = await reminderSchedulerRepository.hasCheckedIn(
+        preferences.userId,
+        getZonedDateRange(today, today, preferences.timezone)
+      );
+      if (!checkedIn.success) {
+        summary.failed++;
+        continue;
+      }
+
+      if (checkedIn.data) {
+        summary.skippedCheckedIn++;
+      } else {
+        const outcome = await deliver(recipient);
+        if (outcome === "failed") {
+          // No se marca: se reintenta en la siguiente corrida
+          summary.failed++;
+          continue;
+        }
+        if (outcome === "sent") summary.sent++;
+        else summary.skippedNoChannel++;
+      }
+
+      await reminderSchedulerRepository.markProcessed(
+        preferences.userId,
+        today
+      );
+    }
+
+    return { success: true, data: summary };
+  },
+};
@@ -0,0 +1,422 @@
+import { createClient } from "@lib/supabase/server";
+import { createAdminClient } from "@lib/supabase/admin";
+import type { PushSubscriptionData } from "@lib/push/sender";
+import type { Locale } from "@lib/i18n/config";
+import {
+  ReminderResult,
+  ReminderErrorType,
+  createReminderError,
+  mapReminderPreferencesRow,
+  type PushSubscriptionRow,
+  type ReminderPreferences,
+  type ReminderPreferencesRow,
+  type ReminderRecipientRow,
+} from "./reminders.types";
+import type {
+  PushSubscriptionInput,
+  SaveReminderPreferencesData,
+} from "./reminders.schema";
+
+const REMINDER_PREFERENCES_TABLE = "reminder_preferences";
+const PUSH_SUBSCRIPTIONS_TABLE = "push_subscriptions";
+const MOOD_ENTRIES_TABLE = "mood_entries";
+
+/**
+ * Repositorio de Recordatorios
+ *
+ * Capa de acceso a datos para `reminder_preferences` y
+ * `push_subscriptions` del usuario con sesión (respeta RLS).
+ */
+export const reminderRepository = {
+  /**
+   * Obtener las preferencias de un usuario
+   *
+   * @param userId - Id del usuario
+   * @returns ReminderResult con las preferencias, o null si nunca las guardó
+   */
+  async getPreferences(
+    userId: string
+  ): Promise<ReminderResult<ReminderPreferences | null>> {
+    try {
+      const supabase = await createClient();
+      const { data: row, error } = await supabase
+        .from(REMINDER_PREFERENCES_TABLE)
+        .select()
+        .eq("user_id", userId)
+        .maybeSingle<ReminderPreferencesRow>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createReminderError(
+            ReminderErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return {
+        success: true,
+        data: row ? mapReminderPreferencesRow(row) : null,
+      };
+    } catch (error) {
+      console.error("Error en reminderRepository.getPreferences:", error);
+      return {
+        success: false,
+        error: createReminderError(ReminderErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Crear o actualizar las preferencias de un usuario
+   *
+   * Al cambiar las preferencias se reinicia `last_run_on`, así un
+   * cambio de hora para hoy sí genera recordatorio.
+   *
+   * @param userId - Id del usuario
+   * @param data - Datos ya validados con saveReminderPreferencesSchema
+   * @returns ReminderResult con las preferencias guardadas
+   */
+  async savePreferences(
+    userId: string,
+    data: SaveReminderPreferencesData
+  ): Promise<ReminderResult<ReminderPreferences>> {
+    try {
+      const supabase = await createClient();
+      const { data: row, error } = await supabase
+        .from(REMINDER_PREFERENCES_TABLE)
+        .upsert({
+          user_id: userId,
+          enabled: data.enabled,
+          days: data.days,
+          remind_at: data.time,
+          timezone: data.timezone,
+          channels: data.channels,
+          quiet_start: data.quietStart ?? null,
+          quiet_end: data.quietEnd ?? null,
+          last_run_on: null,
+          updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single<ReminderPreferencesRow>();
+
+      if (error || !row) {
+        return {
+          success: false,
+          error: createReminderError(
+            ReminderErrorType.UNKNOWN_ERROR,
+            error?.message
+          ),
+        };
+      }
+
+      return { success: true, data: mapReminderPreferencesRow(row) };
+    } catch (error) {
+      console.error("Error en reminderRepository.savePreferences:", error);
+      return {
+        success: false,
+        error: createReminderError(ReminderErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Guardar la suscripción push de un navegador
+   *
+   * @param userId - Id del usuario
+   * @param subscription - Suscripción ya validada
+   * @returns ReminderResult indicando éxito o error
+   */
+  async savePushSubscription(
+    userId: string,
+    subscription: PushSubscriptionInput
+  ): Promise<ReminderResult> {
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase.from(PUSH_SUBSCRIPTIONS_TABLE).upsert(
+        {
+          user_id: userId,
+          endpoint: subscription.endpoint,
+          p256dh: subscription.keys.p256dh,
+          auth: subscription.keys.auth,
+        },
+        { onConflict: "endpoint" }
+      );
+
+      if (error) {
+        return {
+          success: false,
+          error: createReminderError(
+            ReminderErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en reminderRepository.savePushSubscription:", error);
+      return {
+        success: false,
+        error: createReminderError(ReminderErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Quitar la suscripción push de un navegador
+   *
+   * @param userId - Id del usuario
+   * @param endpoint - Endpoint de la suscripción
+   * @returns ReminderResult indicando éxito o error
+   */
+  async removePushSubscription(
+    userId: string,
+    endpoint: string
+  ): Promise<ReminderResult> {
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase
+        .from(PUSH_SUBSCRIPTIONS_TABLE)
+        .delete()
+        .eq("user_id", userId)
+        .eq("endpoint", endpoint);
+
+      if (error) {
+        return {
+          success: false,
+          error: createReminderError(
+            ReminderErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error(
+        "Error en reminderRepository.removePushSubscription:",
+        error
+      );
+      return {
+        success: false,
+        error: createReminderError(ReminderErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+};
+
+/**
+ * Destinatario de recordatorios con sus preferencias y datos de contacto
+ */
+export interface ReminderRecipient {
+  preferences: ReminderPreferences;
+  email?: string;
+  fullName?: string;
+  locale?: Locale;
+}
+
+/**
+ * Repositorio del programador de recordatorios
+ *
+ * Usa el cliente con Service Role Key porque el cron no tiene sesión:
+ * solo lo debe llamar el route handler protegido con CRON_SECRET.
+ */
+export const reminderSchedulerRepository = {
+  /**
+   * Listar a todos los usuarios con recordatorios activos
+   */
+  async listEnabled(): Promise<ReminderResult<ReminderRecipient[]>> {
+    try {
+      const supabase = createAdminClient();
+      const { data: rows, error } = await supabase
+        .from(REMINDER_PREFERENCES_TABLE)
+        .select("*, profiles ( email, full_name, locale )")
+        .eq("enabled", true)
+        .overrideTypes<ReminderRecipientRow[], { merge: false }>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createReminderError(
+            ReminderErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return {
+        success: true,
+        data: (rows ?? []).map((row) => ({
+          preferences: mapReminderPreferencesRow(row),
+          email: row.profiles?.email,
+          fullName: row.profiles?.full_name ?? undefined,
+          locale: row.profiles?.locale,
+        })),
+      };
+    } catch (error) {
+      console.error("Error en reminderSchedulerRepository.listEnabled:", error);
+      return {
+        success: false,
+        error: createReminderError(ReminderErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Saber si un usuario ya registró su ánimo en un rango
+   *
+   * @param userId - Id del usuario
+   * @param range - Rango [from, to) en ISO 8601 (su día local)
+   */
+  async hasCheckedIn(
+    userId: string,
+    range: { from: string; to: string }
+  ): Promise<ReminderResult<boolean>> {
+    try {
+      const supabase = createAdminClient();
+      const { count, error } = await supabase
+        .from(MOOD_ENTRIES_TABLE)
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .gte("recorded_at", range.from)
+        .lt("recorded_at", range.to);
+
+      if (error) {
+        return {
+          success: false,
+          error: createReminderError(
+            ReminderErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: (count ?? 0) > 0 };
+    } catch (error) {
+      console.error(
+        "Error en reminderSchedulerRepository.hasCheckedIn:",
+        error
+      );
+      return {
+        success: false,
+        error: createReminderError(ReminderErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Listar las suscripciones push de un usuario
+   */
+  async listPushSubscriptions(
+    userId: string
+  ): Promise<ReminderResult<PushSubscriptionData[]>> {
+    try {
+      const supabase = createAdminClient();
+      const { data: rows, error } = await supabase
+        .from(PUSH_SUBSCRIPTIONS_TABLE)
+        .select()
+        .eq("user_id", userId)
+        .overrideTypes<PushSubscriptionRow[], { merge: false }>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createReminderError(
+            ReminderErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return {
+        success: true,
+        data: (rows ?? []).map((row) => ({
+          endpoint: row.endpoint,
+          keys: { p256dh: row.p256dh, auth: row.auth },
+        })),
+      };
+    } catch (error) {
+      console.error(
+        "Error en reminderSchedulerRepository.listPushSubscriptions:",
+        error
+      );
+      return {
+        success: false,
+        error: createReminderError(ReminderErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Borrar una suscripción que el navegador revocó
+   */
+  async deletePushSubscription(endpoint: string): Promise<ReminderResult> {
+    try {
+      const supabase = createAdminClient();
+      const { error } = await supabase
+        .from(PUSH_SUBSCRIPTIONS_TABLE)
+        .delete()
+        .eq("endpoint", endpoint);
+
+      if (error) {
+        return {
+          success: false,
+          error: createReminderError(
+            ReminderErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error(
+        "Error en reminderSchedulerRepository.deletePushSubscription:",
+        error
+      );
+      return {
+        success: false,
+        error: createReminderError(ReminderErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Marcar que ya se procesó el recordatorio de un día local
+   */
+  async markProcessed(
+    userId: string,
+    dateKey: string
+  ): Promise<ReminderResult> {
+    try {
+      const supabase = createAdminClient();
+      const { error } = await supabase
+        .from(REMINDER_PREFERENCES_TABLE)
+        .update({ last_run_on: dateKey })
+        .eq("user_id", userId);
+
+      if (error) {
+        return {
+          success: false,
+          error: createReminderError(
+            ReminderErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error(
+        "Error en reminderSchedulerRepository.markProcessed:",
+        error
+      );
+      return {
+        success: false,
+        error: createReminderError(ReminderErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+};
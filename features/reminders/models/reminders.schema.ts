@@ -0,0 +1,96 @@
+import { z } from "zod";
+import type { MessageKey } from "@lib/i18n/translator";
+import { timezoneSchema } from "@features/home/models/home.schema";
+import { REMINDER_CHANNELS } from "./reminders.types";
+
+/**
+ * Claves de los mensajes de validación (ver lib/i18n/messages)
+ *
+ * Llegan a la interfaz como `details` del error y se traducen
+ * con getReminderErrorText.
+ */
+const VALIDATION_MESSAGES = {
+  days: {
+    required: "reminders.validation.days.required",
+  },
+  time: {
+    invalid: "reminders.validation.time.invalid",
+  },
+  channels: {
+    required: "reminders.validation.channels.required",
+  },
+  quietHours: {
+    incomplete: "reminders.validation.quietHours.incomplete",
+    same: "reminders.validation.quietHours.same",
+  },
+  subscription: {
+    invalid: "reminders.validation.subscription.invalid",
+  },
+} satisfies Record<string, Record<string, MessageKey>>;
+
+const clockSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, VALIDATION_MESSAGES.time.invalid);
+
+/**
+ * Schema de las preferencias de recordatorio
+ *
+ * Las horas de silencio son opcionales, pero si se indica una
+ * se debe indicar la otra.
+ */
+export const saveReminderPreferencesSchema = z
+  .object({
+    enabled: z.boolean(),
+    days: z
+      .array(z.number().int().min(0).max(6))
+      .min(1, VALIDATION_MESSAGES.days.required)
+      .transform((days) => Array.from(new Set(days)).sort()),
+    time: clockSchema,
+    timezone: timezoneSchema,
+    channels: z
+      .array(z.enum(REMINDER_CHANNELS))
+      .min(1, VALIDATION_MESSAGES.channels.required)
+      .transform((channels) => Array.from(new Set(channels))),
+    quietStart: clockSchema.optional(),
+    quietEnd: clockSchema.optional(),
+  })
+  .refine((data) => Boolean(data.quietStart) === Boolean(data.quietEnd), {
+    message: VALIDATION_MESSAGES.quietHours.incomplete,
+    path: ["quietEnd"],
+  })
+  .refine((data) => !data.quietStart || data.quietStart !== data.quietEnd, {
+    message: VALIDATION_MESSAGES.quietHours.same,
+    path: ["quietEnd"],
+  });
+
+/**
+ * Schema de una suscripción de web push (PushSubscription.toJSON())
+ */
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.url(VALIDATION_MESSAGES.subscription.invalid),
+  keys: z.object({
+    p256dh: z.string().min(1, VALIDATION_MESSAGES.subscription.invalid),
+    auth: z.string().min(1, VALIDATION_MESSAGES.subscription.invalid),
+  }),
+});
+
+/**
+ * Schema para quitar una suscripción
+ */
+export const removePushSubscriptionSchema = z.object({
+  endpoint: z.url(VALIDATION_MESSAGES.subscription.invalid),
+});
+
+/**
+ * Tipos TypeScript inferidos de los schemas
+ */
+export type SaveReminderPreferencesInput = z.input<
+  typeof saveReminderPreferencesSchema
+>;
+export type SaveReminderPreferencesData = z.output<
+  typeof saveReminderPreferencesSchema
+>;
+export type PushSubscriptionInput = z.infer<typeof pushSubscriptionSchema>;
+export type RemovePushSubscriptionInput = z.infer<
+  typeof removePushSubscriptionSchema
+>;
@@ -0,0 +1,221 @@
+import { siteConfig } from "@lib/config/site";
+import { DEFAULT_LOCALE, type Locale } from "@lib/i18n/config";
+import {
+  createTranslator,
+  translateText,
+  type I18n,
+  type MessageKey,
+} from "@lib/i18n/translator";
+
+/**
+ * Canales por los que se envía un recordatorio
+ */
+export const REMINDER_CHANNELS = ["email", "push"] as const;
+
+export type ReminderChannel = (typeof REMINDER_CHANNELS)[number];
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, MessageKey> = {
+  email: "reminders.channels.email",
+  push: "reminders.channels.push",
+};
+
+/**
+ * Días de la semana (0 = domingo), en el orden en que se muestran
+ */
+export const REMINDER_WEEK_DAYS = [1, 2, 3, 4, 5, 6, 0] as const;
+
+export const WEEK_DAY_LABELS: Record<number, MessageKey> = {
+  0: "reminders.days.sunday",
+  1: "reminders.days.monday",
+  2: "reminders.days.tuesday",
+  3: "reminders.days.wednesday",
+  4: "reminders.days.thursday",
+  5: "reminders.days.friday",
+  6: "reminders.days.saturday",
+};
+
+/**
+ * Preferencias de recordatorio de un usuario
+ *
+ * `time`, `quietStart` y `quietEnd` son horas locales HH:mm en `timezone`.
+ * Las horas de silencio pueden cruzar la medianoche (p. ej. 22:00–07:00).
+ */
+export interface ReminderPreferences {
+  userId: string;
+  enabled: boolean;
+  days: number[];
+  time: string;
+  timezone: string;
+  channels: ReminderChannel[];
+  quietStart?: string;
+  quietEnd?: string;
+  lastRunOn?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Fila de la tabla `reminder_preferences` tal como la devuelve Supabase
+ */
+export interface ReminderPreferencesRow {
+  user_id: string;
+  enabled: boolean;
+  days: number[];
+  remind_at: string;
+  timezone: string;
+  channels: ReminderChannel[];
+  quiet_start: string | null;
+  quiet_end: string | null;
+  last_run_on: string | null;
+  updated_at: string;
+}
+
+/**
+ * Fila de `reminder_preferences` con el perfil del usuario (para el cron)
+ */
+export interface ReminderRecipientRow extends ReminderPreferencesRow {
+  profiles: {
+    email: string;
+    full_name: string | null;
+    locale: Locale;
+  } | null;
+}
+
+/**
+ * Fila de la tabla `push_subscriptions`
+ */
+export interface PushSubscriptionRow {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+/**
+ * Preferencias por defecto para quien aún no las ha configurado
+ */
+export function getDefaultReminderPreferences(
+  userId: string,
+  timezone: string = siteConfig.timezone
+): ReminderPreferences {
+  return {
+    userId,
+    enabled: false,
+    days: [1, 2, 3, 4, 5],
+    time: "20:00",
+    timezone,
+    channels: ["email"],
+  };
+}
+
+/**
+ * Recorta "HH:mm:ss" de Postgres a "HH:mm"
+ */
+function toClock(value: string): string {
+  return value.slice(0, 5);
+}
+
+/**
+ * Convierte una fila de `reminder_preferences` a ReminderPreferences
+ */
+export function mapReminderPreferencesRow(
+  row: ReminderPreferencesRow
+): ReminderPreferences {
+  return {
+    userId: row.user_id,
+    enabled: row.enabled,
+    days: row.days,
+    time: toClock(row.remind_at),
+    timezone: row.timezone,
+    channels: row.channels,
+    quietStart: row.quiet_start ? toClock(row.quiet_start) : undefined,
+    quietEnd: row.quiet_end ? toClock(row.quiet_end) : undefined,
+    lastRunOn: row.last_run_on ?? undefined,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Resultado de una corrida del programador de recordatorios
+ */
+export interface ReminderRunSummary {
+  checked: number;
+  sent: number;
+  skippedCheckedIn: number;
+  skippedQuietHours: number;
+  // Sin canal disponible (p. ej. solo push y ninguna suscripción)
+  skippedNoChannel: number;
+  failed: number;
+}
+
+/**
+ * Resultado de operaciones de recordatorios
+ *
+ * Mismo patrón Result que AuthResult
+ */
+export type ReminderResult<T = void> =
+  | { success: true; data: T }
+  | { success: false; error: ReminderError };
+
+/**
+ * Tipos de errores de recordatorios
+ */
+export enum ReminderErrorType {
+  UNAUTHORIZED = "UNAUTHORIZED",
+  VALIDATION_ERROR = "VALIDATION_ERROR",
+  PUSH_NOT_CONFIGURED = "PUSH_NOT_CONFIGURED",
+  NOT_CONFIGURED = "NOT_CONFIGURED",
+  NETWORK_ERROR = "NETWORK_ERROR",
+  UNKNOWN_ERROR = "UNKNOWN_ERROR",
+}
+
+/**
+ * Error de recordatorios estructurado
+ */
+export interface ReminderError {
+  type: ReminderErrorType;
+  message: string;
+  details?: string;
+}
+
+/**
+ * Clave del mensaje de cada tipo de error (ver lib/i18n/messages)
+ */
+export function getReminderErrorMessageKey(
+  type: ReminderErrorType
+): MessageKey {
+  return `reminders.errors.${type}`;
+}
+
+const defaultT = createTranslator(DEFAULT_LOCALE);
+
+/**
+ * Helper para crear errores de recordatorios
+ *
+ * `message` queda en el idioma por defecto (para logs); la interfaz
+ * muestra el error con getReminderErrorText en el idioma del usuario.
+ */
+export function createReminderError(
+  type: ReminderErrorType,
+  details?: string
+): ReminderError {
+  return {
+    type,
+    message: defaultT(getReminderErrorMessageKey(type)),
+    details,
+  };
+}
+
+/**
+ * Texto a mostrar para un error de recordatorios
+ *
+ * Usa `details` si lo hay (p. ej. la clave del mensaje de validación).
+ */
+export function getReminderErrorText(
+  error: ReminderError,
+  { t }: I18n
+): string {
+  return error.details
+    ? translateText(t, error.details)
+    : t(getReminderErrorMessageKey(error.type));
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useI18n } from "@lib/i18n/client";
+import { acknowledgeSupportSignalsAction } from "../controllers/support.actions";
+import { getSupportErrorMessageKey } from "../models/support.types";
+
+/**
+ * Botón para quitar el aviso de apoyo de la parte superior
+ */
+export function AcknowledgeSupportButton() {
+  const { t } = useI18n();
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleClick = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await acknowledgeSupportSignalsAction();
+      if (!result.success) {
+        setError(t(getSupportErrorMessageKey(result.error.type)));
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={isPending}
+        className="self-start rounded-md border px-4 py-2 disabled:opacity-50"
+      >
+        {t("support.acknowledge")}
+      </button>
+      {error && (
+        <p className="text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import Link from "next/link";
+import { siteConfig } from "@lib/config/site";
+import { getI18n } from "@lib/i18n/server";
+
+type Props = {
+  urgent: boolean;
+};
+
+/**
+ * Aviso discreto en la parte superior de las páginas protegidas
+ *
+ * Aparece mientras haya señales de apoyo sin ver y lleva a /support.
+ * No menciona qué la activó.
+ */
+export async function SupportPromptBanner({ urgent }: Props) {
+  const { t } = await getI18n();
+
+  return (
+    <div
+      role="status"
+      className={`w-full border-b ${
+        urgent ? "border-amber-300 bg-amber-50" : "border-sky-200 bg-sky-50"
+      }`}
+    >
+      <div className="max-w-6xl mx-auto flex flex-wrap items-center justify-between gap-2 px-4 py-3 text-sm">
+        <p>{t("support.banner.text")}</p>
+        <Link
+          href={siteConfig.routes.support}
+          className="font-medium underline"
+        >
+          {t("support.banner.link")}
+        </Link>
+      </div>
+    </div>
+  );
+}
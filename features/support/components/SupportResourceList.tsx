@@ -0,0 +1,49 @@
+import { getI18n } from "@lib/i18n/server";
+import type { SupportResource } from "../models/support.types";
+
+type Props = {
+  resources: readonly SupportResource[];
+  // Muestra primero las líneas de atención inmediata
+  urgentFirst: boolean;
+};
+
+/**
+ * Lista de recursos de apoyo con su forma de contacto
+ */
+export async function SupportResourceList({ resources, urgentFirst }: Props) {
+  const { t } = await getI18n();
+  const sorted = urgentFirst
+    ? [...resources].sort((a, b) => Number(b.urgent) - Number(a.urgent))
+    : [...resources].sort((a, b) => Number(a.urgent) - Number(b.urgent));
+
+  return (
+    <ul className="flex flex-col gap-3">
+      {sorted.map((resource) => (
+        <li
+          key={resource.id}
+          className={`rounded-md border p-4 ${
+            urgentFirst && resource.urgent ? "border-amber-300 bg-amber-50" : ""
+          }`}
+        >
+          <p className="font-medium">{t(resource.name)}</p>
+          <p className="text-sm text-slate-600">{t(resource.description)}</p>
+          <p className="mt-2 text-sm">
+            {resource.href ? (
+              <a href={resource.href} className="font-medium underline">
+                {t(resource.contact)}
+              </a>
+            ) : (
+              <span className="font-medium">{t(resource.contact)}</span>
+            )}
+            {resource.availability && (
+              <span className="text-slate-600">
+                {" "}
+                · {t(resource.availability)}
+              </span>
+            )}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useI18n } from "@lib/i18n/client";
+import {
+  notifyTrustedContactAction,
+  removeTrustedContactAction,
+  saveTrustedContactAction,
+} from "../controllers/support.actions";
+import {
+  getSupportErrorMessageKey,
+  getSupportErrorText,
+  type TrustedContact,
+} from "../models/support.types";
+
+type Props = {
+  contact: TrustedContact | null;
+};
+
+const EMPTY_FORM = { name: "", email: "", autoNotify: false };
+
+/**
+ * Contacto de confianza: elegirlo, avisarle y quitarlo
+ *
+ * Nada se envía sin que el usuario lo pida: el botón "Avisarle ahora"
+ * o la casilla de aviso automático, que viene desactivada.
+ */
+export function TrustedContactPanel({ contact }: Props) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [saved, setSaved] = useState(contact);
+  const [editing, setEditing] = useState(!contact);
+  const [values, setValues] = useState(
+    contact
+      ? {
+          name: contact.name,
+          email: contact.email,
+          autoNotify: contact.autoNotify,
+        }
+      : EMPTY_FORM
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setStatus(null);
+    startTransition(async () => {
+      const result = await saveTrustedContactAction(values);
+      if (!result.success) {
+        setError(getSupportErrorText(result.error, i18n));
+        return;
+      }
+      setSaved(result.data);
+      setEditing(false);
+      setStatus(t("support.trustedContact.saved"));
+    });
+  };
+
+  const handleNotify = () => {
+    setError(null);
+    setStatus(null);
+    startTransition(async () => {
+      const result = await notifyTrustedContactAction();
+      if (result.success) {
+        setStatus(
+          t("support.trustedContact.notified", { name: saved?.name ?? "" })
+        );
+      } else {
+        setError(t(getSupportErrorMessageKey(result.error.type)));
+      }
+    });
+  };
+
+  const handleRemove = () => {
+    setError(null);
+    setStatus(null);
+    startTransition(async () => {
+      const result = await removeTrustedContactAction();
+      if (result.success) {
+        setSaved(null);
+        setValues(EMPTY_FORM);
+        setEditing(true);
+      } else {
+        setError(t(getSupportErrorMessageKey(result.error.type)));
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4 text-sm">
+      {saved && !editing ? (
+        <div className="flex flex-col gap-3">
+          <p>
+            <span className="font-medium">{saved.name}</span>{" "}
+            <span className="text-slate-600">({saved.email})</span>
+          </p>
+          <p className="text-slate-600">
+            {saved.autoNotify
+              ? t("support.trustedContact.autoNotifyOn")
+              : t("support.trustedContact.autoNotifyOff")}
+          </p>
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={handleNotify}
+              disabled={isPending}
+              className="rounded-md border px-4 py-2 disabled:opacity-50"
+            >
+              {t("support.trustedContact.notify")}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(true)}
+              disabled={isPending}
+              className="underline disabled:opacity-50"
+            >
+              {t("support.trustedContact.change")}
+            </button>
+            <button
+              type="button"
+              onClick={handleRemove}
+              disabled={isPending}
+              className="text-red-700 underline disabled:opacity-50"
+            >
+              {t("support.trustedContact.remove")}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+          <div className="flex flex-wrap gap-3">
+            <label className="flex flex-col">
+              {t("support.trustedContact.name")}
+              <input
+                type="text"
+                required
+                maxLength={80}
+                value={values.name}
+                onChange={(e) => setValues({ ...values, name: e.target.value })}
+                className="mt-1 rounded-md border px-3 py-2"
+              />
+            </label>
+            <label className="flex flex-col">
+              {t("support.trustedContact.email")}
+              <input
+                type="email"
+                required
+                value={values.email}
+                onChange={(e) =>
+                  setValues({ ...values, email: e.target.value })
+                }
+                className="mt-1 rounded-md border px-3 py-2"
+              />
+            </label>
+          </div>
+          <label className="flex items-start gap-2">
+            <input
+              type="checkbox"
+              checked={values.autoNotify}
+              onChange={(e) =>
+                setValues({ ...values, autoNotify: e.target.checked })
+              }
+              className="mt-1"
+            />
+            <span>
+              {t("support.trustedContact.autoNotify")}
+              <span className="block text-slate-600">
+                {t("support.trustedContact.autoNotifyHint")}
+              </span>
+            </span>
+          </label>
+          <div className="flex items-center gap-3">
+            <button
+              type="submit"
+              disabled={isPending}
+              className="rounded-md border px-4 py-2 disabled:opacity-50"
+            >
+              {t("support.trustedContact.save")}
+            </button>
+            {saved && (
+              <button
+                type="button"
+                onClick={() => setEditing(false)}
+                className="underline"
+              >
+                {t("support.trustedContact.cancel")}
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+      {status && (
+        <p className="text-green-700" role="status">
+          {status}
+        </p>
+      )}
+      {error && (
+        <p className="text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getCurrentUser } from "@lib/auth/session";
+import { siteConfig } from "@lib/config/site";
+import { supportRepository } from "../models/support.repository";
+import {
+  journalRuleIdsSchema,
+  trustedContactSchema,
+  type JournalRuleIdsInput,
+  type TrustedContactInput,
+} from "../models/support.schema";
+import {
+  SupportErrorType,
+  createSupportError,
+  type SupportResult,
+  type TrustedContact,
+} from "../models/support.types";
+import { supportService } from "./support.service";
+
+/**
+ * Server Actions de apoyo
+ *
+ * Mismo flujo que las demás acciones:
+ * sesión → validación con zod → supportService / supportRepository.
+ */
+
+/**
+ * Crear o reemplazar el contacto de confianza
+ */
+export async function saveTrustedContactAction(
+  input: TrustedContactInput
+): Promise<SupportResult<TrustedContact>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createSupportError(SupportErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = trustedContactSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createSupportError(
+        SupportErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await supportRepository.saveTrustedContact(
+    user.id,
+    parsed.data
+  );
+  if (result.success) {
+    revalidatePath(siteConfig.routes.support);
+  }
+
+  return result;
+}
+
+/**
+ * Quitar el contacto de confianza
+ */
+export async function removeTrustedContactAction(): Promise<SupportResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createSupportError(SupportErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const result = await supportRepository.removeTrustedContact(user.id);
+  if (result.success) {
+    revalidatePath(siteConfig.routes.support);
+  }
+
+  return result;
+}
+
+/**
+ * Escribir ahora al contacto de confianza (lo pide el usuario)
+ */
+export async function notifyTrustedContactAction(): Promise<SupportResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createSupportError(SupportErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const result = await supportService.notifyTrustedContact(user);
+  if (result.success) {
+    revalidatePath(siteConfig.routes.support);
+  }
+
+  return result;
+}
+
+/**
+ * Marcar como vistas las señales pendientes
+ *
+ * Quita el aviso de la parte superior de las páginas.
+ */
+export async function acknowledgeSupportSignalsAction(): Promise<SupportResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createSupportError(SupportErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const result = await supportRepository.acknowledgeAll(user.id);
+  if (result.success) {
+    revalidatePath("/", "layout");
+  }
+
+  return result;
+}
+
+/**
+ * Informar reglas de la bitácora que se activaron en el navegador
+ *
+ * Lo usa el editor con la bitácora cifrada: el texto nunca sale del
+ * navegador, solo los ids de las reglas.
+ */
+export async function reportJournalSupportSignalsAction(
+  input: JournalRuleIdsInput
+): Promise<SupportResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      success: false,
+      error: createSupportError(SupportErrorType.UNAUTHORIZED),
+    };
+  }
+
+  const parsed = journalRuleIdsSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createSupportError(
+        SupportErrorType.VALIDATION_ERROR,
+        parsed.error.issues[0]?.message
+      ),
+    };
+  }
+
+  const result = await supportService.recordJournalRules(
+    user,
+    parsed.data.ruleIds
+  );
+  if (!result.success) return result;
+
+  if (result.data.length > 0) {
+    revalidatePath("/", "layout");
+  }
+
+  return { success: true, data: undefined };
+}
@@ -0,0 +1,252 @@
+import { describe, expect, it } from "vitest";
+import { createTranslator, translateText } from "@lib/i18n/translator";
+import {
+  MOOD_SCALES,
+  normalizeScaleValue,
+  type MoodScaleId,
+} from "@features/home/models/mood.scales";
+import { SUPPORT_RULES } from "../models/support.rules";
+import type {
+  LowMoodStreakRule,
+  SupportContext,
+} from "../models/support.types";
+import {
+  containsPhrase,
+  evaluateLowMoodStreak,
+  evaluateSupportRules,
+  normalizeSupportText,
+} from "./support.engine";
+
+const NOW = new Date("2026-03-10T12:00:00.000Z");
+const HOUR_MS = 60 * 60 * 1000;
+
+const STREAK_RULE: LowMoodStreakRule = {
+  id: "test_streak",
+  kind: "low_mood_streak",
+  severity: "elevated",
+  maxScore: 0.15,
+  count: 3,
+  withinDays: 5,
+};
+
+/**
+ * Línea de tiempo de registros: cada punto es [horas atrás, puntaje],
+ * del más reciente al más antiguo, como los entrega el repositorio
+ */
+function timeline(points: [hoursAgo: number, moodScore: number][]) {
+  return points.map(([hoursAgo, moodScore]) => ({
+    moodScore,
+    recordedAt: new Date(NOW.getTime() - hoursAgo * HOUR_MS).toISOString(),
+  }));
+}
+
+function context(
+  recentMoods: SupportContext["recentMoods"],
+  journalText?: string
+): SupportContext {
+  return { now: NOW, recentMoods, journalText };
+}
+
+const t = createTranslator("es-CO");
+
+function scaleScore(scale: MoodScaleId, label: string): number {
+  const point = MOOD_SCALES[scale].points.find(
+    (p) => translateText(t, p.label) === label
+  );
+  if (!point) throw new Error(`No existe "${label}" en la escala ${scale}`);
+  return normalizeScaleValue(MOOD_SCALES[scale].points, point.value);
+}
+
+describe("evaluateLowMoodStreak", () => {
+  it("se activa con los últimos registros bajos dentro de la ventana", () => {
+    const moods = timeline([
+      [2, 0],
+      [26, 0.1],
+      [50, 0.15],
+    ]);
+
+    expect(evaluateLowMoodStreak(STREAK_RULE, context(moods))).toBe(true);
+  });
+
+  it("no se activa si un registro de la racha supera maxScore", () => {
+    const moods = timeline([
+      [2, 0],
+      [26, 0.5],
+      [50, 0],
+    ]);
+
+    expect(evaluateLowMoodStreak(STREAK_RULE, context(moods))).toBe(false);
+  });
+
+  it("no se activa con menos registros que `count`", () => {
+    const moods = timeline([
+      [2, 0],
+      [26, 0],
+    ]);
+
+    expect(evaluateLowMoodStreak(STREAK_RULE, context(moods))).toBe(false);
+  });
+
+  it("ignora los registros fuera de `withinDays`", () => {
+    const moods = timeline([
+      [2, 0],
+      [26, 0],
+      [6 * 24, 0],
+    ]);
+
+    expect(evaluateLowMoodStreak(STREAK_RULE, context(moods))).toBe(false);
+  });
+
+  it("solo mira los `count` registros más recientes", () => {
+    // Una mejora reciente corta la racha aunque antes hubiera varios bajos
+    const improved = timeline([
+      [1, 0.75],
+      [20, 0],
+      [40, 0],
+      [60, 0],
+    ]);
+    // Un registro alto más antiguo no impide la racha
+    const worsened = timeline([
+      [1, 0],
+      [20, 0],
+      [40, 0],
+      [60, 0.75],
+    ]);
+
+    expect(evaluateLowMoodStreak(STREAK_RULE, context(improved))).toBe(false);
+    expect(evaluateLowMoodStreak(STREAK_RULE, context(worsened))).toBe(true);
+  });
+
+  it("en la escala de emojis solo cuenta 'Fatal': 'Muy mal' queda en 0.167", () => {
+    const veryBad = scaleScore("emoji", "Muy mal");
+    const awful = scaleScore("emoji", "Fatal");
+
+    expect(veryBad).toBe(0.167);
+    expect(
+      evaluateLowMoodStreak(
+        STREAK_RULE,
+        context(
+          timeline([
+            [2, veryBad],
+            [26, veryBad],
+            [50, veryBad],
+          ])
+        )
+      )
+    ).toBe(false);
+    expect(
+      evaluateLowMoodStreak(
+        STREAK_RULE,
+        context(
+          timeline([
+            [2, awful],
+            [26, awful],
+            [50, awful],
+          ])
+        )
+      )
+    ).toBe(true);
+  });
+
+  it("en la escala 1-5 'Muy mal' sí cuenta", () => {
+    const veryBad = scaleScore("faces", "Muy mal");
+    const moods = timeline([
+      [2, veryBad],
+      [26, veryBad],
+      [50, veryBad],
+    ]);
+
+    expect(evaluateLowMoodStreak(STREAK_RULE, context(moods))).toBe(true);
+  });
+});
+
+describe("containsPhrase", () => {
+  const matches = (text: string, phrase: string) =>
+    containsPhrase(normalizeSupportText(text), phrase);
+
+  it("encuentra la frase sin importar tildes, mayúsculas ni espacios", () => {
+    expect(matches("Hoy NO  AGUANTO más.", "no aguanto mas")).toBe(true);
+    expect(matches("Quiero hacerme daño", "hacerme dano")).toBe(true);
+    expect(matches("suicidio", "suicidio")).toBe(true);
+  });
+
+  it("exige palabras completas", () => {
+    expect(matches("No quiero cortarmelo así", "cortarme")).toBe(false);
+    expect(matches("Leí sobre suicidiologia", "suicidio")).toBe(false);
+    expect(matches("no puedo masticar bien", "no puedo mas")).toBe(false);
+  });
+
+  it("no coincide con frases parecidas", () => {
+    expect(matches("quiero morder la manzana", "quiero morir")).toBe(false);
+    expect(matches("no aguanto menos", "no aguanto mas")).toBe(false);
+  });
+
+  it("trata los símbolos de la frase como texto literal", () => {
+    expect(matches("(a+b)", "a+b")).toBe(true);
+    expect(matches("aab", "a+b")).toBe(false);
+  });
+});
+
+describe("evaluateSupportRules", () => {
+  const lowStreak = timeline([
+    [2, 0],
+    [26, 0],
+    [50, 0],
+  ]);
+
+  it("no devuelve señales con registros estables y sin bitácora", () => {
+    const moods = timeline([
+      [2, 0.5],
+      [26, 0.75],
+      [50, 0.5],
+    ]);
+
+    expect(evaluateSupportRules(SUPPORT_RULES, context(moods))).toEqual([]);
+  });
+
+  it("devuelve la señal de racha con su gravedad y origen", () => {
+    expect(evaluateSupportRules(SUPPORT_RULES, context(lowStreak))).toEqual([
+      { ruleId: "low_mood_streak", severity: "elevated", source: "mood" },
+    ]);
+  });
+
+  it("activa la racha larga cuando se cumplen sus seis registros", () => {
+    const moods = timeline([
+      [2, 0],
+      [26, 0],
+      [50, 0],
+      [74, 0],
+      [98, 0],
+      [122, 0],
+    ]);
+
+    expect(
+      evaluateSupportRules(SUPPORT_RULES, context(moods)).map((s) => s.ruleId)
+    ).toEqual(["low_mood_streak", "sustained_low_mood"]);
+  });
+
+  it("solo evalúa frases si hay texto de bitácora", () => {
+    expect(
+      evaluateSupportRules(
+        SUPPORT_RULES,
+        context([], "Siento que soy una carga")
+      )
+    ).toEqual([
+      {
+        ruleId: "hopelessness_phrases",
+        severity: "elevated",
+        source: "journal",
+      },
+    ]);
+    expect(evaluateSupportRules(SUPPORT_RULES, context([]))).toEqual([]);
+  });
+
+  it("combina señales de ánimo y de bitácora", () => {
+    expect(
+      evaluateSupportRules(
+        SUPPORT_RULES,
+        context(lowStreak, "A veces pienso en quitarme la vida")
+      ).map((s) => s.ruleId)
+    ).toEqual(["low_mood_streak", "self_harm_phrases"]);
+  });
+});
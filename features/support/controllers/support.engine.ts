@@ -0,0 +1,120 @@
+import type {
+  JournalPhraseRule,
+  LowMoodStreakRule,
+  SupportContext,
+  SupportRule,
+  SupportRuleKind,
+  SupportSignal,
+  SupportSignalSource,
+} from "../models/support.types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Normaliza un texto para comparar frases: minúsculas, sin tildes y
+ * con un solo espacio entre palabras
+ *
+ * No depende de nada del servidor, así que también puede usarse en
+ * el navegador.
+ */
+export function normalizeSupportText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * ¿El texto (ya normalizado) contiene la frase como palabras completas?
+ *
+ * "cortarme" no debe coincidir con "cortarmelo" ni "suicidio" con
+ * "suicidiologia".
+ */
+export function containsPhrase(
+  normalizedText: string,
+  phrase: string
+): boolean {
+  const pattern = normalizeSupportText(phrase)
+    .split(" ")
+    .map(escapeRegExp)
+    .join("\\s+");
+  return new RegExp(`(^|[^a-z0-9])${pattern}($|[^a-z0-9])`).test(
+    normalizedText
+  );
+}
+
+/**
+ * ¿Los últimos `count` registros dentro de `withinDays` días están
+ * todos en o por debajo de `maxScore`?
+ *
+ * Espera `recentMoods` del más reciente al más antiguo.
+ */
+export function evaluateLowMoodStreak(
+  rule: LowMoodStreakRule,
+  context: SupportContext
+): boolean {
+  const since = context.now.getTime() - rule.withinDays * DAY_MS;
+  const latest = context.recentMoods
+    .filter((mood) => new Date(mood.recordedAt).getTime() >= since)
+    .slice(0, rule.count);
+
+  return (
+    latest.length === rule.count &&
+    latest.every((mood) => mood.moodScore <= rule.maxScore)
+  );
+}
+
+function evaluateJournalPhrase(
+  rule: JournalPhraseRule,
+  context: SupportContext
+): boolean {
+  if (!context.journalText) return false;
+  const text = normalizeSupportText(context.journalText);
+  return rule.phrases.some((phrase) => containsPhrase(text, phrase));
+}
+
+/**
+ * De dónde viene la señal de cada tipo de regla
+ */
+const RULE_SOURCES: Record<SupportRuleKind, SupportSignalSource> = {
+  low_mood_streak: "mood",
+  journal_phrase: "journal",
+};
+
+function matchesRule(rule: SupportRule, context: SupportContext): boolean {
+  switch (rule.kind) {
+    case "low_mood_streak":
+      return evaluateLowMoodStreak(rule, context);
+    case "journal_phrase":
+      return evaluateJournalPhrase(rule, context);
+  }
+}
+
+/**
+ * Evalúa las reglas de apoyo sobre un contexto
+ *
+ * Es una función pura: no guarda nada ni avisa a nadie. Quien la llama
+ * decide qué hacer con las señales.
+ *
+ * @param rules - Reglas a evaluar (normalmente SUPPORT_RULES)
+ * @param context - Registros recientes y, si aplica, el texto de la bitácora
+ * @returns Una señal por cada regla que se activó
+ */
+export function evaluateSupportRules(
+  rules: readonly SupportRule[],
+  context: SupportContext
+): SupportSignal[] {
+  return rules
+    .filter((rule) => matchesRule(rule, context))
+    .map((rule) => ({
+      ruleId: rule.id,
+      severity: rule.severity,
+      source: RULE_SOURCES[rule.kind],
+    }));
+}
@@ -0,0 +1,232 @@
+import { sendEmail } from "@lib/email/sender";
+import { getEmailErrorMessageKey } from "@lib/email/types";
+import { getLocale } from "@lib/i18n/server";
+import { trustedContactAlertEmail } from "@lib/email/templates/trusted-contact-alert";
+import type { User } from "@features/auth/models/auth.types";
+import { moodRepository } from "@features/home/models/mood.repository";
+import type { MoodEntry } from "@features/home/models/home.types";
+import { supportRepository } from "../models/support.repository";
+import { SUPPORT_RULES } from "../models/support.rules";
+import {
+  SUPPORT_SIGNAL_COOLDOWN_HOURS,
+  SupportErrorType,
+  createSupportError,
+  type LowMoodStreakRule,
+  type SupportResult,
+  type SupportSignal,
+} from "../models/support.types";
+import { evaluateSupportRules } from "./support.engine";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COOLDOWN_MS = SUPPORT_SIGNAL_COOLDOWN_HOURS * 60 * 60 * 1000;
+
+const MOOD_RULES = SUPPORT_RULES.filter(
+  (rule): rule is LowMoodStreakRule => rule.kind === "low_mood_streak"
+);
+const JOURNAL_RULES = SUPPORT_RULES.filter(
+  (rule) => rule.kind === "journal_phrase"
+);
+
+/**
+ * Guarda las señales que no se hayan guardado dentro del periodo de
+ * espera y, si alguna nueva es urgente y el usuario lo autorizó,
+ * avisa a su contacto de confianza
+ *
+ * @returns Las señales nuevas
+ */
+async function recordSignals(
+  user: User,
+  signals: SupportSignal[],
+  now: Date
+): Promise<SupportResult<SupportSignal[]>> {
+  if (signals.length === 0) return { success: true, data: [] };
+
+  const recent = await supportRepository.listRecentRuleIds(
+    user.id,
+    new Date(now.getTime() - COOLDOWN_MS).toISOString()
+  );
+  if (!recent.success) return recent;
+
+  const fresh = signals.filter((signal) => !recent.data.has(signal.ruleId));
+  if (fresh.length === 0) return { success: true, data: [] };
+
+  const saved = await supportRepository.recordSignals(user.id, fresh);
+  if (!saved.success) return saved;
+
+  if (fresh.some((signal) => signal.severity === "urgent")) {
+    const contact = await supportRepository.getTrustedContact(user.id);
+    if (contact.success && contact.data?.autoNotify) {
+      const notified = await supportService.notifyTrustedContact(user, now);
+      if (!notified.success) {
+        console.error(
+          "No se pudo avisar al contacto de confianza:",
+          notified.error.details ?? notified.error.message
+        );
+      }
+    }
+  }
+
+  return { success: true, data: fresh };
+}
+
+/**
+ * Servicio de Apoyo
+ *
+ * Reglas:
+ * - Las reglas se evalúan con support.engine.ts, que no guarda nada
+ * - Una misma regla se guarda como máximo una vez cada
+ *   SUPPORT_SIGNAL_COOLDOWN_HOURS horas
+ * - Al contacto de confianza solo se le escribe si el usuario lo pide
+ *   o si activó el aviso automático para señales urgentes, y nunca
+ *   más de una vez en ese mismo periodo
+ * - Un error aquí nunca impide guardar el registro o la entrada
+ */
+export const supportService = {
+  /**
+   * Evaluar las reglas de ánimo después de un registro nuevo
+   *
+   * Si el registro no es lo bastante bajo para ninguna regla no se
+   * consulta nada más.
+   *
+   * @param user - Usuario con sesión
+   * @param entry - Registro recién guardado
+   * @returns SupportResult con las señales nuevas
+   */
+  async checkMoodEntry(
+    user: User,
+    entry: MoodEntry,
+    now: Date = new Date()
+  ): Promise<SupportResult<SupportSignal[]>> {
+    const candidates = MOOD_RULES.filter(
+      (rule) => entry.moodScore <= rule.maxScore
+    );
+    if (candidates.length === 0) return { success: true, data: [] };
+
+    const days = Math.max(...candidates.map((rule) => rule.withinDays));
+    const moods = await moodRepository.listByRange(user.id, {
+      from: new Date(now.getTime() - days * DAY_MS).toISOString(),
+      to: new Date(now.getTime() + DAY_MS).toISOString(),
+    });
+    if (!moods.success) {
+      return {
+        success: false,
+        error: createSupportError(
+          SupportErrorType.UNKNOWN_ERROR,
+          moods.error.details ?? moods.error.message
+        ),
+      };
+    }
+
+    const signals = evaluateSupportRules(candidates, {
+      now,
+      recentMoods: moods.data,
+    });
+    return recordSignals(user, signals, now);
+  },
+
+  /**
+   * Evaluar las reglas de la bitácora sobre el texto de una entrada
+   *
+   * El texto solo se usa para evaluar: no se guarda en la señal.
+   *
+   * @param user - Usuario con sesión
+   * @param text - Título y cuerpo de la entrada
+   * @returns SupportResult con las señales nuevas
+   */
+  async checkJournalText(
+    user: User,
+    text: string,
+    now: Date = new Date()
+  ): Promise<SupportResult<SupportSignal[]>> {
+    const signals = evaluateSupportRules(JOURNAL_RULES, {
+      now,
+      recentMoods: [],
+      journalText: text,
+    });
+    return recordSignals(user, signals, now);
+  },
+
+  /**
+   * Guardar reglas de la bitácora evaluadas en el navegador
+   *
+   * Con la bitácora cifrada el servidor no puede leer el cuerpo, así
+   * que el editor evalúa las reglas con support.engine.ts y solo envía
+   * los ids de las que se activaron. Se ignoran ids desconocidos o de
+   * reglas que no son de la bitácora.
+   *
+   * @param user - Usuario con sesión
+   * @param ruleIds - Reglas que se activaron
+   * @returns SupportResult con las señales nuevas
+   */
+  async recordJournalRules(
+    user: User,
+    ruleIds: string[],
+    now: Date = new Date()
+  ): Promise<SupportResult<SupportSignal[]>> {
+    const signals = JOURNAL_RULES.filter((rule) =>
+      ruleIds.includes(rule.id)
+    ).map((rule) => ({
+      ruleId: rule.id,
+      severity: rule.severity,
+      source: "journal" as const,
+    }));
+    return recordSignals(user, signals, now);
+  },
+
+  /**
+   * Escribir al contacto de confianza del usuario
+   *
+   * El correo no explica el motivo ni incluye datos del usuario; las
+   * respuestas le llegan directamente al usuario. Sale en el idioma
+   * del usuario, porque el contacto no tiene cuenta.
+   *
+   * @param user - Usuario con sesión
+   * @returns SupportResult, NO_TRUSTED_CONTACT, RECENTLY_NOTIFIED o EMAIL_FAILED
+   */
+  async notifyTrustedContact(
+    user: User,
+    now: Date = new Date()
+  ): Promise<SupportResult> {
+    const contact = await supportRepository.getTrustedContact(user.id);
+    if (!contact.success) return contact;
+
+    if (!contact.data) {
+      return {
+        success: false,
+        error: createSupportError(SupportErrorType.NO_TRUSTED_CONTACT),
+      };
+    }
+
+    const { lastNotifiedAt } = contact.data;
+    if (
+      lastNotifiedAt &&
+      now.getTime() - new Date(lastNotifiedAt).getTime() < COOLDOWN_MS
+    ) {
+      return {
+        success: false,
+        error: createSupportError(SupportErrorType.RECENTLY_NOTIFIED),
+      };
+    }
+
+    const sent = await sendEmail(
+      contact.data.email,
+      trustedContactAlertEmail({
+        contactName: contact.data.name,
+        userName: user.fullName ?? user.email,
+        locale: await getLocale(),
+      }),
+      user.email
+    );
+    if (!sent.success) {
+      return {
+        success: false,
+        error: createSupportError(
+          SupportErrorType.EMAIL_FAILED,
+          sent.error.details ?? getEmailErrorMessageKey(sent.error.type)
+        ),
+      };
+    }
+
+    return supportRepository.markNotified(user.id, now.toISOString());
+  },
+};
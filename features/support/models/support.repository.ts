@@ -0,0 +1,330 @@
+import { createClient } from "@lib/supabase/server";
+import {
+  SupportResult,
+  SupportErrorType,
+  createSupportError,
+  mapSupportSignalRow,
+  mapTrustedContactRow,
+  type PendingSupportSignal,
+  type SupportSignal,
+  type SupportSignalRow,
+  type TrustedContact,
+  type TrustedContactRow,
+} from "./support.types";
+import type { TrustedContactData } from "./support.schema";
+
+const SUPPORT_SIGNALS_TABLE = "support_signals";
+const TRUSTED_CONTACTS_TABLE = "trusted_contacts";
+
+/**
+ * Repositorio de Apoyo
+ *
+ * Capa de acceso a datos para `support_signals` y `trusted_contacts`.
+ * De cada señal solo se guarda la regla, el origen y la hora.
+ */
+export const supportRepository = {
+  /**
+   * Señales que el usuario todavía no ha visto, la más reciente primero
+   *
+   * @param userId - Id del usuario
+   */
+  async listPending(
+    userId: string
+  ): Promise<SupportResult<PendingSupportSignal[]>> {
+    try {
+      const supabase = await createClient();
+      const { data: rows, error } = await supabase
+        .from(SUPPORT_SIGNALS_TABLE)
+        .select()
+        .eq("user_id", userId)
+        .is("acknowledged_at", null)
+        .order("detected_at", { ascending: false })
+        .overrideTypes<SupportSignalRow[], { merge: false }>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createSupportError(
+            SupportErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: (rows ?? []).map(mapSupportSignalRow) };
+    } catch (error) {
+      console.error("Error en supportRepository.listPending:", error);
+      return {
+        success: false,
+        error: createSupportError(SupportErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Ids de las reglas que ya generaron una señal desde `since`
+   *
+   * @param userId - Id del usuario
+   * @param since - Instante (ISO 8601) desde el que se cuenta
+   */
+  async listRecentRuleIds(
+    userId: string,
+    since: string
+  ): Promise<SupportResult<Set<string>>> {
+    try {
+      const supabase = await createClient();
+      const { data: rows, error } = await supabase
+        .from(SUPPORT_SIGNALS_TABLE)
+        .select("rule_id")
+        .eq("user_id", userId)
+        .gte("detected_at", since)
+        .overrideTypes<Pick<SupportSignalRow, "rule_id">[], { merge: false }>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createSupportError(
+            SupportErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return {
+        success: true,
+        data: new Set((rows ?? []).map((row) => row.rule_id)),
+      };
+    } catch (error) {
+      console.error("Error en supportRepository.listRecentRuleIds:", error);
+      return {
+        success: false,
+        error: createSupportError(SupportErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Guardar señales nuevas
+   *
+   * @param userId - Id del usuario
+   * @param signals - Señales a guardar (sin texto ni valores de ánimo)
+   */
+  async recordSignals(
+    userId: string,
+    signals: SupportSignal[]
+  ): Promise<SupportResult> {
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase.from(SUPPORT_SIGNALS_TABLE).insert(
+        signals.map((signal) => ({
+          user_id: userId,
+          rule_id: signal.ruleId,
+          source: signal.source,
+        }))
+      );
+
+      if (error) {
+        return {
+          success: false,
+          error: createSupportError(
+            SupportErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en supportRepository.recordSignals:", error);
+      return {
+        success: false,
+        error: createSupportError(SupportErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Marcar como vistas todas las señales pendientes
+   *
+   * @param userId - Id del usuario
+   */
+  async acknowledgeAll(userId: string): Promise<SupportResult> {
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase
+        .from(SUPPORT_SIGNALS_TABLE)
+        .update({ acknowledged_at: new Date().toISOString() })
+        .eq("user_id", userId)
+        .is("acknowledged_at", null);
+
+      if (error) {
+        return {
+          success: false,
+          error: createSupportError(
+            SupportErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en supportRepository.acknowledgeAll:", error);
+      return {
+        success: false,
+        error: createSupportError(SupportErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Obtener el contacto de confianza del usuario, si tiene uno
+   *
+   * @param userId - Id del usuario
+   * @returns SupportResult con el contacto o null
+   */
+  async getTrustedContact(
+    userId: string
+  ): Promise<SupportResult<TrustedContact | null>> {
+    try {
+      const supabase = await createClient();
+      const { data: row, error } = await supabase
+        .from(TRUSTED_CONTACTS_TABLE)
+        .select()
+        .eq("user_id", userId)
+        .maybeSingle<TrustedContactRow>();
+
+      if (error) {
+        return {
+          success: false,
+          error: createSupportError(
+            SupportErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: row ? mapTrustedContactRow(row) : null };
+    } catch (error) {
+      console.error("Error en supportRepository.getTrustedContact:", error);
+      return {
+        success: false,
+        error: createSupportError(SupportErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Crear o reemplazar el contacto de confianza
+   *
+   * @param userId - Id del usuario
+   * @param data - Datos ya validados con trustedContactSchema
+   */
+  async saveTrustedContact(
+    userId: string,
+    data: TrustedContactData
+  ): Promise<SupportResult<TrustedContact>> {
+    try {
+      const supabase = await createClient();
+      const { data: row, error } = await supabase
+        .from(TRUSTED_CONTACTS_TABLE)
+        .upsert({
+          user_id: userId,
+          name: data.name,
+          email: data.email,
+          auto_notify: data.autoNotify,
+          updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single<TrustedContactRow>();
+
+      if (error || !row) {
+        return {
+          success: false,
+          error: createSupportError(
+            SupportErrorType.UNKNOWN_ERROR,
+            error?.message
+          ),
+        };
+      }
+
+      return { success: true, data: mapTrustedContactRow(row) };
+    } catch (error) {
+      console.error("Error en supportRepository.saveTrustedContact:", error);
+      return {
+        success: false,
+        error: createSupportError(SupportErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Quitar el contacto de confianza
+   *
+   * @param userId - Id del usuario
+   */
+  async removeTrustedContact(userId: string): Promise<SupportResult> {
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase
+        .from(TRUSTED_CONTACTS_TABLE)
+        .delete()
+        .eq("user_id", userId);
+
+      if (error) {
+        return {
+          success: false,
+          error: createSupportError(
+            SupportErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en supportRepository.removeTrustedContact:", error);
+      return {
+        success: false,
+        error: createSupportError(SupportErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+
+  /**
+   * Registrar que se le escribió al contacto de confianza
+   *
+   * @param userId - Id del usuario
+   * @param notifiedAt - Instante (ISO 8601) del aviso
+   */
+  async markNotified(
+    userId: string,
+    notifiedAt: string
+  ): Promise<SupportResult> {
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase
+        .from(TRUSTED_CONTACTS_TABLE)
+        .update({ last_notified_at: notifiedAt })
+        .eq("user_id", userId);
+
+      if (error) {
+        return {
+          success: false,
+          error: createSupportError(
+            SupportErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error("Error en supportRepository.markNotified:", error);
+      return {
+        success: false,
+        error: createSupportError(SupportErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+};
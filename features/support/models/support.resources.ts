@@ -0,0 +1,37 @@
+import type { SupportResource } from "./support.types";
+
+/**
+ * Recursos de apoyo que se muestran en /support
+ *
+ * Antes de cada semestre conviene confirmar con Bienestar Universitario
+ * que los datos de contacto sigan vigentes.
+ */
+export const SUPPORT_RESOURCES: readonly SupportResource[] = [
+  {
+    id: "emergencias",
+    name: "support.resources.emergencies.name",
+    description: "support.resources.emergencies.description",
+    contact: "support.resources.emergencies.contact",
+    href: "tel:123",
+    availability: "support.resources.emergencies.availability",
+    urgent: true,
+  },
+  {
+    id: "minsalud",
+    name: "support.resources.minsalud.name",
+    description: "support.resources.minsalud.description",
+    contact: "support.resources.minsalud.contact",
+    href: "tel:192",
+    availability: "support.resources.minsalud.availability",
+    urgent: true,
+  },
+  {
+    id: "unicordoba-bienestar",
+    name: "support.resources.unicordobaBienestar.name",
+    description: "support.resources.unicordobaBienestar.description",
+    contact: "support.resources.unicordobaBienestar.contact",
+    href: "https://www.unicordoba.edu.co",
+    availability: "support.resources.unicordobaBienestar.availability",
+    urgent: false,
+  },
+];
@@ -0,0 +1,74 @@
+import type { SupportRule } from "./support.types";
+
+/**
+ * Reglas de señales de apoyo
+ *
+ * Son datos, no código: para ajustar umbrales o frases basta con
+ * editar esta lista (el motor está en support.engine.ts). Las reglas
+ * buscan ofrecer ayuda a tiempo, no diagnosticar; un falso positivo
+ * solo muestra recursos de apoyo.
+ *
+ * `maxScore` usa el ánimo normalizado (0-1): 0.15 corresponde a
+ * "Muy mal" en la escala 1-5 o a 1-2 en la escala 1-10.
+ */
+export const SUPPORT_RULES: readonly SupportRule[] = [
+  {
+    id: "low_mood_streak",
+    kind: "low_mood_streak",
+    severity: "elevated",
+    maxScore: 0.15,
+    count: 3,
+    withinDays: 5,
+  },
+  {
+    id: "sustained_low_mood",
+    kind: "low_mood_streak",
+    severity: "urgent",
+    maxScore: 0.15,
+    count: 6,
+    withinDays: 10,
+  },
+  {
+    id: "self_harm_phrases",
+    kind: "journal_phrase",
+    severity: "urgent",
+    phrases: [
+      "quiero morir",
+      "quiero morirme",
+      "me quiero morir",
+      "no quiero vivir",
+      "no quiero seguir viviendo",
+      "quitarme la vida",
+      "acabar con mi vida",
+      "suicidarme",
+      "suicidio",
+      "hacerme dano",
+      "lastimarme",
+      "cortarme",
+      "no vale la pena vivir",
+      "mejor no existir",
+      "desaparecer para siempre",
+    ],
+  },
+  {
+    id: "hopelessness_phrases",
+    kind: "journal_phrase",
+    severity: "elevated",
+    phrases: [
+      "no puedo mas",
+      "no aguanto mas",
+      "no le veo sentido a nada",
+      "nada tiene sentido",
+      "todo seria mejor sin mi",
+      "soy una carga",
+      "estoy sin salida",
+    ],
+  },
+];
+
+/**
+ * Busca una regla por id (las señales guardadas solo tienen el id)
+ */
+export function findSupportRule(ruleId: string): SupportRule | undefined {
+  return SUPPORT_RULES.find((rule) => rule.id === ruleId);
+}
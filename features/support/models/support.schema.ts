@@ -0,0 +1,60 @@
+import { z } from "zod";
+import type { MessageKey } from "@lib/i18n/translator";
+
+/**
+ * Claves de los mensajes de validación (ver lib/i18n/messages)
+ *
+ * Llegan a la interfaz como `details` del error y se traducen
+ * con getSupportErrorText.
+ */
+const VALIDATION_MESSAGES = {
+  name: {
+    required: "support.validation.name.required",
+    maxLength: "support.validation.name.maxLength",
+  },
+  email: {
+    required: "support.validation.email.required",
+    invalid: "support.validation.email.invalid",
+  },
+  ruleIds: {
+    invalid: "support.validation.ruleIds.invalid",
+  },
+} satisfies Record<string, Record<string, MessageKey>>;
+
+/**
+ * Schema del contacto de confianza
+ *
+ * El correo puede ser de cualquier dominio: el contacto no necesita
+ * una cuenta institucional.
+ */
+export const trustedContactSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, VALIDATION_MESSAGES.name.required)
+    .max(80, VALIDATION_MESSAGES.name.maxLength),
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .min(1, VALIDATION_MESSAGES.email.required)
+    .email(VALIDATION_MESSAGES.email.invalid),
+  autoNotify: z.boolean().default(false),
+});
+
+/**
+ * Schema de las reglas de la bitácora que se activaron en el navegador
+ */
+export const journalRuleIdsSchema = z.object({
+  ruleIds: z
+    .array(z.string().max(60, VALIDATION_MESSAGES.ruleIds.invalid))
+    .min(1, VALIDATION_MESSAGES.ruleIds.invalid)
+    .max(20, VALIDATION_MESSAGES.ruleIds.invalid),
+});
+
+/**
+ * Tipos TypeScript inferidos de los schemas
+ */
+export type TrustedContactInput = z.input<typeof trustedContactSchema>;
+export type TrustedContactData = z.output<typeof trustedContactSchema>;
+export type JournalRuleIdsInput = z.infer<typeof journalRuleIdsSchema>;
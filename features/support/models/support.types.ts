@@ -0,0 +1,239 @@
+import { DEFAULT_LOCALE } from "@lib/i18n/config";
+import {
+  createTranslator,
+  translateText,
+  type I18n,
+  type MessageKey,
+} from "@lib/i18n/translator";
+
+/**
+ * Gravedad de una señal
+ *
+ * - elevated: se sugieren los recursos de apoyo
+ * - urgent: además se destacan las líneas de atención inmediata y, si
+ *   el usuario lo activó, se avisa a su contacto de confianza
+ */
+export type SupportSeverity = "elevated" | "urgent";
+
+/**
+ * De dónde viene la información que activó una regla
+ */
+export type SupportSignalSource = "mood" | "journal";
+
+/**
+ * Regla: varios registros de ánimo muy bajo seguidos
+ *
+ * Se activa si los últimos `count` registros (dentro de `withinDays`
+ * días) tienen todos un ánimo normalizado menor o igual a `maxScore`.
+ */
+export interface LowMoodStreakRule {
+  id: string;
+  kind: "low_mood_streak";
+  severity: SupportSeverity;
+  maxScore: number;
+  count: number;
+  withinDays: number;
+}
+
+/**
+ * Regla: frases en la bitácora
+ *
+ * Las frases se comparan sin tildes ni mayúsculas y como palabras
+ * completas.
+ */
+export interface JournalPhraseRule {
+  id: string;
+  kind: "journal_phrase";
+  severity: SupportSeverity;
+  phrases: readonly string[];
+}
+
+export type SupportRule = LowMoodStreakRule | JournalPhraseRule;
+export type SupportRuleKind = SupportRule["kind"];
+
+/**
+ * Lo que necesita el motor para evaluar las reglas
+ *
+ * `recentMoods` van del más reciente al más antiguo. Las reglas de
+ * bitácora solo se evalúan si hay `journalText`.
+ */
+export interface SupportContext {
+  now: Date;
+  recentMoods: { moodScore: number; recordedAt: string }[];
+  journalText?: string;
+}
+
+/**
+ * Regla que se activó
+ */
+export interface SupportSignal {
+  ruleId: string;
+  severity: SupportSeverity;
+  source: SupportSignalSource;
+}
+
+/**
+ * Señal guardada que el usuario todavía no ha visto
+ *
+ * La gravedad no se guarda: se toma de la regla vigente.
+ */
+export interface PendingSupportSignal {
+  id: string;
+  ruleId: string;
+  source: SupportSignalSource;
+  detectedAt: string;
+}
+
+/**
+ * Fila de la tabla `support_signals` tal como la devuelve Supabase
+ */
+export interface SupportSignalRow {
+  id: string;
+  user_id: string;
+  rule_id: string;
+  source: SupportSignalSource;
+  detected_at: string;
+  acknowledged_at: string | null;
+}
+
+/**
+ * Recurso de apoyo que se muestra en /support
+ *
+ * Los textos son claves de los catálogos (ver lib/i18n/messages).
+ */
+export interface SupportResource {
+  id: string;
+  name: MessageKey;
+  description: MessageKey;
+  // Qué marcar o a dónde escribir, tal como se muestra
+  contact: MessageKey;
+  href?: string;
+  availability?: MessageKey;
+  // Se muestra primero cuando la señal es urgente
+  urgent: boolean;
+}
+
+/**
+ * Contacto de confianza del usuario
+ */
+export interface TrustedContact {
+  userId: string;
+  name: string;
+  email: string;
+  autoNotify: boolean;
+  lastNotifiedAt?: string;
+}
+
+/**
+ * Fila de la tabla `trusted_contacts` tal como la devuelve Supabase
+ */
+export interface TrustedContactRow {
+  user_id: string;
+  name: string;
+  email: string;
+  auto_notify: boolean;
+  last_notified_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Horas mínimas entre dos señales guardadas (y entre dos avisos al
+ * contacto de confianza), para no insistir con cada registro
+ */
+export const SUPPORT_SIGNAL_COOLDOWN_HOURS = 24;
+
+/**
+ * Resultado de operaciones de apoyo
+ *
+ * Mismo patrón Result que AuthResult
+ */
+export type SupportResult<T = void> =
+  | { success: true; data: T }
+  | { success: false; error: SupportError };
+
+/**
+ * Tipos de errores de apoyo
+ */
+export enum SupportErrorType {
+  UNAUTHORIZED = "UNAUTHORIZED",
+  VALIDATION_ERROR = "VALIDATION_ERROR",
+  NO_TRUSTED_CONTACT = "NO_TRUSTED_CONTACT",
+  RECENTLY_NOTIFIED = "RECENTLY_NOTIFIED",
+  EMAIL_FAILED = "EMAIL_FAILED",
+  NETWORK_ERROR = "NETWORK_ERROR",
+  UNKNOWN_ERROR = "UNKNOWN_ERROR",
+}
+
+/**
+ * Error de apoyo estructurado
+ */
+export interface SupportError {
+  type: SupportErrorType;
+  message: string;
+  details?: string;
+}
+
+/**
+ * Clave del mensaje de cada tipo de error (ver lib/i18n/messages)
+ */
+export function getSupportErrorMessageKey(type: SupportErrorType): MessageKey {
+  return `support.errors.${type}`;
+}
+
+const defaultT = createTranslator(DEFAULT_LOCALE);
+
+/**
+ * Helper para crear errores de apoyo
+ *
+ * `message` queda en el idioma por defecto (para logs); la interfaz
+ * muestra el error con getSupportErrorText en el idioma del usuario.
+ */
+export function createSupportError(
+  type: SupportErrorType,
+  details?: string
+): SupportError {
+  return {
+    type,
+    message: defaultT(getSupportErrorMessageKey(type)),
+    details,
+  };
+}
+
+/**
+ * Texto a mostrar para un error de apoyo
+ *
+ * Usa `details` si lo hay (p. ej. la clave del mensaje de validación).
+ */
+export function getSupportErrorText(error: SupportError, { t }: I18n): string {
+  return error.details
+    ? translateText(t, error.details)
+    : t(getSupportErrorMessageKey(error.type));
+}
+
+/**
+ * Convierte una fila de `support_signals` a PendingSupportSignal
+ */
+export function mapSupportSignalRow(
+  row: SupportSignalRow
+): PendingSupportSignal {
+  return {
+    id: row.id,
+    ruleId: row.rule_id,
+    source: row.source,
+    detectedAt: row.detected_at,
+  };
+}
+
+/**
+ * Convierte una fila de `trusted_contacts` a nuestro tipo TrustedContact
+ */
+export function mapTrustedContactRow(row: TrustedContactRow): TrustedContact {
+  return {
+    userId: row.user_id,
+    name: row.name,
+    email: row.email,
+    autoNotify: row.auto_notify,
+    lastNotifiedAt: row.last_notified_at ?? undefined,
+  };
+}
@@ -0,0 +1,79 @@
+import { getI18n } from "@lib/i18n/server";
+import type { TeamWellbeingWeek } from "../models/team.types";
+import { formatWeek } from "./TeamWellbeingChart";
+
+type Props = {
+  weeks: TeamWellbeingWeek[];
+  currentWeekStart: string;
+};
+
+/**
+ * Tabla semana a semana del tablero del equipo
+ *
+ * Alternativa accesible a la gráfica: muestra los mismos datos
+ * y las actividades de cada semana.
+ */
+export async function TeamWeekTable({ weeks, currentWeekStart }: Props) {
+  const { locale, t } = await getI18n();
+
+  return (
+    <section className="overflow-x-auto rounded-lg border bg-white">
+      <table className="w-full text-left text-sm">
+        <thead className="border-b bg-slate-50 text-slate-600">
+          <tr>
+            <th className="px-4 py-2 font-medium">{t("team.table.week")}</th>
+            <th className="px-4 py-2 font-medium">
+              {t("team.table.contributors")}
+            </th>
+            <th className="px-4 py-2 font-medium">
+              {t("team.table.averageMood")}
+            </th>
+            <th className="px-4 py-2 font-medium">
+              {t("team.table.lowMoodShare")}
+            </th>
+            <th className="px-4 py-2 font-medium">
+              {t("team.table.activities")}
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {[...weeks].reverse().map((week) => (
+            <tr
+              key={week.weekStart}
+              className={`border-b last:border-0 ${
+                week.weekStart === currentWeekStart ? "bg-slate-50" : ""
+              }`}
+            >
+              <td className="px-4 py-2 whitespace-nowrap">
+                {formatWeek(week.weekStart, locale)}
+                {week.weekStart === currentWeekStart && t("team.table.current")}
+              </td>
+              {week.suppressed ? (
+                <td colSpan={3} className="px-4 py-2 text-slate-500">
+                  {t("team.table.suppressed")}
+                </td>
+              ) : (
+                <>
+                  <td className="px-4 py-2">{week.contributors ?? "—"}</td>
+                  <td className="px-4 py-2">{week.averageMood ?? "—"}</td>
+                  <td className="px-4 py-2">
+                    {week.lowMoodShare === null
+                      ? "—"
+                      : t("team.table.percent", {
+                          value: Math.round(week.lowMoodShare * 100),
+                        })}
+                  </td>
+                </>
+              )}
+              <td className="px-4 py-2">
+                {week.activities.length > 0
+                  ? week.activities.map((activity) => activity.title).join(", ")
+                  : "—"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
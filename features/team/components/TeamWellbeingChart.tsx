@@ -0,0 +1,203 @@
+import { siteConfig } from "@lib/config/site";
+import type { Locale } from "@lib/i18n/config";
+import { getI18n } from "@lib/i18n/server";
+import type { TeamWellbeingWeek } from "../models/team.types";
+
+type Props = {
+  weeks: TeamWellbeingWeek[];
+  currentWeekStart: string;
+};
+
+const WIDTH = 720;
+const HEIGHT = 260;
+const PADDING = { top: 24, right: 16, bottom: 32, left: 32 };
+const MIN_MOOD = 1;
+const MAX_MOOD = 5;
+
+/**
+ * Etiqueta corta de una semana (día y mes del lunes)
+ */
+export function formatWeek(weekStart: string, locale: Locale) {
+  const [year, month, day] = weekStart.split("-").map(Number);
+  return new Intl.DateTimeFormat(locale, {
+    timeZone: "UTC",
+    day: "numeric",
+    month: "short",
+  }).format(new Date(Date.UTC(year, month - 1, day)));
+}
+
+/**
+ * Tendencia semanal del ánimo del equipo (SVG renderizado en el servidor)
+ *
+ * - La línea se corta en semanas sin datos o suprimidas por k-anonimato
+ * - Las semanas suprimidas se sombrean para que no parezcan vacías
+ * - Las actividades programadas se marcan con líneas punteadas
+ */
+export async function TeamWellbeingChart({ weeks, currentWeekStart }: Props) {
+  const { locale, t } = await getI18n();
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const step = weeks.length > 1 ? plotWidth / (weeks.length - 1) : 0;
+
+  const x = (index: number) => PADDING.left + index * step;
+  const y = (mood: number) =>
+    PADDING.top +
+    plotHeight -
+    ((mood - MIN_MOOD) / (MAX_MOOD - MIN_MOOD)) * plotHeight;
+
+  // Segmentos continuos (se cortan donde no hay datos)
+  const segments: string[] = [];
+  let current: string[] = [];
+  weeks.forEach((week, index) => {
+    if (week.averageMood === null) {
+      if (current.length > 0) segments.push(current.join(" "));
+      current = [];
+      return;
+    }
+    current.push(`${x(index)},${y(week.averageMood)}`);
+  });
+  if (current.length > 0) segments.push(current.join(" "));
+
+  return (
+    <section className="rounded-lg border bg-white p-6">
+      <h2 className="text-lg font-semibold">{t("team.chart.title")}</h2>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="mt-4 w-full"
+        role="img"
+        aria-label={t("team.chart.label")}
+      >
+        {[1, 2, 3, 4, 5].map((mood) => (
+          <g key={mood}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(mood)}
+              y2={y(mood)}
+              className="stroke-slate-200"
+            />
+            <text
+              x={PADDING.left - 8}
+              y={y(mood) + 4}
+              textAnchor="end"
+              className="fill-slate-500 text-[10px]"
+            >
+              {mood}
+            </text>
+          </g>
+        ))}
+
+        {weeks.map((week, index) =>
+          week.suppressed ? (
+            <rect
+              key={`suppressed-${week.weekStart}`}
+              x={x(index) - step / 2}
+              y={PADDING.top}
+              width={step}
+              height={plotHeight}
+              className="fill-slate-100"
+            >
+              <title>
+                {t("team.chart.suppressedWeek", {
+                  week: formatWeek(week.weekStart, locale),
+                })}
+              </title>
+            </rect>
+          ) : null
+        )}
+
+        {weeks.map((week, index) =>
+          week.activities.length > 0 ? (
+            <g key={`activities-${week.weekStart}`}>
+              <line
+                x1={x(index)}
+                x2={x(index)}
+                y1={PADDING.top}
+                y2={PADDING.top + plotHeight}
+                className="stroke-amber-500"
+                strokeDasharray="4 4"
+              />
+              <circle
+                cx={x(index)}
+                cy={PADDING.top - 8}
+                r={5}
+                className="fill-amber-500"
+              >
+                <title>
+                  {week.activities
+                    .map((activity) =>
+                      t("team.chart.activity", {
+                        date: new Date(activity.startsAt).toLocaleDateString(
+                          locale,
+                          { timeZone: siteConfig.timezone }
+                        ),
+                        title: activity.title,
+                      })
+                    )
+                    .join("\n")}
+                </title>
+              </circle>
+            </g>
+          ) : null
+        )}
+
+        {segments.map((segment) => (
+          <polyline
+            key={segment}
+            points={segment}
+            fill="none"
+            className="stroke-slate-900"
+            strokeWidth={2}
+          />
+        ))}
+
+        {weeks.map((week, index) => (
+          <g key={week.weekStart}>
+            {week.averageMood !== null && (
+              <circle
+                cx={x(index)}
+                cy={y(week.averageMood)}
+                r={4}
+                className="fill-slate-900"
+              >
+                <title>
+                  {t("team.chart.point", {
+                    week: formatWeek(week.weekStart, locale),
+                    average: week.averageMood,
+                    count: week.contributors ?? 0,
+                  })}
+                </title>
+              </circle>
+            )}
+            {index % 2 === 0 && (
+              <text
+                x={x(index)}
+                y={HEIGHT - 8}
+                textAnchor="middle"
+                className={`text-[10px] ${
+                  week.weekStart === currentWeekStart
+                    ? "fill-slate-900 font-semibold"
+                    : "fill-slate-500"
+                }`}
+              >
+                {formatWeek(week.weekStart, locale)}
+              </text>
+            )}
+          </g>
+        ))}
+      </svg>
+
+      <div className="mt-3 flex flex-wrap gap-4 text-xs text-slate-600">
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded-full bg-amber-500" />
+          {t("team.chart.legendActivity")}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 bg-slate-100 ring-1 ring-slate-200" />
+          {t("team.chart.legendSuppressed")}
+        </span>
+      </div>
+    </section>
+  );
+}
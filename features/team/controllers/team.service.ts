@@ -0,0 +1,97 @@
+import { siteConfig } from "@lib/config/site";
+import {
+  addDaysToDateKey,
+  getLocalDateKey,
+  getWeekStart,
+  getZonedDateRange,
+} from "@shared/utils/dates";
+import { activityRepository } from "@features/activities/models/activities.repository";
+import { teamRepository } from "../models/team.repository";
+import {
+  type TeamResult,
+  type TeamWellbeing,
+  type TeamWellbeingWeek,
+} from "../models/team.types";
+
+/**
+ * Semanas futuras que se muestran para ver las actividades que vienen
+ */
+const UPCOMING_WEEKS = 4;
+
+/**
+ * Servicio del tablero de bienestar del equipo
+ *
+ * Combina el agregado semanal (teamRepository) con las actividades
+ * programadas, para ver el ánimo del equipo alrededor de entregas y
+ * eventos. Las semanas usan la zona horaria del semillero, la misma
+ * que fija team_wellbeing_weekly en la base de datos.
+ */
+export const teamService = {
+  /**
+   * Tendencia semanal del equipo
+   *
+   * La semana en curso aparece (con sus actividades) pero sin agregado:
+   * mostrarla en vivo dejaría deducir el ánimo de quien acaba de
+   * registrarse.
+   *
+   * @param weeks - Semanas cerradas hacia atrás, sin contar la actual
+   * @param now - Momento de referencia (por defecto, ahora)
+   * @returns TeamResult con una entrada por semana, sin huecos
+   */
+  async getWellbeing(
+    weeks: number,
+    now: Date = new Date()
+  ): Promise<TeamResult<TeamWellbeing>> {
+    const timezone = siteConfig.timezone;
+    const currentWeekStart = getWeekStart(getLocalDateKey(now, timezone));
+    const firstWeek = addDaysToDateKey(currentWeekStart, -7 * weeks);
+    const lastWeek = addDaysToDateKey(currentWeekStart, 7 * UPCOMING_WEEKS);
+
+    const activityRange = getZonedDateRange(
+      firstWeek,
+      addDaysToDateKey(lastWeek, 6),
+      timezone
+    );
+
+    const [aggregate, activities] = await Promise.all([
+      teamRepository.getWeeklyWellbeing(weeks),
+      activityRepository.listScheduled(activityRange),
+    ]);
+
+    if (!aggregate.success) return aggregate;
+
+    const byWeek = new Map(
+      aggregate.data.map((week) => [week.weekStart, week])
+    );
+    const series: TeamWellbeingWeek[] = [];
+
+    for (
+      let weekStart = firstWeek;
+      weekStart <= lastWeek;
+      weekStart = addDaysToDateKey(weekStart, 7)
+    ) {
+      const week = byWeek.get(weekStart);
+      series.push({
+        weekStart,
+        suppressed: week?.suppressed ?? false,
+        contributors: week?.contributors ?? null,
+        entryCount: week?.entryCount ?? null,
+        averageMood: week?.averageMood ?? null,
+        lowMoodShare: week?.lowMoodShare ?? null,
+        // Si las actividades fallan se muestra la tendencia sin marcas
+        activities: (activities.success ? activities.data : [])
+          .filter(
+            (activity) =>
+              getWeekStart(getLocalDateKey(activity.startsAt, timezone)) ===
+              weekStart
+          )
+          .map(({ id, title, startsAt }) => ({ id, title, startsAt })),
+      });
+    }
+
+    return {
+      success: true,
+      data: { timezone, currentWeekStart, weeks: series },
+    };
+  },
+};
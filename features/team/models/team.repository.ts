@@ -0,0 +1,64 @@
+import { createClient } from "@lib/supabase/server";
+import {
+  TeamResult,
+  TeamErrorType,
+  createTeamError,
+  mapTeamWellbeingWeekRow,
+  type TeamWellbeingWeek,
+  type TeamWellbeingWeekRow,
+} from "./team.types";
+
+/**
+ * Código de Postgres para "permiso denegado"
+ */
+const INSUFFICIENT_PRIVILEGE = "42501";
+
+/**
+ * Repositorio del tablero del equipo
+ *
+ * Nunca lee registros individuales: todo pasa por la función
+ * `team_wellbeing_weekly`, que agrega, excluye a quienes no quieren
+ * participar y suprime las semanas con pocos integrantes. La función
+ * decide el rango, la zona horaria y el mínimo: aquí solo se elige
+ * cuántas semanas cerradas traer.
+ */
+export const teamRepository = {
+  /**
+   * Agregado semanal del ánimo del equipo
+   *
+   * @param weeks - Semanas cerradas antes de la actual (la semana en
+   *   curso nunca se incluye)
+   * @returns TeamResult con las semanas que tienen registros
+   */
+  async getWeeklyWellbeing(
+    weeks: number
+  ): Promise<TeamResult<Omit<TeamWellbeingWeek, "activities">[]>> {
+    try {
+      const supabase = await createClient();
+      const { data, error } = await supabase.rpc("team_wellbeing_weekly", {
+        p_weeks: weeks,
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: createTeamError(
+            error.code === INSUFFICIENT_PRIVILEGE
+              ? TeamErrorType.FORBIDDEN
+              : TeamErrorType.UNKNOWN_ERROR,
+            error.message
+          ),
+        };
+      }
+
+      const rows = (data ?? []) as TeamWellbeingWeekRow[];
+      return { success: true, data: rows.map(mapTeamWellbeingWeekRow) };
+    } catch (error) {
+      console.error("Error en teamRepository.getWeeklyWellbeing:", error);
+      return {
+        success: false,
+        error: createTeamError(TeamErrorType.NETWORK_ERROR),
+      };
+    }
+  },
+};
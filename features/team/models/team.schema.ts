@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { siteConfig } from "@lib/config/site";
+
+/**
+ * Semanas hacia atrás que se pueden consultar en el tablero
+ */
+export const TEAM_WEEK_OPTIONS = [8, 12, 26] as const;
+
+/**
+ * Schema de los parámetros de /team (vienen de searchParams)
+ *
+ * - weeks: semanas cerradas hacia atrás (sin contar la actual)
+ */
+export const teamWellbeingParamsSchema = z.object({
+  weeks: z.coerce
+    .number()
+    .pipe(z.union(TEAM_WEEK_OPTIONS.map((weeks) => z.literal(weeks))))
+    .catch(12),
+});
+
+export type TeamWellbeingParams = z.infer<typeof teamWellbeingParamsSchema>;
+
+/**
+ * Construye un enlace a /team con otra cantidad de semanas
+ */
+export function buildTeamHref(weeks: number): string {
+  return weeks === 12
+    ? siteConfig.routes.teamWellbeing
+    : `${siteConfig.routes.teamWellbeing}?weeks=${weeks}`;
+}
@@ -0,0 +1,139 @@
+import { DEFAULT_LOCALE } from "@lib/i18n/config";
+import { createTranslator, type MessageKey } from "@lib/i18n/translator";
+
+/**
+ * Mínimo de integrantes que deben aportar registros en una semana
+ * para mostrar su agregado (k-anonimato)
+ *
+ * La función team_wellbeing_weekly aplica este mismo mínimo en la
+ * base de datos; quien la llama no puede cambiarlo.
+ */
+export const TEAM_MIN_CONTRIBUTORS = 5;
+
+/**
+ * Promedio semanal por debajo del cual se considera que un integrante
+ * tuvo una semana de ánimo bajo
+ */
+export const LOW_MOOD_THRESHOLD = 2.5;
+
+/**
+ * Actividad planeada que se marca sobre la tendencia del equipo
+ */
+export interface TeamActivityMarker {
+  id: string;
+  title: string;
+  startsAt: string;
+}
+
+/**
+ * Agregado del equipo para una semana (lunes a domingo)
+ *
+ * Si `suppressed` es true, menos de TEAM_MIN_CONTRIBUTORS integrantes
+ * registraron su ánimo y no se muestra ningún dato de esa semana.
+ * Las semanas sin registros, la semana en curso y las futuras tienen
+ * todo en null.
+ */
+export interface TeamWellbeingWeek {
+  weekStart: string;
+  suppressed: boolean;
+  contributors: number | null;
+  entryCount: number | null;
+  averageMood: number | null;
+  lowMoodShare: number | null;
+  activities: TeamActivityMarker[];
+}
+
+/**
+ * Datos del tablero de bienestar del equipo
+ */
+export interface TeamWellbeing {
+  timezone: string;
+  currentWeekStart: string;
+  weeks: TeamWellbeingWeek[];
+}
+
+/**
+ * Fila que devuelve la función `team_wellbeing_weekly`
+ */
+export interface TeamWellbeingWeekRow {
+  week_start: string;
+  suppressed: boolean;
+  contributors: number | null;
+  entry_count: number | null;
+  average_mood: number | string | null;
+  low_mood_share: number | string | null;
+}
+
+/**
+ * Resultado de operaciones del tablero del equipo
+ *
+ * Mismo patrón Result que AuthResult
+ */
+export type TeamResult<T = void> =
+  | { success: true; data: T }
+  | { success: false; error: TeamError };
+
+/**
+ * Tipos de errores del tablero del equipo
+ */
+export enum TeamErrorType {
+  FORBIDDEN = "FORBIDDEN",
+  NETWORK_ERROR = "NETWORK_ERROR",
+  UNKNOWN_ERROR = "UNKNOWN_ERROR",
+}
+
+/**
+ * Error del tablero del equipo estructurado
+ */
+export interface TeamError {
+  type: TeamErrorType;
+  message: string;
+  details?: string;
+}
+
+/**
+ * Convierte una fila de `team_wellbeing_weekly` (sin actividades)
+ *
+ * Postgres devuelve `numeric` como string, por eso se convierten.
+ */
+export function mapTeamWellbeingWeekRow(
+  row: TeamWellbeingWeekRow
+): Omit<TeamWellbeingWeek, "activities"> {
+  const toNumber = (value: number | string | null) =>
+    value === null ? null : Number(value);
+
+  return {
+    weekStart: row.week_start,
+    suppressed: row.suppressed,
+    contributors: row.contributors,
+    entryCount: row.entry_count,
+    averageMood: toNumber(row.average_mood),
+    lowMoodShare: toNumber(row.low_mood_share),
+  };
+}
+
+/**
+ * Clave del mensaje de cada tipo de error (ver lib/i18n/messages)
+ */
+export function getTeamErrorMessageKey(type: TeamErrorType): MessageKey {
+  return `team.errors.${type}`;
+}
+
+const defaultT = createTranslator(DEFAULT_LOCALE);
+
+/**
+ * Helper para crear errores del tablero del equipo
+ *
+ * `message` queda en el idioma por defecto (para logs); la interfaz
+ * muestra el error con getTeamErrorMessageKey en el idioma del usuario.
+ */
+export function createTeamError(
+  type: TeamErrorType,
+  details?: string
+): TeamError {
+  return {
+    type,
+    message: defaultT(getTeamErrorMessageKey(type)),
+    details,
+  };
+}
@@ -0,0 +1,118 @@
+import { redirect } from "next/navigation";
+import { siteConfig } from "@lib/config/site";
+import type { User, UserRole } from "@features/auth/models/auth.types";
+import { hasPermission, type Permission } from "./permissions";
+import { getCurrentUser } from "./session";
+
+type RequireUserOptions = {
+  /**
+   * Ruta a la que volver después de iniciar sesión (parámetro `next=`)
+   */
+  next?: string;
+  /**
+   * Permite usuarios que aún no verificaron su correo
+   * (por defecto se redirigen a /verify)
+   */
+  allowUnverified?: boolean;
+};
+
+/**
+ * Guards de rutas para Server Components y Server Actions
+ *
+ * El middleware ya redirige en la navegación normal; estos guards
+ * son la segunda línea de defensa dentro de layouts, páginas y acciones.
+ *
+ * IMPORTANTE: `redirect()` lanza una excepción interna de Next.js,
+ * no envolver estas llamadas en try/catch.
+ */
+
+/**
+ * Exige un usuario autenticado y con correo verificado
+ *
+ * @returns El usuario actual (nunca null)
+ *
+ * Ejemplo de uso:
+ * ```typescript
+ * export default async function Page() {
+ *   const user = await requireUser()
+ *   return <p>Hola {user.fullName}</p>
+ * }
+ * ```
+ */
+export async function requireUser(
+  options: RequireUserOptions = {}
+): Promise<User> {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    const loginUrl = options.next
+      ? `${siteConfig.routes.login}?next=${encodeURIComponent(options.next)}`
+      : siteConfig.routes.login;
+    redirect(loginUrl);
+  }
+
+  if (!user.emailVerified && !options.allowUnverified) {
+    redirect(siteConfig.routes.verify);
+  }
+
+  return user;
+}
+
+/**
+ * Exige que NO haya sesión (páginas de login y registro)
+ *
+ * Si hay un usuario autenticado lo redirige a /home
+ */
+export async function requireGuest(): Promise<void> {
+  const user = await getCurrentUser();
+
+  if (user) {
+    redirect(siteConfig.routes.home);
+  }
+}
+
+/**
+ * Exige un usuario con alguno de los roles indicados
+ *
+ * Sin sesión redirige a login; con un rol insuficiente redirige a /home.
+ *
+ * @returns El usuario actual (nunca null)
+ *
+ * Ejemplo de uso:
+ * ```typescript
+ * const user = await requireRole(['coordinator', 'admin'])
+ * ```
+ */
+export async function requireRole(
+  roles: UserRole | readonly UserRole[],
+  options: RequireUserOptions = {}
+): Promise<User> {
+  const user = await requireUser(options);
+  const allowed = typeof roles === "string" ? [roles] : roles;
+
+  if (!allowed.includes(user.role)) {
+    redirect(siteConfig.routes.home);
+  }
+
+  return user;
+}
+
+/**
+ * Exige un usuario con un permiso de la matriz (ver lib/auth/permissions.ts)
+ *
+ * Preferible a requireRole cuando la página corresponde a una acción concreta.
+ *
+ * @returns El usuario actual (nunca null)
+ */
+export async function requirePermission(
+  permission: Permission,
+  options: RequireUserOptions = {}
+): Promise<User> {
+  const user = await requireUser(options);
+
+  if (!hasPermission(user, permission)) {
+    redirect(siteConfig.routes.home);
+  }
+
+  return user;
+}
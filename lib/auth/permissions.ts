@@ -0,0 +1,54 @@
+import type { User, UserRole } from "@features/auth/models/auth.types";
+
+/**
+ * Permisos de la aplicación
+ *
+ * Cada permiso describe una acción concreta; los roles se definen
+ * como conjuntos de permisos en ROLE_PERMISSIONS. Las Server Actions
+ * deben verificar permisos (no roles) para que agregar un rol nuevo
+ * solo requiera tocar la matriz.
+ */
+export const PERMISSIONS = [
+  // Editar o cancelar actividades creadas por otros
+  "activities:manage_any",
+  // Ver el tablero agregado de bienestar del equipo
+  "team:view_wellbeing",
+  // Ver el listado de integrantes con sus roles
+  "members:view",
+  // Promover y degradar integrantes
+  "members:manage_roles",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Matriz de permisos por rol
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  member: [],
+  coordinator: ["activities:manage_any", "team:view_wellbeing", "members:view"],
+  admin: [
+    "activities:manage_any",
+    "team:view_wellbeing",
+    "members:view",
+    "members:manage_roles",
+  ],
+};
+
+/**
+ * Verifica si un usuario (o un rol) tiene un permiso
+ *
+ * Ejemplo de uso:
+ * ```typescript
+ * if (!hasPermission(user, 'activities:manage_any')) {
+ *   return { success: false, error: ... }
+ * }
+ * ```
+ */
+export function hasPermission(
+  subject: Pick<User, "role"> | UserRole,
+  permission: Permission
+): boolean {
+  const role = typeof subject === "string" ? subject : subject.role;
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
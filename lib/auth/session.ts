@@ -0,0 +1,22 @@
+import { cache } from "react";
+import { authRepository } from "@features/auth/models/auth.repository";
+import type { User } from "@features/auth/models/auth.types";
+
+/**
+ * Helpers de sesión para Server Components y Server Actions
+ *
+ * `getCurrentUser` está envuelto en `cache` de React, así que durante
+ * un mismo request solo se consulta Supabase una vez aunque lo llamen
+ * el layout, la página y varios componentes.
+ *
+ * Ejemplo de uso:
+ * ```typescript
+ * const user = await getCurrentUser()
+ * if (!user) {
+ *   // no hay sesión
+ * }
+ * ```
+ */
+export const getCurrentUser = cache(async (): Promise<User | null> => {
+  return authRepository.getCurrentUser();
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { siteConfig } from "@lib/config/site";
+import { buildAuthCallbackUrl, getSafeRedirectPath } from "./utils";
+
+const HOME = siteConfig.routes.home;
+
+describe("getSafeRedirectPath", () => {
+  it("conserva rutas internas con query y hash", () => {
+    expect(getSafeRedirectPath("/journal")).toBe("/journal");
+    expect(getSafeRedirectPath("/history?from=2025-01-01#mes")).toBe(
+      "/history?from=2025-01-01#mes"
+    );
+  });
+
+  it("sin valor lleva a /home", () => {
+    expect(getSafeRedirectPath(undefined)).toBe(HOME);
+    expect(getSafeRedirectPath(null)).toBe(HOME);
+    expect(getSafeRedirectPath("")).toBe(HOME);
+  });
+
+  it("rechaza URLs absolutas", () => {
+    expect(getSafeRedirectPath("https://evil.com")).toBe(HOME);
+    expect(getSafeRedirectPath("http://evil.com/home")).toBe(HOME);
+    expect(getSafeRedirectPath("javascript:alert(1)")).toBe(HOME);
+    expect(getSafeRedirectPath(`${siteConfig.url}/journal`)).toBe(HOME);
+  });
+
+  it("rechaza rutas relativas al protocolo", () => {
+    expect(getSafeRedirectPath("//evil.com")).toBe(HOME);
+    expect(getSafeRedirectPath("//evil.com/home")).toBe(HOME);
+    expect(getSafeRedirectPath("///evil.com")).toBe(HOME);
+  });
+
+  it("rechaza barras invertidas", () => {
+    expect(getSafeRedirectPath("/\\evil.com")).toBe(HOME);
+    expect(getSafeRedirectPath("\\\\evil.com")).toBe(HOME);
+    expect(getSafeRedirectPath("/home\\..\\evil")).toBe(HOME);
+  });
+
+  it("rechaza caracteres de control", () => {
+    expect(getSafeRedirectPath("/\t/evil.com")).toBe(HOME);
+    expect(getSafeRedirectPath("/\n/evil.com")).toBe(HOME);
+    expect(getSafeRedirectPath("/\u0000/evil.com")).toBe(HOME);
+  });
+
+  it("las variantes codificadas quedan como rutas del mismo origen", () => {
+    expect(getSafeRedirectPath("%2F%2Fevil.com")).toBe(HOME);
+    expect(getSafeRedirectPath("/%2F%2Fevil.com")).toBe("/%2F%2Fevil.com");
+    expect(getSafeRedirectPath("/%5Cevil.com")).toBe("/%5Cevil.com");
+    expect(getSafeRedirectPath("/%09/evil.com")).toBe("/%09/evil.com");
+  });
+});
+
+describe("buildAuthCallbackUrl", () => {
+  it("usa la misma URL base que siteConfig", () => {
+    const url = new URL(buildAuthCallbackUrl("recovery", "//evil.com"));
+
+    expect(url.origin).toBe(new URL(siteConfig.url).origin);
+    expect(url.pathname).toBe(siteConfig.routes.authCallback);
+    expect(url.searchParams.get("flow")).toBe("recovery");
+    expect(url.searchParams.get("next")).toBe(HOME);
+  });
+});
@@ -0,0 +1,178 @@
+import { siteConfig } from "@lib/config/site";
+import type { AuthCallbackFlow } from "@features/auth/models/auth.types";
+
+/**
+ * Utilidades de autenticación compartidas entre cliente y servidor
+ */
+
+/**
+ * Normaliza un dominio a la forma "@dominio.tld" en minúsculas
+ */
+function normalizeDomain(domain: string): string {
+  const trimmed = domain.trim().toLowerCase();
+  return trimmed.startsWith("@") ? trimmed : `@${trimmed}`;
+}
+
+/**
+ * Convierte una lista separada por comas en un arreglo limpio
+ */
+function parseList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Lista de dominios y correos permitidos
+ *
+ * Parte de `siteConfig.auth` y se puede ampliar sin tocar código con:
+ * - NEXT_PUBLIC_ALLOWED_EMAIL_DOMAINS: dominios extra ("uni.edu.co,otra.edu")
+ * - NEXT_PUBLIC_ALLOWED_EMAILS: correos de colaboradores externos
+ *
+ * Las variables son públicas porque la misma validación corre
+ * en los formularios (cliente) y en los controllers (servidor).
+ */
+export function getEmailAllowlist(): { domains: string[]; emails: string[] } {
+  const domains = [
+    ...siteConfig.auth.allowedEmailDomains,
+    ...parseList(process.env.NEXT_PUBLIC_ALLOWED_EMAIL_DOMAINS),
+  ].map(normalizeDomain);
+
+  const emails = [
+    ...siteConfig.auth.allowedEmails,
+    ...parseList(process.env.NEXT_PUBLIC_ALLOWED_EMAILS),
+  ].map((email) => email.toLowerCase());
+
+  return {
+    domains: Array.from(new Set(domains)),
+    emails: Array.from(new Set(emails)),
+  };
+}
+
+/**
+ * Verifica si un correo puede registrarse o iniciar sesión
+ *
+ * Se permite si pertenece a un dominio de la lista
+ * o si está en la lista de excepciones por correo.
+ *
+ * @param email - Correo a verificar
+ * @returns true si el correo está permitido
+ */
+export function isAllowedEmail(email: string): boolean {
+  const normalized = email.trim().toLowerCase();
+  const { domains, emails } = getEmailAllowlist();
+
+  if (emails.includes(normalized)) {
+    return true;
+  }
+
+  const atIndex = normalized.lastIndexOf("@");
+  if (atIndex === -1) {
+    return false;
+  }
+
+  return domains.includes(normalized.slice(atIndex));
+}
+
+/**
+ * Rutas accesibles sin sesión
+ *
+ * Todo lo que no esté aquí (ni en GUEST_ONLY_ROUTES) se considera
+ * protegido y el middleware exige sesión para entrar.
+ */
+const PUBLIC_ROUTES: readonly string[] = [
+  "/",
+  siteConfig.routes.verify,
+  siteConfig.routes.forgotPassword,
+  siteConfig.routes.resetPassword,
+  siteConfig.routes.offline,
+  // El navegador pide el manifest sin cookies: sin esto no se puede instalar
+  "/manifest.webmanifest",
+];
+
+/**
+ * Prefijos públicos: los Route Handlers se autentican por su cuenta,
+ * las rutas /auth procesan enlaces de correo antes de haber sesión
+ * y /icon sirve los íconos de la PWA
+ */
+const PUBLIC_PREFIXES: readonly string[] = ["/api/", "/auth/", "/icon/"];
+
+/**
+ * Rutas solo para visitantes: un usuario con sesión es redirigido a /home
+ */
+const GUEST_ONLY_ROUTES: readonly string[] = [
+  siteConfig.routes.login,
+  siteConfig.routes.register,
+];
+
+/**
+ * Verifica si una ruta es solo para visitantes (login, register)
+ */
+export function isGuestOnlyRoute(pathname: string): boolean {
+  return GUEST_ONLY_ROUTES.includes(pathname);
+}
+
+/**
+ * Verifica si una ruta se puede visitar sin sesión
+ */
+export function isPublicRoute(pathname: string): boolean {
+  return (
+    PUBLIC_ROUTES.includes(pathname) ||
+    isGuestOnlyRoute(pathname) ||
+    PUBLIC_PREFIXES.some((prefix) => pathname.startsWith(prefix))
+  );
+}
+
+/**
+ * Caracteres que nunca van en un `next` válido: la barra invertida
+ * (los navegadores la leen como "/", así "/\evil.com" sería otro
+ * dominio) y los caracteres de control (se descartan al armar la URL)
+ */
+const UNSAFE_REDIRECT_CHARS = /[\\\u0000-\u001f\u007f]/;
+
+/**
+ * Devuelve una ruta interna segura para redirigir después del login
+ *
+ * Evita open redirects: `next` debe empezar por "/", no puede tener
+ * barras invertidas ni caracteres de control y, resuelto contra la URL
+ * de la app, debe quedar en el mismo origen. Se devuelve solo la ruta,
+ * la query y el hash de esa URL. Cualquier otro valor cae a /home.
+ *
+ * @param next - Valor del parámetro `next=` de la URL
+ */
+export function getSafeRedirectPath(next: string | null | undefined): string {
+  if (!next || !next.startsWith("/") || UNSAFE_REDIRECT_CHARS.test(next)) {
+    return siteConfig.routes.home;
+  }
+
+  try {
+    const base = new URL(siteConfig.url);
+    const url = new URL(next, base);
+    if (url.origin !== base.origin) {
+      return siteConfig.routes.home;
+    }
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return siteConfig.routes.home;
+  }
+}
+
+/**
+ * URL absoluta de /auth/callback para los enlaces que envía Supabase
+ *
+ * `flow` le dice al callback a dónde llevar al usuario después de
+ * canjear el código (Supabase solo agrega `?code=`).
+ *
+ * @param flow - Flujo que origina el correo
+ * @param next - Ruta interna a la que volver después (opcional)
+ */
+export function buildAuthCallbackUrl(
+  flow: AuthCallbackFlow,
+  next?: string
+): string {
+  const params = new URLSearchParams({ flow });
+  if (next) params.set("next", getSafeRedirectPath(next));
+  return `${siteConfig.url}${siteConfig.routes.authCallback}?${params}`;
+}
@@ -1,4 +1,10 @@
 import { z } from "zod";
+import { DEFAULT_LOCALE } from "@lib/i18n/config";
+import { createTranslator } from "@lib/i18n/translator";
+import { zodErrorMap } from "@lib/i18n/zod";
+
+// Se carga antes de cualquier request: los mensajes van en el idioma por defecto
+const t = createTranslator(DEFAULT_LOCALE);
 
 /**
  * Schema de validación para variables de entorno
@@ -16,21 +22,51 @@ const envSchema = z.object({
   // Variables públicas de Supabase (expuestas al cliente)
   NEXT_PUBLIC_SUPABASE_URL: z
     .string()
-    .url("NEXT_PUBLIC_SUPABASE_URL debe ser una URL válida")
-    .min(1, "NEXT_PUBLIC_SUPABASE_URL es requerida"),
+    .url(t("env.invalidUrl", { name: "NEXT_PUBLIC_SUPABASE_URL" }))
+    .min(1, t("env.required", { name: "NEXT_PUBLIC_SUPABASE_URL" })),
 
   NEXT_PUBLIC_SUPABASE_ANON_KEY: z
     .string()
-    .min(1, "NEXT_PUBLIC_SUPABASE_ANON_KEY es requerida"),
+    .min(1, t("env.required", { name: "NEXT_PUBLIC_SUPABASE_ANON_KEY" })),
 
   // URL de la aplicación (para redirects y emails)
   NEXT_PUBLIC_APP_URL: z
     .string()
-    .url("NEXT_PUBLIC_APP_URL debe ser una URL válida")
+    .url(t("env.invalidUrl", { name: "NEXT_PUBLIC_APP_URL" }))
     .default("http://localhost:3000"),
 
-  // Service Role Key (opcional por ahora, se usará para operaciones admin)
+  // Service Role Key (opcional, habilita operaciones admin en lib/supabase/admin.ts)
   SUPABASE_SERVICE_ROLE_KEY: z.string().optional(),
+
+  // Envío de correos (lib/email). En desarrollo se usa el outbox en archivos
+  EMAIL_TRANSPORT: z.enum(["smtp", "file", "memory"]).default("file"),
+  EMAIL_FROM: z
+    .string()
+    .min(1, t("env.required", { name: "EMAIL_FROM" }))
+    .default("HI - Mood Tracker <no-reply@unicordoba.edu.co>"),
+  EMAIL_OUTBOX_DIR: z.string().default(".outbox"),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().positive().default(587),
+  SMTP_SECURE: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+
+  // Secreto que debe enviar el cron al llamar a /api/cron/*
+  CRON_SECRET: z.string().optional(),
+
+  // Llaves VAPID para web push (genéralas con `npx web-push generate-vapid-keys`)
+  NEXT_PUBLIC_VAPID_PUBLIC_KEY: z.string().optional(),
+  VAPID_PRIVATE_KEY: z.string().optional(),
+  VAPID_SUBJECT: z.string().default("mailto:no-reply@unicordoba.edu.co"),
+
+  // Límite de intentos (lib/rate-limit). En producción con varias
+  // instancias usa "redis" con una API REST compatible (p. ej. Upstash)
+  RATE_LIMIT_STORE: z.enum(["memory", "redis"]).default("memory"),
+  RATE_LIMIT_REDIS_URL: z.string().url().optional(),
+  RATE_LIMIT_REDIS_TOKEN: z.string().optional(),
 });
 
 /**
@@ -42,24 +78,43 @@ const envSchema = z.object({
 function validateEnv() {
   try {
     // Parsear y validar
-    const parsed = envSchema.parse({
-      NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
-      NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
-      NEXT_PUBLIC_APP_URL: process.env.NEXT_PUBLIC_APP_URL,
-      SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
-    });
+    const parsed = envSchema.parse(
+      {
+        NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
+        NEXT_PUBLIC_SUPABASE_ANON_KEY:
+          process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+        NEXT_PUBLIC_APP_URL: process.env.NEXT_PUBLIC_APP_URL,
+        SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
+        EMAIL_TRANSPORT: process.env.EMAIL_TRANSPORT,
+        EMAIL_FROM: process.env.EMAIL_FROM,
+        EMAIL_OUTBOX_DIR: process.env.EMAIL_OUTBOX_DIR,
+        SMTP_HOST: process.env.SMTP_HOST,
+        SMTP_PORT: process.env.SMTP_PORT,
+        SMTP_SECURE: process.env.SMTP_SECURE,
+        SMTP_USER: process.env.SMTP_USER,
+        SMTP_PASSWORD: process.env.SMTP_PASSWORD,
+        CRON_SECRET: process.env.CRON_SECRET,
+        NEXT_PUBLIC_VAPID_PUBLIC_KEY: process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY,
+        VAPID_PRIVATE_KEY: process.env.VAPID_PRIVATE_KEY,
+        VAPID_SUBJECT: process.env.VAPID_SUBJECT,
+        RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE,
+        RATE_LIMIT_REDIS_URL: process.env.RATE_LIMIT_REDIS_URL,
+        RATE_LIMIT_REDIS_TOKEN: process.env.RATE_LIMIT_REDIS_TOKEN,
+      },
+      { error: zodErrorMap(DEFAULT_LOCALE) }
+    );
 
     return parsed;
   } catch (error) {
     if (error instanceof z.ZodError) {
-      console.error("❌ Error en las variables de entorno:");
+      console.error(t("env.invalidTitle"));
       error.issues.forEach((err) => {
         console.error(`  - ${err.path.join(".")}: ${err.message}`);
       });
-      console.error("\n💡 Verifica tu archivo .env.local\n");
+      console.error(`\n${t("env.hint")}\n`);
     }
 
-    throw new Error("Configuración de variables de entorno inválida");
+    throw new Error(t("env.invalidConfig"));
   }
 }
 
@@ -5,7 +5,10 @@ export const siteConfig = {
     "Aplicación del semillero HUELLAS INDUSTRIALES para registrar estados de ánimo, llevar una bitácora personal y planear actividades en equipo.",
   author: "Semillero Huellas Industriales - Universidad de Córdoba",
   locale: "es-CO",
-  url: process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000",
+  // Zona horaria por defecto cuando el usuario no tiene una configurada
+  timezone: "America/Bogota",
+  // URL pública de la app (la misma variable que valida lib/config/env.ts)
+  url: process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
 
   // Configuración de rutas principales (por convención)
   routes: {
@@ -14,11 +17,69 @@ export const siteConfig = {
     verify: "/verify",
     forgotPassword: "/forgot-password",
     resetPassword: "/reset-password",
+    authCallback: "/auth/callback",
+    offline: "/offline",
     home: "/home",
+    journal: "/journal",
+    activities: "/activities",
+    history: "/history",
+    importData: "/history/import",
+    reminderSettings: "/settings/reminders",
+    exportData: "/api/export",
+    adminMembers: "/admin/members",
+    teamWellbeing: "/team",
+    settings: "/settings",
+    deleteAccount: "/settings/delete-account",
+    journalEncryption: "/settings/journal-encryption",
+    support: "/support",
   },
 
   // Configuración del correo institucional
   emailDomain: "@unicordoba.edu.co",
+
+  // Restricción de acceso por correo (ver lib/auth/utils.ts)
+  auth: {
+    // Dominios permitidos para registrarse e iniciar sesión
+    allowedEmailDomains: ["@unicordoba.edu.co"] as readonly string[],
+    // Excepciones por correo (colaboradores externos al semillero)
+    allowedEmails: [] as readonly string[],
+    // Espera mínima entre dos envíos de código / enlace de acceso
+    otpResendCooldownSeconds: 60,
+    // Vigencia del código de 6 dígitos (debe coincidir con Supabase)
+    otpExpiresInMinutes: 60,
+    // Intentos permitidos por ventana, por IP y por correo (lib/rate-limit)
+    rateLimits: {
+      signIn: {
+        perIp: { limit: 30, windowSeconds: 15 * 60 },
+        perEmail: { limit: 10, windowSeconds: 15 * 60 },
+      },
+      signUp: {
+        perIp: { limit: 5, windowSeconds: 60 * 60 },
+        perEmail: { limit: 3, windowSeconds: 60 * 60 },
+      },
+      passwordReset: {
+        perIp: { limit: 10, windowSeconds: 60 * 60 },
+        perEmail: { limit: 3, windowSeconds: 60 * 60 },
+      },
+      signInCode: {
+        perIp: { limit: 10, windowSeconds: 60 * 60 },
+        perEmail: { limit: 5, windowSeconds: 60 * 60 },
+      },
+    },
+    // Bloqueo progresivo por correo tras contraseñas o códigos incorrectos:
+    // después de `freeAttempts` fallos, espera base × 2^(fallos extra)
+    lockout: {
+      freeAttempts: 5,
+      baseSeconds: 30,
+      maxSeconds: 60 * 60,
+      // Los fallos se olvidan tras este tiempo sin intentos
+      failureWindowSeconds: 24 * 60 * 60,
+    },
+  },
+  accountDeletion: {
+    // Días para arrepentirse antes de borrar la cuenta definitivamente
+    gracePeriodDays: 7,
+  },
 } as const;
 
 export type SiteConfig = typeof siteConfig;
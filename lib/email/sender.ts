@@ -0,0 +1,93 @@
+import { env } from "@lib/config/env";
+import { createFileOutbox, createMemoryOutbox } from "./transports/outbox";
+import { createSmtpSender } from "./transports/smtp";
+import {
+  EmailErrorType,
+  createEmailError,
+  type EmailResult,
+  type EmailSender,
+  type RenderedEmail,
+} from "./types";
+
+/**
+ * Envío de correos transaccionales
+ *
+ * El transporte se elige con EMAIL_TRANSPORT:
+ * - smtp: servidor SMTP (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD)
+ * - file: guarda los correos en EMAIL_OUTBOX_DIR (por defecto en desarrollo)
+ * - memory: los guarda en memoria (pruebas)
+ *
+ * Ejemplo de uso:
+ * ```typescript
+ * import { sendEmail } from '@lib/email/sender'
+ * import { resetPasswordEmail } from '@lib/email/templates/reset-password'
+ *
+ * await sendEmail(user.email, resetPasswordEmail({ fullName, resetUrl }))
+ * ```
+ */
+
+let sender: EmailSender | null = null;
+
+/**
+ * Crea el transporte configurado en las variables de entorno
+ */
+function createConfiguredSender(): EmailSender | null {
+  switch (env.EMAIL_TRANSPORT) {
+    case "smtp":
+      if (!env.SMTP_HOST) return null;
+      return createSmtpSender({
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE,
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+        from: env.EMAIL_FROM,
+      });
+    case "memory":
+      return createMemoryOutbox(env.EMAIL_FROM);
+    case "file":
+      return createFileOutbox(env.EMAIL_OUTBOX_DIR, env.EMAIL_FROM);
+  }
+}
+
+/**
+ * Transporte de correo de la app (se crea una sola vez)
+ */
+export function getEmailSender(): EmailSender | null {
+  sender ??= createConfiguredSender();
+  return sender;
+}
+
+/**
+ * Reemplaza el transporte (p. ej. por un outbox en memoria en pruebas)
+ */
+export function setEmailSender(next: EmailSender | null): void {
+  sender = next;
+}
+
+/**
+ * Envía un correo renderizado con una plantilla
+ *
+ * @param to - Destinatario
+ * @param email - Resultado de una plantilla de lib/email/templates
+ * @param replyTo - Dirección de respuesta opcional
+ * @returns EmailResult con el id del mensaje
+ */
+export async function sendEmail(
+  to: string,
+  email: RenderedEmail,
+  replyTo?: string
+): Promise<EmailResult<{ messageId: string }>> {
+  const transport = getEmailSender();
+  if (!transport) {
+    return {
+      success: false,
+      error: createEmailError(
+        EmailErrorType.NOT_CONFIGURED,
+        "Falta SMTP_HOST para EMAIL_TRANSPORT=smtp"
+      ),
+    };
+  }
+
+  return transport.send({ ...email, to, replyTo });
+}
@@ -0,0 +1,45 @@
+import { DEFAULT_LOCALE, type Locale } from "@lib/i18n/config";
+import { createTranslator } from "@lib/i18n/translator";
+import type { EmailTemplate } from "../types";
+import { greeting, paragraph, renderLayout, textFooter } from "./layout";
+
+export interface AccountDeletedEmailProps {
+  fullName?: string;
+  /** Idioma del destinatario */
+  locale?: Locale;
+}
+
+/**
+ * Confirmación de que la cuenta y sus datos ya se borraron
+ */
+export const accountDeletedEmail: EmailTemplate<AccountDeletedEmailProps> = ({
+  fullName,
+  locale = DEFAULT_LOCALE,
+}) => {
+  const t = createTranslator(locale);
+  const subject = t("email.accountDeleted.subject");
+  const intro = t("email.accountDeleted.intro");
+  const goodbye = t("email.accountDeleted.goodbye");
+
+  return {
+    subject,
+    html: renderLayout({
+      title: t("email.accountDeleted.title"),
+      preheader: intro,
+      locale,
+      content: [
+        paragraph(greeting(fullName, locale)),
+        paragraph(intro),
+        paragraph(goodbye),
+      ].join("\n"),
+    }),
+    text: [
+      greeting(fullName, locale),
+      "",
+      intro,
+      "",
+      goodbye,
+      textFooter(),
+    ].join("\n"),
+  };
+};
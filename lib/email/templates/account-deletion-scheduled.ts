@@ -0,0 +1,63 @@
+import { DEFAULT_LOCALE, type Locale } from "@lib/i18n/config";
+import { createTranslator } from "@lib/i18n/translator";
+import type { EmailTemplate } from "../types";
+import {
+  button,
+  greeting,
+  paragraph,
+  renderLayout,
+  textFooter,
+} from "./layout";
+
+export interface AccountDeletionScheduledEmailProps {
+  fullName?: string;
+  /** Fecha ya formateada (en `locale`) en que se borrará la cuenta */
+  scheduledFor: string;
+  cancelUrl: string;
+  locale?: Locale;
+}
+
+/**
+ * Aviso de que la cuenta se eliminará al terminar el periodo de gracia
+ */
+export const accountDeletionScheduledEmail: EmailTemplate<
+  AccountDeletionScheduledEmailProps
+> = ({ fullName, scheduledFor, cancelUrl, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
+  const subject = t("email.accountDeletionScheduled.subject", {
+    date: scheduledFor,
+  });
+  const intro = t("email.accountDeletionScheduled.intro", {
+    date: scheduledFor,
+  });
+  const cancel = t("email.accountDeletionScheduled.cancel");
+  const cancelButton = t("email.accountDeletionScheduled.cancelButton");
+  const notYou = t("email.accountDeletionScheduled.notYou");
+
+  return {
+    subject,
+    html: renderLayout({
+      title: t("email.accountDeletionScheduled.title"),
+      preheader: intro,
+      locale,
+      content: [
+        paragraph(greeting(fullName, locale)),
+        paragraph(intro),
+        paragraph(cancel),
+        button(cancelUrl, cancelButton),
+        paragraph(notYou),
+      ].join("\n"),
+    }),
+    text: [
+      greeting(fullName, locale),
+      "",
+      intro,
+      "",
+      cancel,
+      `${cancelButton}: ${cancelUrl}`,
+      "",
+      notYou,
+      textFooter(),
+    ].join("\n"),
+  };
+};
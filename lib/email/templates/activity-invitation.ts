@@ -0,0 +1,99 @@
+import { DEFAULT_LOCALE, type Locale } from "@lib/i18n/config";
+import { createTranslator } from "@lib/i18n/translator";
+import { formatDateTime } from "@shared/utils/formatters";
+import type { EmailTemplate } from "../types";
+import {
+  button,
+  escapeHtml,
+  greeting,
+  paragraph,
+  renderLayout,
+  textFooter,
+} from "./layout";
+
+export interface ActivityInvitationEmailProps {
+  fullName?: string;
+  inviterName: string;
+  activity: {
+    title: string;
+    description?: string;
+    location?: string;
+    startsAt: string;
+    endsAt?: string;
+  };
+  /** Zona horaria e idioma del destinatario */
+  timezone?: string;
+  locale?: Locale;
+  activityUrl: string;
+}
+
+/**
+ * Correo de invitación a una actividad del semillero
+ */
+export const activityInvitationEmail: EmailTemplate<
+  ActivityInvitationEmailProps
+> = ({
+  fullName,
+  inviterName,
+  activity,
+  timezone,
+  locale = DEFAULT_LOCALE,
+  activityUrl,
+}) => {
+  const t = createTranslator(locale);
+  const subject = t("email.activityInvitation.subject", {
+    inviter: inviterName,
+    title: activity.title,
+  });
+  const intro = t("email.activityInvitation.intro", { inviter: inviterName });
+  const when = activity.endsAt
+    ? `${formatDateTime(
+        activity.startsAt,
+        timezone,
+        locale
+      )} – ${formatDateTime(activity.endsAt, timezone, locale)}`
+    : formatDateTime(activity.startsAt, timezone, locale);
+  const respond = t("email.activityInvitation.respond");
+
+  const details: [string, string | undefined][] = [
+    [t("email.activityInvitation.activity"), activity.title],
+    [t("email.activityInvitation.when"), when],
+    [t("email.activityInvitation.where"), activity.location],
+    [t("email.activityInvitation.details"), activity.description],
+  ];
+  const visibleDetails = details.filter((detail): detail is [string, string] =>
+    Boolean(detail[1])
+  );
+
+  return {
+    subject,
+    html: renderLayout({
+      title: t("email.activityInvitation.title"),
+      preheader: `${activity.title} · ${when}`,
+      locale,
+      content: [
+        paragraph(greeting(fullName, locale)),
+        paragraph(intro),
+        `<table role="presentation" cellpadding="0" cellspacing="0" style="margin:0 0 16px;font-size:15px;color:#334155">${visibleDetails
+          .map(
+            ([label, value]) =>
+              `<tr><td style="padding:4px 16px 4px 0;font-weight:bold;vertical-align:top">${escapeHtml(
+                label
+              )}</td><td style="padding:4px 0">${escapeHtml(value)}</td></tr>`
+          )
+          .join("")}</table>`,
+        button(activityUrl, respond),
+      ].join("\n"),
+    }),
+    text: [
+      greeting(fullName, locale),
+      "",
+      intro,
+      "",
+      ...visibleDetails.map(([label, value]) => `${label}: ${value}`),
+      "",
+      `${respond}: ${activityUrl}`,
+      textFooter(),
+    ].join("\n"),
+  };
+};
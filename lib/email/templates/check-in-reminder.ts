@@ -0,0 +1,59 @@
+import { DEFAULT_LOCALE, type Locale } from "@lib/i18n/config";
+import { createTranslator } from "@lib/i18n/translator";
+import type { EmailTemplate } from "../types";
+import {
+  button,
+  greeting,
+  paragraph,
+  renderLayout,
+  textFooter,
+} from "./layout";
+
+export interface CheckInReminderEmailProps {
+  fullName?: string;
+  checkInUrl: string;
+  settingsUrl: string;
+  /** Idioma del destinatario */
+  locale?: Locale;
+}
+
+/**
+ * Recordatorio diario para registrar el ánimo
+ */
+export const checkInReminderEmail: EmailTemplate<CheckInReminderEmailProps> = ({
+  fullName,
+  checkInUrl,
+  settingsUrl,
+  locale = DEFAULT_LOCALE,
+}) => {
+  const t = createTranslator(locale);
+  const subject = t("email.checkInReminder.subject");
+  const intro = t("email.checkInReminder.intro");
+  const checkIn = t("email.checkInReminder.checkIn");
+  const settings = t("email.checkInReminder.settings", { url: settingsUrl });
+
+  return {
+    subject,
+    html: renderLayout({
+      title: subject,
+      preheader: intro,
+      locale,
+      content: [
+        paragraph(greeting(fullName, locale)),
+        paragraph(intro),
+        button(checkInUrl, checkIn),
+        paragraph(settings),
+      ].join("\n"),
+    }),
+    text: [
+      greeting(fullName, locale),
+      "",
+      intro,
+      "",
+      `${checkIn}: ${checkInUrl}`,
+      "",
+      settings,
+      textFooter(),
+    ].join("\n"),
+  };
+};
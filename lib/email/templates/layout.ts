@@ -0,0 +1,125 @@
+import { siteConfig } from "@lib/config/site";
+import { DEFAULT_LOCALE, type Locale } from "@lib/i18n/config";
+import { createTranslator } from "@lib/i18n/translator";
+
+/**
+ * Piezas comunes de las plantillas de correo
+ *
+ * Los correos usan tablas y estilos en línea porque muchos clientes
+ * (Outlook, Gmail) ignoran las hojas de estilo.
+ */
+
+const BRAND_COLOR = "#0f172a";
+
+/**
+ * Escapa texto para insertarlo en HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Saludo con el nombre si lo conocemos, en el idioma del destinatario
+ */
+export function greeting(
+  fullName?: string,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const t = createTranslator(locale);
+  return fullName
+    ? t("email.greetingNamed", { name: fullName })
+    : t("email.greeting");
+}
+
+/**
+ * Párrafo HTML (el texto se escapa)
+ */
+export function paragraph(text: string): string {
+  return `<p style="margin:0 0 16px;font-size:15px;line-height:1.5;color:#334155">${escapeHtml(
+    text
+  )}</p>`;
+}
+
+/**
+ * Botón de llamado a la acción
+ */
+export function button(url: string, label: string): string {
+  return `<p style="margin:24px 0"><a href="${escapeHtml(
+    url
+  )}" style="display:inline-block;padding:12px 20px;border-radius:6px;background:${BRAND_COLOR};color:#ffffff;font-size:15px;text-decoration:none">${escapeHtml(
+    label
+  )}</a></p>`;
+}
+
+/**
+ * Envuelve el contenido con el encabezado y pie de la marca
+ *
+ * @param title - Título visible dentro del correo
+ * @param content - HTML del cuerpo (ya escapado)
+ * @param preheader - Texto corto que algunos clientes muestran junto al asunto
+ * @param locale - Idioma del correo (atributo `lang`)
+ */
+export function renderLayout({
+  title,
+  content,
+  preheader,
+  locale = DEFAULT_LOCALE,
+}: {
+  title: string;
+  content: string;
+  preheader?: string;
+  locale?: Locale;
+}): string {
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f1f5f9;font-family:Arial,Helvetica,sans-serif">
+${
+  preheader
+    ? `<div style="display:none;max-height:0;overflow:hidden">${escapeHtml(
+        preheader
+      )}</div>`
+    : ""
+}
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f1f5f9;padding:24px 0">
+<tr><td align="center">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:8px">
+<tr><td style="padding:24px 32px;border-bottom:1px solid #e2e8f0">
+<img src="${escapeHtml(siteConfig.url)}/images/logo.png" alt="${escapeHtml(
+    siteConfig.name
+  )}" height="40" style="display:block;height:40px">
+</td></tr>
+<tr><td style="padding:32px">
+<h1 style="margin:0 0 24px;font-size:20px;color:${BRAND_COLOR}">${escapeHtml(
+    title
+  )}</h1>
+${content}
+</td></tr>
+<tr><td style="padding:16px 32px;border-top:1px solid #e2e8f0;font-size:12px;line-height:1.5;color:#64748b">
+${escapeHtml(siteConfig.name)} · ${escapeHtml(siteConfig.author)}<br>
+<a href="${escapeHtml(siteConfig.url)}" style="color:#64748b">${escapeHtml(
+    siteConfig.url
+  )}</a>
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+/**
+ * Pie de la versión en texto plano
+ */
+export function textFooter(): string {
+  return `\n--\n${siteConfig.name} · ${siteConfig.author}\n${siteConfig.url}\n`;
+}
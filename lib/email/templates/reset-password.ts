@@ -0,0 +1,65 @@
+import { DEFAULT_LOCALE, type Locale } from "@lib/i18n/config";
+import { createTranslator } from "@lib/i18n/translator";
+import type { EmailTemplate } from "../types";
+import {
+  button,
+  greeting,
+  paragraph,
+  renderLayout,
+  textFooter,
+} from "./layout";
+
+export interface ResetPasswordEmailProps {
+  fullName?: string;
+  resetUrl: string;
+  /** Minutos que dura el enlace (por defecto 60, como en Supabase) */
+  expiresInMinutes?: number;
+  /** Idioma del destinatario */
+  locale?: Locale;
+}
+
+/**
+ * Correo con el enlace para restablecer la contraseña
+ */
+export const resetPasswordEmail: EmailTemplate<ResetPasswordEmailProps> = ({
+  fullName,
+  resetUrl,
+  expiresInMinutes = 60,
+  locale = DEFAULT_LOCALE,
+}) => {
+  const t = createTranslator(locale);
+  const subject = t("email.resetPassword.subject");
+  const intro = t("email.resetPassword.intro");
+  const action = t("email.resetPassword.button");
+  const expiry = t("email.resetPassword.expiry", {
+    minutes: expiresInMinutes,
+  });
+  const ignore = t("email.resetPassword.ignore");
+
+  return {
+    subject,
+    html: renderLayout({
+      title: t("email.resetPassword.title"),
+      preheader: intro,
+      locale,
+      content: [
+        paragraph(greeting(fullName, locale)),
+        paragraph(intro),
+        button(resetUrl, action),
+        paragraph(expiry),
+        paragraph(ignore),
+      ].join("\n"),
+    }),
+    text: [
+      greeting(fullName, locale),
+      "",
+      intro,
+      "",
+      `${action}: ${resetUrl}`,
+      "",
+      expiry,
+      ignore,
+      textFooter(),
+    ].join("\n"),
+  };
+};
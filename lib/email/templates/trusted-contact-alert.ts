@@ -0,0 +1,53 @@
+import { DEFAULT_LOCALE, type Locale } from "@lib/i18n/config";
+import { createTranslator } from "@lib/i18n/translator";
+import type { EmailTemplate } from "../types";
+import { greeting, paragraph, renderLayout, textFooter } from "./layout";
+
+export interface TrustedContactAlertEmailProps {
+  contactName: string;
+  /** Nombre (o correo) de quien eligió al contacto */
+  userName: string;
+  /** Idioma del correo (el contacto no tiene cuenta: se usa el del usuario) */
+  locale?: Locale;
+}
+
+/**
+ * Aviso al contacto de confianza de un usuario
+ *
+ * No dice por qué se envía ni incluye datos de ánimo o de la
+ * bitácora: solo pide que se comunique con la persona.
+ */
+export const trustedContactAlertEmail: EmailTemplate<
+  TrustedContactAlertEmailProps
+> = ({ contactName, userName, locale = DEFAULT_LOCALE }) => {
+  const t = createTranslator(locale);
+  const subject = t("email.trustedContactAlert.subject", { name: userName });
+  const intro = t("email.trustedContactAlert.intro", { name: userName });
+  const reply = t("email.trustedContactAlert.reply");
+  const lines = t("email.trustedContactAlert.lines");
+
+  return {
+    subject,
+    html: renderLayout({
+      title: subject,
+      preheader: intro,
+      locale,
+      content: [
+        paragraph(greeting(contactName, locale)),
+        paragraph(intro),
+        paragraph(reply),
+        paragraph(lines),
+      ].join("\n"),
+    }),
+    text: [
+      greeting(contactName, locale),
+      "",
+      intro,
+      "",
+      reply,
+      "",
+      lines,
+      textFooter(),
+    ].join("\n"),
+  };
+};
@@ -0,0 +1,57 @@
+import { DEFAULT_LOCALE, type Locale } from "@lib/i18n/config";
+import { createTranslator } from "@lib/i18n/translator";
+import type { EmailTemplate } from "../types";
+import {
+  button,
+  greeting,
+  paragraph,
+  renderLayout,
+  textFooter,
+} from "./layout";
+
+export interface VerificationEmailProps {
+  fullName?: string;
+  confirmationUrl: string;
+  /** Idioma del destinatario */
+  locale?: Locale;
+}
+
+/**
+ * Correo para verificar la cuenta después del registro
+ */
+export const verificationEmail: EmailTemplate<VerificationEmailProps> = ({
+  fullName,
+  confirmationUrl,
+  locale = DEFAULT_LOCALE,
+}) => {
+  const t = createTranslator(locale);
+  const subject = t("email.verification.subject");
+  const intro = t("email.verification.intro");
+  const action = t("email.verification.button");
+  const ignore = t("email.verification.ignore");
+
+  return {
+    subject,
+    html: renderLayout({
+      title: t("email.verification.title"),
+      preheader: intro,
+      locale,
+      content: [
+        paragraph(greeting(fullName, locale)),
+        paragraph(intro),
+        button(confirmationUrl, action),
+        paragraph(ignore),
+      ].join("\n"),
+    }),
+    text: [
+      greeting(fullName, locale),
+      "",
+      intro,
+      "",
+      `${action}: ${confirmationUrl}`,
+      "",
+      ignore,
+      textFooter(),
+    ].join("\n"),
+  };
+};
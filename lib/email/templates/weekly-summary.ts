@@ -0,0 +1,131 @@
+import { DEFAULT_LOCALE, type Locale } from "@lib/i18n/config";
+import { createTranslator, type Translator } from "@lib/i18n/translator";
+import { formatDateKey, formatDateTime } from "@shared/utils/formatters";
+import type { EmailTemplate } from "../types";
+import {
+  button,
+  escapeHtml,
+  greeting,
+  paragraph,
+  renderLayout,
+  textFooter,
+} from "./layout";
+
+export interface WeeklySummaryEmailProps {
+  fullName?: string;
+  /** Lunes y domingo de la semana resumida (YYYY-MM-DD) */
+  weekStart: string;
+  weekEnd: string;
+  entryCount: number;
+  averageMood: number | null;
+  previousAverageMood: number | null;
+  topTags: string[];
+  upcomingActivities: { title: string; startsAt: string }[];
+  timezone?: string;
+  locale?: Locale;
+  historyUrl: string;
+}
+
+/**
+ * Frase que compara el promedio con el de la semana anterior
+ */
+function describeTrend(
+  averageMood: number | null,
+  previousAverageMood: number | null,
+  t: Translator
+): string | null {
+  if (averageMood === null || previousAverageMood === null) return null;
+  const difference = averageMood - previousAverageMood;
+  if (Math.abs(difference) < 0.25) return t("email.weeklySummary.trendSimilar");
+  return difference > 0
+    ? t("email.weeklySummary.trendUp")
+    : t("email.weeklySummary.trendDown");
+}
+
+/**
+ * Resumen semanal de ánimo y próximas actividades
+ */
+export const weeklySummaryEmail: EmailTemplate<WeeklySummaryEmailProps> = ({
+  fullName,
+  weekStart,
+  weekEnd,
+  entryCount,
+  averageMood,
+  previousAverageMood,
+  topTags,
+  upcomingActivities,
+  timezone,
+  locale = DEFAULT_LOCALE,
+  historyUrl,
+}) => {
+  const t = createTranslator(locale);
+  const subject = t("email.weeklySummary.subject");
+  const range = t("email.weeklySummary.range", {
+    from: formatDateKey(weekStart, locale),
+    to: formatDateKey(weekEnd, locale),
+  });
+  const moodLine =
+    entryCount === 0
+      ? t("email.weeklySummary.noEntries")
+      : t(
+          entryCount === 1
+            ? "email.weeklySummary.entriesOne"
+            : "email.weeklySummary.entriesOther",
+          { count: entryCount, average: averageMood?.toFixed(1) ?? "" }
+        );
+  const trend = describeTrend(averageMood, previousAverageMood, t);
+  const tagsLine =
+    topTags.length > 0
+      ? t("email.weeklySummary.topTags", { tags: topTags.join(", ") })
+      : null;
+  const activities = upcomingActivities.map(
+    (activity) =>
+      `${activity.title} — ${formatDateTime(
+        activity.startsAt,
+        timezone,
+        locale
+      )}`
+  );
+  const upcoming = t("email.weeklySummary.upcoming");
+  const viewHistory = t("email.weeklySummary.viewHistory");
+
+  const html = [
+    paragraph(greeting(fullName, locale)),
+    paragraph(range),
+    paragraph(moodLine),
+    trend ? paragraph(trend) : "",
+    tagsLine ? paragraph(tagsLine) : "",
+    activities.length > 0
+      ? `${paragraph(
+          upcoming
+        )}<ul style="margin:0 0 16px;padding-left:20px;font-size:15px;line-height:1.5;color:#334155">${activities
+          .map((activity) => `<li>${escapeHtml(activity)}</li>`)
+          .join("")}</ul>`
+      : "",
+    button(historyUrl, viewHistory),
+  ];
+
+  return {
+    subject,
+    html: renderLayout({
+      title: t("email.weeklySummary.title"),
+      preheader: moodLine,
+      locale,
+      content: html.filter(Boolean).join("\n"),
+    }),
+    text: [
+      greeting(fullName, locale),
+      "",
+      range,
+      moodLine,
+      ...(trend ? [trend] : []),
+      ...(tagsLine ? [tagsLine] : []),
+      ...(activities.length > 0
+        ? ["", upcoming, ...activities.map((a) => `- ${a}`)]
+        : []),
+      "",
+      `${viewHistory}: ${historyUrl}`,
+      textFooter(),
+    ].join("\n"),
+  };
+};
@@ -0,0 +1,96 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import {
+  EmailErrorType,
+  createEmailError,
+  type EmailMessage,
+  type EmailSender,
+} from "../types";
+
+/**
+ * Correo guardado en un outbox
+ */
+export interface OutboxEntry extends EmailMessage {
+  id: string;
+  from: string;
+  sentAt: string;
+}
+
+/**
+ * Outbox en memoria (pruebas y scripts)
+ *
+ * Los correos quedan en `messages` para inspeccionarlos.
+ */
+export interface MemoryOutbox extends EmailSender {
+  messages: OutboxEntry[];
+  clear(): void;
+}
+
+function toEntry(message: EmailMessage, from: string): OutboxEntry {
+  return {
+    ...message,
+    id: randomUUID(),
+    from,
+    sentAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Crea un outbox en memoria
+ */
+export function createMemoryOutbox(from: string): MemoryOutbox {
+  const outbox: MemoryOutbox = {
+    messages: [],
+    clear() {
+      outbox.messages.length = 0;
+    },
+    async send(message) {
+      const entry = toEntry(message, from);
+      outbox.messages.push(entry);
+      return { success: true, data: { messageId: entry.id } };
+    },
+  };
+  return outbox;
+}
+
+/**
+ * Crea un outbox que escribe cada correo en una carpeta (desarrollo)
+ *
+ * Por cada correo se guardan dos archivos: `<fecha>-<id>.json` con
+ * todos los datos y `<fecha>-<id>.html` para abrirlo en el navegador.
+ *
+ * @param directory - Carpeta del outbox (se crea si no existe)
+ * @param from - Remitente que se registra en cada correo
+ */
+export function createFileOutbox(directory: string, from: string): EmailSender {
+  return {
+    async send(message) {
+      try {
+        const entry = toEntry(message, from);
+        const baseName = `${entry.sentAt.replace(/[:.]/g, "-")}-${entry.id}`;
+
+        await mkdir(directory, { recursive: true });
+        await writeFile(
+          path.join(directory, `${baseName}.json`),
+          JSON.stringify(entry, null, 2)
+        );
+        await writeFile(path.join(directory, `${baseName}.html`), entry.html);
+
+        console.info(
+          `📧 Correo para ${entry.to} guardado en ${directory}/${baseName}.html`
+        );
+        return { success: true, data: { messageId: entry.id } };
+      } catch (error) {
+        console.error("Error en fileOutbox.send:", error);
+        return {
+          success: false,
+          error: createEmailError(
+            EmailErrorType.SEND_FAILED,
+            error instanceof Error ? error.message : undefined
+          ),
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import nodemailer from "nodemailer";
+import { EmailErrorType, createEmailError, type EmailSender } from "../types";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * Transporte SMTP (producción)
+ *
+ * Ejemplo de uso:
+ * ```typescript
+ * const sender = createSmtpSender({ host: 'smtp.office365.com', port: 587, ... })
+ * await sender.send({ to, subject, html, text })
+ * ```
+ */
+export function createSmtpSender(options: SmtpOptions): EmailSender {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user
+      ? { user: options.user, pass: options.password }
+      : undefined,
+  });
+
+  return {
+    async send(message) {
+      try {
+        const info = await transporter.sendMail({
+          from: options.from,
+          to: message.to,
+          replyTo: message.replyTo,
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+        });
+        return { success: true, data: { messageId: info.messageId } };
+      } catch (error) {
+        console.error("Error en smtpSender.send:", error);
+        return {
+          success: false,
+          error: createEmailError(
+            EmailErrorType.SEND_FAILED,
+            error instanceof Error ? error.message : undefined
+          ),
+        };
+      }
+    },
+  };
+}
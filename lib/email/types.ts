@@ -0,0 +1,88 @@
+import { DEFAULT_LOCALE } from "@lib/i18n/config";
+import { createTranslator, type MessageKey } from "@lib/i18n/translator";
+
+/**
+ * Correo listo para enviar
+ *
+ * Siempre lleva versión HTML y texto plano: algunos clientes
+ * (y los filtros de spam) castigan los correos solo HTML.
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  replyTo?: string;
+}
+
+/**
+ * Asunto y cuerpos generados por una plantilla
+ */
+export type RenderedEmail = Omit<EmailMessage, "to" | "replyTo">;
+
+/**
+ * Plantilla tipada: recibe sus datos y devuelve el correo renderizado
+ */
+export type EmailTemplate<Props> = (props: Props) => RenderedEmail;
+
+/**
+ * Resultado de enviar un correo
+ *
+ * Mismo patrón Result que AuthResult
+ */
+export type EmailResult<T = void> =
+  | { success: true; data: T }
+  | { success: false; error: EmailError };
+
+/**
+ * Tipos de errores del envío de correos
+ */
+export enum EmailErrorType {
+  NOT_CONFIGURED = "NOT_CONFIGURED",
+  SEND_FAILED = "SEND_FAILED",
+}
+
+/**
+ * Error de envío estructurado
+ */
+export interface EmailError {
+  type: EmailErrorType;
+  message: string;
+  details?: string;
+}
+
+/**
+ * Clave del mensaje de cada tipo de error (ver lib/i18n/messages)
+ */
+export function getEmailErrorMessageKey(type: EmailErrorType): MessageKey {
+  return `email.errors.${type}`;
+}
+
+const defaultT = createTranslator(DEFAULT_LOCALE);
+
+/**
+ * Helper para crear errores de envío
+ *
+ * `message` queda en el idioma por defecto (para logs); quien muestre
+ * el error al usuario usa getEmailErrorMessageKey.
+ */
+export function createEmailError(
+  type: EmailErrorType,
+  details?: string
+): EmailError {
+  return {
+    type,
+    message: defaultT(getEmailErrorMessageKey(type)),
+    details,
+  };
+}
+
+/**
+ * Transporte de correo
+ *
+ * Cualquier implementación (SMTP, outbox en archivos o en memoria)
+ * cumple esta interfaz, así el resto de la app no sabe cómo se envía.
+ */
+export interface EmailSender {
+  send(message: EmailMessage): Promise<EmailResult<{ messageId: string }>>;
+}
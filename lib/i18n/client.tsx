@@ -0,0 +1,29 @@
+"use client";
+
+import { createContext, useContext, useMemo, type ReactNode } from "react";
+import { DEFAULT_LOCALE, type Locale } from "./config";
+import { createI18n, type I18n } from "./translator";
+
+const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE));
+
+type Props = {
+  locale: Locale;
+  children: ReactNode;
+};
+
+/**
+ * Comparte con los Client Components el idioma que eligió el servidor
+ *
+ * Se monta una sola vez en app/layout.tsx.
+ */
+export function I18nProvider({ locale, children }: Props) {
+  const value = useMemo(() => createI18n(locale), [locale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+/**
+ * Idioma y traductor en un Client Component
+ */
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,94 @@
+import { siteConfig } from "@lib/config/site";
+
+/**
+ * Idiomas de la interfaz
+ *
+ * El primero del catálogo (es-CO) es el idioma por defecto: se usa
+ * cuando nada indica otro y para completar mensajes que falten.
+ */
+export const LOCALES = ["es-CO", "en"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = siteConfig.locale;
+
+/**
+ * Nombre de cada idioma en ese mismo idioma (para el selector)
+ */
+export const LOCALE_LABELS: Record<Locale, string> = {
+  "es-CO": "Español (Colombia)",
+  en: "English",
+};
+
+/**
+ * Cookie con el idioma negociado por el middleware
+ */
+export const LOCALE_COOKIE = "hi_mt_locale";
+export const LOCALE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/**
+ * Idioma soportado que corresponde a una etiqueta BCP 47
+ *
+ * Primero busca la etiqueta exacta y luego solo el idioma base,
+ * así "es-MX" y "es" caen en es-CO y "en-US" en en.
+ *
+ * @returns El idioma, o null si ninguno corresponde
+ */
+export function matchLocale(tag: string): Locale | null {
+  const normalized = tag.trim().toLowerCase();
+  const exact = LOCALES.find((locale) => locale.toLowerCase() === normalized);
+  if (exact) return exact;
+
+  const language = normalized.split("-")[0];
+  return LOCALES.find((locale) => locale.split("-")[0] === language) ?? null;
+}
+
+/**
+ * Etiquetas de un encabezado Accept-Language, de mayor a menor preferencia
+ *
+ * @example "en-US,en;q=0.9,es;q=0.8" → ["en-US", "en", "es"]
+ */
+export function parseAcceptLanguage(header: string | null): string[] {
+  if (!header) return [];
+
+  return header
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const quality = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith("q="));
+      return { tag, q: quality ? Number(quality.slice(2)) : 1 };
+    })
+    .filter(({ tag, q }) => tag && tag !== "*" && q > 0)
+    .sort((a, b) => b.q - a.q)
+    .map(({ tag }) => tag);
+}
+
+/**
+ * Elige el idioma de la interfaz
+ *
+ * Orden de prioridad:
+ * 1. El idioma del perfil (si hay sesión)
+ * 2. La cookie LOCALE_COOKIE
+ * 3. El encabezado Accept-Language del navegador
+ * 4. DEFAULT_LOCALE
+ */
+export function negotiateLocale(sources: {
+  profile?: string | null;
+  cookie?: string | null;
+  acceptLanguage?: string | null;
+}): Locale {
+  if (isLocale(sources.profile)) return sources.profile;
+  if (isLocale(sources.cookie)) return sources.cookie;
+
+  for (const tag of parseAcceptLanguage(sources.acceptLanguage ?? null)) {
+    const locale = matchLocale(tag);
+    if (locale) return locale;
+  }
+
+  return DEFAULT_LOCALE;
+}
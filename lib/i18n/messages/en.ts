@@ -0,0 +1,1265 @@
+import { siteConfig } from "@lib/config/site";
+import type { Messages } from "./es-CO";
+
+/**
+ * Catálogo de mensajes en inglés
+ */
+export const en: Messages = {
+  auth: {
+    validation: {
+      email: {
+        required: "Email is required",
+        invalid: "Email is not valid",
+        domain: `Use your institutional email (${siteConfig.emailDomain})`,
+        sameAsCurrent: "That is already your current email",
+      },
+      password: {
+        required: "Password is required",
+        minLength: "Password must be at least 8 characters long",
+        pattern:
+          "Password must contain at least one uppercase letter, one lowercase letter and one number",
+      },
+      fullName: {
+        required: "Full name is required",
+        minLength: "Name must be at least 3 characters long",
+      },
+      confirmPassword: {
+        required: "Please confirm your password",
+        noMatch: "Passwords do not match",
+      },
+      currentPassword: {
+        required: "Enter your current password",
+        sameAsNew: "The new password must be different from the current one",
+        incorrect: "Your current password is not correct",
+      },
+      otp: {
+        invalid: "The code must have 6 digits",
+      },
+      tokenHash: {
+        invalid: "The sign-in link is not valid",
+      },
+    },
+    errors: {
+      INVALID_CREDENTIALS: "Incorrect email or password",
+      USER_ALREADY_EXISTS: "An account with this email already exists",
+      EMAIL_NOT_VERIFIED: "Please verify your email",
+      WEAK_PASSWORD: "The password is too weak",
+      NETWORK_ERROR: "Connection error. Check your internet",
+      UNKNOWN_ERROR: "An unexpected error occurred",
+      SESSION_EXPIRED: "Your session has expired. Please sign in again",
+      INVALID_TOKEN: "The link is invalid or has expired. Request a new one",
+      EMAIL_DOMAIN_NOT_ALLOWED: `Only institutional emails are allowed (${siteConfig.emailDomain})`,
+      OTP_INVALID: "The code is not correct. Check it and try again",
+      OTP_EXPIRED: "The code or link has expired. Request a new one to sign in",
+      OTP_ALREADY_USED:
+        "This code or link was already used. Request a new one if you need to sign in",
+      OTP_RESEND_THROTTLED:
+        "We sent you a code recently. Wait a moment before requesting another",
+      RATE_LIMITED:
+        "Too many attempts. For your security, wait before trying again",
+    },
+    notices: {
+      email_confirmed: "All set! Your email is confirmed",
+      password_recovery: "Enter your new password",
+      email_changed: "Your new email is confirmed",
+      signed_in: "You are signed in",
+      password_updated: "Your password was updated",
+      account_deletion_scheduled:
+        "Your account is scheduled for deletion. If you change your mind, sign in before that date and cancel it in Settings",
+    },
+    roles: {
+      member: "Member",
+      coordinator: "Coordinator",
+      admin: "Administrator",
+    },
+    forms: {
+      email: "Institutional email",
+      emailPlaceholder: "user{domain}",
+      password: "Password",
+      currentPassword: "Current password",
+      newPassword: "New password",
+      confirmPassword: "Confirm password",
+      confirmNewPassword: "Confirm new password",
+      fullName: "Full name",
+      login: {
+        title: "Sign in",
+        withPassword: "With password",
+        passwordless: "Without password",
+        submit: "Sign in",
+        pending: "Signing in...",
+        forgotPassword: "Forgot your password?",
+        register: "Create account",
+      },
+      register: {
+        title: "Create account",
+        submit: "Create account",
+        pending: "Creating account...",
+        haveAccount: "Already have an account? Sign in",
+      },
+      forgot: {
+        title: "Recover password",
+        description:
+          "Enter your email and we will send you a link to create a new password.",
+        submit: "Send link",
+        pending: "Sending...",
+        sent: "If there is an account for {email}, we sent you a link to reset your password. Check your inbox.",
+        backToLogin: "Back to sign in",
+      },
+      reset: {
+        title: "New password",
+        submit: "Save password",
+        pending: "Saving...",
+        expired:
+          "Your recovery link expired or was already used. Request a new one to change your password.",
+        requestNew: "Request a new link",
+      },
+      passwordless: {
+        submit: "Send me a link or code",
+        pending: "Sending...",
+      },
+      verifyCode: {
+        code: "6-digit code",
+        submit: "Sign in",
+        resend: "Resend code",
+        resendIn: "Resend code in {seconds} s",
+        resent: "We sent you a new code",
+      },
+      verify: {
+        title: "Verify your email",
+        sentTo: "We sent a link and a 6-digit code to",
+        sentToHint: "Open the link or enter the code here.",
+        noEmail: "Enter your email and the 6-digit code we sent you.",
+        linkTitle: "Verifying",
+        linkPending: "Verifying your link...",
+        linkDone: "All set, signing you in...",
+      },
+      changePassword: {
+        submit: "Change password",
+        pending: "Saving...",
+        saved: "Your password was changed",
+      },
+      changeEmail: {
+        current: "Current email:",
+        newEmail: "New email",
+        submit: "Change email",
+        pending: "Sending...",
+        sent: "We sent a link to {email}. Your email will change once you open it.",
+      },
+      strength: {
+        label: "Password strength",
+        levels: {
+          empty: "Enter a password",
+          weak: "Weak",
+          fair: "Fair",
+          strong: "Strong",
+        },
+        requirements: {
+          minLength: "At least 8 characters",
+          uppercase: "One uppercase letter",
+          lowercase: "One lowercase letter",
+          number: "One number",
+        },
+        met: "met",
+        unmet: "missing",
+      },
+    },
+    retryAfter: "{message}. You can try again {when}",
+  },
+  env: {
+    invalidUrl: "{name} must be a valid URL",
+    required: "{name} is required",
+    invalidTitle: "❌ Invalid environment variables:",
+    hint: "💡 Check your .env.local file",
+    invalidConfig: "Invalid environment configuration",
+  },
+  ui: {
+    loading: "Loading...",
+    close: "Close",
+    dismissToast: "Dismiss notification",
+    notifications: "Notifications",
+    required: "required",
+  },
+  admin: {
+    members: {
+      name: "Name",
+      email: "Email",
+      role: "Role",
+      roleOf: "Role of {name}",
+      roleChanged:
+        "{name} is now {role}. The change applies the next time they sign in.",
+      title: "Members and roles",
+    },
+    validation: {
+      userId: {
+        invalid: "The member identifier is not valid",
+      },
+      role: {
+        invalid: "The role is not valid",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "You need to sign in",
+      FORBIDDEN: "You don't have permission for this operation",
+      NOT_CONFIGURED:
+        "Administration is not available: the Service Role Key is missing",
+      VALIDATION_ERROR: "The submitted data is not valid",
+      CANNOT_CHANGE_OWN_ROLE: "You can't change your own role",
+      NOT_FOUND: "We couldn't find that member",
+      NETWORK_ERROR: "Connection error. Check your internet",
+      UNKNOWN_ERROR: "An unexpected error occurred",
+    },
+  },
+  email: {
+    greeting: "Hi,",
+    greetingNamed: "Hi {name},",
+    activityInvitation: {
+      subject: '{inviter} invited you to "{title}"',
+      title: "New invitation",
+      intro:
+        "{inviter} added you to a group activity. Let us know if you can make it.",
+      activity: "Activity",
+      when: "When",
+      where: "Where",
+      details: "Details",
+      respond: "Reply to the invitation",
+    },
+    accountDeletionScheduled: {
+      subject: `Your ${siteConfig.name} account will be deleted on {date}`,
+      title: "Account deletion scheduled",
+      intro:
+        "We received your request to delete your account. On {date} we will erase your mood entries, your journal, your activity replies and your profile photo. They cannot be recovered.",
+      cancel:
+        "If you change your mind, sign in before that date and cancel the deletion.",
+      cancelButton: "Cancel the deletion",
+      notYou:
+        "If this wasn't you, cancel the deletion and change your password.",
+    },
+    accountDeleted: {
+      subject: `We deleted your ${siteConfig.name} account`,
+      title: "Account deleted",
+      intro:
+        "As you asked, we deleted your account along with your mood entries, your journal, your activity responses and your files.",
+      goodbye:
+        "Thank you for being part of the research group. If you come back, you can create a new account whenever you like.",
+    },
+    weeklySummary: {
+      subject: `Your week in ${siteConfig.name}`,
+      title: "Your weekly summary",
+      range: "From {from} to {to}.",
+      noEntries:
+        "You didn't log your mood this week. One entry a day is enough to see your trend.",
+      entriesOne: "You logged your mood once, averaging {average} out of 5.",
+      entriesOther:
+        "You logged your mood {count} times, averaging {average} out of 5.",
+      trendSimilar: "Similar to the previous week.",
+      trendUp: "A little better than the previous week.",
+      trendDown: "A little lower than the previous week.",
+      topTags: "Most frequent emotions: {tags}.",
+      upcoming: "Upcoming activities:",
+      viewHistory: "View my history",
+    },
+    resetPassword: {
+      subject: `Reset your ${siteConfig.name} password`,
+      title: "Reset your password",
+      intro: "We received a request to reset the password for your account.",
+      button: "Choose a new password",
+      expiry:
+        "The link expires in {minutes} minutes and can only be used once.",
+      ignore:
+        "If you didn't request it, ignore this message: your password won't change.",
+    },
+    verification: {
+      subject: `Confirm your email for ${siteConfig.name}`,
+      title: "Confirm your email",
+      intro: `Thanks for signing up for ${siteConfig.name}. To activate your account, confirm your institutional email.`,
+      button: "Confirm email",
+      ignore: "If you didn't create an account, you can ignore this message.",
+    },
+    trustedContactAlert: {
+      subject: "{name} would like to hear from you",
+      intro: `{name} chose you as their trusted person in ${siteConfig.name} and asked us to let you know. It would be good to reach out to {name} soon, whenever you can.`,
+      reply: "You can reply to this email to write to them directly.",
+      lines:
+        "If you think their life is in danger, call the emergency line 123. Line 192, option 4, offers mental health guidance 24 hours a day.",
+    },
+    checkInReminder: {
+      subject: "How are you feeling today?",
+      intro: `You haven't logged today's mood in ${siteConfig.name} yet. It takes a single tap.`,
+      checkIn: "Log my mood",
+      settings:
+        "You can change the days, the time or turn off these reminders at {url}",
+    },
+    errors: {
+      NOT_CONFIGURED: "Sending email is not configured on the server",
+      SEND_FAILED: "We couldn't send the email",
+    },
+  },
+  offline: {
+    title: "You're offline",
+    description:
+      "We couldn't load this page. The mood entries and drafts you made offline are still saved on this device and will be sent when you're back online.",
+    retry: "Try again",
+    indicator: {
+      offline: "You're offline.",
+      syncingOne: "Syncing 1 change...",
+      syncingOther: "Syncing {count} changes...",
+      pendingOne:
+        "1 change saved on this device; it will be sent when you're back online.",
+      pendingOther:
+        "{count} changes saved on this device; they will be sent when you're back online.",
+      savedLocally: "Anything you log will be saved on this device.",
+      conflictsOne:
+        "1 draft has changes on another device: open it in the journal to choose which version to keep.",
+      conflictsOther:
+        "{count} drafts have changes on another device: open them in the journal to choose which version to keep.",
+    },
+  },
+  home: {
+    welcome: {
+      title: "Hi!",
+      titleNamed: "Hi, {name}!",
+      description:
+        "Log how you feel, keep your journal and join the group's activities.",
+    },
+    quickEntry: {
+      title: "How are you feeling right now?",
+      legend: "Mood",
+      emotions: "Emotions (optional)",
+      optional: "{name} (optional)",
+      notRecorded: "Not recorded",
+      save: "Save",
+      saving: "Saving...",
+      saved: "Mood logged: {label}",
+      queued:
+        "You're offline: we saved your mood ({label}) on this device and will send it when you reconnect",
+    },
+    emotionTags: {
+      empty: "You don't have any emotions of your own yet.",
+      edit: "Edit",
+      delete: "Delete {name}",
+      name: "Name",
+      icon: "Icon (optional)",
+      color: "Color",
+      save: "Save changes",
+      add: "Add emotion",
+      cancel: "Cancel",
+    },
+    levels: {
+      awful: "Awful",
+      veryBad: "Very bad",
+      bad: "Bad",
+      neutral: "Okay",
+      good: "Good",
+      veryGood: "Very good",
+      great: "Great",
+    },
+    scales: {
+      faces: {
+        name: "Faces",
+        description: "Five faces, from very bad to very good",
+      },
+      words: {
+        name: "Words",
+        description: "Five levels described in words",
+      },
+      numbers: {
+        name: "Numbers from 1 to 5",
+        description: "A number from 1 (very bad) to 5 (very good)",
+      },
+      emoji: {
+        name: "Emojis",
+        description: "Seven emojis for finer shades",
+      },
+      ten_point: {
+        name: "1 to 10 with energy and anxiety",
+        description:
+          "Mood from 1 to 10, plus how much energy and how much anxiety you feel",
+      },
+    },
+    dimensions: {
+      energy: {
+        name: "Energy",
+        low: "No energy",
+        high: "Lots of energy",
+      },
+      anxiety: {
+        name: "Anxiety",
+        low: "None",
+        high: "A great deal",
+      },
+    },
+    validation: {
+      moodLevel: {
+        invalid: "The mood level must be between 1 and 5",
+        missing: "Choose how you feel",
+        fivePointOnly: "The 1-5 level only applies to five-point scales",
+      },
+      scale: {
+        invalid: "The mood scale is not valid",
+        integer: "The value must be a whole number",
+        outOfRange: "The value is outside the scale's range",
+        noEnergy: "This scale doesn't record energy",
+        noAnxiety: "This scale doesn't record anxiety",
+      },
+      emotionTags: {
+        tooMany: "You can choose up to 10 emotions",
+        tooLong: "Each emotion can be up to 30 characters",
+      },
+      note: {
+        maxLength: "The note can be up to 500 characters",
+      },
+      recordedAt: {
+        invalid: "The entry date is not valid",
+      },
+      timezone: {
+        invalid: "The timezone is not valid",
+      },
+      id: {
+        invalid: "The entry ID is not valid",
+      },
+      clientId: {
+        invalid: "The ID generated by the device is not valid",
+      },
+      range: {
+        invalid: "The start date must be before the end date",
+      },
+      tagName: {
+        required: "Enter the emotion's name",
+        maxLength: "The name can be up to 30 characters",
+      },
+      tagColor: {
+        invalid: "The color must use the #rrggbb format",
+      },
+      tagIcon: {
+        maxLength: "The icon must be a single emoji",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "You need to sign in to log your mood",
+      VALIDATION_ERROR: "The entry data is not valid",
+      NOT_FOUND: "We couldn't find that mood entry",
+      TAG_NOT_FOUND: "We couldn't find that emotion",
+      DUPLICATE_TAG: "You already have an emotion with that name",
+      TOO_MANY_TAGS: "You can have up to 30 emotions of your own",
+      NETWORK_ERROR: "Connection error. Check your internet",
+      UNKNOWN_ERROR: "An unexpected error occurred",
+    },
+  },
+  history: {
+    title: "My mood history",
+    importLink: "Import from another app",
+    calendar: {
+      previousMonth: "Previous month",
+      nextMonth: "Next month",
+      dayWithEntries: "{date}: average mood {average}, {count} entries",
+      dayWithoutEntries: "{date}: no entries",
+      monthSummaryOne: "1 entry this month",
+      monthSummaryOther: "{count} entries this month",
+      monthAverage: " · average {average}",
+    },
+    trend: {
+      title: "Mood trend",
+      week: "Weekly",
+      month: "Monthly",
+      chartLabel: "Chart of the average mood per period",
+      point: "{period}: {average} ({count} entries)",
+      empty: "There aren't enough entries to show a trend yet.",
+    },
+    emotions: {
+      title: "Emotions this month",
+      empty: "You didn't record any emotions this month.",
+    },
+    day: {
+      close: "Close",
+      empty: "No entries on this day.",
+      scaleValue: "{value} of {max}",
+    },
+  },
+  export: {
+    form: {
+      title: "Export my data",
+      description:
+        "Download your mood entries and your journal, for example to take them to student wellbeing services.",
+      from: "From",
+      to: "To",
+      format: "Format",
+      submit: "Download",
+    },
+    formats: {
+      csv: "CSV (spreadsheet)",
+      json: "JSON (full copy)",
+      pdf: "PDF (printable summary)",
+    },
+    filename: "{app}-{from}-to-{to}",
+    csv: {
+      columns: {
+        type: "type",
+        date: "date",
+        time: "time",
+        moodLevel: "mood_level",
+        mood: "mood",
+        emotions: "emotions",
+        title: "title",
+        text: "text",
+        status: "status",
+      },
+      mood: "mood",
+      journal: "journal",
+      draft: "draft",
+      published: "published",
+    },
+    pdf: {
+      title: "Wellbeing summary — {app}",
+      footer:
+        "{app} · Page {page} of {total} · Personal and confidential document",
+      period: "Period: {from} to {to}",
+      generated: "Time zone: {timezone} · Generated: {date}",
+      moods: "Mood",
+      noMoods: "No mood entries in this period.",
+      moodCount: "Entries: {count} over {days} days",
+      moodAverage: "Average mood: {average} out of 5",
+      distribution: "Distribution",
+      topEmotions: "Most frequent emotions",
+      emotion: "{tag}: {count} times (average mood {average})",
+      entries: "Entries",
+      journal: "Journal",
+      noJournal: "No published entries in this period.",
+      tags: "Tags: {tags}",
+      encryptedBody: "[Encrypted content]",
+    },
+    validation: {
+      format: {
+        invalid: "Choose a valid export format",
+      },
+      date: {
+        invalid: "The date must use the YYYY-MM-DD format",
+      },
+      range: {
+        invalid: "The start date must be on or before the end date",
+        tooLong: "The range can't be longer than 366 days",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "You must sign in to export your data",
+      VALIDATION_ERROR: "The export parameters aren't valid",
+      NETWORK_ERROR: "Connection error. Check your internet",
+      UNKNOWN_ERROR: "An unexpected error occurred",
+    },
+  },
+  import: {
+    title: "Import from another app",
+    description:
+      "Bring your history from Daylio or another app that exports CSV. Dates without a time zone are read in {timezone}.",
+    sources: {
+      daylio: "Daylio (CSV)",
+      generic: "Other CSV",
+    },
+    wizard: {
+      source: "Source",
+      file: "CSV file",
+      columnsLegend: "Which column holds each value?",
+      columns: {
+        date: "Date *",
+        time: "Time",
+        mood: "Mood *",
+        tags: "Emotions or activities",
+        note: "Note",
+      },
+      dateFormat: "Date format",
+      tagSeparator: "Emotion separator",
+      useScale: "The mood is a number on another scale",
+      scaleMin: "Minimum",
+      scaleMax: "Maximum",
+      preview: "Preview",
+      previewing: "Analyzing...",
+      commitOne: "Import 1 entry",
+      commitOther: "Import {count} entries",
+      stale: "You changed some options: preview again to import.",
+    },
+    summary: {
+      title: "Import complete",
+      totalRows: "Rows in the file: {count}",
+      imported: "Entries imported: {count}",
+      duplicates: "Duplicates skipped: {count}",
+      invalid: "Rows with errors skipped: {count}",
+      range: "From {from} to {to}",
+      historyLink: "View my history",
+    },
+    preview: {
+      totalRows: "Rows",
+      valid: "To import",
+      duplicates: "Duplicates",
+      invalid: "With errors",
+      moodsTitle: "Moods in the file",
+      moodsDescription: "Choose which level of our scale matches each one.",
+      moodFor: 'Level for "{value}"',
+      unassigned: "Unassigned",
+      tagsTitle: "Activities and emotions",
+      tagsDescription:
+        "They're saved as emotions. You can rename them or leave them empty to skip them.",
+      tagFor: 'Emotion for "{value}"',
+      invalidTitle: "Rows with errors",
+      invalidDescription:
+        "These rows won't be imported. You can fix them in the file or adjust the mappings and preview again.",
+      row: "Row {row}:",
+      sampleTitle: "Sample of entries to import",
+    },
+    file: {
+      empty: "The file has no entries",
+      tooManyRows: "The file has more than 10,000 rows",
+      notDaylio:
+        "This doesn't look like a Daylio export: the full_date and mood columns are missing",
+      missingColumns:
+        "We couldn't find the chosen date and mood columns in the file",
+    },
+    row: {
+      invalidDate: 'The date "{value}" isn\'t valid (format {format})',
+      invalidTime: 'The time "{value}" isn\'t valid',
+      unknownMood: 'We don\'t know which level the mood "{value}" matches',
+      missingMood: "The row has no mood",
+    },
+    validation: {
+      source: {
+        invalid: "Choose which app the file comes from",
+      },
+      content: {
+        required: "Select a CSV file",
+        tooLarge: "The file is too large (3 MB maximum)",
+      },
+      columns: {
+        required: "Tell us which columns hold the date and the mood",
+        column: "Choose a column",
+      },
+      moodScale: {
+        invalid: "The scale minimum must be lower than the maximum",
+      },
+      moodMapping: {
+        invalid: "Each mood must match a level between 1 and 5",
+      },
+      tagMapping: {
+        tooLong: "Each emotion must be at most 30 characters",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "You must sign in to import data",
+      VALIDATION_ERROR: "The import data isn't valid",
+      INVALID_FILE: "We couldn't read the file",
+      NOTHING_TO_IMPORT: "There are no new entries to import",
+      NETWORK_ERROR: "Connection error. Check your internet",
+      UNKNOWN_ERROR: "An unexpected error occurred",
+    },
+  },
+  journal: {
+    title: "My journal",
+    newEntry: "New entry",
+    editEntry: "Edit entry",
+    back: "← Back to the journal",
+    untitled: "Untitled",
+    draft: "Draft",
+    encrypted: "Encrypted",
+    edit: "Edit",
+    keysUnavailable: "We couldn't load the keys to decrypt this entry",
+    decrypting: "Decrypting...",
+    decryptFailed: "We couldn't decrypt this entry with your key",
+    list: {
+      empty: "No entries match. Write the first one!",
+    },
+    search: {
+      query: "Search",
+      queryPlaceholder: "Title, content or tag",
+      queryPlaceholderEncrypted: "Title or tag",
+      tag: "Tag",
+      status: "Status",
+      all: "All",
+      published: "Published",
+      drafts: "Drafts",
+      submit: "Search",
+    },
+    editor: {
+      recovered: "We recovered changes saved on this device",
+      synced: "Changes synced",
+      savedOffline: "Offline: draft saved on this device",
+      saving: "Saving draft...",
+      savedAt: "Draft saved at {time}",
+      publishOffline:
+        "Offline: we saved the changes on this device and they'll be published when you reconnect",
+      conflict:
+        "This entry was changed on another device while you were editing it here. Which version do you want to keep?",
+      keepLocal: "Keep this device's version",
+      useOther: "Use the other device's version",
+      date: "Date",
+      mood: "Mood of the day",
+      noMood: "Not linked",
+      entryTitle: "Title",
+      body: "Content (Markdown)",
+      bodyEncrypted: "Content (Markdown, encrypted)",
+      preview: "Preview",
+      edit: "Edit",
+      encryptedHint:
+        "Only the content is encrypted. The title, date and tags are saved unencrypted so you can search your entries.",
+      tags: "Tags (comma separated)",
+      publish: "Publish",
+      save: "Save changes",
+      delete: "Delete",
+      deleteTitle: "Delete this entry?",
+      deleteDescription: "This action can't be undone.",
+      cancel: "Cancel",
+    },
+    encryption: {
+      title: "Journal encryption",
+      back: "← Settings",
+      intro:
+        "With encryption on, the content of your entries is encrypted in your browser before it's saved. Nobody else can read it: not other members of the group nor the people who run the app.",
+      unlockEachTab:
+        "To read or write you'll have to unlock the journal with your passphrase in each tab.",
+      plaintextFields:
+        "The title, date and tags aren't encrypted: search only works with them.",
+      recoveryKey:
+        "When you turn it on you'll get a recovery key. It's the only way to open your journal if you forget the passphrase.",
+      warning:
+        "If you forget the passphrase and lose the recovery key, the content of your encrypted entries is lost forever. We can't recover it.",
+      permanent: "For now, encryption can't be turned off.",
+      unlocked: "Your journal is encrypted and unlocked in this tab.",
+      lock: "Lock now",
+      changePassphrase: "Change the passphrase",
+      newPassphrase: "New passphrase",
+      repeatNewPassphrase: "Repeat the new passphrase",
+      submitChange: "Change passphrase",
+      passphraseSaved: "We saved your new passphrase",
+      passphraseTooShort: "The passphrase must be at least {min} characters",
+      passphraseMismatch: "The passphrases don't match",
+      passphrase: "Passphrase",
+      passphraseHint:
+        "At least {min} characters. Use a phrase different from your password: several words you'll remember work well.",
+      repeatPassphrase: "Repeat the passphrase",
+      understood:
+        "I understand that if I forget my passphrase and lose my recovery key, nobody can recover the content of my entries.",
+      enable: "Turn on encryption",
+      enabling: "Creating keys...",
+      recoveryKeyTitle: "Your recovery key",
+      recoveryKeyDescription:
+        "If you forget your passphrase, this key is the only way to open your journal. Keep it somewhere safe (for example, on paper or in a password manager). We won't show it again.",
+      copy: "Copy key",
+      copied: "Copied",
+      savedRecoveryKey: "I saved my recovery key somewhere safe",
+      continue: "Continue",
+      enabled:
+        "Done: your journal is encrypted. What you write from now on can only be read with your passphrase or your recovery key.",
+    },
+    encryptExisting: {
+      pendingOne:
+        "You have 1 entry from before you turned on encryption. Its content stays unencrypted until you encrypt it.",
+      pendingOther:
+        "You have {count} entries from before you turned on encryption. Their content stays unencrypted until you encrypt it.",
+      start: "Encrypt my earlier entries",
+      running: "Encrypting your earlier entries... ({encrypted} of {pending})",
+      doneOne: "We encrypted 1 earlier entry.",
+      doneOther: "We encrypted {count} earlier entries.",
+    },
+    unlock: {
+      title: "Your journal is encrypted",
+      passphraseHint:
+        "Enter your passphrase to read and write on this device. We'll forget it when you close or reload the tab.",
+      recoveryHint:
+        "Enter the recovery key you saved when you turned on encryption. Afterwards we recommend choosing a new passphrase.",
+      passphrase: "Passphrase",
+      recoveryKey: "Recovery key",
+      wrongPassphrase: "The passphrase isn't correct",
+      wrongRecoveryKey: "The recovery key isn't correct",
+      submit: "Unlock",
+      submitting: "Unlocking...",
+      forgotPassphrase: "I forgot my passphrase",
+      usePassphrase: "Use my passphrase",
+      lostRecoveryKey: "What if I also lost the recovery key?",
+    },
+    validation: {
+      id: {
+        invalid: "The entry ID isn't valid",
+      },
+      entryDate: {
+        invalid: "The date must use the YYYY-MM-DD format",
+      },
+      title: {
+        required: "The title is required",
+        maxLength: "The title must be at most 120 characters",
+      },
+      body: {
+        maxLength: "The entry must be at most 20,000 characters",
+        plaintextWithCiphertext:
+          "An encrypted entry can't also include the unencrypted content",
+      },
+      bodyCiphertext: {
+        invalid: "The encrypted content isn't valid",
+      },
+      keys: {
+        invalid: "The encryption keys aren't valid",
+      },
+      tags: {
+        tooMany: "You can use at most 10 tags",
+        tooLong: "Each tag must be at most 30 characters",
+      },
+      moodEntryId: {
+        invalid: "The linked mood entry isn't valid",
+      },
+      baseUpdatedAt: {
+        invalid: "The entry version isn't valid",
+      },
+      query: {
+        maxLength: "The search must be at most 100 characters",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "You must sign in to use your journal",
+      VALIDATION_ERROR: "The entry data isn't valid",
+      NOT_FOUND: "We couldn't find that journal entry",
+      CONFLICT:
+        "This entry was changed on another device while you were editing it",
+      ENCRYPTION_REQUIRED:
+        "Your journal is encrypted: unlock it to save the content",
+      ENCRYPTION_ALREADY_ENABLED: "Your journal is already encrypted",
+      ENCRYPTION_NOT_ENABLED: "Turn on your journal's encryption first",
+      NETWORK_ERROR: "Connection error. Check your internet",
+      UNKNOWN_ERROR: "An unexpected error occurred",
+    },
+  },
+  activities: {
+    title: "Research group activities",
+    lastDays: "Last 30 days",
+    back: "← Back to activities",
+    cancelled: "This activity was cancelled",
+    members: "Members",
+    edit: "Edit",
+    new: "Plan activity",
+    editTitle: "Edit activity",
+    rsvp: {
+      pending: "No response",
+      going: "Going",
+      maybe: "Maybe",
+      declined: "Not going",
+    },
+    agenda: {
+      title: "Upcoming activities",
+      empty: "You have no scheduled activities.",
+      cancelled: "Cancelled",
+      myRsvp: "Your response: {rsvp}",
+    },
+    form: {
+      title: "Title",
+      startsAt: "Start",
+      endsAt: "End (optional)",
+      location: "Location",
+      description: "Description",
+      members: "Assigned members",
+      save: "Save changes",
+      create: "Create activity",
+    },
+    cancel: {
+      button: "Cancel activity",
+      confirmTitle: "Cancel this activity for the whole team?",
+      confirmDescription: "This action cannot be undone.",
+      back: "Back",
+    },
+    rsvpGroup: "Your response",
+    validation: {
+      id: {
+        invalid: "The activity ID is not valid",
+      },
+      title: {
+        required: "Title is required",
+        maxLength: "Title must be at most 120 characters",
+      },
+      description: {
+        maxLength: "Description must be at most 2000 characters",
+      },
+      location: {
+        maxLength: "Location must be at most 200 characters",
+      },
+      startsAt: {
+        invalid: "The start date is not valid",
+      },
+      endsAt: {
+        invalid: "The end date is not valid",
+        beforeStart: "The activity must end after it starts",
+      },
+      memberIds: {
+        invalid: "One of the assigned members is not valid",
+        tooMany: "You can assign at most 50 members",
+      },
+      rsvp: {
+        invalid: "The response is not valid",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "You must sign in to see activities",
+      FORBIDDEN: "Only the activity's creator or a coordinator can change it",
+      VALIDATION_ERROR: "The activity data is not valid",
+      NOT_FOUND: "We couldn't find that activity",
+      NOT_A_MEMBER: "You are not assigned to this activity",
+      ALREADY_CANCELLED: "The activity was already cancelled",
+      NETWORK_ERROR: "Connection error. Check your internet",
+      UNKNOWN_ERROR: "An unexpected error occurred",
+    },
+  },
+  team: {
+    title: "Team wellbeing",
+    description:
+      'Anonymous weekly averages. Only weeks in which at least {min} members logged their mood are shown, and they leave out anyone who opted out. "Low week" is the share of members with a weekly average of {threshold} or less. The current week is shown once it ends.',
+    weeksOption: "{count} weeks",
+    chart: {
+      title: "Team average mood",
+      label:
+        "Chart of the team's average mood per week, with scheduled activities",
+      suppressedWeek:
+        "Week of {week}: hidden (too few members logged their mood)",
+      point: "Week of {week}: {average} ({count} members)",
+      activity: "{date}: {title}",
+      legendActivity: "Scheduled activity",
+      legendSuppressed: "Week hidden due to too few entries",
+    },
+    table: {
+      week: "Week",
+      contributors: "Members",
+      averageMood: "Average mood",
+      lowMoodShare: "Low week",
+      activities: "Activities",
+      current: " (in progress)",
+      suppressed: "Hidden: too few members logged their mood",
+      percent: "{value}%",
+    },
+    errors: {
+      FORBIDDEN: "Only coordinators can see the team's wellbeing",
+      NETWORK_ERROR: "Connection error. Check your internet",
+      UNKNOWN_ERROR: "An unexpected error occurred",
+    },
+  },
+  support: {
+    title: "Support",
+    introWithSignals:
+      "We noticed your entries from the last few days have been hard. It's okay not to be okay, and asking for help is a brave step. Here are people you can talk to.",
+    intro:
+      "If you're going through a hard time, here are people you can talk to whenever you need.",
+    urgent: "If you feel your life is in danger, call 123 now.",
+    resourcesTitle: "Who to talk to",
+    trustedContactTitle: "Your trusted person",
+    trustedContactDescription:
+      "Someone close to you we can write to on your behalf, asking them to reach out to you. You decide whether and when.",
+    banner: {
+      text: "It looks like these have been hard days. You don't have to go through them alone.",
+      link: "See support options",
+    },
+    acknowledge: "I'm okay for now, hide this notice",
+    resources: {
+      emergencies: {
+        name: "Emergency line 123",
+        description:
+          "If your life or someone else's is in danger right now, call immediately.",
+        contact: "123",
+        availability: "24 hours, every day",
+      },
+      minsalud: {
+        name: "Ministry of Health mental health line",
+        description:
+          "Free guidance and psychological first aid from professionals.",
+        contact: "192, option 4",
+        availability: "24 hours, every day",
+      },
+      unicordobaBienestar: {
+        name: "Student Wellbeing — Universidad de Córdoba",
+        description:
+          "Psychological care for students. You can book an appointment or visit the Student Wellbeing Division at your campus.",
+        contact: "unicordoba.edu.co",
+        availability: "Weekdays",
+      },
+    },
+    trustedContact: {
+      saved: "We saved your trusted contact",
+      notified: "We wrote to {name}. Their replies will reach your email.",
+      autoNotifyOn:
+        "We'll let them know automatically if your entries show warning signs.",
+      autoNotifyOff: "We'll only write to them if you ask us to.",
+      notify: "Let them know now",
+      change: "Change",
+      remove: "Remove",
+      name: "Name",
+      email: "Email",
+      autoNotify: "Let them know automatically if my entries show urgent signs",
+      autoNotifyHint:
+        "At most one email a day. The email only asks them to reach out to you; it doesn't include your entries or your journal.",
+      save: "Save contact",
+      cancel: "Cancel",
+    },
+    validation: {
+      name: {
+        required: "Enter your contact's name",
+        maxLength: "The name can't be longer than 80 characters",
+      },
+      email: {
+        required: "Your contact's email is required",
+        invalid: "Your contact's email is not valid",
+      },
+      ruleIds: {
+        invalid: "The given rules are not valid",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "You must sign in",
+      VALIDATION_ERROR: "The data is not valid",
+      NO_TRUSTED_CONTACT: "You haven't chosen a trusted contact yet",
+      RECENTLY_NOTIFIED: "We recently notified your trusted contact",
+      EMAIL_FAILED:
+        "We couldn't send the notice. Try again or reach out to them directly",
+      NETWORK_ERROR: "Connection error. Check your internet",
+      UNKNOWN_ERROR: "An unexpected error occurred",
+    },
+  },
+  insights: {
+    title: "What your entries say",
+    window: "Last {days} days",
+    noEntries:
+      "Log your mood for a few days and you'll see your patterns here.",
+    notEnough:
+      "There aren't enough entries to find patterns yet. Keep logging your mood.",
+    historyLink: "See my history",
+    slots: {
+      madrugada: "in the early hours",
+      manana: "in the morning",
+      tarde: "in the afternoon",
+      noche: "in the evening",
+    },
+    weekdays: {
+      sunday: "Sundays",
+      monday: "Mondays",
+      tuesday: "Tuesdays",
+      wednesday: "Wednesdays",
+      thursday: "Thursdays",
+      friday: "Fridays",
+      saturday: "Saturdays",
+    },
+    streak: {
+      currentTitle: "You've logged your mood {current} days in a row",
+      currentDetail: "Your longest streak this period: {longest} days",
+      longestTitle: "Your longest streak was {longest} days in a row",
+      startNew: "Log today to start a new one",
+      keepGoing: "Log tomorrow to keep it going",
+    },
+    tagCorrelation: {
+      higherTitle: 'Your mood is higher on days you mark "{tag}"',
+      lowerTitle: 'Your mood is lower on days you mark "{tag}"',
+      detail:
+        "{withTag} over {count} days with that emotion, versus {withoutTag} without it",
+    },
+    dayOfWeek: {
+      title: "{weekday} tend to be your lowest days",
+      detail: "Average of {lowest}; {weekday}, {highest}",
+    },
+    timeOfDay: {
+      title: "You feel better {highest} than {lowest}",
+      detail: "{highest} versus {lowest} on average",
+    },
+    volatility: {
+      stable: "Your mood has been steady from one day to the next",
+      moderate: "Your mood has had moderate ups and downs",
+      high: "Your mood has changed quite a bit from one day to the next",
+      detail: "Deviation of {deviation} points across {days} days with entries",
+    },
+  },
+  reminders: {
+    title: "Reminders",
+    description: "We only remind you on days you haven't logged your mood yet.",
+    channels: {
+      email: "Email",
+      push: "Notification on this device",
+    },
+    days: {
+      sunday: "Sun",
+      monday: "Mon",
+      tuesday: "Tue",
+      wednesday: "Wed",
+      thursday: "Thu",
+      friday: "Fri",
+      saturday: "Sat",
+    },
+    form: {
+      enabled: "Remind me to log my mood",
+      days: "Days",
+      time: "Time",
+      timezone: "Time zone",
+      channels: "Channels",
+      quietHours: "Quiet hours",
+      quietStart: "From",
+      quietEnd: "To",
+      quietHoursHint:
+        "If your reminder falls within these hours, it arrives when they end.",
+      save: "Save",
+      saved: "Preferences saved",
+    },
+    push: {
+      unsupported: "This browser doesn't support push notifications.",
+      denied:
+        "You blocked notifications for this site. Turn them on in your browser settings.",
+      subscribe: "Turn on notifications on this device",
+      subscribed: "This device receives notifications.",
+      unsubscribe: "Turn off",
+      title: "How are you feeling today?",
+      body: "Log your mood with a single tap.",
+    },
+    validation: {
+      days: {
+        required: "Choose at least one day",
+      },
+      time: {
+        invalid: "The time must use the HH:MM format",
+      },
+      channels: {
+        required: "Choose at least one channel",
+      },
+      quietHours: {
+        incomplete: "Enter the start and end of the quiet hours",
+        same: "The start and end of the quiet hours must be different",
+      },
+      subscription: {
+        invalid: "The notification subscription is not valid",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "You must sign in to set up reminders",
+      VALIDATION_ERROR: "The reminder data is not valid",
+      PUSH_NOT_CONFIGURED:
+        "Push notifications are not available on this server",
+      NOT_CONFIGURED: "The reminder scheduler is not configured",
+      NETWORK_ERROR: "Connection error. Check your internet",
+      UNKNOWN_ERROR: "An unexpected error occurred",
+    },
+  },
+  profile: {
+    settings: {
+      title: "Settings",
+      profile: "Profile",
+      emotions: "My emotions",
+      emotionsDescription:
+        "Create the emotions you want to mark when logging your mood, with their color and icon.",
+      account: "Account",
+      email: "Email",
+      password: "Password",
+      privacy: "Privacy",
+      manageEncryption: "Manage my journal encryption",
+      encrypt: "Encrypt my journal",
+      notifications: "Notifications",
+      reminders: "Set up daily reminders",
+      support: "Support",
+      supportDescription:
+        "Helplines and your trusted person, for whenever you need them.",
+      supportLink: "See support options",
+      deleteAccount: "Delete account",
+      deleteAccountDescription:
+        "Deletes your account and all your data after a {days}-day grace period.",
+      deletionScheduled: "View or cancel the scheduled deletion",
+      deleteAccountLink: "Delete my account",
+    },
+    form: {
+      timezone: "Time zone",
+      locale: "Language",
+      moodScale: "Which scale do you want to log your mood with?",
+      moodScaleHint: "Your earlier entries still look the same in your history",
+      save: "Save",
+      saved: "Profile updated",
+    },
+    avatar: {
+      alt: "Your profile photo",
+      change: "Change photo",
+      remove: "Remove photo",
+      saving: "Saving...",
+      unreadable: "We couldn't read the image. Try another photo",
+    },
+    activityEmails: {
+      label: "Receive activity invitations by email",
+      hint: "Even if you turn them off, activities still show up in your home agenda.",
+    },
+    teamAggregation: {
+      label: "Include my mood entries in the team's wellbeing",
+      hint: "Coordinators only see anonymous weekly averages, and only when enough members logged their mood. They never see your individual entries.",
+    },
+    validation: {
+      optOut: {
+        invalid: "The privacy preference is not valid",
+      },
+      fullName: {
+        minLength: "Name must be at least 3 characters",
+        maxLength: "Name must be at most 80 characters",
+      },
+      locale: {
+        invalid: "Choose a language from the list",
+      },
+      moodScale: {
+        invalid: "Choose a mood scale from the list",
+      },
+      activityEmails: {
+        invalid: "The notification preference is not valid",
+      },
+      avatar: {
+        type: "The photo must be a WebP, JPEG or PNG image",
+        size: "The photo must be smaller than 1 MB",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "You must sign in to see your profile",
+      VALIDATION_ERROR: "The profile data is not valid",
+      NOT_FOUND: "We couldn't find your profile",
+      UPLOAD_FAILED: "We couldn't upload your profile photo",
+      NETWORK_ERROR: "Connection error. Check your internet",
+      UNKNOWN_ERROR: "An unexpected error occurred",
+    },
+  },
+  account: {
+    back: "← Settings",
+    title: "Delete my account",
+    gracePeriod:
+      "Your account isn't deleted right away: you have {days} days to change your mind. We'll sign you out and send you an email; if you sign in again before the date, you can cancel it here.",
+    exportFirst: "If you want to keep a copy of your entries, first",
+    exportLink: "export them",
+    form: {
+      password: "Current password",
+      acknowledge:
+        "I understand that in {days} days my account, my mood entries, my journal and my activity responses will be deleted, and that they can't be recovered.",
+      submit: "Delete my account",
+      pending: "Scheduling...",
+    },
+    pending: {
+      scheduled: "Your account and all your data will be deleted on",
+      cancel: "Cancel the deletion",
+      cancelling: "Cancelling...",
+    },
+    validation: {
+      password: {
+        required: "Enter your password to confirm",
+      },
+      acknowledge: {
+        required: "Confirm that you understand your data will be deleted",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "You must sign in to manage your account",
+      VALIDATION_ERROR: "The data is not valid",
+      PASSWORD_REJECTED: "We couldn't confirm your password",
+      NOT_FOUND: "There is no scheduled deletion",
+      NOT_CONFIGURED: "Account deletion is not configured on the server",
+      NETWORK_ERROR: "Connection error. Check your internet",
+      UNKNOWN_ERROR: "An unexpected error occurred",
+    },
+  },
+  layout: {
+    logoAlt: "{name} logo",
+    signIn: "Sign in",
+    register: "Sign up",
+    signOut: "Sign out",
+    nav: {
+      home: "Home",
+      history: "History",
+      journal: "Journal",
+      activities: "Activities",
+      settings: "Settings",
+      team: "Team",
+      members: "Members",
+    },
+  },
+};
@@ -0,0 +1,1281 @@
+import { siteConfig } from "@lib/config/site";
+
+/**
+ * Catálogo de mensajes en español (Colombia)
+ *
+ * Es el catálogo de referencia: su forma define el tipo Messages
+ * y los demás idiomas deben tener exactamente las mismas claves.
+ * Los valores pueden llevar parámetros `{nombre}` (ver translator.ts).
+ */
+export const esCO = {
+  auth: {
+    validation: {
+      email: {
+        required: "El correo electrónico es requerido",
+        invalid: "El correo electrónico no es válido",
+        domain: `Debes usar tu correo institucional (${siteConfig.emailDomain})`,
+        sameAsCurrent: "Ese ya es tu correo actual",
+      },
+      password: {
+        required: "La contraseña es requerida",
+        minLength: "La contraseña debe tener al menos 8 caracteres",
+        pattern:
+          "La contraseña debe contener al menos una mayúscula, una minúscula y un número",
+      },
+      fullName: {
+        required: "El nombre completo es requerido",
+        minLength: "El nombre debe tener al menos 3 caracteres",
+      },
+      confirmPassword: {
+        required: "Debes confirmar la contraseña",
+        noMatch: "Las contraseñas no coinciden",
+      },
+      currentPassword: {
+        required: "Escribe tu contraseña actual",
+        sameAsNew: "La nueva contraseña debe ser distinta de la actual",
+        incorrect: "La contraseña actual no es correcta",
+      },
+      otp: {
+        invalid: "El código debe tener 6 dígitos",
+      },
+      tokenHash: {
+        invalid: "El enlace de acceso no es válido",
+      },
+    },
+    errors: {
+      INVALID_CREDENTIALS: "Correo o contraseña incorrectos",
+      USER_ALREADY_EXISTS: "Ya existe una cuenta con este correo",
+      EMAIL_NOT_VERIFIED: "Por favor verifica tu correo electrónico",
+      WEAK_PASSWORD: "La contraseña es demasiado débil",
+      NETWORK_ERROR: "Error de conexión. Verifica tu internet",
+      UNKNOWN_ERROR: "Ocurrió un error inesperado",
+      SESSION_EXPIRED: "Tu sesión ha expirado. Inicia sesión nuevamente",
+      INVALID_TOKEN: "El enlace es inválido o ha expirado. Pide uno nuevo",
+      EMAIL_DOMAIN_NOT_ALLOWED: `Solo se permiten correos institucionales (${siteConfig.emailDomain})`,
+      OTP_INVALID: "El código no es correcto. Revísalo e intenta de nuevo",
+      OTP_EXPIRED:
+        "El código o enlace expiró. Pide uno nuevo para iniciar sesión",
+      OTP_ALREADY_USED:
+        "Este código o enlace ya se usó. Pide uno nuevo si necesitas iniciar sesión",
+      OTP_RESEND_THROTTLED:
+        "Ya te enviamos un código hace poco. Espera un momento para pedir otro",
+      RATE_LIMITED:
+        "Demasiados intentos. Por seguridad, espera antes de volver a intentarlo",
+    },
+    notices: {
+      email_confirmed: "¡Listo! Confirmamos tu correo",
+      password_recovery: "Escribe tu nueva contraseña",
+      email_changed: "Confirmamos tu nuevo correo",
+      signed_in: "Iniciaste sesión",
+      password_updated: "Actualizamos tu contraseña",
+      account_deletion_scheduled:
+        "Programamos la eliminación de tu cuenta. Si cambias de opinión, inicia sesión antes de la fecha y cancélala en Configuración",
+    },
+    roles: {
+      member: "Integrante",
+      coordinator: "Coordinador",
+      admin: "Administrador",
+    },
+    forms: {
+      email: "Correo institucional",
+      emailPlaceholder: "usuario{domain}",
+      password: "Contraseña",
+      currentPassword: "Contraseña actual",
+      newPassword: "Nueva contraseña",
+      confirmPassword: "Confirmar contraseña",
+      confirmNewPassword: "Confirmar nueva contraseña",
+      fullName: "Nombre completo",
+      login: {
+        title: "Iniciar sesión",
+        withPassword: "Con contraseña",
+        passwordless: "Sin contraseña",
+        submit: "Iniciar sesión",
+        pending: "Entrando...",
+        forgotPassword: "¿Olvidaste tu contraseña?",
+        register: "Crear cuenta",
+      },
+      register: {
+        title: "Crear cuenta",
+        submit: "Crear cuenta",
+        pending: "Creando cuenta...",
+        haveAccount: "¿Ya tienes cuenta? Inicia sesión",
+      },
+      forgot: {
+        title: "Recuperar contraseña",
+        description:
+          "Escribe tu correo y te enviaremos un enlace para crear una contraseña nueva.",
+        submit: "Enviar enlace",
+        pending: "Enviando...",
+        sent: "Si hay una cuenta con {email}, te enviamos un enlace para restablecer la contraseña. Revisa tu correo.",
+        backToLogin: "Volver a iniciar sesión",
+      },
+      reset: {
+        title: "Nueva contraseña",
+        submit: "Guardar contraseña",
+        pending: "Guardando...",
+        expired:
+          "Tu enlace de recuperación expiró o ya se usó. Pide uno nuevo para cambiar la contraseña.",
+        requestNew: "Pedir un enlace nuevo",
+      },
+      passwordless: {
+        submit: "Enviarme un enlace o código",
+        pending: "Enviando...",
+      },
+      verifyCode: {
+        code: "Código de 6 dígitos",
+        submit: "Entrar",
+        resend: "Reenviar código",
+        resendIn: "Reenviar código en {seconds} s",
+        resent: "Te enviamos un código nuevo",
+      },
+      verify: {
+        title: "Verifica tu correo",
+        sentTo: "Te enviamos un enlace y un código de 6 dígitos a",
+        sentToHint: "Abre el enlace o escribe el código aquí.",
+        noEmail: "Escribe tu correo y el código de 6 dígitos que te enviamos.",
+        linkTitle: "Verificando",
+        linkPending: "Verificando tu enlace...",
+        linkDone: "Listo, entrando...",
+      },
+      changePassword: {
+        submit: "Cambiar contraseña",
+        pending: "Guardando...",
+        saved: "Cambiamos tu contraseña",
+      },
+      changeEmail: {
+        current: "Correo actual:",
+        newEmail: "Correo nuevo",
+        submit: "Cambiar correo",
+        pending: "Enviando...",
+        sent: "Te enviamos un enlace a {email}. Tu correo cambiará cuando lo abras.",
+      },
+      strength: {
+        label: "Seguridad de la contraseña",
+        levels: {
+          empty: "Escribe una contraseña",
+          weak: "Débil",
+          fair: "Aceptable",
+          strong: "Fuerte",
+        },
+        requirements: {
+          minLength: "Al menos 8 caracteres",
+          uppercase: "Una mayúscula",
+          lowercase: "Una minúscula",
+          number: "Un número",
+        },
+        met: "cumplido",
+        unmet: "pendiente",
+      },
+    },
+    retryAfter: "{message}. Podrás intentarlo {when}",
+  },
+  env: {
+    invalidUrl: "{name} debe ser una URL válida",
+    required: "{name} es requerida",
+    invalidTitle: "❌ Error en las variables de entorno:",
+    hint: "💡 Verifica tu archivo .env.local",
+    invalidConfig: "Configuración de variables de entorno inválida",
+  },
+  ui: {
+    loading: "Cargando...",
+    close: "Cerrar",
+    dismissToast: "Cerrar aviso",
+    notifications: "Avisos",
+    required: "obligatorio",
+  },
+  admin: {
+    members: {
+      name: "Nombre",
+      email: "Correo",
+      role: "Rol",
+      roleOf: "Rol de {name}",
+      roleChanged:
+        "{name} ahora es {role}. El cambio aplica en su próximo inicio de sesión.",
+      title: "Integrantes y roles",
+    },
+    validation: {
+      userId: {
+        invalid: "El identificador del integrante no es válido",
+      },
+      role: {
+        invalid: "El rol no es válido",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "Debes iniciar sesión",
+      FORBIDDEN: "No tienes permisos para esta operación",
+      NOT_CONFIGURED:
+        "La administración no está disponible: falta la Service Role Key",
+      VALIDATION_ERROR: "Los datos enviados no son válidos",
+      CANNOT_CHANGE_OWN_ROLE: "No puedes cambiar tu propio rol",
+      NOT_FOUND: "No encontramos a ese integrante",
+      NETWORK_ERROR: "Error de conexión. Verifica tu internet",
+      UNKNOWN_ERROR: "Ocurrió un error inesperado",
+    },
+  },
+  email: {
+    greeting: "Hola:",
+    greetingNamed: "Hola, {name}:",
+    activityInvitation: {
+      subject: '{inviter} te invitó a "{title}"',
+      title: "Nueva invitación",
+      intro:
+        "{inviter} te asignó a una actividad del semillero. Cuéntanos si puedes asistir.",
+      activity: "Actividad",
+      when: "Cuándo",
+      where: "Dónde",
+      details: "Detalles",
+      respond: "Responder invitación",
+    },
+    accountDeletionScheduled: {
+      subject: `Tu cuenta de ${siteConfig.name} se eliminará el {date}`,
+      title: "Eliminación de cuenta programada",
+      intro:
+        "Recibimos tu solicitud para eliminar tu cuenta. El {date} borraremos tus registros de ánimo, tu bitácora, tus respuestas a actividades y tu foto de perfil. No se podrán recuperar.",
+      cancel:
+        "Si cambias de opinión, inicia sesión antes de esa fecha y cancela la eliminación.",
+      cancelButton: "Cancelar la eliminación",
+      notYou: "Si no fuiste tú, cancela la eliminación y cambia tu contraseña.",
+    },
+    accountDeleted: {
+      subject: `Eliminamos tu cuenta de ${siteConfig.name}`,
+      title: "Cuenta eliminada",
+      intro:
+        "Tal como pediste, eliminamos tu cuenta junto con tus registros de ánimo, tu bitácora, tus respuestas a actividades y tus archivos.",
+      goodbye:
+        "Gracias por haber sido parte del semillero. Si vuelves, puedes crear una cuenta nueva cuando quieras.",
+    },
+    weeklySummary: {
+      subject: `Tu semana en ${siteConfig.name}`,
+      title: "Tu resumen semanal",
+      range: "Del {from} al {to}.",
+      noEntries:
+        "Esta semana no registraste tu ánimo. Un registro al día basta para ver tu tendencia.",
+      entriesOne:
+        "Registraste tu ánimo 1 vez, con un promedio de {average} de 5.",
+      entriesOther:
+        "Registraste tu ánimo {count} veces, con un promedio de {average} de 5.",
+      trendSimilar: "Similar a la semana anterior.",
+      trendUp: "Un poco mejor que la semana anterior.",
+      trendDown: "Un poco más bajo que la semana anterior.",
+      topTags: "Emociones más frecuentes: {tags}.",
+      upcoming: "Próximas actividades:",
+      viewHistory: "Ver mi historial",
+    },
+    resetPassword: {
+      subject: `Restablece tu contraseña de ${siteConfig.name}`,
+      title: "Restablece tu contraseña",
+      intro:
+        "Recibimos una solicitud para restablecer la contraseña de tu cuenta.",
+      button: "Elegir nueva contraseña",
+      expiry:
+        "El enlace vence en {minutes} minutos y solo se puede usar una vez.",
+      ignore:
+        "Si no lo pediste, ignora este mensaje: tu contraseña no cambiará.",
+    },
+    verification: {
+      subject: `Confirma tu correo en ${siteConfig.name}`,
+      title: "Confirma tu correo",
+      intro: `Gracias por registrarte en ${siteConfig.name}. Para activar tu cuenta confirma tu correo institucional.`,
+      button: "Confirmar correo",
+      ignore: "Si no creaste una cuenta, puedes ignorar este mensaje.",
+    },
+    trustedContactAlert: {
+      subject: "{name} quisiera saber de ti",
+      intro: `{name} te eligió como su persona de confianza en ${siteConfig.name} y pidió que te avisáramos. Sería bueno que te comunicaras con {name} pronto, cuando puedas.`,
+      reply: "Puedes responder este correo para escribirle directamente.",
+      lines:
+        "Si crees que su vida está en peligro, llama a la línea de emergencias 123. La línea 192, opción 4, ofrece orientación en salud mental las 24 horas.",
+    },
+    checkInReminder: {
+      subject: "¿Cómo te sientes hoy?",
+      intro: `Todavía no registras tu ánimo de hoy en ${siteConfig.name}. Te toma un toque.`,
+      checkIn: "Registrar mi ánimo",
+      settings:
+        "Puedes cambiar los días, la hora o desactivar estos recordatorios en {url}",
+    },
+    errors: {
+      NOT_CONFIGURED: "El envío de correos no está configurado en el servidor",
+      SEND_FAILED: "No pudimos enviar el correo",
+    },
+  },
+  offline: {
+    title: "Sin conexión",
+    description:
+      "No pudimos cargar esta página. Los registros de ánimo y borradores que hiciste sin conexión siguen guardados en este dispositivo y se enviarán cuando vuelvas a tener internet.",
+    retry: "Reintentar",
+    indicator: {
+      offline: "Sin conexión.",
+      syncingOne: "Sincronizando 1 cambio...",
+      syncingOther: "Sincronizando {count} cambios...",
+      pendingOne:
+        "1 cambio guardado en este dispositivo; se enviará al recuperar la conexión.",
+      pendingOther:
+        "{count} cambios guardados en este dispositivo; se enviarán al recuperar la conexión.",
+      savedLocally: "Lo que registres se guardará en este dispositivo.",
+      conflictsOne:
+        "1 borrador tiene cambios en otro dispositivo: ábrelo en la bitácora para elegir qué versión conservar.",
+      conflictsOther:
+        "{count} borradores tienen cambios en otro dispositivo: ábrelos en la bitácora para elegir qué versión conservar.",
+    },
+  },
+  home: {
+    welcome: {
+      title: "¡Hola!",
+      titleNamed: "¡Hola, {name}!",
+      description:
+        "Registra cómo te sientes, lleva tu bitácora y participa en las actividades del semillero.",
+    },
+    quickEntry: {
+      title: "¿Cómo te sientes ahora?",
+      legend: "Ánimo",
+      emotions: "Emociones (opcional)",
+      optional: "{name} (opcional)",
+      notRecorded: "Sin registrar",
+      save: "Guardar",
+      saving: "Guardando...",
+      saved: "Registramos tu ánimo: {label}",
+      queued:
+        "Sin conexión: guardamos tu ánimo ({label}) en este dispositivo y lo enviaremos al reconectar",
+    },
+    emotionTags: {
+      empty: "Aún no tienes emociones propias.",
+      edit: "Editar",
+      delete: "Eliminar {name}",
+      name: "Nombre",
+      icon: "Ícono (opcional)",
+      color: "Color",
+      save: "Guardar cambios",
+      add: "Agregar emoción",
+      cancel: "Cancelar",
+    },
+    levels: {
+      awful: "Fatal",
+      veryBad: "Muy mal",
+      bad: "Mal",
+      neutral: "Normal",
+      good: "Bien",
+      veryGood: "Muy bien",
+      great: "Genial",
+    },
+    scales: {
+      faces: {
+        name: "Caritas",
+        description: "Cinco caritas, de muy mal a muy bien",
+      },
+      words: {
+        name: "Palabras",
+        description: "Cinco niveles descritos con palabras",
+      },
+      numbers: {
+        name: "Números del 1 al 5",
+        description: "Un número del 1 (muy mal) al 5 (muy bien)",
+      },
+      emoji: {
+        name: "Emojis",
+        description: "Siete emojis para matices más finos",
+      },
+      ten_point: {
+        name: "Del 1 al 10 con energía y ansiedad",
+        description:
+          "Ánimo del 1 al 10, y aparte cuánta energía y cuánta ansiedad sientes",
+      },
+    },
+    dimensions: {
+      energy: {
+        name: "Energía",
+        low: "Sin energía",
+        high: "Mucha energía",
+      },
+      anxiety: {
+        name: "Ansiedad",
+        low: "Nada",
+        high: "Muchísima",
+      },
+    },
+    validation: {
+      moodLevel: {
+        invalid: "El nivel de ánimo debe estar entre 1 y 5",
+        missing: "Elige cómo te sientes",
+        fivePointOnly: "El nivel 1-5 solo aplica a escalas de cinco puntos",
+      },
+      scale: {
+        invalid: "La escala de ánimo no es válida",
+        integer: "El valor debe ser un número entero",
+        outOfRange: "El valor está fuera del rango de la escala",
+        noEnergy: "Esta escala no registra energía",
+        noAnxiety: "Esta escala no registra ansiedad",
+      },
+      emotionTags: {
+        tooMany: "Puedes elegir máximo 10 emociones",
+        tooLong: "Cada emoción debe tener máximo 30 caracteres",
+      },
+      note: {
+        maxLength: "La nota debe tener máximo 500 caracteres",
+      },
+      recordedAt: {
+        invalid: "La fecha del registro no es válida",
+      },
+      timezone: {
+        invalid: "La zona horaria no es válida",
+      },
+      id: {
+        invalid: "El identificador del registro no es válido",
+      },
+      clientId: {
+        invalid: "El identificador generado por el dispositivo no es válido",
+      },
+      range: {
+        invalid: "La fecha inicial debe ser anterior a la final",
+      },
+      tagName: {
+        required: "Escribe el nombre de la emoción",
+        maxLength: "El nombre debe tener máximo 30 caracteres",
+      },
+      tagColor: {
+        invalid: "El color debe tener el formato #rrggbb",
+      },
+      tagIcon: {
+        maxLength: "El ícono debe ser un solo emoji",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "Debes iniciar sesión para registrar tu ánimo",
+      VALIDATION_ERROR: "Los datos del registro no son válidos",
+      NOT_FOUND: "No encontramos ese registro de ánimo",
+      TAG_NOT_FOUND: "No encontramos esa emoción",
+      DUPLICATE_TAG: "Ya tienes una emoción con ese nombre",
+      TOO_MANY_TAGS: "Puedes tener máximo 30 emociones propias",
+      NETWORK_ERROR: "Error de conexión. Verifica tu internet",
+      UNKNOWN_ERROR: "Ocurrió un error inesperado",
+    },
+  },
+  history: {
+    title: "Mi historial de ánimo",
+    importLink: "Importar desde otra app",
+    calendar: {
+      previousMonth: "Mes anterior",
+      nextMonth: "Mes siguiente",
+      dayWithEntries: "{date}: ánimo promedio {average}, {count} registros",
+      dayWithoutEntries: "{date}: sin registros",
+      monthSummaryOne: "1 registro este mes",
+      monthSummaryOther: "{count} registros este mes",
+      monthAverage: " · promedio {average}",
+    },
+    trend: {
+      title: "Tendencia de ánimo",
+      week: "Semanal",
+      month: "Mensual",
+      chartLabel: "Gráfica del ánimo promedio por periodo",
+      point: "{period}: {average} ({count} registros)",
+      empty: "Aún no hay registros suficientes para mostrar una tendencia.",
+    },
+    emotions: {
+      title: "Emociones del mes",
+      empty: "No registraste emociones este mes.",
+    },
+    day: {
+      close: "Cerrar",
+      empty: "No hay registros este día.",
+      scaleValue: "{value} de {max}",
+    },
+  },
+  export: {
+    form: {
+      title: "Exportar mis datos",
+      description:
+        "Descarga tus registros de ánimo y tu bitácora, por ejemplo para llevarlos a bienestar universitario.",
+      from: "Desde",
+      to: "Hasta",
+      format: "Formato",
+      submit: "Descargar",
+    },
+    formats: {
+      csv: "CSV (hoja de cálculo)",
+      json: "JSON (copia completa)",
+      pdf: "PDF (resumen imprimible)",
+    },
+    filename: "{app}-{from}-a-{to}",
+    csv: {
+      columns: {
+        type: "tipo",
+        date: "fecha",
+        time: "hora",
+        moodLevel: "nivel_animo",
+        mood: "animo",
+        emotions: "emociones",
+        title: "titulo",
+        text: "texto",
+        status: "estado",
+      },
+      mood: "animo",
+      journal: "bitacora",
+      draft: "borrador",
+      published: "publicada",
+    },
+    pdf: {
+      title: "Resumen de bienestar — {app}",
+      footer:
+        "{app} · Página {page} de {total} · Documento personal y confidencial",
+      period: "Periodo: {from} al {to}",
+      generated: "Zona horaria: {timezone} · Generado: {date}",
+      moods: "Estado de ánimo",
+      noMoods: "No hay registros de ánimo en este periodo.",
+      moodCount: "Registros: {count} en {days} días",
+      moodAverage: "Ánimo promedio: {average} de 5",
+      distribution: "Distribución",
+      topEmotions: "Emociones más frecuentes",
+      emotion: "{tag}: {count} veces (ánimo promedio {average})",
+      entries: "Registros",
+      journal: "Bitácora",
+      noJournal: "No hay entradas publicadas en este periodo.",
+      tags: "Etiquetas: {tags}",
+      encryptedBody: "[Contenido cifrado]",
+    },
+    validation: {
+      format: {
+        invalid: "Elige un formato de exportación válido",
+      },
+      date: {
+        invalid: "La fecha debe tener el formato AAAA-MM-DD",
+      },
+      range: {
+        invalid: "La fecha inicial debe ser anterior o igual a la final",
+        tooLong: "El rango no puede superar 366 días",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "Debes iniciar sesión para exportar tus datos",
+      VALIDATION_ERROR: "Los parámetros de exportación no son válidos",
+      NETWORK_ERROR: "Error de conexión. Verifica tu internet",
+      UNKNOWN_ERROR: "Ocurrió un error inesperado",
+    },
+  },
+  import: {
+    title: "Importar desde otra app",
+    description:
+      "Trae tu historial de Daylio u otra app que exporte CSV. Las fechas sin zona horaria se interpretan en {timezone}.",
+    sources: {
+      daylio: "Daylio (CSV)",
+      generic: "Otro CSV",
+    },
+    wizard: {
+      source: "Origen",
+      file: "Archivo CSV",
+      columnsLegend: "¿Qué columna tiene cada dato?",
+      columns: {
+        date: "Fecha *",
+        time: "Hora",
+        mood: "Ánimo *",
+        tags: "Emociones o actividades",
+        note: "Nota",
+      },
+      dateFormat: "Formato de fecha",
+      tagSeparator: "Separador de emociones",
+      useScale: "El ánimo es un número en otra escala",
+      scaleMin: "Mínimo",
+      scaleMax: "Máximo",
+      preview: "Previsualizar",
+      previewing: "Analizando...",
+      commitOne: "Importar 1 registro",
+      commitOther: "Importar {count} registros",
+      stale: "Cambiaste opciones: previsualiza de nuevo para importar.",
+    },
+    summary: {
+      title: "Importación completada",
+      totalRows: "Filas en el archivo: {count}",
+      imported: "Registros importados: {count}",
+      duplicates: "Duplicados omitidos: {count}",
+      invalid: "Filas con errores omitidas: {count}",
+      range: "Desde {from} hasta {to}",
+      historyLink: "Ver mi historial",
+    },
+    preview: {
+      totalRows: "Filas",
+      valid: "Se importarán",
+      duplicates: "Duplicadas",
+      invalid: "Con errores",
+      moodsTitle: "Ánimos del archivo",
+      moodsDescription:
+        "Elige a qué nivel de nuestra escala corresponde cada uno.",
+      moodFor: 'Nivel para "{value}"',
+      unassigned: "Sin asignar",
+      tagsTitle: "Actividades y emociones",
+      tagsDescription:
+        "Se guardan como emociones. Puedes renombrarlas o dejarlas vacías para no importarlas.",
+      tagFor: 'Emoción para "{value}"',
+      invalidTitle: "Filas con errores",
+      invalidDescription:
+        "Estas filas no se importarán. Puedes corregirlas en el archivo o ajustar los mapeos y volver a previsualizar.",
+      row: "Fila {row}:",
+      sampleTitle: "Muestra de registros a importar",
+    },
+    file: {
+      empty: "El archivo no tiene registros",
+      tooManyRows: "El archivo tiene más de 10.000 filas",
+      notDaylio:
+        "No parece una exportación de Daylio: faltan las columnas full_date y mood",
+      missingColumns:
+        "No encontramos en el archivo las columnas de fecha y ánimo elegidas",
+    },
+    row: {
+      invalidDate: 'La fecha "{value}" no es válida (formato {format})',
+      invalidTime: 'La hora "{value}" no es válida',
+      unknownMood: 'No sabemos a qué nivel corresponde el ánimo "{value}"',
+      missingMood: "La fila no tiene ánimo",
+    },
+    validation: {
+      source: {
+        invalid: "Elige de qué aplicación viene el archivo",
+      },
+      content: {
+        required: "Selecciona un archivo CSV",
+        tooLarge: "El archivo es demasiado grande (máximo 3 MB)",
+      },
+      columns: {
+        required: "Indica qué columnas tienen la fecha y el ánimo",
+        column: "Elige una columna",
+      },
+      moodScale: {
+        invalid: "El valor mínimo de la escala debe ser menor que el máximo",
+      },
+      moodMapping: {
+        invalid: "Cada ánimo debe corresponder a un nivel entre 1 y 5",
+      },
+      tagMapping: {
+        tooLong: "Cada emoción debe tener máximo 30 caracteres",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "Debes iniciar sesión para importar datos",
+      VALIDATION_ERROR: "Los datos de la importación no son válidos",
+      INVALID_FILE: "No pudimos leer el archivo",
+      NOTHING_TO_IMPORT: "No hay registros nuevos para importar",
+      NETWORK_ERROR: "Error de conexión. Verifica tu internet",
+      UNKNOWN_ERROR: "Ocurrió un error inesperado",
+    },
+  },
+  journal: {
+    title: "Mi bitácora",
+    newEntry: "Nueva entrada",
+    editEntry: "Editar entrada",
+    back: "← Volver a la bitácora",
+    untitled: "Sin título",
+    draft: "Borrador",
+    encrypted: "Cifrada",
+    edit: "Editar",
+    keysUnavailable: "No pudimos cargar las llaves para descifrar esta entrada",
+    decrypting: "Descifrando...",
+    decryptFailed: "No pudimos descifrar esta entrada con tu llave",
+    list: {
+      empty: "No hay entradas que coincidan. ¡Escribe la primera!",
+    },
+    search: {
+      query: "Buscar",
+      queryPlaceholder: "Título, contenido o etiqueta",
+      queryPlaceholderEncrypted: "Título o etiqueta",
+      tag: "Etiqueta",
+      status: "Estado",
+      all: "Todas",
+      published: "Publicadas",
+      drafts: "Borradores",
+      submit: "Buscar",
+    },
+    editor: {
+      recovered: "Recuperamos cambios guardados en este dispositivo",
+      synced: "Cambios sincronizados",
+      savedOffline: "Sin conexión: borrador guardado en este dispositivo",
+      saving: "Guardando borrador...",
+      savedAt: "Borrador guardado a las {time}",
+      publishOffline:
+        "Sin conexión: guardamos los cambios en este dispositivo y se publicarán al reconectar",
+      conflict:
+        "Esta entrada se modificó en otro dispositivo mientras la editabas aquí. ¿Qué versión quieres conservar?",
+      keepLocal: "Conservar la de este dispositivo",
+      useOther: "Usar la del otro dispositivo",
+      date: "Fecha",
+      mood: "Ánimo del día",
+      noMood: "Sin vincular",
+      entryTitle: "Título",
+      body: "Contenido (Markdown)",
+      bodyEncrypted: "Contenido (Markdown, cifrado)",
+      preview: "Vista previa",
+      edit: "Editar",
+      encryptedHint:
+        "Solo el contenido se cifra. El título, la fecha y las etiquetas se guardan sin cifrar para poder buscar tus entradas.",
+      tags: "Etiquetas (separadas por comas)",
+      publish: "Publicar",
+      save: "Guardar cambios",
+      delete: "Eliminar",
+      deleteTitle: "¿Eliminar esta entrada?",
+      deleteDescription: "Esta acción no se puede deshacer.",
+      cancel: "Cancelar",
+    },
+    encryption: {
+      title: "Cifrado de la bitácora",
+      back: "← Configuración",
+      intro:
+        "Con el cifrado activo, el contenido de tus entradas se cifra en tu navegador antes de guardarse. Nadie más puede leerlo: ni otras personas del semillero ni quienes administran la aplicación.",
+      unlockEachTab:
+        "Para leer o escribir tendrás que desbloquear la bitácora con tu frase secreta en cada pestaña.",
+      plaintextFields:
+        "El título, la fecha y las etiquetas no se cifran: la búsqueda funciona solo con ellos.",
+      recoveryKey:
+        "Al activarlo recibirás una clave de recuperación. Es la única forma de abrir tu bitácora si olvidas la frase.",
+      warning:
+        "Si olvidas la frase y pierdes la clave de recuperación, el contenido de tus entradas cifradas se pierde para siempre. No podemos recuperarlo.",
+      permanent: "Por ahora el cifrado no se puede desactivar.",
+      unlocked: "Tu bitácora está cifrada y desbloqueada en esta pestaña.",
+      lock: "Bloquear ahora",
+      changePassphrase: "Cambiar la frase secreta",
+      newPassphrase: "Frase nueva",
+      repeatNewPassphrase: "Repite la frase nueva",
+      submitChange: "Cambiar frase",
+      passphraseSaved: "Guardamos tu nueva frase secreta",
+      passphraseTooShort:
+        "La frase secreta debe tener al menos {min} caracteres",
+      passphraseMismatch: "Las frases no coinciden",
+      passphrase: "Frase secreta",
+      passphraseHint:
+        "Al menos {min} caracteres. Usa una frase distinta a tu contraseña: varias palabras que recuerdes funcionan bien.",
+      repeatPassphrase: "Repite la frase secreta",
+      understood:
+        "Entiendo que si olvido mi frase secreta y pierdo mi clave de recuperación, nadie podrá recuperar el contenido de mis entradas.",
+      enable: "Activar cifrado",
+      enabling: "Creando llaves...",
+      recoveryKeyTitle: "Tu clave de recuperación",
+      recoveryKeyDescription:
+        "Si olvidas tu frase secreta, esta clave es la única forma de abrir tu bitácora. Guárdala en un lugar seguro (por ejemplo, en papel o en un gestor de contraseñas). No la volveremos a mostrar.",
+      copy: "Copiar clave",
+      copied: "Copiada",
+      savedRecoveryKey: "Guardé mi clave de recuperación en un lugar seguro",
+      continue: "Continuar",
+      enabled:
+        "Listo: tu bitácora está cifrada. Lo que escribas desde ahora solo se podrá leer con tu frase secreta o tu clave de recuperación.",
+    },
+    encryptExisting: {
+      pendingOne:
+        "Tienes 1 entrada de antes de activar el cifrado. Su contenido sigue sin cifrar hasta que lo cifres.",
+      pendingOther:
+        "Tienes {count} entradas de antes de activar el cifrado. Su contenido sigue sin cifrar hasta que lo cifres.",
+      start: "Cifrar mis entradas anteriores",
+      running: "Cifrando tus entradas anteriores... ({encrypted} de {pending})",
+      doneOne: "Ciframos 1 entrada anterior.",
+      doneOther: "Ciframos {count} entradas anteriores.",
+    },
+    unlock: {
+      title: "Tu bitácora está cifrada",
+      passphraseHint:
+        "Escribe tu frase secreta para leer y escribir en este dispositivo. La olvidaremos al cerrar o recargar la pestaña.",
+      recoveryHint:
+        "Escribe la clave de recuperación que guardaste al activar el cifrado. Después te recomendamos elegir una frase secreta nueva.",
+      passphrase: "Frase secreta",
+      recoveryKey: "Clave de recuperación",
+      wrongPassphrase: "La frase secreta no es correcta",
+      wrongRecoveryKey: "La clave de recuperación no es correcta",
+      submit: "Desbloquear",
+      submitting: "Desbloqueando...",
+      forgotPassphrase: "Olvidé mi frase secreta",
+      usePassphrase: "Usar mi frase secreta",
+      lostRecoveryKey: "¿Qué pasa si también perdí la clave de recuperación?",
+    },
+    validation: {
+      id: {
+        invalid: "El identificador de la entrada no es válido",
+      },
+      entryDate: {
+        invalid: "La fecha debe tener el formato AAAA-MM-DD",
+      },
+      title: {
+        required: "El título es requerido",
+        maxLength: "El título debe tener máximo 120 caracteres",
+      },
+      body: {
+        maxLength: "La entrada debe tener máximo 20.000 caracteres",
+        plaintextWithCiphertext:
+          "Una entrada cifrada no puede llevar también el contenido sin cifrar",
+      },
+      bodyCiphertext: {
+        invalid: "El contenido cifrado no es válido",
+      },
+      keys: {
+        invalid: "Las llaves de cifrado no son válidas",
+      },
+      tags: {
+        tooMany: "Puedes usar máximo 10 etiquetas",
+        tooLong: "Cada etiqueta debe tener máximo 30 caracteres",
+      },
+      moodEntryId: {
+        invalid: "El registro de ánimo vinculado no es válido",
+      },
+      baseUpdatedAt: {
+        invalid: "La versión de la entrada no es válida",
+      },
+      query: {
+        maxLength: "La búsqueda debe tener máximo 100 caracteres",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "Debes iniciar sesión para usar tu bitácora",
+      VALIDATION_ERROR: "Los datos de la entrada no son válidos",
+      NOT_FOUND: "No encontramos esa entrada de la bitácora",
+      CONFLICT:
+        "Esta entrada se modificó en otro dispositivo mientras la editabas",
+      ENCRYPTION_REQUIRED:
+        "Tu bitácora está cifrada: desbloquéala para guardar el contenido",
+      ENCRYPTION_ALREADY_ENABLED: "Tu bitácora ya está cifrada",
+      ENCRYPTION_NOT_ENABLED: "Primero activa el cifrado de tu bitácora",
+      NETWORK_ERROR: "Error de conexión. Verifica tu internet",
+      UNKNOWN_ERROR: "Ocurrió un error inesperado",
+    },
+  },
+  activities: {
+    title: "Actividades del semillero",
+    lastDays: "Últimos 30 días",
+    back: "← Volver a actividades",
+    cancelled: "Esta actividad fue cancelada",
+    members: "Integrantes",
+    edit: "Editar",
+    new: "Planear actividad",
+    editTitle: "Editar actividad",
+    rsvp: {
+      pending: "Sin responder",
+      going: "Asistiré",
+      maybe: "Tal vez",
+      declined: "No asistiré",
+    },
+    agenda: {
+      title: "Próximas actividades",
+      empty: "No tienes actividades programadas.",
+      cancelled: "Cancelada",
+      myRsvp: "Tu respuesta: {rsvp}",
+    },
+    form: {
+      title: "Título",
+      startsAt: "Inicio",
+      endsAt: "Fin (opcional)",
+      location: "Lugar",
+      description: "Descripción",
+      members: "Integrantes asignados",
+      save: "Guardar cambios",
+      create: "Crear actividad",
+    },
+    cancel: {
+      button: "Cancelar actividad",
+      confirmTitle: "¿Cancelar esta actividad para todo el equipo?",
+      confirmDescription: "Esta acción no se puede deshacer.",
+      back: "Volver",
+    },
+    rsvpGroup: "Tu respuesta",
+    validation: {
+      id: {
+        invalid: "El identificador de la actividad no es válido",
+      },
+      title: {
+        required: "El título es requerido",
+        maxLength: "El título debe tener máximo 120 caracteres",
+      },
+      description: {
+        maxLength: "La descripción debe tener máximo 2000 caracteres",
+      },
+      location: {
+        maxLength: "El lugar debe tener máximo 200 caracteres",
+      },
+      startsAt: {
+        invalid: "La fecha de inicio no es válida",
+      },
+      endsAt: {
+        invalid: "La fecha de fin no es válida",
+        beforeStart: "La actividad debe terminar después de empezar",
+      },
+      memberIds: {
+        invalid: "Uno de los integrantes asignados no es válido",
+        tooMany: "Puedes asignar máximo 50 integrantes",
+      },
+      rsvp: {
+        invalid: "La respuesta no es válida",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "Debes iniciar sesión para ver las actividades",
+      FORBIDDEN:
+        "Solo quien creó la actividad o un coordinador puede modificarla",
+      VALIDATION_ERROR: "Los datos de la actividad no son válidos",
+      NOT_FOUND: "No encontramos esa actividad",
+      NOT_A_MEMBER: "No estás asignado a esta actividad",
+      ALREADY_CANCELLED: "La actividad ya fue cancelada",
+      NETWORK_ERROR: "Error de conexión. Verifica tu internet",
+      UNKNOWN_ERROR: "Ocurrió un error inesperado",
+    },
+  },
+  team: {
+    title: "Bienestar del equipo",
+    description:
+      'Promedios semanales anónimos. Solo se muestran las semanas en que al menos {min} integrantes registraron su ánimo, y no incluyen a quienes decidieron no participar. "Con semana baja" es la proporción de integrantes con un promedio semanal de {threshold} o menos. La semana en curso se muestra cuando termina.',
+    weeksOption: "{count} semanas",
+    chart: {
+      title: "Ánimo promedio del equipo",
+      label:
+        "Gráfica del ánimo promedio del equipo por semana, con las actividades programadas",
+      suppressedWeek:
+        "Semana del {week}: oculta (muy pocos integrantes registraron su ánimo)",
+      point: "Semana del {week}: {average} ({count} integrantes)",
+      activity: "{date}: {title}",
+      legendActivity: "Actividad programada",
+      legendSuppressed: "Semana oculta por pocos registros",
+    },
+    table: {
+      week: "Semana",
+      contributors: "Integrantes",
+      averageMood: "Ánimo promedio",
+      lowMoodShare: "Con semana baja",
+      activities: "Actividades",
+      current: " (en curso)",
+      suppressed: "Oculta: muy pocos integrantes registraron su ánimo",
+      percent: "{value} %",
+    },
+    errors: {
+      FORBIDDEN: "Solo coordinadores pueden ver el bienestar del equipo",
+      NETWORK_ERROR: "Error de conexión. Verifica tu internet",
+      UNKNOWN_ERROR: "Ocurrió un error inesperado",
+    },
+  },
+  support: {
+    title: "Apoyo",
+    introWithSignals:
+      "Notamos que tus registros de los últimos días han sido difíciles. Está bien no estar bien, y pedir ayuda es un paso valiente. Aquí tienes personas con las que puedes hablar.",
+    intro:
+      "Si estás pasando por un momento difícil, aquí tienes personas con las que puedes hablar, cuando lo necesites.",
+    urgent: "Si sientes que tu vida está en peligro, llama ahora al 123.",
+    resourcesTitle: "Con quién hablar",
+    trustedContactTitle: "Tu persona de confianza",
+    trustedContactDescription:
+      "Alguien cercano a quien podamos escribirle de tu parte para pedirle que se comunique contigo. Tú decides si y cuándo.",
+    banner: {
+      text: "Parece que han sido días difíciles. No tienes que pasarlos sola ni solo.",
+      link: "Ver opciones de apoyo",
+    },
+    acknowledge: "Estoy bien por ahora, ocultar el aviso",
+    resources: {
+      emergencies: {
+        name: "Línea de emergencias 123",
+        description:
+          "Si tu vida o la de alguien más está en peligro ahora mismo, llama de inmediato.",
+        contact: "123",
+        availability: "24 horas, todos los días",
+      },
+      minsalud: {
+        name: "Línea de salud mental del Ministerio de Salud",
+        description:
+          "Orientación y primeros auxilios psicológicos gratuitos con profesionales.",
+        contact: "192, opción 4",
+        availability: "24 horas, todos los días",
+      },
+      unicordobaBienestar: {
+        name: "Bienestar Universitario — Universidad de Córdoba",
+        description:
+          "Atención psicológica para estudiantes. Puedes pedir una cita o acercarte a la División de Bienestar Universitario en tu sede.",
+        contact: "unicordoba.edu.co",
+        availability: "Días hábiles",
+      },
+    },
+    trustedContact: {
+      saved: "Guardamos tu contacto de confianza",
+      notified:
+        "Le escribimos a {name}. Sus respuestas te llegarán a tu correo.",
+      autoNotifyOn:
+        "Le avisaremos automáticamente si tus registros muestran señales de alerta.",
+      autoNotifyOff: "Solo le escribiremos si tú nos lo pides.",
+      notify: "Avisarle ahora",
+      change: "Cambiar",
+      remove: "Quitar",
+      name: "Nombre",
+      email: "Correo",
+      autoNotify:
+        "Avisarle automáticamente si mis registros muestran señales urgentes",
+      autoNotifyHint:
+        "Como máximo un correo al día. El correo solo le pide que se comunique contigo; no incluye tus registros ni tu bitácora.",
+      save: "Guardar contacto",
+      cancel: "Cancelar",
+    },
+    validation: {
+      name: {
+        required: "Escribe el nombre de tu contacto",
+        maxLength: "El nombre no puede tener más de 80 caracteres",
+      },
+      email: {
+        required: "El correo de tu contacto es requerido",
+        invalid: "El correo de tu contacto no es válido",
+      },
+      ruleIds: {
+        invalid: "Las reglas indicadas no son válidas",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "Debes iniciar sesión",
+      VALIDATION_ERROR: "Los datos no son válidos",
+      NO_TRUSTED_CONTACT: "Aún no has elegido un contacto de confianza",
+      RECENTLY_NOTIFIED: "Ya le avisamos hace poco a tu contacto de confianza",
+      EMAIL_FAILED:
+        "No pudimos enviar el aviso. Intenta de nuevo o comunícate directamente",
+      NETWORK_ERROR: "Error de conexión. Verifica tu internet",
+      UNKNOWN_ERROR: "Ocurrió un error inesperado",
+    },
+  },
+  insights: {
+    title: "Lo que dicen tus registros",
+    window: "Últimos {days} días",
+    noEntries:
+      "Registra tu ánimo durante algunos días y aquí verás tus patrones.",
+    notEnough:
+      "Todavía no hay suficientes registros para encontrar patrones. Sigue registrando tu ánimo.",
+    historyLink: "Ver mi historial",
+    slots: {
+      madrugada: "en la madrugada",
+      manana: "en la mañana",
+      tarde: "en la tarde",
+      noche: "en la noche",
+    },
+    weekdays: {
+      sunday: "domingos",
+      monday: "lunes",
+      tuesday: "martes",
+      wednesday: "miércoles",
+      thursday: "jueves",
+      friday: "viernes",
+      saturday: "sábados",
+    },
+    streak: {
+      currentTitle: "Llevas {current} días seguidos registrando tu ánimo",
+      currentDetail: "Tu racha más larga del periodo: {longest} días",
+      longestTitle: "Tu racha más larga fue de {longest} días seguidos",
+      startNew: "Registra hoy para empezar una nueva",
+      keepGoing: "Registra mañana para seguir sumando",
+    },
+    tagCorrelation: {
+      higherTitle: 'Tu ánimo es más alto los días que marcas "{tag}"',
+      lowerTitle: 'Tu ánimo es más bajo los días que marcas "{tag}"',
+      detail:
+        "{withTag} en {count} días con esa emoción, frente a {withoutTag} sin ella",
+    },
+    dayOfWeek: {
+      title: "Los {weekday} suelen ser tus días más bajos",
+      detail: "Promedio de {lowest}; los {weekday}, {highest}",
+    },
+    timeOfDay: {
+      title: "Te sientes mejor {highest} que {lowest}",
+      detail: "{highest} frente a {lowest} en promedio",
+    },
+    volatility: {
+      stable: "Tu ánimo ha estado estable de un día a otro",
+      moderate: "Tu ánimo ha tenido altibajos moderados",
+      high: "Tu ánimo ha cambiado bastante de un día a otro",
+      detail:
+        "Desviación de {deviation} puntos entre {days} días con registros",
+    },
+  },
+  reminders: {
+    title: "Recordatorios",
+    description:
+      "Te avisamos solo los días que aún no has registrado tu ánimo.",
+    channels: {
+      email: "Correo",
+      push: "Notificación en este dispositivo",
+    },
+    days: {
+      sunday: "Dom",
+      monday: "Lun",
+      tuesday: "Mar",
+      wednesday: "Mié",
+      thursday: "Jue",
+      friday: "Vie",
+      saturday: "Sáb",
+    },
+    form: {
+      enabled: "Recordarme registrar mi ánimo",
+      days: "Días",
+      time: "Hora",
+      timezone: "Zona horaria",
+      channels: "Canales",
+      quietHours: "Horas de silencio",
+      quietStart: "Desde",
+      quietEnd: "Hasta",
+      quietHoursHint:
+        "Si tu recordatorio cae en este horario, llega cuando termine.",
+      save: "Guardar",
+      saved: "Preferencias guardadas",
+    },
+    push: {
+      unsupported: "Este navegador no permite notificaciones push.",
+      denied:
+        "Bloqueaste las notificaciones para este sitio. Actívalas desde la configuración del navegador.",
+      subscribe: "Activar notificaciones en este dispositivo",
+      subscribed: "Este dispositivo recibe notificaciones.",
+      unsubscribe: "Desactivar",
+      title: "¿Cómo te sientes hoy?",
+      body: "Registra tu ánimo con un toque.",
+    },
+    validation: {
+      days: {
+        required: "Elige al menos un día",
+      },
+      time: {
+        invalid: "La hora debe tener el formato HH:MM",
+      },
+      channels: {
+        required: "Elige al menos un canal",
+      },
+      quietHours: {
+        incomplete: "Indica el inicio y el fin de las horas de silencio",
+        same: "El inicio y el fin de las horas de silencio deben ser distintos",
+      },
+      subscription: {
+        invalid: "La suscripción de notificaciones no es válida",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "Debes iniciar sesión para configurar recordatorios",
+      VALIDATION_ERROR: "Los datos del recordatorio no son válidos",
+      PUSH_NOT_CONFIGURED:
+        "Las notificaciones push no están disponibles en este servidor",
+      NOT_CONFIGURED: "El programador de recordatorios no está configurado",
+      NETWORK_ERROR: "Error de conexión. Verifica tu internet",
+      UNKNOWN_ERROR: "Ocurrió un error inesperado",
+    },
+  },
+  profile: {
+    settings: {
+      title: "Configuración",
+      profile: "Perfil",
+      emotions: "Mis emociones",
+      emotionsDescription:
+        "Crea las emociones que quieras marcar al registrar tu ánimo, con su color e ícono.",
+      account: "Cuenta",
+      email: "Correo",
+      password: "Contraseña",
+      privacy: "Privacidad",
+      manageEncryption: "Administrar el cifrado de mi bitácora",
+      encrypt: "Cifrar mi bitácora",
+      notifications: "Notificaciones",
+      reminders: "Configurar recordatorios diarios",
+      support: "Apoyo",
+      supportDescription:
+        "Líneas de atención y tu persona de confianza, para cuando lo necesites.",
+      supportLink: "Ver opciones de apoyo",
+      deleteAccount: "Eliminar cuenta",
+      deleteAccountDescription:
+        "Borra tu cuenta y todos tus datos después de un periodo de gracia de {days} días.",
+      deletionScheduled: "Ver o cancelar la eliminación programada",
+      deleteAccountLink: "Eliminar mi cuenta",
+    },
+    form: {
+      timezone: "Zona horaria",
+      locale: "Idioma",
+      moodScale: "¿Con qué escala quieres registrar tu ánimo?",
+      moodScaleHint:
+        "Tus registros anteriores se siguen viendo igual en el historial",
+      save: "Guardar",
+      saved: "Perfil actualizado",
+    },
+    avatar: {
+      alt: "Tu foto de perfil",
+      change: "Cambiar foto",
+      remove: "Quitar foto",
+      saving: "Guardando...",
+      unreadable: "No pudimos leer la imagen. Prueba con otra foto",
+    },
+    activityEmails: {
+      label: "Recibir por correo las invitaciones a actividades",
+      hint: "Aunque las desactives, las actividades siguen apareciendo en tu agenda de inicio.",
+    },
+    teamAggregation: {
+      label: "Incluir mis registros de ánimo en el bienestar del equipo",
+      hint: "Los coordinadores solo ven promedios semanales anónimos, y solo cuando suficientes integrantes registraron su ánimo. Nunca ven tus registros individuales.",
+    },
+    validation: {
+      optOut: {
+        invalid: "La preferencia de privacidad no es válida",
+      },
+      fullName: {
+        minLength: "El nombre debe tener al menos 3 caracteres",
+        maxLength: "El nombre debe tener máximo 80 caracteres",
+      },
+      locale: {
+        invalid: "Elige un idioma de la lista",
+      },
+      moodScale: {
+        invalid: "Elige una escala de ánimo de la lista",
+      },
+      activityEmails: {
+        invalid: "La preferencia de notificaciones no es válida",
+      },
+      avatar: {
+        type: "La foto debe ser una imagen WebP, JPEG o PNG",
+        size: "La foto debe pesar menos de 1 MB",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "Debes iniciar sesión para ver tu perfil",
+      VALIDATION_ERROR: "Los datos del perfil no son válidos",
+      NOT_FOUND: "No encontramos tu perfil",
+      UPLOAD_FAILED: "No pudimos subir tu foto de perfil",
+      NETWORK_ERROR: "Error de conexión. Verifica tu internet",
+      UNKNOWN_ERROR: "Ocurrió un error inesperado",
+    },
+  },
+  account: {
+    back: "← Configuración",
+    title: "Eliminar mi cuenta",
+    gracePeriod:
+      "Tu cuenta no se borra de inmediato: tienes {days} días para arrepentirte. Cerraremos tu sesión y te enviaremos un correo; si vuelves a iniciar sesión antes de la fecha, puedes cancelarlo aquí.",
+    exportFirst: "Si quieres conservar una copia de tus registros, primero",
+    exportLink: "expórtalos",
+    form: {
+      password: "Contraseña actual",
+      acknowledge:
+        "Entiendo que en {days} días se borrarán mi cuenta, mis registros de ánimo, mi bitácora y mis respuestas a actividades, y que no se podrán recuperar.",
+      submit: "Eliminar mi cuenta",
+      pending: "Programando...",
+    },
+    pending: {
+      scheduled: "Tu cuenta y todos tus datos se eliminarán el",
+      cancel: "Cancelar la eliminación",
+      cancelling: "Cancelando...",
+    },
+    validation: {
+      password: {
+        required: "Escribe tu contraseña para confirmar",
+      },
+      acknowledge: {
+        required: "Confirma que entiendes que tus datos se borrarán",
+      },
+    },
+    errors: {
+      UNAUTHORIZED: "Debes iniciar sesión para gestionar tu cuenta",
+      VALIDATION_ERROR: "Los datos no son válidos",
+      PASSWORD_REJECTED: "No pudimos confirmar tu contraseña",
+      NOT_FOUND: "No hay ninguna eliminación programada",
+      NOT_CONFIGURED:
+        "La eliminación de cuentas no está configurada en el servidor",
+      NETWORK_ERROR: "Error de conexión. Verifica tu internet",
+      UNKNOWN_ERROR: "Ocurrió un error inesperado",
+    },
+  },
+  layout: {
+    logoAlt: "Logo de {name}",
+    signIn: "Iniciar sesión",
+    register: "Registrarse",
+    signOut: "Cerrar sesión",
+    nav: {
+      home: "Inicio",
+      history: "Historial",
+      journal: "Bitácora",
+      activities: "Actividades",
+      settings: "Configuración",
+      team: "Equipo",
+      members: "Integrantes",
+    },
+  },
+};
+
+export type Messages = typeof esCO;
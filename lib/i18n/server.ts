@@ -0,0 +1,30 @@
+import { cookies, headers } from "next/headers";
+import { LOCALE_COOKIE, negotiateLocale, type Locale } from "./config";
+import { createI18n, type I18n } from "./translator";
+
+/**
+ * Idioma del request actual (Server Components y Server Actions)
+ *
+ * Con sesión, el middleware deja el idioma del perfil en LOCALE_COOKIE;
+ * sin ella (o si el request no pasó por él) decide Accept-Language.
+ */
+export async function getLocale(): Promise<Locale> {
+  const [cookieStore, headerList] = await Promise.all([cookies(), headers()]);
+  return negotiateLocale({
+    cookie: cookieStore.get(LOCALE_COOKIE)?.value,
+    acceptLanguage: headerList.get("accept-language"),
+  });
+}
+
+/**
+ * Idioma y traductor del request actual
+ *
+ * Uso:
+ * ```typescript
+ * const { t, locale } = await getI18n()
+ * t('layout.nav.home') // "Inicio" / "Home"
+ * ```
+ */
+export async function getI18n(): Promise<I18n> {
+  return createI18n(await getLocale());
+}
@@ -0,0 +1,99 @@
+import { DEFAULT_LOCALE, type Locale } from "./config";
+import { en } from "./messages/en";
+import { esCO, type Messages } from "./messages/es-CO";
+
+const CATALOGS: Record<Locale, Messages> = {
+  "es-CO": esCO,
+  en,
+};
+
+/**
+ * Rutas con punto de todos los mensajes de un catálogo
+ *
+ * @example "auth.errors.INVALID_CREDENTIALS"
+ */
+type MessagePaths<T> = {
+  [K in keyof T & string]: T[K] extends string
+    ? K
+    : `${K}.${MessagePaths<T[K]>}`;
+}[keyof T & string];
+
+export type MessageKey = MessagePaths<Messages>;
+
+/**
+ * Valores para los parámetros `{nombre}` de un mensaje
+ */
+export type MessageParams = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+/**
+ * Idioma activo y su traductor
+ *
+ * Es lo que reciben los helpers que arman textos para la interfaz
+ * (ver getI18n en server.ts y useI18n en client.tsx).
+ */
+export interface I18n {
+  locale: Locale;
+  t: Translator;
+}
+
+function lookup(messages: Messages, key: string): string | undefined {
+  const value = key
+    .split(".")
+    .reduce<unknown>(
+      (node, part) =>
+        node && typeof node === "object"
+          ? (node as Record<string, unknown>)[part]
+          : undefined,
+      messages
+    );
+  return typeof value === "string" ? value : undefined;
+}
+
+function interpolate(template: string, params?: MessageParams): string {
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/**
+ * Crea el traductor de un idioma
+ *
+ * Si a un catálogo le faltara un mensaje se usa el de DEFAULT_LOCALE,
+ * y si tampoco existe se devuelve la clave tal cual.
+ */
+export function createTranslator(locale: Locale): Translator {
+  const messages = CATALOGS[locale];
+  return (key, params) =>
+    interpolate(
+      lookup(messages, key) ?? lookup(CATALOGS[DEFAULT_LOCALE], key) ?? key,
+      params
+    );
+}
+
+export function createI18n(locale: Locale): I18n {
+  return { locale, t: createTranslator(locale) };
+}
+
+/**
+ * Indica si un texto es la clave de un mensaje del catálogo
+ */
+export function isMessageKey(value: string): value is MessageKey {
+  return lookup(CATALOGS[DEFAULT_LOCALE], value) !== undefined;
+}
+
+/**
+ * Traduce un texto que puede ser una clave del catálogo
+ *
+ * Los mensajes de los schemas son claves; los que vienen de fuera
+ * (p. ej. de Supabase) se devuelven sin cambios.
+ */
+export function translateText(
+  t: Translator,
+  text: string,
+  params?: MessageParams
+): string {
+  return isMessageKey(text) ? t(text, params) : text;
+}
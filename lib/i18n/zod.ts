@@ -0,0 +1,39 @@
+import { z } from "zod";
+import type { Locale } from "./config";
+import { translateText, type I18n } from "./translator";
+
+/**
+ * Mensajes genéricos de zod para cada idioma
+ */
+const ZOD_LOCALES: Record<Locale, () => { localeError: z.core.$ZodErrorMap }> =
+  {
+    "es-CO": z.locales.es,
+    en: z.locales.en,
+  };
+
+/**
+ * Mapa de errores de zod en el idioma indicado
+ *
+ * Cubre los errores sin mensaje propio (tipos, enums, etc.). Los
+ * mensajes propios de los schemas son claves del catálogo y se
+ * traducen con getZodErrorText.
+ *
+ * Uso:
+ * ```typescript
+ * schema.safeParse(input, { error: zodErrorMap(locale) })
+ * ```
+ */
+export function zodErrorMap(locale: Locale): z.core.$ZodErrorMap {
+  return ZOD_LOCALES[locale]().localeError;
+}
+
+/**
+ * Mensaje traducido del primer problema de una validación
+ */
+export function getZodErrorText(
+  error: z.ZodError,
+  { t }: I18n
+): string | undefined {
+  const message = error.issues[0]?.message;
+  return message === undefined ? undefined : translateText(t, message);
+}
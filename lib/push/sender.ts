@@ -0,0 +1,117 @@
+import webpush, { WebPushError } from "web-push";
+import { env } from "@lib/config/env";
+
+/**
+ * Envío de notificaciones web push
+ *
+ * Usa las llaves VAPID de las variables de entorno. El service worker
+ * (public/sw.js) recibe el payload y muestra la notificación.
+ */
+
+/**
+ * Suscripción tal como la entrega PushSubscription.toJSON() en el navegador
+ */
+export interface PushSubscriptionData {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+/**
+ * Contenido de la notificación (lo lee public/sw.js)
+ */
+export interface PushPayload {
+  title: string;
+  body: string;
+  url?: string;
+  tag?: string;
+}
+
+/**
+ * Tipos de errores del envío de notificaciones
+ *
+ * SUBSCRIPTION_EXPIRED indica que el navegador revocó la suscripción
+ * y que se debe borrar.
+ */
+export enum PushErrorType {
+  NOT_CONFIGURED = "NOT_CONFIGURED",
+  SUBSCRIPTION_EXPIRED = "SUBSCRIPTION_EXPIRED",
+  SEND_FAILED = "SEND_FAILED",
+}
+
+export interface PushError {
+  type: PushErrorType;
+  message: string;
+  details?: string;
+}
+
+export type PushResult =
+  | { success: true; data: undefined }
+  | { success: false; error: PushError };
+
+const PUSH_ERROR_MESSAGES: Record<PushErrorType, string> = {
+  [PushErrorType.NOT_CONFIGURED]:
+    "Las notificaciones push no están configuradas en el servidor",
+  [PushErrorType.SUBSCRIPTION_EXPIRED]: "La suscripción ya no es válida",
+  [PushErrorType.SEND_FAILED]: "No pudimos enviar la notificación",
+};
+
+function createPushError(type: PushErrorType, details?: string): PushError {
+  return { type, message: PUSH_ERROR_MESSAGES[type], details };
+}
+
+/**
+ * Indica si hay llaves VAPID para enviar notificaciones
+ */
+export function isPushConfigured(): boolean {
+  return Boolean(env.NEXT_PUBLIC_VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY);
+}
+
+/**
+ * Envía una notificación a una suscripción
+ *
+ * @param subscription - Suscripción guardada del navegador
+ * @param payload - Título, texto y enlace de la notificación
+ * @returns PushResult; SUBSCRIPTION_EXPIRED si hay que borrarla
+ */
+export async function sendPush(
+  subscription: PushSubscriptionData,
+  payload: PushPayload
+): Promise<PushResult> {
+  if (!env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || !env.VAPID_PRIVATE_KEY) {
+    return {
+      success: false,
+      error: createPushError(PushErrorType.NOT_CONFIGURED),
+    };
+  }
+
+  try {
+    await webpush.sendNotification(subscription, JSON.stringify(payload), {
+      vapidDetails: {
+        subject: env.VAPID_SUBJECT,
+        publicKey: env.NEXT_PUBLIC_VAPID_PUBLIC_KEY,
+        privateKey: env.VAPID_PRIVATE_KEY,
+      },
+    });
+    return { success: true, data: undefined };
+  } catch (error) {
+    // 404 y 410: el navegador eliminó la suscripción
+    if (
+      error instanceof WebPushError &&
+      (error.statusCode === 404 || error.statusCode === 410)
+    ) {
+      return {
+        success: false,
+        error: createPushError(PushErrorType.SUBSCRIPTION_EXPIRED),
+      };
+    }
+
+    console.error("Error en sendPush:", error);
+    return {
+      success: false,
+      error: createPushError(
+        PushErrorType.SEND_FAILED,
+        error instanceof Error ? error.message : undefined
+      ),
+    };
+  }
+}
@@ -0,0 +1,197 @@
+import { headers } from "next/headers";
+import { env } from "@lib/config/env";
+import { createMemoryStore } from "./stores/memory";
+import { createRedisRestStore } from "./stores/redis";
+import type { RateLimitDecision, RateLimitRule, RateLimitStore } from "./types";
+
+/**
+ * Límite de intentos y bloqueo progresivo
+ *
+ * El almacenamiento se elige con RATE_LIMIT_STORE:
+ * - memory: contadores en memoria del proceso (por defecto)
+ * - redis: API REST compatible con Redis (RATE_LIMIT_REDIS_URL y
+ *   RATE_LIMIT_REDIS_TOKEN), compartida entre instancias
+ *
+ * Si el almacenamiento falla, se permite el intento: una caída de
+ * Redis no debe dejar a nadie sin poder iniciar sesión.
+ *
+ * Ejemplo de uso:
+ * ```typescript
+ * const decision = await consumeRateLimits([
+ *   [`signin:ip:${ip}`, { limit: 30, windowSeconds: 900 }],
+ *   [`signin:email:${email}`, { limit: 10, windowSeconds: 900 }],
+ * ])
+ * if (!decision.allowed) {
+ *   // decision.retryAfterSeconds
+ * }
+ * ```
+ */
+
+/**
+ * Política de bloqueo progresivo
+ */
+export interface LockoutPolicy {
+  freeAttempts: number;
+  baseSeconds: number;
+  maxSeconds: number;
+  failureWindowSeconds: number;
+}
+
+const KEY_PREFIX = "rl:";
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Crea el almacenamiento configurado en las variables de entorno
+ */
+function createConfiguredStore(): RateLimitStore {
+  if (env.RATE_LIMIT_STORE === "redis") {
+    if (env.RATE_LIMIT_REDIS_URL) {
+      return createRedisRestStore({
+        url: env.RATE_LIMIT_REDIS_URL,
+        token: env.RATE_LIMIT_REDIS_TOKEN,
+      });
+    }
+    console.error(
+      "RATE_LIMIT_STORE=redis sin RATE_LIMIT_REDIS_URL; se usa memoria"
+    );
+  }
+  return createMemoryStore();
+}
+
+/**
+ * Almacenamiento de la app (se crea una sola vez)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  store ??= createConfiguredStore();
+  return store;
+}
+
+/**
+ * Reemplaza el almacenamiento (p. ej. uno en memoria limpio en pruebas)
+ */
+export function setRateLimitStore(next: RateLimitStore | null): void {
+  store = next;
+}
+
+function secondsUntil(resetAt: number): number {
+  return Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+}
+
+/**
+ * Cuenta un intento en cada llave y dice si se permite
+ *
+ * Se cuentan todas las llaves aunque una ya esté agotada, para que
+ * insistir desde una IP bloqueada no deje de sumar. Si varias están
+ * agotadas, se devuelve la espera más larga.
+ *
+ * @param limits - Pares [llave, límite]
+ */
+export async function consumeRateLimits(
+  limits: [key: string, rule: RateLimitRule][]
+): Promise<RateLimitDecision> {
+  try {
+    const rateLimitStore = getRateLimitStore();
+    const counters = await Promise.all(
+      limits.map(([key, rule]) =>
+        rateLimitStore.increment(KEY_PREFIX + key, rule.windowSeconds * 1000)
+      )
+    );
+
+    const retryAfterSeconds = counters.reduce(
+      (longest, counter, index) =>
+        counter.count > limits[index][1].limit
+          ? Math.max(longest, secondsUntil(counter.resetAt))
+          : longest,
+      0
+    );
+
+    return retryAfterSeconds > 0
+      ? { allowed: false, retryAfterSeconds }
+      : { allowed: true };
+  } catch (error) {
+    console.error("Error en consumeRateLimits:", error);
+    return { allowed: true };
+  }
+}
+
+/**
+ * Dice si una llave está bloqueada por fallos anteriores
+ *
+ * No cuenta como intento.
+ */
+export async function checkLockout(key: string): Promise<RateLimitDecision> {
+  try {
+    const lock = await getRateLimitStore().get(`${KEY_PREFIX}lock:${key}`);
+    return lock
+      ? { allowed: false, retryAfterSeconds: secondsUntil(lock.resetAt) }
+      : { allowed: true };
+  } catch (error) {
+    console.error("Error en checkLockout:", error);
+    return { allowed: true };
+  }
+}
+
+/**
+ * Registra un intento fallido y, pasados `freeAttempts`, bloquea la
+ * llave por base × 2^(fallos extra) segundos (con tope en `maxSeconds`)
+ *
+ * @returns La decisión para el siguiente intento
+ */
+export async function recordFailure(
+  key: string,
+  policy: LockoutPolicy
+): Promise<RateLimitDecision> {
+  try {
+    const rateLimitStore = getRateLimitStore();
+    const failures = await rateLimitStore.increment(
+      `${KEY_PREFIX}fail:${key}`,
+      policy.failureWindowSeconds * 1000
+    );
+
+    const extra = failures.count - policy.freeAttempts;
+    if (extra < 0) return { allowed: true };
+
+    const lockSeconds = Math.min(
+      policy.baseSeconds * 2 ** extra,
+      policy.maxSeconds
+    );
+    const lock = await rateLimitStore.increment(
+      `${KEY_PREFIX}lock:${key}`,
+      lockSeconds * 1000
+    );
+    return { allowed: false, retryAfterSeconds: secondsUntil(lock.resetAt) };
+  } catch (error) {
+    console.error("Error en recordFailure:", error);
+    return { allowed: true };
+  }
+}
+
+/**
+ * Olvida los fallos de una llave (después de un intento exitoso)
+ */
+export async function clearFailures(key: string): Promise<void> {
+  try {
+    const rateLimitStore = getRateLimitStore();
+    await Promise.all([
+      rateLimitStore.reset(`${KEY_PREFIX}fail:${key}`),
+      rateLimitStore.reset(`${KEY_PREFIX}lock:${key}`),
+    ]);
+  } catch (error) {
+    console.error("Error en clearFailures:", error);
+  }
+}
+
+/**
+ * IP del cliente de la petición actual
+ *
+ * Confía en `x-forwarded-for` / `x-real-ip`, que en Vercel (o detrás
+ * de un proxy bien configurado) los pone el proxy y no el cliente.
+ */
+export async function getClientIp(): Promise<string> {
+  const requestHeaders = await headers();
+  const forwarded = requestHeaders.get("x-forwarded-for")?.split(",")[0];
+  return (
+    forwarded?.trim() || requestHeaders.get("x-real-ip")?.trim() || "unknown"
+  );
+}
@@ -0,0 +1,40 @@
+import type { RateLimitCounter, RateLimitStore } from "../types";
+
+/**
+ * Contadores en memoria del proceso (desarrollo y pruebas)
+ *
+ * Cada instancia del servidor tiene los suyos, así que en producción
+ * con varias instancias conviene el store de Redis.
+ */
+export function createMemoryStore(): RateLimitStore {
+  const counters = new Map<string, RateLimitCounter>();
+
+  const read = (key: string): RateLimitCounter | null => {
+    const counter = counters.get(key);
+    if (!counter) return null;
+    if (counter.resetAt <= Date.now()) {
+      counters.delete(key);
+      return null;
+    }
+    return counter;
+  };
+
+  return {
+    async increment(key, windowMs) {
+      const current = read(key);
+      const next = current
+        ? { ...current, count: current.count + 1 }
+        : { count: 1, resetAt: Date.now() + windowMs };
+      counters.set(key, next);
+      return next;
+    },
+
+    async get(key) {
+      return read(key);
+    },
+
+    async reset(key) {
+      counters.delete(key);
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import type { RateLimitStore } from "../types";
+
+/**
+ * Datos de conexión a una API REST compatible con Redis
+ */
+export interface RedisRestConfig {
+  url: string;
+  token?: string;
+}
+
+type PipelineResponse = { result?: unknown; error?: string }[];
+
+/**
+ * Contadores en Redis a través de su API REST (formato de Upstash)
+ *
+ * No usa un cliente de Redis: envía los comandos a `<url>/pipeline`
+ * con fetch, así funciona también en el runtime edge.
+ *
+ * Ejemplo de uso:
+ * ```typescript
+ * const store = createRedisRestStore({
+ *   url: 'https://xxx.upstash.io',
+ *   token: process.env.RATE_LIMIT_REDIS_TOKEN,
+ * })
+ * ```
+ */
+export function createRedisRestStore(config: RedisRestConfig): RateLimitStore {
+  const pipeline = async (
+    commands: (string | number)[][]
+  ): Promise<unknown[]> => {
+    const response = await fetch(`${config.url.replace(/\/$/, "")}/pipeline`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.token && { Authorization: `Bearer ${config.token}` }),
+      },
+      body: JSON.stringify(commands),
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      throw new Error(`Redis respondió ${response.status}`);
+    }
+
+    const results = (await response.json()) as PipelineResponse;
+    const failed = results.find((item) => item.error);
+    if (failed) throw new Error(failed.error);
+
+    return results.map((item) => item.result);
+  };
+
+  // PTTL devuelve -2 si la llave no existe y -1 si no vence
+  const toResetAt = (ttlMs: unknown) => Date.now() + Math.max(Number(ttlMs), 0);
+
+  return {
+    async increment(key, windowMs) {
+      // SET NX crea la ventana solo la primera vez; INCR conserva el TTL
+      const [, count, ttl] = await pipeline([
+        ["SET", key, 0, "PX", windowMs, "NX"],
+        ["INCR", key],
+        ["PTTL", key],
+      ]);
+      return { count: Number(count), resetAt: toResetAt(ttl) };
+    },
+
+    async get(key) {
+      const [count, ttl] = await pipeline([
+        ["GET", key],
+        ["PTTL", key],
+      ]);
+      if (count === null || Number(ttl) === -2) return null;
+      return { count: Number(count), resetAt: toResetAt(ttl) };
+    },
+
+    async reset(key) {
+      await pipeline([["DEL", key]]);
+    },
+  };
+}
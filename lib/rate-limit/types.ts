@@ -0,0 +1,50 @@
+/**
+ * Contador de intentos dentro de una ventana fija
+ *
+ * `resetAt` es el momento (ms) en que la ventana vence y el
+ * contador vuelve a cero.
+ */
+export interface RateLimitCounter {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Límite de intentos: como máximo `limit` cada `windowSeconds`
+ */
+export interface RateLimitRule {
+  limit: number;
+  windowSeconds: number;
+}
+
+/**
+ * Resultado de consultar un límite
+ *
+ * Si no está permitido, `retryAfterSeconds` dice cuánto esperar.
+ */
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number };
+
+/**
+ * Almacenamiento de contadores
+ *
+ * Cualquier implementación (memoria, Redis) cumple esta interfaz.
+ * Los métodos lanzan si el almacenamiento falla; lib/rate-limit/limiter
+ * decide qué hacer en ese caso.
+ */
+export interface RateLimitStore {
+  /**
+   * Suma 1 al contador. Si no existía (o venció), crea uno nuevo
+   * que vence en `windowMs`.
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+  /**
+   * Contador actual, o null si no existe o ya venció
+   */
+  get(key: string): Promise<RateLimitCounter | null>;
+  /**
+   * Borra el contador
+   */
+  reset(key: string): Promise<void>;
+}
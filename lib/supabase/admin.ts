@@ -0,0 +1,49 @@
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+import { env } from "@lib/config/env";
+
+/**
+ * Crea un cliente de Supabase con la Service Role Key.
+ *
+ * Este cliente IGNORA las políticas RLS y puede administrar usuarios
+ * (cambiar app_metadata, eliminar cuentas, etc.).
+ *
+ * Úsalo SOLO en:
+ * - Server Actions y Route Handlers que ya verificaron permisos
+ *
+ * NUNCA lo importes desde un Client Component: la Service Role Key
+ * no debe llegar al navegador.
+ *
+ * @throws Error si SUPABASE_SERVICE_ROLE_KEY no está configurada
+ *
+ * Ejemplo de uso:
+ * ```typescript
+ * const supabase = createAdminClient()
+ * await supabase.auth.admin.updateUserById(id, { app_metadata: { role } })
+ * ```
+ */
+export function createAdminClient() {
+  if (!env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error(
+      "SUPABASE_SERVICE_ROLE_KEY no está configurada; las operaciones de administración no están disponibles"
+    );
+  }
+
+  return createSupabaseClient(
+    env.NEXT_PUBLIC_SUPABASE_URL,
+    env.SUPABASE_SERVICE_ROLE_KEY,
+    {
+      auth: {
+        // Cliente sin sesión: no persiste ni refresca tokens
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+}
+
+/**
+ * Indica si las operaciones de administración están disponibles
+ */
+export function isAdminClientConfigured(): boolean {
+  return Boolean(env.SUPABASE_SERVICE_ROLE_KEY);
+}
@@ -1,5 +1,27 @@
 import { createServerClient } from "@supabase/ssr";
 import { NextResponse, type NextRequest } from "next/server";
+import { siteConfig } from "@lib/config/site";
+import {
+  getSafeRedirectPath,
+  isGuestOnlyRoute,
+  isPublicRoute,
+} from "@lib/auth/utils";
+import {
+  LOCALE_COOKIE,
+  LOCALE_COOKIE_MAX_AGE,
+  isLocale,
+  negotiateLocale,
+} from "@lib/i18n/config";
+
+// Nueva respuesta que ve el request modificado, sin perder las cookies
+// que ya tenía la anterior
+function rebuildResponse(request: NextRequest, previous: NextResponse) {
+  const response = NextResponse.next({ request });
+  previous.cookies.getAll().forEach((cookie) => {
+    response.cookies.set(cookie);
+  });
+  return response;
+}
 
 export async function updateSession(request: NextRequest) {
   // Crear una respuesta inicial (puede ser modificada)
@@ -41,6 +63,70 @@ export async function updateSession(request: NextRequest) {
     data: { user },
   } = await supabase.auth.getUser();
 
+  // Idioma: la cookie guarda el del perfil mientras dure la sesión
+  // (profile.actions la actualiza al cambiarlo), así que el perfil solo
+  // se consulta cuando falta. Sin sesión se quita, para que el siguiente
+  // usuario en este navegador no herede el idioma del anterior
+  const currentLocale = request.cookies.get(LOCALE_COOKIE)?.value;
+  if (user && !isLocale(currentLocale)) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("locale")
+      .eq("id", user.id)
+      .maybeSingle();
+    const locale = negotiateLocale({
+      profile: profile?.locale,
+      acceptLanguage: request.headers.get("accept-language"),
+    });
+
+    // También en la cookie del request, para que el render ya lo vea
+    request.cookies.set(LOCALE_COOKIE, locale);
+    supabaseResponse = rebuildResponse(request, supabaseResponse);
+    supabaseResponse.cookies.set(LOCALE_COOKIE, locale, {
+      path: "/",
+      sameSite: "lax",
+      maxAge: LOCALE_COOKIE_MAX_AGE,
+    });
+  } else if (!user && currentLocale !== undefined) {
+    request.cookies.delete(LOCALE_COOKIE);
+    supabaseResponse = rebuildResponse(request, supabaseResponse);
+    supabaseResponse.cookies.delete(LOCALE_COOKIE);
+  }
+
+  const { pathname, search } = request.nextUrl;
+
+  // Redirigir conservando las cookies que Supabase haya refrescado
+  const redirectTo = (path: string) => {
+    const url = request.nextUrl.clone();
+    const [target, query] = path.split("?");
+    url.pathname = target;
+    url.search = query ? `?${query}` : "";
+
+    const response = NextResponse.redirect(url);
+    supabaseResponse.cookies.getAll().forEach((cookie) => {
+      response.cookies.set(cookie);
+    });
+    return response;
+  };
+
+  // Sin sesión en una ruta protegida → login con URL de retorno
+  if (!user && !isPublicRoute(pathname)) {
+    const next = encodeURIComponent(`${pathname}${search}`);
+    return redirectTo(`${siteConfig.routes.login}?next=${next}`);
+  }
+
+  // Correo sin verificar en una ruta protegida → /verify
+  if (user && !user.email_confirmed_at && !isPublicRoute(pathname)) {
+    return redirectTo(siteConfig.routes.verify);
+  }
+
+  // Con sesión en login/register → a donde iba o a /home
+  if (user && isGuestOnlyRoute(pathname)) {
+    return redirectTo(
+      getSafeRedirectPath(request.nextUrl.searchParams.get("next"))
+    );
+  }
+
   // Retornar la respuesta (con cookies actualizadas si hubo cambios)
   return supabaseResponse;
 }
@@ -53,7 +139,13 @@ export async function updateSession(request: NextRequest) {
  * 1. Crea un cliente Supabase especial para el middleware
  * 2. Refresca la sesión del usuario si existe
  * 3. Actualiza las cookies si la sesión cambió
- * 4. Retorna la respuesta modificada con las cookies actualizadas
+ * 4. Deja el idioma del perfil en la cookie LOCALE_COOKIE si aún no
+ *    está (solo entonces consulta la base) y la quita sin sesión
+ * 5. Protege las rutas:
+ *    - Sin sesión en ruta protegida → /login?next=<ruta original>
+ *    - Correo sin verificar en ruta protegida → /verify
+ *    - Con sesión en /login o /register → `next` o /home
+ * 6. Retorna la respuesta modificada con las cookies actualizadas
  *
  * ¿Por qué es importante?
  * - Las sesiones de Supabase expiran después de cierto tiempo
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from "vitest";
+import type { PostgrestError } from "@supabase/supabase-js";
+import { fetchAllPages } from "./pagination";
+
+const ROWS = Array.from({ length: 2500 }, (_, index) => index);
+
+describe("fetchAllPages", () => {
+  it("sigue pidiendo páginas hasta que una llega incompleta", async () => {
+    const fetchPage = vi.fn(async (from: number, to: number) => ({
+      data: ROWS.slice(from, to + 1),
+      error: null,
+    }));
+
+    const { data } = await fetchAllPages(fetchPage);
+
+    expect(data).toEqual(ROWS);
+    expect(fetchPage.mock.calls).toEqual([
+      [0, 999],
+      [1000, 1999],
+      [2000, 2999],
+    ]);
+  });
+
+  it("pide una página vacía de más cuando el total es múltiplo exacto", async () => {
+    const rows = ROWS.slice(0, 2000);
+    const fetchPage = vi.fn(async (from: number, to: number) => ({
+      data: rows.slice(from, to + 1),
+      error: null,
+    }));
+
+    const { data } = await fetchAllPages(fetchPage);
+
+    expect(data).toHaveLength(2000);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it("devuelve el error de cualquier página", async () => {
+    const error = { message: "timeout" } as PostgrestError;
+    const fetchPage = vi.fn(async (from: number) =>
+      from === 0
+        ? { data: ROWS.slice(0, 1000), error: null }
+        : { data: null, error }
+    );
+
+    expect(await fetchAllPages(fetchPage)).toEqual({ data: null, error });
+  });
+});
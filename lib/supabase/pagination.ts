@@ -0,0 +1,47 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+
+/**
+ * Filas por página al leer listas largas
+ *
+ * Igual al `max_rows` por defecto de PostgREST en Supabase: una
+ * consulta sin `.range()` se corta ahí sin devolver ningún error. No
+ * debe ser mayor que `max_rows`, o una página corta parecería la
+ * última.
+ */
+export const SUPABASE_PAGE_SIZE = 1000;
+
+type PageResult<T> = { data: T[] | null; error: PostgrestError | null };
+
+/**
+ * Lee todas las filas de una consulta, página por página
+ *
+ * `fetchPage` debe armar la consulta completa en cada llamada (los
+ * builders de Supabase no se reutilizan) y terminar con
+ * `.range(from, to)`. El orden debe desempatar por una columna única
+ * para que ninguna fila quede en dos páginas o en ninguna.
+ *
+ * Uso:
+ * ```ts
+ * const { data, error } = await fetchAllPages((from, to) =>
+ *   supabase.from("mood_entries").select().order("id").range(from, to)
+ * );
+ * ```
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<PageResult<T>>,
+  pageSize: number = SUPABASE_PAGE_SIZE
+): Promise<{ data: T[]; error: null } | { data: null; error: PostgrestError }> {
+  const rows: T[] = [];
+
+  for (;;) {
+    const { data, error } = await fetchPage(
+      rows.length,
+      rows.length + pageSize - 1
+    );
+    if (error) return { data: null, error };
+
+    const page = data ?? [];
+    rows.push(...page);
+    if (page.length < pageSize) return { data: rows, error: null };
+  }
+}
@@ -0,0 +1,54 @@
+import { SUPABASE_PAGE_SIZE } from "./pagination";
+
+type Row = object;
+
+/**
+ * Cliente de Supabase falso para pruebas de repositorios
+ *
+ * Imita el límite de filas de PostgREST: cada consulta devuelve como
+ * mucho `maxRows` filas, respetando `.range()`. No aplica filtros ni
+ * orden: devuelve las filas de la tabla tal como se le pasan, así que
+ * deben venir ya en el orden que pide el repositorio.
+ *
+ * Solo para pruebas (se usa con `vi.mock("@lib/supabase/server")`).
+ */
+export function createFakeSupabaseClient(
+  tables: Record<string, Row[]>,
+  { maxRows = SUPABASE_PAGE_SIZE }: { maxRows?: number } = {}
+) {
+  const queries: { table: string; from: number; to: number }[] = [];
+
+  const from = (table: string) => {
+    let range = { from: 0, to: Number.POSITIVE_INFINITY };
+
+    const builder: Record<string, unknown> = new Proxy(
+      {},
+      {
+        get(_, method) {
+          if (method === "range") {
+            return (start: number, end: number) => {
+              range = { from: start, to: end };
+              return builder;
+            };
+          }
+          if (method === "then") {
+            const end = Math.min(range.to + 1, range.from + maxRows);
+            queries.push({ table, ...range });
+            const result = {
+              data: (tables[table] ?? []).slice(range.from, end),
+              error: null,
+            };
+            return (resolve: (value: typeof result) => unknown) =>
+              resolve(result);
+          }
+          // select, eq, gte, order, overrideTypes...: se encadenan
+          return () => builder;
+        },
+      }
+    );
+
+    return builder;
+  };
+
+  return { client: { from }, queries };
+}
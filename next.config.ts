@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // Las importaciones envían el CSV completo (ver MAX_IMPORT_FILE_CHARS)
+      bodySizeLimit: "4mb",
+    },
+  },
 };
 
 export default nextConfig;
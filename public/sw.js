@@ -0,0 +1,107 @@
+// Service worker de HI - Mood Tracker
+//
+// - Guarda en caché los archivos estáticos de Next (/_next/static), que
+//   tienen hash en el nombre y nunca cambian
+// - Las páginas siempre se piden a la red: no se guardan páginas con datos
+//   personales en el dispositivo. Sin conexión se muestra /offline
+// - Muestra las notificaciones push (recordatorios) y abre la app al tocarlas
+//
+// Los registros hechos sin conexión NO pasan por aquí: la app los guarda en
+// IndexedDB y los envía con las Server Actions al recuperar la red.
+
+const CACHE_VERSION = "v1";
+const STATIC_CACHE = `hi-mt-static-${CACHE_VERSION}`;
+const OFFLINE_URL = "/offline";
+const PRECACHE_URLS = [OFFLINE_URL, "/images/logo.png", "/manifest.webmanifest"];
+
+/**
+ * Guarda en caché /offline y los scripts y estilos que necesita
+ */
+async function precache() {
+  const cache = await caches.open(STATIC_CACHE);
+  await cache.addAll(PRECACHE_URLS);
+
+  const response = await cache.match(OFFLINE_URL);
+  const html = response ? await response.text() : "";
+  const assets = new Set(html.match(/\/_next\/static\/[^"'\s)]+/g) || []);
+  await Promise.all(
+    Array.from(assets).map((asset) => cache.add(asset).catch(() => undefined))
+  );
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("hi-mt-") && key !== STATIC_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  // Navegación: red primero, /offline si no hay conexión
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request).catch(() =>
+        caches.match(OFFLINE_URL).then((cached) => cached || Response.error())
+      )
+    );
+    return;
+  }
+
+  // Archivos estáticos con hash: caché primero
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(
+      caches.open(STATIC_CACHE).then((cache) =>
+        cache.match(request).then(
+          (cached) =>
+            cached ||
+            fetch(request).then((response) => {
+              if (response.ok) cache.put(request, response.clone());
+              return response;
+            })
+        )
+      )
+    );
+  }
+});
+
+self.addEventListener("push", (event) => {
+  const data = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || "HI - Mood Tracker", {
+      body: data.body,
+      tag: data.tag,
+      icon: "/images/logo.png",
+      data: { url: data.url || "/home" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data.url, self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window" }).then((windows) => {
+      const existing = windows.find((client) => client.url === url);
+      return existing ? existing.focus() : self.clients.openWindow(url);
+    })
+  );
+});
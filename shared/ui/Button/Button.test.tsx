@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { Button } from "./Button";
+
+afterEach(cleanup);
+
+describe("Button", () => {
+  it("es type=button por defecto y responde al clic", () => {
+    const onClick = vi.fn();
+    render(<Button onClick={onClick}>Guardar</Button>);
+
+    const button = screen.getByRole("button", { name: "Guardar" });
+    expect(button.getAttribute("type")).toBe("button");
+
+    fireEvent.click(button);
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it("respeta el type explícito", () => {
+    render(<Button type="submit">Enviar</Button>);
+
+    expect(
+      screen.getByRole("button", { name: "Enviar" }).getAttribute("type")
+    ).toBe("submit");
+  });
+
+  it("mientras carga queda deshabilitado, con aria-busy y el texto de carga", () => {
+    const onClick = vi.fn();
+    render(
+      <Button loading loadingText="Guardando..." onClick={onClick}>
+        Guardar
+      </Button>
+    );
+
+    const button = screen.getByRole("button", { name: "Guardando..." });
+    expect(button.hasAttribute("disabled")).toBe(true);
+    expect(button.getAttribute("aria-busy")).toBe("true");
+
+    fireEvent.click(button);
+    expect(onClick).not.toHaveBeenCalled();
+  });
+
+  it("sin loadingText usa el texto de carga del catálogo", () => {
+    render(<Button loading>Guardar</Button>);
+
+    expect(screen.getByRole("button", { name: "Cargando..." })).toBeTruthy();
+  });
+
+  it("sin cargar no lleva aria-busy", () => {
+    render(<Button>Guardar</Button>);
+
+    const button = screen.getByRole("button", { name: "Guardar" });
+    expect(button.hasAttribute("aria-busy")).toBe(false);
+    expect(button.hasAttribute("disabled")).toBe(false);
+  });
+});
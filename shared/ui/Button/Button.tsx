@@ -0,0 +1,71 @@
+"use client";
+
+import type { ComponentProps } from "react";
+import { useI18n } from "@lib/i18n/client";
+
+export type ButtonVariant = "primary" | "secondary" | "danger" | "ghost";
+export type ButtonSize = "sm" | "md";
+
+type Props = ComponentProps<"button"> & {
+  variant?: ButtonVariant;
+  size?: ButtonSize;
+  // Deshabilita el botón y muestra el indicador de carga
+  loading?: boolean;
+  // Texto mientras carga (por defecto ui.loading)
+  loadingText?: string;
+};
+
+const VARIANT_CLASSES: Record<ButtonVariant, string> = {
+  primary:
+    "bg-slate-900 text-white hover:bg-slate-700 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-300",
+  secondary:
+    "border border-slate-400 bg-white text-slate-900 hover:bg-slate-100 dark:border-slate-500 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-slate-800",
+  danger:
+    "bg-red-700 text-white hover:bg-red-800 dark:bg-red-500 dark:text-slate-950 dark:hover:bg-red-400",
+  ghost:
+    "text-slate-900 underline-offset-4 hover:underline dark:text-slate-100",
+};
+
+const SIZE_CLASSES: Record<ButtonSize, string> = {
+  sm: "min-h-8 px-3 py-1 text-sm",
+  md: "min-h-10 px-4 py-2 text-sm",
+};
+
+/**
+ * Botón con variantes y estado de carga
+ *
+ * Mientras `loading` es true el botón queda deshabilitado, con
+ * `aria-busy` y el texto de carga, para que no se envíe dos veces.
+ * `type` es "button" por defecto; los de envío lo indican explícito.
+ */
+export function Button({
+  variant = "primary",
+  size = "md",
+  loading = false,
+  loadingText,
+  disabled,
+  type = "button",
+  className = "",
+  children,
+  ...props
+}: Props) {
+  const { t } = useI18n();
+
+  return (
+    <button
+      type={type}
+      disabled={disabled || loading}
+      aria-busy={loading || undefined}
+      className={`inline-flex items-center justify-center gap-2 rounded-md font-medium focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-900 disabled:cursor-not-allowed disabled:opacity-60 dark:focus-visible:outline-slate-100 ${VARIANT_CLASSES[variant]} ${SIZE_CLASSES[size]} ${className}`}
+      {...props}
+    >
+      {loading && (
+        <span
+          aria-hidden="true"
+          className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent motion-reduce:animate-none"
+        />
+      )}
+      {loading ? loadingText ?? t("ui.loading") : children}
+    </button>
+  );
+}
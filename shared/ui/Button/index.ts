@@ -0,0 +1 @@
+export { Button, type ButtonSize, type ButtonVariant } from "./Button";
@@ -0,0 +1,41 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from "vitest";
+import { cleanup, render, screen } from "@testing-library/react";
+import { Card } from "./Card";
+
+afterEach(cleanup);
+
+describe("Card", () => {
+  it("con título y titleId queda etiquetada por el título", () => {
+    render(
+      <Card title="Resumen" titleId="resumen" description="Última semana">
+        <p>Contenido</p>
+      </Card>
+    );
+
+    const section = screen.getByRole("region", { name: "Resumen" });
+    expect(screen.getByRole("heading", { level: 2, name: "Resumen" }).id).toBe(
+      "resumen"
+    );
+    expect(section.textContent).toContain("Última semana");
+    expect(section.textContent).toContain("Contenido");
+  });
+
+  it("sin titleId no apunta a un id inexistente", () => {
+    const { container } = render(<Card title="Resumen" />);
+
+    const section = container.querySelector("section");
+    expect(section?.hasAttribute("aria-labelledby")).toBe(false);
+  });
+
+  it("sin título ni descripción solo muestra el contenido", () => {
+    const { container } = render(
+      <Card>
+        <p>Contenido</p>
+      </Card>
+    );
+
+    expect(container.querySelector("h2")).toBeNull();
+    expect(container.querySelector("section")?.textContent).toBe("Contenido");
+  });
+});
@@ -0,0 +1,47 @@
+import type { ReactNode } from "react";
+
+type Props = {
+  // Título de la tarjeta (h2); también le da nombre a la sección
+  title?: ReactNode;
+  description?: ReactNode;
+  children?: ReactNode;
+  className?: string;
+  titleId?: string;
+};
+
+/**
+ * Tarjeta: sección con borde, título y descripción opcionales
+ *
+ * Se renderiza como <section>; con `title` queda etiquetada por él
+ * (pasar `titleId` si hay más de una tarjeta con título en la página).
+ */
+export function Card({
+  title,
+  description,
+  children,
+  className = "",
+  titleId,
+}: Props) {
+  return (
+    <section
+      aria-labelledby={title && titleId ? titleId : undefined}
+      className={`rounded-lg border border-slate-200 bg-white p-6 text-slate-900 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 ${className}`}
+    >
+      {title && (
+        <h2 id={titleId} className="text-lg font-semibold">
+          {title}
+        </h2>
+      )}
+      {description && (
+        <p className="text-sm text-slate-600 dark:text-slate-300">
+          {description}
+        </p>
+      )}
+      {children && (
+        <div className={title || description ? "mt-4" : undefined}>
+          {children}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1 @@
+export { Card } from "./Card";
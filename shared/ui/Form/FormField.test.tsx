@@ -0,0 +1,55 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from "vitest";
+import { cleanup, render, screen } from "@testing-library/react";
+import { FormField } from "./FormField";
+
+afterEach(cleanup);
+
+describe("FormField", () => {
+  it("conecta la etiqueta con el control", () => {
+    render(
+      <FormField label="Correo" name="email">
+        {(field) => <input {...field} />}
+      </FormField>
+    );
+
+    const input = screen.getByLabelText("Correo");
+    expect(input.getAttribute("name")).toBe("email");
+    expect(input.hasAttribute("aria-invalid")).toBe(false);
+    expect(input.hasAttribute("aria-describedby")).toBe(false);
+  });
+
+  it("describe el control con la ayuda y el error", () => {
+    render(
+      <FormField
+        label="Contraseña"
+        name="password"
+        hint="Mínimo 8 caracteres"
+        error="Es muy corta"
+      >
+        {(field) => <input type="password" {...field} />}
+      </FormField>
+    );
+
+    const input = screen.getByLabelText("Contraseña");
+    expect(input.getAttribute("aria-invalid")).toBe("true");
+
+    const describedBy = input.getAttribute("aria-describedby")?.split(" ");
+    const descriptions = describedBy?.map(
+      (id) => document.getElementById(id)?.textContent
+    );
+    expect(descriptions).toEqual(["Mínimo 8 caracteres", "Es muy corta"]);
+  });
+
+  it("anuncia los campos obligatorios", () => {
+    render(
+      <FormField label="Nombre" name="fullName" required>
+        {(field) => <input {...field} />}
+      </FormField>
+    );
+
+    const input = screen.getByRole("textbox", { name: /Nombre/ });
+    expect(input.hasAttribute("required")).toBe(true);
+    expect(screen.getByText(/obligatorio/i)).toBeDefined();
+  });
+});
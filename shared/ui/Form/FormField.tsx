@@ -0,0 +1,90 @@
+"use client";
+
+import { useId, type ReactNode } from "react";
+import { useI18n } from "@lib/i18n/client";
+
+/**
+ * Props que FormField le pasa a su control
+ */
+export interface FieldControlProps {
+  id: string;
+  name: string;
+  required?: boolean;
+  "aria-invalid"?: boolean;
+  "aria-describedby"?: string;
+}
+
+type Props = {
+  label: ReactNode;
+  name: string;
+  // Mensaje de error del campo (ver getFieldErrors)
+  error?: string;
+  hint?: ReactNode;
+  required?: boolean;
+  className?: string;
+  children: (field: FieldControlProps) => ReactNode;
+};
+
+/**
+ * Campo de formulario accesible: etiqueta, ayuda y error
+ *
+ * Conecta el control con `htmlFor`, marca `aria-invalid` cuando hay
+ * error y apunta `aria-describedby` a la ayuda y al error, así el
+ * lector de pantalla los anuncia al enfocar el campo.
+ *
+ * Uso:
+ * ```tsx
+ * <FormField label="Correo" name="email" error={errors.email}>
+ *   {(field) => <Input type="email" {...field} />}
+ * </FormField>
+ * ```
+ */
+export function FormField({
+  label,
+  name,
+  error,
+  hint,
+  required,
+  className = "",
+  children,
+}: Props) {
+  const { t } = useI18n();
+  const id = useId();
+  const hintId = hint ? `${id}-hint` : undefined;
+  const errorId = error ? `${id}-error` : undefined;
+  const describedBy = [hintId, errorId].filter(Boolean).join(" ");
+
+  return (
+    <div className={`flex flex-col gap-1 text-sm ${className}`}>
+      <label htmlFor={id} className="font-medium">
+        {label}
+        {required && (
+          <>
+            <span aria-hidden="true" className="text-red-700 dark:text-red-400">
+              {" "}
+              *
+            </span>
+            <span className="sr-only"> ({t("ui.required")})</span>
+          </>
+        )}
+      </label>
+      {children({
+        id,
+        name,
+        required,
+        "aria-invalid": error ? true : undefined,
+        "aria-describedby": describedBy || undefined,
+      })}
+      {hint && (
+        <div id={hintId} className="text-slate-600 dark:text-slate-300">
+          {hint}
+        </div>
+      )}
+      {error && (
+        <p id={errorId} className="text-red-700 dark:text-red-400">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
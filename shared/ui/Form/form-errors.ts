@@ -0,0 +1,34 @@
+import type { z } from "zod";
+import { translateText, type Translator } from "@lib/i18n/translator";
+
+/**
+ * Primer mensaje de error de cada campo, por nombre del campo
+ */
+export type FieldErrors<T> = Partial<Record<keyof T & string, string>>;
+
+/**
+ * Agrupa los errores de un `safeParse` por campo
+ *
+ * Toma el primer problema de cada campo de primer nivel (los
+ * mensajes de los schemas son claves del catálogo y se traducen).
+ * Los problemas sin campo, como los de un `refine` sin `path`, se
+ * ignoran: el formulario los muestra aparte.
+ *
+ * Uso:
+ * ```typescript
+ * const parsed = loginSchema.safeParse(values)
+ * if (!parsed.success) setErrors(getFieldErrors(parsed.error, t))
+ * ```
+ */
+export function getFieldErrors<T>(
+  error: z.ZodError<T>,
+  t: Translator
+): FieldErrors<T> {
+  const errors: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const field = issue.path[0];
+    if (typeof field !== "string" || field in errors) continue;
+    errors[field] = translateText(t, issue.message);
+  }
+  return errors as FieldErrors<T>;
+}
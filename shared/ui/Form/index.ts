@@ -0,0 +1,2 @@
+export { FormField, type FieldControlProps } from "./FormField";
+export { getFieldErrors, type FieldErrors } from "./form-errors";
@@ -0,0 +1,48 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from "vitest";
+import { cleanup, render, screen } from "@testing-library/react";
+import { Input } from "./Input";
+
+afterEach(cleanup);
+
+describe("Input", () => {
+  it("sin error no lleva aria-invalid", () => {
+    render(<Input aria-label="Nombre" />);
+
+    expect(screen.getByLabelText("Nombre").hasAttribute("aria-invalid")).toBe(
+      false
+    );
+  });
+
+  it("con `invalid` se marca como inválido", () => {
+    render(<Input aria-label="Nombre" invalid />);
+
+    expect(screen.getByLabelText("Nombre").getAttribute("aria-invalid")).toBe(
+      "true"
+    );
+  });
+
+  it('acepta aria-invalid={true} y aria-invalid="true"', () => {
+    render(
+      <>
+        <Input aria-label="Booleano" aria-invalid />
+        <Input aria-label="Texto" aria-invalid="true" />
+      </>
+    );
+
+    expect(screen.getByLabelText("Booleano").getAttribute("aria-invalid")).toBe(
+      "true"
+    );
+    expect(screen.getByLabelText("Texto").getAttribute("aria-invalid")).toBe(
+      "true"
+    );
+  });
+
+  it('aria-invalid="false" no marca el campo', () => {
+    render(<Input aria-label="Nombre" aria-invalid="false" />);
+
+    const input = screen.getByLabelText("Nombre");
+    expect(input.hasAttribute("aria-invalid")).toBe(false);
+    expect(input.className).not.toContain("border-red-700");
+  });
+});
@@ -0,0 +1,34 @@
+import type { ComponentProps } from "react";
+
+type Props = ComponentProps<"input"> & {
+  // Hay un error en el campo: lo marca con aria-invalid y borde rojo
+  invalid?: boolean;
+};
+
+/**
+ * Campo de texto
+ *
+ * Dentro de un FormField recibe `id`, `aria-invalid` y
+ * `aria-describedby` ya conectados al mensaje de error y a la ayuda.
+ */
+export function Input({
+  invalid,
+  className = "",
+  "aria-invalid": ariaInvalid,
+  ...props
+}: Props) {
+  // aria-invalid="false" (o false) no marca el campo
+  const isInvalid = invalid || ariaInvalid === true || ariaInvalid === "true";
+
+  return (
+    <input
+      aria-invalid={isInvalid || undefined}
+      className={`min-h-10 rounded-md border bg-white px-3 py-2 text-slate-900 placeholder:text-slate-500 focus-visible:outline-2 focus-visible:outline-offset-1 focus-visible:outline-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 dark:bg-slate-900 dark:text-slate-100 dark:placeholder:text-slate-400 dark:focus-visible:outline-slate-100 dark:disabled:bg-slate-800 ${
+        isInvalid
+          ? "border-red-700 dark:border-red-400"
+          : "border-slate-400 dark:border-slate-500"
+      } ${className}`}
+      {...props}
+    />
+  );
+}
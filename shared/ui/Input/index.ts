@@ -0,0 +1 @@
+export { Input } from "./Input";
@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { Modal } from "./Modal";
+
+// jsdom aún no implementa showModal() ni close()
+beforeAll(() => {
+  HTMLDialogElement.prototype.showModal = function (this: HTMLDialogElement) {
+    this.setAttribute("open", "");
+  };
+  HTMLDialogElement.prototype.close = function (this: HTMLDialogElement) {
+    this.removeAttribute("open");
+  };
+});
+
+afterEach(cleanup);
+
+function renderModal(onClose = vi.fn()) {
+  render(
+    <Modal open onClose={onClose} title="¿Eliminar?" description="No vuelve">
+      <button type="button">Confirmar</button>
+    </Modal>
+  );
+  return {
+    onClose,
+    dialog: screen.getByRole("dialog", { name: "¿Eliminar?" }),
+  };
+}
+
+describe("Modal", () => {
+  it("se abre con el título y la descripción como nombre accesible", () => {
+    const { dialog } = renderModal();
+
+    expect(dialog.hasAttribute("open")).toBe(true);
+    expect(
+      document.getElementById(dialog.getAttribute("aria-describedby") ?? "")
+        ?.textContent
+    ).toBe("No vuelve");
+  });
+
+  it("Escape (evento cancel) avisa al padre sin cerrar por su cuenta", () => {
+    const { dialog, onClose } = renderModal();
+
+    const cancel = new Event("cancel", { cancelable: true });
+    fireEvent(dialog, cancel);
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(cancel.defaultPrevented).toBe(true);
+    expect(dialog.hasAttribute("open")).toBe(true);
+  });
+
+  it("un clic en el fondo cierra, uno en el contenido no", () => {
+    const { dialog, onClose } = renderModal();
+
+    fireEvent.click(screen.getByText("Confirmar"));
+    expect(onClose).not.toHaveBeenCalled();
+
+    fireEvent.click(dialog);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("el botón de cerrar avisa al padre", () => {
+    const { onClose } = renderModal();
+
+    fireEvent.click(screen.getByRole("button", { name: "Cerrar" }));
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("se cierra cuando el padre cambia `open`", () => {
+    const onClose = vi.fn();
+    const { rerender } = render(<Modal open onClose={onClose} title="Aviso" />);
+    const dialog = screen.getByRole("dialog", { name: "Aviso" });
+
+    rerender(<Modal open={false} onClose={onClose} title="Aviso" />);
+
+    expect(dialog.hasAttribute("open")).toBe(false);
+  });
+});
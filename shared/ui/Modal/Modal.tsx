@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useId, useRef, type ReactNode } from "react";
+import { useI18n } from "@lib/i18n/client";
+
+type Props = {
+  open: boolean;
+  // Se llama al cerrar con Escape, con el botón de cerrar o al hacer
+  // clic fuera del contenido
+  onClose: () => void;
+  title: ReactNode;
+  description?: ReactNode;
+  children?: ReactNode;
+};
+
+/**
+ * Ventana modal sobre el <dialog> nativo
+ *
+ * `showModal()` ya deja inerte el resto de la página, mantiene el foco
+ * dentro y lo devuelve al elemento que la abrió al cerrarse.
+ */
+export function Modal({ open, onClose, title, description, children }: Props) {
+  const { t } = useI18n();
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const id = useId();
+  const titleId = `${id}-title`;
+  const descriptionId = description ? `${id}-description` : undefined;
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    if (open && !dialog.open) dialog.showModal();
+    if (!open && dialog.open) dialog.close();
+  }, [open]);
+
+  return (
+    <dialog
+      ref={dialogRef}
+      aria-labelledby={titleId}
+      aria-describedby={descriptionId}
+      onCancel={(event) => {
+        // Escape: el estado lo controla el padre
+        event.preventDefault();
+        onClose();
+      }}
+      onClick={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+      className="m-auto w-full max-w-lg rounded-lg border border-slate-200 bg-white p-0 text-slate-900 backdrop:bg-slate-950/60 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+    >
+      <div className="flex flex-col gap-4 p-6">
+        <div className="flex items-start justify-between gap-4">
+          <h2 id={titleId} className="text-lg font-semibold">
+            {title}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label={t("ui.close")}
+            className="min-h-8 min-w-8 rounded-md text-xl leading-none hover:bg-slate-100 focus-visible:outline-2 focus-visible:outline-slate-900 dark:hover:bg-slate-800 dark:focus-visible:outline-slate-100"
+          >
+            <span aria-hidden="true">×</span>
+          </button>
+        </div>
+        {description && (
+          <p
+            id={descriptionId}
+            className="text-sm text-slate-600 dark:text-slate-300"
+          >
+            {description}
+          </p>
+        )}
+        {children}
+      </div>
+    </dialog>
+  );
+}
@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { useState } from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { MoodPicker, type MoodPickerOption } from "./MoodPicker";
+
+afterEach(cleanup);
+
+const OPTIONS: MoodPickerOption[] = [
+  { value: 1, label: "Muy mal", symbol: "😞" },
+  { value: 2, label: "Normal", symbol: "😐" },
+  { value: 3, label: "Muy bien", symbol: "😄" },
+];
+
+function ControlledPicker({ onChange }: { onChange: (value: number) => void }) {
+  const [value, setValue] = useState<number | null>(null);
+  return (
+    <MoodPicker
+      legend="¿Cómo te sientes?"
+      options={OPTIONS}
+      value={value}
+      onChange={(next) => {
+        setValue(next);
+        onChange(next);
+      }}
+    />
+  );
+}
+
+describe("MoodPicker", () => {
+  it("muestra un radio por punto, nombrado por su etiqueta", () => {
+    render(<ControlledPicker onChange={vi.fn()} />);
+
+    const group = screen.getByRole("group", { name: "¿Cómo te sientes?" });
+    const radios = screen.getAllByRole("radio");
+
+    expect(group).toBeDefined();
+    expect(radios).toHaveLength(3);
+    expect(radios.every((radio) => !(radio as HTMLInputElement).checked)).toBe(
+      true
+    );
+    expect(screen.getByRole("radio", { name: /Muy bien/ })).toBeDefined();
+  });
+
+  it("selecciona un solo punto y avisa el valor", () => {
+    const onChange = vi.fn();
+    render(<ControlledPicker onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole("radio", { name: /Normal/ }));
+    fireEvent.click(screen.getByRole("radio", { name: /Muy mal/ }));
+
+    expect(onChange).toHaveBeenNthCalledWith(1, 2);
+    expect(onChange).toHaveBeenNthCalledWith(2, 1);
+    const checked = screen
+      .getAllByRole<HTMLInputElement>("radio")
+      .filter((radio) => radio.checked);
+    expect(checked.map((radio) => radio.value)).toEqual(["1"]);
+  });
+
+  it("marca el grupo como inválido y lo describe con el error", () => {
+    render(
+      <MoodPicker
+        legend="Ánimo"
+        options={OPTIONS}
+        value={null}
+        onChange={vi.fn()}
+        error="Elige cómo te sientes"
+      />
+    );
+
+    const group = screen.getByRole("group", { name: "Ánimo" });
+    expect(group.getAttribute("aria-invalid")).toBe("true");
+    expect(
+      document.getElementById(group.getAttribute("aria-describedby") ?? "")
+        ?.textContent
+    ).toBe("Elige cómo te sientes");
+  });
+
+  it("deshabilita los radios con `disabled`", () => {
+    render(
+      <MoodPicker
+        legend="Ánimo"
+        options={OPTIONS}
+        value={2}
+        onChange={vi.fn()}
+        disabled
+      />
+    );
+
+    // El <fieldset disabled> deshabilita todos sus radios
+    const radios = screen.getAllByRole("radio");
+    expect(radios.every((radio) => radio.matches(":disabled"))).toBe(true);
+  });
+});
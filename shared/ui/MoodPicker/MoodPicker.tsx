@@ -0,0 +1,90 @@
+"use client";
+
+import { useId, type ReactNode } from "react";
+
+/**
+ * Un punto de la escala tal como lo muestra el selector
+ *
+ * Coincide con MoodScalePoint (features/home/models/mood.scales).
+ */
+export interface MoodPickerOption {
+  value: number;
+  label: string;
+  symbol: string;
+}
+
+type Props = {
+  legend: ReactNode;
+  // Puntos de peor a mejor
+  options: readonly MoodPickerOption[];
+  value: number | null;
+  onChange: (value: number) => void;
+  name?: string;
+  disabled?: boolean;
+  error?: string;
+};
+
+/**
+ * Selector de ánimo accesible
+ *
+ * Es un grupo de radios con apariencia de botones: se navega con
+ * Tab y las flechas y el lector de pantalla anuncia la etiqueta de
+ * cada punto aunque solo se vea el símbolo.
+ */
+export function MoodPicker({
+  legend,
+  options,
+  value,
+  onChange,
+  name,
+  disabled,
+  error,
+}: Props) {
+  const id = useId();
+  const errorId = error ? `${id}-error` : undefined;
+  // La escala de palabras no tiene símbolos aparte de la etiqueta
+  const hasSymbols = options.some((option) => option.symbol !== option.label);
+
+  return (
+    <fieldset
+      disabled={disabled}
+      aria-invalid={error ? true : undefined}
+      aria-describedby={errorId}
+      className="flex flex-col gap-2"
+    >
+      <legend className="text-sm font-medium">{legend}</legend>
+      <div className="flex flex-wrap gap-3">
+        {options.map((option) => (
+          <label
+            key={option.value}
+            className="flex min-h-12 min-w-12 cursor-pointer flex-col items-center justify-center gap-1 rounded-md border border-slate-400 px-4 py-3 text-sm text-slate-900 hover:bg-slate-100 has-[:checked]:border-slate-900 has-[:checked]:bg-slate-900 has-[:checked]:text-white has-[:disabled]:cursor-not-allowed has-[:disabled]:opacity-60 has-[:focus-visible]:outline-2 has-[:focus-visible]:outline-offset-2 has-[:focus-visible]:outline-slate-900 dark:border-slate-500 dark:text-slate-100 dark:hover:bg-slate-800 dark:has-[:checked]:border-slate-100 dark:has-[:checked]:bg-slate-100 dark:has-[:checked]:text-slate-900 dark:has-[:focus-visible]:outline-slate-100"
+          >
+            <input
+              type="radio"
+              name={name ?? id}
+              value={option.value}
+              checked={value === option.value}
+              onChange={() => onChange(option.value)}
+              className="sr-only"
+            />
+            {hasSymbols && (
+              <span className="text-3xl" aria-hidden="true">
+                {option.symbol}
+              </span>
+            )}
+            {hasSymbols && option.label === option.symbol ? (
+              <span className="sr-only">{option.label}</span>
+            ) : (
+              <span>{option.label}</span>
+            )}
+          </label>
+        ))}
+      </div>
+      {error && (
+        <p id={errorId} className="text-sm text-red-700 dark:text-red-400">
+          {error}
+        </p>
+      )}
+    </fieldset>
+  );
+}
@@ -0,0 +1 @@
+export { MoodPicker, type MoodPickerOption } from "./MoodPicker";
@@ -0,0 +1,104 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  act,
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+} from "@testing-library/react";
+import { ToastProvider, useToast, type ToastOptions } from "./Toast";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+});
+
+function Trigger({
+  message,
+  options,
+}: {
+  message: string;
+  options?: ToastOptions;
+}) {
+  const { showToast } = useToast();
+  return (
+    <button type="button" onClick={() => showToast(message, options)}>
+      Mostrar
+    </button>
+  );
+}
+
+function renderToast(message: string, options?: ToastOptions) {
+  render(
+    <ToastProvider>
+      <Trigger message={message} options={options} />
+    </ToastProvider>
+  );
+  fireEvent.click(screen.getByRole("button", { name: "Mostrar" }));
+}
+
+describe("Toast", () => {
+  it("anuncia los avisos en la región polite y se ocultan solos", () => {
+    renderToast("Guardado", { kind: "success" });
+
+    expect(screen.getByRole("status").textContent).toContain("Guardado");
+
+    act(() => {
+      vi.advanceTimersByTime(5000);
+    });
+
+    expect(screen.queryByText("Guardado")).toBeNull();
+  });
+
+  it("respeta durationMs", () => {
+    renderToast("Hola", { durationMs: 1000 });
+
+    act(() => {
+      vi.advanceTimersByTime(999);
+    });
+    expect(screen.queryByText("Hola")).not.toBeNull();
+
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+    expect(screen.queryByText("Hola")).toBeNull();
+  });
+
+  it("los errores van a la región assertive y no se ocultan solos", () => {
+    renderToast("Falló", { kind: "error" });
+
+    expect(screen.getByRole("alert").textContent).toContain("Falló");
+
+    act(() => {
+      vi.advanceTimersByTime(60_000);
+    });
+
+    expect(screen.queryByText("Falló")).not.toBeNull();
+  });
+
+  it("el botón de cerrar quita el aviso", () => {
+    renderToast("Falló", { kind: "error" });
+
+    fireEvent.click(screen.getByRole("button", { name: "Cerrar aviso" }));
+
+    expect(screen.queryByText("Falló")).toBeNull();
+  });
+
+  it("useToast fuera de ToastProvider lanza un error", () => {
+    // React también registra el error en la consola
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    expect(() => render(<Trigger message="Hola" />)).toThrow(
+      "useToast debe usarse dentro de ToastProvider"
+    );
+
+    consoleError.mockRestore();
+  });
+});
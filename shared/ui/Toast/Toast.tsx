@@ -0,0 +1,139 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+import { useI18n } from "@lib/i18n/client";
+
+export type ToastKind = "success" | "error" | "info";
+
+export interface ToastOptions {
+  kind?: ToastKind;
+  // Milisegundos visibles; los errores no se ocultan solos
+  durationMs?: number;
+}
+
+interface ToastItem {
+  id: number;
+  message: string;
+  kind: ToastKind;
+}
+
+interface ToastContextValue {
+  showToast: (message: string, options?: ToastOptions) => void;
+}
+
+const DEFAULT_DURATION_MS = 5000;
+
+const KIND_CLASSES: Record<ToastKind, string> = {
+  success:
+    "border-emerald-300 bg-emerald-50 text-emerald-900 dark:border-emerald-700 dark:bg-emerald-950 dark:text-emerald-100",
+  error:
+    "border-red-300 bg-red-50 text-red-800 dark:border-red-700 dark:bg-red-950 dark:text-red-100",
+  info: "border-slate-300 bg-white text-slate-900 dark:border-slate-600 dark:bg-slate-900 dark:text-slate-100",
+};
+
+const ToastContext = createContext<ToastContextValue | null>(null);
+
+/**
+ * Avisos breves (toasts) en la esquina de la pantalla
+ *
+ * Las regiones `aria-live` existen desde el primer render, vacías,
+ * para que los lectores de pantalla anuncien cada aviso nuevo: los
+ * errores en la región "assertive" y el resto en la "polite".
+ */
+export function ToastProvider({ children }: { children: ReactNode }) {
+  const { t } = useI18n();
+  const [toasts, setToasts] = useState<ToastItem[]>([]);
+  const nextId = useRef(0);
+  const timers = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+
+  const dismiss = useCallback((id: number) => {
+    clearTimeout(timers.current.get(id));
+    timers.current.delete(id);
+    setToasts((current) => current.filter((toast) => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback(
+    (message: string, { kind = "info", durationMs }: ToastOptions = {}) => {
+      const id = nextId.current++;
+      setToasts((current) => [...current, { id, message, kind }]);
+
+      const duration =
+        durationMs ?? (kind === "error" ? null : DEFAULT_DURATION_MS);
+      if (duration !== null) {
+        timers.current.set(
+          id,
+          setTimeout(() => dismiss(id), duration)
+        );
+      }
+    },
+    [dismiss]
+  );
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  const value = useMemo(() => ({ showToast }), [showToast]);
+
+  const renderToasts = (errors: boolean) =>
+    toasts
+      .filter((toast) => (toast.kind === "error") === errors)
+      .map((toast) => (
+        <div
+          key={toast.id}
+          className={`flex items-start gap-3 rounded-md border p-3 text-sm shadow-md ${
+            KIND_CLASSES[toast.kind]
+          }`}
+        >
+          <p className="flex-1">{toast.message}</p>
+          <button
+            type="button"
+            onClick={() => dismiss(toast.id)}
+            aria-label={t("ui.dismissToast")}
+            className="min-h-6 min-w-6 rounded leading-none focus-visible:outline-2 focus-visible:outline-current"
+          >
+            <span aria-hidden="true">×</span>
+          </button>
+        </div>
+      ));
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      <section
+        aria-label={t("ui.notifications")}
+        className="pointer-events-none fixed bottom-4 right-4 z-50 flex w-full max-w-sm flex-col gap-2 [&>*>*]:pointer-events-auto"
+      >
+        <div role="alert" aria-live="assertive" className="flex flex-col gap-2">
+          {renderToasts(true)}
+        </div>
+        <div role="status" aria-live="polite" className="flex flex-col gap-2">
+          {renderToasts(false)}
+        </div>
+      </section>
+    </ToastContext.Provider>
+  );
+}
+
+/**
+ * Muestra un aviso breve desde un Client Component
+ *
+ * @throws Error si se usa fuera de ToastProvider
+ */
+export function useToast(): ToastContextValue {
+  const context = useContext(ToastContext);
+  if (!context) {
+    throw new Error("useToast debe usarse dentro de ToastProvider");
+  }
+  return context;
+}
@@ -0,0 +1,6 @@
+export {
+  ToastProvider,
+  useToast,
+  type ToastKind,
+  type ToastOptions,
+} from "./Toast";
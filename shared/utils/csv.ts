@@ -0,0 +1,92 @@
+/**
+ * Utilidades para leer y escribir archivos CSV
+ *
+ * Se sigue RFC 4180 (comas, comillas dobles y saltos CRLF) que es lo
+ * que esperan Excel, LibreOffice y Google Sheets.
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Caracteres con los que una hoja de cálculo interpreta una celda
+ * como fórmula (inyección CSV)
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escapa un valor para usarlo como celda CSV
+ *
+ * Los textos que empiezan como fórmula se prefijan con `'` para que
+ * la hoja de cálculo los muestre como texto.
+ */
+export function escapeCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value !== "string") return String(value);
+
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Convierte una lista de valores en una línea CSV (incluye el salto final)
+ */
+export function toCsvRow(values: CsvValue[]): string {
+  return `${values.map(escapeCsvField).join(",")}\r\n`;
+}
+
+/**
+ * Lee un texto CSV y devuelve sus filas como arreglos de celdas
+ *
+ * Soporta campos entre comillas con comas, comillas dobles escapadas
+ * y saltos de línea, finales LF o CRLF, y el BOM que agregan Excel
+ * y otras apps al exportar. Las filas vacías se descartan.
+ *
+ * Ejemplo de uso:
+ * ```typescript
+ * parseCsv('fecha,nota\r\n2025-11-01,"hola, mundo"')
+ * // [['fecha', 'nota'], ['2025-11-01', 'hola, mundo']]
+ * ```
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((cell) => cell.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
@@ -0,0 +1,234 @@
+/**
+ * Utilidades de fechas con zona horaria
+ *
+ * Los registros se guardan en UTC junto con la zona horaria del usuario.
+ * Estas funciones convierten entre instantes UTC y "días locales"
+ * (claves YYYY-MM-DD) sin depender de librerías externas.
+ */
+
+/**
+ * Clave de día local en formato YYYY-MM-DD
+ */
+export type DateKey = string;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Verifica si un string tiene el formato YYYY-MM-DD y es una fecha real
+ */
+export function isDateKey(value: string): value is DateKey {
+  if (!DATE_KEY_PATTERN.test(value)) return false;
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+}
+
+/**
+ * Diferencia en milisegundos entre la hora local de `timeZone` y UTC
+ * para un instante dado (positiva al este de Greenwich)
+ */
+function getTimezoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Devuelve el día local (YYYY-MM-DD) de un instante en una zona horaria
+ *
+ * @param date - Instante (Date o ISO 8601)
+ * @param timeZone - Zona horaria IANA, ej. "America/Bogota"
+ */
+export function getLocalDateKey(
+  date: Date | string,
+  timeZone: string
+): DateKey {
+  // en-CA formatea como YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(typeof date === "string" ? new Date(date) : date);
+}
+
+/**
+ * Devuelve la hora local (0-23) de un instante en una zona horaria
+ */
+export function getLocalHour(date: Date | string, timeZone: string): number {
+  const hour = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    hour: "2-digit",
+  }).format(typeof date === "string" ? new Date(date) : date);
+  return Number(hour);
+}
+
+/**
+ * Devuelve la hora local HH:mm (24 h) de un instante en una zona horaria
+ */
+export function getLocalClock(date: Date | string, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hourCycle: "h23",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(typeof date === "string" ? new Date(date) : date);
+}
+
+/**
+ * Suma (o resta) días a una clave YYYY-MM-DD
+ */
+export function addDaysToDateKey(dateKey: DateKey, days: number): DateKey {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Día de la semana de una clave YYYY-MM-DD (0 = domingo, 6 = sábado)
+ */
+export function getDayOfWeek(dateKey: DateKey): number {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Instante UTC en que empieza un día local en una zona horaria
+ *
+ * @param dateKey - Día local YYYY-MM-DD
+ * @param timeZone - Zona horaria IANA
+ */
+export function getZonedStartOfDay(dateKey: DateKey, timeZone: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  const offset = getTimezoneOffsetMs(new Date(utcMidnight), timeZone);
+  // Segunda pasada para cubrir cambios de horario dentro del día
+  const corrected = getTimezoneOffsetMs(
+    new Date(utcMidnight - offset),
+    timeZone
+  );
+  return new Date(utcMidnight - corrected);
+}
+
+/**
+ * Rango UTC [from, to) que cubre los días locales de `fromKey` a `toKey`
+ * (ambos inclusivos) en una zona horaria
+ *
+ * Ejemplo de uso:
+ * ```typescript
+ * const range = getZonedDateRange('2025-11-01', '2025-11-30', 'America/Bogota')
+ * // { from: '2025-11-01T05:00:00.000Z', to: '2025-12-01T05:00:00.000Z' }
+ * ```
+ */
+export function getZonedDateRange(
+  fromKey: DateKey,
+  toKey: DateKey,
+  timeZone: string
+): { from: string; to: string } {
+  return {
+    from: getZonedStartOfDay(fromKey, timeZone).toISOString(),
+    to: getZonedStartOfDay(addDaysToDateKey(toKey, 1), timeZone).toISOString(),
+  };
+}
+
+/**
+ * Instante UTC que corresponde a una hora local en una zona horaria
+ *
+ * @param dateKey - Día local YYYY-MM-DD
+ * @param hour - Hora local (0-23)
+ * @param minute - Minuto local (0-59)
+ * @param timeZone - Zona horaria IANA
+ */
+export function getZonedDateTime(
+  dateKey: DateKey,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getTimezoneOffsetMs(new Date(asUtc), timeZone);
+  // Segunda pasada por si el desfase cambia entre ambos instantes
+  const corrected = getTimezoneOffsetMs(new Date(asUtc - offset), timeZone);
+  return new Date(asUtc - corrected);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rango UTC [from, to) relativo al momento actual, en días
+ *
+ * Ejemplo de uso:
+ * ```typescript
+ * getRangeFromNow(0, 14) // desde ahora hasta dentro de 14 días
+ * getRangeFromNow(-30, 0) // los últimos 30 días
+ * ```
+ */
+export function getRangeFromNow(
+  fromDays: number,
+  toDays: number
+): { from: string; to: string } {
+  const now = Date.now();
+  return {
+    from: new Date(now + fromDays * DAY_MS).toISOString(),
+    to: new Date(now + toDays * DAY_MS).toISOString(),
+  };
+}
+
+/**
+ * Lunes de la semana (ISO) a la que pertenece un día
+ */
+export function getWeekStart(dateKey: DateKey): DateKey {
+  const offset = (getDayOfWeek(dateKey) + 6) % 7;
+  return addDaysToDateKey(dateKey, -offset);
+}
+
+/**
+ * Primer y último día de un mes YYYY-MM
+ */
+export function getMonthBounds(month: string): {
+  first: DateKey;
+  last: DateKey;
+} {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return {
+    first: `${month}-01`,
+    last: `${month}-${String(lastDay).padStart(2, "0")}`,
+  };
+}
+
+/**
+ * Suma (o resta) meses a un mes YYYY-MM
+ */
+export function addMonthsToMonthKey(month: string, months: number): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const date = new Date(Date.UTC(year, monthIndex - 1 + months, 1));
+  return date.toISOString().slice(0, 7);
+}
@@ -0,0 +1,81 @@
+import { siteConfig } from "@lib/config/site";
+import { DEFAULT_LOCALE, type Locale } from "@lib/i18n/config";
+
+/**
+ * Formateadores de fechas y números para mostrar en la interfaz
+ *
+ * Todos reciben la zona horaria explícitamente, para que el servidor
+ * muestre la hora del usuario y no la del servidor, y el idioma del
+ * usuario (getI18n / useI18n; por defecto DEFAULT_LOCALE).
+ */
+
+/**
+ * Fecha y hora legibles, ej. "lun, 3 de nov, 2:30 p. m."
+ */
+export function formatDateTime(
+  date: Date | string,
+  timeZone: string = siteConfig.timezone,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  return new Intl.DateTimeFormat(locale, {
+    timeZone,
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(typeof date === "string" ? new Date(date) : date);
+}
+
+/**
+ * Solo la hora, ej. "2:30 p. m."
+ */
+export function formatTime(
+  date: Date | string,
+  timeZone: string = siteConfig.timezone,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  return new Intl.DateTimeFormat(locale, {
+    timeZone,
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(typeof date === "string" ? new Date(date) : date);
+}
+
+/**
+ * Fecha larga de un día local YYYY-MM-DD, ej. "lunes, 3 de noviembre de 2025"
+ *
+ * Se formatea en UTC porque la clave ya representa el día local.
+ */
+export function formatDateKey(
+  dateKey: string,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Intl.DateTimeFormat(locale, {
+    timeZone: "UTC",
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  }).format(new Date(Date.UTC(year, month - 1, day)));
+}
+
+/**
+ * Espera relativa redondeada a la unidad más grande, ej. "dentro de 2 minutos"
+ *
+ * @param seconds - Segundos que faltan
+ * @param locale - Idioma del texto
+ */
+export function formatRetryAfter(
+  seconds: number,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const format = new Intl.RelativeTimeFormat(locale, {
+    numeric: "always",
+  });
+  if (seconds < 60) return format.format(Math.ceil(seconds), "second");
+  if (seconds < 60 * 60)
+    return format.format(Math.ceil(seconds / 60), "minute");
+  return format.format(Math.ceil(seconds / 3600), "hour");
+}
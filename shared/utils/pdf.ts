@@ -0,0 +1,242 @@
+/**
+ * Generador mínimo de PDF de solo texto
+ *
+ * Escribe un PDF 1.4 con las fuentes estándar Helvetica y Helvetica-Bold
+ * (no hace falta incrustar fuentes) en tamaño A4. Alcanza para resúmenes
+ * imprimibles sin agregar una dependencia pesada.
+ *
+ * Limitaciones: solo texto, codificación WinAnsi (los caracteres fuera
+ * de ella, como emojis, se omiten) y ajuste de línea aproximado.
+ */
+
+/**
+ * Bloque de texto del documento
+ *
+ * - size: tamaño de fuente en puntos (por defecto 10)
+ * - bold: usa Helvetica-Bold
+ * - indent: sangría en puntos
+ * - spaceBefore: espacio vertical extra antes del bloque
+ */
+export interface PdfBlock {
+  text: string;
+  size?: number;
+  bold?: boolean;
+  indent?: number;
+  spaceBefore?: number;
+}
+
+export interface PdfDocumentOptions {
+  title: string;
+  /** Texto al pie de cada página; recibe número de página y total */
+  footer?: (page: number, total: number) => string;
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const LINE_HEIGHT = 1.4;
+
+/**
+ * Ancho promedio de un carácter de Helvetica en fracción del tamaño
+ * de fuente (un poco holgado para que el ajuste no se salga del margen)
+ */
+const AVERAGE_CHAR_WIDTH = 0.52;
+
+/**
+ * Caracteres tipográficos comunes fuera de Latin-1 que sí existen en WinAnsi
+ */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+/**
+ * Convierte texto a una cadena de bytes WinAnsi (un carácter por byte)
+ */
+function toWinAnsi(text: string): string {
+  let result = "";
+  // Los emojis (y su selector de variación) no existen en WinAnsi
+  const clean = text
+    .normalize("NFC")
+    .replace(/\p{Extended_Pictographic}|\uFE0F/gu, "");
+
+  for (const char of clean) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code === 0x09) {
+      result += " ";
+    } else if (
+      (code >= 0x20 && code < 0x7f) ||
+      (code >= 0xa0 && code <= 0xff)
+    ) {
+      result += char;
+    } else if (char in WIN_ANSI_EXTRAS) {
+      result += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    } else {
+      result += "?";
+    }
+  }
+  return result;
+}
+
+/**
+ * Escapa los caracteres especiales de un string literal de PDF
+ */
+function escapePdfString(bytes: string): string {
+  return bytes.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Parte un texto en líneas que caben en `maxChars` caracteres
+ */
+function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      // Palabras más largas que la línea se cortan a la fuerza
+      for (let i = 0; i < word.length; i += maxChars) {
+        const chunk = word.slice(i, i + maxChars);
+        if (!line) {
+          line = chunk;
+        } else if (line.length + 1 + chunk.length <= maxChars) {
+          line += ` ${chunk}`;
+        } else {
+          lines.push(line);
+          line = chunk;
+        }
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Reparte los bloques en páginas y genera el contenido de cada una
+ */
+function layoutPages(blocks: PdfBlock[]): string[][] {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const block of blocks) {
+    const size = block.size ?? 10;
+    const indent = block.indent ?? 0;
+    const font = block.bold ? "F2" : "F1";
+    const lineHeight = size * LINE_HEIGHT;
+    const maxChars = Math.max(
+      1,
+      Math.floor(
+        (PAGE_WIDTH - 2 * MARGIN - indent) / (size * AVERAGE_CHAR_WIDTH)
+      )
+    );
+
+    y -= block.spaceBefore ?? 0;
+
+    for (const line of wrapText(toWinAnsi(block.text), maxChars)) {
+      if (y - lineHeight < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= lineHeight;
+      pages[pages.length - 1].push(
+        `BT /${font} ${size} Tf ${(MARGIN + indent).toFixed(2)} ${y.toFixed(
+          2
+        )} Td (${escapePdfString(line)}) Tj ET`
+      );
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Fecha en el formato de PDF: D:YYYYMMDDHHmmSSZ
+ */
+function toPdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`;
+}
+
+/**
+ * Genera un documento PDF a partir de bloques de texto
+ *
+ * Ejemplo de uso:
+ * ```typescript
+ * const bytes = createPdfDocument(
+ *   [{ text: 'Resumen', size: 18, bold: true }, { text: 'Hola' }],
+ *   { title: 'Resumen' }
+ * )
+ * ```
+ */
+export function createPdfDocument(
+  blocks: PdfBlock[],
+  options: PdfDocumentOptions
+): Uint8Array {
+  const pages = layoutPages(blocks);
+
+  if (options.footer) {
+    pages.forEach((commands, index) => {
+      const text = toWinAnsi(options.footer!(index + 1, pages.length));
+      commands.push(
+        `BT /F1 8 Tf ${MARGIN} ${MARGIN / 2} Td (${escapePdfString(
+          text
+        )}) Tj ET`
+      );
+    });
+  }
+
+  // Objetos fijos: 1 catálogo, 2 árbol de páginas, 3-4 fuentes, 5 info.
+  // Cada página ocupa dos objetos (página y contenido) a partir del 6.
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds
+      .map((id) => `${id} 0 R`)
+      .join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Title (${escapePdfString(
+      toWinAnsi(options.title)
+    )}) /CreationDate (${toPdfDate(new Date())}) >>`,
+  ];
+
+  pages.forEach((commands, index) => {
+    const content = commands.join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${
+          pageIds[index] + 1
+        } 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Todo el documento es de un byte por carácter, así que la longitud
+  // del string coincide con los desplazamientos en bytes
+  let output = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  output += `trailer\n<< /Size ${
+    objects.length + 1
+  } /Root 1 0 R /Info 5 0 R >>\n`;
+  output += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(output, (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,20 @@
+/**
+ * Lee de un FormData los campos de un schema de zod como texto
+ *
+ * Los campos ausentes (o archivos) quedan como "" para que el schema
+ * reporte el error de campo requerido.
+ *
+ * @param formData - Datos enviados por el formulario
+ * @param shape - `schema.shape` del schema que los va a validar
+ */
+export function readFormValues<TShape extends Record<string, unknown>>(
+  formData: FormData,
+  shape: TShape
+): Record<keyof TShape & string, string> {
+  return Object.fromEntries(
+    Object.keys(shape).map((field) => {
+      const value = formData.get(field);
+      return [field, typeof value === "string" ? value : ""];
+    })
+  ) as Record<keyof TShape & string, string>;
+}
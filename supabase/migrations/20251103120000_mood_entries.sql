@@ -0,0 +1,30 @@
+-- Registros de estado de ánimo
+create table if not exists public.mood_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  mood_level smallint not null check (mood_level between 1 and 5),
+  emotion_tags text[] not null default '{}',
+  note text check (char_length(note) <= 500),
+  recorded_at timestamptz not null default now(),
+  timezone text not null default 'America/Bogota',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists mood_entries_user_recorded_at_idx
+  on public.mood_entries (user_id, recorded_at desc);
+
+-- Cada usuario solo puede ver y modificar sus propios registros
+alter table public.mood_entries enable row level security;
+
+create policy "mood_entries_select_own" on public.mood_entries
+  for select using (auth.uid() = user_id);
+
+create policy "mood_entries_insert_own" on public.mood_entries
+  for insert with check (auth.uid() = user_id);
+
+create policy "mood_entries_update_own" on public.mood_entries
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "mood_entries_delete_own" on public.mood_entries
+  for delete using (auth.uid() = user_id);
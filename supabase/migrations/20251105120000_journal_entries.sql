@@ -0,0 +1,33 @@
+-- Bitácora personal
+create table if not exists public.journal_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  entry_date date not null,
+  title text not null default '' check (char_length(title) <= 120),
+  body text not null default '' check (char_length(body) <= 20000),
+  tags text[] not null default '{}',
+  mood_entry_id uuid references public.mood_entries (id) on delete set null,
+  status text not null default 'draft' check (status in ('draft', 'published')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists journal_entries_user_entry_date_idx
+  on public.journal_entries (user_id, entry_date desc);
+
+create index if not exists journal_entries_tags_idx
+  on public.journal_entries using gin (tags);
+
+alter table public.journal_entries enable row level security;
+
+create policy "journal_entries_select_own" on public.journal_entries
+  for select using (auth.uid() = user_id);
+
+create policy "journal_entries_insert_own" on public.journal_entries
+  for insert with check (auth.uid() = user_id);
+
+create policy "journal_entries_update_own" on public.journal_entries
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "journal_entries_delete_own" on public.journal_entries
+  for delete using (auth.uid() = user_id);
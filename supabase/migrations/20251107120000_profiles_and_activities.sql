@@ -0,0 +1,129 @@
+-- Perfiles públicos dentro del semillero
+-- Se crean automáticamente al registrarse un usuario
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text not null,
+  full_name text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email, full_name)
+  values (new.id, new.email, new.raw_user_meta_data ->> 'full_name')
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Usuarios existentes antes de esta migración
+insert into public.profiles (id, email, full_name)
+select id, email, raw_user_meta_data ->> 'full_name' from auth.users
+on conflict (id) do nothing;
+
+alter table public.profiles enable row level security;
+
+create policy "profiles_select_authenticated" on public.profiles
+  for select to authenticated using (true);
+
+create policy "profiles_update_own" on public.profiles
+  for update using (auth.uid() = id) with check (auth.uid() = id);
+
+-- Actividades del semillero
+create table if not exists public.activities (
+  id uuid primary key default gen_random_uuid(),
+  title text not null check (char_length(title) between 1 and 120),
+  description text check (char_length(description) <= 2000),
+  location text check (char_length(location) <= 200),
+  starts_at timestamptz not null,
+  ends_at timestamptz check (ends_at is null or ends_at > starts_at),
+  status text not null default 'scheduled'
+    check (status in ('scheduled', 'cancelled')),
+  created_by uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists activities_starts_at_idx
+  on public.activities (starts_at);
+
+create table if not exists public.activity_members (
+  activity_id uuid not null references public.activities (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  rsvp_status text not null default 'pending'
+    check (rsvp_status in ('pending', 'going', 'maybe', 'declined')),
+  responded_at timestamptz,
+  primary key (activity_id, user_id)
+);
+
+create index if not exists activity_members_user_idx
+  on public.activity_members (user_id);
+
+-- Helpers security definer para evitar recursión entre políticas
+create or replace function public.is_activity_member(p_activity_id uuid)
+returns boolean
+language sql
+security definer set search_path = public
+stable
+as $$
+  select exists (
+    select 1 from public.activity_members
+    where activity_id = p_activity_id and user_id = auth.uid()
+  );
+$$;
+
+create or replace function public.is_activity_creator(p_activity_id uuid)
+returns boolean
+language sql
+security definer set search_path = public
+stable
+as $$
+  select exists (
+    select 1 from public.activities
+    where id = p_activity_id and created_by = auth.uid()
+  );
+$$;
+
+alter table public.activities enable row level security;
+
+create policy "activities_select_participants" on public.activities
+  for select using (
+    created_by = auth.uid() or public.is_activity_member(id)
+  );
+
+create policy "activities_insert_own" on public.activities
+  for insert with check (created_by = auth.uid());
+
+create policy "activities_update_creator" on public.activities
+  for update using (created_by = auth.uid());
+
+create policy "activities_delete_creator" on public.activities
+  for delete using (created_by = auth.uid());
+
+alter table public.activity_members enable row level security;
+
+create policy "activity_members_select_participants" on public.activity_members
+  for select using (
+    public.is_activity_creator(activity_id)
+    or public.is_activity_member(activity_id)
+  );
+
+create policy "activity_members_insert_creator" on public.activity_members
+  for insert with check (public.is_activity_creator(activity_id));
+
+create policy "activity_members_delete_creator" on public.activity_members
+  for delete using (public.is_activity_creator(activity_id));
+
+-- Cada miembro solo puede actualizar su propia respuesta
+create policy "activity_members_update_own_rsvp" on public.activity_members
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
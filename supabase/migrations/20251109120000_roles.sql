@@ -0,0 +1,51 @@
+-- Roles del semillero
+-- El rol vive en auth.users.raw_app_meta_data ->> 'role' (solo editable
+-- con la service role) y llega a las políticas a través del JWT.
+create or replace function public.current_app_role()
+returns text
+language sql
+stable
+as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', 'member');
+$$;
+
+create or replace function public.is_coordinator()
+returns boolean
+language sql
+stable
+as $$
+  select public.current_app_role() in ('coordinator', 'admin');
+$$;
+
+-- Coordinadores y administradores pueden ver y gestionar cualquier actividad
+drop policy if exists "activities_select_participants" on public.activities;
+create policy "activities_select_participants" on public.activities
+  for select using (
+    created_by = auth.uid()
+    or public.is_activity_member(id)
+    or public.is_coordinator()
+  );
+
+drop policy if exists "activities_update_creator" on public.activities;
+create policy "activities_update_creator" on public.activities
+  for update using (created_by = auth.uid() or public.is_coordinator());
+
+drop policy if exists "activity_members_select_participants" on public.activity_members;
+create policy "activity_members_select_participants" on public.activity_members
+  for select using (
+    public.is_activity_creator(activity_id)
+    or public.is_activity_member(activity_id)
+    or public.is_coordinator()
+  );
+
+drop policy if exists "activity_members_insert_creator" on public.activity_members;
+create policy "activity_members_insert_creator" on public.activity_members
+  for insert with check (
+    public.is_activity_creator(activity_id) or public.is_coordinator()
+  );
+
+drop policy if exists "activity_members_delete_creator" on public.activity_members;
+create policy "activity_members_delete_creator" on public.activity_members
+  for delete using (
+    public.is_activity_creator(activity_id) or public.is_coordinator()
+  );
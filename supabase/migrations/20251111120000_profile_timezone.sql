@@ -0,0 +1,3 @@
+-- Zona horaria del usuario para agrupar registros por día local
+alter table public.profiles
+  add column if not exists timezone text not null default 'America/Bogota';
@@ -0,0 +1,52 @@
+-- Importación de registros de ánimo desde otras apps
+-- Inserta todas las filas en una sola transacción (la llamada a la función)
+-- y omite las que ya existen: mismo usuario, mismo nivel y mismo minuto.
+-- Es security invoker, así que las políticas RLS de mood_entries aplican.
+create or replace function public.import_mood_entries(
+  p_user_id uuid,
+  p_entries jsonb
+)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  inserted integer;
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'Solo puedes importar tus propios registros'
+      using errcode = '42501';
+  end if;
+
+  insert into public.mood_entries (
+    user_id, mood_level, emotion_tags, note, recorded_at, timezone
+  )
+  select distinct on (date_trunc('minute', e.recorded_at), e.mood_level)
+    p_user_id,
+    e.mood_level,
+    coalesce(e.emotion_tags, '{}'),
+    e.note,
+    e.recorded_at,
+    e.timezone
+  from jsonb_to_recordset(p_entries) as e (
+    mood_level smallint,
+    emotion_tags text[],
+    note text,
+    recorded_at timestamptz,
+    timezone text
+  )
+  where not exists (
+    select 1
+    from public.mood_entries m
+    where m.user_id = p_user_id
+      and m.mood_level = e.mood_level
+      and date_trunc('minute', m.recorded_at) = date_trunc('minute', e.recorded_at)
+  );
+
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
+
+grant execute on function public.import_mood_entries(uuid, jsonb) to authenticated;
@@ -0,0 +1,62 @@
+-- Recordatorios diarios de registro de ánimo
+-- Una fila por usuario con sus preferencias. `remind_at` y las horas de
+-- silencio son horas locales en `timezone`. `last_run_on` es el día local
+-- en que ya se procesó el recordatorio (enviado u omitido porque ya había
+-- registro), para no repetirlo en cada corrida del cron.
+create table if not exists public.reminder_preferences (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  enabled boolean not null default false,
+  days smallint[] not null default '{1,2,3,4,5}',
+  remind_at time not null default '20:00',
+  timezone text not null default 'America/Bogota',
+  channels text[] not null default '{email}',
+  quiet_start time,
+  quiet_end time,
+  last_run_on date,
+  updated_at timestamptz not null default now(),
+  constraint reminder_preferences_days_check
+    check (days <@ '{0,1,2,3,4,5,6}'::smallint[]),
+  constraint reminder_preferences_channels_check
+    check (channels <@ '{email,push}'::text[])
+);
+
+create index if not exists reminder_preferences_enabled_idx
+  on public.reminder_preferences (enabled) where enabled;
+
+alter table public.reminder_preferences enable row level security;
+
+create policy "reminder_preferences_select_own" on public.reminder_preferences
+  for select using (auth.uid() = user_id);
+
+create policy "reminder_preferences_insert_own" on public.reminder_preferences
+  for insert with check (auth.uid() = user_id);
+
+create policy "reminder_preferences_update_own" on public.reminder_preferences
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Suscripciones de web push (una por navegador o dispositivo)
+create table if not exists public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists push_subscriptions_user_idx
+  on public.push_subscriptions (user_id);
+
+alter table public.push_subscriptions enable row level security;
+
+create policy "push_subscriptions_select_own" on public.push_subscriptions
+  for select using (auth.uid() = user_id);
+
+create policy "push_subscriptions_insert_own" on public.push_subscriptions
+  for insert with check (auth.uid() = user_id);
+
+create policy "push_subscriptions_update_own" on public.push_subscriptions
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "push_subscriptions_delete_own" on public.push_subscriptions
+  for delete using (auth.uid() = user_id);
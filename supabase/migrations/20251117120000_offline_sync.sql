@@ -0,0 +1,10 @@
+-- Sincronización de registros hechos sin conexión
+--
+-- El cliente genera client_id al registrar el ánimo. Si el envío se
+-- reintenta desde la cola offline (porque la respuesta se perdió), el
+-- índice único evita que el mismo registro se guarde dos veces.
+alter table public.mood_entries
+  add column if not exists client_id uuid;
+
+create unique index if not exists mood_entries_user_client_id_idx
+  on public.mood_entries (user_id, client_id);
@@ -0,0 +1,73 @@
+-- Tablero de bienestar del equipo
+--
+-- Cada integrante puede excluir sus registros del agregado del equipo.
+alter table public.profiles
+  add column if not exists team_aggregation_opt_out boolean not null default false;
+
+-- Ánimo del equipo agregado por semana (lunes a domingo, hora local)
+--
+-- Primero se promedia cada integrante por semana (para que quien registra
+-- más veces no pese más) y luego se promedia el equipo. Las semanas con
+-- menos de p_min_contributors integrantes se devuelven suprimidas: sin
+-- promedio ni conteos. El mínimo nunca baja de 5, aunque se pida menos.
+--
+-- security definer: lee registros de todos los integrantes, así que
+-- verifica el rol antes de devolver cualquier dato.
+create or replace function public.team_wellbeing_weekly(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_timezone text,
+  p_min_contributors integer default 5
+)
+returns table (
+  week_start date,
+  suppressed boolean,
+  contributors integer,
+  entry_count integer,
+  average_mood numeric,
+  low_mood_share numeric
+)
+language plpgsql
+stable
+security definer set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_min integer := greatest(coalesce(p_min_contributors, 5), 5);
+begin
+  if not public.is_coordinator() then
+    raise exception 'team_wellbeing_weekly requires a coordinator role'
+      using errcode = '42501';
+  end if;
+
+  return query
+  with per_member as (
+    select
+      date_trunc('week', m.recorded_at at time zone p_timezone)::date as week,
+      m.user_id,
+      count(*) as entries,
+      avg(m.mood_level) as member_average
+    from public.mood_entries m
+    join public.profiles p on p.id = m.user_id
+    where m.recorded_at >= p_from
+      and m.recorded_at < p_to
+      and not p.team_aggregation_opt_out
+    group by 1, 2
+  )
+  select
+    pm.week,
+    count(*) < v_min,
+    case when count(*) >= v_min then count(*)::integer end,
+    case when count(*) >= v_min then sum(pm.entries)::integer end,
+    case when count(*) >= v_min then round(avg(pm.member_average), 2) end,
+    case when count(*) >= v_min
+      then round(avg((pm.member_average <= 2.5)::integer), 2)
+    end
+  from per_member pm
+  group by pm.week
+  order by pm.week;
+end;
+$$;
+
+revoke execute on function public.team_wellbeing_weekly(timestamptz, timestamptz, text, integer) from public, anon;
+grant execute on function public.team_wellbeing_weekly(timestamptz, timestamptz, text, integer) to authenticated;
@@ -0,0 +1,63 @@
+-- Preferencias editables desde /settings
+--
+-- `locale` y `mood_scale` solo cambian cómo se muestra la app; los
+-- registros de ánimo se siguen guardando en la escala 1-5.
+alter table public.profiles
+  add column if not exists avatar_url text,
+  add column if not exists locale text not null default 'es-CO',
+  add column if not exists mood_scale text not null default 'faces',
+  add column if not exists activity_emails boolean not null default true;
+
+alter table public.profiles
+  drop constraint if exists profiles_locale_check,
+  add constraint profiles_locale_check check (locale in ('es-CO', 'en'));
+
+alter table public.profiles
+  drop constraint if exists profiles_mood_scale_check,
+  add constraint profiles_mood_scale_check
+    check (mood_scale in ('faces', 'words', 'numbers'));
+
+-- Fotos de perfil: públicas para mostrarlas sin firmar URLs, pero cada
+-- usuario solo escribe en su carpeta (`<user_id>/avatar.webp`)
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('avatars', 'avatars', true, 1048576, array['image/webp', 'image/jpeg', 'image/png'])
+on conflict (id) do nothing;
+
+create policy "avatars_insert_own" on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "avatars_update_own" on storage.objects
+  for update to authenticated
+  using (
+    bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "avatars_delete_own" on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Mantener profiles.email al día cuando se confirma un cambio de correo
+create or replace function public.handle_user_email_change()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  update public.profiles
+  set email = new.email, updated_at = now()
+  where id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_email_changed on auth.users;
+create trigger on_auth_user_email_changed
+  after update of email on auth.users
+  for each row
+  when (old.email is distinct from new.email)
+  execute function public.handle_user_email_change();
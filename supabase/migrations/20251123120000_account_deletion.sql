@@ -0,0 +1,39 @@
+-- Eliminación de cuenta con periodo de gracia
+--
+-- El usuario programa la eliminación y puede cancelarla hasta
+-- `scheduled_for`. Después, el cron /api/cron/account-deletions borra
+-- sus datos con la service role y elimina el usuario de auth.
+create table if not exists public.account_deletion_requests (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  requested_at timestamptz not null default now(),
+  scheduled_for timestamptz not null
+);
+
+create index if not exists account_deletion_requests_due_idx
+  on public.account_deletion_requests (scheduled_for);
+
+alter table public.account_deletion_requests enable row level security;
+
+create policy "account_deletion_requests_select_own" on public.account_deletion_requests
+  for select using (auth.uid() = user_id);
+
+create policy "account_deletion_requests_insert_own" on public.account_deletion_requests
+  for insert with check (auth.uid() = user_id);
+
+create policy "account_deletion_requests_delete_own" on public.account_deletion_requests
+  for delete using (auth.uid() = user_id);
+
+-- Registro de eliminaciones SIN datos personales: ni id, ni correo, ni
+-- fechas de la solicitud; solo cuántos registros se borraron.
+-- Sin políticas: solo la service role puede leerlo o escribirlo.
+create table if not exists public.account_deletion_audit (
+  id bigint generated always as identity primary key,
+  deleted_at timestamptz not null default now(),
+  grace_period_days integer not null,
+  mood_entries integer not null default 0,
+  journal_entries integer not null default 0,
+  activity_rsvps integer not null default 0,
+  storage_objects integer not null default 0
+);
+
+alter table public.account_deletion_audit enable row level security;
@@ -0,0 +1,204 @@
+-- Escalas de ánimo configurables y emociones personalizadas
+--
+-- Cada registro guarda el valor en la escala con la que se hizo
+-- (`scale_id`, `scale_value`) y el mismo valor normalizado entre 0 y 1
+-- (`mood_score`). `mood_level` queda como el nivel 1-5 más cercano, para
+-- las vistas que muestran etiquetas y colores.
+alter table public.mood_entries
+  add column if not exists mood_score numeric(4, 3),
+  add column if not exists scale_id text not null default 'faces',
+  add column if not exists scale_value smallint,
+  add column if not exists energy_score numeric(4, 3),
+  add column if not exists anxiety_score numeric(4, 3);
+
+update public.mood_entries
+set
+  mood_score = round((mood_level - 1) / 4.0, 3),
+  scale_value = mood_level
+where mood_score is null;
+
+-- Quien escriba solo `mood_level` (clientes anteriores) sigue usando
+-- la escala 1-5 de siempre
+create or replace function public.fill_mood_entry_score()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' and new.mood_score is null then
+    new.mood_score := round((new.mood_level - 1) / 4.0, 3);
+    new.scale_value := coalesce(new.scale_value, new.mood_level);
+  elsif tg_op = 'UPDATE'
+    and new.mood_level is distinct from old.mood_level
+    and new.mood_score is not distinct from old.mood_score then
+    new.mood_score := round((new.mood_level - 1) / 4.0, 3);
+    new.scale_id := 'faces';
+    new.scale_value := new.mood_level;
+    new.energy_score := null;
+    new.anxiety_score := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists mood_entries_fill_score on public.mood_entries;
+create trigger mood_entries_fill_score
+  before insert or update on public.mood_entries
+  for each row
+  execute function public.fill_mood_entry_score();
+
+alter table public.mood_entries
+  alter column mood_score set not null,
+  alter column scale_value set not null;
+
+alter table public.mood_entries
+  drop constraint if exists mood_entries_scores_check,
+  add constraint mood_entries_scores_check check (
+    mood_score between 0 and 1
+    and mood_level = 1 + round(mood_score * 4)
+    and (energy_score is null or energy_score between 0 and 1)
+    and (anxiety_score is null or anxiety_score between 0 and 1)
+  );
+
+alter table public.profiles
+  drop constraint if exists profiles_mood_scale_check,
+  add constraint profiles_mood_scale_check
+    check (mood_scale in ('faces', 'words', 'numbers', 'emoji', 'ten_point'));
+
+-- Emociones propias: el registro guarda el nombre, aquí viven el color
+-- y el ícono con los que se muestra
+create table if not exists public.emotion_tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 30 and name = lower(name)),
+  color text not null check (color ~ '^#[0-9a-f]{6}$'),
+  icon text check (char_length(icon) <= 8),
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.emotion_tags enable row level security;
+
+create policy "emotion_tags_select_own" on public.emotion_tags
+  for select using (auth.uid() = user_id);
+
+create policy "emotion_tags_insert_own" on public.emotion_tags
+  for insert with check (auth.uid() = user_id);
+
+create policy "emotion_tags_update_own" on public.emotion_tags
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "emotion_tags_delete_own" on public.emotion_tags
+  for delete using (auth.uid() = user_id);
+
+-- Importación: guarda también la lectura normalizada si viene
+create or replace function public.import_mood_entries(
+  p_user_id uuid,
+  p_entries jsonb
+)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  inserted integer;
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'Solo puedes importar tus propios registros'
+      using errcode = '42501';
+  end if;
+
+  insert into public.mood_entries (
+    user_id, mood_level, mood_score, scale_id, scale_value,
+    emotion_tags, note, recorded_at, timezone
+  )
+  select distinct on (date_trunc('minute', e.recorded_at), e.mood_level)
+    p_user_id,
+    e.mood_level,
+    e.mood_score,
+    coalesce(e.scale_id, 'faces'),
+    e.scale_value,
+    coalesce(e.emotion_tags, '{}'),
+    e.note,
+    e.recorded_at,
+    e.timezone
+  from jsonb_to_recordset(p_entries) as e (
+    mood_level smallint,
+    mood_score numeric,
+    scale_id text,
+    scale_value smallint,
+    emotion_tags text[],
+    note text,
+    recorded_at timestamptz,
+    timezone text
+  )
+  where not exists (
+    select 1
+    from public.mood_entries m
+    where m.user_id = p_user_id
+      and m.mood_level = e.mood_level
+      and date_trunc('minute', m.recorded_at) = date_trunc('minute', e.recorded_at)
+  );
+
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
+
+-- Tablero del equipo: promedia el valor normalizado (expresado en 1-5)
+-- para que registros de escalas distintas pesen igual
+create or replace function public.team_wellbeing_weekly(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_timezone text,
+  p_min_contributors integer default 5
+)
+returns table (
+  week_start date,
+  suppressed boolean,
+  contributors integer,
+  entry_count integer,
+  average_mood numeric,
+  low_mood_share numeric
+)
+language plpgsql
+stable
+security definer set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_min integer := greatest(coalesce(p_min_contributors, 5), 5);
+begin
+  if not public.is_coordinator() then
+    raise exception 'team_wellbeing_weekly requires a coordinator role'
+      using errcode = '42501';
+  end if;
+
+  return query
+  with per_member as (
+    select
+      date_trunc('week', m.recorded_at at time zone p_timezone)::date as week,
+      m.user_id,
+      count(*) as entries,
+      avg(1 + 4 * m.mood_score) as member_average
+    from public.mood_entries m
+    join public.profiles p on p.id = m.user_id
+    where m.recorded_at >= p_from
+      and m.recorded_at < p_to
+      and not p.team_aggregation_opt_out
+    group by 1, 2
+  )
+  select
+    pm.week,
+    count(*) < v_min,
+    case when count(*) >= v_min then count(*)::integer end,
+    case when count(*) >= v_min then sum(pm.entries)::integer end,
+    case when count(*) >= v_min then round(avg(pm.member_average), 2) end,
+    case when count(*) >= v_min
+      then round(avg((pm.member_average <= 2.5)::integer), 2)
+    end
+  from per_member pm
+  group by pm.week
+  order by pm.week;
+end;
+$$;
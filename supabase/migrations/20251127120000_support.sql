@@ -0,0 +1,53 @@
+-- Señales de apoyo y contacto de confianza
+--
+-- `support_signals` guarda solo qué regla se activó y cuándo: nunca el
+-- texto de la bitácora ni los valores de ánimo que la activaron.
+create table if not exists public.support_signals (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  rule_id text not null,
+  source text not null check (source in ('mood', 'journal')),
+  detected_at timestamptz not null default now(),
+  acknowledged_at timestamptz
+);
+
+create index if not exists support_signals_user_pending_idx
+  on public.support_signals (user_id, detected_at desc)
+  where acknowledged_at is null;
+
+alter table public.support_signals enable row level security;
+
+create policy "support_signals_select_own" on public.support_signals
+  for select using (auth.uid() = user_id);
+
+create policy "support_signals_insert_own" on public.support_signals
+  for insert with check (auth.uid() = user_id);
+
+create policy "support_signals_update_own" on public.support_signals
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Una persona de confianza por usuario. Solo se le escribe si el usuario
+-- lo pide desde /support o si activó el aviso automático.
+create table if not exists public.trusted_contacts (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 80),
+  email text not null check (char_length(email) <= 254),
+  auto_notify boolean not null default false,
+  last_notified_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.trusted_contacts enable row level security;
+
+create policy "trusted_contacts_select_own" on public.trusted_contacts
+  for select using (auth.uid() = user_id);
+
+create policy "trusted_contacts_insert_own" on public.trusted_contacts
+  for insert with check (auth.uid() = user_id);
+
+create policy "trusted_contacts_update_own" on public.trusted_contacts
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "trusted_contacts_delete_own" on public.trusted_contacts
+  for delete using (auth.uid() = user_id);
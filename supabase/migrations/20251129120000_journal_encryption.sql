@@ -0,0 +1,63 @@
+-- Cifrado de extremo a extremo de la bitácora
+--
+-- La llave de la bitácora se crea en el navegador. Aquí solo se guarda
+-- envuelta con una llave derivada de la frase secreta y con otra
+-- derivada de la clave de recuperación: ni con la service role key se
+-- pueden leer las entradas cifradas.
+create table if not exists public.journal_keys (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  kdf_salt text not null,
+  kdf_iterations integer not null check (kdf_iterations >= 100000),
+  passphrase_wrapped_key text not null,
+  recovery_salt text not null,
+  recovery_wrapped_key text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.journal_keys enable row level security;
+
+create policy "journal_keys_select_own" on public.journal_keys
+  for select using (auth.uid() = user_id);
+
+create policy "journal_keys_insert_own" on public.journal_keys
+  for insert with check (auth.uid() = user_id);
+
+create policy "journal_keys_update_own" on public.journal_keys
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Entradas cifradas: el cuerpo queda vacío y el Markdown cifrado va en
+-- body_ciphertext. El título, la fecha y las etiquetas siguen en claro
+-- para poder listar y buscar.
+alter table public.journal_entries
+  add column if not exists encrypted boolean not null default false,
+  add column if not exists body_ciphertext text
+    check (char_length(body_ciphertext) <= 100000);
+
+alter table public.journal_entries
+  add constraint journal_entries_encryption_check check (
+    (encrypted and body = '' and body_ciphertext is not null)
+    or (not encrypted and body_ciphertext is null)
+  );
+
+-- Con el cifrado activo no se acepta contenido sin cifrar, aunque la
+-- aplicación tenga un error
+create or replace function public.reject_plaintext_journal_body()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.body <> '' and exists (
+    select 1 from public.journal_keys where user_id = new.user_id
+  ) then
+    raise exception 'La bitácora de este usuario está cifrada'
+      using errcode = 'check_violation';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists journal_entries_reject_plaintext on public.journal_entries;
+create trigger journal_entries_reject_plaintext
+  before insert or update of body on public.journal_entries
+  for each row execute function public.reject_plaintext_journal_body();
@@ -0,0 +1,75 @@
+-- Tablero del equipo: solo semanas cerradas
+--
+-- La versión anterior recibía el rango, la zona horaria y el mínimo de
+-- integrantes. Moviendo la ventana o la zona horaria, o comparando la
+-- semana en curso antes y después de un registro, se podía despejar el
+-- promedio de una sola persona.
+--
+-- Ahora quien llama solo elige cuántas semanas quiere. El rango se ajusta
+-- a semanas ISO completas (lunes a domingo) en la zona horaria del
+-- semillero, la semana en curso nunca se incluye y el mínimo de
+-- integrantes es fijo. La zona horaria debe coincidir con
+-- siteConfig.timezone (lib/config/site.ts).
+drop function if exists public.team_wellbeing_weekly(timestamptz, timestamptz, text, integer);
+
+create or replace function public.team_wellbeing_weekly(p_weeks integer)
+returns table (
+  week_start date,
+  suppressed boolean,
+  contributors integer,
+  entry_count integer,
+  average_mood numeric,
+  low_mood_share numeric
+)
+language plpgsql
+stable
+security definer set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  c_timezone constant text := 'America/Bogota';
+  c_min_contributors constant integer := 5;
+  c_max_weeks constant integer := 52;
+  -- Lunes de la semana en curso (excluida)
+  v_current_week date := date_trunc('week', now() at time zone c_timezone)::date;
+  v_first_week date :=
+    v_current_week - 7 * least(greatest(coalesce(p_weeks, 0), 0), c_max_weeks);
+begin
+  if not public.is_coordinator() then
+    raise exception 'team_wellbeing_weekly requires a coordinator role'
+      using errcode = '42501';
+  end if;
+
+  return query
+  with per_member as (
+    select
+      date_trunc('week', m.recorded_at at time zone c_timezone)::date as week,
+      m.user_id,
+      count(*) as entries,
+      avg(1 + 4 * m.mood_score) as member_average
+    from public.mood_entries m
+    join public.profiles p on p.id = m.user_id
+    where m.recorded_at >= v_first_week::timestamp at time zone c_timezone
+      and m.recorded_at < v_current_week::timestamp at time zone c_timezone
+      and not p.team_aggregation_opt_out
+    group by 1, 2
+  )
+  select
+    pm.week,
+    count(*) < c_min_contributors,
+    case when count(*) >= c_min_contributors then count(*)::integer end,
+    case when count(*) >= c_min_contributors then sum(pm.entries)::integer end,
+    case when count(*) >= c_min_contributors
+      then round(avg(pm.member_average), 2)
+    end,
+    case when count(*) >= c_min_contributors
+      then round(avg((pm.member_average <= 2.5)::integer), 2)
+    end
+  from per_member pm
+  group by pm.week
+  order by pm.week;
+end;
+$$;
+
+revoke execute on function public.team_wellbeing_weekly(integer) from public, anon;
+grant execute on function public.team_wellbeing_weekly(integer) to authenticated;
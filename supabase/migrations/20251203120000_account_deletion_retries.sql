@@ -0,0 +1,53 @@
+-- Eliminación de cuenta: reintentos y actividades del equipo
+--
+-- 1. Si el borrado de datos falla a mitad de camino, la siguiente
+--    corrida solo encuentra lo que quedó. Los conteos se acumulan en la
+--    solicitud para que la auditoría refleje todo lo borrado, no solo el
+--    último intento.
+-- 2. Las actividades que creó quien elimina su cuenta son del equipo:
+--    se conservan (con las respuestas de los demás) y quedan sin
+--    creador. Los coordinadores las siguen gestionando.
+alter table public.account_deletion_requests
+  add column if not exists purged_mood_entries integer not null default 0,
+  add column if not exists purged_journal_entries integer not null default 0,
+  add column if not exists purged_activity_rsvps integer not null default 0,
+  add column if not exists purged_storage_objects integer not null default 0;
+
+-- Suma lo borrado en un intento y devuelve el acumulado
+create or replace function public.record_account_purge(
+  p_user_id uuid,
+  p_mood_entries integer,
+  p_journal_entries integer,
+  p_activity_rsvps integer,
+  p_storage_objects integer
+)
+returns table (
+  mood_entries integer,
+  journal_entries integer,
+  activity_rsvps integer,
+  storage_objects integer
+)
+language sql
+as $$
+  update public.account_deletion_requests
+  set
+    purged_mood_entries = purged_mood_entries + p_mood_entries,
+    purged_journal_entries = purged_journal_entries + p_journal_entries,
+    purged_activity_rsvps = purged_activity_rsvps + p_activity_rsvps,
+    purged_storage_objects = purged_storage_objects + p_storage_objects
+  where user_id = p_user_id
+  returning
+    purged_mood_entries,
+    purged_journal_entries,
+    purged_activity_rsvps,
+    purged_storage_objects;
+$$;
+
+-- Solo la service role (el cron) la usa
+revoke execute on function public.record_account_purge(uuid, integer, integer, integer, integer) from public, anon, authenticated;
+
+alter table public.activities
+  alter column created_by drop not null,
+  drop constraint if exists activities_created_by_fkey,
+  add constraint activities_created_by_fkey
+    foreign key (created_by) references public.profiles (id) on delete set null;
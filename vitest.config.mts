@@ -0,0 +1,22 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+const fromRoot = (path: string) =>
+  fileURLToPath(new URL(path, import.meta.url));
+
+// Los mismos alias que `paths` en tsconfig.json
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@app": fromRoot("./app"),
+      "@features": fromRoot("./features"),
+      "@shared": fromRoot("./shared"),
+      "@lib": fromRoot("./lib"),
+      "@": fromRoot("."),
+    },
+  },
+  test: {
+    include: ["**/*.test.{ts,tsx}"],
+    exclude: ["node_modules", ".next"],
+  },
+});